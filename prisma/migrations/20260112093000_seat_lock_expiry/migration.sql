@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "seats" ADD COLUMN     "lock_expires_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "seats_status_lock_expires_at_idx" ON "seats"("status", "lock_expires_at");
+
+-- Backfill: seats locked before this migration get the default lock
+-- duration (15 minutes) from their last update, so the sweeper frees them
+UPDATE "seats" SET "lock_expires_at" = "updated_at" + INTERVAL '15 minutes' WHERE "status" = 'LOCKED';
@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'PARTIALLY_REFUNDED';
+ALTER TYPE "OrderStatus" ADD VALUE 'REFUNDED';
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "refund_reason" TEXT,
+ADD COLUMN     "refunded_at" TIMESTAMP(3);
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "SeatStatus" ADD VALUE 'HELD';
+
+-- AlterTable
+ALTER TABLE "seats" ADD COLUMN     "held_by" TEXT,
+ADD COLUMN     "hold_reason" TEXT;
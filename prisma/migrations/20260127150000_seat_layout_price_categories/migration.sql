@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "seats" ADD COLUMN     "number" INTEGER,
+ADD COLUMN     "price_category_id" TEXT,
+ADD COLUMN     "row" TEXT,
+ADD COLUMN     "section" TEXT;
+
+-- CreateTable
+CREATE TABLE "price_categories" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "price_categories_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "price_categories_event_id_name_key" ON "price_categories"("event_id", "name");
+
+-- CreateIndex
+CREATE INDEX "seats_event_id_section_row_idx" ON "seats"("event_id", "section", "row");
+
+-- CreateIndex
+CREATE INDEX "seats_price_category_id_idx" ON "seats"("price_category_id");
+
+-- AddForeignKey
+ALTER TABLE "price_categories" ADD CONSTRAINT "price_categories_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "seats" ADD CONSTRAINT "seats_price_category_id_fkey" FOREIGN KEY ("price_category_id") REFERENCES "price_categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "seats" ADD COLUMN     "lock_extensions" INTEGER NOT NULL DEFAULT 0;
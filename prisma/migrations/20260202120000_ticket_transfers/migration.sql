@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "TicketTransferStatus" AS ENUM ('PENDING', 'ACCEPTED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "ticket_transfers" (
+    "id" TEXT NOT NULL,
+    "seat_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "from_user_id" TEXT NOT NULL,
+    "to_email" TEXT NOT NULL,
+    "to_user_id" TEXT,
+    "status" "TicketTransferStatus" NOT NULL DEFAULT 'PENDING',
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "accepted_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ticket_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ticket_transfers_seat_id_status_idx" ON "ticket_transfers"("seat_id", "status");
+
+-- CreateIndex
+CREATE INDEX "ticket_transfers_from_user_id_idx" ON "ticket_transfers"("from_user_id");
+
+-- AddForeignKey
+ALTER TABLE "ticket_transfers" ADD CONSTRAINT "ticket_transfers_seat_id_fkey" FOREIGN KEY ("seat_id") REFERENCES "seats"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "ResaleListingStatus" AS ENUM ('ACTIVE', 'SOLD', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "resale_price_cap_percent" INTEGER DEFAULT 100;
+
+-- CreateTable
+CREATE TABLE "resale_listings" (
+    "id" TEXT NOT NULL,
+    "seat_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "seller_id" TEXT NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "status" "ResaleListingStatus" NOT NULL DEFAULT 'ACTIVE',
+    "buyer_id" TEXT,
+    "lock_expires_at" TIMESTAMP(3),
+    "platform_fee" DECIMAL(10,2),
+    "seller_payout" DECIMAL(10,2),
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sold_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "resale_listings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "resale_listings_event_id_status_idx" ON "resale_listings"("event_id", "status");
+
+-- CreateIndex
+CREATE INDEX "resale_listings_seat_id_status_idx" ON "resale_listings"("seat_id", "status");
+
+-- CreateIndex
+CREATE INDEX "resale_listings_seller_id_idx" ON "resale_listings"("seller_id");
+
+-- AddForeignKey
+ALTER TABLE "resale_listings" ADD CONSTRAINT "resale_listings_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "resale_listings" ADD CONSTRAINT "resale_listings_seat_id_fkey" FOREIGN KEY ("seat_id") REFERENCES "seats"("id") ON DELETE CASCADE ON UPDATE CASCADE;
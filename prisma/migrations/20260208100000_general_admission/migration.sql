@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "GaReservationStatus" AS ENUM ('LOCKED', 'SOLD', 'RELEASED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "ga_zones" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "capacity" INTEGER NOT NULL,
+    "available" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ga_zones_pkey" PRIMARY KEY ("id"),
+    -- Last line of defence against overselling
+    CONSTRAINT "ga_zones_available_check" CHECK ("available" >= 0 AND "available" <= "capacity")
+);
+
+-- CreateTable
+CREATE TABLE "ga_reservations" (
+    "id" TEXT NOT NULL,
+    "zone_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unit_price" DECIMAL(10,2) NOT NULL,
+    "status" "GaReservationStatus" NOT NULL DEFAULT 'LOCKED',
+    "lock_expires_at" TIMESTAMP(3),
+    "payment_reference" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sold_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ga_reservations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ga_zones_event_id_idx" ON "ga_zones"("event_id");
+
+-- CreateIndex
+CREATE INDEX "ga_reservations_zone_id_idx" ON "ga_reservations"("zone_id");
+
+-- CreateIndex
+CREATE INDEX "ga_reservations_user_id_idx" ON "ga_reservations"("user_id");
+
+-- CreateIndex
+CREATE INDEX "ga_reservations_status_lock_expires_at_idx" ON "ga_reservations"("status", "lock_expires_at");
+
+-- AddForeignKey
+ALTER TABLE "ga_zones" ADD CONSTRAINT "ga_zones_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ga_reservations" ADD CONSTRAINT "ga_reservations_zone_id_fkey" FOREIGN KEY ("zone_id") REFERENCES "ga_zones"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- CreateTable
+CREATE TABLE "seat_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "seat_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "seat_template_seats" (
+    "id" TEXT NOT NULL,
+    "template_id" TEXT NOT NULL,
+    "seat_number" TEXT NOT NULL,
+    "section" TEXT,
+    "row" TEXT,
+    "number" INTEGER,
+    "price" DECIMAL(10,2) NOT NULL,
+    "price_category_name" TEXT,
+
+    CONSTRAINT "seat_template_seats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "performances" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "seat_template_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "performances_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: every existing event gets one performance at its date, owning its current seats
+INSERT INTO "performances" ("id", "event_id", "starts_at", "created_at", "updated_at")
+SELECT 'perf-' || "id", "id", "date", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP FROM "events";
+
+-- AlterTable
+ALTER TABLE "seats" ADD COLUMN "performance_id" TEXT;
+UPDATE "seats" SET "performance_id" = 'perf-' || "event_id";
+ALTER TABLE "seats" ALTER COLUMN "performance_id" SET NOT NULL;
+
+-- DropIndex (seat numbers repeat across performances of an event)
+DROP INDEX "seats_event_id_seat_number_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seats_performance_id_seat_number_key" ON "seats"("performance_id", "seat_number");
+
+-- CreateIndex
+CREATE INDEX "seats_performance_id_idx" ON "seats"("performance_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seat_template_seats_template_id_seat_number_key" ON "seat_template_seats"("template_id", "seat_number");
+
+-- CreateIndex
+CREATE INDEX "performances_event_id_starts_at_idx" ON "performances"("event_id", "starts_at");
+
+-- CreateIndex
+CREATE INDEX "performances_starts_at_idx" ON "performances"("starts_at");
+
+-- AddForeignKey
+ALTER TABLE "seat_template_seats" ADD CONSTRAINT "seat_template_seats_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "seat_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "performances" ADD CONSTRAINT "performances_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "performances" ADD CONSTRAINT "performances_seat_template_id_fkey" FOREIGN KEY ("seat_template_id") REFERENCES "seat_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "seats" ADD CONSTRAINT "seats_performance_id_fkey" FOREIGN KEY ("performance_id") REFERENCES "performances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "EventStatus" AS ENUM ('DRAFT', 'SCHEDULED', 'ON_SALE', 'SOLD_OUT', 'CLOSED', 'CANCELLED');
+
+-- AlterTable
+-- Existing events were all purchasable, so they start ON_SALE with an open-ended window;
+-- new events start as drafts
+ALTER TABLE "events" ADD COLUMN     "status" "EventStatus" NOT NULL DEFAULT 'ON_SALE',
+ADD COLUMN     "sales_start_at" TIMESTAMP(3),
+ADD COLUMN     "sales_end_at" TIMESTAMP(3);
+
+ALTER TABLE "events" ALTER COLUMN "status" SET DEFAULT 'DRAFT';
+
+-- AddCheck
+ALTER TABLE "events" ADD CONSTRAINT "events_sales_window_check" CHECK ("sales_end_at" IS NULL OR "sales_start_at" IS NULL OR "sales_end_at" > "sales_start_at");
+
+-- CreateIndex
+CREATE INDEX "events_status_idx" ON "events"("status");
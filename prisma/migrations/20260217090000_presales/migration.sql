@@ -0,0 +1,62 @@
+-- CreateTable
+CREATE TABLE "presales" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "presales_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "presales_window_check" CHECK ("ends_at" > "starts_at")
+);
+
+-- CreateTable
+CREATE TABLE "presale_codes" (
+    "id" TEXT NOT NULL,
+    "presale_id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "single_use" BOOLEAN NOT NULL DEFAULT false,
+    "ticket_quota" INTEGER NOT NULL,
+    "tickets_remaining" INTEGER NOT NULL,
+    "uses" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "presale_codes_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "presale_codes_tickets_remaining_check" CHECK ("tickets_remaining" >= 0 AND "tickets_remaining" <= "ticket_quota")
+);
+
+-- CreateTable
+CREATE TABLE "presale_redemptions" (
+    "id" TEXT NOT NULL,
+    "presale_code_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "presale_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "presales_event_id_starts_at_idx" ON "presales"("event_id", "starts_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "presale_codes_presale_id_code_key" ON "presale_codes"("presale_id", "code");
+
+-- CreateIndex
+CREATE INDEX "presale_redemptions_presale_code_id_idx" ON "presale_redemptions"("presale_code_id");
+
+-- CreateIndex
+CREATE INDEX "presale_redemptions_user_id_idx" ON "presale_redemptions"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "presales" ADD CONSTRAINT "presales_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "presale_codes" ADD CONSTRAINT "presale_codes_presale_id_fkey" FOREIGN KEY ("presale_id") REFERENCES "presales"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "presale_redemptions" ADD CONSTRAINT "presale_redemptions_presale_code_id_fkey" FOREIGN KEY ("presale_code_id") REFERENCES "presale_codes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "event_cancellations" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "cancelled_by" TEXT NOT NULL,
+    "reason" TEXT,
+    "total_refunds" INTEGER NOT NULL,
+    "refunded_count" INTEGER NOT NULL DEFAULT 0,
+    "failed_count" INTEGER NOT NULL DEFAULT 0,
+    "total_batches" INTEGER NOT NULL,
+    "processed_batches" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_cancellations_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "event_cancellations_progress_check" CHECK ("processed_batches" <= "total_batches" AND "refunded_count" + "failed_count" <= "total_refunds")
+);
+
+-- CreateTable
+CREATE TABLE "event_cancellation_batches" (
+    "cancellation_id" TEXT NOT NULL,
+    "batch_number" INTEGER NOT NULL,
+    "refunded_count" INTEGER NOT NULL,
+    "failed_count" INTEGER NOT NULL,
+    "processed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_cancellation_batches_pkey" PRIMARY KEY ("cancellation_id","batch_number")
+);
+
+-- CreateTable
+CREATE TABLE "failed_refunds" (
+    "id" TEXT NOT NULL,
+    "cancellation_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "seat_id" TEXT NOT NULL,
+    "batch_number" INTEGER NOT NULL,
+    "error" TEXT NOT NULL,
+    "failed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "failed_refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_cancellations_event_id_key" ON "event_cancellations"("event_id");
+
+-- CreateIndex
+CREATE INDEX "failed_refunds_cancellation_id_failed_at_idx" ON "failed_refunds"("cancellation_id", "failed_at");
+
+-- AddForeignKey
+ALTER TABLE "event_cancellations" ADD CONSTRAINT "event_cancellations_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_cancellation_batches" ADD CONSTRAINT "event_cancellation_batches_cancellation_id_fkey" FOREIGN KEY ("cancellation_id") REFERENCES "event_cancellations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "failed_refunds" ADD CONSTRAINT "failed_refunds_cancellation_id_fkey" FOREIGN KEY ("cancellation_id") REFERENCES "event_cancellations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
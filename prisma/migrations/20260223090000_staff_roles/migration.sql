@@ -0,0 +1,4 @@
+-- AlterEnum
+ALTER TYPE "UserRole" ADD VALUE 'BOX_OFFICE';
+ALTER TYPE "UserRole" ADD VALUE 'ORGANIZER';
+ALTER TYPE "UserRole" ADD VALUE 'SUPPORT';
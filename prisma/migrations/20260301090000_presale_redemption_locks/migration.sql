@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "presale_redemption_locks" (
+    "redemption_id" TEXT NOT NULL,
+    "lock_id" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "presale_redemption_locks_pkey" PRIMARY KEY ("redemption_id","lock_id")
+);
+
+-- CreateIndex
+CREATE INDEX "presale_redemption_locks_lock_id_idx" ON "presale_redemption_locks"("lock_id");
+
+-- AddForeignKey
+ALTER TABLE "presale_redemption_locks" ADD CONSTRAINT "presale_redemption_locks_redemption_id_fkey" FOREIGN KEY ("redemption_id") REFERENCES "presale_redemptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "GaReservationStatus" ADD VALUE 'REFUNDED';
+
+-- AlterTable
+ALTER TABLE "failed_refunds" ALTER COLUMN "seat_id" DROP NOT NULL,
+ADD COLUMN "ga_reservation_id" TEXT;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "order_items" ALTER COLUMN "seat_id" DROP NOT NULL,
+ADD COLUMN "ga_reservation_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "order_items_ga_reservation_id_idx" ON "order_items"("ga_reservation_id");
+
+-- AddForeignKey
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_ga_reservation_id_fkey" FOREIGN KEY ("ga_reservation_id") REFERENCES "ga_reservations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -1,58 +1,91 @@
 -- Clear existing data
+TRUNCATE TABLE presales CASCADE;
+TRUNCATE TABLE ga_zones CASCADE;
 TRUNCATE TABLE seats CASCADE;
+TRUNCATE TABLE performances CASCADE;
+TRUNCATE TABLE seat_templates CASCADE;
+TRUNCATE TABLE price_categories CASCADE;
 TRUNCATE TABLE events CASCADE;
 
--- Insert Events
-INSERT INTO events (id, title, description, date, location, total_seats, created_at, updated_at)
+-- Insert Events (Event 3 is announced and goes on sale tomorrow)
+INSERT INTO events (id, title, description, date, location, total_seats, status, sales_start_at, created_at, updated_at)
 VALUES 
-    ('evt-1', 'Avengers: Secret Wars', 'The epic conclusion to the multiverse saga.', NOW() + INTERVAL '7 days', 'IMAX Hall 1', 50, NOW(), NOW()),
-    ('evt-2', 'Coldplay Live in Istanbul', 'Music of the Spheres World Tour.', NOW() + INTERVAL '30 days', 'Olympic Stadium', 100, NOW(), NOW());
-
--- Insert Seats for Event 1 (50 Seats)
-DO $$
-DECLARE
-    r INT;
-    price DECIMAL := 15.00;
-BEGIN
-    FOR r IN 1..50 LOOP
-        INSERT INTO seats (id, event_id, seat_number, status, price, version, created_at, updated_at)
-        VALUES (
-            gen_random_uuid()::text, 
-            'evt-1', 
-            'A-' || r, 
-            'AVAILABLE', 
-            price, 
-            1, 
-            NOW(), 
-            NOW()
-        );
-    END LOOP;
-END $$;
-
--- Insert Seats for Event 2 (100 Seats with different prices)
-DO $$
-DECLARE
-    r INT;
-    price DECIMAL;
-BEGIN
-    FOR r IN 1..100 LOOP
-        -- VIP first 20 seats
-        IF r <= 20 THEN
-            price := 150.00;
-        ELSE
-            price := 75.00;
-        END IF;
-
-        INSERT INTO seats (id, event_id, seat_number, status, price, version, created_at, updated_at)
-        VALUES (
-            gen_random_uuid()::text, 
-            'evt-2', 
-            'B-' || r, 
-            'AVAILABLE', 
-            price, 
-            1, 
-            NOW(), 
-            NOW()
-        );
-    END LOOP;
-END $$;
+    ('evt-1', 'Avengers: Secret Wars', 'The epic conclusion to the multiverse saga.', date_trunc('day', NOW()) + INTERVAL '7 days 18 hours', 'IMAX Hall 1', 50, 'ON_SALE', NULL, NOW(), NOW()),
+    ('evt-2', 'Coldplay Live in Istanbul', 'Music of the Spheres World Tour.', date_trunc('day', NOW()) + INTERVAL '30 days 20 hours', 'Olympic Stadium', 100, 'ON_SALE', NULL, NOW(), NOW()),
+    ('evt-3', 'Dune: Part Three', 'The final chapter of the Dune saga.', date_trunc('day', NOW()) + INTERVAL '21 days 19 hours', 'IMAX Hall 1', 50, 'SCHEDULED', date_trunc('hour', NOW()) + INTERVAL '1 day', NOW(), NOW());
+
+-- Price table for Event 2 (changing a category price updates every seat in it)
+INSERT INTO price_categories (id, event_id, name, price, created_at, updated_at)
+VALUES
+    ('evt-2-vip', 'evt-2', 'VIP', 150.00, NOW(), NOW()),
+    ('evt-2-standard', 'evt-2', 'Standard', 75.00, NOW(), NOW());
+
+-- Seat templates (reusable venue layouts)
+INSERT INTO seat_templates (id, name, created_at, updated_at)
+VALUES
+    ('tpl-imax-hall-1', 'IMAX Hall 1', NOW(), NOW()),
+    ('tpl-stadium-floor', 'Olympic Stadium Floor', NOW(), NOW());
+
+-- IMAX Hall 1: 50 seats A-1..A-50
+INSERT INTO seat_template_seats (id, template_id, seat_number, price)
+SELECT gen_random_uuid()::text, 'tpl-imax-hall-1', 'A-' || r, 15.00
+FROM generate_series(1, 50) AS r;
+
+-- Stadium Floor: 100 seats, rows A-J with 10 seats per row, first 2 rows VIP
+INSERT INTO seat_template_seats (id, template_id, seat_number, section, row, number, price, price_category_name)
+SELECT
+    gen_random_uuid()::text,
+    'tpl-stadium-floor',
+    'B-' || r,
+    'Floor',
+    chr(64 + ((r - 1) / 10) + 1), -- A..J
+    ((r - 1) % 10) + 1,
+    75.00,
+    CASE WHEN r <= 20 THEN 'VIP' ELSE 'Standard' END
+FROM generate_series(1, 100) AS r;
+
+-- Performances: three screenings of Event 1, one concert night for Event 2, the premiere of Event 3
+INSERT INTO performances (id, event_id, starts_at, seat_template_id, created_at, updated_at)
+VALUES
+    ('evt-1-perf-1', 'evt-1', date_trunc('day', NOW()) + INTERVAL '7 days 18 hours', 'tpl-imax-hall-1', NOW(), NOW()),
+    ('evt-1-perf-2', 'evt-1', date_trunc('day', NOW()) + INTERVAL '7 days 21 hours', 'tpl-imax-hall-1', NOW(), NOW()),
+    ('evt-1-perf-3', 'evt-1', date_trunc('day', NOW()) + INTERVAL '8 days 20 hours', 'tpl-imax-hall-1', NOW(), NOW()),
+    ('evt-2-perf-1', 'evt-2', date_trunc('day', NOW()) + INTERVAL '30 days 20 hours', 'tpl-stadium-floor', NOW(), NOW()),
+    ('evt-3-perf-1', 'evt-3', date_trunc('day', NOW()) + INTERVAL '21 days 19 hours', 'tpl-imax-hall-1', NOW(), NOW());
+
+-- Generate each performance's seats from its template
+-- (template seats in a price category take the event's category and price)
+INSERT INTO seats (id, event_id, performance_id, seat_number, section, row, number, price_category_id, status, price, version, created_at, updated_at)
+SELECT
+    gen_random_uuid()::text,
+    p.event_id,
+    p.id,
+    t.seat_number,
+    t.section,
+    t.row,
+    t.number,
+    pc.id,
+    'AVAILABLE',
+    COALESCE(pc.price, t.price),
+    1,
+    NOW(),
+    NOW()
+FROM performances p
+JOIN seat_template_seats t ON t.template_id = p.seat_template_id
+LEFT JOIN price_categories pc ON pc.event_id = p.event_id AND pc.name = t.price_category_name;
+
+-- General-admission zone for Event 2 (standing area behind the Floor seats)
+INSERT INTO ga_zones (id, event_id, name, price, capacity, available, created_at, updated_at)
+VALUES
+    ('evt-2-standing', 'evt-2', 'Standing', 45.00, 500, 500, NOW(), NOW());
+
+-- Fan club presale for Event 3, running until its general on-sale
+INSERT INTO presales (id, event_id, name, starts_at, ends_at, created_at, updated_at)
+VALUES
+    ('evt-3-fanclub', 'evt-3', 'Fan Club', date_trunc('hour', NOW()), date_trunc('hour', NOW()) + INTERVAL '1 day', NOW(), NOW());
+
+-- A shared fan club code (40 tickets in total) and a single-use code for up to 4 tickets
+INSERT INTO presale_codes (id, presale_id, code, single_use, ticket_quota, tickets_remaining, uses, created_at, updated_at)
+VALUES
+    ('evt-3-fanclub-shared', 'evt-3-fanclub', 'DUNEFANS', false, 40, 40, 0, NOW(), NOW()),
+    ('evt-3-fanclub-single', 'evt-3-fanclub', 'SPICE-4U', true, 4, 4, 0, NOW(), NOW());
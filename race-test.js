@@ -2,17 +2,30 @@
 const SEAT_ID = "9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d";
 const EVENT_ID = "a20e463d-4c8e-5bfe-8aec-1c0e8c4edb7e";
 
-// İki farklı kullanıcı
-const USER_A_ID = "110ec58a-a0f2-4ac4-8393-c866d813b8d1";
-const USER_B_ID = "220ec58a-b0f2-5bc5-9404-d977e924c9e2";
+// İki farklı kullanıcı (ilk çalıştırmada hesapları oluşturulur)
+const USER_A = { email: "race-a@example.com", password: "race-test-a" };
+const USER_B = { email: "race-b@example.com", password: "race-test-b" };
 
-async function buyTicket(userId, name) {
+// Giriş yapar ve oturum çerezini döner (hesap yoksa önce kaydolur)
+async function signIn({ email, password }) {
+  const body = JSON.stringify({ email, password });
+  const headers = { 'Content-Type': 'application/json' };
+
+  let res = await fetch('http://localhost:3000/api/v1/auth/login', { method: 'POST', headers, body });
+  if (res.status === 401) {
+    res = await fetch('http://localhost:3000/api/v1/auth/register', { method: 'POST', headers, body });
+  }
+
+  return res.headers.get('set-cookie').split(';')[0];
+}
+
+async function buyTicket(cookie, name) {
   const start = Date.now();
   try {
     const res = await fetch('http://localhost:3000/api/v1/seats/lock', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ seatId: SEAT_ID, userId: userId })
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ seatId: SEAT_ID })
     });
 
     const data = await res.json();
@@ -28,10 +41,16 @@ async function buyTicket(userId, name) {
   }
 }
 
-console.log("🏁 YARIŞ BAŞLIYOR: İki kullanıcı aynı anda butona basıyor...\n");
+async function race() {
+  const [cookieA, cookieB] = await Promise.all([signIn(USER_A), signIn(USER_B)]);
+
+  console.log("🏁 YARIŞ BAŞLIYOR: İki kullanıcı aynı anda butona basıyor...\n");
+
+  // Promise.all ile istekleri PARALEL gönderiyoruz (sıralı değil!)
+  await Promise.all([
+    buyTicket(cookieA, "Kullanıcı A"),
+    buyTicket(cookieB, "Kullanıcı B")
+  ]);
+}
 
-// Promise.all ile istekleri PARALEL gönderiyoruz (sıralı değil!)
-Promise.all([
-  buyTicket(USER_A_ID, "Kullanıcı A"),
-  buyTicket(USER_B_ID, "Kullanıcı B")
-]);
\ No newline at end of file
+race();
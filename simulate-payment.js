@@ -1,19 +1,26 @@
 // simulate-payment.js
 
-// ⚠️ BURALARI DOLDUR: Az önce kilitlediğin (LOCKED) koltuğun ve kullanıcının ID'si
+// ⚠️ BURALARI DOLDUR: Az önce kilitlediğin (LOCKED) koltuğun ID'si ve kilitleyen kullanıcının hesabı
 const SEAT_ID = "9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d"; 
-const USER_ID = "220ec58a-b0f2-5bc5-9404-d977e924c9e2";
+const USER = { email: "race-b@example.com", password: "race-test-b" };
 
 async function payForTicket() {
   console.log("💳 Ödeme işlemi simüle ediliyor...");
   
   try {
-    const res = await fetch('http://localhost:3000/api/v1/payments/confirm', {
+    // Ödemeyi yalnızca kilidi tutan kullanıcı onaylayabilir: önce giriş yap
+    const login = await fetch('http://localhost:3000/api/v1/auth/login', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(USER)
+    });
+    const cookie = (login.headers.get('set-cookie') ?? '').split(';')[0];
+
+    const res = await fetch('http://localhost:3000/api/v1/payments/confirm', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
       body: JSON.stringify({ 
-        seatId: SEAT_ID, 
-        userId: USER_ID 
+        seatId: SEAT_ID 
       })
     });
 
@@ -32,4 +39,4 @@ async function payForTicket() {
   }
 }
 
-payForTicket();
\ No newline at end of file
+payForTicket();
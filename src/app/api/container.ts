@@ -9,8 +9,26 @@
  * @see https://blog.ploeh.dk/2011/07/28/CompositionRoot/
  */
 
-import { BookingService } from '@/core/services/BookingService';
+import {
+  BookingService,
+  DEFAULT_LOCK_EXTENSION_POLICY,
+  type LockExtensionPolicy,
+} from '@/core/services/BookingService';
+import type { IdempotencyService } from '@/core/services/IdempotencyService';
+import type { WaitlistService } from '@/core/services/WaitlistService';
+import type { WaitingRoomService } from '@/core/services/WaitingRoomService';
+import type { ResaleService } from '@/core/services/ResaleService';
+import type { SeatAllocationService } from '@/core/services/SeatAllocationService';
+import type { GeneralAdmissionService } from '@/core/services/GeneralAdmissionService';
+import type { PerformanceService } from '@/core/services/PerformanceService';
+import type { EventService } from '@/core/services/EventService';
+import type { EventCancellationService } from '@/core/services/EventCancellationService';
+import type { AuthService } from '@/core/services/AuthService';
+import type { GuestCheckoutService } from '@/core/services/GuestCheckoutService';
+import type { TicketService } from '@/core/services/TicketService';
+import type { ApiKeyService } from '@/core/services/ApiKeyService';
 import type { ISeatRepository } from '@/core/interfaces/ISeatRepository';
+import type { IOrderRepository } from '@/core/interfaces/IOrderRepository';
 
 // ===========================================
 // Lazy-loaded Singleton Instances
@@ -23,6 +41,10 @@ let _bookingService: BookingService | null = null;
  * 
  * Wiring:
  * PrismaSeatRepository → CachedSeatRepository (decorator) → BookingService
+ * PrismaOrderRepository → CachedOrderRepository (decorator) → BookingService
+ * PrismaTicketTransferRepository → CachedTicketTransferRepository (decorator) → BookingService
+ * PrismaSalesWindowRepository (event status and on-sale window) → BookingService
+ * PrismaPresaleRepository (presale windows and code quotas) → BookingService
  * 
  * The cache decorator adds:
  * - Read-through caching (60s TTL)
@@ -34,6 +56,12 @@ export async function getBookingService(): Promise<BookingService> {
     const { prisma } = await import('@/infrastructure/db/prisma');
     const { PrismaSeatRepository } = await import('@/infrastructure/repositories/PrismaSeatRepository');
     const { CachedSeatRepository } = await import('@/infrastructure/repositories/CachedSeatRepository');
+    const { PrismaOrderRepository } = await import('@/infrastructure/repositories/PrismaOrderRepository');
+    const { CachedOrderRepository } = await import('@/infrastructure/repositories/CachedOrderRepository');
+    const { PrismaTicketTransferRepository } = await import('@/infrastructure/repositories/PrismaTicketTransferRepository');
+    const { CachedTicketTransferRepository } = await import('@/infrastructure/repositories/CachedTicketTransferRepository');
+    const { PrismaSalesWindowRepository } = await import('@/infrastructure/repositories/PrismaSalesWindowRepository');
+    const { PrismaPresaleRepository } = await import('@/infrastructure/repositories/PrismaPresaleRepository');
     const { RedisService } = await import('@/infrastructure/cache/RedisService');
     const { RabbitMQClient } = await import('@/infrastructure/messaging/RabbitMQClient');
     const { RabbitMQEventPublisher } = await import('@/infrastructure/messaging/RabbitMQEventPublisher');
@@ -48,12 +76,39 @@ export async function getBookingService(): Promise<BookingService> {
       60 // TTL in seconds
     );
 
+    // Orders are written together with their seats (same transaction),
+    // so the decorator only needs to invalidate seat caches
+    const orderRepository: IOrderRepository = new CachedOrderRepository(
+      new PrismaOrderRepository(prisma, prismaRepository),
+      redisCache
+    );
+
+    // Accepting a transfer changes the seat owner, so seat caches are invalidated too
+    const transferRepository = new CachedTicketTransferRepository(
+      new PrismaTicketTransferRepository(prisma, prismaRepository),
+      redisCache
+    );
+
     // Create Messaging infrastructure
     const rabbitMQClient = RabbitMQClient.getInstance();
     const eventPublisher = new RabbitMQEventPublisher(rabbitMQClient);
     
-    // Inject the cached repository AND event publisher into the service
-    _bookingService = new BookingService(cachedRepository, eventPublisher);
+    // Lock extensions are configurable per deployment
+    const lockExtensionPolicy: LockExtensionPolicy = {
+      extensionMs: Number(process.env.LOCK_EXTENSION_MS) || DEFAULT_LOCK_EXTENSION_POLICY.extensionMs,
+      maxExtensions: Number(process.env.LOCK_MAX_EXTENSIONS) || DEFAULT_LOCK_EXTENSION_POLICY.maxExtensions,
+    };
+
+    // Inject the cached repositories AND event publisher into the service
+    _bookingService = new BookingService(
+      cachedRepository,
+      orderRepository,
+      eventPublisher,
+      lockExtensionPolicy,
+      transferRepository,
+      new PrismaSalesWindowRepository(prisma),
+      new PrismaPresaleRepository(prisma)
+    );
   }
   return _bookingService;
 }
@@ -77,3 +132,384 @@ export async function getSeatRepository(): Promise<ISeatRepository> {
   }
   return _seatRepository;
 }
+
+let _orderRepository: IOrderRepository | null = null;
+
+export async function getOrderRepository(): Promise<IOrderRepository> {
+  if (!_orderRepository) {
+      const { prisma } = await import('@/infrastructure/db/prisma');
+      const { PrismaSeatRepository } = await import('@/infrastructure/repositories/PrismaSeatRepository');
+      const { PrismaOrderRepository } = await import('@/infrastructure/repositories/PrismaOrderRepository');
+      const { CachedOrderRepository } = await import('@/infrastructure/repositories/CachedOrderRepository');
+      const { RedisService } = await import('@/infrastructure/cache/RedisService');
+
+      _orderRepository = new CachedOrderRepository(
+        new PrismaOrderRepository(prisma, new PrismaSeatRepository(prisma)),
+        new RedisService(60)
+      );
+  }
+  return _orderRepository;
+}
+
+let _idempotencyService: IdempotencyService | null = null;
+
+/**
+ * Gets the Idempotency Service singleton (keys stored in Redis for 24h)
+ */
+export async function getIdempotencyService(): Promise<IdempotencyService> {
+  if (!_idempotencyService) {
+      const { IdempotencyService } = await import('@/core/services/IdempotencyService');
+      const { RedisService } = await import('@/infrastructure/cache/RedisService');
+
+      _idempotencyService = new IdempotencyService(new RedisService());
+  }
+  return _idempotencyService;
+}
+
+let _waitlistService: WaitlistService | null = null;
+
+/**
+ * Gets the Waitlist Service singleton
+ * 
+ * Wiring:
+ * PrismaWaitlistRepository → CachedWaitlistRepository (decorator) → WaitlistService
+ * PrismaSalesWindowRepository (no offers for events off sale) → WaitlistService
+ * Seats are read through the cached seat repository.
+ */
+export async function getWaitlistService(): Promise<WaitlistService> {
+  if (!_waitlistService) {
+      const { prisma } = await import('@/infrastructure/db/prisma');
+      const { PrismaSeatRepository } = await import('@/infrastructure/repositories/PrismaSeatRepository');
+      const { PrismaWaitlistRepository } = await import('@/infrastructure/repositories/PrismaWaitlistRepository');
+      const { CachedWaitlistRepository } = await import('@/infrastructure/repositories/CachedWaitlistRepository');
+      const { RedisService } = await import('@/infrastructure/cache/RedisService');
+      const { RabbitMQClient } = await import('@/infrastructure/messaging/RabbitMQClient');
+      const { RabbitMQEventPublisher } = await import('@/infrastructure/messaging/RabbitMQEventPublisher');
+      const { PrismaSalesWindowRepository } = await import('@/infrastructure/repositories/PrismaSalesWindowRepository');
+      const { WaitlistService } = await import('@/core/services/WaitlistService');
+
+      const waitlistRepository = new CachedWaitlistRepository(
+        new PrismaWaitlistRepository(prisma, new PrismaSeatRepository(prisma)),
+        new RedisService(60)
+      );
+      const eventPublisher = new RabbitMQEventPublisher(RabbitMQClient.getInstance());
+
+      _waitlistService = new WaitlistService(
+        await getSeatRepository(),
+        waitlistRepository,
+        eventPublisher,
+        undefined, // Default offer duration
+        new PrismaSalesWindowRepository(prisma)
+      );
+  }
+  return _waitlistService;
+}
+
+let _waitingRoomService: WaitingRoomService | null = null;
+
+/**
+ * Gets the Waiting Room Service singleton
+ * 
+ * Queues live in Redis; the admission rate comes from
+ * WAITING_ROOM_ADMITS_PER_MINUTE (default 600).
+ */
+export async function getWaitingRoomService(): Promise<WaitingRoomService> {
+  if (!_waitingRoomService) {
+      const { RedisWaitingRoomQueue } = await import('@/infrastructure/cache/RedisWaitingRoomQueue');
+      const { WaitingRoomService, DEFAULT_WAITING_ROOM_ADMITS_PER_MINUTE } = await import('@/core/services/WaitingRoomService');
+
+      const admitsPerMinute =
+        Number(process.env.WAITING_ROOM_ADMITS_PER_MINUTE) || DEFAULT_WAITING_ROOM_ADMITS_PER_MINUTE;
+
+      _waitingRoomService = new WaitingRoomService(new RedisWaitingRoomQueue(), admitsPerMinute);
+  }
+  return _waitingRoomService;
+}
+
+let _resaleService: ResaleService | null = null;
+
+/**
+ * Gets the Resale Service singleton
+ * 
+ * Wiring:
+ * PrismaResaleListingRepository → CachedResaleListingRepository (decorator) → ResaleService
+ * PrismaResalePolicyRepository (event resale caps) → ResaleService
+ * Seats are read through the cached seat repository. The platform fee comes
+ * from RESALE_PLATFORM_FEE_PERCENT (default 10).
+ */
+export async function getResaleService(): Promise<ResaleService> {
+  if (!_resaleService) {
+      const { prisma } = await import('@/infrastructure/db/prisma');
+      const { PrismaSeatRepository } = await import('@/infrastructure/repositories/PrismaSeatRepository');
+      const { PrismaOrderRepository } = await import('@/infrastructure/repositories/PrismaOrderRepository');
+      const { PrismaResaleListingRepository } = await import('@/infrastructure/repositories/PrismaResaleListingRepository');
+      const { CachedResaleListingRepository } = await import('@/infrastructure/repositories/CachedResaleListingRepository');
+      const { PrismaResalePolicyRepository } = await import('@/infrastructure/repositories/PrismaResalePolicyRepository');
+      const { RedisService } = await import('@/infrastructure/cache/RedisService');
+      const { RabbitMQClient } = await import('@/infrastructure/messaging/RabbitMQClient');
+      const { RabbitMQEventPublisher } = await import('@/infrastructure/messaging/RabbitMQEventPublisher');
+      const { ResaleService, DEFAULT_RESALE_PLATFORM_FEE_PERCENT } = await import('@/core/services/ResaleService');
+
+      const prismaSeatRepository = new PrismaSeatRepository(prisma);
+      const listingRepository = new CachedResaleListingRepository(
+        new PrismaResaleListingRepository(
+          prisma,
+          prismaSeatRepository,
+          new PrismaOrderRepository(prisma, prismaSeatRepository)
+        ),
+        new RedisService(60)
+      );
+      const eventPublisher = new RabbitMQEventPublisher(RabbitMQClient.getInstance());
+
+      // A 0% fee is a valid setting, so only fall back when unset
+      const platformFeePercent = process.env.RESALE_PLATFORM_FEE_PERCENT
+        ? Number(process.env.RESALE_PLATFORM_FEE_PERCENT)
+        : DEFAULT_RESALE_PLATFORM_FEE_PERCENT;
+
+      _resaleService = new ResaleService(
+        await getSeatRepository(),
+        listingRepository,
+        new PrismaResalePolicyRepository(prisma),
+        eventPublisher,
+        platformFeePercent
+      );
+  }
+  return _resaleService;
+}
+
+let _seatAllocationService: SeatAllocationService | null = null;
+
+/**
+ * Gets the Seat Allocation Service singleton (best-available seats)
+ * 
+ * Reads the seat map through the cached seat repository and locks the
+ * chosen block through BookingService, closest to the stage first.
+ */
+export async function getSeatAllocationService(): Promise<SeatAllocationService> {
+  if (!_seatAllocationService) {
+      const { SeatAllocationService, FRONT_CENTER_STRATEGY } = await import('@/core/services/SeatAllocationService');
+
+      _seatAllocationService = new SeatAllocationService(
+        await getSeatRepository(),
+        await getBookingService(),
+        FRONT_CENTER_STRATEGY
+      );
+  }
+  return _seatAllocationService;
+}
+
+let _generalAdmissionService: GeneralAdmissionService | null = null;
+
+/**
+ * Gets the General Admission Service singleton
+ * 
+ * Zones are read straight from Postgres (no cache): `available` changes
+ * with every lock, and the atomic counter lives in the zone row. Locks are
+ * checked against the event's sales window and presales like seat locks.
+ * Purchases and refunds write the order in the reservation's transaction.
+ */
+export async function getGeneralAdmissionService(): Promise<GeneralAdmissionService> {
+  if (!_generalAdmissionService) {
+      const { prisma } = await import('@/infrastructure/db/prisma');
+      const { PrismaSeatRepository } = await import('@/infrastructure/repositories/PrismaSeatRepository');
+      const { PrismaOrderRepository } = await import('@/infrastructure/repositories/PrismaOrderRepository');
+      const { PrismaGaInventoryRepository } = await import('@/infrastructure/repositories/PrismaGaInventoryRepository');
+      const { RabbitMQClient } = await import('@/infrastructure/messaging/RabbitMQClient');
+      const { RabbitMQEventPublisher } = await import('@/infrastructure/messaging/RabbitMQEventPublisher');
+      const { PrismaSalesWindowRepository } = await import('@/infrastructure/repositories/PrismaSalesWindowRepository');
+      const { PrismaPresaleRepository } = await import('@/infrastructure/repositories/PrismaPresaleRepository');
+      const { GeneralAdmissionService } = await import('@/core/services/GeneralAdmissionService');
+
+      const orderRepository = new PrismaOrderRepository(prisma, new PrismaSeatRepository(prisma));
+
+      _generalAdmissionService = new GeneralAdmissionService(
+        new PrismaGaInventoryRepository(prisma, orderRepository),
+        orderRepository,
+        new RabbitMQEventPublisher(RabbitMQClient.getInstance()),
+        undefined, // Default expiry sweep batch size
+        new PrismaSalesWindowRepository(prisma),
+        new PrismaPresaleRepository(prisma)
+      );
+  }
+  return _generalAdmissionService;
+}
+
+let _performanceService: PerformanceService | null = null;
+
+/**
+ * Gets the Performance Service singleton
+ *
+ * Wiring:
+ * PrismaPerformanceRepository + PrismaSeatTemplateRepository + PrismaPriceCategoryRepository → PerformanceService
+ *
+ * New seats are inserted uncached: no seat map of a new performance can be cached yet.
+ */
+export async function getPerformanceService(): Promise<PerformanceService> {
+  if (!_performanceService) {
+      const { prisma } = await import('@/infrastructure/db/prisma');
+      const { PrismaPerformanceRepository } = await import('@/infrastructure/repositories/PrismaPerformanceRepository');
+      const { PrismaSeatTemplateRepository } = await import('@/infrastructure/repositories/PrismaSeatTemplateRepository');
+      const { PrismaPriceCategoryRepository } = await import('@/infrastructure/repositories/PrismaPriceCategoryRepository');
+      const { PerformanceService } = await import('@/core/services/PerformanceService');
+
+      _performanceService = new PerformanceService(
+        new PrismaPerformanceRepository(prisma),
+        new PrismaSeatTemplateRepository(prisma),
+        new PrismaPriceCategoryRepository(prisma)
+      );
+  }
+  return _performanceService;
+}
+
+let _eventService: EventService | null = null;
+
+/**
+ * Gets the Event Service singleton
+ *
+ * Wiring:
+ * PrismaEventRepository + PrismaPerformanceRepository + PrismaSeatTemplateRepository → EventService
+ * Ticket holders of a rescheduled event are read through the cached seat repository.
+ *
+ * Like new performances, a new event's seats are inserted uncached.
+ */
+export async function getEventService(): Promise<EventService> {
+  if (!_eventService) {
+      const { prisma } = await import('@/infrastructure/db/prisma');
+      const { PrismaEventRepository } = await import('@/infrastructure/repositories/PrismaEventRepository');
+      const { PrismaPerformanceRepository } = await import('@/infrastructure/repositories/PrismaPerformanceRepository');
+      const { PrismaSeatTemplateRepository } = await import('@/infrastructure/repositories/PrismaSeatTemplateRepository');
+      const { RabbitMQClient } = await import('@/infrastructure/messaging/RabbitMQClient');
+      const { RabbitMQEventPublisher } = await import('@/infrastructure/messaging/RabbitMQEventPublisher');
+      const { EventService } = await import('@/core/services/EventService');
+
+      _eventService = new EventService(
+        new PrismaEventRepository(prisma),
+        new PrismaPerformanceRepository(prisma),
+        new PrismaSeatTemplateRepository(prisma),
+        await getSeatRepository(),
+        new RabbitMQEventPublisher(RabbitMQClient.getInstance())
+      );
+  }
+  return _eventService;
+}
+
+let _eventCancellationService: EventCancellationService | null = null;
+
+/**
+ * Gets the Event Cancellation Service singleton
+ *
+ * Wiring:
+ * PrismaSalesWindowRepository (event status) + PrismaEventCancellationRepository → EventCancellationService
+ * Seats go through the cached seat repository; refunds through BookingService
+ * (GA reservations through GeneralAdmissionService).
+ * Refund jobs are REFUND_BATCH_SIZE seats each (default 100). Released locks
+ * hand their presale quota back through PrismaPresaleRepository.
+ */
+export async function getEventCancellationService(): Promise<EventCancellationService> {
+  if (!_eventCancellationService) {
+      const { prisma } = await import('@/infrastructure/db/prisma');
+      const { PrismaSalesWindowRepository } = await import('@/infrastructure/repositories/PrismaSalesWindowRepository');
+      const { PrismaEventCancellationRepository } = await import('@/infrastructure/repositories/PrismaEventCancellationRepository');
+      const { RabbitMQClient } = await import('@/infrastructure/messaging/RabbitMQClient');
+      const { RabbitMQEventPublisher } = await import('@/infrastructure/messaging/RabbitMQEventPublisher');
+      const { EventCancellationService, DEFAULT_REFUND_BATCH_SIZE } = await import('@/core/services/EventCancellationService');
+      const { PrismaPresaleRepository } = await import('@/infrastructure/repositories/PrismaPresaleRepository');
+
+      _eventCancellationService = new EventCancellationService(
+        await getSeatRepository(),
+        new PrismaSalesWindowRepository(prisma),
+        new PrismaEventCancellationRepository(prisma),
+        await getBookingService(),
+        new RabbitMQEventPublisher(RabbitMQClient.getInstance()),
+        Number(process.env.REFUND_BATCH_SIZE) || DEFAULT_REFUND_BATCH_SIZE,
+        new PrismaPresaleRepository(prisma),
+        await getGeneralAdmissionService()
+      );
+  }
+  return _eventCancellationService;
+}
+
+let _authService: AuthService | null = null;
+
+/**
+ * Gets the Auth Service singleton
+ * 
+ * Wiring:
+ * PrismaUserRepository + ScryptPasswordHasher → AuthService
+ * Users are read straight from the database: sign-ins are rare next to
+ * seat reads, and a cached user would outlive a password change.
+ */
+export async function getAuthService(): Promise<AuthService> {
+  if (!_authService) {
+      const { prisma } = await import('@/infrastructure/db/prisma');
+      const { PrismaUserRepository } = await import('@/infrastructure/repositories/PrismaUserRepository');
+      const { ScryptPasswordHasher } = await import('@/infrastructure/auth/ScryptPasswordHasher');
+      const { AuthService } = await import('@/core/services/AuthService');
+
+      _authService = new AuthService(new PrismaUserRepository(prisma), new ScryptPasswordHasher());
+  }
+  return _authService;
+}
+
+let _guestCheckoutService: GuestCheckoutService | null = null;
+
+/**
+ * Gets the Guest Checkout Service singleton
+ * 
+ * Wiring:
+ * RedisService (pending verification codes, with their TTL) → GuestCheckoutService
+ * RabbitMQEventPublisher (verification emails via the worker) → GuestCheckoutService
+ */
+export async function getGuestCheckoutService(): Promise<GuestCheckoutService> {
+  if (!_guestCheckoutService) {
+      const { RedisService } = await import('@/infrastructure/cache/RedisService');
+      const { RabbitMQClient } = await import('@/infrastructure/messaging/RabbitMQClient');
+      const { RabbitMQEventPublisher } = await import('@/infrastructure/messaging/RabbitMQEventPublisher');
+      const { GuestCheckoutService } = await import('@/core/services/GuestCheckoutService');
+
+      _guestCheckoutService = new GuestCheckoutService(
+        new RedisService(),
+        new RabbitMQEventPublisher(RabbitMQClient.getInstance())
+      );
+  }
+  return _guestCheckoutService;
+}
+
+let _ticketService: TicketService | null = null;
+
+/**
+ * Gets the Ticket Service singleton
+ * 
+ * Wiring:
+ * CachedSeatRepository (tickets read straight from the DB) → TicketService
+ */
+export async function getTicketService(): Promise<TicketService> {
+  if (!_ticketService) {
+      const { TicketService } = await import('@/core/services/TicketService');
+
+      _ticketService = new TicketService(await getSeatRepository());
+  }
+  return _ticketService;
+}
+
+let _apiKeyService: ApiKeyService | null = null;
+
+/**
+ * Gets the API Key Service singleton
+ * 
+ * Wiring:
+ * PrismaApiKeyRepository → ApiKeyService
+ * 
+ * Keys are read straight from the database (one lookup by unique hash
+ * per partner request), so a revoked key stops working immediately.
+ */
+export async function getApiKeyService(): Promise<ApiKeyService> {
+  if (!_apiKeyService) {
+      const { prisma } = await import('@/infrastructure/db/prisma');
+      const { PrismaApiKeyRepository } = await import('@/infrastructure/repositories/PrismaApiKeyRepository');
+      const { ApiKeyService } = await import('@/core/services/ApiKeyService');
+
+      _apiKeyService = new ApiKeyService(new PrismaApiKeyRepository(prisma));
+  }
+  return _apiKeyService;
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKeyService } from '@/app/api/container';
+import { authorizeAdminRequest } from '@/lib/api/admin';
+import { accessDeniedResponse } from '@/lib/api/authorization';
+import { ApiKeyNotFoundError } from '@/core/services/ApiKeyService';
+import { Permission } from '@/core/domain/permission';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/admin/api-keys/:keyId/revoke
+ *
+ * Revokes a partner API key: requests made with it fail with 401 from
+ * now on. The key stays listed, so logs and events naming it can still be
+ * traced. Revoking a revoked key changes nothing. Requires the
+ * api-keys:manage permission.
+ *
+ * Headers:
+ *   X-Admin-Api-Key: <ADMIN_API_KEY> (or the session cookie of a staff user)
+ *
+ * Responses:
+ * - 200 OK: Key revoked
+ * - 401 Unauthorized: Not signed in and no valid admin API key
+ * - 403 Forbidden: The user's role lacks api-keys:manage
+ * - 404 Not Found: API key does not exist
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  const access = await authorizeAdminRequest(request, Permission.API_KEYS_MANAGE);
+  if (!access.allowed) {
+    return accessDeniedResponse(access);
+  }
+
+  try {
+    // 1. Read the key from the path
+    const { keyId } = await params;
+
+    // 2. Call business logic
+    const apiKeyService = await getApiKeyService();
+    const apiKey = await apiKeyService.revokeKey(keyId);
+
+    // 3. Return success response
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: apiKey.id,
+        partnerId: apiKey.partnerId,
+        keyPrefix: apiKey.keyPrefix,
+        revokedAt: apiKey.revokedAt,
+      },
+    });
+
+  } catch (error) {
+    // 404 Not Found - API key doesn't exist
+    if (error instanceof ApiKeyNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'API_KEY_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/admin/api-keys/:keyId/revoke:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getApiKeyService } from '@/app/api/container';
+import { createApiKeySchema } from '@/lib/validation/api-key.schemas';
+import { authorizeAdminRequest } from '@/lib/api/admin';
+import { accessDeniedResponse } from '@/lib/api/authorization';
+import { Permission } from '@/core/domain/permission';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/admin/api-keys
+ *
+ * Creates an API key for a partner (box office, reseller) to call the
+ * booking API server-to-server with the X-Api-Key header. The key is in
+ * this response only: store it right away, only its hash is kept.
+ * Requires the api-keys:manage permission.
+ *
+ * Headers:
+ *   X-Admin-Api-Key: <ADMIN_API_KEY> (or the session cookie of a staff user)
+ *
+ * Request Body:
+ * {
+ *   "partnerId": "box-office",        // lowercase slug, recorded in logs and events
+ *   "name": "Ticket window terminals",
+ *   "scopes": ["seats:read", "seats:lock", "payments:confirm"]
+ * }
+ *
+ * Responses:
+ * - 201 Created: Key created, the key itself in data.key
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no valid admin API key
+ * - 403 Forbidden: The user's role lacks api-keys:manage
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(request: NextRequest) {
+  const access = await authorizeAdminRequest(request, Permission.API_KEYS_MANAGE);
+  if (!access.allowed) {
+    return accessDeniedResponse(access);
+  }
+
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = createApiKeySchema.parse(body);
+
+    // 2. Call business logic
+    const apiKeyService = await getApiKeyService();
+    const { apiKey, secret } = await apiKeyService.createKey({
+      ...validatedData,
+      createdBy: access.principal.userId,
+    });
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: apiKey.id,
+          partnerId: apiKey.partnerId,
+          name: apiKey.name,
+          keyPrefix: apiKey.keyPrefix,
+          scopes: apiKey.scopes,
+          createdAt: apiKey.createdAt,
+          key: secret,
+        },
+        message: 'API key created, store it now: it cannot be shown again',
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/admin/api-keys:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/v1/admin/api-keys
+ *
+ * Lists partner API keys, revoked ones included, newest first. Keys are
+ * shown by their prefix only. Requires the api-keys:manage permission.
+ *
+ * Headers:
+ *   X-Admin-Api-Key: <ADMIN_API_KEY> (or the session cookie of a staff user)
+ *
+ * Responses:
+ * - 200 OK: API keys
+ * - 401 Unauthorized: Not signed in and no valid admin API key
+ * - 403 Forbidden: The user's role lacks api-keys:manage
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function GET(request: NextRequest) {
+  const access = await authorizeAdminRequest(request, Permission.API_KEYS_MANAGE);
+  if (!access.allowed) {
+    return accessDeniedResponse(access);
+  }
+
+  try {
+    const apiKeyService = await getApiKeyService();
+    const apiKeys = await apiKeyService.listKeys();
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: apiKeys.map((apiKey) => ({
+          id: apiKey.id,
+          partnerId: apiKey.partnerId,
+          name: apiKey.name,
+          keyPrefix: apiKey.keyPrefix,
+          scopes: apiKey.scopes,
+          createdBy: apiKey.createdBy,
+          createdAt: apiKey.createdAt,
+          revokedAt: apiKey.revokedAt,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Unexpected error in GET /api/v1/admin/api-keys:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getEventCancellationService } from '@/app/api/container';
+import { cancelEventSchema } from '@/lib/validation/event.schemas';
+import { authorizeAdminRequest } from '@/lib/api/admin';
+import { accessDeniedResponse } from '@/lib/api/authorization';
+import { EventAlreadyCancelledError } from '@/core/services/EventCancellationService';
+import { EventNotFoundError } from '@/core/services/PerformanceService';
+import { Permission } from '@/core/domain/permission';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/admin/events/:eventId/cancel
+ *
+ * Cancels an event: sales stop, seats and GA tickets locked in checkout are
+ * released and every sold ticket (seat or GA reservation) is queued for refund. The worker refunds the tickets in
+ * batches and emails the ticket holders; follow the progress with
+ * GET /api/v1/admin/events/:eventId/cancellation. Requires the events:cancel permission.
+ *
+ * Headers:
+ *   X-Admin-Api-Key: <ADMIN_API_KEY> (or the session cookie of a staff user)
+ *
+ * Request Body:
+ * {
+ *   "adminId": "uuid",
+ *   "reason": "Artist illness"   // optional, recorded on every refund
+ * }
+ *
+ * Responses:
+ * - 202 Accepted: Event cancelled, refunds queued
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no valid admin API key
+ * - 403 Forbidden: The user's role lacks events:cancel
+ * - 404 Not Found: Event does not exist
+ * - 409 Conflict: Event was already cancelled
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const access = await authorizeAdminRequest(request, Permission.EVENTS_CANCEL);
+  if (!access.allowed) {
+    return accessDeniedResponse(access);
+  }
+
+  try {
+    // 1. Parse and validate request body
+    const { eventId } = await params;
+    const body = await request.json();
+    const validatedData = cancelEventSchema.parse(body);
+
+    // 2. Call business logic
+    const cancellationService = await getEventCancellationService();
+    const { cancellation, releasedSeatCount, releasedGaReservationCount } = await cancellationService.cancelEvent(
+      eventId,
+      validatedData.adminId,
+      validatedData.reason
+    );
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          cancellationId: cancellation.id,
+          eventId: cancellation.eventId,
+          releasedSeatCount,
+          releasedGaReservationCount,
+          totalRefunds: cancellation.totalRefunds,
+          totalBatches: cancellation.totalBatches,
+        },
+        message: `Event cancelled, ${cancellation.totalRefunds} refund(s) queued`,
+      },
+      { status: 202 }
+    );
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 404 Not Found - Event doesn't exist
+    if (error instanceof EventNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'EVENT_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 409 Conflict - Refunds were queued by an earlier cancellation
+    if (error instanceof EventAlreadyCancelledError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'EVENT_ALREADY_CANCELLED', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/admin/events/:eventId/cancel:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEventCancellationService } from '@/app/api/container';
+import { authorizeAdminRequest } from '@/lib/api/admin';
+import { accessDeniedResponse } from '@/lib/api/authorization';
+import { EventCancellationNotFoundError } from '@/core/services/EventCancellationService';
+import { Permission } from '@/core/domain/permission';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/admin/events/:eventId/cancellation
+ *
+ * Returns the refund progress of a cancelled event. Requires the cancellations:read permission.
+ *
+ * Headers:
+ *   X-Admin-Api-Key: <ADMIN_API_KEY> (or the session cookie of a staff user)
+ *
+ * Responses:
+ * - 200 OK: Refund progress
+ * - 401 Unauthorized: Not signed in and no valid admin API key
+ * - 403 Forbidden: The user's role lacks cancellations:read
+ * - 404 Not Found: Event was not cancelled
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const access = await authorizeAdminRequest(request, Permission.CANCELLATIONS_READ);
+  if (!access.allowed) {
+    return accessDeniedResponse(access);
+  }
+
+  try {
+    const { eventId } = await params;
+
+    const cancellationService = await getEventCancellationService();
+    const cancellation = await cancellationService.getCancellation(eventId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...cancellation.toJSON(),
+        status: cancellation.isComplete() ? 'COMPLETED' : 'IN_PROGRESS',
+        progressPercent: cancellation.progressPercent(),
+      },
+    });
+  } catch (error) {
+    // 404 Not Found - Event was never cancelled
+    if (error instanceof EventCancellationNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'CANCELLATION_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in GET /api/v1/admin/events/:eventId/cancellation:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
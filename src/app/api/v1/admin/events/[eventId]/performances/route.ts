@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getPerformanceService } from '@/app/api/container';
+import { schedulePerformanceSchema } from '@/lib/validation/performance.schemas';
+import { authorizeAdminRequest } from '@/lib/api/admin';
+import { accessDeniedResponse } from '@/lib/api/authorization';
+import {
+  EventNotFoundError,
+  SeatTemplateNotFoundError,
+  PriceCategoryMismatchError,
+} from '@/core/services/PerformanceService';
+import { Permission } from '@/core/domain/permission';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/admin/events/:eventId/performances
+ *
+ * Schedules a new performance (showtime) of an event. Its seats are
+ * generated from the given seat template and priced with the event's
+ * price categories. Requires the performances:schedule permission.
+ *
+ * Headers:
+ *   X-Admin-Api-Key: <ADMIN_API_KEY> (or the session cookie of a staff user)
+ *
+ * Request Body:
+ * {
+ *   "adminId": "uuid",
+ *   "startsAt": "2026-03-01T20:00:00Z",
+ *   "seatTemplateId": "tpl-imax-hall-1"
+ * }
+ *
+ * Responses:
+ * - 201 Created: Performance scheduled with its seats on sale
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no valid admin API key
+ * - 403 Forbidden: The user's role lacks performances:schedule
+ * - 404 Not Found: Event or seat template does not exist
+ * - 422 Unprocessable Entity: Template uses price categories the event doesn't have
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const access = await authorizeAdminRequest(request, Permission.PERFORMANCES_SCHEDULE);
+  if (!access.allowed) {
+    return accessDeniedResponse(access);
+  }
+
+  try {
+    // 1. Parse and validate request body
+    const { eventId } = await params;
+    const body = await request.json();
+    const validatedData = schedulePerformanceSchema.parse(body);
+
+    // 2. Call business logic
+    const performanceService = await getPerformanceService();
+    const { performance, seatCount } = await performanceService.schedulePerformance(
+      eventId,
+      new Date(validatedData.startsAt),
+      validatedData.seatTemplateId
+    );
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: performance.id,
+          eventId: performance.eventId,
+          startsAt: performance.startsAt,
+          seatTemplateId: performance.seatTemplateId,
+          seatCount,
+        },
+        message: `Performance scheduled with ${seatCount} seats`,
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 404 Not Found - Event doesn't exist
+    if (error instanceof EventNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'EVENT_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 404 Not Found - Template doesn't exist
+    if (error instanceof SeatTemplateNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'SEAT_TEMPLATE_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Template and event price table don't match
+    if (error instanceof PriceCategoryMismatchError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'PRICE_CATEGORY_MISMATCH',
+            message: error.message,
+            missingCategories: error.missingCategories,
+          },
+        },
+        { status: 422 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/admin/events/:eventId/performances:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getEventService } from '@/app/api/container';
+import { rescheduleEventSchema } from '@/lib/validation/event.schemas';
+import { authorizeAdminRequest } from '@/lib/api/admin';
+import { accessDeniedResponse } from '@/lib/api/authorization';
+import { EventNotFoundError } from '@/core/services/PerformanceService';
+import { EventAlreadyCancelledError } from '@/core/services/EventCancellationService';
+import { Permission } from '@/core/domain/permission';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/admin/events/:eventId/reschedule
+ *
+ * Moves an event to a new date. Every performance moves by the same
+ * offset, so a run of showtimes keeps its spacing. Sold tickets stay
+ * valid; the worker emails their holders the new date. Requires the
+ * events:manage permission.
+ *
+ * Headers:
+ *   X-Admin-Api-Key: <ADMIN_API_KEY> (or the session cookie of a staff user)
+ *
+ * Request Body:
+ * {
+ *   "date": "2026-03-08T20:00:00Z"
+ * }
+ *
+ * Responses:
+ * - 200 OK: Event and its performances rescheduled
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no valid admin API key
+ * - 403 Forbidden: The user's role lacks events:manage
+ * - 404 Not Found: Event does not exist
+ * - 409 Conflict: Event is cancelled
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const access = await authorizeAdminRequest(request, Permission.EVENTS_MANAGE);
+  if (!access.allowed) {
+    return accessDeniedResponse(access);
+  }
+
+  try {
+    // 1. Parse and validate request body
+    const { eventId } = await params;
+    const body = await request.json();
+    const validatedData = rescheduleEventSchema.parse(body);
+
+    // 2. Call business logic
+    const eventService = await getEventService();
+    const { event, performances } = await eventService.rescheduleEvent(eventId, validatedData.date);
+
+    // 3. Return success response
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...event.toJSON(),
+        performances: performances.map((performance) => ({
+          id: performance.id,
+          startsAt: performance.startsAt,
+        })),
+      },
+    });
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 404 Not Found - Event doesn't exist
+    if (error instanceof EventNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'EVENT_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 409 Conflict - Cancelled events are final
+    if (error instanceof EventAlreadyCancelledError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'EVENT_ALREADY_CANCELLED', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/admin/events/:eventId/reschedule:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getEventService } from '@/app/api/container';
+import { updateEventSchema } from '@/lib/validation/event.schemas';
+import { authorizeAdminRequest } from '@/lib/api/admin';
+import { accessDeniedResponse } from '@/lib/api/authorization';
+import { InvalidEventError, EventHasSalesError } from '@/core/services/EventService';
+import { EventNotFoundError } from '@/core/services/PerformanceService';
+import { EventAlreadyCancelledError } from '@/core/services/EventCancellationService';
+import { Permission } from '@/core/domain/permission';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/v1/admin/events/:eventId
+ *
+ * Changes an event's details; fields left out stay as they are. The date
+ * moves with POST .../reschedule, and cancelling (which refunds the
+ * tickets) with POST .../cancel. Requires the events:manage permission.
+ *
+ * Headers:
+ *   X-Admin-Api-Key: <ADMIN_API_KEY> (or the session cookie of a staff user)
+ *
+ * Request Body (any of):
+ * {
+ *   "title": "Dune: Part Three",
+ *   "description": null,                   // null clears it
+ *   "location": "IMAX Hall 2",
+ *   "status": "ON_SALE",                   // any but CANCELLED
+ *   "salesStartAt": "2026-02-01T10:00:00Z",
+ *   "salesEndAt": null,
+ *   "resalePriceCapPercent": 120
+ * }
+ *
+ * Responses:
+ * - 200 OK: Event updated
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no valid admin API key
+ * - 403 Forbidden: The user's role lacks events:manage
+ * - 404 Not Found: Event does not exist
+ * - 409 Conflict: Event is cancelled
+ * - 422 Unprocessable Entity: The changes break a rule (e.g. sales end before they start)
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const access = await authorizeAdminRequest(request, Permission.EVENTS_MANAGE);
+  if (!access.allowed) {
+    return accessDeniedResponse(access);
+  }
+
+  try {
+    // 1. Parse and validate request body
+    const { eventId } = await params;
+    const body = await request.json();
+    const validatedData = updateEventSchema.parse(body);
+
+    // 2. Call business logic
+    const eventService = await getEventService();
+    const event = await eventService.updateEvent(eventId, validatedData);
+
+    // 3. Return success response
+    return NextResponse.json({ success: true, data: event.toJSON() });
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 404 Not Found - Event doesn't exist
+    if (error instanceof EventNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'EVENT_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 409 Conflict - Cancelled events are final
+    if (error instanceof EventAlreadyCancelledError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'EVENT_ALREADY_CANCELLED', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Changes break a rule
+    if (error instanceof InvalidEventError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_EVENT', message: error.message } },
+        { status: 422 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in PATCH /api/v1/admin/events/:eventId:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/admin/events/:eventId
+ *
+ * Deletes an event with its performances, seats and price table, e.g. a
+ * draft created by mistake. Only possible while no ticket was ever sold
+ * and none is in checkout; otherwise cancel the event, which refunds the
+ * ticket holders. Requires the events:manage permission.
+ *
+ * Headers:
+ *   X-Admin-Api-Key: <ADMIN_API_KEY> (or the session cookie of a staff user)
+ *
+ * Responses:
+ * - 200 OK: Event deleted
+ * - 401 Unauthorized: Not signed in and no valid admin API key
+ * - 403 Forbidden: The user's role lacks events:manage
+ * - 404 Not Found: Event does not exist
+ * - 409 Conflict: Tickets were sold or are in checkout
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const access = await authorizeAdminRequest(request, Permission.EVENTS_MANAGE);
+  if (!access.allowed) {
+    return accessDeniedResponse(access);
+  }
+
+  try {
+    // 1. Read the event from the path
+    const { eventId } = await params;
+
+    // 2. Call business logic
+    const eventService = await getEventService();
+    await eventService.deleteEvent(eventId);
+
+    // 3. Return success response
+    return NextResponse.json({ success: true, data: { id: eventId }, message: 'Event deleted' });
+
+  } catch (error) {
+    // 404 Not Found - Event doesn't exist
+    if (error instanceof EventNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'EVENT_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 409 Conflict - Tickets sold or in checkout
+    if (error instanceof EventHasSalesError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'EVENT_HAS_SALES', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in DELETE /api/v1/admin/events/:eventId:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getEventService } from '@/app/api/container';
+import { createEventSchema } from '@/lib/validation/event.schemas';
+import { authorizeAdminRequest } from '@/lib/api/admin';
+import { accessDeniedResponse } from '@/lib/api/authorization';
+import { InvalidEventError } from '@/core/services/EventService';
+import { SeatTemplateNotFoundError, PriceCategoryMismatchError } from '@/core/services/PerformanceService';
+import { Permission } from '@/core/domain/permission';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/admin/events
+ *
+ * Creates an event with its price table and a first performance on its
+ * date. The seats are generated right away: from a seat template (priced
+ * with the price categories), or as totalSeats seats at one price in rows
+ * of 20 (A-1 … A-20, B-1 …). New events are drafts, hidden from buyers,
+ * unless another status is given. Requires the events:manage permission.
+ *
+ * Headers:
+ *   X-Admin-Api-Key: <ADMIN_API_KEY> (or the session cookie of a staff user)
+ *
+ * Request Body:
+ * {
+ *   "title": "Dune: Part Three",
+ *   "description": "IMAX 70mm",               // optional
+ *   "date": "2026-03-01T20:00:00Z",            // first showtime
+ *   "location": "IMAX Hall 1",
+ *   "status": "SCHEDULED",                     // optional, default DRAFT
+ *   "salesStartAt": "2026-02-01T10:00:00Z",    // optional
+ *   "salesEndAt": null,                        // optional
+ *   "resalePriceCapPercent": 100,              // optional, null = no resale
+ *   "totalSeats": 120, "price": 15.00          // either a seat count at one price...
+ *   "seatTemplateId": "tpl-imax-hall-1",       // ...or a venue layout
+ *   "priceCategories": [{ "name": "VIP", "price": 150.00 }]  // optional
+ * }
+ *
+ * Responses:
+ * - 201 Created: Event created with its seats
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no valid admin API key
+ * - 403 Forbidden: The user's role lacks events:manage
+ * - 404 Not Found: Seat template does not exist
+ * - 422 Unprocessable Entity: Template uses price categories not in the price table,
+ *   or the details break a rule (e.g. sales end before they start)
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(request: NextRequest) {
+  const access = await authorizeAdminRequest(request, Permission.EVENTS_MANAGE);
+  if (!access.allowed) {
+    return accessDeniedResponse(access);
+  }
+
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = createEventSchema.parse(body);
+
+    // 2. Call business logic
+    const eventService = await getEventService();
+    const { event, performance, seatCount } = await eventService.createEvent({
+      title: validatedData.title,
+      description: validatedData.description,
+      date: validatedData.date,
+      location: validatedData.location,
+      status: validatedData.status,
+      salesStartAt: validatedData.salesStartAt,
+      salesEndAt: validatedData.salesEndAt,
+      resalePriceCapPercent: validatedData.resalePriceCapPercent,
+      priceCategories: validatedData.priceCategories,
+      seating:
+        validatedData.seatTemplateId !== undefined
+          ? { seatTemplateId: validatedData.seatTemplateId }
+          : { totalSeats: validatedData.totalSeats!, price: validatedData.price! },
+    });
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...event.toJSON(),
+          performance: {
+            id: performance.id,
+            startsAt: performance.startsAt,
+            seatTemplateId: performance.seatTemplateId,
+          },
+          seatCount,
+        },
+        message: `Event created with ${seatCount} seats`,
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 404 Not Found - Template doesn't exist
+    if (error instanceof SeatTemplateNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'SEAT_TEMPLATE_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Template and price table don't match
+    if (error instanceof PriceCategoryMismatchError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'PRICE_CATEGORY_MISMATCH',
+            message: error.message,
+            missingCategories: error.missingCategories,
+          },
+        },
+        { status: 422 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Details break a rule
+    if (error instanceof InvalidEventError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_EVENT', message: error.message } },
+        { status: 422 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/admin/events:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getBookingService } from '@/app/api/container';
+import { refundSaleSchema } from '@/lib/validation/seat.schemas';
+import { authorizeAdminRequest } from '@/lib/api/admin';
+import { accessDeniedResponse } from '@/lib/api/authorization';
+import {
+  SeatNotFoundError,
+  SeatNotRefundableError,
+  OrderNotFoundError,
+} from '@/core/services/BookingService';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { Permission } from '@/core/domain/permission';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/admin/seats/:seatId/refund
+ *
+ * Refunds a sold ticket and puts the seat back on sale. Requires the seats:refund permission.
+ *
+ * Headers:
+ *   X-Admin-Api-Key: <ADMIN_API_KEY> (or the session cookie of a staff user)
+ *
+ * Request Body (optional):
+ * {
+ *   "reason": "Customer requested refund"
+ * }
+ *
+ * Responses:
+ * - 200 OK: Ticket refunded, seat is AVAILABLE again
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no valid admin API key
+ * - 403 Forbidden: The user's role lacks seats:refund
+ * - 404 Not Found: Seat or its order does not exist
+ * - 409 Conflict: Seat was modified by another process (retry recommended)
+ * - 422 Unprocessable Entity: Seat is not SOLD
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ seatId: string }> }
+) {
+  const access = await authorizeAdminRequest(request, Permission.SEATS_REFUND);
+  if (!access.allowed) {
+    return accessDeniedResponse(access);
+  }
+
+  try {
+    // 1. Parse and validate request body (empty body = no reason given)
+    const { seatId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const validatedData = refundSaleSchema.parse(body);
+
+    // 2. Call business logic
+    const bookingService = await getBookingService();
+    const { seat, order, amount } = await bookingService.refundSale(
+      seatId,
+      validatedData.reason
+    );
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: seat.id,
+          seatNumber: seat.seatNumber,
+          status: seat.status,
+          version: seat.version,
+          orderId: order.id,
+          orderStatus: order.status,
+          refundedAmount: amount,
+        },
+        message: 'Ticket refunded successfully',
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 404 Not Found - Seat or order doesn't exist
+    if (error instanceof SeatNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'SEAT_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof OrderNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'ORDER_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Seat was never sold
+    if (error instanceof SeatNotRefundableError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'SEAT_NOT_REFUNDABLE', message: error.message } },
+        { status: 422 }
+      );
+    }
+
+    // 409 Conflict - Concurrency Error (Optimistic Locking Failed)
+    if (error instanceof ConcurrencyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONCURRENCY_CONFLICT',
+            message: 'The seat was modified by another process. Please retry.',
+            retryable: true,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/admin/seats/:seatId/refund:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
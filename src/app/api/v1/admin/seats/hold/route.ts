@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getBookingService } from '@/app/api/container';
+import { holdSeatsSchema } from '@/lib/validation/seat.schemas';
+import { authorizeAdminRequest } from '@/lib/api/admin';
+import { accessDeniedResponse } from '@/lib/api/authorization';
+import { SeatNotFoundError, SeatNotAvailableError } from '@/core/services/BookingService';
+import { ConcurrencyError, BatchConcurrencyError } from '@/core/errors/repository.errors';
+import { Permission } from '@/core/domain/permission';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/admin/seats/hold
+ *
+ * Withholds seats from public sale (house, press, production kills). Requires the seats:hold permission.
+ * All-or-nothing: if one seat can't be held, none are.
+ *
+ * Headers:
+ *   X-Admin-Api-Key: <ADMIN_API_KEY> (or the session cookie of a staff user)
+ *
+ * Request Body:
+ * {
+ *   "seatIds": ["uuid", "uuid"],
+ *   "adminId": "uuid",
+ *   "reason": "House seats"
+ * }
+ *
+ * Responses:
+ * - 200 OK: All seats held
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no valid admin API key
+ * - 403 Forbidden: The user's role lacks seats:hold
+ * - 404 Not Found: One of the seats does not exist
+ * - 409 Conflict: Seats were modified by another process; none were held
+ * - 422 Unprocessable Entity: One of the seats is not AVAILABLE
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(request: NextRequest) {
+  const access = await authorizeAdminRequest(request, Permission.SEATS_HOLD);
+  if (!access.allowed) {
+    return accessDeniedResponse(access);
+  }
+
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = holdSeatsSchema.parse(body);
+
+    // 2. Call business logic
+    const bookingService = await getBookingService();
+    const heldSeats = await bookingService.holdSeats(
+      validatedData.seatIds,
+      validatedData.adminId,
+      validatedData.reason
+    );
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: heldSeats.map((seat) => ({
+          id: seat.id,
+          seatNumber: seat.seatNumber,
+          status: seat.status,
+          holdReason: seat.holdReason,
+          heldBy: seat.heldBy,
+          version: seat.version,
+        })),
+        message: `${heldSeats.length} seats held successfully`,
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 404 Not Found - Seat doesn't exist
+    if (error instanceof SeatNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'SEAT_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Seat locked, sold or already held
+    if (error instanceof SeatNotAvailableError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'SEAT_NOT_AVAILABLE', message: error.message } },
+        { status: 422 }
+      );
+    }
+
+    // 409 Conflict - The whole batch was rolled back
+    if (error instanceof BatchConcurrencyError || error instanceof ConcurrencyError) {
+      const conflictingSeatIds =
+        error instanceof BatchConcurrencyError ? error.entityIds : [error.entityId];
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONCURRENCY_CONFLICT',
+            message: 'Some seats were modified by another process. No seats were held.',
+            conflictingSeatIds,
+            retryable: true,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/admin/seats/hold:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
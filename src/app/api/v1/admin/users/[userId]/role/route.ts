@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getAuthService } from '@/app/api/container';
+import { assignRoleSchema } from '@/lib/validation/auth.schemas';
+import { authorizeAdminRequest } from '@/lib/api/admin';
+import { accessDeniedResponse } from '@/lib/api/authorization';
+import { UserNotFoundError } from '@/core/services/AuthService';
+import { Permission } from '@/core/domain/permission';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/v1/admin/users/:userId/role
+ *
+ * Gives a user a role (staff roles unlock admin routes, see
+ * core/domain/permission). Admin routes read the role from the account,
+ * so a demotion applies at once; after a promotion the user signs in
+ * again to get past the middleware. Requires the users:manage permission.
+ *
+ * Headers:
+ *   X-Admin-Api-Key: <ADMIN_API_KEY> (or the session cookie of a staff user)
+ *
+ * Request Body:
+ * {
+ *   "role": "BOX_OFFICE"   // CUSTOMER | ADMIN | BOX_OFFICE | ORGANIZER | SUPPORT
+ * }
+ *
+ * Responses:
+ * - 200 OK: Role assigned
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no valid admin API key
+ * - 403 Forbidden: The user's role lacks users:manage
+ * - 404 Not Found: User does not exist
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const access = await authorizeAdminRequest(request, Permission.USERS_MANAGE);
+  if (!access.allowed) {
+    return accessDeniedResponse(access);
+  }
+
+  try {
+    // 1. Parse and validate request body
+    const { userId } = await params;
+    const body = await request.json();
+    const validatedData = assignRoleSchema.parse(body);
+
+    // 2. Call business logic
+    const authService = await getAuthService();
+    const user = await authService.assignRole(userId, validatedData.role);
+
+    // 3. Return success response
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+      },
+    });
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 404 Not Found - User doesn't exist
+    if (error instanceof UserNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'USER_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in PUT /api/v1/admin/users/:userId/role:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGuestCheckoutService } from '@/app/api/container';
+import { getGuest } from '@/lib/api/guest';
+import {
+  VerificationLimitReachedError,
+  VerificationResendTooSoonError,
+} from '@/core/services/GuestCheckoutService';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/auth/guest/resend
+ *
+ * Emails the guest a new verification code. Codes sent before stop working;
+ * wrong attempts made with them still count.
+ *
+ * Headers:
+ *   Cookie: guest checkout (required, see POST /api/v1/auth/guest)
+ *
+ * Responses:
+ * - 200 OK: New code emailed
+ * - 401 Unauthorized: No guest checkout (never started or expired)
+ * - 429 Too Many Requests: Last code sent too recently (Retry-After header),
+ *   or all codes or attempts used up (start a new guest checkout)
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(request: NextRequest) {
+  const guest = await getGuest(request);
+
+  if (!guest) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'GUEST_CHECKOUT_REQUIRED',
+          message: 'Start a guest checkout first',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const guestCheckoutService = await getGuestCheckoutService();
+    const codeExpiresAt = await guestCheckoutService.sendVerificationCode(guest.guestId, guest.email);
+
+    return NextResponse.json({
+      success: true,
+      data: { email: guest.email, codeExpiresAt },
+      message: 'Verification code sent',
+    });
+  } catch (error) {
+    // 429 Too Many Requests - Wait before asking again
+    if (error instanceof VerificationResendTooSoonError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'RESEND_TOO_SOON',
+            message: error.message,
+            details: { retryAfterSeconds: error.retryAfterSeconds },
+          },
+        },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+
+    // 429 Too Many Requests - No more codes for this guest checkout
+    if (error instanceof VerificationLimitReachedError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VERIFICATION_LIMIT_REACHED', message: error.message } },
+        { status: 429 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/auth/guest/resend:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getGuestCheckoutService } from '@/app/api/container';
+import { startGuestCheckoutSchema } from '@/lib/validation/auth.schemas';
+import { signGuestToken, setGuestCookie } from '@/lib/api/guest';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/auth/guest
+ *
+ * Starts a guest checkout: sets the httpOnly guest cookie (a short-lived
+ * guest identity that can lock seats) and emails a 6-digit code. The
+ * guest enters the code (POST /api/v1/auth/guest/verify) before
+ * confirming payment; the ticket is sent to this email.
+ *
+ * Request Body:
+ * {
+ *   "email": "fan@example.com"
+ * }
+ *
+ * Responses:
+ * - 201 Created: Guest checkout started, guest cookie set, code emailed
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = startGuestCheckoutSchema.parse(body);
+
+    // 2. Call business logic
+    const guestCheckoutService = await getGuestCheckoutService();
+    const checkout = await guestCheckoutService.startCheckout(validatedData.email);
+    const { token, expiresAt } = await signGuestToken({
+      guestId: checkout.guestId,
+      email: checkout.email,
+      emailVerified: false,
+    });
+
+    // 3. Return success response (with the guest cookie)
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: {
+          guestId: checkout.guestId,
+          email: checkout.email,
+          emailVerified: false,
+          codeExpiresAt: checkout.codeExpiresAt,
+          expiresAt,
+        },
+        message: 'Verification code sent',
+      },
+      { status: 201 }
+    );
+    setGuestCookie(response, token, expiresAt);
+
+    return response;
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/auth/guest:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getGuestCheckoutService } from '@/app/api/container';
+import { verifyGuestEmailSchema } from '@/lib/validation/auth.schemas';
+import { getGuest, signGuestToken, setGuestCookie } from '@/lib/api/guest';
+import {
+  InvalidVerificationCodeError,
+  VerificationCodeExpiredError,
+  VerificationLimitReachedError,
+} from '@/core/services/GuestCheckoutService';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/auth/guest/verify
+ *
+ * Checks the code emailed to the guest. On success the guest cookie is
+ * reissued as verified, which lets the guest confirm payment.
+ *
+ * Headers:
+ *   Cookie: guest checkout (required, see POST /api/v1/auth/guest)
+ *
+ * Request Body:
+ * {
+ *   "code": "042137"
+ * }
+ *
+ * Responses:
+ * - 200 OK: Email verified, guest cookie reissued
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: No guest checkout (never started or expired)
+ * - 410 Gone: No code pending (expired, already used or too many wrong attempts)
+ * - 422 Unprocessable Entity: Wrong code (details carry the attempts left)
+ * - 429 Too Many Requests: All attempts used up for this guest checkout
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(request: NextRequest) {
+  const guest = await getGuest(request);
+
+  if (!guest) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'GUEST_CHECKOUT_REQUIRED',
+          message: 'Start a guest checkout first',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = verifyGuestEmailSchema.parse(body);
+
+    // 2. Call business logic
+    const guestCheckoutService = await getGuestCheckoutService();
+    await guestCheckoutService.verifyEmail(guest.guestId, validatedData.code);
+    const { token, expiresAt } = await signGuestToken({
+      guestId: guest.guestId,
+      email: guest.email,
+      emailVerified: true,
+    });
+
+    // 3. Return success response (with the verified guest cookie)
+    const response = NextResponse.json({
+      success: true,
+      data: {
+        guestId: guest.guestId,
+        email: guest.email,
+        emailVerified: true,
+        expiresAt,
+      },
+      message: 'Email verified',
+    });
+    setGuestCookie(response, token, expiresAt);
+
+    return response;
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 410 Gone - Code expired, used up or never sent
+    if (error instanceof VerificationCodeExpiredError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VERIFICATION_CODE_EXPIRED', message: error.message } },
+        { status: 410 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Wrong code
+    if (error instanceof InvalidVerificationCodeError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_VERIFICATION_CODE',
+            message: error.message,
+            details: { attemptsRemaining: error.attemptsRemaining },
+          },
+        },
+        { status: 422 }
+      );
+    }
+
+    // 429 Too Many Requests - No more attempts for this guest checkout
+    if (error instanceof VerificationLimitReachedError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VERIFICATION_LIMIT_REACHED', message: error.message } },
+        { status: 429 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/auth/guest/verify:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getAuthService } from '@/app/api/container';
+import { loginSchema } from '@/lib/validation/auth.schemas';
+import { signSessionToken, setSessionCookie } from '@/lib/api/session';
+import { InvalidCredentialsError } from '@/core/services/AuthService';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/auth/login
+ *
+ * Checks an email and password and signs the user in (sets the httpOnly
+ * session cookie).
+ *
+ * Request Body:
+ * {
+ *   "email": "fan@example.com",
+ *   "password": "string"
+ * }
+ *
+ * Responses:
+ * - 200 OK: Signed in, session cookie set
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Unknown email or wrong password
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = loginSchema.parse(body);
+
+    // 2. Call business logic
+    const authService = await getAuthService();
+    const user = await authService.authenticate(validatedData.email, validatedData.password);
+    const { token, expiresAt } = await signSessionToken(user);
+
+    // 3. Return success response (with the session cookie)
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: user.id,
+          email: user.email,
+          role: user.role,
+        },
+        message: 'Signed in',
+      },
+      { status: 200 }
+    );
+    setSessionCookie(response, token, expiresAt);
+
+    return response;
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 401 Unauthorized - Unknown email or wrong password (not told apart)
+    if (error instanceof InvalidCredentialsError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_CREDENTIALS', message: error.message } },
+        { status: 401 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/auth/login:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/lib/api/session';
+import { clearGuestCookie } from '@/lib/api/guest';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/auth/logout
+ *
+ * Signs the browser out by clearing the session cookie (and ends any guest
+ * checkout). Succeeds when already signed out.
+ *
+ * Responses:
+ * - 200 OK: Session and guest cookies cleared
+ */
+export async function POST() {
+  const response = NextResponse.json({ success: true, message: 'Signed out' });
+  clearSessionCookie(response);
+  clearGuestCookie(response);
+
+  return response;
+}
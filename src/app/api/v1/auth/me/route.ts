@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthService } from '@/app/api/container';
+import { getSession, clearSessionCookie } from '@/lib/api/session';
+import { UserNotFoundError } from '@/core/services/AuthService';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/auth/me
+ *
+ * Returns the signed-in user.
+ *
+ * Responses:
+ * - 200 OK: The signed-in user
+ * - 401 Unauthorized: Signed out, session expired, or account deleted (cookie cleared)
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in to continue',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const authService = await getAuthService();
+    const user = await authService.getUser(session.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+      },
+    });
+  } catch (error) {
+    // 401 Unauthorized - Account deleted since signing in
+    if (error instanceof UserNotFoundError) {
+      const response = NextResponse.json(
+        { success: false, error: { code: 'AUTHENTICATION_REQUIRED', message: 'Sign in to continue' } },
+        { status: 401 }
+      );
+      clearSessionCookie(response);
+      return response;
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in GET /api/v1/auth/me:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
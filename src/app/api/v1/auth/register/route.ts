@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getAuthService } from '@/app/api/container';
+import { registerSchema } from '@/lib/validation/auth.schemas';
+import { signSessionToken, setSessionCookie } from '@/lib/api/session';
+import { EmailAlreadyRegisteredError } from '@/core/services/AuthService';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/auth/register
+ *
+ * Creates a customer account and signs it in (sets the httpOnly session cookie).
+ *
+ * Request Body:
+ * {
+ *   "email": "fan@example.com",
+ *   "password": "at least 8 characters"
+ * }
+ *
+ * Responses:
+ * - 201 Created: Account created, session cookie set
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 409 Conflict: Email already has an account
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = registerSchema.parse(body);
+
+    // 2. Call business logic
+    const authService = await getAuthService();
+    const user = await authService.register(validatedData.email, validatedData.password);
+    const { token, expiresAt } = await signSessionToken(user);
+
+    // 3. Return success response (with the session cookie)
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: user.id,
+          email: user.email,
+          role: user.role,
+        },
+        message: 'Account created',
+      },
+      { status: 201 }
+    );
+    setSessionCookie(response, token, expiresAt);
+
+    return response;
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 409 Conflict - Email taken
+    if (error instanceof EmailAlreadyRegisteredError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'EMAIL_ALREADY_REGISTERED', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/auth/register:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getGeneralAdmissionService, getIdempotencyService, getApiKeyService } from '@/app/api/container';
+import { withIdempotency } from '@/lib/api/idempotency';
+import { getAdmittedEventId, AdmissionRequiredError } from '@/lib/api/admission';
+import { getPartnerOrBuyer, withPartnerAccess } from '@/lib/api/partner';
+import { lockGaTicketsSchema } from '@/lib/validation/ga.schemas';
+import {
+  GaCapacityExceededError,
+  GaZoneNotAdmittedError,
+  GaZoneNotFoundError,
+} from '@/core/services/GeneralAdmissionService';
+import {
+  EventNotOnSaleError,
+  PresaleCodeRequiredError,
+  InvalidPresaleCodeError,
+  PresaleQuotaExceededError,
+} from '@/core/services/BookingService';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/events/:eventId/ga-zones/:zoneId/lock
+ *
+ * Locks a quantity of general-admission tickets for the signed-in user's or guest's checkout.
+ * Confirm with POST /api/v1/ga-reservations/:reservationId/confirm before lockExpiresAt.
+ *
+ * Headers:
+ *   Cookie: session or guest checkout (required without an API key, see POST /api/v1/auth/login and /api/v1/auth/guest)
+ *   X-Api-Key: <partner API key> (partners, instead of the cookie; needs the seats:lock scope)
+ *   Idempotency-Key: <uuid> (optional, a retry with the same key replays the first response)
+ *   X-Admission-Token: <token> (required while the waiting room is enabled)
+ *
+ * Request Body:
+ * {
+ *   "quantity": 2,
+ *   "presaleCode": "string"   // optional, required while the event is in a presale
+ * }
+ *
+ * Responses:
+ * - 201 Created: Tickets locked; response includes the reservation id and lockExpiresAt
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no guest checkout, or invalid/revoked API key
+ * - 403 Forbidden: API key lacks the seats:lock scope, missing/invalid admission token, zone outside the admitted event, event not on sale,
+ *   or a missing/invalid presale code
+ * - 404 Not Found: Zone does not exist
+ * - 422 Unprocessable Entity: Not enough tickets left in the zone, or presale code quota used up
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string; zoneId: string }> }
+) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.SEATS_LOCK, apiKeys, async () => {
+    const buyer = await getPartnerOrBuyer(request);
+
+    if (!buyer) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Sign in or continue as a guest',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { zoneId } = await params;
+    const idempotency = await getIdempotencyService();
+    return withIdempotency(request, `ga.lock:${buyer.userId}`, idempotency, () => lockTickets(request, zoneId, buyer.userId));
+  });
+}
+
+async function lockTickets(request: NextRequest, zoneId: string, userId: string): Promise<NextResponse> {
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = lockGaTicketsSchema.parse(body);
+
+    // 2. Call business logic
+    const gaService = await getGeneralAdmissionService();
+    const admittedEventId = await getAdmittedEventId(request, userId);
+    const reservation = await gaService.lockTickets(
+      zoneId,
+      userId,
+      validatedData.quantity,
+      admittedEventId,
+      validatedData.presaleCode
+    );
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: reservation.id,
+          zoneId: reservation.zoneId,
+          quantity: reservation.quantity,
+          unitPrice: reservation.unitPrice,
+          totalAmount: reservation.totalAmount,
+          status: reservation.status,
+          lockExpiresAt: reservation.lockExpiresAt,
+        },
+        message: `${reservation.quantity} tickets locked successfully`,
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 403 Forbidden - Not admitted from the waiting room
+    if (error instanceof AdmissionRequiredError || error instanceof GaZoneNotAdmittedError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'ADMISSION_REQUIRED', message: error.message } },
+        { status: 403 }
+      );
+    }
+
+    // 403 Forbidden - Event is outside its sales window
+    if (error instanceof EventNotOnSaleError) {
+      const { status, salesStartAt, salesEndAt } = error;
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'EVENT_NOT_ON_SALE', message: error.message, details: { status, salesStartAt, salesEndAt } },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 403 Forbidden - Event is in a presale and the code is missing or wrong
+    if (error instanceof PresaleCodeRequiredError || error instanceof InvalidPresaleCodeError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error instanceof PresaleCodeRequiredError ? 'PRESALE_CODE_REQUIRED' : 'INVALID_PRESALE_CODE',
+            message: error.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 404 Not Found - Zone doesn't exist
+    if (error instanceof GaZoneNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'ZONE_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Not enough tickets left
+    if (error instanceof GaCapacityExceededError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INSUFFICIENT_CAPACITY', message: error.message } },
+        { status: 422 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Presale code quota used up
+    if (error instanceof PresaleQuotaExceededError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'PRESALE_QUOTA_EXCEEDED', message: error.message } },
+        { status: 422 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/events/:eventId/ga-zones/:zoneId/lock:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
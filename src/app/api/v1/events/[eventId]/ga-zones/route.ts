@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getGeneralAdmissionService } from '@/app/api/container';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/events/:eventId/ga-zones
+ *
+ * Lists the event's general-admission zones with the tickets left in each.
+ *
+ * Responses:
+ * - 200 OK: Zones ordered by name (empty for fully reserved-seating events)
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params;
+
+    const gaService = await getGeneralAdmissionService();
+    const zones = await gaService.findZones(eventId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: zones.map((zone) => ({
+          ...zone.toJSON(),
+          soldOut: zone.isSoldOut(),
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Unexpected error in GET /api/v1/events/:eventId/ga-zones:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
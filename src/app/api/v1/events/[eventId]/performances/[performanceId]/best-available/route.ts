@@ -0,0 +1,270 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getSeatAllocationService, getIdempotencyService, getPerformanceService, getApiKeyService } from '@/app/api/container';
+import { withIdempotency } from '@/lib/api/idempotency';
+import { getAdmittedEventId, AdmissionRequiredError } from '@/lib/api/admission';
+import { getPartnerOrBuyer, withPartnerAccess } from '@/lib/api/partner';
+import { bestAvailableSchema } from '@/lib/validation/seat.schemas';
+import {
+  SeatNotAdmittedError,
+  SeatNotAvailableError,
+  EventNotOnSaleError,
+  PresaleCodeRequiredError,
+  InvalidPresaleCodeError,
+  PresaleQuotaExceededError,
+} from '@/core/services/BookingService';
+import { NoContiguousSeatsError } from '@/core/services/SeatAllocationService';
+import { PerformanceNotFoundError } from '@/core/services/PerformanceService';
+import { ConcurrencyError, BatchConcurrencyError } from '@/core/errors/repository.errors';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/events/:eventId/performances/:performanceId/best-available
+ *
+ * Picks the best N contiguous seats of the performance (same row, closest
+ * to the stage, then to the middle of the row) and locks them atomically
+ * for the signed-in user or guest.
+ *
+ * Headers:
+ *   Cookie: session or guest checkout (required without an API key, see POST /api/v1/auth/login and /api/v1/auth/guest)
+ *   X-Api-Key: <partner API key> (partners, instead of the cookie; needs the seats:lock scope)
+ *   Idempotency-Key: <uuid> (optional, a retry with the same key replays the first response)
+ *   X-Admission-Token: <token> (required while the waiting room is enabled)
+ *
+ * Request Body:
+ * {
+ *   "quantity": 4,
+ *   "priceCategoryId": "string",  // optional, only seats of this price category
+ *   "presaleCode": "string"       // optional, required while the event is in a presale
+ * }
+ *
+ * Responses:
+ * - 200 OK: Seats locked, ordered by seat number
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no guest checkout, or invalid/revoked API key
+ * - 403 Forbidden: API key lacks the seats:lock scope, missing/invalid admission token for this event,
+ *   event not on sale, or presale code missing/invalid
+ * - 404 Not Found: Performance does not exist for this event
+ * - 409 Conflict: Other buyers kept taking the chosen seats; none were locked
+ * - 422 Unprocessable Entity: No block of contiguous seats is available, or presale code quota used up
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string; performanceId: string }> }
+) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.SEATS_LOCK, apiKeys, async () => {
+    const buyer = await getPartnerOrBuyer(request);
+
+    if (!buyer) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Sign in or continue as a guest',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const { eventId, performanceId } = await params;
+    const idempotency = await getIdempotencyService();
+    return withIdempotency(request, `performances.best-available:${buyer.userId}`, idempotency, () =>
+      lockBestAvailable(request, eventId, performanceId, buyer.userId)
+    );
+  });
+}
+
+async function lockBestAvailable(
+  request: NextRequest,
+  eventId: string,
+  performanceId: string,
+  userId: string
+): Promise<NextResponse> {
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = bestAvailableSchema.parse(body);
+
+    // 2. Call business logic
+    const performanceService = await getPerformanceService();
+    await performanceService.getPerformance(eventId, performanceId);
+
+    const allocationService = await getSeatAllocationService();
+    const admittedEventId = await getAdmittedEventId(request, userId);
+    const lockedSeats = await allocationService.lockBestAvailable(
+      performanceId,
+      validatedData.quantity,
+      userId,
+      { priceCategoryId: validatedData.priceCategoryId, presaleCode: validatedData.presaleCode },
+      admittedEventId
+    );
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: lockedSeats.map((seat) => ({
+          id: seat.id,
+          seatNumber: seat.seatNumber,
+          section: seat.section,
+          row: seat.row,
+          number: seat.number,
+          price: seat.price,
+          status: seat.status,
+          userId: seat.userId,
+          version: seat.version,
+          lockExpiresAt: seat.lockExpiresAt,
+        })),
+        message: `${lockedSeats.length} seats locked successfully`,
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 403 Forbidden - Not admitted from the waiting room
+    if (error instanceof AdmissionRequiredError || error instanceof SeatNotAdmittedError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'ADMISSION_REQUIRED',
+            message: error.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 403 Forbidden - Event is outside its sales window
+    if (error instanceof EventNotOnSaleError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'EVENT_NOT_ON_SALE',
+            message: error.message,
+            details: {
+              status: error.status,
+              salesStartAt: error.salesStartAt,
+              salesEndAt: error.salesEndAt,
+            },
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 403 Forbidden - Event is in a presale and the code is missing or wrong
+    if (error instanceof PresaleCodeRequiredError || error instanceof InvalidPresaleCodeError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error instanceof PresaleCodeRequiredError ? 'PRESALE_CODE_REQUIRED' : 'INVALID_PRESALE_CODE',
+            message: error.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 404 Not Found - Performance doesn't exist for this event
+    if (error instanceof PerformanceNotFoundError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'PERFORMANCE_NOT_FOUND',
+            message: error.message,
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Presale code quota used up
+    if (error instanceof PresaleQuotaExceededError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'PRESALE_QUOTA_EXCEEDED',
+            message: error.message,
+          },
+        },
+        { status: 422 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Not enough seats together
+    if (error instanceof NoContiguousSeatsError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NO_CONTIGUOUS_SEATS',
+            message: error.message,
+          },
+        },
+        { status: 422 }
+      );
+    }
+
+    // 409 Conflict - Every attempt lost the race; nothing was locked
+    if (
+      error instanceof BatchConcurrencyError ||
+      error instanceof ConcurrencyError ||
+      error instanceof SeatNotAvailableError
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONCURRENCY_CONFLICT',
+            message: 'The best seats were taken by other buyers. No seats were locked.',
+            retryable: true,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/events/:eventId/performances/:performanceId/best-available:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
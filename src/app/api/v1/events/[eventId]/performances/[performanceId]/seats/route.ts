@@ -0,0 +1,111 @@
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSeatRepository, getResaleService, getPerformanceService, getApiKeyService } from '@/app/api/container';
+import { withPartnerAccess } from '@/lib/api/partner';
+import type { Seat, SeatProps } from '@/core/domain/seat.entity';
+import { PerformanceNotFoundError } from '@/core/services/PerformanceService';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+
+/**
+ * Orders seats by section, then row, then position in the row.
+ * Seats without a layout fall back to their seatNumber (numeric-aware).
+ */
+function compareSeatPosition(a: Seat, b: Seat): number {
+  const byLabel = (x: string | null, y: string | null) =>
+    (x ?? '').localeCompare(y ?? '', undefined, { numeric: true });
+
+  return (
+    byLabel(a.section, b.section) ||
+    byLabel(a.row, b.row) ||
+    (a.number ?? 0) - (b.number ?? 0) ||
+    byLabel(a.seatNumber, b.seatNumber)
+  );
+}
+
+/**
+ * Public view of a seat: who bought, locked or held it is left out.
+ */
+function toPublicSeat(seat: Seat): Omit<SeatProps, 'userId' | 'heldBy'> {
+  const data = seat.toJSON();
+  return {
+    id: data.id,
+    status: data.status,
+    version: data.version,
+    price: data.price,
+    seatNumber: data.seatNumber,
+    eventId: data.eventId,
+    performanceId: data.performanceId,
+    section: data.section,
+    row: data.row,
+    number: data.number,
+    priceCategory: data.priceCategory,
+    lockExpiresAt: data.lockExpiresAt,
+    lockExtensions: data.lockExtensions,
+    holdReason: data.holdReason,
+  };
+}
+
+/**
+ * GET /api/v1/events/:eventId/performances/:performanceId/seats
+ *
+ * Seat map of one performance (showtime) of the event.
+ *
+ * Headers:
+ *   X-Api-Key: <partner API key> (optional, partners; needs the seats:read scope)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string; performanceId: string }> }
+) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.SEATS_READ, apiKeys, async () => {
+    try {
+      const { eventId, performanceId } = await params;
+    
+      if (!eventId || !performanceId) {
+        return NextResponse.json(
+          { error: 'Event ID and performance ID are required' },
+          { status: 400 }
+        );
+      }
+
+      // The waiting room admits per event, so the performance must belong to it
+      const performanceService = await getPerformanceService();
+      await performanceService.getPerformance(eventId, performanceId);
+
+      const seatRepository = await getSeatRepository();
+      const resaleService = await getResaleService();
+      const [seats, listings] = await Promise.all([
+        seatRepository.findByPerformanceId(performanceId),
+        resaleService.findAvailableListings(eventId),
+      ]);
+
+      // Convert to DTOs if necessary, or return directly
+      // Each seat carries section, row, number and price category (see toPublicSeat),
+      // plus the resale listing if its owner is offering it to other fans
+      const listingsBySeat = new Map(listings.map((listing) => [listing.seatId, listing]));
+      const sortedSeats = seats.sort(compareSeatPosition).map((seat) => {
+        const listing = listingsBySeat.get(seat.id);
+        return {
+          ...toPublicSeat(seat),
+          resale: listing ? { listingId: listing.id, price: listing.price } : null,
+        };
+      });
+
+      return NextResponse.json(sortedSeats);
+    } catch (error) {
+      if (error instanceof PerformanceNotFoundError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+
+      console.error('[API] Failed to fetch seats:', error);
+      return NextResponse.json(
+        { error: 'Internal Server Error' },
+        { status: 500 }
+      );
+    }
+  });
+}
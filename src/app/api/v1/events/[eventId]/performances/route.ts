@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPerformanceService, getApiKeyService } from '@/app/api/container';
+import { withPartnerAccess } from '@/lib/api/partner';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/events/:eventId/performances
+ *
+ * Lists the showtimes of an event, earliest first.
+ *
+ * Headers:
+ *   X-Api-Key: <partner API key> (optional, partners; needs the seats:read scope)
+ *
+ * Responses:
+ * - 200 OK: Performances (empty for an unknown event)
+ * - 401 Unauthorized: Invalid or revoked API key
+ * - 403 Forbidden: The API key lacks the seats:read scope
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.SEATS_READ, apiKeys, async () => {
+    try {
+      const { eventId } = await params;
+
+      const performanceService = await getPerformanceService();
+      const performances = await performanceService.findPerformances(eventId);
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: performances.map((performance) => ({
+            id: performance.id,
+            eventId: performance.eventId,
+            startsAt: performance.startsAt,
+            hasStarted: performance.hasStarted(),
+          })),
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Unexpected error in GET /api/v1/events/:eventId/performances:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'An unexpected error occurred',
+          },
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
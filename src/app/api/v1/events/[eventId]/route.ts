@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEventService, getApiKeyService } from '@/app/api/container';
+import { withPartnerAccess } from '@/lib/api/partner';
+import { EventNotFoundError } from '@/core/services/PerformanceService';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/events/:eventId
+ *
+ * Returns an event, with the status in effect now (sales window applied).
+ * Drafts are not found.
+ *
+ * Headers:
+ *   X-Api-Key: <partner API key> (optional, partners; needs the seats:read scope)
+ *
+ * Responses:
+ * - 200 OK: Event
+ * - 401 Unauthorized: Invalid or revoked API key
+ * - 403 Forbidden: The API key lacks the seats:read scope
+ * - 404 Not Found: Event does not exist or is a draft
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.SEATS_READ, apiKeys, async () => {
+    try {
+      const { eventId } = await params;
+
+      const eventService = await getEventService();
+      const event = await eventService.getEvent(eventId);
+
+      if (!event.isListed()) {
+        throw new EventNotFoundError(eventId);
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            ...event.toJSON(),
+            status: event.salesWindow.statusAt(),
+          },
+        },
+        { status: 200 }
+      );
+
+    } catch (error) {
+      // 404 Not Found - Event doesn't exist (or isn't published yet)
+      if (error instanceof EventNotFoundError) {
+        return NextResponse.json(
+          { success: false, error: { code: 'EVENT_NOT_FOUND', message: error.message } },
+          { status: 404 }
+        );
+      }
+
+      // 500 Internal Server Error - Unexpected error
+      console.error('Unexpected error in GET /api/v1/events/:eventId:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'An unexpected error occurred',
+          },
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWaitingRoomService, getApiKeyService } from '@/app/api/container';
+import {
+  isWaitingRoomEnabled,
+  signAdmissionToken,
+  DEFAULT_ADMISSION_TTL_SECONDS,
+} from '@/lib/api/admission';
+import { AuthenticationRequiredError } from '@/lib/api/session';
+import { requirePartnerOrBuyer, withPartnerAccess } from '@/lib/api/partner';
+import { NotInWaitingRoomError, WaitingRoomStatus } from '@/core/services/WaitingRoomService';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/events/:eventId/waiting-room
+ *
+ * Joins the event's waiting room as the signed-in user or guest (joining again keeps
+ * the original place). Admission tokens are bound to that user.
+ *
+ * Headers:
+ *   Cookie: session or guest checkout (required without an API key, see POST /api/v1/auth/login and /api/v1/auth/guest)
+ *   X-Api-Key: <partner API key> (partners, instead of the cookie; needs the seats:lock scope)
+ *
+ * Responses:
+ * - 200 OK: Queue position, estimated wait and, once admitted, the admission token
+ * - 401 Unauthorized: Not signed in and no guest checkout, or invalid/revoked API key
+ * - 403 Forbidden: The API key lacks the seats:lock scope
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.SEATS_LOCK, apiKeys, async () => {
+    try {
+      // 1. Identify the user
+      const { eventId } = await params;
+      const { userId } = await requirePartnerOrBuyer(request);
+
+      if (!isWaitingRoomEnabled()) {
+        return admittedWithoutQueue(eventId, userId);
+      }
+
+      // 2. Call business logic
+      const waitingRoomService = await getWaitingRoomService();
+      const status = await waitingRoomService.join(eventId, userId);
+
+      // 3. Return success response
+      return NextResponse.json(
+        { success: true, data: await withAdmissionToken(status) },
+        { status: 200 }
+      );
+
+    } catch (error) {
+      return handleError(error, 'POST');
+    }
+  });
+}
+
+/**
+ * GET /api/v1/events/:eventId/waiting-room
+ *
+ * Polls the buyer's place in the waiting room (signed-in user or guest).
+ *
+ * Headers:
+ *   Cookie: session or guest checkout (required without an API key, see POST /api/v1/auth/login and /api/v1/auth/guest)
+ *   X-Api-Key: <partner API key> (partners, instead of the cookie; needs the seats:lock scope)
+ *
+ * Responses:
+ * - 200 OK: Queue position, estimated wait and, once admitted, the admission token
+ * - 401 Unauthorized: Not signed in and no guest checkout, or invalid/revoked API key
+ * - 403 Forbidden: The API key lacks the seats:lock scope
+ * - 404 Not Found: User has not joined the waiting room
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.SEATS_LOCK, apiKeys, async () => {
+    try {
+      // 1. Identify the user
+      const { eventId } = await params;
+      const { userId } = await requirePartnerOrBuyer(request);
+
+      if (!isWaitingRoomEnabled()) {
+        return admittedWithoutQueue(eventId, userId);
+      }
+
+      // 2. Call business logic
+      const waitingRoomService = await getWaitingRoomService();
+      const status = await waitingRoomService.getStatus(eventId, userId);
+
+      // 3. Return success response
+      return NextResponse.json(
+        { success: true, data: await withAdmissionToken(status) },
+        { status: 200 }
+      );
+
+    } catch (error) {
+      return handleError(error, 'GET');
+    }
+  });
+}
+
+/**
+ * Adds a freshly signed admission token once the user is admitted
+ */
+async function withAdmissionToken(status: WaitingRoomStatus) {
+  if (!status.admitted) {
+    return { ...status, admissionToken: null, admissionExpiresAt: null };
+  }
+
+  const ttlSeconds =
+    Number(process.env.WAITING_ROOM_ADMISSION_TTL_SECONDS) || DEFAULT_ADMISSION_TTL_SECONDS;
+  const { token, expiresAt } = await signAdmissionToken(status.eventId, status.userId, ttlSeconds);
+
+  return { ...status, admissionToken: token, admissionExpiresAt: expiresAt };
+}
+
+/**
+ * With the waiting room switched off everyone goes straight to the seat map
+ */
+function admittedWithoutQueue(eventId: string, userId: string): NextResponse {
+  return NextResponse.json(
+    {
+      success: true,
+      data: {
+        eventId,
+        userId,
+        admitted: true,
+        position: 0,
+        estimatedWaitSeconds: 0,
+        admissionToken: null,
+        admissionExpiresAt: null,
+      },
+    },
+    { status: 200 }
+  );
+}
+
+function handleError(error: unknown, method: 'GET' | 'POST'): NextResponse {
+  // 401 Unauthorized - Not signed in and no guest checkout
+  if (error instanceof AuthenticationRequiredError) {
+    return NextResponse.json(
+      { success: false, error: { code: 'AUTHENTICATION_REQUIRED', message: error.message } },
+      { status: 401 }
+    );
+  }
+
+  // 404 Not Found - User never joined
+  if (error instanceof NotInWaitingRoomError) {
+    return NextResponse.json(
+      { success: false, error: { code: 'NOT_IN_WAITING_ROOM', message: error.message } },
+      { status: 404 }
+    );
+  }
+
+  // 500 Internal Server Error - Unexpected error
+  console.error(`Unexpected error in ${method} /api/v1/events/:eventId/waiting-room:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+      },
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWaitlistService } from '@/app/api/container';
+import { getSession } from '@/lib/api/session';
+import { NoWaitlistOfferError, WaitlistOfferExpiredError } from '@/core/services/WaitlistService';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/events/:eventId/waitlist/claim
+ *
+ * Accepts the seat offered to a waitlisted user. The seat stays locked
+ * for the user; the purchase is completed via POST /api/v1/payments/confirm.
+ *
+ * Headers:
+ *   Cookie: session (required, see POST /api/v1/auth/login)
+ *
+ * Responses:
+ * - 200 OK: Offer claimed (response includes the seat and lock expiry)
+ * - 401 Unauthorized: Not signed in
+ * - 404 Not Found: User has no open offer
+ * - 409 Conflict: Entry was modified by another process (retry recommended)
+ * - 410 Gone: Offer expired
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in to continue',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // 1. Call business logic
+    const { eventId } = await params;
+    const waitlistService = await getWaitlistService();
+    const { entry, seat } = await waitlistService.claim(eventId, session.userId);
+
+    // 2. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: entry.id,
+          status: entry.status,
+          seatId: seat.id,
+          seatNumber: seat.seatNumber,
+          price: seat.price,
+          lockExpiresAt: seat.lockExpiresAt,
+        },
+        message: 'Offer claimed, complete the payment before the lock expires',
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    // 404 Not Found - Nothing on offer
+    if (error instanceof NoWaitlistOfferError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NO_WAITLIST_OFFER', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 410 Gone - Offer window passed
+    if (error instanceof WaitlistOfferExpiredError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'WAITLIST_OFFER_EXPIRED', message: error.message } },
+        { status: 410 }
+      );
+    }
+
+    // 409 Conflict - Concurrency Error (Optimistic Locking Failed)
+    if (error instanceof ConcurrencyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONCURRENCY_CONFLICT',
+            message: 'The waitlist entry was modified by another process. Please retry.',
+            retryable: true,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/events/:eventId/waitlist/claim:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWaitlistService } from '@/app/api/container';
+import { getSession } from '@/lib/api/session';
+import { WaitlistEntryNotFoundError } from '@/core/services/WaitlistService';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/events/:eventId/waitlist/leave
+ *
+ * Leaves an event's waitlist. A seat on offer is passed to the next user.
+ *
+ * Headers:
+ *   Cookie: session (required, see POST /api/v1/auth/login)
+ *
+ * Responses:
+ * - 200 OK: User removed from the waitlist
+ * - 401 Unauthorized: Not signed in
+ * - 404 Not Found: User is not on the waitlist
+ * - 409 Conflict: Entry was modified by another process (retry recommended)
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in to continue',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // 1. Call business logic
+    const { eventId } = await params;
+    const waitlistService = await getWaitlistService();
+    const entry = await waitlistService.leave(eventId, session.userId);
+
+    // 2. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: entry.id,
+          eventId: entry.eventId,
+          userId: entry.userId,
+          status: entry.status,
+        },
+        message: 'Left the waitlist',
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    // 404 Not Found - Not on the waitlist
+    if (error instanceof WaitlistEntryNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'WAITLIST_ENTRY_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 409 Conflict - Concurrency Error (Optimistic Locking Failed)
+    if (error instanceof ConcurrencyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONCURRENCY_CONFLICT',
+            message: 'The waitlist entry was modified by another process. Please retry.',
+            retryable: true,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/events/:eventId/waitlist/leave:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
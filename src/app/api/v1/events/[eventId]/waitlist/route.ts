@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWaitlistService } from '@/app/api/container';
+import { getSession } from '@/lib/api/session';
+import { AlreadyOnWaitlistError, EventNotSoldOutError } from '@/core/services/WaitlistService';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/events/:eventId/waitlist
+ *
+ * Joins the waitlist of a sold-out event.
+ *
+ * Headers:
+ *   Cookie: session (required, see POST /api/v1/auth/login)
+ *
+ * Responses:
+ * - 201 Created: User added to the waitlist (response includes queue position)
+ * - 401 Unauthorized: Not signed in
+ * - 409 Conflict: User is already on the waitlist
+ * - 422 Unprocessable Entity: Event still has available seats
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in to continue',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // 1. Call business logic
+    const { eventId } = await params;
+    const waitlistService = await getWaitlistService();
+    const { entry, position } = await waitlistService.join(eventId, session.userId);
+
+    // 2. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: entry.id,
+          eventId: entry.eventId,
+          userId: entry.userId,
+          status: entry.status,
+          position,
+        },
+        message: 'Joined the waitlist',
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    // 409 Conflict - Already waiting or holding an offer
+    if (error instanceof AlreadyOnWaitlistError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'ALREADY_ON_WAITLIST', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Seats can still be bought directly
+    if (error instanceof EventNotSoldOutError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'EVENT_NOT_SOLD_OUT', message: error.message } },
+        { status: 422 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/events/:eventId/waitlist:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getEventService, getApiKeyService } from '@/app/api/container';
+import { eventsQuerySchema } from '@/lib/validation/event.schemas';
+import { withPartnerAccess } from '@/lib/api/partner';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/events?from=&to=&location=
+ *
+ * Lists the events on the books (drafts excluded), earliest first. The
+ * status is the one in effect now, with the sales window applied.
+ *
+ * Query:
+ *   from      ISO 8601 date-time; events with a showtime at or after it (optional)
+ *   to        ISO 8601 date-time; events with a showtime at or before it (optional)
+ *   location  Part of the venue name, any case (optional)
+ *
+ * Headers:
+ *   X-Api-Key: <partner API key> (optional, partners; needs the seats:read scope)
+ *
+ * Responses:
+ * - 200 OK: Events
+ * - 400 Bad Request: Invalid query (Zod validation failed)
+ * - 401 Unauthorized: Invalid or revoked API key
+ * - 403 Forbidden: The API key lacks the seats:read scope
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function GET(request: NextRequest) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.SEATS_READ, apiKeys, async () => {
+    try {
+      // 1. Parse and validate query
+      const { searchParams } = request.nextUrl;
+      const validatedData = eventsQuerySchema.parse({
+        from: searchParams.get('from') ?? undefined,
+        to: searchParams.get('to') ?? undefined,
+        location: searchParams.get('location') ?? undefined,
+      });
+
+      // 2. Call business logic
+      const eventService = await getEventService();
+      const events = await eventService.listEvents(validatedData);
+
+      // 3. Return success response
+      return NextResponse.json(
+        {
+          success: true,
+          data: events.map((event) => ({
+            ...event.toJSON(),
+            status: event.salesWindow.statusAt(),
+          })),
+        },
+        { status: 200 }
+      );
+
+    } catch (error) {
+      // 400 Bad Request - Validation Error
+      if (error instanceof ZodError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid query',
+              details: error.issues.map((issue) => ({
+                field: issue.path.join('.'),
+                message: issue.message,
+              })),
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      // 500 Internal Server Error - Unexpected error
+      console.error('Unexpected error in GET /api/v1/events:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'An unexpected error occurred',
+          },
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
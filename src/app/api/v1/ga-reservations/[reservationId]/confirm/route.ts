@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getGeneralAdmissionService, getIdempotencyService, getApiKeyService } from '@/app/api/container';
+import { withIdempotency } from '@/lib/api/idempotency';
+import type { Buyer } from '@/lib/api/guest';
+import { getPartnerOrBuyer, withPartnerAccess, type PartnerBuyer } from '@/lib/api/partner';
+import { confirmGaPurchaseSchema } from '@/lib/validation/ga.schemas';
+import {
+  GaReservationExpiredError,
+  GaReservationNotFoundError,
+  GaReservationNotLockedError,
+  GaReservationNotOwnedError,
+} from '@/core/services/GeneralAdmissionService';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/ga-reservations/:reservationId/confirm
+ *
+ * Confirms the signed-in user's or guest's general-admission purchase after
+ * successful payment. Guests must first verify their email with the one-time
+ * code (POST /api/v1/auth/guest/verify); the tickets are sent to that address.
+ *
+ * Headers:
+ *   Cookie: session or guest checkout (required without an API key, see POST /api/v1/auth/login and /api/v1/auth/guest)
+ *   X-Api-Key: <partner API key> (partners, instead of the cookie; needs the payments:confirm scope)
+ *   Idempotency-Key: <uuid> (optional, a retry with the same key replays the first response)
+ *
+ * Request Body:
+ * {
+ *   "paymentReference": "string"   // optional, payment provider transaction ID
+ * }
+ *
+ * Responses:
+ * - 200 OK: Purchase confirmed
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no guest checkout, or invalid/revoked API key
+ * - 403 Forbidden: API key lacks the payments:confirm scope, guest email not verified,
+ *   or the reservation belongs to another user
+ * - 404 Not Found: Reservation does not exist
+ * - 409 Conflict: Reservation already sold, released or expired, or changed meanwhile
+ * - 410 Gone: Lock expired before payment was confirmed
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ reservationId: string }> }
+) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.PAYMENTS_CONFIRM, apiKeys, async () => {
+    const buyer = await getPartnerOrBuyer(request);
+
+    if (!buyer) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Sign in or continue as a guest',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    // The tickets go to the guest's email, so it must be theirs
+    if (buyer.kind === 'guest' && !buyer.emailVerified) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'EMAIL_NOT_VERIFIED',
+            message: 'Enter the code we emailed you to confirm your purchase',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const { reservationId } = await params;
+    const idempotency = await getIdempotencyService();
+    return withIdempotency(request, `ga.confirm:${buyer.userId}`, idempotency, () =>
+      confirmPurchase(request, reservationId, buyer)
+    );
+  });
+}
+
+async function confirmPurchase(
+  request: NextRequest,
+  reservationId: string,
+  buyer: Buyer | PartnerBuyer
+): Promise<NextResponse> {
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = confirmGaPurchaseSchema.parse(body);
+
+    // 2. Call business logic
+    const gaService = await getGeneralAdmissionService();
+    const { reservation, order } = await gaService.confirmPurchase(
+      reservationId,
+      buyer.userId,
+      validatedData.paymentReference,
+      buyer.email ?? undefined
+    );
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: reservation.id,
+          zoneId: reservation.zoneId,
+          quantity: reservation.quantity,
+          totalAmount: reservation.totalAmount,
+          status: reservation.status,
+          soldAt: reservation.soldAt,
+          orderId: order.id,
+        },
+        message: 'Purchase confirmed successfully',
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 404 Not Found - Reservation doesn't exist
+    if (error instanceof GaReservationNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'RESERVATION_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 403 Forbidden - Not the buyer's reservation
+    if (error instanceof GaReservationNotOwnedError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED_LOCK', message: error.message } },
+        { status: 403 }
+      );
+    }
+
+    // 410 Gone - Lock expired before payment was confirmed
+    if (error instanceof GaReservationExpiredError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'LOCK_EXPIRED', message: error.message } },
+        { status: 410 }
+      );
+    }
+
+    // 409 Conflict - Already sold, released or expired
+    if (error instanceof GaReservationNotLockedError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'RESERVATION_NOT_LOCKED', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 409 Conflict - Concurrency Error (the lock expiry sweep got there first)
+    if (error instanceof ConcurrencyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONCURRENCY_CONFLICT',
+            message: 'The reservation was modified by another process. Please retry.',
+            retryable: true,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/ga-reservations/:reservationId/confirm:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
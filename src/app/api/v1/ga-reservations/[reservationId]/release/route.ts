@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGeneralAdmissionService, getApiKeyService } from '@/app/api/container';
+import { getPartnerOrBuyer, withPartnerAccess } from '@/lib/api/partner';
+import {
+  GaReservationNotFoundError,
+  GaReservationNotLockedError,
+  GaReservationNotOwnedError,
+} from '@/core/services/GeneralAdmissionService';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/ga-reservations/:reservationId/release
+ *
+ * Cancels the signed-in user's or guest's general-admission checkout; the
+ * tickets go back to the zone.
+ *
+ * Headers:
+ *   Cookie: session or guest checkout (required without an API key, see POST /api/v1/auth/login and /api/v1/auth/guest)
+ *   X-Api-Key: <partner API key> (partners, instead of the cookie; needs the seats:lock scope)
+ *
+ * Responses:
+ * - 200 OK: Tickets released
+ * - 401 Unauthorized: Not signed in and no guest checkout, or invalid/revoked API key
+ * - 403 Forbidden: API key lacks the seats:lock scope, or the reservation belongs to another user
+ * - 404 Not Found: Reservation does not exist
+ * - 409 Conflict: Reservation already sold, released or expired, or changed meanwhile
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ reservationId: string }> }
+) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.SEATS_LOCK, apiKeys, async () => {
+    const buyer = await getPartnerOrBuyer(request);
+
+    if (!buyer) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Sign in or continue as a guest',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    try {
+      // 1. Call business logic
+      const { reservationId } = await params;
+      const gaService = await getGeneralAdmissionService();
+      const reservation = await gaService.releaseReservation(reservationId, buyer.userId);
+
+      // 2. Return success response
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            id: reservation.id,
+            status: reservation.status,
+          },
+          message: 'Tickets released successfully',
+        },
+        { status: 200 }
+      );
+
+    } catch (error) {
+      // 404 Not Found - Reservation doesn't exist
+      if (error instanceof GaReservationNotFoundError) {
+        return NextResponse.json(
+          { success: false, error: { code: 'RESERVATION_NOT_FOUND', message: error.message } },
+          { status: 404 }
+        );
+      }
+
+      // 403 Forbidden - Not the buyer's reservation
+      if (error instanceof GaReservationNotOwnedError) {
+        return NextResponse.json(
+          { success: false, error: { code: 'UNAUTHORIZED_LOCK', message: error.message } },
+          { status: 403 }
+        );
+      }
+
+      // 409 Conflict - Already sold, released or expired
+      if (error instanceof GaReservationNotLockedError) {
+        return NextResponse.json(
+          { success: false, error: { code: 'RESERVATION_NOT_LOCKED', message: error.message } },
+          { status: 409 }
+        );
+      }
+
+      // 409 Conflict - Concurrency Error (Optimistic Locking Failed)
+      if (error instanceof ConcurrencyError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'CONCURRENCY_CONFLICT',
+              message: 'The reservation was modified by another process. Please retry.',
+              retryable: true,
+            },
+          },
+          { status: 409 }
+        );
+      }
+
+      // 500 Internal Server Error - Unexpected error
+      console.error('Unexpected error in POST /api/v1/ga-reservations/:reservationId/release:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'An unexpected error occurred',
+          },
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTicketService } from '@/app/api/container';
+import { getBuyer } from '@/lib/api/guest';
+import { renderTicketPdf } from '@/lib/utils/ticket-pdf';
+import { TicketNotFoundError } from '@/core/services/TicketService';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/me/tickets/:seatId/pdf
+ *
+ * Downloads one of the caller's tickets as a PDF. Only the current owner
+ * can download it: after a transfer, resale or refund it is gone.
+ *
+ * Headers:
+ *   Cookie: session or guest checkout (required, see POST /api/v1/auth/login and /api/v1/auth/guest)
+ *
+ * Responses:
+ * - 200 OK: The ticket (application/pdf, as an attachment)
+ * - 401 Unauthorized: Not signed in and no guest checkout
+ * - 404 Not Found: The caller owns no ticket for this seat
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ seatId: string }> }
+) {
+  const buyer = await getBuyer(request);
+
+  if (!buyer) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in or continue as a guest',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { seatId } = await params;
+
+    const ticketService = await getTicketService();
+    const { seat, event, startsAt } = await ticketService.getTicket(buyer.userId, seatId);
+
+    const pdf = renderTicketPdf({
+      ticketId: seat.id,
+      eventTitle: event.title,
+      location: event.location,
+      startsAt,
+      seatNumber: seat.seatNumber,
+      section: seat.section,
+      row: seat.row,
+      holder: buyer.email,
+    });
+
+    return new NextResponse(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="ticket-${seat.seatNumber.replace(/[^\w-]/g, '_')}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    // 404 Not Found - Not the caller's ticket (or not sold)
+    if (error instanceof TicketNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'TICKET_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in GET /api/v1/me/tickets/:seatId/pdf:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
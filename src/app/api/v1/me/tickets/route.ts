@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTicketService } from '@/app/api/container';
+import { getBuyer } from '@/lib/api/guest';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/me/tickets
+ *
+ * Lists the tickets the signed-in user (or guest) owns, grouped by event,
+ * events with the earliest showtime first. Each ticket says whether its
+ * showtime has started and links to its PDF.
+ *
+ * Headers:
+ *   Cookie: session or guest checkout (required, see POST /api/v1/auth/login and /api/v1/auth/guest)
+ *
+ * Responses:
+ * - 200 OK: Tickets by event (possibly empty)
+ * - 401 Unauthorized: Not signed in and no guest checkout
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function GET(request: NextRequest) {
+  const buyer = await getBuyer(request);
+
+  if (!buyer) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in or continue as a guest',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const ticketService = await getTicketService();
+    const groups = await ticketService.getTicketsByEvent(buyer.userId);
+    const now = new Date();
+
+    return NextResponse.json({
+      success: true,
+      data: groups.map(({ event, tickets }) => ({
+        event,
+        tickets: tickets.map(({ seat, startsAt }) => ({
+          seatId: seat.id,
+          seatNumber: seat.seatNumber,
+          section: seat.section,
+          row: seat.row,
+          price: seat.price,
+          priceCategory: seat.priceCategory,
+          performanceId: seat.performanceId,
+          startsAt,
+          hasStarted: startsAt <= now,
+          pdfUrl: `/api/v1/me/tickets/${seat.id}/pdf`,
+        })),
+      })),
+    });
+  } catch (error) {
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in GET /api/v1/me/tickets:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderRepository } from '@/app/api/container';
+import { authorizeOwnerRequest } from '@/lib/api/admin';
+import { Permission } from '@/core/domain/permission';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/orders/:orderId
+ * 
+ * Returns a single order with its items.
+ * 
+ * Headers:
+ *   Cookie: session or guest checkout of the buyer, or of staff with orders:read
+ * 
+ * Responses:
+ * - 200 OK: Order found
+ * - 401 Unauthorized: Not signed in and no guest checkout
+ * - 403 Forbidden: Someone else's order, without orders:read
+ * - 404 Not Found: Order does not exist
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+
+    const orderRepository = await getOrderRepository();
+    const order = await orderRepository.findById(orderId);
+
+    if (!order) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'ORDER_NOT_FOUND',
+            message: `Order ${orderId} not found`,
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const denied = await authorizeOwnerRequest(request, order.userId, Permission.ORDERS_READ);
+    if (denied) {
+      return denied;
+    }
+
+    return NextResponse.json({ success: true, data: order.toJSON() });
+  } catch (error) {
+    console.error('[API] Failed to fetch order:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
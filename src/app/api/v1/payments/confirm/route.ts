@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ZodError } from 'zod';
-import { getBookingService } from '@/app/api/container';
+import { getBookingService, getIdempotencyService, getApiKeyService } from '@/app/api/container';
+import { withIdempotency } from '@/lib/api/idempotency';
+import type { Buyer } from '@/lib/api/guest';
+import { getPartnerOrBuyer, withPartnerAccess, type PartnerBuyer } from '@/lib/api/partner';
 import { z } from 'zod';
-import { SeatNotFoundError, SeatNotAvailableError, UnauthorizedLockError } from '@/core/services/BookingService';
+import { SeatNotFoundError, UnauthorizedLockError, LockExpiredError } from '@/core/services/BookingService';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -10,21 +15,67 @@ export const dynamic = 'force-dynamic';
 // Validation Schema
 const confirmPurchaseSchema = z.object({
   seatId: z.string().uuid(),
-  userId: z.string().uuid(),
+  paymentReference: z.string().min(1).max(255).optional(),
 });
 
 /**
  * POST /api/v1/payments/confirm
  * 
- * Confirms a purchase after successful payment.
+ * Confirms the signed-in user's or guest's purchase after successful payment.
+ * Only the buyer holding the lock can confirm it. Guests must first verify
+ * their email with the one-time code (POST /api/v1/auth/guest/verify); the
+ * ticket is sent to that address. Partners (API key) get no ticket email,
+ * they deliver the tickets themselves.
+ * 
+ * Headers:
+ *   Cookie: session or guest checkout (required without an API key, see POST /api/v1/auth/login and /api/v1/auth/guest)
+ *   X-Api-Key: <partner API key> (partners, instead of the cookie; needs the payments:confirm scope)
+ *   Idempotency-Key: <uuid> (optional, a retry with the same key replays the first response)
  * 
  * Request Body:
  * {
  *   "seatId": "uuid",
- *   "userId": "uuid"
+ *   "paymentReference": "string" (optional, payment provider transaction ID)
  * }
  */
 export async function POST(request: NextRequest) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.PAYMENTS_CONFIRM, apiKeys, async () => {
+    const buyer = await getPartnerOrBuyer(request);
+
+    if (!buyer) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Sign in or continue as a guest',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    // The ticket goes to the guest's email, so it must be theirs
+    if (buyer.kind === 'guest' && !buyer.emailVerified) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'EMAIL_NOT_VERIFIED',
+            message: 'Enter the code we emailed you to confirm your purchase',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const idempotency = await getIdempotencyService();
+    return withIdempotency(request, `payments.confirm:${buyer.userId}`, idempotency, () => confirmPurchase(request, buyer));
+  });
+}
+
+async function confirmPurchase(request: NextRequest, buyer: Buyer | PartnerBuyer): Promise<NextResponse> {
   try {
     // 1. Parse and validate request body
     const body = await request.json();
@@ -35,9 +86,11 @@ export async function POST(request: NextRequest) {
     
     console.log(`💰 Processing payment confirmation for Seat ${validatedData.seatId}`);
     
-    const soldSeat = await bookingService.confirmSale(
+    const { seat: soldSeat, order } = await bookingService.confirmSale(
       validatedData.seatId,
-      validatedData.userId
+      buyer.userId,
+      validatedData.paymentReference,
+      buyer.email ?? undefined
     );
 
     // 3. Return success response
@@ -50,6 +103,8 @@ export async function POST(request: NextRequest) {
           status: soldSeat.status,
           userId: soldSeat.userId,
           version: soldSeat.version,
+          orderId: order.id,
+          totalAmount: order.totalAmount,
         },
         message: 'Purchase confirmed successfully',
       },
@@ -61,7 +116,20 @@ export async function POST(request: NextRequest) {
 
     // 400 Bad Request - Validation Error
     if (error instanceof ZodError) {
-        return NextResponse.json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid body' } }, { status: 400 });
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid request body',
+              details: error.issues.map((issue) => ({
+                field: issue.path.join('.'),
+                message: issue.message,
+              })),
+            },
+          },
+          { status: 400 }
+        );
     }
 
     // 404 Not Found
@@ -74,6 +142,26 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ success: false, error: { code: 'UNAUTHORIZED_LOCK', message: error.message } }, { status: 403 });
     }
 
+    // 410 Gone - Lock expired before payment was confirmed
+    if (error instanceof LockExpiredError) {
+        return NextResponse.json({ success: false, error: { code: 'LOCK_EXPIRED', message: error.message } }, { status: 410 });
+    }
+
+    // 409 Conflict - Concurrency Error (Optimistic Locking Failed)
+    if (error instanceof ConcurrencyError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'CONCURRENCY_CONFLICT',
+              message: 'The seat was modified by another process. Please retry.',
+              retryable: true,
+            },
+          },
+          { status: 409 }
+        );
+    }
+
     // 500 Internal Server Error
     return NextResponse.json(
       {
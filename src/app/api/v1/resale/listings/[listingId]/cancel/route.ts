@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getResaleService } from '@/app/api/container';
+import { getSession } from '@/lib/api/session';
+import { TicketNotOwnedError } from '@/core/services/BookingService';
+import {
+  ResaleListingLockedError,
+  ResaleListingNotFoundError,
+  ResaleListingUnavailableError,
+} from '@/core/services/ResaleService';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/resale/listings/:listingId/cancel
+ *
+ * Withdraws a resale listing.
+ *
+ * Headers:
+ *   Cookie: session (required, see POST /api/v1/auth/login)
+ *
+ * Responses:
+ * - 200 OK: Listing withdrawn
+ * - 401 Unauthorized: Not signed in
+ * - 403 Forbidden: The user did not create this listing
+ * - 404 Not Found: Listing does not exist
+ * - 409 Conflict: Listing already sold or withdrawn, a buyer is checking out, or it changed meanwhile
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ listingId: string }> }
+) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in to continue',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // 1. Call business logic
+    const { listingId } = await params;
+    const resaleService = await getResaleService();
+    const listing = await resaleService.cancelListing(listingId, session.userId);
+
+    // 2. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: listing.id,
+          status: listing.status,
+        },
+        message: 'Resale listing withdrawn',
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    // 404 Not Found - Listing doesn't exist
+    if (error instanceof ResaleListingNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'LISTING_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 403 Forbidden - Not the seller
+    if (error instanceof TicketNotOwnedError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'TICKET_NOT_OWNED', message: error.message } },
+        { status: 403 }
+      );
+    }
+
+    // 409 Conflict - Already sold or withdrawn
+    if (error instanceof ResaleListingUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'LISTING_UNAVAILABLE', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 409 Conflict - A buyer is paying for it right now
+    if (error instanceof ResaleListingLockedError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'LISTING_LOCKED', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 409 Conflict - Concurrency Error (Optimistic Locking Failed)
+    if (error instanceof ConcurrencyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONCURRENCY_CONFLICT',
+            message: 'The listing was modified by another process. Please retry.',
+            retryable: true,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/resale/listings/:listingId/cancel:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getResaleService } from '@/app/api/container';
+import { getSession } from '@/lib/api/session';
+import {
+  OwnListingPurchaseError,
+  ResaleListingNotFoundError,
+  ResaleListingUnavailableError,
+} from '@/core/services/ResaleService';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/resale/listings/:listingId/lock
+ *
+ * Holds a resale ticket for the signed-in buyer during checkout, for as long
+ * as a regular seat lock. Complete it with POST .../purchase.
+ *
+ * Headers:
+ *   Cookie: session (required, see POST /api/v1/auth/login)
+ *
+ * Responses:
+ * - 200 OK: Listing held; response includes lockExpiresAt
+ * - 401 Unauthorized: Not signed in
+ * - 403 Forbidden: The buyer is the seller
+ * - 404 Not Found: Listing does not exist
+ * - 409 Conflict: Listing sold, withdrawn or held by another buyer
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ listingId: string }> }
+) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in to continue',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // 1. Call business logic
+    const { listingId } = await params;
+    const resaleService = await getResaleService();
+    const listing = await resaleService.lockListing(listingId, session.userId);
+
+    // 2. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: listing.id,
+          seatId: listing.seatId,
+          price: listing.price,
+          buyerId: listing.buyerId,
+          lockExpiresAt: listing.lockExpiresAt,
+        },
+        message: 'Resale ticket held for checkout',
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    // 404 Not Found - Listing doesn't exist
+    if (error instanceof ResaleListingNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'LISTING_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 403 Forbidden - Sellers can't buy their own ticket
+    if (error instanceof OwnListingPurchaseError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'OWN_LISTING', message: error.message } },
+        { status: 403 }
+      );
+    }
+
+    // 409 Conflict - Listing no longer on sale
+    if (error instanceof ResaleListingUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'LISTING_UNAVAILABLE', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 409 Conflict - Concurrency Error (another buyer locked it first)
+    if (error instanceof ConcurrencyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONCURRENCY_CONFLICT',
+            message: 'This ticket was just taken by another buyer.',
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/resale/listings/:listingId/lock:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getResaleService, getIdempotencyService } from '@/app/api/container';
+import { withIdempotency } from '@/lib/api/idempotency';
+import { getSession } from '@/lib/api/session';
+import { resalePurchaseSchema } from '@/lib/validation/resale.schemas';
+import { SeatNotFoundError, UnauthorizedLockError, LockExpiredError } from '@/core/services/BookingService';
+import {
+  ResaleListingNotFoundError,
+  ResaleListingUnavailableError,
+} from '@/core/services/ResaleService';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/resale/listings/:listingId/purchase
+ *
+ * Completes a resale purchase after successful payment: the ticket moves
+ * from the seller to the buyer, an order is recorded at the resale price
+ * and the seller payout is recorded on the listing. Only the signed-in
+ * buyer holding the listing can complete it.
+ *
+ * Headers:
+ *   Cookie: session (required, see POST /api/v1/auth/login)
+ *   Idempotency-Key: <uuid> (optional, a retry with the same key replays the first response)
+ *
+ * Request Body:
+ * {
+ *   "paymentReference": "string"     // optional, payment provider transaction ID
+ * }
+ *
+ * Responses:
+ * - 200 OK: Ticket now belongs to the buyer
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in
+ * - 403 Forbidden: The user doesn't hold the listing
+ * - 404 Not Found: Listing or seat does not exist
+ * - 409 Conflict: Listing no longer on sale, or changed meanwhile
+ * - 410 Gone: Checkout lock expired before payment was confirmed
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ listingId: string }> }
+) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in to continue',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  const { listingId } = await params;
+  const idempotency = await getIdempotencyService();
+  return withIdempotency(request, `resale.purchase:${session.userId}`, idempotency, () =>
+    confirmPurchase(request, listingId, session.userId)
+  );
+}
+
+async function confirmPurchase(request: NextRequest, listingId: string, userId: string): Promise<NextResponse> {
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = resalePurchaseSchema.parse(body);
+
+    // 2. Call business logic
+    const resaleService = await getResaleService();
+    const { listing, seat, order } = await resaleService.confirmPurchase(
+      listingId,
+      userId,
+      validatedData.paymentReference
+    );
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          listingId: listing.id,
+          seatId: seat.id,
+          seatNumber: seat.seatNumber,
+          userId: seat.userId,
+          orderId: order.id,
+          totalAmount: order.totalAmount,
+        },
+        message: 'Resale purchase confirmed successfully',
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 404 Not Found - Listing doesn't exist
+    if (error instanceof ResaleListingNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'LISTING_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 404 Not Found - Seat doesn't exist
+    if (error instanceof SeatNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'SEAT_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 403 Forbidden - Not the buyer holding the lock
+    if (error instanceof UnauthorizedLockError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED_LOCK', message: error.message } },
+        { status: 403 }
+      );
+    }
+
+    // 410 Gone - Lock expired before payment was confirmed
+    if (error instanceof LockExpiredError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'LOCK_EXPIRED', message: error.message } },
+        { status: 410 }
+      );
+    }
+
+    // 409 Conflict - Listing no longer on sale (withdrawn, or the seller's ticket changed hands)
+    if (error instanceof ResaleListingUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'LISTING_UNAVAILABLE', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 409 Conflict - Concurrency Error (Optimistic Locking Failed)
+    if (error instanceof ConcurrencyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONCURRENCY_CONFLICT',
+            message: 'The ticket was modified by another process. Please retry.',
+            retryable: true,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/resale/listings/:listingId/purchase:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getResaleService } from '@/app/api/container';
+import { getSession } from '@/lib/api/session';
+import {
+  createResaleListingSchema,
+  resaleListingsQuerySchema,
+} from '@/lib/validation/resale.schemas';
+import { SeatNotFoundError, TicketNotOwnedError } from '@/core/services/BookingService';
+import {
+  ResaleNotAllowedError,
+  ResalePriceAboveCapError,
+  TicketAlreadyListedError,
+  TicketNotResellableError,
+} from '@/core/services/ResaleService';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/resale/listings?eventId=<uuid>
+ *
+ * Lists the resale tickets of an event that can be bought right now, cheapest first.
+ *
+ * Responses:
+ * - 200 OK: Available listings
+ * - 400 Bad Request: Missing or invalid eventId
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Parse and validate query
+    const validatedData = resaleListingsQuerySchema.parse({
+      eventId: request.nextUrl.searchParams.get('eventId') ?? undefined,
+    });
+
+    // 2. Call business logic
+    const resaleService = await getResaleService();
+    const listings = await resaleService.findAvailableListings(validatedData.eventId);
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: listings.map((listing) => ({
+          id: listing.id,
+          seatId: listing.seatId,
+          eventId: listing.eventId,
+          price: listing.price,
+          createdAt: listing.createdAt,
+        })),
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    return handleError(error, 'GET');
+  }
+}
+
+/**
+ * POST /api/v1/resale/listings
+ *
+ * Lists a sold ticket for resale. The seller keeps the ticket until a buyer
+ * completes the purchase.
+ *
+ * Headers:
+ *   Cookie: session (required, see POST /api/v1/auth/login)
+ *
+ * Request Body:
+ * {
+ *   "seatId": "uuid",
+ *   "price": 120.00   // At most the event's resale cap (% of face value)
+ * }
+ *
+ * Responses:
+ * - 201 Created: Listing created
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in
+ * - 403 Forbidden: The user does not own the ticket
+ * - 404 Not Found: Seat does not exist
+ * - 409 Conflict: The ticket is already listed
+ * - 422 Unprocessable Entity: Seat not sold, resale disabled, or price above the cap
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in to continue',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = createResaleListingSchema.parse(body);
+
+    // 2. Call business logic
+    const resaleService = await getResaleService();
+    const listing = await resaleService.listTicket(
+      validatedData.seatId,
+      session.userId,
+      validatedData.price
+    );
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: listing.id,
+          seatId: listing.seatId,
+          eventId: listing.eventId,
+          sellerId: listing.sellerId,
+          price: listing.price,
+          status: listing.status,
+          createdAt: listing.createdAt,
+        },
+        message: 'Ticket listed for resale',
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return handleError(error, 'POST');
+  }
+}
+
+function handleError(error: unknown, method: 'GET' | 'POST'): NextResponse {
+  // 400 Bad Request - Validation Error
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: method === 'POST' ? 'Invalid request body' : 'Invalid query parameters',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  // 404 Not Found - Seat doesn't exist
+  if (error instanceof SeatNotFoundError) {
+    return NextResponse.json(
+      { success: false, error: { code: 'SEAT_NOT_FOUND', message: error.message } },
+      { status: 404 }
+    );
+  }
+
+  // 403 Forbidden - Not the ticket owner
+  if (error instanceof TicketNotOwnedError) {
+    return NextResponse.json(
+      { success: false, error: { code: 'TICKET_NOT_OWNED', message: error.message } },
+      { status: 403 }
+    );
+  }
+
+  // 409 Conflict - Already on sale
+  if (error instanceof TicketAlreadyListedError) {
+    return NextResponse.json(
+      { success: false, error: { code: 'TICKET_ALREADY_LISTED', message: error.message } },
+      { status: 409 }
+    );
+  }
+
+  // 422 Unprocessable Entity - No ticket to resell
+  if (error instanceof TicketNotResellableError) {
+    return NextResponse.json(
+      { success: false, error: { code: 'TICKET_NOT_RESELLABLE', message: error.message } },
+      { status: 422 }
+    );
+  }
+
+  // 422 Unprocessable Entity - Organizer disabled resale
+  if (error instanceof ResaleNotAllowedError) {
+    return NextResponse.json(
+      { success: false, error: { code: 'RESALE_NOT_ALLOWED', message: error.message } },
+      { status: 422 }
+    );
+  }
+
+  // 422 Unprocessable Entity - Asking price above the organizer's cap
+  if (error instanceof ResalePriceAboveCapError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'RESALE_PRICE_ABOVE_CAP',
+          message: error.message,
+          maxPrice: error.maxPrice,
+        },
+      },
+      { status: 422 }
+    );
+  }
+
+  // 500 Internal Server Error - Unexpected error
+  console.error(`Unexpected error in ${method} /api/v1/resale/listings:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+      },
+    },
+    { status: 500 }
+  );
+}
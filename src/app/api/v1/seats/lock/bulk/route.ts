@@ -0,0 +1,260 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getBookingService, getIdempotencyService, getApiKeyService } from '@/app/api/container';
+import { withIdempotency } from '@/lib/api/idempotency';
+import { getAdmittedEventId, AdmissionRequiredError } from '@/lib/api/admission';
+import { getPartnerOrBuyer, withPartnerAccess } from '@/lib/api/partner';
+import { lockSeatsSchema } from '@/lib/validation/seat.schemas';
+import {
+  SeatNotFoundError,
+  SeatNotAvailableError,
+  SeatNotAdmittedError,
+  EventNotOnSaleError,
+  PresaleCodeRequiredError,
+  InvalidPresaleCodeError,
+  PresaleQuotaExceededError,
+} from '@/core/services/BookingService';
+import { ConcurrencyError, BatchConcurrencyError } from '@/core/errors/repository.errors';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/seats/lock/bulk
+ *
+ * Locks several seats for the signed-in user or guest atomically (all-or-nothing).
+ *
+ * Headers:
+ *   Cookie: session or guest checkout (required without an API key, see POST /api/v1/auth/login and /api/v1/auth/guest)
+ *   X-Api-Key: <partner API key> (partners, instead of the cookie; needs the seats:lock scope)
+ *   Idempotency-Key: <uuid> (optional, a retry with the same key replays the first response)
+ *   X-Admission-Token: <token> (required while the waiting room is enabled)
+ *
+ * Request Body:
+ * {
+ *   "seatIds": ["uuid", "uuid"],
+ *   "presaleCode": "string"   // optional, required while the event is in a presale
+ * }
+ *
+ * Responses:
+ * - 200 OK: All seats locked successfully
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no guest checkout, or invalid/revoked API key
+ * - 403 Forbidden: API key lacks the seats:lock scope, missing/invalid admission token,
+ *   seat outside the admitted event, event not on sale,
+ *   or presale code missing/invalid
+ * - 404 Not Found: One of the seats does not exist
+ * - 409 Conflict: Seats were modified by another process; none were locked
+ * - 422 Unprocessable Entity: One of the seats is not available, or presale code quota used up
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(request: NextRequest) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.SEATS_LOCK, apiKeys, async () => {
+    const buyer = await getPartnerOrBuyer(request);
+
+    if (!buyer) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Sign in or continue as a guest',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const idempotency = await getIdempotencyService();
+    return withIdempotency(request, `seats.lock.bulk:${buyer.userId}`, idempotency, () => lockSeats(request, buyer.userId));
+  });
+}
+
+async function lockSeats(request: NextRequest, userId: string): Promise<NextResponse> {
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = lockSeatsSchema.parse(body);
+
+    // 2. Call business logic
+    const bookingService = await getBookingService();
+    const admittedEventId = await getAdmittedEventId(request, userId);
+    const lockedSeats = await bookingService.lockSeats(
+      validatedData.seatIds,
+      userId,
+      admittedEventId,
+      validatedData.presaleCode
+    );
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: lockedSeats.map((seat) => ({
+          id: seat.id,
+          seatNumber: seat.seatNumber,
+          status: seat.status,
+          userId: seat.userId,
+          version: seat.version,
+          lockExpiresAt: seat.lockExpiresAt,
+        })),
+        message: `${lockedSeats.length} seats locked successfully`,
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 403 Forbidden - Not admitted from the waiting room
+    if (error instanceof AdmissionRequiredError || error instanceof SeatNotAdmittedError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'ADMISSION_REQUIRED',
+            message: error.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 403 Forbidden - Event is outside its sales window
+    if (error instanceof EventNotOnSaleError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'EVENT_NOT_ON_SALE',
+            message: error.message,
+            details: {
+              status: error.status,
+              salesStartAt: error.salesStartAt,
+              salesEndAt: error.salesEndAt,
+            },
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 403 Forbidden - Event is in a presale and the code is missing or wrong
+    if (error instanceof PresaleCodeRequiredError || error instanceof InvalidPresaleCodeError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error instanceof PresaleCodeRequiredError ? 'PRESALE_CODE_REQUIRED' : 'INVALID_PRESALE_CODE',
+            message: error.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 404 Not Found - Seat doesn't exist
+    if (error instanceof SeatNotFoundError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'SEAT_NOT_FOUND',
+            message: error.message,
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Presale code quota used up
+    if (error instanceof PresaleQuotaExceededError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'PRESALE_QUOTA_EXCEEDED',
+            message: error.message,
+          },
+        },
+        { status: 422 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Seat not available
+    if (error instanceof SeatNotAvailableError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'SEAT_NOT_AVAILABLE',
+            message: error.message,
+          },
+        },
+        { status: 422 }
+      );
+    }
+
+    // 409 Conflict - The whole batch was rolled back
+    if (error instanceof BatchConcurrencyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONCURRENCY_CONFLICT',
+            message: 'Some seats were taken by another process. No seats were locked.',
+            conflictingSeatIds: error.entityIds,
+            retryable: true,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof ConcurrencyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONCURRENCY_CONFLICT',
+            message: 'Some seats were taken by another process. No seats were locked.',
+            conflictingSeatIds: [error.entityId],
+            retryable: true,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/seats/lock/bulk:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getBookingService, getApiKeyService } from '@/app/api/container';
+import { getPartnerOrBuyer, withPartnerAccess } from '@/lib/api/partner';
+import { extendLockSchema } from '@/lib/validation/seat.schemas';
+import {
+  SeatNotFoundError,
+  UnauthorizedLockError,
+  LockExpiredError,
+  LockExtensionLimitError,
+} from '@/core/services/BookingService';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/seats/lock/extend
+ *
+ * Extends the lock on a seat while the buyer is still checking out
+ * (heartbeat). Each lock can only be extended a limited number of times.
+ *
+ * Headers:
+ *   Cookie: session or guest checkout (required without an API key, see POST /api/v1/auth/login and /api/v1/auth/guest)
+ *   X-Api-Key: <partner API key> (partners, instead of the cookie; needs the seats:lock scope)
+ *
+ * Request Body:
+ * {
+ *   "seatId": "uuid"
+ * }
+ *
+ * Responses:
+ * - 200 OK: Lock extended (response includes the new lockExpiresAt)
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no guest checkout, or invalid/revoked API key
+ * - 403 Forbidden: API key lacks the seats:lock scope, the user does not own the lock on this seat
+ * - 404 Not Found: Seat does not exist
+ * - 409 Conflict: Seat was modified by another process (retry recommended)
+ * - 410 Gone: The lock already expired
+ * - 422 Unprocessable Entity: The lock has been extended the maximum number of times
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(request: NextRequest) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.SEATS_LOCK, apiKeys, async () => {
+    const buyer = await getPartnerOrBuyer(request);
+
+    if (!buyer) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Sign in or continue as a guest',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    try {
+      // 1. Parse and validate request body
+      const body = await request.json();
+      const validatedData = extendLockSchema.parse(body);
+
+      // 2. Call business logic
+      const bookingService = await getBookingService();
+      const extendedSeat = await bookingService.extendLock(
+        validatedData.seatId,
+        buyer.userId
+      );
+
+      // 3. Return success response
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            id: extendedSeat.id,
+            seatNumber: extendedSeat.seatNumber,
+            status: extendedSeat.status,
+            userId: extendedSeat.userId,
+            version: extendedSeat.version,
+            lockExpiresAt: extendedSeat.lockExpiresAt,
+            extensionsRemaining: bookingService.remainingLockExtensions(extendedSeat),
+          },
+          message: 'Lock extended successfully',
+        },
+        { status: 200 }
+      );
+
+    } catch (error) {
+      // 400 Bad Request - Validation Error
+      if (error instanceof ZodError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid request body',
+              details: error.issues.map((issue) => ({
+                field: issue.path.join('.'),
+                message: issue.message,
+              })),
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      // 404 Not Found - Seat doesn't exist
+      if (error instanceof SeatNotFoundError) {
+        return NextResponse.json(
+          { success: false, error: { code: 'SEAT_NOT_FOUND', message: error.message } },
+          { status: 404 }
+        );
+      }
+
+      // 403 Forbidden - Not owner of lock
+      if (error instanceof UnauthorizedLockError) {
+        return NextResponse.json(
+          { success: false, error: { code: 'UNAUTHORIZED_LOCK', message: error.message } },
+          { status: 403 }
+        );
+      }
+
+      // 410 Gone - Nothing left to extend
+      if (error instanceof LockExpiredError) {
+        return NextResponse.json(
+          { success: false, error: { code: 'LOCK_EXPIRED', message: error.message } },
+          { status: 410 }
+        );
+      }
+
+      // 422 Unprocessable Entity - Extension limit reached
+      if (error instanceof LockExtensionLimitError) {
+        return NextResponse.json(
+          { success: false, error: { code: 'LOCK_EXTENSION_LIMIT_REACHED', message: error.message } },
+          { status: 422 }
+        );
+      }
+
+      // 409 Conflict - Concurrency Error (Optimistic Locking Failed)
+      if (error instanceof ConcurrencyError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'CONCURRENCY_CONFLICT',
+              message: 'The seat was modified by another process. Please retry.',
+              retryable: true,
+            },
+          },
+          { status: 409 }
+        );
+      }
+
+      // 500 Internal Server Error - Unexpected error
+      console.error('Unexpected error in POST /api/v1/seats/lock/extend:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'An unexpected error occurred',
+          },
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
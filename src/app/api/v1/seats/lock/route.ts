@@ -1,9 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ZodError } from 'zod';
-import { getBookingService } from '@/app/api/container';
+import { getBookingService, getIdempotencyService, getApiKeyService } from '@/app/api/container';
+import { withIdempotency } from '@/lib/api/idempotency';
+import { getAdmittedEventId, AdmissionRequiredError } from '@/lib/api/admission';
+import { getPartnerOrBuyer, withPartnerAccess } from '@/lib/api/partner';
 import { lockSeatSchema } from '@/lib/validation/seat.schemas';
-import { SeatNotFoundError, SeatNotAvailableError } from '@/core/services/BookingService';
+import {
+  SeatNotFoundError,
+  SeatNotAvailableError,
+  SeatNotAdmittedError,
+  EventNotOnSaleError,
+  PresaleCodeRequiredError,
+  InvalidPresaleCodeError,
+  PresaleQuotaExceededError,
+} from '@/core/services/BookingService';
 import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
 
 // Force dynamic rendering - skip static optimization at build time
 export const dynamic = 'force-dynamic';
@@ -11,23 +23,57 @@ export const dynamic = 'force-dynamic';
 /**
  * POST /api/v1/seats/lock
  * 
- * Locks a seat for a user during the checkout process.
+ * Locks a seat for the signed-in user or guest during the checkout process.
+ * 
+ * Headers:
+ *   Cookie: session or guest checkout (required without an API key, see POST /api/v1/auth/login and /api/v1/auth/guest)
+ *   X-Api-Key: <partner API key> (partners, instead of the cookie; needs the seats:lock scope)
+ *   Idempotency-Key: <uuid> (optional, a retry with the same key replays the first response)
+ *   X-Admission-Token: <token> (required while the waiting room is enabled)
  * 
  * Request Body:
  * {
  *   "seatId": "uuid",
- *   "userId": "uuid"
+ *   "presaleCode": "string"   // optional, required while the event is in a presale
  * }
  * 
  * Responses:
  * - 200 OK: Seat locked successfully
  * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no guest checkout, or invalid/revoked API key
+ * - 403 Forbidden: API key lacks the seats:lock scope, missing/invalid admission token,
+ *   seat outside the admitted event, event not on sale,
+ *   or presale code missing/invalid
  * - 404 Not Found: Seat does not exist
  * - 409 Conflict: Seat was modified by another process (retry recommended)
- * - 422 Unprocessable Entity: Seat is not available (already locked/sold)
+ * - 422 Unprocessable Entity: Seat is not available (already locked/sold), or presale code quota used up
  * - 500 Internal Server Error: Unexpected error
  */
 export async function POST(request: NextRequest) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.SEATS_LOCK, apiKeys, async () => {
+    const buyer = await getPartnerOrBuyer(request);
+
+    if (!buyer) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Sign in or continue as a guest',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    // Keys are scoped per user, so one user can't replay another's response
+    const idempotency = await getIdempotencyService();
+    return withIdempotency(request, `seats.lock:${buyer.userId}`, idempotency, () => lockSeat(request, buyer.userId));
+  });
+}
+
+async function lockSeat(request: NextRequest, userId: string): Promise<NextResponse> {
   try {
     // 1. Parse and validate request body
     const body = await request.json();
@@ -35,9 +81,12 @@ export async function POST(request: NextRequest) {
 
     // 2. Call business logic (async to support dynamic imports)
     const bookingService = await getBookingService();
+    const admittedEventId = await getAdmittedEventId(request, userId);
     const lockedSeat = await bookingService.lockSeat(
       validatedData.seatId,
-      validatedData.userId
+      userId,
+      admittedEventId,
+      validatedData.presaleCode
     );
 
     // 3. Return success response
@@ -50,6 +99,7 @@ export async function POST(request: NextRequest) {
           status: lockedSeat.status,
           userId: lockedSeat.userId,
           version: lockedSeat.version,
+          lockExpiresAt: lockedSeat.lockExpiresAt,
         },
         message: 'Seat locked successfully',
       },
@@ -80,6 +130,53 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 403 Forbidden - Not admitted from the waiting room
+    if (error instanceof AdmissionRequiredError || error instanceof SeatNotAdmittedError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'ADMISSION_REQUIRED',
+            message: error.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 403 Forbidden - Event is outside its sales window
+    if (error instanceof EventNotOnSaleError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'EVENT_NOT_ON_SALE',
+            message: error.message,
+            details: {
+              status: error.status,
+              salesStartAt: error.salesStartAt,
+              salesEndAt: error.salesEndAt,
+            },
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // 403 Forbidden - Event is in a presale and the code is missing or wrong
+    if (error instanceof PresaleCodeRequiredError || error instanceof InvalidPresaleCodeError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error instanceof PresaleCodeRequiredError ? 'PRESALE_CODE_REQUIRED' : 'INVALID_PRESALE_CODE',
+            message: error.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
     // 404 Not Found - Seat doesn't exist
     if (error instanceof SeatNotFoundError) {
       return NextResponse.json(
@@ -94,6 +191,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 422 Unprocessable Entity - Presale code quota used up
+    if (error instanceof PresaleQuotaExceededError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'PRESALE_QUOTA_EXCEEDED',
+            message: error.message,
+          },
+        },
+        { status: 422 }
+      );
+    }
+
     // 422 Unprocessable Entity - Seat not available
     if (error instanceof SeatNotAvailableError) {
       return NextResponse.json(
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getBookingService, getApiKeyService } from '@/app/api/container';
+import { getPartnerOrBuyer, withPartnerAccess } from '@/lib/api/partner';
+import { releaseSeatSchema } from '@/lib/validation/seat.schemas';
+import { SeatNotFoundError, UnauthorizedLockError } from '@/core/services/BookingService';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/seats/release
+ *
+ * Releases a seat locked by the signed-in user or guest (e.g., the buyer cancelled checkout).
+ *
+ * Headers:
+ *   Cookie: session or guest checkout (required without an API key, see POST /api/v1/auth/login and /api/v1/auth/guest)
+ *   X-Api-Key: <partner API key> (partners, instead of the cookie; needs the seats:lock scope)
+ *
+ * Request Body:
+ * {
+ *   "seatId": "uuid"
+ * }
+ *
+ * Responses:
+ * - 200 OK: Seat released successfully
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in and no guest checkout, or invalid/revoked API key
+ * - 403 Forbidden: API key lacks the seats:lock scope, the user does not own the lock on this seat
+ * - 404 Not Found: Seat does not exist
+ * - 409 Conflict: Seat was modified by another process (retry recommended)
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(request: NextRequest) {
+  const apiKeys = await getApiKeyService();
+  return withPartnerAccess(request, ApiKeyScope.SEATS_LOCK, apiKeys, async () => {
+    const buyer = await getPartnerOrBuyer(request);
+
+    if (!buyer) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Sign in or continue as a guest',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    try {
+      // 1. Parse and validate request body
+      const body = await request.json();
+      const validatedData = releaseSeatSchema.parse(body);
+
+      // 2. Call business logic
+      const bookingService = await getBookingService();
+      const releasedSeat = await bookingService.releaseSeat(
+        validatedData.seatId,
+        buyer.userId
+      );
+
+      // 3. Return success response
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            id: releasedSeat.id,
+            seatNumber: releasedSeat.seatNumber,
+            status: releasedSeat.status,
+            userId: releasedSeat.userId,
+            version: releasedSeat.version,
+          },
+          message: 'Seat released successfully',
+        },
+        { status: 200 }
+      );
+
+    } catch (error) {
+      // 400 Bad Request - Validation Error
+      if (error instanceof ZodError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid request body',
+              details: error.issues.map((issue) => ({
+                field: issue.path.join('.'),
+                message: issue.message,
+              })),
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      // 404 Not Found - Seat doesn't exist
+      if (error instanceof SeatNotFoundError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'SEAT_NOT_FOUND',
+              message: error.message,
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      // 403 Forbidden - Not owner of lock
+      if (error instanceof UnauthorizedLockError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'UNAUTHORIZED_LOCK',
+              message: error.message,
+            },
+          },
+          { status: 403 }
+        );
+      }
+
+      // 409 Conflict - Concurrency Error (Optimistic Locking Failed)
+      if (error instanceof ConcurrencyError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'CONCURRENCY_CONFLICT',
+              message: 'The seat was modified by another process. Please retry.',
+              retryable: true,
+            },
+          },
+          { status: 409 }
+        );
+      }
+
+      // 500 Internal Server Error - Unexpected error
+      console.error('Unexpected error in POST /api/v1/seats/release:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'An unexpected error occurred',
+          },
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
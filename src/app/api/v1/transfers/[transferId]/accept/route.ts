@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBookingService } from '@/app/api/container';
+import { getSession } from '@/lib/api/session';
+import {
+  TicketNotTransferableError,
+  TransferNotFoundError,
+  TransferNotPendingError,
+  TransferRecipientMismatchError,
+} from '@/core/services/BookingService';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/transfers/:transferId/accept
+ *
+ * Accepts a ticket transfer. Only the account with the invited email may
+ * accept it. The seat changes hands, the sender's ticket is voided and a
+ * new one is emailed to the recipient.
+ *
+ * Headers:
+ *   Cookie: session (required, see POST /api/v1/auth/login)
+ *
+ * Responses:
+ * - 200 OK: Transfer accepted, the recipient owns the seat
+ * - 401 Unauthorized: Not signed in
+ * - 403 Forbidden: The transfer was sent to another email address
+ * - 404 Not Found: Transfer does not exist
+ * - 409 Conflict: Transfer is no longer pending, or the seat changed meanwhile (retry)
+ * - 422 Unprocessable Entity: The sender no longer holds the ticket (e.g. refunded)
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ transferId: string }> }
+) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in to continue',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // 1. Call business logic
+    const { transferId } = await params;
+    const bookingService = await getBookingService();
+    const { transfer, seat } = await bookingService.acceptTransfer(
+      transferId,
+      session.userId,
+      session.email
+    );
+
+    // 2. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: transfer.id,
+          status: transfer.status,
+          acceptedAt: transfer.acceptedAt,
+          seat: {
+            id: seat.id,
+            seatNumber: seat.seatNumber,
+            eventId: seat.eventId,
+            userId: seat.userId,
+          },
+        },
+        message: 'Transfer accepted; your ticket is on its way',
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    // 404 Not Found - Transfer doesn't exist
+    if (error instanceof TransferNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'TRANSFER_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 403 Forbidden - Signed in with another email than the invite's
+    if (error instanceof TransferRecipientMismatchError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'TRANSFER_RECIPIENT_MISMATCH', message: error.message } },
+        { status: 403 }
+      );
+    }
+
+    // 409 Conflict - Already accepted or cancelled
+    if (error instanceof TransferNotPendingError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'TRANSFER_NOT_PENDING', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 422 Unprocessable Entity - Ticket no longer with the sender
+    if (error instanceof TicketNotTransferableError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'TICKET_NOT_TRANSFERABLE', message: error.message } },
+        { status: 422 }
+      );
+    }
+
+    // 409 Conflict - Concurrency Error (Optimistic Locking Failed)
+    if (error instanceof ConcurrencyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONCURRENCY_CONFLICT',
+            message: 'The ticket was modified by another process. Please retry.',
+            retryable: true,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/transfers/:transferId/accept:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBookingService } from '@/app/api/container';
+import { getSession } from '@/lib/api/session';
+import {
+  TicketNotOwnedError,
+  TransferNotFoundError,
+  TransferNotPendingError,
+} from '@/core/services/BookingService';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/transfers/:transferId/cancel
+ *
+ * Withdraws a pending ticket transfer.
+ *
+ * Headers:
+ *   Cookie: session (required, see POST /api/v1/auth/login)
+ *
+ * Responses:
+ * - 200 OK: Transfer cancelled
+ * - 401 Unauthorized: Not signed in
+ * - 403 Forbidden: The user did not start this transfer
+ * - 404 Not Found: Transfer does not exist
+ * - 409 Conflict: Transfer is no longer pending, or it changed meanwhile (retry)
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ transferId: string }> }
+) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in to continue',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // 1. Call business logic
+    const { transferId } = await params;
+    const bookingService = await getBookingService();
+    const transfer = await bookingService.cancelTransfer(transferId, session.userId);
+
+    // 2. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: transfer.id,
+          status: transfer.status,
+        },
+        message: 'Transfer cancelled',
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    // 404 Not Found - Transfer doesn't exist
+    if (error instanceof TransferNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'TRANSFER_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 403 Forbidden - Not the sender
+    if (error instanceof TicketNotOwnedError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'TICKET_NOT_OWNED', message: error.message } },
+        { status: 403 }
+      );
+    }
+
+    // 409 Conflict - Already accepted or cancelled
+    if (error instanceof TransferNotPendingError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'TRANSFER_NOT_PENDING', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 409 Conflict - Concurrency Error (Optimistic Locking Failed)
+    if (error instanceof ConcurrencyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONCURRENCY_CONFLICT',
+            message: 'The transfer was modified by another process. Please retry.',
+            retryable: true,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/transfers/:transferId/cancel:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
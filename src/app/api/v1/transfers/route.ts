@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getBookingService } from '@/app/api/container';
+import { getSession } from '@/lib/api/session';
+import { createTransferSchema } from '@/lib/validation/transfer.schemas';
+import {
+  SeatNotFoundError,
+  TicketNotOwnedError,
+  TicketNotTransferableError,
+  TransferAlreadyPendingError,
+} from '@/core/services/BookingService';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/transfers
+ *
+ * Starts transferring a sold ticket to someone else. The recipient is
+ * emailed a link to accept; the seat keeps its owner until then.
+ *
+ * Headers:
+ *   Cookie: session (required, see POST /api/v1/auth/login)
+ *
+ * Request Body:
+ * {
+ *   "seatId": "uuid",
+ *   "toEmail": "friend@example.com"
+ * }
+ *
+ * Responses:
+ * - 201 Created: Pending transfer created
+ * - 400 Bad Request: Invalid request body (Zod validation failed)
+ * - 401 Unauthorized: Not signed in
+ * - 403 Forbidden: The user does not own the ticket
+ * - 404 Not Found: Seat does not exist
+ * - 409 Conflict: The ticket already has a pending transfer
+ * - 422 Unprocessable Entity: The seat is not sold
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in to continue',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validatedData = createTransferSchema.parse(body);
+
+    // 2. Call business logic
+    const bookingService = await getBookingService();
+    const transfer = await bookingService.transferTicket(
+      validatedData.seatId,
+      session.userId,
+      validatedData.toEmail
+    );
+
+    // 3. Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: transfer.id,
+          seatId: transfer.seatId,
+          fromUserId: transfer.fromUserId,
+          toEmail: transfer.toEmail,
+          status: transfer.status,
+          createdAt: transfer.createdAt,
+        },
+        message: 'Transfer started; the recipient has been invited',
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    // 400 Bad Request - Validation Error
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // 404 Not Found - Seat doesn't exist
+    if (error instanceof SeatNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'SEAT_NOT_FOUND', message: error.message } },
+        { status: 404 }
+      );
+    }
+
+    // 403 Forbidden - Not the ticket owner
+    if (error instanceof TicketNotOwnedError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'TICKET_NOT_OWNED', message: error.message } },
+        { status: 403 }
+      );
+    }
+
+    // 409 Conflict - A transfer is already waiting for acceptance
+    if (error instanceof TransferAlreadyPendingError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'TRANSFER_ALREADY_PENDING', message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    // 422 Unprocessable Entity - No ticket to transfer
+    if (error instanceof TicketNotTransferableError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'TICKET_NOT_TRANSFERABLE', message: error.message } },
+        { status: 422 }
+      );
+    }
+
+    // 500 Internal Server Error - Unexpected error
+    console.error('Unexpected error in POST /api/v1/transfers:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderRepository } from '@/app/api/container';
+import { authorizeOwnerRequest } from '@/lib/api/admin';
+import { Permission } from '@/core/domain/permission';
+
+// Force dynamic rendering - skip static optimization at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/users/:userId/orders
+ * 
+ * Lists every order placed by a user, newest first.
+ * 
+ * Headers:
+ *   Cookie: session or guest checkout of the user, or of staff with orders:read
+ * 
+ * Responses:
+ * - 200 OK: Orders returned (possibly empty)
+ * - 401 Unauthorized: Not signed in and no guest checkout
+ * - 403 Forbidden: Someone else's orders, without orders:read
+ * - 500 Internal Server Error: Unexpected error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    const denied = await authorizeOwnerRequest(request, userId, Permission.ORDERS_READ);
+    if (denied) {
+      return denied;
+    }
+
+    const orderRepository = await getOrderRepository();
+    const orders = await orderRepository.findByUserId(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: orders.map((order) => order.toJSON()),
+    });
+  } catch (error) {
+    console.error('[API] Failed to fetch user orders:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -6,31 +6,95 @@ import { Seat, SeatStatus } from '@/components/Seat';
 import { toast, Toaster } from 'sonner';
 import { Loader2, RefreshCw, X, CreditCard } from 'lucide-react';
 import { useRouter } from 'next/navigation';
+import { ADMISSION_TOKEN_HEADER } from '@/lib/api/admission';
+import { getAdmissionToken, clearAdmissionToken } from '@/lib/utils/visitor-session';
+import { MAX_SEATS_PER_LOCK } from '@/lib/validation/seat.schemas';
 
 interface SeatData {
   id: string;
   seatNumber: string;
   status: SeatStatus;
   price: number;
+  section: string | null;
+  row: string | null;
+  number: number | null;
+  priceCategory: { id: string; name: string } | null;
+  resale: { listingId: string; price: number } | null; // Offered by its owner to other fans
+}
+
+interface PerformanceData {
+  id: string;
+  startsAt: string;
+  hasStarted: boolean;
+}
+
+interface GaZoneData {
+  id: string;
+  name: string;
+  price: number;
+  capacity: number;
+  available: number;
+  soldOut: boolean;
 }
 
 interface PendingPurchase {
     seatId: string;
     seatNumber: string;
-    userId: string;
     price: number;
+    paymentKey: string; // Idempotency-Key reused by every confirm attempt for this checkout
+    lockExpiresAt: string;
+    listingId?: string; // Set when buying a resale ticket instead of a primary seat
+    reservationId?: string; // Set when buying general-admission tickets (seatId is then the zone)
 }
 
+// Extend the lock this long before it would expire
+const LOCK_HEARTBEAT_LEAD_MS = 60 * 1000;
+
+/**
+ * Error thrown by the fetcher for non-2xx responses
+ */
+class FetchError extends Error {
+  constructor(readonly status: number) {
+    super(`Request failed with status ${status}`);
+  }
+}
+
+// Sends the event's admission token (if any) with every request
+const admissionHeaders = (eventId: string): Record<string, string> => {
+  const token = getAdmissionToken(eventId);
+  return token ? { [ADMISSION_TOKEN_HEADER]: token } : {};
+};
+
 // Fetcher function for SWR
-const fetcher = (url: string) => fetch(url).then((res) => res.json());
+const fetcher = async ([url, eventId]: [string, string]) => {
+  const res = await fetch(url, { headers: admissionHeaders(eventId) });
+  if (!res.ok) throw new FetchError(res.status);
+  return res.json();
+};
 
-export default function EventPage({ params }: { params: Promise<{ id: string }> }) {
+export default function EventPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ performance?: string }>;
+}) {
   const { id: eventId } = use(params);
+  const { performance: requestedPerformanceId } = use(searchParams);
   const router = useRouter();
 
-  // 1. Polling for real-time seat updates
+  // Showtimes: the one in the URL, else the next one that hasn't started
+  const { data: performances } = useSWR<{ data: PerformanceData[] }>(
+    [`/api/v1/events/${eventId}/performances`, eventId],
+    fetcher
+  );
+  const performanceId =
+    requestedPerformanceId ??
+    (performances?.data.find((performance) => !performance.hasStarted) ?? performances?.data[0])?.id;
+
+  // 1. Polling for real-time seat updates (of the selected performance)
   const { data: seats, error, isLoading, mutate } = useSWR<SeatData[]>(
-    `/api/v1/events/${eventId}/seats`,
+    performanceId ? [`/api/v1/events/${eventId}/performances/${performanceId}/seats`, eventId] : null,
     fetcher,
     {
       refreshInterval: 1000, 
@@ -38,27 +102,114 @@ export default function EventPage({ params }: { params: Promise<{ id: string }>
     }
   );
 
+  // General-admission zones (empty for fully reserved-seating events)
+  const { data: gaZones, mutate: mutateGaZones } = useSWR<{ data: GaZoneData[] }>(
+    [`/api/v1/events/${eventId}/ga-zones`, eventId],
+    fetcher,
+    {
+      refreshInterval: 1000,
+      revalidateOnFocus: true,
+    }
+  );
+
+  // Not admitted (or admission expired): queue up in the waiting room
+  const sendToWaitingRoom = React.useCallback(() => {
+    clearAdmissionToken(eventId);
+    router.replace(`/event/${eventId}/waiting-room`);
+  }, [eventId, router]);
+
+  // Signed out (or session expired): sign in, then come back to this event
+  const sendToLogin = React.useCallback(() => {
+    router.push(`/login?next=${encodeURIComponent(`/event/${eventId}`)}`);
+  }, [eventId, router]);
+
+  // Presale access code, asked for once a lock needs one
+  const [presaleCode, setPresaleCode] = React.useState('');
+  const [isPresale, setIsPresale] = React.useState(false);
+
+  // A lock can be refused because the event isn't on sale or needs a presale
+  // code; anything else means not admitted
+  const handleLockForbidden = React.useCallback(async (response: Response) => {
+    const errorData = await response.json();
+    const code = errorData.error?.code;
+
+    if (code === 'PRESALE_CODE_REQUIRED' || code === 'INVALID_PRESALE_CODE') {
+      setIsPresale(true);
+      toast.error('Presale code needed', { description: errorData.error.message });
+    } else if (code === 'EVENT_NOT_ON_SALE') {
+      toast.error('Not on sale', { description: errorData.error.message });
+    } else {
+      sendToWaitingRoom();
+    }
+  }, [sendToWaitingRoom]);
+
+  React.useEffect(() => {
+    if (error instanceof FetchError && error.status === 403) {
+      sendToWaitingRoom();
+    }
+  }, [error, sendToWaitingRoom]);
+
   // Local state
   const [loadingSeats, setLoadingSeats] = React.useState<Record<string, boolean>>({});
   const [pendingSeat, setPendingSeat] = React.useState<PendingPurchase | null>(null);
   const [isConfirming, setIsConfirming] = React.useState(false);
+  const [gaQuantities, setGaQuantities] = React.useState<Record<string, number>>({});
+
+  // Keep the lock alive while the payment modal is open (bounded by the server)
+  React.useEffect(() => {
+    // Resale and GA holds are not extendable
+    if (!pendingSeat || pendingSeat.listingId || pendingSeat.reservationId) return;
+
+    const { seatId, lockExpiresAt } = pendingSeat;
+    const delay = Math.max(0, new Date(lockExpiresAt).getTime() - Date.now() - LOCK_HEARTBEAT_LEAD_MS);
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/v1/seats/lock/extend', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ seatId }),
+        });
+        const result = await response.json();
+
+        if (response.ok) {
+          setPendingSeat((current) =>
+            current?.seatId === seatId ? { ...current, lockExpiresAt: result.data.lockExpiresAt } : current
+          );
+        } else if (result.error?.code === 'LOCK_EXTENSION_LIMIT_REACHED') {
+          toast.warning('Checkout time almost up', {
+            description: 'Your seat can no longer be extended. Please complete payment now.',
+          });
+        }
+      } catch (err) {
+        console.error(err);
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [pendingSeat]);
 
   // 2. Handle Seat Lock
   const handleSeatClick = async (seat: SeatData) => {
-    // Generate a temporary user ID (valid UUID required by API)
-    const userId = crypto.randomUUID();
-    
     setLoadingSeats((prev) => ({ ...prev, [seat.id]: true }));
 
+    // Resale tickets are held on their listing, primary seats on the seat itself
+    const listingId = seat.resale?.listingId;
+
     try {
-      const response = await fetch('/api/v1/seats/lock', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          seatId: seat.id,
-          userId,
-        }),
-      });
+      const response = listingId
+        ? await fetch(`/api/v1/resale/listings/${listingId}/lock`, {
+            method: 'POST',
+            headers: admissionHeaders(eventId),
+          })
+        : await fetch('/api/v1/seats/lock', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...admissionHeaders(eventId) },
+            body: JSON.stringify({
+              seatId: seat.id,
+              presaleCode: presaleCode.trim() || undefined,
+            }),
+          });
 
       if (response.status === 409) {
         toast.error('⚠️ Too slow!', {
@@ -66,6 +217,10 @@ export default function EventPage({ params }: { params: Promise<{ id: string }>
           duration: 4000,
         });
         mutate();
+      } else if (response.status === 401) {
+        sendToLogin();
+      } else if (response.status === 403) {
+        await handleLockForbidden(response);
       } else if (!response.ok) {
         const errorData = await response.json();
         toast.error('Error locking seat', {
@@ -78,11 +233,14 @@ export default function EventPage({ params }: { params: Promise<{ id: string }>
         });
         
         // Open Payment Modal
+        const { data: lockedSeat } = await response.json();
         setPendingSeat({
             seatId: seat.id,
             seatNumber: seat.seatNumber,
-            price: seat.price,
-            userId,
+            price: seat.resale?.price ?? seat.price,
+            paymentKey: crypto.randomUUID(),
+            lockExpiresAt: lockedSeat.lockExpiresAt,
+            listingId,
         });
         
         mutate();
@@ -97,6 +255,59 @@ export default function EventPage({ params }: { params: Promise<{ id: string }>
     }
   };
 
+  // 2b. Handle GA Lock (a quantity from the zone instead of a seat)
+  const handleGaReserve = async (zone: GaZoneData) => {
+    const quantity = gaQuantities[zone.id] ?? 1;
+
+    setLoadingSeats((prev) => ({ ...prev, [zone.id]: true }));
+
+    try {
+      const response = await fetch(`/api/v1/events/${eventId}/ga-zones/${zone.id}/lock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...admissionHeaders(eventId) },
+        body: JSON.stringify({ quantity }),
+      });
+
+      if (response.status === 422) {
+        toast.error('⚠️ Not enough tickets left', {
+          description: `${zone.name} doesn't have ${quantity} tickets left.`,
+          duration: 4000,
+        });
+      } else if (response.status === 401) {
+        sendToLogin();
+      } else if (response.status === 403) {
+        await handleLockForbidden(response);
+      } else if (!response.ok) {
+        const errorData = await response.json();
+        toast.error('Error reserving tickets', {
+          description: errorData.error?.message || 'Unknown error occurred',
+        });
+      } else {
+        toast.success('✅ Tickets Reserved!', {
+          description: `${quantity} × ${zone.name} reserved. Complete payment in 5 mins.`,
+        });
+
+        const { data: reservation } = await response.json();
+        setPendingSeat({
+          seatId: zone.id,
+          seatNumber: `${quantity} × ${zone.name}`,
+          price: reservation.totalAmount,
+          paymentKey: crypto.randomUUID(),
+          lockExpiresAt: reservation.lockExpiresAt,
+          reservationId: reservation.id,
+        });
+      }
+    } catch (err) {
+      toast.error('Network Error', {
+        description: 'Failed to reach the server.',
+      });
+      console.error(err);
+    } finally {
+      setLoadingSeats((prev) => ({ ...prev, [zone.id]: false }));
+      mutateGaZones();
+    }
+  };
+
   // 3. Handle Payment Confirmation
   const handleConfirmPayment = async () => {
     if (!pendingSeat) return;
@@ -104,14 +315,32 @@ export default function EventPage({ params }: { params: Promise<{ id: string }>
     setIsConfirming(true);
     
     try {
-        const response = await fetch('/api/v1/payments/confirm', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              seatId: pendingSeat.seatId,
-              userId: pendingSeat.userId,
-            }),
-          });
+        const response = pendingSeat.reservationId
+          ? await fetch(`/api/v1/ga-reservations/${pendingSeat.reservationId}/confirm`, {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                'Idempotency-Key': pendingSeat.paymentKey,
+              },
+              body: JSON.stringify({}),
+            })
+          : pendingSeat.listingId
+          ? await fetch(`/api/v1/resale/listings/${pendingSeat.listingId}/purchase`, {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                'Idempotency-Key': pendingSeat.paymentKey,
+              },
+              body: JSON.stringify({}),
+            })
+          : await fetch('/api/v1/payments/confirm', {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                'Idempotency-Key': pendingSeat.paymentKey,
+              },
+              body: JSON.stringify({ seatId: pendingSeat.seatId }),
+            });
 
           if (!response.ok) {
              const errorData = await response.json();
@@ -120,12 +349,19 @@ export default function EventPage({ params }: { params: Promise<{ id: string }>
 
           // SUCCESS PAYMENT
           toast.success('🎉 Ticket Generated!', {
-              description: `Check your email for Seat ${pendingSeat.seatNumber}.`,
+              description: pendingSeat.reservationId
+                ? `Check your email for your ${pendingSeat.seatNumber} tickets.`
+                : `Check your email for Seat ${pendingSeat.seatNumber}.`,
               duration: 5000,
+              // GA tickets are not seats, so they are not listed under My tickets
+              action: pendingSeat.reservationId
+                ? undefined
+                : { label: 'My tickets', onClick: () => router.push('/tickets') },
           });
 
           setPendingSeat(null);
           mutate(); // Refresh to see SOLD status
+          mutateGaZones();
 
     } catch (error) {
         toast.error('Payment Failed', {
@@ -136,6 +372,39 @@ export default function EventPage({ params }: { params: Promise<{ id: string }>
     }
   };
 
+  // 4. Handle Checkout Cancellation (release the lock so others can buy the seat)
+  const handleCancelPurchase = async () => {
+    if (!pendingSeat) return;
+
+    const { seatId, listingId, reservationId } = pendingSeat;
+    setPendingSeat(null);
+
+    try {
+      const response = reservationId
+        ? await fetch(`/api/v1/ga-reservations/${reservationId}/release`, { method: 'POST' })
+        : listingId
+        ? await fetch(`/api/v1/resale/listings/${listingId}/release`, { method: 'POST' })
+        : await fetch('/api/v1/seats/release', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ seatId }),
+          });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        console.error('Failed to release seat:', errorData.error?.message);
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      mutate(); // Refresh to see AVAILABLE status
+      mutateGaZones();
+    }
+  };
+
+  if (error instanceof FetchError && error.status === 403) {
+    return <div className="text-center text-slate-400 mt-20">Joining the waiting room...</div>;
+  }
   if (error) return <div className="text-center text-red-500 mt-20">Failed to load seats</div>;
 
   return (
@@ -155,6 +424,50 @@ export default function EventPage({ params }: { params: Promise<{ id: string }>
           </div>
         </div>
 
+        {/* Showtimes */}
+        {performances && performances.data.length > 1 && (
+          <div className="mb-8 flex flex-wrap justify-center gap-3">
+            {performances.data.map((performance) => (
+              <button
+                key={performance.id}
+                onClick={() => router.replace(`/event/${eventId}?performance=${performance.id}`)}
+                disabled={performance.hasStarted}
+                className={`rounded-lg border px-4 py-2 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-40 ${
+                  performance.id === performanceId
+                    ? 'border-emerald-500 bg-emerald-500/10 text-emerald-400'
+                    : 'border-slate-800 bg-slate-900 text-slate-300 hover:border-slate-600'
+                }`}
+              >
+                {new Date(performance.startsAt).toLocaleString(undefined, {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Presale code */}
+        {isPresale && (
+          <div className="mb-8 flex flex-wrap items-center justify-center gap-3 rounded-lg border border-amber-500/30 bg-amber-500/10 p-4">
+            <label htmlFor="presale-code" className="text-sm font-medium text-amber-300">
+              Presale code
+            </label>
+            <input
+              id="presale-code"
+              value={presaleCode}
+              onChange={(e) => setPresaleCode(e.target.value)}
+              maxLength={64}
+              placeholder="e.g. DUNEFANS"
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-1.5 text-sm uppercase text-white placeholder:normal-case placeholder:text-slate-600"
+            />
+            <span className="text-xs text-slate-400">Then pick your seat again.</span>
+          </div>
+        )}
+
         {/* Legend */}
         <div className="mb-8 flex justify-center gap-8 rounded-lg border border-slate-800 bg-slate-900 p-4">
           <div className="flex items-center gap-2">
@@ -169,10 +482,64 @@ export default function EventPage({ params }: { params: Promise<{ id: string }>
             <div className="h-4 w-4 rounded bg-rose-600"></div>
             <span className="text-sm font-medium">Sold</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="h-4 w-4 rounded bg-sky-500"></div>
+            <span className="text-sm font-medium">Resale</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="h-4 w-4 rounded border border-dashed border-slate-500 bg-slate-700/40"></div>
+            <span className="text-sm font-medium">Not for Sale</span>
+          </div>
         </div>
 
+        {/* General Admission Zones */}
+        {gaZones && gaZones.data.length > 0 && (
+          <div className="mb-8 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+            <h2 className="mb-4 text-lg font-semibold">General Admission</h2>
+            <div className="space-y-3">
+              {gaZones.data.map((zone) => (
+                <div
+                  key={zone.id}
+                  className="flex items-center justify-between gap-4 rounded-lg bg-slate-800/50 p-4"
+                >
+                  <div>
+                    <p className="font-medium">{zone.name}</p>
+                    <p className="text-sm text-slate-400">
+                      ${Number(zone.price).toFixed(2)} · {zone.soldOut ? 'Sold out' : `${zone.available} left`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <select
+                      value={gaQuantities[zone.id] ?? 1}
+                      onChange={(e) =>
+                        setGaQuantities((prev) => ({ ...prev, [zone.id]: Number(e.target.value) }))
+                      }
+                      disabled={zone.soldOut}
+                      className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-sm"
+                    >
+                      {Array.from({ length: MAX_SEATS_PER_LOCK }, (_, i) => i + 1).map((quantity) => (
+                        <option key={quantity} value={quantity}>
+                          {quantity}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleGaReserve(zone)}
+                      disabled={zone.soldOut || loadingSeats[zone.id]}
+                      className="flex items-center gap-2 rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {loadingSeats[zone.id] && <Loader2 className="h-4 w-4 animate-spin" />}
+                      Reserve
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Seat Grid */}
-        {isLoading ? (
+        {isLoading || !performances ? (
           <div className="flex h-64 items-center justify-center">
             <Loader2 className="h-12 w-12 animate-spin text-emerald-500" />
           </div>
@@ -191,14 +558,18 @@ export default function EventPage({ params }: { params: Promise<{ id: string }>
                   seatNumber={seat.seatNumber}
                   status={seat.status}
                   price={Number(seat.price)}
+                  resalePrice={seat.resale ? Number(seat.resale.price) : null}
                   isLoading={loadingSeats[seat.id]}
                   onClick={() => handleSeatClick(seat)}
                 />
               ))}
             </div>
             
-             {seats?.length === 0 && (
-                <p className="text-center text-slate-500">No seats configuration found for this event.</p>
+             {performances.data.length === 0 && !gaZones?.data.length && (
+                <p className="text-center text-slate-500">No showtimes scheduled for this event yet.</p>
+            )}
+             {seats?.length === 0 && !gaZones?.data.length && (
+                <p className="text-center text-slate-500">No seats configuration found for this performance.</p>
             )}
           </div>
         )}
@@ -211,8 +582,9 @@ export default function EventPage({ params }: { params: Promise<{ id: string }>
                 <div className="mb-4 flex items-center justify-between">
                     <h2 className="text-xl font-bold text-white">Confirm Purchase</h2>
                     <button 
-                        onClick={() => setPendingSeat(null)}
-                        className="rounded-full p-1 text-slate-400 hover:bg-slate-800 hover:text-white"
+                        onClick={handleCancelPurchase}
+                        disabled={isConfirming}
+                        className="rounded-full p-1 text-slate-400 hover:bg-slate-800 hover:text-white disabled:opacity-50"
                     >
                         <X className="h-5 w-5" />
                     </button>
@@ -220,9 +592,13 @@ export default function EventPage({ params }: { params: Promise<{ id: string }>
 
                 <div className="mb-6 rounded-lg bg-slate-800/50 p-4">
                     <div className="flex justify-between text-sm text-slate-400 mb-1">
-                        <span>Seat Number</span>
+                        <span>{pendingSeat.reservationId ? 'Tickets' : 'Seat Number'}</span>
                         <span className="font-mono text-white">{pendingSeat.seatNumber}</span>
                     </div>
+                    <div className="flex justify-between text-sm text-slate-400 mb-1">
+                        <span>Held Until</span>
+                        <span className="font-mono text-white">{new Date(pendingSeat.lockExpiresAt).toLocaleTimeString()}</span>
+                    </div>
                     <div className="flex justify-between text-sm text-slate-400">
                         <span>Price</span>
                         <span className="font-mono text-emerald-400 text-lg">${Number(pendingSeat.price).toFixed(2)}</span>
@@ -248,7 +624,7 @@ export default function EventPage({ params }: { params: Promise<{ id: string }>
                         )}
                     </button>
                     <button
-                         onClick={() => setPendingSeat(null)}
+                         onClick={handleCancelPurchase}
                          disabled={isConfirming}
                          className="w-full rounded-lg py-3 font-medium text-slate-400 hover:text-white transition-colors"
                     >
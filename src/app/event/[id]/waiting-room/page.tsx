@@ -0,0 +1,102 @@
+'use client';
+
+import React, { use } from 'react';
+import useSWR from 'swr';
+import { Loader2, Users, Clock } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { storeAdmissionToken } from '@/lib/utils/visitor-session';
+
+interface WaitingRoomData {
+  admitted: boolean;
+  position: number;
+  estimatedWaitSeconds: number;
+  admissionToken: string | null;
+}
+
+// Fetcher function for SWR (unwraps the { success, data } envelope)
+const fetcher = (url: string) =>
+  fetch(url)
+    .then((res) => res.json())
+    .then((body) => {
+      if (!body.success) throw new Error(body.error?.message ?? 'Request failed');
+      return body.data as WaitingRoomData;
+    });
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return 'less than a minute';
+  const minutes = Math.ceil(seconds / 60);
+  return minutes === 1 ? 'about 1 minute' : `about ${minutes} minutes`;
+}
+
+export default function WaitingRoomPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: eventId } = use(params);
+  const router = useRouter();
+  const [joined, setJoined] = React.useState(false);
+
+  // 1. Join the queue once as the signed-in user (joining again keeps the original place)
+  React.useEffect(() => {
+    fetch(`/api/v1/events/${eventId}/waiting-room`, { method: 'POST' })
+      .then((response) => {
+        if (response.status === 401) {
+          router.replace(`/login?next=${encodeURIComponent(`/event/${eventId}/waiting-room`)}`);
+        } else {
+          setJoined(true);
+        }
+      })
+      .catch((err) => console.error(err));
+  }, [eventId, router]);
+
+  // 2. Poll our position until admitted
+  const { data: status, error } = useSWR<WaitingRoomData>(
+    joined ? `/api/v1/events/${eventId}/waiting-room` : null,
+    fetcher,
+    {
+      refreshInterval: (latest) => (latest?.admitted ? 0 : 3000),
+    }
+  );
+
+  // 3. Admitted: keep the token and go to the seat map
+  React.useEffect(() => {
+    if (!status?.admitted) return;
+
+    if (status.admissionToken) {
+      storeAdmissionToken(eventId, status.admissionToken);
+    }
+    router.replace(`/event/${eventId}`);
+  }, [status, eventId, router]);
+
+  if (error) return <div className="text-center text-red-500 mt-20">Failed to join the waiting room</div>;
+
+  return (
+    <div className="min-h-screen bg-slate-950 p-8 text-white">
+      <div className="mx-auto mt-20 max-w-md rounded-2xl border border-slate-800 bg-slate-900 p-8 text-center shadow-2xl">
+        <h1 className="mb-2 text-3xl font-bold">You&apos;re in line</h1>
+        <p className="mb-8 text-slate-400">
+          Demand is high right now. Keep this tab open and we&apos;ll take you to the seat map when it&apos;s your turn.
+        </p>
+
+        {!status || status.admitted ? (
+          <div className="flex h-32 items-center justify-center">
+            <Loader2 className="h-12 w-12 animate-spin text-emerald-500" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="rounded-lg bg-slate-800/50 p-4">
+              <div className="mb-1 flex items-center justify-center gap-2 text-sm text-slate-400">
+                <Users className="h-4 w-4" />
+                Your position
+              </div>
+              <p className="font-mono text-4xl font-bold text-emerald-400">{status.position}</p>
+            </div>
+            <div className="flex items-center justify-center gap-2 text-sm text-slate-400">
+              <Clock className="h-4 w-4" />
+              Estimated wait: {formatWait(status.estimatedWaitSeconds)}
+            </div>
+          </div>
+        )}
+
+        <p className="mt-8 text-xs text-slate-600">Event ID: {eventId}</p>
+      </div>
+    </div>
+  );
+}
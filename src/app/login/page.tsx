@@ -0,0 +1,223 @@
+'use client';
+
+import React, { use } from 'react';
+import Link from 'next/link';
+import { Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { MIN_PASSWORD_LENGTH } from '@/lib/validation/auth.schemas';
+
+type Mode = 'login' | 'register' | 'guest';
+
+const TITLES: Record<Mode, string> = {
+  login: 'Sign in',
+  register: 'Create an account',
+  guest: 'Continue as a guest',
+};
+
+const SUBTITLES: Record<Mode, string> = {
+  login: 'Sign in to pick your seats.',
+  register: 'Your tickets will be sent to this email.',
+  guest: 'Check out without an account. Your tickets will be sent to this email.',
+};
+
+const SUBMIT_LABELS: Partial<Record<Mode, string>> = {
+  login: 'Sign in',
+  register: 'Create account',
+};
+
+// Only redirect within the site (a full URL here would make this an open redirect)
+function safeNext(next: string | undefined): string {
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
+export default function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  const { next } = use(searchParams);
+  const router = useRouter();
+
+  const [mode, setMode] = React.useState<Mode>('login');
+  const [email, setEmail] = React.useState('');
+  const [password, setPassword] = React.useState('');
+  const [code, setCode] = React.useState('');
+  const [codeSent, setCodeSent] = React.useState(false);
+  const [notice, setNotice] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const switchMode = (nextMode: Mode) => {
+    setMode(nextMode);
+    setCodeSent(false);
+    setCode('');
+    setError(null);
+    setNotice(null);
+  };
+
+  // Guests get a code by email first, then verify it (see POST /api/v1/auth/guest)
+  const guestRequest = (): [string, object] => (codeSent ? ['guest/verify', { code }] : ['guest', { email }]);
+
+  const resendCode = async () => {
+    setError(null);
+    const response = await fetch('/api/v1/auth/guest/resend', { method: 'POST' });
+    if (response.status === 429) {
+      // Too soon, or out of codes
+      const errorData = await response.json();
+      setError(errorData.error?.message ?? 'Please wait before requesting a new code.');
+      return;
+    }
+    if (!response.ok) {
+      // The guest checkout itself expired: start over
+      switchMode('guest');
+      setError('Your guest checkout expired. Enter your email again.');
+      return;
+    }
+    setNotice(`We sent a new code to ${email}.`);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const [path, body] = mode === 'guest' ? guestRequest() : [mode, { email, password }];
+      const response = await fetch(`/api/v1/auth/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        setError(errorData.error?.details?.[0]?.message ?? errorData.error?.message ?? 'Something went wrong');
+        return;
+      }
+
+      if (mode === 'guest' && !codeSent) {
+        setCodeSent(true);
+        setNotice(`We sent a 6-digit code to ${email}. Your tickets will be sent there too.`);
+        return;
+      }
+
+      // The session (or verified guest) cookie is set: back to where the user came from
+      router.replace(safeNext(next));
+      router.refresh();
+    } catch (err) {
+      setError('Failed to reach the server.');
+      console.error(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 p-8 text-white">
+      <div className="mx-auto mt-20 max-w-md rounded-2xl border border-slate-800 bg-slate-900 p-8 shadow-2xl">
+        <h1 className="mb-2 text-3xl font-bold">{TITLES[mode]}</h1>
+        <p className="mb-8 text-slate-400">{SUBTITLES[mode]}</p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="email" className="mb-1 block text-sm font-medium text-slate-300">
+              Email
+            </label>
+            <input
+              id="email"
+              type="email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={codeSent}
+              className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-white disabled:opacity-50"
+            />
+          </div>
+          {mode === 'guest' && codeSent && (
+            <div>
+              <label htmlFor="code" className="mb-1 block text-sm font-medium text-slate-300">
+                Verification code
+              </label>
+              <input
+                id="code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                pattern="\d{6}"
+                maxLength={6}
+                required
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 tracking-widest text-white"
+              />
+            </div>
+          )}
+          {mode !== 'guest' && (
+            <div>
+              <label htmlFor="password" className="mb-1 block text-sm font-medium text-slate-300">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                required
+                minLength={mode === 'register' ? MIN_PASSWORD_LENGTH : undefined}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-white"
+              />
+            </div>
+          )}
+
+          {notice && <p className="text-sm text-slate-400">{notice}</p>}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex w-full items-center justify-center gap-2 rounded-lg bg-emerald-600 py-3 font-bold text-white transition-colors hover:bg-emerald-500 disabled:opacity-50"
+          >
+            {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+            {SUBMIT_LABELS[mode] ?? (codeSent ? 'Verify and continue' : 'Email me a code')}
+          </button>
+        </form>
+
+        {mode === 'guest' && codeSent && (
+          <p className="mt-4 text-center text-sm text-slate-400">
+            No code?{' '}
+            <button onClick={resendCode} className="font-medium text-emerald-400 hover:text-emerald-300">
+              Send a new one
+            </button>
+          </p>
+        )}
+
+        <p className="mt-6 text-center text-sm text-slate-400">
+          {mode === 'login' ? 'New here?' : 'Already have an account?'}{' '}
+          <button
+            onClick={() => switchMode(mode === 'login' ? 'register' : 'login')}
+            className="font-medium text-emerald-400 hover:text-emerald-300"
+          >
+            {mode === 'login' ? 'Create an account' : 'Sign in'}
+          </button>
+        </p>
+
+        {mode !== 'guest' && (
+          <p className="mt-2 text-center text-sm text-slate-400">
+            No account needed:{' '}
+            <button
+              onClick={() => switchMode('guest')}
+              className="font-medium text-emerald-400 hover:text-emerald-300"
+            >
+              Continue as a guest
+            </button>
+          </p>
+        )}
+
+        <p className="mt-4 text-center text-xs text-slate-600">
+          <Link href="/" className="hover:text-slate-400">Back to events</Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,24 @@
 
-import { prisma } from '@/infrastructure/db/prisma';
+import { getEventService, getPerformanceService } from '@/app/api/container';
 import { EventCard } from '@/components/EventCard';
+import { AccountMenu } from '@/components/AccountMenu';
 import Link from 'next/link';
 
 export const dynamic = 'force-dynamic'; // Always fetch fresh data
 
 export default async function Home() {
-  // Fetch events from the database
-  const events = await prisma.event.findMany({
-    orderBy: {
-      date: 'asc',
-    },
-  });
+  // Fetch listed (non-draft) events, with their upcoming performances
+  const [eventService, performanceService] = await Promise.all([getEventService(), getPerformanceService()]);
+  const events = await eventService.listEvents();
+  const performancesByEvent = await performanceService.findPerformancesByEvent(events.map((event) => event.id));
 
   return (
     <div className="min-h-screen bg-slate-950 p-8">
       <div className="mx-auto max-w-7xl">
+        <div className="mb-4 flex justify-end">
+          <AccountMenu />
+        </div>
+
         <div className="mb-12 text-center">
           <h1 className="mb-4 text-5xl font-extrabold tracking-tight text-white sm:text-6xl">
             Ticket<span className="text-emerald-500">Rush</span>
@@ -34,20 +37,36 @@ export default async function Home() {
           </div>
         ) : (
           <div className="grid gap-8 sm:grid-cols-2 lg:grid-cols-3">
-            {events.map((event) => (
-              <Link key={event.id} href={`/event/${event.id}`} className="block transition-transform hover:-translate-y-1">
-                <EventCard
-                  title={event.title}
-                  location={event.location}
-                  date={new Date(event.date).toLocaleDateString(undefined, {
-                    weekday: 'long',
-                    year: 'numeric',
-                    month: 'long',
-                    day: 'numeric',
-                  })}
-                />
-              </Link>
-            ))}
+            {events.map((event) => {
+              const salesWindow = event.salesWindow;
+
+              return (
+                <Link key={event.id} href={`/event/${event.id}`} className="block transition-transform hover:-translate-y-1">
+                  <EventCard
+                    title={event.title}
+                    location={event.location}
+                    date={new Date(event.date).toLocaleDateString(undefined, {
+                      weekday: 'long',
+                      year: 'numeric',
+                      month: 'long',
+                      day: 'numeric',
+                    })}
+                    showtimes={(performancesByEvent.get(event.id) ?? [])
+                      .filter((performance) => !performance.hasStarted())
+                      .map((performance) =>
+                        new Date(performance.startsAt).toLocaleString(undefined, {
+                          month: 'short',
+                          day: 'numeric',
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        })
+                      )}
+                    status={salesWindow.statusAt()}
+                    salesStartAt={salesWindow.salesStartAt?.toISOString() ?? null}
+                  />
+                </Link>
+              );
+            })}
           </div>
         )}
       </div>
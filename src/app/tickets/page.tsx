@@ -0,0 +1,137 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { useRouter } from 'next/navigation';
+import { Download, Loader2, MapPin, Ticket } from 'lucide-react';
+
+interface TicketData {
+  seatId: string;
+  seatNumber: string;
+  section: string | null;
+  row: string | null;
+  price: number;
+  startsAt: string;
+  hasStarted: boolean;
+  pdfUrl: string;
+}
+
+interface EventTicketsData {
+  event: { id: string; title: string; location: string };
+  tickets: TicketData[];
+}
+
+class UnauthenticatedError extends Error {}
+
+const fetcher = async (url: string): Promise<EventTicketsData[]> => {
+  const res = await fetch(url);
+  if (res.status === 401) throw new UnauthenticatedError();
+  if (!res.ok) throw new Error('Failed to load tickets');
+  return (await res.json()).data;
+};
+
+/**
+ * Splits each event's tickets into upcoming and past showtimes
+ */
+function splitByShowtime(groups: EventTicketsData[], past: boolean): EventTicketsData[] {
+  return groups
+    .map((group) => ({ ...group, tickets: group.tickets.filter((ticket) => ticket.hasStarted === past) }))
+    .filter((group) => group.tickets.length > 0);
+}
+
+function TicketGroups({ groups, dimmed }: { groups: EventTicketsData[]; dimmed?: boolean }) {
+  return (
+    <div className={`space-y-6 ${dimmed ? 'opacity-60' : ''}`}>
+      {groups.map(({ event, tickets }) => (
+        <div key={event.id} className="rounded-xl border border-slate-800 bg-slate-900 p-6">
+          <Link href={`/event/${event.id}`} className="text-xl font-bold text-white hover:text-emerald-400">
+            {event.title}
+          </Link>
+          <p className="mb-4 flex items-center gap-1 text-sm text-slate-400">
+            <MapPin className="h-4 w-4" />
+            {event.location}
+          </p>
+
+          <ul className="divide-y divide-slate-800">
+            {tickets.map((ticket) => (
+              <li key={ticket.seatId} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium text-slate-200">
+                    {[ticket.section, ticket.row && `Row ${ticket.row}`, `Seat ${ticket.seatNumber}`]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                  <p className="text-sm text-slate-500">
+                    {new Date(ticket.startsAt).toLocaleString()} · ${ticket.price}
+                  </p>
+                </div>
+                <a
+                  href={ticket.pdfUrl}
+                  className="flex items-center gap-1 rounded-md border border-slate-700 px-3 py-1.5 text-sm text-slate-300 hover:border-emerald-500 hover:text-emerald-400"
+                >
+                  <Download className="h-4 w-4" />
+                  PDF
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function TicketsPage() {
+  const router = useRouter();
+  const { data, error, isLoading } = useSWR<EventTicketsData[]>('/api/v1/me/tickets', fetcher);
+
+  React.useEffect(() => {
+    if (error instanceof UnauthenticatedError) {
+      router.replace('/login?next=/tickets');
+    }
+  }, [error, router]);
+
+  const upcoming = data ? splitByShowtime(data, false) : [];
+  const past = data ? splitByShowtime(data, true) : [];
+
+  return (
+    <div className="min-h-screen bg-slate-950 p-8 text-white">
+      <div className="mx-auto max-w-3xl">
+        <Link href="/" className="text-sm text-slate-500 hover:text-slate-300">
+          ← Back to events
+        </Link>
+        <h1 className="mb-8 mt-4 flex items-center gap-3 text-4xl font-extrabold">
+          <Ticket className="h-8 w-8 text-emerald-500" />
+          My tickets
+        </h1>
+
+        {isLoading && <Loader2 className="mx-auto h-8 w-8 animate-spin text-slate-500" />}
+
+        {error && !(error instanceof UnauthenticatedError) && (
+          <p className="text-red-400">Could not load your tickets. Please try again.</p>
+        )}
+
+        {data && data.length === 0 && (
+          <div className="rounded-xl border border-dashed border-slate-800 bg-slate-900/50 p-12 text-center text-slate-400">
+            You have no tickets yet.
+          </div>
+        )}
+
+        {upcoming.length > 0 && (
+          <section className="mb-12">
+            <h2 className="mb-4 text-2xl font-bold text-slate-200">Upcoming</h2>
+            <TicketGroups groups={upcoming} />
+          </section>
+        )}
+
+        {past.length > 0 && (
+          <section>
+            <h2 className="mb-4 text-2xl font-bold text-slate-200">Past</h2>
+            <TicketGroups groups={past} dimmed />
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { LogOut, Ticket, UserRound } from 'lucide-react';
+
+interface CurrentUser {
+  id: string;
+  email: string;
+}
+
+/**
+ * Shows who is signed in (with their tickets and a sign-out button), or a sign-in link
+ */
+export function AccountMenu() {
+  // undefined while loading, null when signed out
+  const [user, setUser] = useState<CurrentUser | null | undefined>(undefined);
+
+  useEffect(() => {
+    fetch('/api/v1/auth/me')
+      .then((res) => res.json())
+      .then((body) => setUser(body.success ? body.data : null))
+      .catch(() => setUser(null));
+  }, []);
+
+  const handleSignOut = async () => {
+    await fetch('/api/v1/auth/logout', { method: 'POST' });
+    setUser(null);
+  };
+
+  if (user === undefined) return null;
+
+  if (!user) {
+    return (
+      <Link
+        href="/login"
+        className="rounded-md border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 hover:border-emerald-500 hover:text-emerald-400"
+      >
+        Sign in
+      </Link>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-slate-300">
+      <UserRound className="h-4 w-4 text-emerald-500" />
+      <span>{user.email}</span>
+      <Link
+        href="/tickets"
+        className="flex items-center gap-1 rounded-md border border-slate-700 px-3 py-1.5 text-slate-400 hover:border-emerald-500 hover:text-emerald-400"
+      >
+        <Ticket className="h-4 w-4" />
+        My tickets
+      </Link>
+      <button
+        onClick={handleSignOut}
+        className="flex items-center gap-1 rounded-md border border-slate-700 px-3 py-1.5 text-slate-400 hover:border-slate-500 hover:text-white"
+      >
+        <LogOut className="h-4 w-4" />
+        Sign out
+      </button>
+    </div>
+  );
+}
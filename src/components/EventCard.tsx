@@ -1,15 +1,28 @@
-import { CalendarDays, MapPin } from 'lucide-react';
+import { CalendarDays, Clock, MapPin } from 'lucide-react';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { EventStatus } from '@/core/domain/sales-window.entity';
+import { OnSaleCountdown } from './OnSaleCountdown';
 
 function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// What buyers see instead of the Buy button when the event isn't on sale
+const CLOSED_SALE_LABELS: Partial<Record<EventStatus, string>> = {
+  [EventStatus.SCHEDULED]: 'On sale date to be announced',
+  [EventStatus.SOLD_OUT]: 'Sold Out',
+  [EventStatus.CLOSED]: 'Sales Closed',
+  [EventStatus.CANCELLED]: 'Cancelled',
+};
+
 interface EventCardProps {
   title: string;
   date: string;
   location: string;
+  showtimes?: string[]; // Upcoming performances, already formatted
+  status?: EventStatus; // With the sales window applied
+  salesStartAt?: string | null; // ISO timestamp; shown as a countdown while SCHEDULED
   imageUrl?: string; // Optional image
   onBuyClick?: () => void;
   className?: string;
@@ -19,6 +32,9 @@ export function EventCard({
   title,
   date,
   location,
+  showtimes = [],
+  status = EventStatus.ON_SALE,
+  salesStartAt = null,
   imageUrl,
   onBuyClick,
   className,
@@ -63,22 +79,49 @@ export function EventCard({
           <span className="text-sm">{location}</span>
         </div>
 
-        <button
-          onClick={onBuyClick}
-          className="group relative w-full overflow-hidden rounded-lg bg-white px-4 py-3 font-semibold text-slate-950 transition-all hover:bg-emerald-400 hover:text-slate-950 focus:outline-none focus:ring-2 focus:ring-emerald-400 focus:ring-offset-2 focus:ring-offset-slate-950"
-        >
-          <span className="relative z-10 flex items-center justify-center gap-2">
-             Buy Tickets
-             <svg 
-                className="h-4 w-4 transition-transform group-hover:translate-x-1" 
-                fill="none" 
-                viewBox="0 0 24 24" 
-                stroke="currentColor"
-            >
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" />
-            </svg>
-          </span>
-        </button>
+        {showtimes.length > 0 && (
+          <div className="mb-6">
+            <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+              <Clock className="h-3.5 w-3.5" />
+              Upcoming showtimes
+            </div>
+            <ul className="flex flex-wrap gap-2">
+              {showtimes.map((showtime) => (
+                <li
+                  key={showtime}
+                  className="rounded-md border border-slate-800 bg-slate-950 px-2 py-1 text-xs text-slate-300"
+                >
+                  {showtime}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {status === EventStatus.SCHEDULED && salesStartAt ? (
+          <OnSaleCountdown salesStartAt={salesStartAt} />
+        ) : CLOSED_SALE_LABELS[status] ? (
+          <div className="rounded-lg border border-slate-800 bg-slate-950 px-4 py-3 text-center text-sm font-semibold text-slate-400">
+            {CLOSED_SALE_LABELS[status]}
+          </div>
+        ) : (
+          <button
+            onClick={onBuyClick}
+            className="group relative w-full overflow-hidden rounded-lg bg-white px-4 py-3 font-semibold text-slate-950 transition-all hover:bg-emerald-400 hover:text-slate-950 focus:outline-none focus:ring-2 focus:ring-emerald-400 focus:ring-offset-2 focus:ring-offset-slate-950"
+          >
+            <span className="relative z-10 flex items-center justify-center gap-2">
+               Buy Tickets
+               <svg 
+                  className="h-4 w-4 transition-transform group-hover:translate-x-1" 
+                  fill="none" 
+                  viewBox="0 0 24 24" 
+                  stroke="currentColor"
+              >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" />
+              </svg>
+            </span>
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+
+interface OnSaleCountdownProps {
+  salesStartAt: string; // ISO timestamp
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const clock = [hours, minutes, seconds].map((part) => String(part).padStart(2, '0')).join(':');
+
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
+/**
+ * Ticks down to an event's on-sale time
+ */
+export function OnSaleCountdown({ salesStartAt }: OnSaleCountdownProps) {
+  // Only computed on the client, so server and client render the same markup
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+
+  useEffect(() => {
+    const opensAt = new Date(salesStartAt).getTime();
+    const tick = () => setRemainingMs(Math.max(0, opensAt - Date.now()));
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [salesStartAt]);
+
+  return (
+    <div className="flex items-center justify-center gap-2 rounded-lg border border-amber-500/30 bg-amber-500/10 px-4 py-3 text-sm font-semibold text-amber-300">
+      <Timer className="h-4 w-4" />
+      {remainingMs === null
+        ? 'On sale soon'
+        : remainingMs === 0
+          ? 'On sale now'
+          : `On sale in ${formatRemaining(remainingMs)}`}
+    </div>
+  );
+}
@@ -6,12 +6,13 @@ function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export type SeatStatus = 'AVAILABLE' | 'LOCKED' | 'SOLD';
+export type SeatStatus = 'AVAILABLE' | 'LOCKED' | 'SOLD' | 'HELD';
 
 interface SeatProps {
   status: SeatStatus;
   seatNumber: string;
   price: number;
+  resalePrice?: number | null; // Set when the owner has listed the ticket for resale
   onClick?: () => void;
   isLoading?: boolean;
   className?: string; // Allow custom classes
@@ -21,29 +22,42 @@ export function Seat({
   status,
   seatNumber,
   price,
+  resalePrice = null,
   onClick,
   isLoading = false,
   className,
 }: SeatProps) {
   const isAvailable = status === 'AVAILABLE';
   const isLocked = status === 'LOCKED';
-  const isSold = status === 'SOLD';
+  const isResale = status === 'SOLD' && resalePrice !== null; // Fan-to-fan resale, still purchasable
+  const isSold = status === 'SOLD' && !isResale;
+  const isHeld = status === 'HELD'; // House/press/production seats, not for public sale
+  const isPurchasable = isAvailable || isResale;
+  const displayPrice = isResale ? resalePrice : price;
 
   return (
     <button
-      onClick={isAvailable && !isLoading ? onClick : undefined}
-      disabled={!isAvailable || isLoading}
+      onClick={isPurchasable && !isLoading ? onClick : undefined}
+      disabled={!isPurchasable || isLoading}
       className={cn(
         'group relative flex h-12 w-12 items-center justify-center rounded-lg border-2 transition-all duration-200',
         // Base colors based on status
         isAvailable && 'border-emerald-500/50 bg-emerald-500/10 text-emerald-500 hover:bg-emerald-500 hover:text-white hover:shadow-[0_0_15px_rgba(16,185,129,0.4)]',
+        isResale && 'border-sky-500/50 bg-sky-500/10 text-sky-400 hover:bg-sky-500 hover:text-white hover:shadow-[0_0_15px_rgba(14,165,233,0.4)]',
         isLocked && 'cursor-not-allowed border-amber-400/50 bg-amber-400/10 text-amber-400',
         isSold && 'cursor-not-allowed border-rose-600/50 bg-rose-600/10 text-rose-600',
+        isHeld && 'cursor-not-allowed border-dashed border-slate-500/60 bg-slate-700/20 text-slate-500',
         isLoading && 'cursor-wait opacity-80',
         className
       )}
-      aria-label={`Seat ${seatNumber} - ${status} - $${price}`}
-      title={`Seat ${seatNumber} - $${price}`}
+      aria-label={`Seat ${seatNumber} - ${isResale ? 'RESALE' : status} - $${displayPrice}`}
+      title={
+        isHeld
+          ? `Seat ${seatNumber} - Not for sale`
+          : isResale
+            ? `Seat ${seatNumber} - Resale $${displayPrice}`
+            : `Seat ${seatNumber} - $${displayPrice}`
+      }
     >
       {isLoading ? (
         <Loader2 className="h-5 w-5 animate-spin" />
@@ -53,10 +67,17 @@ export function Seat({
         </span>
       )}
 
-      {/* Price Tooltip (only for available seats on hover) */}
-      {isAvailable && !isLoading && (
+      {/* Resale Badge */}
+      {isResale && !isLoading && (
+        <span className="absolute -top-2 -right-2 rounded-full bg-sky-500 px-1 text-[9px] font-bold uppercase leading-4 text-white shadow">
+          Resale
+        </span>
+      )}
+
+      {/* Price Tooltip (only for purchasable seats on hover) */}
+      {isPurchasable && !isLoading && (
         <div className="absolute -top-10 left-1/2 hidden -translate-x-1/2 transform rounded bg-slate-800 px-2 py-1 text-xs text-white opacity-0 shadow-lg transition-opacity group-hover:block group-hover:opacity-100 whitespace-nowrap z-10 border border-slate-700">
-          ${price}
+          {isResale ? `Resale $${displayPrice}` : `$${displayPrice}`}
         </div>
       )}
     </button>
@@ -0,0 +1,167 @@
+/**
+ * API Key Scope Enum
+ *
+ * What a partner's key may do on the booking API. Partner-enabled routes
+ * each ask for one scope (see lib/api/partner).
+ */
+export enum ApiKeyScope {
+  SEATS_READ = 'seats:read',             // Showtimes and seat maps
+  SEATS_LOCK = 'seats:lock',             // Lock, extend and release seats; join the waiting room
+  PAYMENTS_CONFIRM = 'payments:confirm', // Confirm the sale of locked seats
+}
+
+/**
+ * API Key Properties
+ */
+export interface ApiKeyProps {
+  readonly id: string;
+  readonly partnerId: string;            // Slug of the partner the key belongs to, e.g. "box-office"
+  readonly name: string;                 // What the key is for, e.g. "Ticket window terminals"
+  readonly keyPrefix: string;            // First characters of the key, to tell keys apart
+  readonly keyHash: string;              // SHA-256 of the key; the key itself is never stored
+  readonly scopes: readonly ApiKeyScope[];
+  readonly createdBy: string | null;     // Admin user who created it (null for the admin API key)
+  readonly createdAt: Date;
+  readonly revokedAt: Date | null;
+}
+
+/**
+ * API Key Domain Entity
+ *
+ * A key a partner (our box office, a reseller) uses to call the booking
+ * API server-to-server. Requests made with it act as the partner, and
+ * only on routes its scopes allow. A revoked key is kept, so logs and
+ * events that name it can still be traced to the partner.
+ *
+ * @example
+ * ```typescript
+ * const apiKey = ApiKey.create({ id: 'key-1', partnerId: 'box-office', name: 'Windows', keyPrefix, keyHash,
+ *   scopes: [ApiKeyScope.SEATS_READ] });
+ * apiKey.hasScope(ApiKeyScope.SEATS_LOCK); // false
+ * ```
+ */
+export class ApiKey {
+  private constructor(private readonly props: ApiKeyProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a new, active key
+   * @throws Error if the partner ID is not a slug or no scope is given
+   */
+  static create(params: {
+    id: string;
+    partnerId: string;
+    name: string;
+    keyPrefix: string;
+    keyHash: string;
+    scopes: readonly ApiKeyScope[];
+    createdBy?: string | null;
+  }): ApiKey {
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(params.partnerId)) {
+      throw new Error(`Cannot create API key: partnerId must be a lowercase slug (got ${params.partnerId})`);
+    }
+    if (params.scopes.length === 0) {
+      throw new Error('Cannot create API key: at least one scope is required');
+    }
+
+    return new ApiKey({
+      id: params.id,
+      partnerId: params.partnerId,
+      name: params.name,
+      keyPrefix: params.keyPrefix,
+      keyHash: params.keyHash,
+      scopes: Array.from(new Set(params.scopes)),
+      createdBy: params.createdBy ?? null,
+      createdAt: new Date(),
+      revokedAt: null,
+    });
+  }
+
+  /**
+   * Reconstitutes an ApiKey from persistence
+   */
+  static fromPersistence(props: ApiKeyProps): ApiKey {
+    return new ApiKey(props);
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get partnerId(): string {
+    return this.props.partnerId;
+  }
+
+  get name(): string {
+    return this.props.name;
+  }
+
+  get keyPrefix(): string {
+    return this.props.keyPrefix;
+  }
+
+  get keyHash(): string {
+    return this.props.keyHash;
+  }
+
+  get scopes(): readonly ApiKeyScope[] {
+    return this.props.scopes;
+  }
+
+  get createdBy(): string | null {
+    return this.props.createdBy;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get revokedAt(): Date | null {
+    return this.props.revokedAt;
+  }
+
+  // ===========================================
+  // Business Methods (State Transitions)
+  // ===========================================
+
+  /**
+   * Revokes the key; revoking it again keeps the first revocation time
+   * @returns New ApiKey instance that no longer authenticates
+   */
+  revoke(now: Date = new Date()): ApiKey {
+    if (this.isRevoked()) {
+      return this;
+    }
+
+    return new ApiKey({ ...this.props, revokedAt: now });
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  isRevoked(): boolean {
+    return this.props.revokedAt !== null;
+  }
+
+  hasScope(scope: ApiKeyScope): boolean {
+    return this.props.scopes.includes(scope);
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): ApiKeyProps {
+    return { ...this.props, scopes: [...this.props.scopes] };
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Event Cancellation Properties
+ */
+export interface EventCancellationProps {
+  readonly id: string;
+  readonly eventId: string;
+  readonly cancelledBy: string; // Admin who cancelled the event
+  readonly reason: string | null;
+  readonly totalRefunds: number;     // SOLD seats and GA reservations at cancellation time
+  readonly refundedCount: number;    // Refunds the worker completed
+  readonly failedCount: number;      // Refunds the worker gave up on (see the failed-refunds report)
+  readonly totalBatches: number;     // Refund jobs published
+  readonly processedBatches: number; // Refund jobs the worker finished
+  readonly createdAt: Date;
+}
+
+/**
+ * Event Cancellation Domain Entity
+ *
+ * Tracks the bulk refund of a cancelled event. The sold seats are split
+ * into refund batches the worker processes one job at a time; each
+ * processed batch adds its refunded and failed counts, so progress can be
+ * followed while thousands of refunds are worked off.
+ *
+ * @example
+ * ```typescript
+ * const cancellation = EventCancellation.create({ id, eventId: 'evt-1', cancelledBy: adminId, totalRefunds: 2500, totalBatches: 25 });
+ * const progressed = cancellation.recordBatch(98, 2);
+ * progressed.isComplete();
+ * ```
+ */
+export class EventCancellation {
+  private constructor(private readonly props: EventCancellationProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Starts tracking the refunds of a cancelled event
+   * @throws Error if the counts are negative
+   */
+  static create(params: {
+    id: string;
+    eventId: string;
+    cancelledBy: string;
+    reason?: string | null;
+    totalRefunds: number;
+    totalBatches: number;
+  }): EventCancellation {
+    if (params.totalRefunds < 0 || params.totalBatches < 0) {
+      throw new Error('Cannot create event cancellation: counts must not be negative');
+    }
+
+    return new EventCancellation({
+      id: params.id,
+      eventId: params.eventId,
+      cancelledBy: params.cancelledBy,
+      reason: params.reason ?? null,
+      totalRefunds: params.totalRefunds,
+      refundedCount: 0,
+      failedCount: 0,
+      totalBatches: params.totalBatches,
+      processedBatches: 0,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Reconstitutes an EventCancellation from persistence
+   */
+  static fromPersistence(props: EventCancellationProps): EventCancellation {
+    return new EventCancellation(props);
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get eventId(): string {
+    return this.props.eventId;
+  }
+
+  get cancelledBy(): string {
+    return this.props.cancelledBy;
+  }
+
+  get reason(): string | null {
+    return this.props.reason;
+  }
+
+  get totalRefunds(): number {
+    return this.props.totalRefunds;
+  }
+
+  get refundedCount(): number {
+    return this.props.refundedCount;
+  }
+
+  get failedCount(): number {
+    return this.props.failedCount;
+  }
+
+  get totalBatches(): number {
+    return this.props.totalBatches;
+  }
+
+  get processedBatches(): number {
+    return this.props.processedBatches;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  // ===========================================
+  // Business Methods (State Transitions)
+  // ===========================================
+
+  /**
+   * Adds the outcome of one processed refund batch
+   * @returns A NEW EventCancellation instance with the counts added
+   * @throws Error if every batch was processed already
+   */
+  recordBatch(refunded: number, failed: number): EventCancellation {
+    if (this.props.processedBatches >= this.props.totalBatches) {
+      throw new Error('Cannot record refund batch: all batches were processed');
+    }
+
+    return new EventCancellation({
+      ...this.props,
+      refundedCount: this.props.refundedCount + refunded,
+      failedCount: this.props.failedCount + failed,
+      processedBatches: this.props.processedBatches + 1,
+    });
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  /**
+   * Checks whether the worker has processed every refund batch
+   */
+  isComplete(): boolean {
+    return this.props.processedBatches >= this.props.totalBatches;
+  }
+
+  /**
+   * Share of refunds processed (refunded or failed), 0-100
+   */
+  progressPercent(): number {
+    if (this.props.totalRefunds === 0) return 100;
+
+    const processed = this.props.refundedCount + this.props.failedCount;
+    return Math.min(100, Math.floor((processed / this.props.totalRefunds) * 100));
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): EventCancellationProps {
+    return { ...this.props };
+  }
+}
@@ -0,0 +1,74 @@
+import { Event } from './event.entity';
+import { EventStatus } from './sales-window.entity';
+
+describe('Event Entity', () => {
+  const date = new Date('2026-03-01T20:00:00Z');
+
+  const event = (overrides: Partial<Parameters<typeof Event.create>[0]> = {}) =>
+    Event.create({ id: 'evt-1', title: 'Dune: Part Three', date, location: 'IMAX Hall 1', totalSeats: 50, ...overrides });
+
+  describe('create()', () => {
+    it('should create an unlisted draft capping resale at face value', () => {
+      const created = event();
+
+      expect(created.status).toBe(EventStatus.DRAFT);
+      expect(created.isListed()).toBe(false);
+      expect(created.resalePriceCapPercent).toBe(100);
+    });
+
+    it('should reject a blank title', () => {
+      expect(() => event({ title: '  ' })).toThrow('Cannot create event: title must not be blank');
+    });
+
+    it('should reject a seat count that is not a positive integer', () => {
+      expect(() => event({ totalSeats: 0 })).toThrow('totalSeats must be a positive integer');
+    });
+
+    it('should reject sales that end before they start', () => {
+      expect(() => event({ salesStartAt: date, salesEndAt: new Date(date.getTime() - 1000) })).toThrow(
+        'salesEndAt must be after salesStartAt'
+      );
+    });
+  });
+
+  describe('update()', () => {
+    it('should apply the changes given and keep the rest', () => {
+      const updated = event().update({ title: 'Dune: Part Three (IMAX)', status: EventStatus.ON_SALE });
+
+      expect(updated.title).toBe('Dune: Part Three (IMAX)');
+      expect(updated.status).toBe(EventStatus.ON_SALE);
+      expect(updated.location).toBe('IMAX Hall 1');
+      expect(updated.salesWindow.statusAt()).toBe(EventStatus.ON_SALE);
+    });
+
+    it('should leave cancelling to the cancellation flow', () => {
+      expect(() => event().update({ status: EventStatus.CANCELLED })).toThrow('cancel it instead');
+    });
+
+    it('should check the sales window against the stored dates', () => {
+      const scheduled = event({ salesStartAt: date });
+
+      expect(() => scheduled.update({ salesEndAt: new Date(date.getTime() - 1000) })).toThrow(
+        'Cannot update event: salesEndAt must be after salesStartAt'
+      );
+    });
+  });
+
+  describe('reschedule()', () => {
+    it('should move the date without changing the original instance', () => {
+      const original = event();
+      const later = new Date(date.getTime() + 24 * 60 * 60 * 1000);
+
+      const rescheduled = original.reschedule(later);
+
+      expect(rescheduled.date).toEqual(later);
+      expect(original.date).toEqual(date);
+    });
+
+    it('should refuse to move a cancelled event', () => {
+      const cancelled = Event.fromPersistence({ ...event().toJSON(), status: EventStatus.CANCELLED });
+
+      expect(() => cancelled.reschedule(date)).toThrow('it is cancelled');
+    });
+  });
+});
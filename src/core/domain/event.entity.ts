@@ -0,0 +1,259 @@
+import { SalesWindow, EventStatus } from './sales-window.entity';
+
+/**
+ * Event Properties
+ */
+export interface EventProps {
+  readonly id: string;
+  readonly title: string;
+  readonly description: string | null;
+  readonly date: Date;                          // First showtime; listings are sorted by it
+  readonly location: string;                    // Venue, e.g. "IMAX Hall 1"
+  readonly totalSeats: number;                  // Seats of the first performance's inventory
+  readonly resalePriceCapPercent: number | null; // Max resale price as % of face value; null = no resale
+  readonly status: EventStatus;
+  readonly salesStartAt: Date | null;
+  readonly salesEndAt: Date | null;
+  readonly createdAt: Date;
+}
+
+/**
+ * What organizers may change on an existing event. The date moves with
+ * reschedule(); cancelling goes through EventCancellationService, which
+ * also refunds the tickets.
+ */
+export type EventChanges = Partial<
+  Pick<EventProps, 'title' | 'description' | 'location' | 'resalePriceCapPercent' | 'status' | 'salesStartAt' | 'salesEndAt'>
+>;
+
+/**
+ * Event Domain Entity
+ *
+ * Something people buy tickets for: a film, a concert, a tour. An event
+ * has one or more performances (showtimes), each with its own seats; the
+ * event carries what they share: title, venue, lifecycle status and
+ * sales window, and the resale price cap.
+ *
+ * @example
+ * ```typescript
+ * const event = Event.create({ id: 'evt-1', title: 'Dune: Part Three', date, location: 'IMAX Hall 1', totalSeats: 50 });
+ * event.status;                                       // DRAFT
+ * event.update({ status: EventStatus.ON_SALE }).salesWindow.isOpen(); // true
+ * ```
+ */
+export class Event {
+  private constructor(private readonly props: EventProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a new event (a draft unless another status is given)
+   * @throws Error if a field is invalid (see update())
+   */
+  static create(params: {
+    id: string;
+    title: string;
+    description?: string | null;
+    date: Date;
+    location: string;
+    totalSeats: number;
+    resalePriceCapPercent?: number | null;
+    status?: EventStatus;
+    salesStartAt?: Date | null;
+    salesEndAt?: Date | null;
+  }): Event {
+    if (!Number.isInteger(params.totalSeats) || params.totalSeats <= 0) {
+      throw new Error(`Cannot create event: totalSeats must be a positive integer (got ${params.totalSeats})`);
+    }
+    if (params.status === EventStatus.CANCELLED) {
+      throw new Error('Cannot create event: an event is created before it can be cancelled');
+    }
+
+    const props: EventProps = {
+      id: params.id,
+      title: params.title.trim(),
+      description: params.description?.trim() || null,
+      date: params.date,
+      location: params.location.trim(),
+      totalSeats: params.totalSeats,
+      resalePriceCapPercent: params.resalePriceCapPercent === undefined ? 100 : params.resalePriceCapPercent,
+      status: params.status ?? EventStatus.DRAFT,
+      salesStartAt: params.salesStartAt ?? null,
+      salesEndAt: params.salesEndAt ?? null,
+      createdAt: new Date(),
+    };
+
+    Event.validate(props, 'create');
+    return new Event(props);
+  }
+
+  /**
+   * Reconstitutes an Event from persistence
+   */
+  static fromPersistence(props: EventProps): Event {
+    return new Event(props);
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get title(): string {
+    return this.props.title;
+  }
+
+  get description(): string | null {
+    return this.props.description;
+  }
+
+  get date(): Date {
+    return this.props.date;
+  }
+
+  get location(): string {
+    return this.props.location;
+  }
+
+  get totalSeats(): number {
+    return this.props.totalSeats;
+  }
+
+  get resalePriceCapPercent(): number | null {
+    return this.props.resalePriceCapPercent;
+  }
+
+  get status(): EventStatus {
+    return this.props.status;
+  }
+
+  get salesStartAt(): Date | null {
+    return this.props.salesStartAt;
+  }
+
+  get salesEndAt(): Date | null {
+    return this.props.salesEndAt;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  /**
+   * The event's status and on-sale window
+   */
+  get salesWindow(): SalesWindow {
+    return SalesWindow.fromPersistence({
+      eventId: this.props.id,
+      status: this.props.status,
+      salesStartAt: this.props.salesStartAt,
+      salesEndAt: this.props.salesEndAt,
+    });
+  }
+
+  // ===========================================
+  // Business Methods (State Transitions)
+  // ===========================================
+
+  /**
+   * Applies an organizer's changes
+   * @returns New Event instance with the changes
+   * @throws Error if the event is cancelled, the status is set to CANCELLED,
+   *         or a field is invalid (blank title/location, sales window ending
+   *         before it starts, negative resale cap)
+   */
+  update(changes: EventChanges): Event {
+    if (this.isCancelled()) {
+      throw new Error('Cannot update event: it is cancelled');
+    }
+    if (changes.status === EventStatus.CANCELLED) {
+      throw new Error('Cannot update event: cancel it instead, so its tickets are refunded');
+    }
+
+    const props: EventProps = {
+      ...this.props,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+      title: changes.title?.trim() ?? this.props.title,
+      location: changes.location?.trim() ?? this.props.location,
+      description: changes.description === undefined ? this.props.description : changes.description?.trim() || null,
+    };
+
+    Event.validate(props, 'update');
+    return new Event(props);
+  }
+
+  /**
+   * Moves the event to a new date
+   * @returns New Event instance with the date
+   * @throws Error if the event is cancelled or the date is not a valid date
+   */
+  reschedule(date: Date): Event {
+    if (this.isCancelled()) {
+      throw new Error('Cannot reschedule event: it is cancelled');
+    }
+    if (Number.isNaN(date.getTime())) {
+      throw new Error('Cannot reschedule event: date is not a valid date');
+    }
+
+    return new Event({ ...this.props, date });
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  isCancelled(): boolean {
+    return this.props.status === EventStatus.CANCELLED;
+  }
+
+  /**
+   * Drafts are hidden from buyers
+   */
+  isListed(): boolean {
+    return this.props.status !== EventStatus.DRAFT;
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): EventProps {
+    return { ...this.props };
+  }
+
+  // ===========================================
+  // Validation
+  // ===========================================
+
+  private static validate(props: EventProps, action: 'create' | 'update'): void {
+    const fail = (reason: string): never => {
+      throw new Error(`Cannot ${action} event: ${reason}`);
+    };
+
+    if (props.title.length === 0) {
+      fail('title must not be blank');
+    }
+    if (props.location.length === 0) {
+      fail('location must not be blank');
+    }
+    if (Number.isNaN(props.date.getTime())) {
+      fail('date is not a valid date');
+    }
+    if (
+      props.resalePriceCapPercent !== null &&
+      (!Number.isInteger(props.resalePriceCapPercent) || props.resalePriceCapPercent < 0)
+    ) {
+      fail(`resalePriceCapPercent must be a non-negative integer (got ${props.resalePriceCapPercent})`);
+    }
+    if (props.salesStartAt && props.salesEndAt && props.salesEndAt.getTime() <= props.salesStartAt.getTime()) {
+      fail('salesEndAt must be after salesStartAt');
+    }
+  }
+}
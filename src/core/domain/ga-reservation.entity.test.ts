@@ -0,0 +1,88 @@
+import { GaReservation, GaReservationStatus } from './ga-reservation.entity';
+
+describe('GaReservation Entity', () => {
+  const zone = { id: 'zone-1', eventId: 'event-1', price: 19.99 };
+  const reservation = (now = new Date()) =>
+    GaReservation.create({ id: 'ga-1', zone, userId: 'user-1', quantity: 3, lockDurationMs: 60_000, now });
+
+  describe('create()', () => {
+    it('should lock the tickets at the zone price', () => {
+      const now = new Date();
+      const created = reservation(now);
+
+      expect(created.status).toBe(GaReservationStatus.LOCKED);
+      expect(created.unitPrice).toBe(19.99);
+      expect(created.totalAmount).toBe(59.97);
+      expect(created.lockExpiresAt).toEqual(new Date(now.getTime() + 60_000));
+      expect(created.isLockedBy('user-1')).toBe(true);
+    });
+
+    it('should reject a quantity that is not a positive integer', () => {
+      expect(() => GaReservation.create({ id: 'ga-1', zone, userId: 'user-1', quantity: 0 })).toThrow(
+        'quantity must be a positive integer'
+      );
+    });
+  });
+
+  describe('sell()', () => {
+    it('should complete the purchase', () => {
+      const sold = reservation().sell('pi_123');
+
+      expect(sold.status).toBe(GaReservationStatus.SOLD);
+      expect(sold.paymentReference).toBe('pi_123');
+      expect(sold.lockExpiresAt).toBeNull();
+      expect(sold.version).toBe(2);
+    });
+
+    it('should not sell once the lock has expired', () => {
+      const now = new Date();
+
+      expect(() => reservation(now).sell(null, new Date(now.getTime() + 60_000))).toThrow(
+        'Cannot sell reservation: lock has expired'
+      );
+    });
+  });
+
+  describe('expire()', () => {
+    it('should expire a lapsed lock', () => {
+      const now = new Date();
+
+      expect(reservation(now).expire(new Date(now.getTime() + 60_000)).status).toBe(GaReservationStatus.EXPIRED);
+    });
+
+    it('should not expire a running lock', () => {
+      expect(() => reservation().expire()).toThrow('Cannot expire reservation: lock is still active');
+    });
+  });
+
+  describe('release()', () => {
+    it('should not release a sold reservation', () => {
+      expect(() => reservation().sell().release()).toThrow('Cannot release reservation: current status is SOLD');
+    });
+  });
+
+  describe('refund()', () => {
+    it('should refund a sold reservation', () => {
+      const sold = reservation().sell('pi_123');
+      const refunded = sold.refund();
+
+      expect(refunded.status).toBe(GaReservationStatus.REFUNDED);
+      expect(refunded.paymentReference).toBe('pi_123');
+      expect(refunded.version).toBe(sold.version + 1);
+    });
+
+    it('should not refund a reservation that was never sold', () => {
+      expect(() => reservation().refund()).toThrow('Cannot refund reservation: current status is LOCKED');
+    });
+  });
+
+  describe('Immutability', () => {
+    it('should not change the original instance', () => {
+      const original = reservation();
+      original.sell();
+
+      expect(original.status).toBe(GaReservationStatus.LOCKED);
+      expect(Object.isFrozen(original)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { DEFAULT_LOCK_DURATION_MS } from './seat.entity';
+
+/**
+ * GA Reservation Status Enum
+ * Represents the possible states of a general-admission reservation
+ */
+export enum GaReservationStatus {
+  LOCKED = 'LOCKED',     // Tickets held for checkout until lockExpiresAt
+  SOLD = 'SOLD',         // Paid for
+  RELEASED = 'RELEASED', // Checkout cancelled; tickets went back to the zone
+  EXPIRED = 'EXPIRED',   // Lock ran out; tickets went back to the zone
+  REFUNDED = 'REFUNDED', // Paid for, then refunded; tickets went back to the zone
+}
+
+/**
+ * GA Reservation Properties
+ */
+export interface GaReservationProps {
+  readonly id: string;
+  readonly zoneId: string;
+  readonly eventId: string;
+  readonly userId: string;
+  readonly quantity: number;
+  readonly unitPrice: number;               // Zone price at the time of locking
+  readonly status: GaReservationStatus;
+  readonly lockExpiresAt: Date | null;      // Set while LOCKED, null otherwise
+  readonly paymentReference: string | null; // Payment provider transaction ID, set when SOLD
+  readonly version: number;                 // For optimistic locking
+  readonly createdAt: Date;
+  readonly soldAt: Date | null;
+}
+
+/**
+ * GA Reservation Domain Entity
+ *
+ * A quantity of general-admission tickets taken from a zone. It follows
+ * the seat lifecycle: locked for checkout, then sold, or handed back to
+ * the zone when the buyer cancels, the lock expires or the sale is refunded.
+ *
+ * Like Seat, this entity is IMMUTABLE: every transition returns a new instance.
+ *
+ * @example
+ * ```typescript
+ * const reservation = GaReservation.create({ id: 'ga-1', zone, userId: 'user-1', quantity: 2 });
+ * const sold = reservation.sell('pi_123');
+ * sold.totalAmount; // 2 x zone price
+ * ```
+ */
+export class GaReservation {
+  private constructor(private readonly props: GaReservationProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a reservation locked for checkout at the zone's current price
+   * @throws Error if quantity is not a positive whole number
+   */
+  static create(params: {
+    id: string;
+    zone: { id: string; eventId: string; price: number };
+    userId: string;
+    quantity: number;
+    lockDurationMs?: number;
+    now?: Date;
+  }): GaReservation {
+    if (!Number.isInteger(params.quantity) || params.quantity <= 0) {
+      throw new Error(`Cannot reserve: quantity must be a positive integer (got ${params.quantity})`);
+    }
+
+    const now = params.now ?? new Date();
+
+    return new GaReservation({
+      id: params.id,
+      zoneId: params.zone.id,
+      eventId: params.zone.eventId,
+      userId: params.userId,
+      quantity: params.quantity,
+      unitPrice: params.zone.price,
+      status: GaReservationStatus.LOCKED,
+      lockExpiresAt: new Date(now.getTime() + (params.lockDurationMs ?? DEFAULT_LOCK_DURATION_MS)),
+      paymentReference: null,
+      version: 1,
+      createdAt: now,
+      soldAt: null,
+    });
+  }
+
+  /**
+   * Reconstitutes a GaReservation from persistence
+   */
+  static fromPersistence(props: GaReservationProps): GaReservation {
+    return new GaReservation(props);
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get zoneId(): string {
+    return this.props.zoneId;
+  }
+
+  get eventId(): string {
+    return this.props.eventId;
+  }
+
+  get userId(): string {
+    return this.props.userId;
+  }
+
+  get quantity(): number {
+    return this.props.quantity;
+  }
+
+  get unitPrice(): number {
+    return this.props.unitPrice;
+  }
+
+  get totalAmount(): number {
+    // Work in cents to avoid floating point drift
+    return (Math.round(this.props.unitPrice * 100) * this.props.quantity) / 100;
+  }
+
+  get status(): GaReservationStatus {
+    return this.props.status;
+  }
+
+  get lockExpiresAt(): Date | null {
+    return this.props.lockExpiresAt;
+  }
+
+  get paymentReference(): string | null {
+    return this.props.paymentReference;
+  }
+
+  get version(): number {
+    return this.props.version;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get soldAt(): Date | null {
+    return this.props.soldAt;
+  }
+
+  // ===========================================
+  // State Transition Methods (Return New Instance)
+  // ===========================================
+
+  /**
+   * Completes the purchase
+   * @returns A NEW GaReservation instance with SOLD status
+   * @throws Error if the reservation is not LOCKED or the lock has expired
+   */
+  sell(paymentReference: string | null = null, now: Date = new Date()): GaReservation {
+    if (this.props.status !== GaReservationStatus.LOCKED) {
+      throw new Error(`Cannot sell reservation: current status is ${this.props.status}`);
+    }
+    if (this.isLockExpired(now)) {
+      throw new Error('Cannot sell reservation: lock has expired');
+    }
+
+    return this.transition({
+      status: GaReservationStatus.SOLD,
+      lockExpiresAt: null,
+      paymentReference,
+      soldAt: now,
+    });
+  }
+
+  /**
+   * Cancels the checkout
+   * @returns A NEW GaReservation instance with RELEASED status
+   * @throws Error if the reservation is not LOCKED
+   */
+  release(): GaReservation {
+    if (this.props.status !== GaReservationStatus.LOCKED) {
+      throw new Error(`Cannot release reservation: current status is ${this.props.status}`);
+    }
+
+    return this.transition({ status: GaReservationStatus.RELEASED, lockExpiresAt: null });
+  }
+
+  /**
+   * Marks a lapsed lock as expired
+   * @returns A NEW GaReservation instance with EXPIRED status
+   * @throws Error if the reservation is not LOCKED or its lock is still running
+   */
+  expire(now: Date = new Date()): GaReservation {
+    if (this.props.status !== GaReservationStatus.LOCKED) {
+      throw new Error(`Cannot expire reservation: current status is ${this.props.status}`);
+    }
+    if (!this.isLockExpired(now)) {
+      throw new Error('Cannot expire reservation: lock is still active');
+    }
+
+    return this.transition({ status: GaReservationStatus.EXPIRED, lockExpiresAt: null });
+  }
+
+  /**
+   * Refunds the purchase
+   * @returns A NEW GaReservation instance with REFUNDED status
+   * @throws Error if the reservation is not SOLD
+   */
+  refund(): GaReservation {
+    if (this.props.status !== GaReservationStatus.SOLD) {
+      throw new Error(`Cannot refund reservation: current status is ${this.props.status}`);
+    }
+
+    return this.transition({ status: GaReservationStatus.REFUNDED });
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  isLocked(): boolean {
+    return this.props.status === GaReservationStatus.LOCKED;
+  }
+
+  isSold(): boolean {
+    return this.props.status === GaReservationStatus.SOLD;
+  }
+
+  isLockedBy(userId: string): boolean {
+    return this.isLocked() && this.props.userId === userId;
+  }
+
+  /**
+   * Checks whether the checkout lock has run out
+   */
+  isLockExpired(now: Date = new Date()): boolean {
+    return this.props.lockExpiresAt !== null && this.props.lockExpiresAt.getTime() <= now.getTime();
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): GaReservationProps {
+    return { ...this.props };
+  }
+
+  /**
+   * Returns a new instance with the given changes and the version incremented
+   */
+  private transition(
+    changes: Partial<Pick<GaReservationProps, 'status' | 'lockExpiresAt' | 'paymentReference' | 'soldAt'>>
+  ): GaReservation {
+    return new GaReservation({
+      ...this.props,
+      ...changes,
+      version: this.props.version + 1,
+    });
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * General Admission Zone Properties
+ */
+export interface GaZoneProps {
+  readonly id: string;
+  readonly eventId: string;
+  readonly name: string;      // e.g. "Standing Floor", "Camping"
+  readonly price: number;     // Price per ticket
+  readonly capacity: number;  // Total tickets in the zone
+  readonly available: number; // Tickets neither locked nor sold
+}
+
+/**
+ * General Admission Zone Domain Entity
+ *
+ * A capacity-based pool of tickets (standing floor, festival pass, ...)
+ * sold by quantity instead of by seat. An event can mix GA zones and
+ * reserved seats.
+ *
+ * `available` is a snapshot: it is only ever changed by the repository's
+ * atomic reserve/release operations, never by saving a zone.
+ *
+ * @example
+ * ```typescript
+ * const zone = GaZone.create({ id: 'zone-1', eventId: 'event-1', name: 'Floor', price: 60, capacity: 5000 });
+ * zone.hasAvailable(4); // true
+ * ```
+ */
+export class GaZone {
+  private constructor(private readonly props: GaZoneProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a new zone with its full capacity available
+   * @throws Error if capacity is not a positive whole number
+   */
+  static create(params: {
+    id: string;
+    eventId: string;
+    name: string;
+    price: number;
+    capacity: number;
+  }): GaZone {
+    if (!Number.isInteger(params.capacity) || params.capacity <= 0) {
+      throw new Error(`Cannot create zone: capacity must be a positive integer (got ${params.capacity})`);
+    }
+
+    return new GaZone({ ...params, available: params.capacity });
+  }
+
+  /**
+   * Reconstitutes a GaZone from persistence
+   */
+  static fromPersistence(props: GaZoneProps): GaZone {
+    return new GaZone(props);
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get eventId(): string {
+    return this.props.eventId;
+  }
+
+  get name(): string {
+    return this.props.name;
+  }
+
+  get price(): number {
+    return this.props.price;
+  }
+
+  get capacity(): number {
+    return this.props.capacity;
+  }
+
+  get available(): number {
+    return this.props.available;
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  hasAvailable(quantity: number): boolean {
+    return this.props.available >= quantity;
+  }
+
+  isSoldOut(): boolean {
+    return this.props.available === 0;
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): GaZoneProps {
+    return { ...this.props };
+  }
+}
@@ -4,5 +4,52 @@
  * This module exports all domain entities, value objects, and domain services.
  */
 
-export { Seat, SeatStatus } from './seat.entity';
-export type { SeatProps } from './seat.entity';
+export { Seat, SeatStatus, DEFAULT_LOCK_DURATION_MS } from './seat.entity';
+export type { SeatProps, SeatPriceCategory } from './seat.entity';
+
+export { Performance } from './performance.entity';
+export type { PerformanceProps } from './performance.entity';
+
+export { SeatTemplate, DEFAULT_SEATS_PER_ROW } from './seat-template.entity';
+export type { SeatTemplateProps, SeatTemplateSeat } from './seat-template.entity';
+
+export { SalesWindow, EventStatus } from './sales-window.entity';
+export type { SalesWindowProps } from './sales-window.entity';
+
+export { Event } from './event.entity';
+export type { EventProps, EventChanges } from './event.entity';
+
+export { Presale } from './presale.entity';
+export type { PresaleProps } from './presale.entity';
+
+export { PresaleCode } from './presale-code.entity';
+export type { PresaleCodeProps } from './presale-code.entity';
+
+export { Order, OrderStatus } from './order.entity';
+export type { OrderProps, OrderItemProps } from './order.entity';
+
+export { WaitlistEntry, WaitlistStatus } from './waitlist-entry.entity';
+export type { WaitlistEntryProps } from './waitlist-entry.entity';
+
+export { TicketTransfer, TicketTransferStatus } from './ticket-transfer.entity';
+export type { TicketTransferProps } from './ticket-transfer.entity';
+
+export { ResaleListing, ResaleListingStatus } from './resale-listing.entity';
+export type { ResaleListingProps } from './resale-listing.entity';
+
+export { GaZone } from './ga-zone.entity';
+export type { GaZoneProps } from './ga-zone.entity';
+
+export { GaReservation, GaReservationStatus } from './ga-reservation.entity';
+export type { GaReservationProps } from './ga-reservation.entity';
+
+export { EventCancellation } from './event-cancellation.entity';
+export type { EventCancellationProps } from './event-cancellation.entity';
+
+export { User, UserRole } from './user.entity';
+export type { UserProps } from './user.entity';
+
+export { Permission, ROLE_PERMISSIONS, roleHasPermission, isStaffRole } from './permission';
+
+export { ApiKey, ApiKeyScope } from './api-key.entity';
+export type { ApiKeyProps } from './api-key.entity';
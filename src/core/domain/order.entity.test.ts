@@ -0,0 +1,144 @@
+import { Seat } from './seat.entity';
+import { GaReservation } from './ga-reservation.entity';
+import { Order, OrderStatus } from './order.entity';
+
+describe('Order Entity', () => {
+  const soldSeat = (id: string, price: number) =>
+    Seat.create({ id, eventId: 'event-1', performanceId: 'perf-1', seatNumber: id.toUpperCase(), price })
+      .lock('user-1')
+      .sell();
+
+  describe('create()', () => {
+    it('should create a completed order with one item per seat', () => {
+      const order = Order.create({
+        id: 'order-1',
+        userId: 'user-1',
+        seats: [soldSeat('a1', 75), soldSeat('a2', 150)],
+        paymentReference: 'pay-ref-1',
+      });
+
+      expect(order.status).toBe(OrderStatus.COMPLETED);
+      expect(order.userId).toBe('user-1');
+      expect(order.paymentReference).toBe('pay-ref-1');
+      expect(order.items.map((item) => item.seatId)).toEqual(['a1', 'a2']);
+      expect(order.items[1]).toMatchObject({ seatNumber: 'A2', eventId: 'event-1', price: 150 });
+    });
+
+    it('should sum item prices without floating point drift', () => {
+      const order = Order.create({
+        id: 'order-1',
+        userId: 'user-1',
+        seats: [soldSeat('a1', 0.1), soldSeat('a2', 0.2)],
+      });
+
+      expect(order.totalAmount).toBe(0.3);
+      expect(order.paymentReference).toBeNull();
+    });
+
+    it('should use the agreed price instead of the seat price when given', () => {
+      const order = Order.create({
+        id: 'order-1',
+        userId: 'user-2',
+        seats: [soldSeat('a1', 75), soldSeat('a2', 150)],
+        prices: { a1: 90 },
+      });
+
+      expect(order.items.map((item) => item.price)).toEqual([90, 150]);
+      expect(order.totalAmount).toBe(240);
+    });
+
+    it('should not allow an order without seats', () => {
+      expect(() => Order.create({ id: 'order-1', userId: 'user-1', seats: [] })).toThrow(
+        'Cannot create order: at least one seat is required'
+      );
+    });
+  });
+
+  describe('refundItem()', () => {
+    const order = () =>
+      Order.create({
+        id: 'order-1',
+        userId: 'user-1',
+        seats: [soldSeat('a1', 75), soldSeat('a2', 150)],
+      });
+
+    it('should mark the order partially refunded while items remain', () => {
+      const refundedAt = new Date('2026-01-18T10:00:00Z');
+      const refunded = order().refundItem('a1', 'Customer request', refundedAt);
+
+      expect(refunded.status).toBe(OrderStatus.PARTIALLY_REFUNDED);
+      expect(refunded.findItem('a1')).toMatchObject({ refundedAt, refundReason: 'Customer request' });
+      expect(refunded.hasActiveItem('a1')).toBe(false);
+      expect(refunded.hasActiveItem('a2')).toBe(true);
+    });
+
+    it('should mark the order refunded once every item is refunded', () => {
+      const refunded = order().refundItem('a1').refundItem('a2');
+
+      expect(refunded.status).toBe(OrderStatus.REFUNDED);
+    });
+
+    it('should not refund the same seat twice', () => {
+      expect(() => order().refundItem('a1').refundItem('a1')).toThrow(
+        'Cannot refund: seat a1 was already refunded'
+      );
+    });
+
+    it('should not refund a seat outside the order', () => {
+      expect(() => order().refundItem('b1')).toThrow(
+        'Cannot refund: seat b1 is not part of order order-1'
+      );
+    });
+  });
+
+  describe('GA reservations', () => {
+    const order = () =>
+      Order.createForGaReservation({
+        id: 'order-1',
+        userId: 'user-1',
+        reservation: GaReservation.create({
+          id: 'ga-1',
+          zone: { id: 'zone-1', eventId: 'event-1', price: 45.1 },
+          userId: 'user-1',
+          quantity: 3,
+        }).sell('pi_123'),
+        zoneName: 'Standing',
+        paymentReference: 'pi_123',
+      });
+
+    it('should create one item per ticket', () => {
+      expect(order().items.map((item) => item.seatNumber)).toEqual(['Standing #1', 'Standing #2', 'Standing #3']);
+      expect(order().items[0]).toMatchObject({ seatId: null, gaReservationId: 'ga-1', eventId: 'event-1', price: 45.1 });
+      expect(order().totalAmount).toBe(135.3);
+    });
+
+    it('should refund every ticket of the reservation at once', () => {
+      const refunded = order().refundGaReservation('ga-1', 'Event cancelled');
+
+      expect(refunded.status).toBe(OrderStatus.REFUNDED);
+      expect(refunded.items.every((item) => item.refundReason === 'Event cancelled')).toBe(true);
+      expect(refunded.hasActiveGaReservation('ga-1')).toBe(false);
+    });
+
+    it('should not refund the same reservation twice', () => {
+      expect(() => order().refundGaReservation('ga-1').refundGaReservation('ga-1')).toThrow(
+        'Cannot refund: GA reservation ga-1 has no unrefunded tickets in order order-1'
+      );
+    });
+  });
+
+  describe('Serialization', () => {
+    it('should round-trip through toJSON() and fromPersistence()', () => {
+      const order = Order.create({
+        id: 'order-1',
+        userId: 'user-1',
+        seats: [soldSeat('a1', 75)],
+      });
+
+      const restored = Order.fromPersistence(order.toJSON());
+
+      expect(restored.toJSON()).toEqual(order.toJSON());
+      expect(restored).not.toBe(order);
+    });
+  });
+});
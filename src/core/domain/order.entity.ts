@@ -0,0 +1,279 @@
+import { Seat } from './seat.entity';
+import { GaReservation } from './ga-reservation.entity';
+
+/**
+ * Order Status Enum
+ * Represents the possible states of an order
+ */
+export enum OrderStatus {
+  COMPLETED = 'COMPLETED',
+  PARTIALLY_REFUNDED = 'PARTIALLY_REFUNDED',
+  REFUNDED = 'REFUNDED',
+}
+
+/**
+ * Order Item Properties
+ * A snapshot of one purchased ticket at the time of sale: a seat, or one
+ * of the tickets of a GA reservation
+ */
+export interface OrderItemProps {
+  readonly id: string;
+  readonly seatId: string | null;          // null for GA tickets
+  readonly gaReservationId: string | null; // Set for GA tickets
+  readonly eventId: string;
+  readonly seatNumber: string;             // Seat number, or "<zone name> #<n>" for GA tickets
+  readonly price: number;
+  readonly refundedAt: Date | null;
+  readonly refundReason: string | null;
+}
+
+/**
+ * Order Entity Properties
+ */
+export interface OrderProps {
+  readonly id: string;
+  readonly userId: string;
+  readonly status: OrderStatus;
+  readonly totalAmount: number;
+  readonly paymentReference: string | null; // Payment provider transaction ID
+  readonly items: readonly OrderItemProps[];
+  readonly createdAt: Date;
+}
+
+/**
+ * Order Domain Entity
+ *
+ * Immutable record of a purchase: who paid, how much, when,
+ * in which payment transaction, and for which seats or GA tickets.
+ * Item prices are copied from the seats (or the agreed resale price)
+ * so later price changes never alter what was paid.
+ *
+ * @example
+ * ```typescript
+ * const order = Order.create({
+ *   id: 'order-1',
+ *   userId: 'user-456',
+ *   seats: [soldSeat],
+ *   paymentReference: 'pi_123',
+ * });
+ * ```
+ */
+export class Order {
+  private constructor(private readonly props: OrderProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a completed order for the given seats
+   * @param params.prices - Price paid per seat ID when it differs from the seat's price (resale)
+   * @throws Error if no seats are given
+   */
+  static create(params: {
+    id: string;
+    userId: string;
+    seats: Seat[];
+    prices?: Readonly<Record<string, number>>;
+    paymentReference?: string | null;
+    createdAt?: Date;
+  }): Order {
+    if (params.seats.length === 0) {
+      throw new Error('Cannot create order: at least one seat is required');
+    }
+
+    const items: OrderItemProps[] = params.seats.map((seat, index) => ({
+      id: `${params.id}-${index + 1}`,
+      seatId: seat.id,
+      gaReservationId: null,
+      eventId: seat.eventId,
+      seatNumber: seat.seatNumber,
+      price: params.prices?.[seat.id] ?? seat.price,
+      refundedAt: null,
+      refundReason: null,
+    }));
+
+    return new Order({
+      id: params.id,
+      userId: params.userId,
+      status: OrderStatus.COMPLETED,
+      totalAmount: sumPrices(items),
+      paymentReference: params.paymentReference ?? null,
+      items,
+      createdAt: params.createdAt ?? new Date(),
+    });
+  }
+
+  /**
+   * Creates a completed order for a sold GA reservation, one item per ticket
+   * @param params.zoneName - Names the tickets ("Standing #1", "Standing #2", ...)
+   */
+  static createForGaReservation(params: {
+    id: string;
+    userId: string;
+    reservation: GaReservation;
+    zoneName: string;
+    paymentReference?: string | null;
+    createdAt?: Date;
+  }): Order {
+    const { reservation } = params;
+    const items: OrderItemProps[] = Array.from({ length: reservation.quantity }, (_, index) => ({
+      id: `${params.id}-${index + 1}`,
+      seatId: null,
+      gaReservationId: reservation.id,
+      eventId: reservation.eventId,
+      seatNumber: `${params.zoneName} #${index + 1}`,
+      price: reservation.unitPrice,
+      refundedAt: null,
+      refundReason: null,
+    }));
+
+    return new Order({
+      id: params.id,
+      userId: params.userId,
+      status: OrderStatus.COMPLETED,
+      totalAmount: sumPrices(items),
+      paymentReference: params.paymentReference ?? null,
+      items,
+      createdAt: params.createdAt ?? new Date(),
+    });
+  }
+
+  /**
+   * Reconstitutes an Order from persistence
+   */
+  static fromPersistence(props: OrderProps): Order {
+    return new Order(props);
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get userId(): string {
+    return this.props.userId;
+  }
+
+  get status(): OrderStatus {
+    return this.props.status;
+  }
+
+  get totalAmount(): number {
+    return this.props.totalAmount;
+  }
+
+  get paymentReference(): string | null {
+    return this.props.paymentReference;
+  }
+
+  get items(): readonly OrderItemProps[] {
+    return this.props.items;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  // ===========================================
+  // State Transition Methods (Return New Instance)
+  // ===========================================
+
+  /**
+   * Refunds the item for a seat
+   * @returns A NEW Order instance; status becomes REFUNDED once every item is refunded
+   * @throws Error if the seat is not part of the order or was already refunded
+   */
+  refundItem(seatId: string, reason: string | null = null, refundedAt: Date = new Date()): Order {
+    const item = this.findItem(seatId);
+    if (!item) {
+      throw new Error(`Cannot refund: seat ${seatId} is not part of order ${this.props.id}`);
+    }
+    if (item.refundedAt) {
+      throw new Error(`Cannot refund: seat ${seatId} was already refunded`);
+    }
+
+    return this.withItemsRefunded((current) => current.seatId === seatId, reason, refundedAt);
+  }
+
+  /**
+   * Refunds the items for the tickets of a GA reservation
+   * @returns A NEW Order instance; status becomes REFUNDED once every item is refunded
+   * @throws Error if the reservation has no unrefunded items in the order
+   */
+  refundGaReservation(reservationId: string, reason: string | null = null, refundedAt: Date = new Date()): Order {
+    if (!this.hasActiveGaReservation(reservationId)) {
+      throw new Error(`Cannot refund: GA reservation ${reservationId} has no unrefunded tickets in order ${this.props.id}`);
+    }
+
+    return this.withItemsRefunded(
+      (current) => current.gaReservationId === reservationId && current.refundedAt === null,
+      reason,
+      refundedAt
+    );
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  findItem(seatId: string): OrderItemProps | undefined {
+    return this.props.items.find((item) => item.seatId === seatId);
+  }
+
+  /**
+   * Checks whether the order holds a seat that has not been refunded
+   */
+  hasActiveItem(seatId: string): boolean {
+    const item = this.findItem(seatId);
+    return item !== undefined && item.refundedAt === null;
+  }
+
+  /**
+   * Checks whether the order holds tickets of a GA reservation that have not been refunded
+   */
+  hasActiveGaReservation(reservationId: string): boolean {
+    return this.props.items.some((item) => item.gaReservationId === reservationId && item.refundedAt === null);
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): OrderProps {
+    return { ...this.props, items: this.props.items.map((item) => ({ ...item })) };
+  }
+
+  /**
+   * Returns a new instance with the matching items refunded and the status updated
+   */
+  private withItemsRefunded(
+    matches: (item: OrderItemProps) => boolean,
+    reason: string | null,
+    refundedAt: Date
+  ): Order {
+    const items = this.props.items.map((current) =>
+      matches(current) ? { ...current, refundedAt, refundReason: reason } : current
+    );
+    const allRefunded = items.every((current) => current.refundedAt !== null);
+
+    return new Order({
+      ...this.props,
+      items,
+      status: allRefunded ? OrderStatus.REFUNDED : OrderStatus.PARTIALLY_REFUNDED,
+    });
+  }
+}
+
+/**
+ * Sums item prices in cents to avoid floating point drift
+ */
+function sumPrices(items: OrderItemProps[]): number {
+  const totalCents = items.reduce((sum, item) => sum + Math.round(item.price * 100), 0);
+  return totalCents / 100;
+}
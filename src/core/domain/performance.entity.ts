@@ -0,0 +1,122 @@
+/**
+ * Performance Properties
+ */
+export interface PerformanceProps {
+  readonly id: string;
+  readonly eventId: string;
+  readonly startsAt: Date;
+  readonly seatTemplateId: string | null; // Layout the seat inventory was generated from
+  readonly createdAt: Date;
+}
+
+/**
+ * Performance Domain Entity
+ *
+ * One showtime (session) of an event: a film screening, one night of a
+ * tour. Seats belong to a performance, so every showtime has its own
+ * inventory, while event-wide settings (price categories, resale cap,
+ * waiting room) stay on the event.
+ *
+ * @example
+ * ```typescript
+ * const performance = Performance.create({ id: 'perf-1', eventId: 'evt-1', startsAt: new Date('2026-03-01T20:00:00Z') });
+ * performance.hasStarted(); // false until the show begins
+ * ```
+ */
+export class Performance {
+  private constructor(private readonly props: PerformanceProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a new performance
+   * @throws Error if startsAt is not a valid date
+   */
+  static create(params: {
+    id: string;
+    eventId: string;
+    startsAt: Date;
+    seatTemplateId?: string | null;
+    now?: Date;
+  }): Performance {
+    if (Number.isNaN(params.startsAt.getTime())) {
+      throw new Error('Cannot create performance: startsAt is not a valid date');
+    }
+
+    return new Performance({
+      id: params.id,
+      eventId: params.eventId,
+      startsAt: params.startsAt,
+      seatTemplateId: params.seatTemplateId ?? null,
+      createdAt: params.now ?? new Date(),
+    });
+  }
+
+  /**
+   * Reconstitutes a Performance from persistence
+   */
+  static fromPersistence(props: PerformanceProps): Performance {
+    return new Performance(props);
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get eventId(): string {
+    return this.props.eventId;
+  }
+
+  get startsAt(): Date {
+    return this.props.startsAt;
+  }
+
+  get seatTemplateId(): string | null {
+    return this.props.seatTemplateId;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  // ===========================================
+  // Business Methods (State Transitions)
+  // ===========================================
+
+  /**
+   * Moves the showtime
+   * @returns New Performance instance starting at the given time
+   * @throws Error if startsAt is not a valid date
+   */
+  reschedule(startsAt: Date): Performance {
+    if (Number.isNaN(startsAt.getTime())) {
+      throw new Error('Cannot reschedule performance: startsAt is not a valid date');
+    }
+
+    return new Performance({ ...this.props, startsAt });
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  hasStarted(now: Date = new Date()): boolean {
+    return this.props.startsAt.getTime() <= now.getTime();
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): PerformanceProps {
+    return { ...this.props };
+  }
+}
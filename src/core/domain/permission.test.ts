@@ -0,0 +1,70 @@
+import { UserRole } from './user.entity';
+import { Permission, roleHasPermission, isStaffRole } from './permission';
+
+describe('Permissions', () => {
+  describe('roleHasPermission()', () => {
+    it('should grant admins every permission', () => {
+      for (const permission of Object.values(Permission)) {
+        expect(roleHasPermission(UserRole.ADMIN, permission)).toBe(true);
+      }
+    });
+
+    it('should grant customers no permission', () => {
+      for (const permission of Object.values(Permission)) {
+        expect(roleHasPermission(UserRole.CUSTOMER, permission)).toBe(false);
+      }
+    });
+
+    it('should let box office staff hold and refund seats only', () => {
+      expect(roleHasPermission(UserRole.BOX_OFFICE, Permission.SEATS_HOLD)).toBe(true);
+      expect(roleHasPermission(UserRole.BOX_OFFICE, Permission.SEATS_REFUND)).toBe(true);
+      expect(roleHasPermission(UserRole.BOX_OFFICE, Permission.EVENTS_CANCEL)).toBe(false);
+    });
+
+    it('should let organizers cancel events but not refund single seats', () => {
+      expect(roleHasPermission(UserRole.ORGANIZER, Permission.EVENTS_CANCEL)).toBe(true);
+      expect(roleHasPermission(UserRole.ORGANIZER, Permission.SEATS_REFUND)).toBe(false);
+    });
+
+    it('should keep managing the event catalogue to organizers and admins', () => {
+      const managers = Object.values(UserRole).filter((role) => roleHasPermission(role, Permission.EVENTS_MANAGE));
+
+      expect(managers).toEqual([UserRole.ADMIN, UserRole.ORGANIZER]);
+    });
+
+    it('should let support agents refund and read refund reports only', () => {
+      expect(roleHasPermission(UserRole.SUPPORT, Permission.SEATS_REFUND)).toBe(true);
+      expect(roleHasPermission(UserRole.SUPPORT, Permission.CANCELLATIONS_READ)).toBe(true);
+      expect(roleHasPermission(UserRole.SUPPORT, Permission.SEATS_HOLD)).toBe(false);
+    });
+
+    it('should let customer-facing staff read orders', () => {
+      const readers = Object.values(UserRole).filter((role) => roleHasPermission(role, Permission.ORDERS_READ));
+
+      expect(readers).toEqual([UserRole.ADMIN, UserRole.BOX_OFFICE, UserRole.SUPPORT]);
+    });
+
+    it('should keep role management to admins', () => {
+      const managers = Object.values(UserRole).filter((role) => roleHasPermission(role, Permission.USERS_MANAGE));
+
+      expect(managers).toEqual([UserRole.ADMIN]);
+    });
+
+    it('should keep partner API keys to admins', () => {
+      const managers = Object.values(UserRole).filter((role) => roleHasPermission(role, Permission.API_KEYS_MANAGE));
+
+      expect(managers).toEqual([UserRole.ADMIN]);
+    });
+
+    it('should grant nothing to an unknown role', () => {
+      expect(roleHasPermission('INTRUDER' as UserRole, Permission.SEATS_HOLD)).toBe(false);
+    });
+  });
+
+  describe('isStaffRole()', () => {
+    it('should tell staff from customers', () => {
+      expect(isStaffRole(UserRole.SUPPORT)).toBe(true);
+      expect(isStaffRole(UserRole.CUSTOMER)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { UserRole } from './user.entity';
+
+/**
+ * Permission Enum
+ *
+ * One permission per kind of back-office operation. Routes ask for a
+ * permission, never for a role, so roles can change without touching them.
+ */
+export enum Permission {
+  SEATS_HOLD = 'seats:hold',                       // Hold and unhold seats
+  SEATS_REFUND = 'seats:refund',                   // Refund a sold seat
+  PERFORMANCES_SCHEDULE = 'performances:schedule', // Add showtimes
+  EVENTS_MANAGE = 'events:manage',                 // Create, edit, reschedule and delete events
+  EVENTS_CANCEL = 'events:cancel',                 // Call an event off
+  CANCELLATIONS_READ = 'cancellations:read',       // Refund progress and failed refunds
+  ORDERS_READ = 'orders:read',                     // Any customer's orders
+  USERS_MANAGE = 'users:manage',                   // Assign roles
+  API_KEYS_MANAGE = 'api-keys:manage',             // Create and revoke partner API keys
+}
+
+/**
+ * What each role may do
+ *
+ * Admins may do everything; customers have no back-office access.
+ */
+export const ROLE_PERMISSIONS: Readonly<Record<UserRole, readonly Permission[]>> = {
+  [UserRole.CUSTOMER]: [],
+  [UserRole.ADMIN]: Object.values(Permission),
+  [UserRole.BOX_OFFICE]: [Permission.SEATS_HOLD, Permission.SEATS_REFUND, Permission.ORDERS_READ],
+  [UserRole.ORGANIZER]: [
+    Permission.SEATS_HOLD,
+    Permission.EVENTS_MANAGE,
+    Permission.PERFORMANCES_SCHEDULE,
+    Permission.EVENTS_CANCEL,
+    Permission.CANCELLATIONS_READ,
+  ],
+  [UserRole.SUPPORT]: [Permission.SEATS_REFUND, Permission.CANCELLATIONS_READ, Permission.ORDERS_READ],
+};
+
+/**
+ * Checks whether a role grants a permission (unknown roles grant nothing)
+ */
+export function roleHasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Checks whether a role has any back-office access
+ */
+export function isStaffRole(role: UserRole): boolean {
+  return (ROLE_PERMISSIONS[role]?.length ?? 0) > 0;
+}
@@ -0,0 +1,77 @@
+import { PresaleCode } from './presale-code.entity';
+import { Presale } from './presale.entity';
+
+describe('PresaleCode Entity', () => {
+  describe('create()', () => {
+    it('should normalize the code and make the full quota available', () => {
+      const code = PresaleCode.create({ id: 'code-1', presaleId: 'presale-1', code: '  fanclub-2026 ', ticketQuota: 4 });
+
+      expect(code.code).toBe('FANCLUB-2026');
+      expect(code.ticketsRemaining).toBe(4);
+      expect(code.uses).toBe(0);
+      expect(code.singleUse).toBe(false);
+    });
+
+    it('should reject a blank code', () => {
+      expect(() => PresaleCode.create({ id: 'code-1', presaleId: 'presale-1', code: '   ', ticketQuota: 4 })).toThrow(
+        'code must not be blank'
+      );
+    });
+
+    it('should reject a quota that is not a positive integer', () => {
+      expect(() => PresaleCode.create({ id: 'code-1', presaleId: 'presale-1', code: 'FAN', ticketQuota: 0 })).toThrow(
+        'ticketQuota must be a positive integer'
+      );
+    });
+  });
+
+  describe('canRedeem()', () => {
+    it('should allow redemptions up to the remaining quota', () => {
+      const code = PresaleCode.fromPersistence({
+        id: 'code-1',
+        presaleId: 'presale-1',
+        code: 'FAN',
+        singleUse: false,
+        ticketQuota: 4,
+        ticketsRemaining: 2,
+        uses: 1,
+      });
+
+      expect(code.canRedeem(2)).toBe(true);
+      expect(code.canRedeem(3)).toBe(false);
+    });
+
+    it('should allow a single-use code only once', () => {
+      const code = PresaleCode.fromPersistence({
+        id: 'code-1',
+        presaleId: 'presale-1',
+        code: 'VIP',
+        singleUse: true,
+        ticketQuota: 4,
+        ticketsRemaining: 3,
+        uses: 1,
+      });
+
+      expect(code.canRedeem(1)).toBe(false);
+    });
+  });
+});
+
+describe('Presale Entity', () => {
+  const startsAt = new Date('2026-03-01T10:00:00Z');
+  const endsAt = new Date('2026-03-02T10:00:00Z');
+
+  it('should be active from startsAt until endsAt', () => {
+    const presale = Presale.create({ id: 'presale-1', eventId: 'evt-1', name: 'Fan Club', startsAt, endsAt });
+
+    expect(presale.isActive(new Date(startsAt.getTime() - 1))).toBe(false);
+    expect(presale.isActive(startsAt)).toBe(true);
+    expect(presale.isActive(endsAt)).toBe(false);
+  });
+
+  it('should reject a window that ends before it starts', () => {
+    expect(() =>
+      Presale.create({ id: 'presale-1', eventId: 'evt-1', name: 'Fan Club', startsAt: endsAt, endsAt: startsAt })
+    ).toThrow('endsAt must be after startsAt');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Presale Code Properties
+ */
+export interface PresaleCodeProps {
+  readonly id: string;
+  readonly presaleId: string;
+  readonly code: string;             // Stored normalized (see PresaleCode.normalize)
+  readonly singleUse: boolean;       // Single-use codes unlock one lock request
+  readonly ticketQuota: number;      // Tickets the code can unlock in total
+  readonly ticketsRemaining: number; // Quota not yet redeemed
+  readonly uses: number;             // Lock requests that redeemed the code
+}
+
+/**
+ * Presale Code Domain Entity
+ *
+ * An access code of a presale's code pool. Each lock made during the
+ * presale redeems the code for the number of seats locked, until its
+ * ticket quota runs out; a single-use code can only be redeemed once.
+ *
+ * `ticketsRemaining` and `uses` are snapshots: they are only ever changed
+ * by the repository's atomic redeem/release operations.
+ *
+ * @example
+ * ```typescript
+ * const code = PresaleCode.create({ id: 'code-1', presaleId: 'presale-1', code: 'fanclub-2026', ticketQuota: 4 });
+ * code.code;            // "FANCLUB-2026"
+ * code.canRedeem(2);    // true
+ * ```
+ */
+export class PresaleCode {
+  private constructor(private readonly props: PresaleCodeProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a new code with its full quota available
+   * @throws Error if the code is blank or the quota is not a positive whole number
+   */
+  static create(params: {
+    id: string;
+    presaleId: string;
+    code: string;
+    singleUse?: boolean;
+    ticketQuota: number;
+  }): PresaleCode {
+    const code = PresaleCode.normalize(params.code);
+
+    if (code.length === 0) {
+      throw new Error('Cannot create presale code: code must not be blank');
+    }
+    if (!Number.isInteger(params.ticketQuota) || params.ticketQuota <= 0) {
+      throw new Error(`Cannot create presale code: ticketQuota must be a positive integer (got ${params.ticketQuota})`);
+    }
+
+    return new PresaleCode({
+      id: params.id,
+      presaleId: params.presaleId,
+      code,
+      singleUse: params.singleUse ?? false,
+      ticketQuota: params.ticketQuota,
+      ticketsRemaining: params.ticketQuota,
+      uses: 0,
+    });
+  }
+
+  /**
+   * Reconstitutes a PresaleCode from persistence
+   */
+  static fromPersistence(props: PresaleCodeProps): PresaleCode {
+    return new PresaleCode(props);
+  }
+
+  /**
+   * Codes are matched case-insensitively, ignoring surrounding whitespace
+   */
+  static normalize(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get presaleId(): string {
+    return this.props.presaleId;
+  }
+
+  get code(): string {
+    return this.props.code;
+  }
+
+  get singleUse(): boolean {
+    return this.props.singleUse;
+  }
+
+  get ticketQuota(): number {
+    return this.props.ticketQuota;
+  }
+
+  get ticketsRemaining(): number {
+    return this.props.ticketsRemaining;
+  }
+
+  get uses(): number {
+    return this.props.uses;
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  /**
+   * Checks whether `quantity` tickets could be unlocked with this snapshot
+   * (the repository's redeem is the authoritative check)
+   */
+  canRedeem(quantity: number): boolean {
+    if (this.props.singleUse && this.props.uses > 0) {
+      return false;
+    }
+    return this.props.ticketsRemaining >= quantity;
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): PresaleCodeProps {
+    return { ...this.props };
+  }
+}
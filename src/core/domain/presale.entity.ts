@@ -0,0 +1,93 @@
+/**
+ * Presale Properties
+ */
+export interface PresaleProps {
+  readonly id: string;
+  readonly eventId: string;
+  readonly name: string; // e.g. "Fan Club", "Card Partner"
+  readonly startsAt: Date;
+  readonly endsAt: Date;
+}
+
+/**
+ * Presale Domain Entity
+ *
+ * An early-access window before an event's general on-sale. While a
+ * presale is running, seats can only be locked with one of its access
+ * codes (see PresaleCode); an event can run several presales, each with
+ * its own code pool.
+ *
+ * @example
+ * ```typescript
+ * const presale = Presale.create({ id: 'presale-1', eventId: 'evt-1', name: 'Fan Club', startsAt, endsAt });
+ * presale.isActive(now);
+ * ```
+ */
+export class Presale {
+  private constructor(private readonly props: PresaleProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a new presale window
+   * @throws Error if endsAt is not after startsAt
+   */
+  static create(params: PresaleProps): Presale {
+    if (params.endsAt.getTime() <= params.startsAt.getTime()) {
+      throw new Error('Cannot create presale: endsAt must be after startsAt');
+    }
+
+    return new Presale({ ...params });
+  }
+
+  /**
+   * Reconstitutes a Presale from persistence
+   */
+  static fromPersistence(props: PresaleProps): Presale {
+    return new Presale(props);
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get eventId(): string {
+    return this.props.eventId;
+  }
+
+  get name(): string {
+    return this.props.name;
+  }
+
+  get startsAt(): Date {
+    return this.props.startsAt;
+  }
+
+  get endsAt(): Date {
+    return this.props.endsAt;
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  isActive(now: Date = new Date()): boolean {
+    return this.props.startsAt.getTime() <= now.getTime() && now.getTime() < this.props.endsAt.getTime();
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): PresaleProps {
+    return { ...this.props };
+  }
+}
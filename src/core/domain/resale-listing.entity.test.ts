@@ -0,0 +1,93 @@
+import { ResaleListing, ResaleListingStatus } from './resale-listing.entity';
+
+describe('ResaleListing Entity', () => {
+  const listing = (price = 120) =>
+    ResaleListing.create({
+      id: 'rl-1',
+      seatId: 'seat-1',
+      eventId: 'event-1',
+      sellerId: 'seller',
+      price,
+    });
+
+  describe('lock()', () => {
+    it('should hold the listing for the buyer', () => {
+      const now = new Date();
+      const locked = listing().lock('buyer', 60_000, now);
+
+      expect(locked.isLockedBy('buyer', now)).toBe(true);
+      expect(locked.lockExpiresAt).toEqual(new Date(now.getTime() + 60_000));
+      expect(locked.version).toBe(2);
+    });
+
+    it('should not let a second buyer take a held listing', () => {
+      expect(() => listing().lock('buyer').lock('other')).toThrow(
+        'Cannot lock listing: it is held by another buyer'
+      );
+    });
+
+    it('should let a second buyer take over a lapsed lock', () => {
+      const now = new Date();
+      const lapsed = listing().lock('buyer', 1_000, new Date(now.getTime() - 2_000));
+
+      expect(lapsed.lock('other', 60_000, now).isLockedBy('other', now)).toBe(true);
+    });
+
+    it('should not let the seller buy their own ticket', () => {
+      expect(() => listing().lock('seller')).toThrow('the seller cannot buy their own ticket');
+    });
+  });
+
+  describe('sell()', () => {
+    it('should record the platform fee and seller payout', () => {
+      const sold = listing(99.99).lock('buyer').sell(10);
+
+      expect(sold.status).toBe(ResaleListingStatus.SOLD);
+      expect(sold.platformFee).toBe(10);
+      expect(sold.sellerPayout).toBe(89.99);
+      expect(sold.buyerId).toBe('buyer');
+      expect(sold.soldAt).not.toBeNull();
+    });
+
+    it('should not sell once the lock has expired', () => {
+      const now = new Date();
+      const locked = listing().lock('buyer', 1_000, now);
+
+      expect(() => locked.sell(10, new Date(now.getTime() + 1_000))).toThrow(
+        'Cannot sell listing: lock has expired'
+      );
+    });
+
+    it('should not sell a listing nobody has locked', () => {
+      expect(() => listing().sell(10)).toThrow('Cannot sell listing: it is not locked');
+    });
+  });
+
+  describe('release()', () => {
+    it('should put the listing back on sale', () => {
+      const released = listing().lock('buyer').release();
+
+      expect(released.isLocked()).toBe(false);
+      expect(released.buyerId).toBeNull();
+      expect(released.isActive()).toBe(true);
+    });
+  });
+
+  describe('cancel()', () => {
+    it('should not cancel a sold listing', () => {
+      expect(() => listing().lock('buyer').sell(10).cancel()).toThrow(
+        'Cannot cancel listing: current status is SOLD'
+      );
+    });
+  });
+
+  describe('Immutability', () => {
+    it('should not change the original instance', () => {
+      const original = listing();
+      original.lock('buyer');
+
+      expect(original.buyerId).toBeNull();
+      expect(Object.isFrozen(original)).toBe(true);
+    });
+  });
+});
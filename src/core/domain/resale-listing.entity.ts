@@ -0,0 +1,280 @@
+import { DEFAULT_LOCK_DURATION_MS } from './seat.entity';
+
+/**
+ * Resale Listing Status Enum
+ * Represents the possible states of a resale listing
+ */
+export enum ResaleListingStatus {
+  ACTIVE = 'ACTIVE',       // On sale (a buyer may hold it until lockExpiresAt)
+  SOLD = 'SOLD',           // Bought; the seat now belongs to the buyer
+  CANCELLED = 'CANCELLED', // Withdrawn by the seller
+}
+
+/**
+ * Resale Listing Properties
+ */
+export interface ResaleListingProps {
+  readonly id: string;
+  readonly seatId: string;
+  readonly eventId: string;
+  readonly sellerId: string;
+  readonly price: number;               // Asking price (within the event's resale cap)
+  readonly status: ResaleListingStatus;
+  readonly buyerId: string | null;      // Buyer holding the checkout lock, then the buyer
+  readonly lockExpiresAt: Date | null;  // Set while a buyer holds the listing
+  readonly platformFee: number | null;  // Set when SOLD
+  readonly sellerPayout: number | null; // price - platformFee, set when SOLD
+  readonly version: number;             // For optimistic locking
+  readonly createdAt: Date;
+  readonly soldAt: Date | null;
+}
+
+/**
+ * Resale Listing Domain Entity
+ *
+ * A sold ticket offered by its owner to other fans. The seat stays SOLD
+ * and owned by the seller until a buyer completes the purchase; a buyer
+ * checking out holds the listing with a time-boxed lock, like a seat lock.
+ *
+ * Like Seat, this entity is IMMUTABLE: every transition returns a new instance.
+ *
+ * @example
+ * ```typescript
+ * const listing = ResaleListing.create({ id: 'rl-1', seatId: 'seat-1', eventId: 'event-1', sellerId: 'user-1', price: 120 });
+ * const held = listing.lock('user-2');
+ * const sold = held.sell(10); // 10% platform fee → sellerPayout 108
+ * ```
+ */
+export class ResaleListing {
+  private constructor(private readonly props: ResaleListingProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a new ACTIVE listing
+   */
+  static create(params: {
+    id: string;
+    seatId: string;
+    eventId: string;
+    sellerId: string;
+    price: number;
+    createdAt?: Date;
+  }): ResaleListing {
+    return new ResaleListing({
+      id: params.id,
+      seatId: params.seatId,
+      eventId: params.eventId,
+      sellerId: params.sellerId,
+      price: params.price,
+      status: ResaleListingStatus.ACTIVE,
+      buyerId: null,
+      lockExpiresAt: null,
+      platformFee: null,
+      sellerPayout: null,
+      version: 1,
+      createdAt: params.createdAt ?? new Date(),
+      soldAt: null,
+    });
+  }
+
+  /**
+   * Reconstitutes a ResaleListing from persistence
+   */
+  static fromPersistence(props: ResaleListingProps): ResaleListing {
+    return new ResaleListing(props);
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get seatId(): string {
+    return this.props.seatId;
+  }
+
+  get eventId(): string {
+    return this.props.eventId;
+  }
+
+  get sellerId(): string {
+    return this.props.sellerId;
+  }
+
+  get price(): number {
+    return this.props.price;
+  }
+
+  get status(): ResaleListingStatus {
+    return this.props.status;
+  }
+
+  get buyerId(): string | null {
+    return this.props.buyerId;
+  }
+
+  get lockExpiresAt(): Date | null {
+    return this.props.lockExpiresAt;
+  }
+
+  get platformFee(): number | null {
+    return this.props.platformFee;
+  }
+
+  get sellerPayout(): number | null {
+    return this.props.sellerPayout;
+  }
+
+  get version(): number {
+    return this.props.version;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get soldAt(): Date | null {
+    return this.props.soldAt;
+  }
+
+  // ===========================================
+  // State Transition Methods (Return New Instance)
+  // ===========================================
+
+  /**
+   * Holds the listing for a buyer during checkout
+   * (a lapsed lock from another buyer is simply taken over)
+   * @returns A NEW ResaleListing instance locked by `buyerId`
+   * @throws Error if the listing is not ACTIVE, is held by someone else, or the buyer is the seller
+   */
+  lock(buyerId: string, lockDurationMs: number = DEFAULT_LOCK_DURATION_MS, now: Date = new Date()): ResaleListing {
+    if (this.props.status !== ResaleListingStatus.ACTIVE) {
+      throw new Error(`Cannot lock listing: current status is ${this.props.status}`);
+    }
+    if (this.isLocked(now)) {
+      throw new Error('Cannot lock listing: it is held by another buyer');
+    }
+    if (buyerId === this.props.sellerId) {
+      throw new Error('Cannot lock listing: the seller cannot buy their own ticket');
+    }
+
+    return this.transition({
+      buyerId,
+      lockExpiresAt: new Date(now.getTime() + lockDurationMs),
+    });
+  }
+
+  /**
+   * Lets go of the buyer's lock (checkout cancelled)
+   * @returns A NEW ResaleListing instance that is on sale again
+   * @throws Error if the listing is not ACTIVE or not locked
+   */
+  release(): ResaleListing {
+    if (this.props.status !== ResaleListingStatus.ACTIVE || this.props.buyerId === null) {
+      throw new Error(`Cannot release listing: it is not locked (status ${this.props.status})`);
+    }
+
+    return this.transition({ buyerId: null, lockExpiresAt: null });
+  }
+
+  /**
+   * Completes the sale to the buyer holding the lock and records the payout
+   * @param platformFeePercent - Share of the price kept by the platform (e.g. 10 for 10%)
+   * @returns A NEW ResaleListing instance with SOLD status
+   * @throws Error if the listing is not locked by a buyer or the lock has expired
+   */
+  sell(platformFeePercent: number, now: Date = new Date()): ResaleListing {
+    if (this.props.status !== ResaleListingStatus.ACTIVE || this.props.buyerId === null) {
+      throw new Error(`Cannot sell listing: it is not locked (status ${this.props.status})`);
+    }
+    if (this.isLockExpired(now)) {
+      throw new Error('Cannot sell listing: lock has expired');
+    }
+
+    // Work in cents to avoid floating point drift
+    const priceCents = Math.round(this.props.price * 100);
+    const feeCents = Math.round((priceCents * platformFeePercent) / 100);
+
+    return this.transition({
+      status: ResaleListingStatus.SOLD,
+      lockExpiresAt: null,
+      platformFee: feeCents / 100,
+      sellerPayout: (priceCents - feeCents) / 100,
+      soldAt: now,
+    });
+  }
+
+  /**
+   * Withdraws the listing
+   * @returns A NEW ResaleListing instance with CANCELLED status
+   * @throws Error if the listing is not ACTIVE
+   */
+  cancel(): ResaleListing {
+    if (this.props.status !== ResaleListingStatus.ACTIVE) {
+      throw new Error(`Cannot cancel listing: current status is ${this.props.status}`);
+    }
+
+    return this.transition({
+      status: ResaleListingStatus.CANCELLED,
+      buyerId: null,
+      lockExpiresAt: null,
+    });
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  isActive(): boolean {
+    return this.props.status === ResaleListingStatus.ACTIVE;
+  }
+
+  /**
+   * Checks whether a buyer currently holds the listing
+   */
+  isLocked(now: Date = new Date()): boolean {
+    return this.isActive() && this.props.buyerId !== null && !this.isLockExpired(now);
+  }
+
+  isLockedBy(buyerId: string, now: Date = new Date()): boolean {
+    return this.isLocked(now) && this.props.buyerId === buyerId;
+  }
+
+  /**
+   * Checks whether the buyer's lock has run out
+   */
+  isLockExpired(now: Date = new Date()): boolean {
+    return this.props.lockExpiresAt !== null && this.props.lockExpiresAt.getTime() <= now.getTime();
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): ResaleListingProps {
+    return { ...this.props };
+  }
+
+  /**
+   * Returns a new instance with the given changes and the version incremented
+   */
+  private transition(
+    changes: Partial<
+      Pick<ResaleListingProps, 'status' | 'buyerId' | 'lockExpiresAt' | 'platformFee' | 'sellerPayout' | 'soldAt'>
+    >
+  ): ResaleListing {
+    return new ResaleListing({
+      ...this.props,
+      ...changes,
+      version: this.props.version + 1,
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import { SalesWindow, EventStatus } from './sales-window.entity';
+
+describe('SalesWindow Entity', () => {
+  const now = new Date('2026-03-01T10:00:00Z');
+  const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+  describe('create()', () => {
+    it('should default to an open-ended window', () => {
+      const window = SalesWindow.create({ eventId: 'evt-1', status: EventStatus.ON_SALE });
+
+      expect(window.salesStartAt).toBeNull();
+      expect(window.salesEndAt).toBeNull();
+      expect(window.isOpen(now)).toBe(true);
+    });
+
+    it('should reject a window that ends before it starts', () => {
+      expect(() =>
+        SalesWindow.create({
+          eventId: 'evt-1',
+          status: EventStatus.SCHEDULED,
+          salesStartAt: hoursFromNow(2),
+          salesEndAt: hoursFromNow(1),
+        })
+      ).toThrow('salesEndAt must be after salesStartAt');
+    });
+  });
+
+  describe('statusAt()', () => {
+    it('should put a scheduled event on sale once the window opens', () => {
+      const window = SalesWindow.create({ eventId: 'evt-1', status: EventStatus.SCHEDULED, salesStartAt: hoursFromNow(1) });
+
+      expect(window.statusAt(now)).toBe(EventStatus.SCHEDULED);
+      expect(window.isUpcoming(now)).toBe(true);
+      expect(window.statusAt(hoursFromNow(1))).toBe(EventStatus.ON_SALE);
+      expect(window.isOpen(hoursFromNow(1))).toBe(true);
+    });
+
+    it('should keep a scheduled event without an on-sale date off sale', () => {
+      const window = SalesWindow.create({ eventId: 'evt-1', status: EventStatus.SCHEDULED });
+
+      expect(window.statusAt(now)).toBe(EventStatus.SCHEDULED);
+      expect(window.isUpcoming(now)).toBe(false);
+      expect(window.isOpen(now)).toBe(false);
+    });
+
+    it('should hold an on-sale event back until salesStartAt', () => {
+      const window = SalesWindow.create({ eventId: 'evt-1', status: EventStatus.ON_SALE, salesStartAt: hoursFromNow(1) });
+
+      expect(window.statusAt(now)).toBe(EventStatus.SCHEDULED);
+      expect(window.isOpen(now)).toBe(false);
+    });
+
+    it('should close sales at salesEndAt', () => {
+      const window = SalesWindow.create({ eventId: 'evt-1', status: EventStatus.SOLD_OUT, salesEndAt: hoursFromNow(1) });
+
+      expect(window.isOpen(now)).toBe(true);
+      expect(window.statusAt(hoursFromNow(1))).toBe(EventStatus.CLOSED);
+      expect(window.isOpen(hoursFromNow(1))).toBe(false);
+    });
+
+    it.each([EventStatus.DRAFT, EventStatus.CLOSED, EventStatus.CANCELLED])(
+      'should never open a %s event',
+      (status) => {
+        const window = SalesWindow.create({ eventId: 'evt-1', status, salesStartAt: hoursFromNow(-1) });
+
+        expect(window.statusAt(now)).toBe(status);
+        expect(window.isOpen(now)).toBe(false);
+      }
+    );
+  });
+
+  describe('cancel()', () => {
+    it('should close an event on sale for good', () => {
+      const window = SalesWindow.create({ eventId: 'evt-1', status: EventStatus.ON_SALE });
+      const cancelled = window.cancel();
+
+      expect(cancelled.status).toBe(EventStatus.CANCELLED);
+      expect(cancelled.isOpen(now)).toBe(false);
+      expect(window.status).toBe(EventStatus.ON_SALE);
+    });
+
+    it('should reject cancelling twice', () => {
+      const window = SalesWindow.create({ eventId: 'evt-1', status: EventStatus.CANCELLED });
+
+      expect(() => window.cancel()).toThrow('already cancelled');
+    });
+  });
+
+  describe('isListed()', () => {
+    it('should hide drafts only', () => {
+      expect(SalesWindow.create({ eventId: 'evt-1', status: EventStatus.DRAFT }).isListed()).toBe(false);
+      expect(SalesWindow.create({ eventId: 'evt-1', status: EventStatus.CANCELLED }).isListed()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Event Status Enum
+ * Represents the lifecycle of an event as set by its organizer
+ */
+export enum EventStatus {
+  DRAFT = 'DRAFT',         // Being set up; not listed, not on sale
+  SCHEDULED = 'SCHEDULED', // Announced; goes on sale at salesStartAt
+  ON_SALE = 'ON_SALE',     // Tickets can be bought (within the sales window)
+  SOLD_OUT = 'SOLD_OUT',   // Still on sale, so seats freed by lapsed locks or refunds sell again
+  CLOSED = 'CLOSED',       // Sales ended
+  CANCELLED = 'CANCELLED', // Show is off
+}
+
+/**
+ * Sales Window Properties
+ */
+export interface SalesWindowProps {
+  readonly eventId: string;
+  readonly status: EventStatus;
+  readonly salesStartAt: Date | null; // null = no scheduled on-sale (ON_SALE events sell right away)
+  readonly salesEndAt: Date | null;   // null = sales run until the event is closed
+}
+
+/**
+ * Sales Window Domain Entity
+ *
+ * When an event can be bought: its lifecycle status plus the on-sale
+ * window. The stored status only moves on organizer action; the window
+ * moves it in time, so a SCHEDULED event is on sale from salesStartAt and
+ * any event on sale is CLOSED from salesEndAt without a job flipping rows.
+ *
+ * @example
+ * ```typescript
+ * const window = SalesWindow.create({ eventId: 'evt-1', status: EventStatus.SCHEDULED, salesStartAt: opensAt });
+ * window.statusAt(now); // SCHEDULED before opensAt, ON_SALE after
+ * window.isOpen(now);
+ * ```
+ */
+export class SalesWindow {
+  private constructor(private readonly props: SalesWindowProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a sales window
+   * @throws Error if salesEndAt is not after salesStartAt
+   */
+  static create(params: {
+    eventId: string;
+    status: EventStatus;
+    salesStartAt?: Date | null;
+    salesEndAt?: Date | null;
+  }): SalesWindow {
+    const salesStartAt = params.salesStartAt ?? null;
+    const salesEndAt = params.salesEndAt ?? null;
+
+    if (salesStartAt && salesEndAt && salesEndAt.getTime() <= salesStartAt.getTime()) {
+      throw new Error('Cannot create sales window: salesEndAt must be after salesStartAt');
+    }
+
+    return new SalesWindow({ eventId: params.eventId, status: params.status, salesStartAt, salesEndAt });
+  }
+
+  /**
+   * Reconstitutes a SalesWindow from persistence
+   */
+  static fromPersistence(props: SalesWindowProps): SalesWindow {
+    return new SalesWindow(props);
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get eventId(): string {
+    return this.props.eventId;
+  }
+
+  get status(): EventStatus {
+    return this.props.status;
+  }
+
+  get salesStartAt(): Date | null {
+    return this.props.salesStartAt;
+  }
+
+  get salesEndAt(): Date | null {
+    return this.props.salesEndAt;
+  }
+
+  // ===========================================
+  // Business Methods (State Transitions)
+  // ===========================================
+
+  /**
+   * Calls the show off; the event stays listed but never opens again
+   * @returns A NEW SalesWindow instance with CANCELLED status
+   * @throws Error if the event is already cancelled
+   */
+  cancel(): SalesWindow {
+    if (this.props.status === EventStatus.CANCELLED) {
+      throw new Error('Cannot cancel event: it is already cancelled');
+    }
+
+    return new SalesWindow({ ...this.props, status: EventStatus.CANCELLED });
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  /**
+   * The status at a point in time, with the sales window applied
+   */
+  statusAt(now: Date = new Date()): EventStatus {
+    const { status, salesStartAt, salesEndAt } = this.props;
+
+    if (status !== EventStatus.SCHEDULED && status !== EventStatus.ON_SALE && status !== EventStatus.SOLD_OUT) {
+      return status;
+    }
+
+    if (salesEndAt && salesEndAt.getTime() <= now.getTime()) {
+      return EventStatus.CLOSED;
+    }
+
+    if (salesStartAt && salesStartAt.getTime() > now.getTime()) {
+      return EventStatus.SCHEDULED;
+    }
+
+    // A scheduled event without an on-sale date stays announced only
+    if (status === EventStatus.SCHEDULED) {
+      return salesStartAt ? EventStatus.ON_SALE : EventStatus.SCHEDULED;
+    }
+
+    return status;
+  }
+
+  /**
+   * Checks whether tickets can be locked right now
+   */
+  isOpen(now: Date = new Date()): boolean {
+    const status = this.statusAt(now);
+    return status === EventStatus.ON_SALE || status === EventStatus.SOLD_OUT;
+  }
+
+  /**
+   * Checks whether the event goes on sale at a known time in the future
+   */
+  isUpcoming(now: Date = new Date()): boolean {
+    return this.statusAt(now) === EventStatus.SCHEDULED && this.props.salesStartAt !== null;
+  }
+
+  /**
+   * Drafts are hidden from buyers
+   */
+  isListed(): boolean {
+    return this.props.status !== EventStatus.DRAFT;
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): SalesWindowProps {
+    return { ...this.props };
+  }
+}
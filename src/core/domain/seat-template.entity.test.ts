@@ -0,0 +1,92 @@
+import { SeatTemplate, SeatTemplateSeat } from './seat-template.entity';
+import { SeatStatus } from './seat.entity';
+
+describe('SeatTemplate Entity', () => {
+  const templateSeat = (seatNumber: string, priceCategoryName: string | null = null): SeatTemplateSeat => ({
+    seatNumber,
+    section: 'Floor',
+    row: seatNumber.charAt(0),
+    number: Number(seatNumber.slice(2)),
+    price: 20,
+    priceCategoryName,
+  });
+
+  const template = (seats: SeatTemplateSeat[] = [templateSeat('A-1', 'VIP'), templateSeat('B-1')]) =>
+    SeatTemplate.create({ id: 'tpl-1', name: 'Hall 1', seats });
+
+  const performance = { id: 'perf-1', eventId: 'event-1' };
+  const priceCategories = [{ id: 'cat-vip', name: 'VIP', price: 150 }];
+
+  describe('create()', () => {
+    it('should reject a template without seats', () => {
+      expect(() => template([])).toThrow('it has no seats');
+    });
+
+    it('should reject duplicate seat numbers', () => {
+      expect(() => template([templateSeat('A-1'), templateSeat('A-1')])).toThrow('seat numbers must be unique');
+    });
+  });
+
+  describe('forCapacity()', () => {
+    it('should lay out the seats row by row at one price', () => {
+      const layout = SeatTemplate.forCapacity({ id: 'tpl-2', name: 'Club', capacity: 5, price: 30, seatsPerRow: 2 });
+
+      expect(layout.seats.map((seat) => seat.seatNumber)).toEqual(['A-1', 'A-2', 'B-1', 'B-2', 'C-1']);
+      expect(layout.seats[2]).toMatchObject({ row: 'B', number: 1, price: 30, priceCategoryName: null });
+    });
+
+    it('should continue with double letters after row Z', () => {
+      const layout = SeatTemplate.forCapacity({ id: 'tpl-2', name: 'Arena', capacity: 28, price: 30, seatsPerRow: 1 });
+
+      expect(layout.seats.slice(25).map((seat) => seat.row)).toEqual(['Z', 'AA', 'AB']);
+    });
+
+    it('should reject a capacity that is not a positive integer', () => {
+      expect(() => SeatTemplate.forCapacity({ id: 'tpl-2', name: 'Club', capacity: 0, price: 30 })).toThrow(
+        'capacity must be a positive integer'
+      );
+    });
+  });
+
+  describe('generateSeats()', () => {
+    it('should create an available seat for every position, bound to the performance', () => {
+      const seats = template().generateSeats({ performance, priceCategories });
+
+      expect(seats.map((seat) => seat.seatNumber)).toEqual(['A-1', 'B-1']);
+      seats.forEach((seat) => {
+        expect(seat.status).toBe(SeatStatus.AVAILABLE);
+        expect(seat.eventId).toBe('event-1');
+        expect(seat.performanceId).toBe('perf-1');
+        expect(seat.version).toBe(1);
+      });
+    });
+
+    it('should price seats from the event price category, or the template otherwise', () => {
+      const [vip, plain] = template().generateSeats({ performance, priceCategories });
+
+      expect(vip.priceCategory).toEqual({ id: 'cat-vip', name: 'VIP' });
+      expect(vip.price).toBe(150);
+      expect(plain.priceCategory).toBeNull();
+      expect(plain.price).toBe(20);
+    });
+
+    it('should give every generated seat a new id', () => {
+      const first = template().generateSeats({ performance, priceCategories });
+      const second = template().generateSeats({ performance: { ...performance, id: 'perf-2' }, priceCategories });
+
+      const ids = new Set([...first, ...second].map((seat) => seat.id));
+      expect(ids.size).toBe(4);
+    });
+
+    it('should fail on a price category the event does not have', () => {
+      expect(() => template().generateSeats({ performance, priceCategories: [] })).toThrow(
+        'unknown price category "VIP"'
+      );
+    });
+  });
+
+  it('should list the price categories its seats refer to', () => {
+    expect(template([templateSeat('A-1', 'VIP'), templateSeat('A-2', 'VIP'), templateSeat('B-1')]).priceCategoryNames)
+      .toEqual(['VIP']);
+  });
+});
@@ -0,0 +1,200 @@
+import { randomUUID } from 'crypto';
+import { Seat, SeatPriceCategory } from './seat.entity';
+
+/**
+ * One seat position in a template
+ */
+export interface SeatTemplateSeat {
+  readonly seatNumber: string;                // Display label, e.g. "A-1"
+  readonly section: string | null;
+  readonly row: string | null;
+  readonly number: number | null;
+  readonly price: number;                     // Used when the seat has no price category
+  readonly priceCategoryName: string | null;  // Resolved against the event's price categories
+}
+
+/**
+ * Row length of layouts generated from a capacity (see SeatTemplate.forCapacity)
+ */
+export const DEFAULT_SEATS_PER_ROW = 20;
+
+/**
+ * Spreadsheet-style row label: 0 → A, 25 → Z, 26 → AA, 27 → AB
+ */
+function rowLabel(index: number): string {
+  const letter = String.fromCharCode(65 + (index % 26));
+  return index < 26 ? letter : rowLabel(Math.floor(index / 26) - 1) + letter;
+}
+
+/**
+ * Seat Template Properties
+ */
+export interface SeatTemplateProps {
+  readonly id: string;
+  readonly name: string; // e.g. "IMAX Hall 1"
+  readonly seats: readonly SeatTemplateSeat[];
+}
+
+/**
+ * Seat Template Domain Entity
+ *
+ * A reusable venue layout. Each performance gets its own seat inventory
+ * generated from a template, so a film with 30 screenings or a tour with
+ * one night per city doesn't need its seats defined 30 times.
+ *
+ * Templates are venue-level and don't know any event: seats refer to a
+ * price category by name, which is resolved against the event's price
+ * table when the seats are generated.
+ *
+ * @example
+ * ```typescript
+ * const seats = template.generateSeats({ performance, priceCategories });
+ * await performanceRepository.createWithSeats(performance, seats);
+ * ```
+ */
+export class SeatTemplate {
+  private constructor(private readonly props: SeatTemplateProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a new template
+   * @throws Error if the template has no seats or repeats a seat number
+   */
+  static create(params: SeatTemplateProps): SeatTemplate {
+    if (params.seats.length === 0) {
+      throw new Error('Cannot create seat template: it has no seats');
+    }
+
+    const seatNumbers = new Set(params.seats.map((seat) => seat.seatNumber));
+    if (seatNumbers.size !== params.seats.length) {
+      throw new Error('Cannot create seat template: seat numbers must be unique');
+    }
+
+    return new SeatTemplate({ ...params, seats: [...params.seats] });
+  }
+
+  /**
+   * Creates a plain layout for a venue without one: `capacity` seats at
+   * one price, in rows of `seatsPerRow` (A-1 … A-20, B-1 …, then AA-1
+   * after row Z)
+   * @throws Error if capacity or seatsPerRow is not a positive integer, or the price is negative
+   */
+  static forCapacity(params: {
+    id: string;
+    name: string;
+    capacity: number;
+    price: number;
+    seatsPerRow?: number;
+  }): SeatTemplate {
+    const seatsPerRow = params.seatsPerRow ?? DEFAULT_SEATS_PER_ROW;
+
+    if (!Number.isInteger(params.capacity) || params.capacity <= 0) {
+      throw new Error(`Cannot create seat template: capacity must be a positive integer (got ${params.capacity})`);
+    }
+    if (!Number.isInteger(seatsPerRow) || seatsPerRow <= 0) {
+      throw new Error(`Cannot create seat template: seatsPerRow must be a positive integer (got ${seatsPerRow})`);
+    }
+    if (params.price < 0) {
+      throw new Error(`Cannot create seat template: price must not be negative (got ${params.price})`);
+    }
+
+    const seats = Array.from({ length: params.capacity }, (_, index): SeatTemplateSeat => {
+      const row = rowLabel(Math.floor(index / seatsPerRow));
+      const number = (index % seatsPerRow) + 1;
+      return { seatNumber: `${row}-${number}`, section: null, row, number, price: params.price, priceCategoryName: null };
+    });
+
+    return SeatTemplate.create({ id: params.id, name: params.name, seats });
+  }
+
+  /**
+   * Reconstitutes a SeatTemplate from persistence
+   */
+  static fromPersistence(props: SeatTemplateProps): SeatTemplate {
+    return new SeatTemplate(props);
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get name(): string {
+    return this.props.name;
+  }
+
+  get seats(): readonly SeatTemplateSeat[] {
+    return this.props.seats;
+  }
+
+  get capacity(): number {
+    return this.props.seats.length;
+  }
+
+  /**
+   * Names of the price categories the template's seats refer to
+   */
+  get priceCategoryNames(): string[] {
+    const names = this.props.seats
+      .map((seat) => seat.priceCategoryName)
+      .filter((name): name is string => name !== null);
+    return Array.from(new Set(names));
+  }
+
+  // ===========================================
+  // Seat Generation
+  // ===========================================
+
+  /**
+   * Generates a fresh AVAILABLE seat for every position of the template
+   *
+   * @param priceCategories - The event's price table; seats in a category take its price
+   * @throws Error if a seat refers to a price category the event doesn't have
+   */
+  generateSeats(params: {
+    performance: { id: string; eventId: string };
+    priceCategories: ReadonlyArray<SeatPriceCategory & { price: number }>;
+    generateId?: () => string;
+  }): Seat[] {
+    const categoriesByName = new Map(params.priceCategories.map((category) => [category.name, category]));
+    const generateId = params.generateId ?? randomUUID;
+
+    return this.props.seats.map((templateSeat) => {
+      const category = templateSeat.priceCategoryName
+        ? categoriesByName.get(templateSeat.priceCategoryName)
+        : null;
+
+      if (category === undefined) {
+        throw new Error(`Cannot generate seats: unknown price category "${templateSeat.priceCategoryName}"`);
+      }
+
+      return Seat.create({
+        id: generateId(),
+        eventId: params.performance.eventId,
+        performanceId: params.performance.id,
+        seatNumber: templateSeat.seatNumber,
+        price: category ? category.price : templateSeat.price,
+        section: templateSeat.section,
+        row: templateSeat.row,
+        number: templateSeat.number,
+        priceCategory: category ? { id: category.id, name: category.name } : null,
+      });
+    });
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): SeatTemplateProps {
+    return { ...this.props };
+  }
+}
@@ -4,6 +4,7 @@ describe('Seat Entity', () => {
   const defaultParams = {
     id: 'seat-123',
     eventId: 'event-456',
+    performanceId: 'perf-789',
     seatNumber: 'A1',
     price: 99.99,
   };
@@ -19,6 +20,24 @@ describe('Seat Entity', () => {
       expect(seat.status).toBe(SeatStatus.AVAILABLE);
       expect(seat.userId).toBeNull();
       expect(seat.version).toBe(1);
+      expect(seat.lockExpiresAt).toBeNull();
+      expect(seat.section).toBeNull();
+      expect(seat.priceCategory).toBeNull();
+    });
+
+    it('should create a seat with its section, row and price category', () => {
+      const seat = Seat.create({
+        ...defaultParams,
+        section: 'Balcony',
+        row: 'C',
+        number: 12,
+        priceCategory: { id: 'cat-b', name: 'Category B' },
+      });
+
+      expect(seat.section).toBe('Balcony');
+      expect(seat.row).toBe('C');
+      expect(seat.number).toBe(12);
+      expect(seat.priceCategory?.name).toBe('Category B');
     });
   });
 
@@ -123,6 +142,143 @@ describe('Seat Entity', () => {
     });
   });
 
+  describe('Lock Expiry', () => {
+    const expiredLock = () =>
+      Seat.fromPersistence({
+        ...Seat.create(defaultParams).toJSON(),
+        status: SeatStatus.LOCKED,
+        userId: 'user-1',
+        version: 2,
+        lockExpiresAt: new Date(Date.now() - 1000),
+      });
+
+    it('should set the lock expiry when locked', () => {
+      const before = Date.now();
+      const locked = Seat.create(defaultParams).lock('user-1', 60_000);
+
+      expect(locked.lockExpiresAt).not.toBeNull();
+      expect(locked.lockExpiresAt!.getTime()).toBeGreaterThanOrEqual(before + 60_000);
+      expect(locked.isLockExpired()).toBe(false);
+    });
+
+    it('should clear the lock expiry when sold or released', () => {
+      const locked = Seat.create(defaultParams).lock('user-1');
+
+      expect(locked.sell().lockExpiresAt).toBeNull();
+      expect(locked.release().lockExpiresAt).toBeNull();
+    });
+
+    it('should report an expired lock', () => {
+      expect(expiredLock().isLockExpired()).toBe(true);
+    });
+
+    it('should not allow selling a seat whose lock expired', () => {
+      expect(() => expiredLock().sell()).toThrow('Cannot sell seat: lock has expired');
+    });
+
+    it('should allow releasing a seat whose lock expired', () => {
+      const released = expiredLock().release();
+
+      expect(released.status).toBe(SeatStatus.AVAILABLE);
+      expect(released.userId).toBeNull();
+    });
+
+    it('should extend a lock and count the extension', () => {
+      const now = new Date();
+      const locked = Seat.create(defaultParams).lock('user-1', 60_000);
+
+      const extended = locked.extendLock(10 * 60_000, now);
+
+      expect(extended.lockExpiresAt!.getTime()).toBe(now.getTime() + 10 * 60_000);
+      expect(extended.lockExtensions).toBe(1);
+      expect(extended.version).toBe(locked.version + 1);
+    });
+
+    it('should never shorten a lock when extending', () => {
+      const locked = Seat.create(defaultParams).lock('user-1', 60 * 60_000);
+
+      expect(locked.extendLock(60_000).lockExpiresAt).toEqual(locked.lockExpiresAt);
+    });
+
+    it('should not allow extending a lock that expired', () => {
+      expect(() => expiredLock().extendLock(60_000)).toThrow('Cannot extend lock: lock has expired');
+    });
+
+    it('should reset the extension count when the seat is locked again', () => {
+      const extended = Seat.create(defaultParams).lock('user-1').extendLock(60_000);
+
+      expect(extended.release().lock('user-2').lockExtensions).toBe(0);
+    });
+  });
+
+  describe('Refund', () => {
+    it('should put a sold seat back on sale', () => {
+      const sold = Seat.create(defaultParams).lock('user-1').sell();
+      const refunded = sold.refund();
+
+      expect(refunded.status).toBe(SeatStatus.AVAILABLE);
+      expect(refunded.userId).toBeNull();
+      expect(refunded.version).toBe(sold.version + 1);
+      expect(sold.status).toBe(SeatStatus.SOLD);
+    });
+
+    it('should not allow refunding a seat that was not sold', () => {
+      const locked = Seat.create(defaultParams).lock('user-1');
+
+      expect(() => locked.refund()).toThrow('Cannot refund seat: current status is LOCKED');
+    });
+  });
+
+  describe('Transfer', () => {
+    it('should hand a sold seat to another user', () => {
+      const sold = Seat.create(defaultParams).lock('user-1').sell();
+      const transferred = sold.transferTo('user-2');
+
+      expect(transferred.status).toBe(SeatStatus.SOLD);
+      expect(transferred.userId).toBe('user-2');
+      expect(transferred.version).toBe(sold.version + 1);
+    });
+
+    it('should not allow transferring a seat that was not sold', () => {
+      expect(() => Seat.create(defaultParams).transferTo('user-2')).toThrow(
+        'Cannot transfer seat: current status is AVAILABLE'
+      );
+    });
+  });
+
+  describe('Hold', () => {
+    it('should withhold an available seat from sale', () => {
+      const held = Seat.create(defaultParams).hold('admin-1', 'House seat');
+
+      expect(held.status).toBe(SeatStatus.HELD);
+      expect(held.holdReason).toBe('House seat');
+      expect(held.heldBy).toBe('admin-1');
+      expect(held.version).toBe(2);
+      expect(() => held.lock('user-1')).toThrow('Cannot lock seat: current status is HELD');
+    });
+
+    it('should put a held seat on sale when unheld', () => {
+      const unheld = Seat.create(defaultParams).hold('admin-1', 'Press').unhold();
+
+      expect(unheld.status).toBe(SeatStatus.AVAILABLE);
+      expect(unheld.holdReason).toBeNull();
+      expect(unheld.heldBy).toBeNull();
+      expect(unheld.version).toBe(3);
+    });
+
+    it('should not allow holding a seat that is not available', () => {
+      const locked = Seat.create(defaultParams).lock('user-1');
+
+      expect(() => locked.hold('admin-1', 'Press')).toThrow('Cannot hold seat: current status is LOCKED');
+    });
+
+    it('should not allow unholding a seat that is not held', () => {
+      expect(() => Seat.create(defaultParams).unhold()).toThrow(
+        'Cannot unhold seat: current status is AVAILABLE'
+      );
+    });
+  });
+
   describe('Serialization', () => {
     it('should serialize to JSON correctly', () => {
       const seat = Seat.create(defaultParams);
@@ -131,11 +287,20 @@ describe('Seat Entity', () => {
       expect(json).toEqual({
         id: 'seat-123',
         eventId: 'event-456',
+    performanceId: 'perf-789',
         seatNumber: 'A1',
         price: 99.99,
+        section: null,
+        row: null,
+        number: null,
+        priceCategory: null,
         status: SeatStatus.AVAILABLE,
         userId: null,
         version: 1,
+        lockExpiresAt: null,
+        lockExtensions: 0,
+        holdReason: null,
+        heldBy: null,
       });
     });
   });
@@ -145,11 +310,20 @@ describe('Seat Entity', () => {
       const storedData = {
         id: 'seat-123',
         eventId: 'event-456',
+    performanceId: 'perf-789',
         seatNumber: 'A1',
         price: 99.99,
+        section: 'Floor',
+        row: 'A',
+        number: 1,
+        priceCategory: { id: 'cat-a', name: 'Category A' },
         status: SeatStatus.SOLD,
         userId: 'user-789',
         version: 5,
+        lockExpiresAt: null,
+        lockExtensions: 0,
+        holdReason: null,
+        heldBy: null,
       };
 
       const seat = Seat.fromPersistence(storedData);
@@ -158,6 +332,10 @@ describe('Seat Entity', () => {
       expect(seat.status).toBe(SeatStatus.SOLD);
       expect(seat.userId).toBe('user-789');
       expect(seat.version).toBe(5);
+      expect(seat.section).toBe('Floor');
+      expect(seat.row).toBe('A');
+      expect(seat.number).toBe(1);
+      expect(seat.priceCategory).toEqual({ id: 'cat-a', name: 'Category A' });
     });
   });
 });
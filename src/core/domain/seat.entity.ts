@@ -6,6 +6,20 @@ export enum SeatStatus {
   AVAILABLE = 'AVAILABLE',
   LOCKED = 'LOCKED',
   SOLD = 'SOLD',
+  HELD = 'HELD', // Withheld from sale by an admin (house, press, production kill)
+}
+
+/**
+ * Default time a seat stays locked before it is released automatically
+ */
+export const DEFAULT_LOCK_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Reference to the event price category a seat belongs to
+ */
+export interface SeatPriceCategory {
+  readonly id: string;
+  readonly name: string; // e.g. "Category A", "VIP"
 }
 
 /**
@@ -16,9 +30,18 @@ export interface SeatProps {
   readonly status: SeatStatus;
   readonly userId: string | null;
   readonly version: number;
-  readonly price: number;
-  readonly seatNumber: string;
+  readonly price: number;              // Effective price (the category price when the seat has one)
+  readonly seatNumber: string;         // Display label, e.g. "A-1"
   readonly eventId: string;
+  readonly performanceId: string;      // Showtime the seat is sold for
+  readonly section: string | null;     // e.g. "Floor", "Balcony"
+  readonly row: string | null;         // e.g. "A"
+  readonly number: number | null;      // Position within the row
+  readonly priceCategory: SeatPriceCategory | null;
+  readonly lockExpiresAt: Date | null; // Set while LOCKED, null otherwise
+  readonly lockExtensions: number;     // Times the current lock was extended
+  readonly holdReason: string | null;  // Set while HELD, null otherwise
+  readonly heldBy: string | null;      // Admin who put the hold on
 }
 
 /**
@@ -30,9 +53,11 @@ export interface SeatProps {
  * 
  * @example
  * ```typescript
- * const seat = Seat.create({ id: '123', eventId: 'evt-1', seatNumber: 'A1', price: 100 });
+ * const seat = Seat.create({ id: '123', eventId: 'evt-1', performanceId: 'perf-1', seatNumber: 'A1', price: 100 });
  * const lockedSeat = seat.lock('user-456');
  * const soldSeat = lockedSeat.sell();
+ * const transferred = soldSeat.transferTo('user-789');
+ * const backOnSale = soldSeat.refund();
  * ```
  */
 export class Seat {
@@ -50,17 +75,31 @@ export class Seat {
   static create(params: {
     id: string;
     eventId: string;
+    performanceId: string;
     seatNumber: string;
     price: number;
+    section?: string | null;
+    row?: string | null;
+    number?: number | null;
+    priceCategory?: SeatPriceCategory | null;
   }): Seat {
     return new Seat({
       id: params.id,
       eventId: params.eventId,
+      performanceId: params.performanceId,
       seatNumber: params.seatNumber,
       price: params.price,
+      section: params.section ?? null,
+      row: params.row ?? null,
+      number: params.number ?? null,
+      priceCategory: params.priceCategory ?? null,
       status: SeatStatus.AVAILABLE,
       userId: null,
       version: 1,
+      lockExpiresAt: null,
+      lockExtensions: 0,
+      holdReason: null,
+      heldBy: null,
     });
   }
 
@@ -103,16 +142,53 @@ export class Seat {
     return this.props.eventId;
   }
 
+  get performanceId(): string {
+    return this.props.performanceId;
+  }
+
+  get section(): string | null {
+    return this.props.section;
+  }
+
+  get row(): string | null {
+    return this.props.row;
+  }
+
+  get number(): number | null {
+    return this.props.number;
+  }
+
+  get priceCategory(): SeatPriceCategory | null {
+    return this.props.priceCategory;
+  }
+
+  get lockExpiresAt(): Date | null {
+    return this.props.lockExpiresAt;
+  }
+
+  get lockExtensions(): number {
+    return this.props.lockExtensions;
+  }
+
+  get holdReason(): string | null {
+    return this.props.holdReason;
+  }
+
+  get heldBy(): string | null {
+    return this.props.heldBy;
+  }
+
   // ===========================================
   // State Transition Methods (Return New Instance)
   // ===========================================
 
   /**
    * Locks the seat for a user (e.g., during checkout)
+   * @param lockDurationMs - How long the lock is held before it expires
    * @returns A NEW Seat instance with LOCKED status
    * @throws Error if seat is not available
    */
-  lock(userId: string): Seat {
+  lock(userId: string, lockDurationMs: number = DEFAULT_LOCK_DURATION_MS): Seat {
     if (this.props.status !== SeatStatus.AVAILABLE) {
       throw new Error(`Cannot lock seat: current status is ${this.props.status}`);
     }
@@ -122,23 +198,58 @@ export class Seat {
       status: SeatStatus.LOCKED,
       userId,
       version: this.props.version + 1,
+      lockExpiresAt: new Date(Date.now() + lockDurationMs),
+      lockExtensions: 0,
+    });
+  }
+
+  /**
+   * Pushes the lock expiry out to `now + extensionMs` (never earlier than it was)
+   * @returns A NEW Seat instance with the extended lock
+   * @throws Error if seat is not locked or the lock has already expired
+   */
+  extendLock(extensionMs: number, now: Date = new Date()): Seat {
+    if (this.props.status !== SeatStatus.LOCKED) {
+      throw new Error(`Cannot extend lock: current status is ${this.props.status}`);
+    }
+
+    if (this.isLockExpired(now)) {
+      throw new Error('Cannot extend lock: lock has expired');
+    }
+
+    const extendedUntil = Math.max(
+      this.props.lockExpiresAt?.getTime() ?? 0,
+      now.getTime() + extensionMs
+    );
+
+    return new Seat({
+      ...this.props,
+      version: this.props.version + 1,
+      lockExpiresAt: new Date(extendedUntil),
+      lockExtensions: this.props.lockExtensions + 1,
     });
   }
 
   /**
    * Marks the seat as sold (after successful payment)
    * @returns A NEW Seat instance with SOLD status
-   * @throws Error if seat is not locked
+   * @throws Error if seat is not locked or the lock has expired
    */
   sell(): Seat {
     if (this.props.status !== SeatStatus.LOCKED) {
       throw new Error(`Cannot sell seat: current status is ${this.props.status}`);
     }
 
+    if (this.isLockExpired()) {
+      throw new Error('Cannot sell seat: lock has expired');
+    }
+
     return new Seat({
       ...this.props,
       status: SeatStatus.SOLD,
       version: this.props.version + 1,
+      lockExpiresAt: null,
+      lockExtensions: 0,
     });
   }
 
@@ -157,6 +268,86 @@ export class Seat {
       status: SeatStatus.AVAILABLE,
       userId: null,
       version: this.props.version + 1,
+      lockExpiresAt: null,
+      lockExtensions: 0,
+    });
+  }
+
+  /**
+   * Puts a sold seat back on sale after its ticket was refunded
+   * (the purchase itself stays on record in the Order)
+   * @returns A NEW Seat instance with AVAILABLE status
+   * @throws Error if seat is not sold
+   */
+  refund(): Seat {
+    if (this.props.status !== SeatStatus.SOLD) {
+      throw new Error(`Cannot refund seat: current status is ${this.props.status}`);
+    }
+
+    return new Seat({
+      ...this.props,
+      status: SeatStatus.AVAILABLE,
+      userId: null,
+      version: this.props.version + 1,
+      lockExpiresAt: null,
+      lockExtensions: 0,
+    });
+  }
+
+  /**
+   * Hands a sold seat (ticket) to another user
+   * @returns A NEW Seat instance owned by `newUserId`
+   * @throws Error if seat is not sold
+   */
+  transferTo(newUserId: string): Seat {
+    if (this.props.status !== SeatStatus.SOLD) {
+      throw new Error(`Cannot transfer seat: current status is ${this.props.status}`);
+    }
+
+    return new Seat({
+      ...this.props,
+      userId: newUserId,
+      version: this.props.version + 1,
+    });
+  }
+
+  /**
+   * Withholds an available seat from public sale
+   * @param adminId - Admin putting the hold on
+   * @param reason - Why the seat is held (e.g., "House seat", "Press", "Camera position")
+   * @returns A NEW Seat instance with HELD status
+   * @throws Error if seat is not available
+   */
+  hold(adminId: string, reason: string): Seat {
+    if (this.props.status !== SeatStatus.AVAILABLE) {
+      throw new Error(`Cannot hold seat: current status is ${this.props.status}`);
+    }
+
+    return new Seat({
+      ...this.props,
+      status: SeatStatus.HELD,
+      version: this.props.version + 1,
+      holdReason: reason,
+      heldBy: adminId,
+    });
+  }
+
+  /**
+   * Puts a held seat (back) on sale
+   * @returns A NEW Seat instance with AVAILABLE status
+   * @throws Error if seat is not held
+   */
+  unhold(): Seat {
+    if (this.props.status !== SeatStatus.HELD) {
+      throw new Error(`Cannot unhold seat: current status is ${this.props.status}`);
+    }
+
+    return new Seat({
+      ...this.props,
+      status: SeatStatus.AVAILABLE,
+      version: this.props.version + 1,
+      holdReason: null,
+      heldBy: null,
     });
   }
 
@@ -176,10 +367,25 @@ export class Seat {
     return this.props.status === SeatStatus.SOLD;
   }
 
+  isHeld(): boolean {
+    return this.props.status === SeatStatus.HELD;
+  }
+
   isLockedBy(userId: string): boolean {
     return this.props.status === SeatStatus.LOCKED && this.props.userId === userId;
   }
 
+  /**
+   * Checks whether the seat is LOCKED and its lock has run out
+   */
+  isLockExpired(now: Date = new Date()): boolean {
+    return (
+      this.props.status === SeatStatus.LOCKED &&
+      this.props.lockExpiresAt !== null &&
+      this.props.lockExpiresAt.getTime() <= now.getTime()
+    );
+  }
+
   // ===========================================
   // Serialization
   // ===========================================
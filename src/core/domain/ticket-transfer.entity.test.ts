@@ -0,0 +1,59 @@
+import { TicketTransfer, TicketTransferStatus } from './ticket-transfer.entity';
+
+describe('TicketTransfer Entity', () => {
+  const pending = () =>
+    TicketTransfer.create({
+      id: 'tr-1',
+      seatId: 'seat-1',
+      eventId: 'event-1',
+      fromUserId: 'user-1',
+      toEmail: '  Friend@Example.com ',
+    });
+
+  describe('create()', () => {
+    it('should create a PENDING transfer with a normalized email', () => {
+      const transfer = pending();
+
+      expect(transfer.status).toBe(TicketTransferStatus.PENDING);
+      expect(transfer.toEmail).toBe('friend@example.com');
+      expect(transfer.toUserId).toBeNull();
+      expect(transfer.version).toBe(1);
+    });
+  });
+
+  describe('accept()', () => {
+    it('should record the recipient', () => {
+      const now = new Date();
+      const accepted = pending().accept('user-2', now);
+
+      expect(accepted.status).toBe(TicketTransferStatus.ACCEPTED);
+      expect(accepted.toUserId).toBe('user-2');
+      expect(accepted.acceptedAt).toBe(now);
+      expect(accepted.version).toBe(2);
+    });
+
+    it('should not allow accepting a cancelled transfer', () => {
+      expect(() => pending().cancel().accept('user-2')).toThrow(
+        'Cannot accept transfer: current status is CANCELLED'
+      );
+    });
+  });
+
+  describe('cancel()', () => {
+    it('should not allow cancelling an accepted transfer', () => {
+      expect(() => pending().accept('user-2').cancel()).toThrow(
+        'Cannot cancel transfer: current status is ACCEPTED'
+      );
+    });
+  });
+
+  describe('Immutability', () => {
+    it('should not change the original instance', () => {
+      const transfer = pending();
+      transfer.accept('user-2');
+
+      expect(transfer.status).toBe(TicketTransferStatus.PENDING);
+      expect(Object.isFrozen(transfer)).toBe(true);
+    });
+  });
+});
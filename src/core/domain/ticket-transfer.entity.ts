@@ -0,0 +1,191 @@
+/**
+ * Ticket Transfer Status Enum
+ * Represents the possible states of a ticket transfer
+ */
+export enum TicketTransferStatus {
+  PENDING = 'PENDING',     // Waiting for the recipient to accept
+  ACCEPTED = 'ACCEPTED',   // Seat now belongs to the recipient
+  CANCELLED = 'CANCELLED', // Withdrawn by the sender
+}
+
+/**
+ * Ticket Transfer Properties
+ */
+export interface TicketTransferProps {
+  readonly id: string;
+  readonly seatId: string;
+  readonly eventId: string;
+  readonly fromUserId: string;
+  readonly toEmail: string;
+  readonly toUserId: string | null;  // Set when the recipient accepts
+  readonly status: TicketTransferStatus;
+  readonly version: number;          // For optimistic locking
+  readonly createdAt: Date;
+  readonly acceptedAt: Date | null;
+}
+
+/**
+ * Ticket Transfer Domain Entity
+ *
+ * A request by the owner of a SOLD seat to hand the ticket to someone else.
+ * The recipient is invited by email and becomes the owner on acceptance.
+ *
+ * Like Seat, this entity is IMMUTABLE: every transition returns a new instance.
+ *
+ * @example
+ * ```typescript
+ * const transfer = TicketTransfer.create({
+ *   id: 'tr-1', seatId: 'seat-1', eventId: 'event-1',
+ *   fromUserId: 'user-1', toEmail: 'friend@example.com',
+ * });
+ * const accepted = transfer.accept('user-2');
+ * ```
+ */
+export class TicketTransfer {
+  private constructor(private readonly props: TicketTransferProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a new pending transfer
+   */
+  static create(params: {
+    id: string;
+    seatId: string;
+    eventId: string;
+    fromUserId: string;
+    toEmail: string;
+    createdAt?: Date;
+  }): TicketTransfer {
+    return new TicketTransfer({
+      id: params.id,
+      seatId: params.seatId,
+      eventId: params.eventId,
+      fromUserId: params.fromUserId,
+      toEmail: params.toEmail.trim().toLowerCase(),
+      toUserId: null,
+      status: TicketTransferStatus.PENDING,
+      version: 1,
+      createdAt: params.createdAt ?? new Date(),
+      acceptedAt: null,
+    });
+  }
+
+  /**
+   * Reconstitutes a TicketTransfer from persistence
+   */
+  static fromPersistence(props: TicketTransferProps): TicketTransfer {
+    return new TicketTransfer(props);
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get seatId(): string {
+    return this.props.seatId;
+  }
+
+  get eventId(): string {
+    return this.props.eventId;
+  }
+
+  get fromUserId(): string {
+    return this.props.fromUserId;
+  }
+
+  get toEmail(): string {
+    return this.props.toEmail;
+  }
+
+  get toUserId(): string | null {
+    return this.props.toUserId;
+  }
+
+  get status(): TicketTransferStatus {
+    return this.props.status;
+  }
+
+  get version(): number {
+    return this.props.version;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get acceptedAt(): Date | null {
+    return this.props.acceptedAt;
+  }
+
+  // ===========================================
+  // State Transition Methods (Return New Instance)
+  // ===========================================
+
+  /**
+   * Accepts the transfer on behalf of the recipient
+   * @returns A NEW TicketTransfer instance with ACCEPTED status
+   * @throws Error if the transfer is not PENDING
+   */
+  accept(toUserId: string, now: Date = new Date()): TicketTransfer {
+    if (!this.isPending()) {
+      throw new Error(`Cannot accept transfer: current status is ${this.props.status}`);
+    }
+
+    return this.transition({
+      status: TicketTransferStatus.ACCEPTED,
+      toUserId,
+      acceptedAt: now,
+    });
+  }
+
+  /**
+   * Withdraws the transfer
+   * @returns A NEW TicketTransfer instance with CANCELLED status
+   * @throws Error if the transfer is not PENDING
+   */
+  cancel(): TicketTransfer {
+    if (!this.isPending()) {
+      throw new Error(`Cannot cancel transfer: current status is ${this.props.status}`);
+    }
+
+    return this.transition({ status: TicketTransferStatus.CANCELLED });
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  isPending(): boolean {
+    return this.props.status === TicketTransferStatus.PENDING;
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): TicketTransferProps {
+    return { ...this.props };
+  }
+
+  /**
+   * Returns a new instance with the given changes and the version incremented
+   */
+  private transition(
+    changes: Partial<Pick<TicketTransferProps, 'status' | 'toUserId' | 'acceptedAt'>>
+  ): TicketTransfer {
+    return new TicketTransfer({
+      ...this.props,
+      ...changes,
+      version: this.props.version + 1,
+    });
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * User Role Enum
+ *
+ * Everyone but customers is staff; what each staff role may do is
+ * listed in ./permission.
+ */
+export enum UserRole {
+  CUSTOMER = 'CUSTOMER',
+  ADMIN = 'ADMIN',
+  BOX_OFFICE = 'BOX_OFFICE', // Venue box office: holds and refunds at the window
+  ORGANIZER = 'ORGANIZER',   // Runs events: listings, showtimes, holds, cancellations
+  SUPPORT = 'SUPPORT',       // Customer support: refunds, orders and refund reports
+}
+
+/**
+ * User Properties
+ */
+export interface UserProps {
+  readonly id: string;
+  readonly email: string;        // Stored normalized (see User.normalizeEmail)
+  readonly passwordHash: string; // Never the password itself (see IPasswordHasher)
+  readonly role: UserRole;
+  readonly createdAt: Date;
+}
+
+/**
+ * User Domain Entity
+ *
+ * A registered account. Buyers sign in with their email and password;
+ * the session then carries the user's ID, so seat locks and purchases
+ * belong to whoever is signed in.
+ *
+ * @example
+ * ```typescript
+ * const user = User.create({ id: 'user-1', email: 'Fan@Example.com ', passwordHash });
+ * user.email; // "fan@example.com"
+ * ```
+ */
+export class User {
+  private constructor(private readonly props: UserProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a new user (a customer unless another role is given)
+   * @throws Error if the email is not an address
+   */
+  static create(params: {
+    id: string;
+    email: string;
+    passwordHash: string;
+    role?: UserRole;
+  }): User {
+    const email = User.normalizeEmail(params.email);
+
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      throw new Error(`Cannot create user: ${params.email} is not an email address`);
+    }
+
+    return new User({
+      id: params.id,
+      email,
+      passwordHash: params.passwordHash,
+      role: params.role ?? UserRole.CUSTOMER,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Reconstitutes a User from persistence
+   */
+  static fromPersistence(props: UserProps): User {
+    return new User(props);
+  }
+
+  /**
+   * Emails are matched case-insensitively, ignoring surrounding whitespace
+   */
+  static normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get email(): string {
+    return this.props.email;
+  }
+
+  get passwordHash(): string {
+    return this.props.passwordHash;
+  }
+
+  get role(): UserRole {
+    return this.props.role;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  // ===========================================
+  // Business Methods (State Transitions)
+  // ===========================================
+
+  /**
+   * Gives the user another role
+   * @returns New User instance with the role
+   */
+  withRole(role: UserRole): User {
+    return new User({ ...this.props, role });
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  isAdmin(): boolean {
+    return this.props.role === UserRole.ADMIN;
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): UserProps {
+    return { ...this.props };
+  }
+}
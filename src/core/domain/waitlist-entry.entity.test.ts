@@ -0,0 +1,74 @@
+import { WaitlistEntry, WaitlistStatus } from './waitlist-entry.entity';
+
+describe('WaitlistEntry Entity', () => {
+  const entry = () => WaitlistEntry.create({ id: 'wl-1', eventId: 'event-1', userId: 'user-1' });
+  const inTenMinutes = () => new Date(Date.now() + 10 * 60 * 1000);
+
+  describe('create()', () => {
+    it('should create a WAITING entry without an offer', () => {
+      const created = entry();
+
+      expect(created.status).toBe(WaitlistStatus.WAITING);
+      expect(created.seatId).toBeNull();
+      expect(created.offerExpiresAt).toBeNull();
+      expect(created.version).toBe(1);
+      expect(created.isActive()).toBe(true);
+    });
+  });
+
+  describe('State Transitions', () => {
+    it('should hold a seat when offered', () => {
+      const expiresAt = inTenMinutes();
+      const offered = entry().offer('seat-1', expiresAt);
+
+      expect(offered.status).toBe(WaitlistStatus.OFFERED);
+      expect(offered.seatId).toBe('seat-1');
+      expect(offered.offerExpiresAt).toBe(expiresAt);
+      expect(offered.version).toBe(2);
+    });
+
+    it('should allow claiming an open offer', () => {
+      const claimed = entry().offer('seat-1', inTenMinutes()).claim();
+
+      expect(claimed.status).toBe(WaitlistStatus.CLAIMED);
+      expect(claimed.isActive()).toBe(false);
+    });
+
+    it('should not allow claiming an expired offer', () => {
+      const offered = entry().offer('seat-1', new Date(Date.now() - 1000));
+
+      expect(() => offered.claim()).toThrow('Cannot claim offer: offer has expired');
+    });
+
+    it('should not allow offering a seat to an entry that already holds one', () => {
+      const offered = entry().offer('seat-1', inTenMinutes());
+
+      expect(() => offered.offer('seat-2', inTenMinutes())).toThrow(
+        'Cannot offer seat: current status is OFFERED'
+      );
+    });
+
+    it('should expire an offer', () => {
+      const expired = entry().offer('seat-1', inTenMinutes()).expire();
+
+      expect(expired.status).toBe(WaitlistStatus.EXPIRED);
+    });
+
+    it('should not allow leaving twice', () => {
+      const left = entry().leave();
+
+      expect(left.status).toBe(WaitlistStatus.LEFT);
+      expect(() => left.leave()).toThrow('Cannot leave waitlist: current status is LEFT');
+    });
+  });
+
+  describe('Serialization', () => {
+    it('should round-trip through toJSON() and fromPersistence()', () => {
+      const offered = entry().offer('seat-1', inTenMinutes());
+
+      const restored = WaitlistEntry.fromPersistence(offered.toJSON());
+
+      expect(restored.toJSON()).toEqual(offered.toJSON());
+    });
+  });
+});
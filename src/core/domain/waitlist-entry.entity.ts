@@ -0,0 +1,225 @@
+/**
+ * Waitlist Entry Status Enum
+ * Represents the possible states of a waitlist entry
+ */
+export enum WaitlistStatus {
+  WAITING = 'WAITING',   // In the queue
+  OFFERED = 'OFFERED',   // A seat is held for the user until offerExpiresAt
+  CLAIMED = 'CLAIMED',   // User accepted the offer and is checking out
+  EXPIRED = 'EXPIRED',   // Offer ran out or the held seat was given up
+  LEFT = 'LEFT',         // User left the waitlist
+}
+
+/**
+ * Waitlist Entry Properties
+ */
+export interface WaitlistEntryProps {
+  readonly id: string;
+  readonly eventId: string;
+  readonly userId: string;
+  readonly status: WaitlistStatus;
+  readonly seatId: string | null;          // Seat held for the user while OFFERED/CLAIMED
+  readonly offerExpiresAt: Date | null;
+  readonly version: number;                // For optimistic locking
+  readonly createdAt: Date;                // Queue position (first come, first served)
+}
+
+/**
+ * Waitlist Entry Domain Entity
+ *
+ * A user's place in the queue for a sold-out event.
+ * When a seat comes back on sale, the oldest WAITING entry is
+ * offered that seat exclusively for a limited time.
+ *
+ * Like Seat, this entity is IMMUTABLE: every transition returns a new instance.
+ *
+ * @example
+ * ```typescript
+ * const entry = WaitlistEntry.create({ id: 'wl-1', eventId: 'event-1', userId: 'user-1' });
+ * const offered = entry.offer('seat-1', new Date(Date.now() + 600_000));
+ * const claimed = offered.claim();
+ * ```
+ */
+export class WaitlistEntry {
+  private constructor(private readonly props: WaitlistEntryProps) {
+    Object.freeze(this);
+  }
+
+  // ===========================================
+  // Factory Methods
+  // ===========================================
+
+  /**
+   * Creates a new entry at the back of the queue
+   */
+  static create(params: {
+    id: string;
+    eventId: string;
+    userId: string;
+    createdAt?: Date;
+  }): WaitlistEntry {
+    return new WaitlistEntry({
+      id: params.id,
+      eventId: params.eventId,
+      userId: params.userId,
+      status: WaitlistStatus.WAITING,
+      seatId: null,
+      offerExpiresAt: null,
+      version: 1,
+      createdAt: params.createdAt ?? new Date(),
+    });
+  }
+
+  /**
+   * Reconstitutes a WaitlistEntry from persistence
+   */
+  static fromPersistence(props: WaitlistEntryProps): WaitlistEntry {
+    return new WaitlistEntry(props);
+  }
+
+  // ===========================================
+  // Getters (Immutable Access)
+  // ===========================================
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get eventId(): string {
+    return this.props.eventId;
+  }
+
+  get userId(): string {
+    return this.props.userId;
+  }
+
+  get status(): WaitlistStatus {
+    return this.props.status;
+  }
+
+  get seatId(): string | null {
+    return this.props.seatId;
+  }
+
+  get offerExpiresAt(): Date | null {
+    return this.props.offerExpiresAt;
+  }
+
+  get version(): number {
+    return this.props.version;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  // ===========================================
+  // State Transition Methods (Return New Instance)
+  // ===========================================
+
+  /**
+   * Offers a seat to the user until `expiresAt`
+   * @returns A NEW WaitlistEntry instance with OFFERED status
+   * @throws Error if the entry is not WAITING
+   */
+  offer(seatId: string, expiresAt: Date): WaitlistEntry {
+    if (this.props.status !== WaitlistStatus.WAITING) {
+      throw new Error(`Cannot offer seat: current status is ${this.props.status}`);
+    }
+
+    return this.transition({
+      status: WaitlistStatus.OFFERED,
+      seatId,
+      offerExpiresAt: expiresAt,
+    });
+  }
+
+  /**
+   * Accepts the offered seat
+   * @returns A NEW WaitlistEntry instance with CLAIMED status
+   * @throws Error if the entry is not OFFERED or the offer has expired
+   */
+  claim(now: Date = new Date()): WaitlistEntry {
+    if (this.props.status !== WaitlistStatus.OFFERED) {
+      throw new Error(`Cannot claim offer: current status is ${this.props.status}`);
+    }
+    if (this.isOfferExpired(now)) {
+      throw new Error('Cannot claim offer: offer has expired');
+    }
+
+    return this.transition({ status: WaitlistStatus.CLAIMED });
+  }
+
+  /**
+   * Ends an offer that was not claimed in time
+   * @returns A NEW WaitlistEntry instance with EXPIRED status
+   * @throws Error if the entry is not OFFERED
+   */
+  expire(): WaitlistEntry {
+    if (this.props.status !== WaitlistStatus.OFFERED) {
+      throw new Error(`Cannot expire offer: current status is ${this.props.status}`);
+    }
+
+    return this.transition({ status: WaitlistStatus.EXPIRED });
+  }
+
+  /**
+   * Removes the user from the waitlist
+   * @returns A NEW WaitlistEntry instance with LEFT status
+   * @throws Error if the entry is no longer active
+   */
+  leave(): WaitlistEntry {
+    if (!this.isActive()) {
+      throw new Error(`Cannot leave waitlist: current status is ${this.props.status}`);
+    }
+
+    return this.transition({ status: WaitlistStatus.LEFT });
+  }
+
+  // ===========================================
+  // Query Methods
+  // ===========================================
+
+  /**
+   * Checks whether the entry still holds a place in the queue
+   */
+  isActive(): boolean {
+    return (
+      this.props.status === WaitlistStatus.WAITING ||
+      this.props.status === WaitlistStatus.OFFERED
+    );
+  }
+
+  isOffered(): boolean {
+    return this.props.status === WaitlistStatus.OFFERED;
+  }
+
+  /**
+   * Checks whether the offer window has passed
+   * @param now - Reference time (defaults to current time)
+   */
+  isOfferExpired(now: Date = new Date()): boolean {
+    return this.props.offerExpiresAt !== null && this.props.offerExpiresAt.getTime() <= now.getTime();
+  }
+
+  // ===========================================
+  // Serialization
+  // ===========================================
+
+  toJSON(): WaitlistEntryProps {
+    return { ...this.props };
+  }
+
+  /**
+   * Returns a new instance with the given changes and the version incremented
+   */
+  private transition(
+    changes: Partial<Pick<WaitlistEntryProps, 'status' | 'seatId' | 'offerExpiresAt'>>
+  ): WaitlistEntry {
+    return new WaitlistEntry({
+      ...this.props,
+      ...changes,
+      version: this.props.version + 1,
+    });
+  }
+}
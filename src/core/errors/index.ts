@@ -2,4 +2,4 @@
  * Core Errors Exports
  */
 
-export { ConcurrencyError, EntityNotFoundError } from './repository.errors';
+export { ConcurrencyError, BatchConcurrencyError, EntityNotFoundError } from './repository.errors';
@@ -21,6 +21,24 @@ export class ConcurrencyError extends Error {
   }
 }
 
+/**
+ * Thrown when a batch save hits optimistic locking conflicts.
+ * The whole batch is rolled back; entityIds lists every entity
+ * that was modified by another process.
+ */
+export class BatchConcurrencyError extends Error {
+  constructor(
+    public readonly entityType: string,
+    public readonly entityIds: string[]
+  ) {
+    super(
+      `Concurrency conflict: ${entityType} with IDs ${entityIds.join(', ')} ` +
+      `were modified by another process. No changes were saved.`
+    );
+    this.name = 'BatchConcurrencyError';
+  }
+}
+
 /**
  * Thrown when an entity is not found in the database.
  */
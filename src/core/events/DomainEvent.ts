@@ -8,6 +8,7 @@ export interface DomainEvent {
   readonly eventType: string;
   readonly timestamp: Date;
   readonly correlationId?: string;
+  readonly partnerId?: string;  // Partner whose API key triggered the event (added on publish)
 }
 
 /**
@@ -15,6 +16,7 @@ export interface DomainEvent {
  */
 export const EVENT_QUEUES = {
   TICKET_GENERATION: 'ticket_generation_queue',
+  TICKET_REFUND: 'ticket_refund_queue',
   NOTIFICATION: 'notification_queue',
   ANALYTICS: 'analytics_queue',
 } as const;
@@ -0,0 +1,59 @@
+import { DomainEvent } from './DomainEvent';
+
+/**
+ * General-admission tickets a holder bought in one zone
+ */
+export interface CancelledGaTickets {
+  readonly zoneName: string;
+  readonly quantity: number;
+}
+
+/**
+ * A ticket holder of a cancelled event and the seats (or GA tickets) they bought
+ */
+export interface CancellationRecipient {
+  readonly userId: string;
+  readonly seatNumbers: string[];
+  readonly gaTickets: CancelledGaTickets[];
+}
+
+/**
+ * Event Cancelled Event
+ *
+ * Published when an event is cancelled, once per batch of ticket holders.
+ * Triggers the "your show is cancelled, a refund is on its way" email.
+ */
+export interface EventCancelledEvent extends DomainEvent {
+  readonly eventType: 'EVENT_CANCELLED';
+  readonly cancellationId: string;
+  readonly eventId: string;
+  readonly batchNumber: number; // 1-based
+  readonly totalBatches: number;
+  readonly recipients: CancellationRecipient[];
+  readonly reason: string | null;
+}
+
+/**
+ * Creates an EventCancelledEvent
+ */
+export function createEventCancelledEvent(params: {
+  cancellationId: string;
+  eventId: string;
+  batchNumber: number;
+  totalBatches: number;
+  recipients: CancellationRecipient[];
+  reason?: string | null;
+  correlationId?: string;
+}): EventCancelledEvent {
+  return {
+    eventType: 'EVENT_CANCELLED',
+    cancellationId: params.cancellationId,
+    eventId: params.eventId,
+    batchNumber: params.batchNumber,
+    totalBatches: params.totalBatches,
+    recipients: params.recipients,
+    reason: params.reason ?? null,
+    timestamp: new Date(),
+    correlationId: params.correlationId,
+  };
+}
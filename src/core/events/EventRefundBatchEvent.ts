@@ -0,0 +1,47 @@
+import { DomainEvent } from './DomainEvent';
+
+/**
+ * Event Refund Batch Event
+ *
+ * Published when an event is cancelled, once per batch of its sold seats
+ * or GA reservations. The worker refunds every purchase of the batch (each
+ * seat refund then publishes its own SeatRefundedEvent) and records the
+ * batch's progress and failures.
+ */
+export interface EventRefundBatchEvent extends DomainEvent {
+  readonly eventType: 'EVENT_REFUND_BATCH';
+  readonly cancellationId: string;
+  readonly eventId: string;
+  readonly batchNumber: number; // 1-based
+  readonly totalBatches: number;
+  readonly seatIds: string[];
+  readonly gaReservationIds: string[];
+  readonly reason: string | null;
+}
+
+/**
+ * Creates an EventRefundBatchEvent
+ */
+export function createEventRefundBatchEvent(params: {
+  cancellationId: string;
+  eventId: string;
+  batchNumber: number;
+  totalBatches: number;
+  seatIds: string[];
+  gaReservationIds?: string[];
+  reason?: string | null;
+  correlationId?: string;
+}): EventRefundBatchEvent {
+  return {
+    eventType: 'EVENT_REFUND_BATCH',
+    cancellationId: params.cancellationId,
+    eventId: params.eventId,
+    batchNumber: params.batchNumber,
+    totalBatches: params.totalBatches,
+    seatIds: params.seatIds,
+    gaReservationIds: params.gaReservationIds ?? [],
+    reason: params.reason ?? null,
+    timestamp: new Date(),
+    correlationId: params.correlationId,
+  };
+}
@@ -0,0 +1,44 @@
+import { DomainEvent } from './DomainEvent';
+
+/**
+ * A ticket holder of a rescheduled event and the seats they bought
+ */
+export interface RescheduleRecipient {
+  readonly userId: string;
+  readonly seatNumbers: string[];
+}
+
+/**
+ * Event Rescheduled Event
+ *
+ * Published when an organizer moves an event with tickets sold.
+ * Triggers the "your show has a new date" email; tickets stay valid.
+ */
+export interface EventRescheduledEvent extends DomainEvent {
+  readonly eventType: 'EVENT_RESCHEDULED';
+  readonly eventId: string;
+  readonly previousDate: Date;
+  readonly newDate: Date;
+  readonly recipients: RescheduleRecipient[];
+}
+
+/**
+ * Creates an EventRescheduledEvent
+ */
+export function createEventRescheduledEvent(params: {
+  eventId: string;
+  previousDate: Date;
+  newDate: Date;
+  recipients: RescheduleRecipient[];
+  correlationId?: string;
+}): EventRescheduledEvent {
+  return {
+    eventType: 'EVENT_RESCHEDULED',
+    eventId: params.eventId,
+    previousDate: params.previousDate,
+    newDate: params.newDate,
+    recipients: params.recipients,
+    timestamp: new Date(),
+    correlationId: params.correlationId,
+  };
+}
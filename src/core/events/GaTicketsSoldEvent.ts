@@ -0,0 +1,56 @@
+import { DomainEvent } from './DomainEvent';
+
+/**
+ * GA Tickets Sold Event
+ *
+ * Published when a general-admission purchase is confirmed.
+ * Triggers generating one PDF ticket per purchased ticket and the
+ * confirmation email (sent to deliveryEmail).
+ */
+export interface GaTicketsSoldEvent extends DomainEvent {
+  readonly eventType: 'GA_TICKETS_SOLD';
+  readonly orderId: string;
+  readonly reservationId: string;
+  readonly zoneId: string;
+  readonly eventId: string;
+  readonly userId: string;               // Account or guest ID
+  readonly deliveryEmail: string | null; // Where the tickets go (null if unknown)
+  readonly zoneName: string;
+  readonly quantity: number;
+  readonly totalAmount: number;
+  readonly soldAt: Date;
+}
+
+/**
+ * Creates a GaTicketsSoldEvent
+ */
+export function createGaTicketsSoldEvent(params: {
+  orderId: string;
+  reservationId: string;
+  zoneId: string;
+  eventId: string;
+  userId: string;
+  deliveryEmail?: string | null;
+  zoneName: string;
+  quantity: number;
+  totalAmount: number;
+  correlationId?: string;
+}): GaTicketsSoldEvent {
+  const now = new Date();
+
+  return {
+    eventType: 'GA_TICKETS_SOLD',
+    orderId: params.orderId,
+    reservationId: params.reservationId,
+    zoneId: params.zoneId,
+    eventId: params.eventId,
+    userId: params.userId,
+    deliveryEmail: params.deliveryEmail ?? null,
+    zoneName: params.zoneName,
+    quantity: params.quantity,
+    totalAmount: params.totalAmount,
+    soldAt: now,
+    timestamp: now,
+    correlationId: params.correlationId,
+  };
+}
@@ -0,0 +1,37 @@
+import { DomainEvent } from './DomainEvent';
+
+/**
+ * Guest Verification Requested Event
+ *
+ * Published when a guest starts checkout or asks for a new code.
+ * Triggers the email carrying the one-time code the guest must enter
+ * before confirming a purchase.
+ */
+export interface GuestVerificationRequestedEvent extends DomainEvent {
+  readonly eventType: 'GUEST_VERIFICATION_REQUESTED';
+  readonly guestId: string;
+  readonly email: string;
+  readonly code: string;
+  readonly expiresAt: Date;
+}
+
+/**
+ * Creates a GuestVerificationRequestedEvent
+ */
+export function createGuestVerificationRequestedEvent(params: {
+  guestId: string;
+  email: string;
+  code: string;
+  expiresAt: Date;
+  correlationId?: string;
+}): GuestVerificationRequestedEvent {
+  return {
+    eventType: 'GUEST_VERIFICATION_REQUESTED',
+    guestId: params.guestId,
+    email: params.email,
+    code: params.code,
+    expiresAt: params.expiresAt,
+    timestamp: new Date(),
+    correlationId: params.correlationId,
+  };
+}
@@ -0,0 +1,42 @@
+import { DomainEvent } from './DomainEvent';
+
+/**
+ * Seat Lock Extended Event
+ *
+ * Published when the lock owner extends a checkout lock (heartbeat).
+ * Carries the new expiry so anything timing the lock can reschedule.
+ */
+export interface SeatLockExtendedEvent extends DomainEvent {
+  readonly eventType: 'SEAT_LOCK_EXTENDED';
+  readonly seatId: string;
+  readonly eventId: string;
+  readonly userId: string;
+  readonly seatNumber: string;
+  readonly expiresAt: Date;      // New lock expiration time
+  readonly extensionCount: number; // Extensions used so far on this lock
+}
+
+/**
+ * Creates a SeatLockExtendedEvent
+ */
+export function createSeatLockExtendedEvent(params: {
+  seatId: string;
+  eventId: string;
+  userId: string;
+  seatNumber: string;
+  expiresAt: Date;
+  extensionCount: number;
+  correlationId?: string;
+}): SeatLockExtendedEvent {
+  return {
+    eventType: 'SEAT_LOCK_EXTENDED',
+    seatId: params.seatId,
+    eventId: params.eventId,
+    userId: params.userId,
+    seatNumber: params.seatNumber,
+    expiresAt: params.expiresAt,
+    extensionCount: params.extensionCount,
+    timestamp: new Date(),
+    correlationId: params.correlationId,
+  };
+}
@@ -1,4 +1,5 @@
 import { DomainEvent } from './DomainEvent';
+import { DEFAULT_LOCK_DURATION_MS } from '@/core/domain/seat.entity';
 
 /**
  * Seat Locked Event
@@ -27,10 +28,11 @@ export function createSeatLockedEvent(params: {
   seatNumber: string;
   price: number;
   lockDurationMs?: number;
+  expiresAt?: Date; // Persisted lock expiry; takes precedence over lockDurationMs
   correlationId?: string;
 }): SeatLockedEvent {
   const now = new Date();
-  const lockDuration = params.lockDurationMs ?? 15 * 60 * 1000; // Default 15 minutes
+  const lockDuration = params.lockDurationMs ?? DEFAULT_LOCK_DURATION_MS;
 
   return {
     eventType: 'SEAT_LOCKED',
@@ -40,7 +42,7 @@ export function createSeatLockedEvent(params: {
     seatNumber: params.seatNumber,
     price: params.price,
     lockedAt: now,
-    expiresAt: new Date(now.getTime() + lockDuration),
+    expiresAt: params.expiresAt ?? new Date(now.getTime() + lockDuration),
     timestamp: now,
     correlationId: params.correlationId,
   };
@@ -0,0 +1,56 @@
+import { DomainEvent } from './DomainEvent';
+
+/**
+ * Seat Refunded Event
+ * 
+ * Published when a sold ticket is refunded and the seat goes back on sale.
+ * Triggers downstream processes:
+ * - Voiding the PDF ticket
+ * - Refund confirmation email to the customer who paid
+ * - Notice to the ticket holder, if the ticket was transferred to someone else
+ */
+export interface SeatRefundedEvent extends DomainEvent {
+  readonly eventType: 'SEAT_REFUNDED';
+  readonly orderId: string;
+  readonly seatId: string;
+  readonly eventId: string;
+  readonly userId: string;         // Customer who paid (gets the money back)
+  readonly ticketHolderId: string; // Who held the ticket (differs from userId after a transfer)
+  readonly seatNumber: string;
+  readonly amount: number; // Amount refunded
+  readonly reason: string | null;
+  readonly refundedAt: Date;
+}
+
+/**
+ * Creates a SeatRefundedEvent
+ */
+export function createSeatRefundedEvent(params: {
+  orderId: string;
+  seatId: string;
+  eventId: string;
+  userId: string;
+  ticketHolderId?: string;
+  seatNumber: string;
+  amount: number;
+  reason?: string | null;
+  refundedAt?: Date;
+  correlationId?: string;
+}): SeatRefundedEvent {
+  const now = new Date();
+
+  return {
+    eventType: 'SEAT_REFUNDED',
+    orderId: params.orderId,
+    seatId: params.seatId,
+    eventId: params.eventId,
+    userId: params.userId,
+    ticketHolderId: params.ticketHolderId ?? params.userId,
+    seatNumber: params.seatNumber,
+    amount: params.amount,
+    reason: params.reason ?? null,
+    refundedAt: params.refundedAt ?? now,
+    timestamp: now,
+    correlationId: params.correlationId,
+  };
+}
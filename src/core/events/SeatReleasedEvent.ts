@@ -0,0 +1,50 @@
+import { DomainEvent } from './DomainEvent';
+
+/**
+ * Why a seat went back to AVAILABLE
+ */
+export type SeatReleaseReason = 'CANCELLED' | 'LOCK_EXPIRED' | 'HOLD_RELEASED' | 'EVENT_CANCELLED';
+
+/**
+ * Seat Released Event
+ *
+ * Published when a locked or held seat returns to AVAILABLE: the buyer
+ * cancelled the checkout, the lock expired, an admin released a hold, or
+ * the whole event was cancelled. Lets downstream consumers know the seat
+ * is back on sale (or, for EVENT_CANCELLED, that the checkout is over).
+ */
+export interface SeatReleasedEvent extends DomainEvent {
+  readonly eventType: 'SEAT_RELEASED';
+  readonly seatId: string;
+  readonly eventId: string;
+  readonly userId: string; // User who held the lock (admin for HOLD_RELEASED)
+  readonly seatNumber: string;
+  readonly reason: SeatReleaseReason;
+  readonly releasedAt: Date;
+}
+
+/**
+ * Creates a SeatReleasedEvent
+ */
+export function createSeatReleasedEvent(params: {
+  seatId: string;
+  eventId: string;
+  userId: string;
+  seatNumber: string;
+  reason: SeatReleaseReason;
+  correlationId?: string;
+}): SeatReleasedEvent {
+  const now = new Date();
+
+  return {
+    eventType: 'SEAT_RELEASED',
+    seatId: params.seatId,
+    eventId: params.eventId,
+    userId: params.userId,
+    seatNumber: params.seatNumber,
+    reason: params.reason,
+    releasedAt: now,
+    timestamp: now,
+    correlationId: params.correlationId,
+  };
+}
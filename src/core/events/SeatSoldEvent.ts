@@ -6,14 +6,16 @@ import { DomainEvent } from './DomainEvent';
  * Published when a seat is successfully sold (payment confirmed).
  * Triggers downstream processes:
  * - PDF ticket generation
- * - Email confirmation
+ * - Email confirmation (sent to deliveryEmail)
  * - Analytics tracking
  */
 export interface SeatSoldEvent extends DomainEvent {
   readonly eventType: 'SEAT_SOLD';
+  readonly orderId: string;
   readonly seatId: string;
   readonly eventId: string;
-  readonly userId: string;
+  readonly userId: string;               // Account or guest ID
+  readonly deliveryEmail: string | null; // Where the ticket goes (null if unknown)
   readonly seatNumber: string;
   readonly price: number;
   readonly soldAt: Date;
@@ -23,18 +25,22 @@ export interface SeatSoldEvent extends DomainEvent {
  * Creates a SeatSoldEvent
  */
 export function createSeatSoldEvent(params: {
+  orderId: string;
   seatId: string;
   eventId: string;
   userId: string;
+  deliveryEmail?: string | null;
   seatNumber: string;
   price: number;
   correlationId?: string;
 }): SeatSoldEvent {
   return {
     eventType: 'SEAT_SOLD',
+    orderId: params.orderId,
     seatId: params.seatId,
     eventId: params.eventId,
     userId: params.userId,
+    deliveryEmail: params.deliveryEmail ?? null,
     seatNumber: params.seatNumber,
     price: params.price,
     soldAt: new Date(),
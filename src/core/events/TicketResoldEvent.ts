@@ -0,0 +1,56 @@
+import { DomainEvent } from './DomainEvent';
+
+/**
+ * Ticket Resold Event
+ *
+ * Published when a resale purchase completes and the seat changes hands.
+ * Triggers voiding the seller's ticket, issuing a new PDF to the buyer
+ * and telling the seller about their payout.
+ */
+export interface TicketResoldEvent extends DomainEvent {
+  readonly eventType: 'TICKET_RESOLD';
+  readonly listingId: string;
+  readonly orderId: string;
+  readonly seatId: string;
+  readonly eventId: string;
+  readonly sellerId: string;
+  readonly buyerId: string;
+  readonly seatNumber: string;
+  readonly price: number;
+  readonly sellerPayout: number;
+  readonly resoldAt: Date;
+}
+
+/**
+ * Creates a TicketResoldEvent
+ */
+export function createTicketResoldEvent(params: {
+  listingId: string;
+  orderId: string;
+  seatId: string;
+  eventId: string;
+  sellerId: string;
+  buyerId: string;
+  seatNumber: string;
+  price: number;
+  sellerPayout: number;
+  correlationId?: string;
+}): TicketResoldEvent {
+  const now = new Date();
+
+  return {
+    eventType: 'TICKET_RESOLD',
+    listingId: params.listingId,
+    orderId: params.orderId,
+    seatId: params.seatId,
+    eventId: params.eventId,
+    sellerId: params.sellerId,
+    buyerId: params.buyerId,
+    seatNumber: params.seatNumber,
+    price: params.price,
+    sellerPayout: params.sellerPayout,
+    resoldAt: now,
+    timestamp: now,
+    correlationId: params.correlationId,
+  };
+}
@@ -0,0 +1,42 @@
+import { DomainEvent } from './DomainEvent';
+
+/**
+ * Ticket Transfer Requested Event
+ *
+ * Published when a ticket owner starts a transfer.
+ * Used to email the recipient a link to accept it.
+ */
+export interface TicketTransferRequestedEvent extends DomainEvent {
+  readonly eventType: 'TICKET_TRANSFER_REQUESTED';
+  readonly transferId: string;
+  readonly seatId: string;
+  readonly eventId: string;
+  readonly fromUserId: string;
+  readonly toEmail: string;
+  readonly seatNumber: string;
+}
+
+/**
+ * Creates a TicketTransferRequestedEvent
+ */
+export function createTicketTransferRequestedEvent(params: {
+  transferId: string;
+  seatId: string;
+  eventId: string;
+  fromUserId: string;
+  toEmail: string;
+  seatNumber: string;
+  correlationId?: string;
+}): TicketTransferRequestedEvent {
+  return {
+    eventType: 'TICKET_TRANSFER_REQUESTED',
+    transferId: params.transferId,
+    seatId: params.seatId,
+    eventId: params.eventId,
+    fromUserId: params.fromUserId,
+    toEmail: params.toEmail,
+    seatNumber: params.seatNumber,
+    timestamp: new Date(),
+    correlationId: params.correlationId,
+  };
+}
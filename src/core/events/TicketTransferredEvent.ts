@@ -0,0 +1,49 @@
+import { DomainEvent } from './DomainEvent';
+
+/**
+ * Ticket Transferred Event
+ *
+ * Published when the recipient accepts a transfer and the seat changes hands.
+ * Triggers voiding the sender's ticket and issuing a new PDF to the recipient.
+ */
+export interface TicketTransferredEvent extends DomainEvent {
+  readonly eventType: 'TICKET_TRANSFERRED';
+  readonly transferId: string;
+  readonly seatId: string;
+  readonly eventId: string;
+  readonly fromUserId: string;
+  readonly toUserId: string;
+  readonly toEmail: string;
+  readonly seatNumber: string;
+  readonly transferredAt: Date;
+}
+
+/**
+ * Creates a TicketTransferredEvent
+ */
+export function createTicketTransferredEvent(params: {
+  transferId: string;
+  seatId: string;
+  eventId: string;
+  fromUserId: string;
+  toUserId: string;
+  toEmail: string;
+  seatNumber: string;
+  correlationId?: string;
+}): TicketTransferredEvent {
+  const now = new Date();
+
+  return {
+    eventType: 'TICKET_TRANSFERRED',
+    transferId: params.transferId,
+    seatId: params.seatId,
+    eventId: params.eventId,
+    fromUserId: params.fromUserId,
+    toUserId: params.toUserId,
+    toEmail: params.toEmail,
+    seatNumber: params.seatNumber,
+    transferredAt: now,
+    timestamp: now,
+    correlationId: params.correlationId,
+  };
+}
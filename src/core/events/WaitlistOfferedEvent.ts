@@ -0,0 +1,42 @@
+import { DomainEvent } from './DomainEvent';
+
+/**
+ * Waitlist Offered Event
+ * 
+ * Published when a seat that came back on sale is held for the next
+ * user on an event's waitlist. Triggers the offer notification email.
+ */
+export interface WaitlistOfferedEvent extends DomainEvent {
+  readonly eventType: 'WAITLIST_OFFERED';
+  readonly entryId: string;
+  readonly eventId: string;
+  readonly userId: string;
+  readonly seatId: string;
+  readonly seatNumber: string;
+  readonly offerExpiresAt: Date;
+}
+
+/**
+ * Creates a WaitlistOfferedEvent
+ */
+export function createWaitlistOfferedEvent(params: {
+  entryId: string;
+  eventId: string;
+  userId: string;
+  seatId: string;
+  seatNumber: string;
+  offerExpiresAt: Date;
+  correlationId?: string;
+}): WaitlistOfferedEvent {
+  return {
+    eventType: 'WAITLIST_OFFERED',
+    entryId: params.entryId,
+    eventId: params.eventId,
+    userId: params.userId,
+    seatId: params.seatId,
+    seatNumber: params.seatNumber,
+    offerExpiresAt: params.offerExpiresAt,
+    timestamp: new Date(),
+    correlationId: params.correlationId,
+  };
+}
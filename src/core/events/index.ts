@@ -8,5 +8,41 @@ export { EVENT_QUEUES } from './DomainEvent';
 export type { SeatLockedEvent } from './SeatLockedEvent';
 export { createSeatLockedEvent } from './SeatLockedEvent';
 
+export type { SeatLockExtendedEvent } from './SeatLockExtendedEvent';
+export { createSeatLockExtendedEvent } from './SeatLockExtendedEvent';
+
 export type { SeatSoldEvent } from './SeatSoldEvent';
 export { createSeatSoldEvent } from './SeatSoldEvent';
+
+export type { SeatReleasedEvent, SeatReleaseReason } from './SeatReleasedEvent';
+export { createSeatReleasedEvent } from './SeatReleasedEvent';
+
+export type { SeatRefundedEvent } from './SeatRefundedEvent';
+export { createSeatRefundedEvent } from './SeatRefundedEvent';
+
+export type { WaitlistOfferedEvent } from './WaitlistOfferedEvent';
+export { createWaitlistOfferedEvent } from './WaitlistOfferedEvent';
+
+export type { TicketTransferRequestedEvent } from './TicketTransferRequestedEvent';
+export { createTicketTransferRequestedEvent } from './TicketTransferRequestedEvent';
+
+export type { TicketTransferredEvent } from './TicketTransferredEvent';
+export { createTicketTransferredEvent } from './TicketTransferredEvent';
+
+export type { TicketResoldEvent } from './TicketResoldEvent';
+export { createTicketResoldEvent } from './TicketResoldEvent';
+
+export type { GaTicketsSoldEvent } from './GaTicketsSoldEvent';
+export { createGaTicketsSoldEvent } from './GaTicketsSoldEvent';
+
+export type { EventRefundBatchEvent } from './EventRefundBatchEvent';
+export { createEventRefundBatchEvent } from './EventRefundBatchEvent';
+
+export type { EventCancelledEvent, CancellationRecipient, CancelledGaTickets } from './EventCancelledEvent';
+export { createEventCancelledEvent } from './EventCancelledEvent';
+
+export type { EventRescheduledEvent, RescheduleRecipient } from './EventRescheduledEvent';
+export { createEventRescheduledEvent } from './EventRescheduledEvent';
+
+export type { GuestVerificationRequestedEvent } from './GuestVerificationRequestedEvent';
+export { createGuestVerificationRequestedEvent } from './GuestVerificationRequestedEvent';
@@ -0,0 +1,31 @@
+import { ApiKey } from '@/core/domain/api-key.entity';
+
+/**
+ * API Key Repository Interface
+ *
+ * Partner API keys, looked up by hash on every partner request and
+ * listed and revoked by admins.
+ */
+export interface IApiKeyRepository {
+  /**
+   * Finds a key by its unique identifier
+   * @returns The key if found, null otherwise
+   */
+  findById(id: string): Promise<ApiKey | null>;
+
+  /**
+   * Finds a key by the SHA-256 hash of its secret
+   * @returns The key (revoked or not) if found, null otherwise
+   */
+  findByHash(keyHash: string): Promise<ApiKey | null>;
+
+  /**
+   * Lists all keys, revoked ones included, newest first
+   */
+  findAll(): Promise<ApiKey[]>;
+
+  /**
+   * Stores a new key or saves changes to an existing one (its revocation)
+   */
+  save(apiKey: ApiKey): Promise<ApiKey>;
+}
@@ -19,6 +19,20 @@ export interface ICache {
    */
   set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
 
+  /**
+   * Sets a value only if the key does not exist yet (atomic)
+   * @returns true if the value was set, false if the key already existed
+   */
+  setIfAbsent<T>(key: string, value: T, ttlSeconds?: number): Promise<boolean>;
+
+  /**
+   * Atomically adds 1 to a counter, creating it at 0 if missing
+   * @param ttlSeconds - Time to live in seconds, restarted on every increment (optional)
+   * @returns The counter's new value
+   * @throws if the counter can't be updated (callers rely on the count)
+   */
+  increment(key: string, ttlSeconds?: number): Promise<number>;
+
   /**
    * Deletes a value from the cache
    * @param key - Cache key to delete
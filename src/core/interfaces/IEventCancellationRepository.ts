@@ -0,0 +1,55 @@
+import { EventCancellation } from '@/core/domain/event-cancellation.entity';
+
+/**
+ * A refund the worker could not complete while cancelling an event
+ */
+export interface FailedRefund {
+  readonly id: string;
+  readonly cancellationId: string;
+  readonly eventId: string;
+  readonly seatId: string | null; // Set for a seat refund
+  readonly gaReservationId: string | null; // Set for a GA reservation refund
+  readonly batchNumber: number;
+  readonly error: string; // Why the refund failed, for support to follow up
+  readonly failedAt: Date;
+}
+
+/**
+ * Event Cancellation Repository Interface
+ *
+ * Cancellations of events, the progress of their bulk refunds and the
+ * refunds that failed.
+ *
+ * Refund jobs can be delivered more than once (the worker requeues on
+ * errors), so recordBatch() must count each batch at most once.
+ */
+export interface IEventCancellationRepository {
+  /**
+   * Finds the cancellation of an event
+   * @returns The cancellation, or null if the event wasn't cancelled
+   */
+  findByEventId(eventId: string): Promise<EventCancellation | null>;
+
+  /**
+   * Stores a new cancellation
+   * @returns false if the event already has a cancellation
+   */
+  create(cancellation: EventCancellation): Promise<boolean>;
+
+  /**
+   * Atomically adds a processed batch's counts to the cancellation and
+   * stores its failed refunds
+   * @returns false if the batch was recorded before (nothing is changed)
+   */
+  recordBatch(
+    cancellationId: string,
+    batchNumber: number,
+    refundedCount: number,
+    failures: FailedRefund[]
+  ): Promise<boolean>;
+
+  /**
+   * Lists the failed refunds of a cancellation, in the order they failed
+   */
+  findFailedRefunds(cancellationId: string): Promise<FailedRefund[]>;
+}
@@ -0,0 +1,74 @@
+import { Event } from '@/core/domain/event.entity';
+import { Performance } from '@/core/domain/performance.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { PriceCategory } from './IPriceCategoryRepository';
+
+/**
+ * Criteria for listing events
+ */
+export interface EventFilter {
+  readonly from?: Date;           // Events with a showtime at or after this time
+  readonly to?: Date;             // Events with a showtime at or before this time
+  readonly location?: string;     // Venue contains this text (case-insensitive)
+  readonly includeDrafts?: boolean; // Drafts are hidden from buyers, so only back-office lists set this
+}
+
+/**
+ * What a new event goes on sale with: its price table and a first
+ * performance with its seats
+ */
+export interface EventInventory {
+  readonly priceCategories: PriceCategory[];
+  readonly performance: Performance;
+  readonly seats: Seat[];
+}
+
+/**
+ * Event Repository Interface
+ *
+ * Persistence for the event catalogue. Events are created together with
+ * their inventory and only deleted while nothing was ever sold for them,
+ * so a ticket never points at a missing event.
+ */
+export interface IEventRepository {
+  /**
+   * Finds an event by its unique identifier
+   * @returns The event if found, null otherwise
+   */
+  findById(id: string): Promise<Event | null>;
+
+  /**
+   * Lists events matching the filter; an event matches a date range when
+   * its date or one of its performances falls in it
+   * @returns The events, earliest date first
+   */
+  findMany(filter: EventFilter): Promise<Event[]>;
+
+  /**
+   * Creates an event with its price table, first performance and seats in
+   * one transaction (all-or-nothing)
+   * @returns The created event
+   */
+  createWithInventory(event: Event, inventory: EventInventory): Promise<Event>;
+
+  /**
+   * Persists an event's details (not its date, see reschedule())
+   * @returns The saved event
+   */
+  save(event: Event): Promise<Event>;
+
+  /**
+   * Moves an event and its performances in one transaction
+   * @param event - The event with its new date
+   * @param performances - Its performances with their new start times
+   * @returns The saved event
+   */
+  reschedule(event: Event, performances: Performance[]): Promise<Event>;
+
+  /**
+   * Deletes an event with everything it owns, unless any of its seats or
+   * GA tickets is locked, sold or was ever ordered
+   * @returns true if deleted, false if the event has sales (or doesn't exist)
+   */
+  deleteIfUnsold(id: string): Promise<boolean>;
+}
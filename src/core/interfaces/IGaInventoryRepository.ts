@@ -0,0 +1,65 @@
+import { GaZone } from '@/core/domain/ga-zone.entity';
+import { GaReservation } from '@/core/domain/ga-reservation.entity';
+import { Order } from '@/core/domain/order.entity';
+
+/**
+ * General Admission Inventory Repository Interface
+ * 
+ * Defines the contract for GA zones and their reservations.
+ * A zone's `available` counter is only changed together with a
+ * reservation, atomically, so a zone can never be oversold. Sales and
+ * refunds write the buyer's order in the same transaction.
+ */
+export interface IGaInventoryRepository {
+  /**
+   * Finds a zone by its unique identifier
+   * @returns The zone if found, null otherwise
+   */
+  findZoneById(id: string): Promise<GaZone | null>;
+
+  /**
+   * Finds all GA zones of an event
+   * @returns Array of zones, ordered by name
+   */
+  findZonesByEventId(eventId: string): Promise<GaZone[]>;
+
+  /**
+   * Finds a reservation by its unique identifier
+   * @returns The reservation if found, null otherwise
+   */
+  findReservationById(id: string): Promise<GaReservation | null>;
+
+  /**
+   * Finds all reservations of an event
+   * @returns Array of reservations, oldest first
+   */
+  findReservationsByEventId(eventId: string): Promise<GaReservation[]>;
+
+  /**
+   * Takes the reservation's quantity from its zone and stores the new
+   * (LOCKED) reservation, in one atomic step
+   * @returns false if the zone doesn't have enough tickets left (nothing is changed)
+   */
+  reserve(reservation: GaReservation): Promise<boolean>;
+
+  /**
+   * Persists a reservation update that keeps its tickets (e.g. SOLD), and
+   * the order recording the sale if given, in one transaction
+   * @throws ConcurrencyError if the reservation was modified by another process
+   */
+  saveReservation(reservation: GaReservation, order?: Order): Promise<GaReservation>;
+
+  /**
+   * Persists a RELEASED, EXPIRED or REFUNDED reservation and gives its quantity back
+   * to the zone, with the order recording a refund if given, in one transaction
+   * @throws ConcurrencyError if the reservation was modified by another process
+   */
+  releaseReservation(reservation: GaReservation, order?: Order): Promise<GaReservation>;
+
+  /**
+   * Finds LOCKED reservations whose lock expired at or before the given time
+   * @param limit - Maximum number of reservations to return
+   * @returns Array of reservations, oldest expiry first
+   */
+  findExpiredReservations(now: Date, limit: number): Promise<GaReservation[]>;
+}
@@ -0,0 +1,51 @@
+import { Order } from '@/core/domain/order.entity';
+import { Seat } from '@/core/domain/seat.entity';
+
+/**
+ * Order Repository Interface
+ * 
+ * Defines the contract for order persistence operations.
+ * Orders are written together with the seat changes that produced them,
+ * so a sale is never recorded without its seats (and vice versa). GA
+ * orders are written with their reservation by IGaInventoryRepository.
+ */
+export interface IOrderRepository {
+  /**
+   * Finds an order by its unique identifier
+   * @param id - The order's unique ID
+   * @returns The order if found, null otherwise
+   */
+  findById(id: string): Promise<Order | null>;
+
+  /**
+   * Finds all orders placed by a user, newest first
+   * @param userId - The user's unique ID
+   * @returns Array of orders for the user
+   */
+  findByUserId(userId: string): Promise<Order[]>;
+
+  /**
+   * Finds the order holding a seat that has not been refunded
+   * @param seatId - The seat's unique ID
+   * @returns The order if found, null otherwise
+   */
+  findActiveBySeatId(seatId: string): Promise<Order | null>;
+
+  /**
+   * Finds the order holding unrefunded tickets of a GA reservation
+   * @param reservationId - The GA reservation's unique ID
+   * @returns The order if found, null otherwise
+   */
+  findActiveByGaReservationId(reservationId: string): Promise<Order | null>;
+
+  /**
+   * Persists an order (create or update) and the seat state changes
+   * that produced it in a single transaction (all-or-nothing)
+   * 
+   * @param order - The order to create or update
+   * @param seats - The seats to save (with optimistic locking)
+   * @returns The saved order
+   * @throws ConcurrencyError if a seat was modified by another process
+   */
+  saveWithSeats(order: Order, seats: Seat[]): Promise<Order>;
+}
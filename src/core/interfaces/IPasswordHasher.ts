@@ -0,0 +1,18 @@
+/**
+ * Password Hasher Interface
+ *
+ * One-way, salted password hashing. Hashes carry their own salt and
+ * parameters, so verify() only needs the stored hash.
+ */
+export interface IPasswordHasher {
+  /**
+   * Hashes a password with a fresh random salt
+   */
+  hash(password: string): Promise<string>;
+
+  /**
+   * Checks a password against a stored hash (in constant time)
+   * @returns false for a wrong password or a malformed hash
+   */
+  verify(password: string, passwordHash: string): Promise<boolean>;
+}
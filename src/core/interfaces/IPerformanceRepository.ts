@@ -0,0 +1,34 @@
+import { Performance } from '@/core/domain/performance.entity';
+import { Seat } from '@/core/domain/seat.entity';
+
+/**
+ * Performance Repository Interface
+ *
+ * Persistence for event showtimes. A performance is created together
+ * with its seat inventory, so a showtime is never on sale without seats.
+ */
+export interface IPerformanceRepository {
+  /**
+   * Finds a performance by its unique identifier
+   * @returns The performance if found, null otherwise
+   */
+  findById(id: string): Promise<Performance | null>;
+
+  /**
+   * Finds all performances of an event
+   * @returns The performances, earliest first
+   */
+  findByEventId(eventId: string): Promise<Performance[]>;
+
+  /**
+   * Finds all performances of several events in one query
+   * @returns The performances, earliest first
+   */
+  findByEventIds(eventIds: string[]): Promise<Performance[]>;
+
+  /**
+   * Creates a performance and its seats in one transaction (all-or-nothing)
+   * @returns The created performance
+   */
+  createWithSeats(performance: Performance, seats: Seat[]): Promise<Performance>;
+}
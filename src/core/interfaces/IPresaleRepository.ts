@@ -0,0 +1,71 @@
+import { Presale } from '@/core/domain/presale.entity';
+import { PresaleCode } from '@/core/domain/presale-code.entity';
+
+/**
+ * A lock (seat or GA reservation) holding tickets of a redemption
+ */
+export interface PresaleRedemptionLock {
+  readonly lockId: string; // Seat ID or GA reservation ID
+  readonly quantity: number; // Tickets the lock holds
+}
+
+/**
+ * A stored redemption of a presale code (one lock request)
+ */
+export interface PresaleRedemption {
+  readonly id: string;
+  readonly presaleCodeId: string;
+  readonly eventId: string;
+  readonly userId: string;
+  readonly quantity: number; // Tickets locked with the code
+  readonly locks: readonly PresaleRedemptionLock[];
+  readonly createdAt: Date;
+}
+
+/**
+ * Presale Repository Interface
+ *
+ * Presale windows, their code pools and code redemptions.
+ *
+ * Quota checks must hold under concurrency: redeem() takes the tickets
+ * from the code's remaining quota atomically (a conditional decrement, like
+ * GA zone capacity), so two buyers sharing a code can never exceed it.
+ */
+export interface IPresaleRepository {
+  /**
+   * Finds the presales of an event running at a point in time
+   */
+  findActiveByEventId(eventId: string, now: Date): Promise<Presale[]>;
+
+  /**
+   * Finds a code of a presale
+   * @param code - The normalized code (see PresaleCode.normalize)
+   */
+  findCode(presaleId: string, code: string): Promise<PresaleCode | null>;
+
+  /**
+   * Atomically takes `redemption.quantity` tickets from the code's quota
+   * (and its only use, for single-use codes) and stores the redemption
+   * @returns false if the code doesn't have enough quota left or was already used
+   */
+  redeem(code: PresaleCode, redemption: PresaleRedemption): Promise<boolean>;
+
+  /**
+   * Undoes a redemption (the lock it was made for failed): its tickets go
+   * back to the code's quota and the redemption is deleted
+   */
+  releaseRedemption(redemption: PresaleRedemption): Promise<void>;
+
+  /**
+   * Hands back the tickets held by locks that ended without a sale
+   * (cancelled checkout, expired lock, cancelled event). A redemption left
+   * without tickets is deleted, giving a single-use code its use back.
+   * Locks not linked to a redemption are ignored, so it is safe to repeat.
+   */
+  releaseLocks(lockIds: string[]): Promise<void>;
+
+  /**
+   * Unlinks locks that were sold: their tickets stay redeemed for good
+   */
+  settleLocks(lockIds: string[]): Promise<void>;
+}
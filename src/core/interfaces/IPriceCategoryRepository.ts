@@ -0,0 +1,22 @@
+import { SeatPriceCategory } from '@/core/domain/seat.entity';
+
+/**
+ * An entry of an event's price table
+ */
+export interface PriceCategory extends SeatPriceCategory {
+  readonly price: number;
+}
+
+/**
+ * Price Category Repository Interface
+ *
+ * Read-only access to the price table organizers set on their events.
+ */
+export interface IPriceCategoryRepository {
+  /**
+   * Finds the price categories of an event
+   * @param eventId - The event's unique ID
+   * @returns The categories (possibly none), or null if the event doesn't exist
+   */
+  findByEventId(eventId: string): Promise<PriceCategory[] | null>;
+}
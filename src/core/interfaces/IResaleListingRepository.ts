@@ -0,0 +1,44 @@
+import { ResaleListing } from '@/core/domain/resale-listing.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { Order } from '@/core/domain/order.entity';
+
+/**
+ * Resale Listing Repository Interface
+ * 
+ * Defines the contract for resale listing persistence operations.
+ * Listings use optimistic locking (version) like seats, and a completed
+ * resale is saved together with the seat changing hands and the buyer's order.
+ */
+export interface IResaleListingRepository {
+  /**
+   * Finds a listing by its unique identifier
+   * @param id - The listing's unique ID
+   * @returns The listing if found, null otherwise
+   */
+  findById(id: string): Promise<ResaleListing | null>;
+
+  /**
+   * Finds the ACTIVE listing of a seat (there is at most one)
+   * @returns The active listing if found, null otherwise
+   */
+  findActiveBySeatId(seatId: string): Promise<ResaleListing | null>;
+
+  /**
+   * Finds all ACTIVE listings of an event, cheapest first
+   * @param eventId - The event's unique ID
+   */
+  findActiveByEventId(eventId: string): Promise<ResaleListing[]>;
+
+  /**
+   * Persists a listing (create or update)
+   * @throws ConcurrencyError if the listing was modified by another process
+   */
+  save(listing: ResaleListing): Promise<ResaleListing>;
+
+  /**
+   * Persists a sold listing, the seat changing hands and the buyer's
+   * order in a single transaction (all-or-nothing)
+   * @throws ConcurrencyError if the listing or the seat was modified by another process
+   */
+  saveSale(listing: ResaleListing, seat: Seat, order: Order): Promise<ResaleListing>;
+}
@@ -0,0 +1,21 @@
+/**
+ * Organizer-defined resale rules for an event
+ */
+export interface ResalePolicy {
+  readonly eventId: string;
+  readonly maxPricePercent: number | null; // Highest resale price as % of face value; null = resale not allowed
+}
+
+/**
+ * Resale Policy Repository Interface
+ * 
+ * Read-only access to the resale rules organizers set on their events.
+ */
+export interface IResalePolicyRepository {
+  /**
+   * Finds the resale policy of an event
+   * @param eventId - The event's unique ID
+   * @returns The policy, or null if the event doesn't exist
+   */
+  findByEventId(eventId: string): Promise<ResalePolicy | null>;
+}
@@ -0,0 +1,22 @@
+import { SalesWindow } from '@/core/domain/sales-window.entity';
+
+/**
+ * Sales Window Repository Interface
+ *
+ * The lifecycle status and on-sale window organizers set on their events.
+ */
+export interface ISalesWindowRepository {
+  /**
+   * Finds the sales window of an event
+   * @param eventId - The event's unique ID
+   * @returns The window, or null if the event doesn't exist
+   */
+  findByEventId(eventId: string): Promise<SalesWindow | null>;
+
+  /**
+   * Persists the status of an event's sales window
+   * @param window - The sales window to save
+   * @returns The saved window
+   */
+  save(window: SalesWindow): Promise<SalesWindow>;
+}
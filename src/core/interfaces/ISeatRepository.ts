@@ -1,5 +1,23 @@
 import { Seat } from '@/core/domain/seat.entity';
 
+/**
+ * The event a ticket admits to
+ */
+export interface TicketEvent {
+  readonly id: string;
+  readonly title: string;
+  readonly location: string;
+}
+
+/**
+ * A sold seat with the event and showtime it is for
+ */
+export interface SoldTicket {
+  readonly seat: Seat;
+  readonly event: TicketEvent;
+  readonly startsAt: Date; // When the seat's performance starts
+}
+
 /**
  * Seat Repository Interface
  * 
@@ -25,6 +43,13 @@ export interface ISeatRepository {
    */
   findByEventId(eventId: string): Promise<Seat[]>;
 
+  /**
+   * Finds all seats of a performance (showtime)
+   * @param performanceId - The performance's unique ID
+   * @returns Array of seats for the performance
+   */
+  findByPerformanceId(performanceId: string): Promise<Seat[]>;
+
   /**
    * Persists a seat (create or update)
    * @param seat - The seat entity to save
@@ -32,6 +57,14 @@ export interface ISeatRepository {
    */
   save(seat: Seat): Promise<Seat>;
 
+  /**
+   * Persists several seats atomically (all-or-nothing)
+   * @param seats - The seat entities to save
+   * @returns The saved seats
+   * @throws BatchConcurrencyError listing every seat that was modified concurrently
+   */
+  saveAll(seats: Seat[]): Promise<Seat[]>;
+
   /**
    * Finds a seat by ID with optimistic locking check
    * @param id - The seat's unique ID
@@ -39,4 +72,19 @@ export interface ISeatRepository {
    * @returns The seat if found and version matches, null otherwise
    */
   findByIdWithVersion(id: string, expectedVersion: number): Promise<Seat | null>;
+
+  /**
+   * Finds LOCKED seats whose lock expired at or before the given time
+   * @param now - The reference time for expiry
+   * @param limit - Maximum number of seats to return
+   * @returns Array of seats with expired locks, oldest expiry first
+   */
+  findExpiredLocks(now: Date, limit: number): Promise<Seat[]>;
+
+  /**
+   * Finds the SOLD seats a user owns, with their event and showtime
+   * @param userId - The owner (buyer, transfer recipient or resale buyer)
+   * @returns The user's tickets, earliest showtime first
+   */
+  findSoldByUserId(userId: string): Promise<SoldTicket[]>;
 }
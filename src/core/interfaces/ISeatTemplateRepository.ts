@@ -0,0 +1,14 @@
+import { SeatTemplate } from '@/core/domain/seat-template.entity';
+
+/**
+ * Seat Template Repository Interface
+ *
+ * Read-only access to the reusable venue layouts seats are generated from.
+ */
+export interface ISeatTemplateRepository {
+  /**
+   * Finds a template with all its seat positions
+   * @returns The template if found, null otherwise
+   */
+  findById(id: string): Promise<SeatTemplate | null>;
+}
@@ -0,0 +1,36 @@
+import { TicketTransfer } from '@/core/domain/ticket-transfer.entity';
+import { Seat } from '@/core/domain/seat.entity';
+
+/**
+ * Ticket Transfer Repository Interface
+ * 
+ * Defines the contract for ticket transfer persistence operations.
+ * Transfers use optimistic locking (version) like seats, and an accepted
+ * transfer is saved together with the seat changing hands.
+ */
+export interface ITicketTransferRepository {
+  /**
+   * Finds a transfer by its unique identifier
+   * @param id - The transfer's unique ID
+   * @returns The transfer if found, null otherwise
+   */
+  findById(id: string): Promise<TicketTransfer | null>;
+
+  /**
+   * Finds the PENDING transfer of a seat (there is at most one)
+   * @returns The pending transfer if found, null otherwise
+   */
+  findPendingBySeatId(seatId: string): Promise<TicketTransfer | null>;
+
+  /**
+   * Persists a transfer (create or update)
+   * @throws ConcurrencyError if the transfer was modified by another process
+   */
+  save(transfer: TicketTransfer): Promise<TicketTransfer>;
+
+  /**
+   * Persists a transfer and the seat changing hands in a single transaction
+   * @throws ConcurrencyError if the transfer or the seat was modified by another process
+   */
+  saveWithSeat(transfer: TicketTransfer, seat: Seat): Promise<TicketTransfer>;
+}
@@ -0,0 +1,32 @@
+import { User } from '@/core/domain/user.entity';
+
+/**
+ * User Repository Interface
+ *
+ * Registered accounts, looked up by ID (sessions) or email (sign-in).
+ */
+export interface IUserRepository {
+  /**
+   * Finds a user by its unique identifier
+   * @returns The user if found, null otherwise
+   */
+  findById(id: string): Promise<User | null>;
+
+  /**
+   * Finds a user by email
+   * @param email - The normalized email (see User.normalizeEmail)
+   * @returns The user if found, null otherwise
+   */
+  findByEmail(email: string): Promise<User | null>;
+
+  /**
+   * Stores a new user
+   * @returns false if the email is already registered
+   */
+  create(user: User): Promise<boolean>;
+
+  /**
+   * Saves changes to an existing user (its role)
+   */
+  save(user: User): Promise<User>;
+}
@@ -0,0 +1,32 @@
+/**
+ * A user's place in an event's waiting room queue
+ */
+export interface QueueTicket {
+  readonly number: number;        // 1-based arrival order
+  readonly admittedUpTo: number;  // Every ticket <= this number is admitted
+}
+
+/**
+ * Waiting Room Queue Interface
+ * 
+ * A first-come, first-served queue per event that admits tickets at a
+ * fixed rate. Admission is a moving pointer: it advances by
+ * `admitsPerMinute` as time passes, but never past the last ticket issued,
+ * so quiet periods don't bank capacity for the next rush.
+ * 
+ * Implementations must make join() atomic (one ticket per user).
+ */
+export interface IWaitingRoomQueue {
+  /**
+   * Issues a ticket to the user (or returns the one they already have)
+   * @param admitsPerMinute - Admission rate used to advance the pointer
+   * @param now - Reference time
+   */
+  join(eventId: string, userId: string, admitsPerMinute: number, now: Date): Promise<QueueTicket>;
+
+  /**
+   * Finds the user's ticket with the admission pointer advanced to `now`
+   * @returns The ticket, or null if the user never joined
+   */
+  findTicket(eventId: string, userId: string, admitsPerMinute: number, now: Date): Promise<QueueTicket | null>;
+}
@@ -0,0 +1,54 @@
+import { WaitlistEntry } from '@/core/domain/waitlist-entry.entity';
+import { Seat } from '@/core/domain/seat.entity';
+
+/**
+ * Waitlist Repository Interface
+ * 
+ * Defines the contract for waitlist persistence operations.
+ * Entries use optimistic locking (version) like seats, and an offer is
+ * saved together with the seat it holds so the two never disagree.
+ */
+export interface IWaitlistRepository {
+  /**
+   * Finds a waitlist entry by its unique identifier
+   * @param id - The entry's unique ID
+   * @returns The entry if found, null otherwise
+   */
+  findById(id: string): Promise<WaitlistEntry | null>;
+
+  /**
+   * Finds the user's WAITING or OFFERED entry for an event
+   * @returns The active entry if found, null otherwise
+   */
+  findActiveByEventAndUser(eventId: string, userId: string): Promise<WaitlistEntry | null>;
+
+  /**
+   * Finds the oldest WAITING entry for an event (front of the queue)
+   * @returns The next entry if found, null otherwise
+   */
+  findNextWaiting(eventId: string): Promise<WaitlistEntry | null>;
+
+  /**
+   * Finds the OFFERED entry holding a seat
+   * @returns The entry if found, null otherwise
+   */
+  findOfferedBySeatId(seatId: string): Promise<WaitlistEntry | null>;
+
+  /**
+   * Counts WAITING entries for an event created before the given time
+   * (i.e. how many users are ahead in the queue)
+   */
+  countWaitingBefore(eventId: string, createdAt: Date): Promise<number>;
+
+  /**
+   * Persists an entry (create or update)
+   * @throws ConcurrencyError if the entry was modified by another process
+   */
+  save(entry: WaitlistEntry): Promise<WaitlistEntry>;
+
+  /**
+   * Persists an entry and the seat it holds (or gives up) in a single transaction
+   * @throws ConcurrencyError if the entry or the seat was modified by another process
+   */
+  saveWithSeat(entry: WaitlistEntry, seat: Seat): Promise<WaitlistEntry>;
+}
@@ -2,6 +2,23 @@
  * Core Interfaces Exports
  */
 
-export type { ISeatRepository } from './ISeatRepository';
+export type { ISeatRepository, SoldTicket, TicketEvent } from './ISeatRepository';
+export type { IOrderRepository } from './IOrderRepository';
 export type { ICache } from './ICache';
 export type { IEventPublisher } from './IEventPublisher';
+export type { IWaitlistRepository } from './IWaitlistRepository';
+export type { ITicketTransferRepository } from './ITicketTransferRepository';
+export type { IWaitingRoomQueue, QueueTicket } from './IWaitingRoomQueue';
+export type { IResaleListingRepository } from './IResaleListingRepository';
+export type { IResalePolicyRepository, ResalePolicy } from './IResalePolicyRepository';
+export type { IGaInventoryRepository } from './IGaInventoryRepository';
+export type { IEventRepository, EventFilter, EventInventory } from './IEventRepository';
+export type { IPerformanceRepository } from './IPerformanceRepository';
+export type { ISeatTemplateRepository } from './ISeatTemplateRepository';
+export type { IPriceCategoryRepository, PriceCategory } from './IPriceCategoryRepository';
+export type { ISalesWindowRepository } from './ISalesWindowRepository';
+export type { IPresaleRepository, PresaleRedemption } from './IPresaleRepository';
+export type { IEventCancellationRepository, FailedRefund } from './IEventCancellationRepository';
+export type { IUserRepository } from './IUserRepository';
+export type { IPasswordHasher } from './IPasswordHasher';
+export type { IApiKeyRepository } from './IApiKeyRepository';
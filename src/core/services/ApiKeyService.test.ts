@@ -0,0 +1,98 @@
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+import { InMemoryApiKeyRepository } from '@/infrastructure/repositories/InMemoryApiKeyRepository';
+import {
+  ApiKeyService,
+  ApiKeyNotFoundError,
+  ApiKeyScopeError,
+  InvalidApiKeyError,
+  API_KEY_PREFIX,
+} from './ApiKeyService';
+
+describe('ApiKeyService', () => {
+  let apiKeyRepository: InMemoryApiKeyRepository;
+  let apiKeyService: ApiKeyService;
+
+  const createBoxOfficeKey = () =>
+    apiKeyService.createKey({
+      partnerId: 'box-office',
+      name: 'Ticket windows',
+      scopes: [ApiKeyScope.SEATS_READ, ApiKeyScope.SEATS_LOCK],
+      createdBy: 'admin-1',
+    });
+
+  beforeEach(() => {
+    apiKeyRepository = new InMemoryApiKeyRepository();
+    apiKeyService = new ApiKeyService(apiKeyRepository);
+  });
+
+  describe('createKey()', () => {
+    it('should store only the hash and a display prefix of the key', async () => {
+      // Act
+      const { apiKey, secret } = await createBoxOfficeKey();
+
+      // Assert
+      expect(secret.startsWith(API_KEY_PREFIX)).toBe(true);
+      expect(secret.startsWith(apiKey.keyPrefix)).toBe(true);
+      expect(apiKey.keyHash).toBe(ApiKeyService.hashKey(secret));
+      expect(JSON.stringify(await apiKeyRepository.findAll())).not.toContain(secret);
+    });
+
+    it('should issue a different key each time', async () => {
+      const first = await createBoxOfficeKey();
+      const second = await createBoxOfficeKey();
+
+      expect(first.secret).not.toBe(second.secret);
+    });
+  });
+
+  describe('authenticate()', () => {
+    it('should return the key for a scope it has', async () => {
+      const { apiKey, secret } = await createBoxOfficeKey();
+
+      const authenticated = await apiKeyService.authenticate(secret, ApiKeyScope.SEATS_LOCK);
+
+      expect(authenticated.id).toBe(apiKey.id);
+      expect(authenticated.partnerId).toBe('box-office');
+    });
+
+    it('should throw ApiKeyScopeError for a scope it lacks', async () => {
+      const { secret } = await createBoxOfficeKey();
+
+      await expect(apiKeyService.authenticate(secret, ApiKeyScope.PAYMENTS_CONFIRM)).rejects.toThrow(ApiKeyScopeError);
+    });
+
+    it('should throw InvalidApiKeyError for an unknown key', async () => {
+      await createBoxOfficeKey();
+
+      await expect(apiKeyService.authenticate(`${API_KEY_PREFIX}guess`, ApiKeyScope.SEATS_READ)).rejects.toThrow(
+        InvalidApiKeyError
+      );
+    });
+
+    it('should throw InvalidApiKeyError once the key is revoked', async () => {
+      // Arrange
+      const { apiKey, secret } = await createBoxOfficeKey();
+
+      // Act
+      await apiKeyService.revokeKey(apiKey.id);
+
+      // Assert
+      await expect(apiKeyService.authenticate(secret, ApiKeyScope.SEATS_READ)).rejects.toThrow(InvalidApiKeyError);
+    });
+  });
+
+  describe('revokeKey()', () => {
+    it('should keep the first revocation time when revoked twice', async () => {
+      const { apiKey } = await createBoxOfficeKey();
+
+      const revoked = await apiKeyService.revokeKey(apiKey.id);
+      const revokedAgain = await apiKeyService.revokeKey(apiKey.id);
+
+      expect(revokedAgain.revokedAt).toEqual(revoked.revokedAt);
+    });
+
+    it('should throw ApiKeyNotFoundError for an unknown key', async () => {
+      await expect(apiKeyService.revokeKey('missing')).rejects.toThrow(ApiKeyNotFoundError);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { ApiKey, ApiKeyScope } from '@/core/domain/api-key.entity';
+import { IApiKeyRepository } from '@/core/interfaces/IApiKeyRepository';
+
+/**
+ * Prefix of every key, so leaked keys are easy to spot (e.g. by secret scanners)
+ */
+export const API_KEY_PREFIX = 'trk_';
+
+/**
+ * Characters of the key kept in the clear to tell keys apart
+ */
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+/**
+ * Custom Error: Unknown or revoked API key
+ *
+ * Deliberately doesn't say which, like InvalidCredentialsError.
+ */
+export class InvalidApiKeyError extends Error {
+  constructor() {
+    super('Invalid or revoked API key');
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+/**
+ * Custom Error: The key is valid but lacks the scope the route needs
+ */
+export class ApiKeyScopeError extends Error {
+  constructor(
+    public readonly apiKey: ApiKey,
+    public readonly scope: ApiKeyScope
+  ) {
+    super(`API key ${apiKey.keyPrefix}… lacks the ${scope} scope`);
+    this.name = 'ApiKeyScopeError';
+  }
+}
+
+/**
+ * Custom Error: API key not found
+ */
+export class ApiKeyNotFoundError extends Error {
+  constructor(apiKeyId: string) {
+    super(`API key ${apiKeyId} not found`);
+    this.name = 'ApiKeyNotFoundError';
+  }
+}
+
+/**
+ * A newly created key, with the only copy of its secret
+ */
+export interface CreatedApiKey {
+  readonly apiKey: ApiKey;
+  readonly secret: string;
+}
+
+/**
+ * API Key Service
+ *
+ * Issues, revokes and checks the keys partners use to call the booking
+ * API server-to-server. Only the SHA-256 of a key is stored: keys are 32
+ * random bytes, so a fast hash is enough and a lookup by hash needs no
+ * per-key salt. The secret is shown once, when the key is created.
+ *
+ * @example
+ * ```typescript
+ * const apiKeys = new ApiKeyService(apiKeyRepo);
+ * const { secret } = await apiKeys.createKey({ partnerId: 'box-office', name: 'Windows', scopes, createdBy });
+ * const apiKey = await apiKeys.authenticate(secret, ApiKeyScope.SEATS_LOCK);
+ * ```
+ */
+export class ApiKeyService {
+  constructor(private readonly apiKeyRepository: IApiKeyRepository) {}
+
+  /**
+   * Hashes a key the way it is stored
+   */
+  static hashKey(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  /**
+   * Creates a key for a partner
+   *
+   * @param createdBy - The admin creating it (null for the admin API key)
+   * @returns The key and its secret (not retrievable later)
+   */
+  async createKey(params: {
+    partnerId: string;
+    name: string;
+    scopes: readonly ApiKeyScope[];
+    createdBy: string | null;
+  }): Promise<CreatedApiKey> {
+    const secret = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    const apiKey = ApiKey.create({
+      id: randomUUID(),
+      partnerId: params.partnerId,
+      name: params.name,
+      keyPrefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: ApiKeyService.hashKey(secret),
+      scopes: params.scopes,
+      createdBy: params.createdBy,
+    });
+
+    return { apiKey: await this.apiKeyRepository.save(apiKey), secret };
+  }
+
+  /**
+   * Lists all keys, revoked ones included, newest first
+   */
+  async listKeys(): Promise<ApiKey[]> {
+    return this.apiKeyRepository.findAll();
+  }
+
+  /**
+   * Revokes a key; requests made with it fail from now on
+   *
+   * @returns The revoked key (unchanged if it was already revoked)
+   * @throws ApiKeyNotFoundError if the key doesn't exist
+   */
+  async revokeKey(apiKeyId: string): Promise<ApiKey> {
+    const apiKey = await this.apiKeyRepository.findById(apiKeyId);
+
+    if (!apiKey) {
+      throw new ApiKeyNotFoundError(apiKeyId);
+    }
+
+    if (apiKey.isRevoked()) {
+      return apiKey;
+    }
+
+    return this.apiKeyRepository.save(apiKey.revoke());
+  }
+
+  /**
+   * Checks a key presented by a partner
+   *
+   * @param secret - The key from the request
+   * @param scope - The scope the route needs
+   * @returns The key, whose partnerId identifies the caller
+   * @throws InvalidApiKeyError if the key is unknown or revoked
+   * @throws ApiKeyScopeError if the key lacks the scope
+   */
+  async authenticate(secret: string, scope: ApiKeyScope): Promise<ApiKey> {
+    const apiKey = secret.startsWith(API_KEY_PREFIX)
+      ? await this.apiKeyRepository.findByHash(ApiKeyService.hashKey(secret))
+      : null;
+
+    if (!apiKey || apiKey.isRevoked()) {
+      throw new InvalidApiKeyError();
+    }
+
+    if (!apiKey.hasScope(scope)) {
+      throw new ApiKeyScopeError(apiKey, scope);
+    }
+
+    return apiKey;
+  }
+}
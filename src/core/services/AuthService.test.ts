@@ -0,0 +1,88 @@
+import { User, UserRole } from '@/core/domain/user.entity';
+import { InMemoryUserRepository } from '@/infrastructure/repositories/InMemoryUserRepository';
+import { ScryptPasswordHasher } from '@/infrastructure/auth/ScryptPasswordHasher';
+import {
+  AuthService,
+  EmailAlreadyRegisteredError,
+  InvalidCredentialsError,
+  UserNotFoundError,
+} from './AuthService';
+
+describe('AuthService', () => {
+  let userRepository: InMemoryUserRepository;
+  let passwordHasher: ScryptPasswordHasher;
+  let authService: AuthService;
+
+  beforeEach(() => {
+    userRepository = new InMemoryUserRepository();
+    passwordHasher = new ScryptPasswordHasher();
+    authService = new AuthService(userRepository, passwordHasher);
+  });
+
+  describe('register()', () => {
+    it('should create a customer with a hashed password', async () => {
+      // Act
+      const user = await authService.register(' Fan@Example.com', 'correct horse');
+
+      // Assert
+      expect(user.email).toBe('fan@example.com');
+      expect(user.role).toBe(UserRole.CUSTOMER);
+      expect(user.passwordHash).not.toContain('correct horse');
+      expect(await passwordHasher.verify('correct horse', user.passwordHash)).toBe(true);
+      expect(await userRepository.findByEmail('fan@example.com')).toBe(user);
+    });
+
+    it('should throw EmailAlreadyRegisteredError for an email in any case', async () => {
+      await authService.register('fan@example.com', 'correct horse');
+
+      await expect(authService.register('FAN@example.com', 'another one')).rejects.toThrow(EmailAlreadyRegisteredError);
+    });
+  });
+
+  describe('authenticate()', () => {
+    beforeEach(async () => {
+      await authService.register('fan@example.com', 'correct horse');
+    });
+
+    it('should return the user for the right password', async () => {
+      const user = await authService.authenticate('Fan@Example.com', 'correct horse');
+
+      expect(user.email).toBe('fan@example.com');
+    });
+
+    it('should throw InvalidCredentialsError for a wrong password', async () => {
+      await expect(authService.authenticate('fan@example.com', 'battery staple')).rejects.toThrow(InvalidCredentialsError);
+    });
+
+    it('should throw InvalidCredentialsError for an unknown email', async () => {
+      await expect(authService.authenticate('nobody@example.com', 'correct horse')).rejects.toThrow(InvalidCredentialsError);
+    });
+
+    it('should reject a malformed stored hash', async () => {
+      userRepository.seed([User.create({ id: 'user-2', email: 'legacy@example.com', passwordHash: 'plain-text' })]);
+
+      await expect(authService.authenticate('legacy@example.com', 'plain-text')).rejects.toThrow(InvalidCredentialsError);
+    });
+  });
+
+  describe('assignRole()', () => {
+    it('should give the user the new role', async () => {
+      const { id } = await authService.register('staff@example.com', 'correct horse');
+
+      const user = await authService.assignRole(id, UserRole.BOX_OFFICE);
+
+      expect(user.role).toBe(UserRole.BOX_OFFICE);
+      expect((await authService.getUser(id)).role).toBe(UserRole.BOX_OFFICE);
+    });
+
+    it('should throw UserNotFoundError for an unknown user', async () => {
+      await expect(authService.assignRole('user-404', UserRole.SUPPORT)).rejects.toThrow(UserNotFoundError);
+    });
+  });
+
+  describe('getUser()', () => {
+    it('should throw UserNotFoundError for an unknown user', async () => {
+      await expect(authService.getUser('user-404')).rejects.toThrow(UserNotFoundError);
+    });
+  });
+});
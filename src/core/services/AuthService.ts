@@ -0,0 +1,141 @@
+import { randomUUID } from 'crypto';
+import { User, UserRole } from '@/core/domain/user.entity';
+import { IUserRepository } from '@/core/interfaces/IUserRepository';
+import { IPasswordHasher } from '@/core/interfaces/IPasswordHasher';
+
+/**
+ * Custom Error: Email already has an account
+ */
+export class EmailAlreadyRegisteredError extends Error {
+  constructor(email: string) {
+    super(`An account for ${email} already exists`);
+    this.name = 'EmailAlreadyRegisteredError';
+  }
+}
+
+/**
+ * Custom Error: Unknown email or wrong password
+ *
+ * Deliberately doesn't say which, so sign-in can't be used to find out
+ * who has an account.
+ */
+export class InvalidCredentialsError extends Error {
+  constructor() {
+    super('Invalid email or password');
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+/**
+ * Custom Error: User not found
+ */
+export class UserNotFoundError extends Error {
+  constructor(userId: string) {
+    super(`User ${userId} not found`);
+    this.name = 'UserNotFoundError';
+  }
+}
+
+/**
+ * Auth Service
+ *
+ * Registers accounts and checks credentials. Sessions are issued by the
+ * API layer (see lib/api/session) once a user is authenticated.
+ *
+ * @example
+ * ```typescript
+ * const auth = new AuthService(userRepo, new ScryptPasswordHasher());
+ * await auth.register('fan@example.com', 'correct horse');
+ * const user = await auth.authenticate('fan@example.com', 'correct horse');
+ * ```
+ */
+export class AuthService {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly passwordHasher: IPasswordHasher
+  ) {}
+
+  /**
+   * Creates a customer account
+   *
+   * @param email - Account email (case-insensitive)
+   * @param password - Plain-text password, stored hashed
+   * @returns The new user
+   * @throws EmailAlreadyRegisteredError if the email already has an account
+   */
+  async register(email: string, password: string): Promise<User> {
+    const normalizedEmail = User.normalizeEmail(email);
+
+    if (await this.userRepository.findByEmail(normalizedEmail)) {
+      throw new EmailAlreadyRegisteredError(normalizedEmail);
+    }
+
+    const user = User.create({
+      id: randomUUID(),
+      email: normalizedEmail,
+      passwordHash: await this.passwordHasher.hash(password),
+    });
+
+    // Two sign-ups racing for the same email: only one insert wins
+    if (!(await this.userRepository.create(user))) {
+      throw new EmailAlreadyRegisteredError(normalizedEmail);
+    }
+
+    return user;
+  }
+
+  /**
+   * Checks an email and password
+   *
+   * @returns The signed-in user
+   * @throws InvalidCredentialsError if the email is unknown or the password is wrong
+   */
+  async authenticate(email: string, password: string): Promise<User> {
+    const user = await this.userRepository.findByEmail(User.normalizeEmail(email));
+
+    if (!user) {
+      // Hash anyway so unknown emails take as long as wrong passwords
+      await this.passwordHasher.hash(password);
+      throw new InvalidCredentialsError();
+    }
+
+    if (!(await this.passwordHasher.verify(password, user.passwordHash))) {
+      throw new InvalidCredentialsError();
+    }
+
+    return user;
+  }
+
+  /**
+   * Gets a user by ID
+   *
+   * @throws UserNotFoundError if the user doesn't exist (e.g. deleted since signing in)
+   */
+  async getUser(userId: string): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new UserNotFoundError(userId);
+    }
+
+    return user;
+  }
+
+  /**
+   * Gives a user another role (e.g. makes them box office staff)
+   *
+   * The user's session still names the old role; admin routes read the
+   * role from the account (see lib/api/admin), so a demotion applies at once.
+   *
+   * @throws UserNotFoundError if the user doesn't exist
+   */
+  async assignRole(userId: string, role: UserRole): Promise<User> {
+    const user = await this.getUser(userId);
+
+    if (user.role === role) {
+      return user;
+    }
+
+    return this.userRepository.save(user.withRole(role));
+  }
+}
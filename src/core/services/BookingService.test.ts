@@ -1,15 +1,48 @@
 import { Seat, SeatStatus } from '@/core/domain/seat.entity';
+import { Order, OrderStatus } from '@/core/domain/order.entity';
+import { BatchConcurrencyError } from '@/core/errors/repository.errors';
+import { EVENT_QUEUES } from '@/core/events';
 import { InMemorySeatRepository } from '@/infrastructure/repositories/InMemorySeatRepository';
-import { BookingService, SeatNotFoundError, SeatNotAvailableError } from './BookingService';
+import { InMemoryOrderRepository } from '@/infrastructure/repositories/InMemoryOrderRepository';
+import { InMemoryTicketTransferRepository } from '@/infrastructure/repositories/InMemoryTicketTransferRepository';
+import { InMemorySalesWindowRepository } from '@/infrastructure/repositories/InMemorySalesWindowRepository';
+import { InMemoryPresaleRepository } from '@/infrastructure/repositories/InMemoryPresaleRepository';
+import { SalesWindow, EventStatus } from '@/core/domain/sales-window.entity';
+import { Presale } from '@/core/domain/presale.entity';
+import { PresaleCode } from '@/core/domain/presale-code.entity';
+import { TicketTransferStatus } from '@/core/domain/ticket-transfer.entity';
+import {
+  BookingService,
+  SeatNotFoundError,
+  SeatNotAvailableError,
+  LockExpiredError,
+  SeatNotRefundableError,
+  SeatNotHeldError,
+  SeatNotAdmittedError,
+  EventNotOnSaleError,
+  PresaleCodeRequiredError,
+  InvalidPresaleCodeError,
+  PresaleQuotaExceededError,
+  UnauthorizedLockError,
+  LockExtensionLimitError,
+  TicketNotOwnedError,
+  TicketNotTransferableError,
+  TransferAlreadyPendingError,
+  TransferNotPendingError,
+  TransferRecipientMismatchError,
+} from './BookingService';
+import { LockExpirySweeper } from './LockExpirySweeper';
 
 describe('BookingService', () => {
   let seatRepository: InMemorySeatRepository;
+  let orderRepository: InMemoryOrderRepository;
   let bookingService: BookingService;
 
   beforeEach(() => {
-    // Fresh repository and service for each test
+    // Fresh repositories and service for each test
     seatRepository = new InMemorySeatRepository();
-    bookingService = new BookingService(seatRepository);
+    orderRepository = new InMemoryOrderRepository(seatRepository);
+    bookingService = new BookingService(seatRepository, orderRepository);
   });
 
   describe('lockSeat()', () => {
@@ -18,6 +51,7 @@ describe('BookingService', () => {
       const seat = Seat.create({
         id: 'seat-1',
         eventId: 'event-1',
+        performanceId: 'perf-1',
         seatNumber: 'A1',
         price: 100,
       });
@@ -37,6 +71,7 @@ describe('BookingService', () => {
       const seat = Seat.create({
         id: 'seat-1',
         eventId: 'event-1',
+        performanceId: 'perf-1',
         seatNumber: 'A1',
         price: 100,
       });
@@ -58,11 +93,30 @@ describe('BookingService', () => {
       ).rejects.toThrow(SeatNotFoundError);
     });
 
+    it('should throw SeatNotAdmittedError if the seat is outside the admitted event', async () => {
+      // Arrange
+      const seat = Seat.create({
+        id: 'seat-1',
+        eventId: 'event-1',
+        performanceId: 'perf-1',
+        seatNumber: 'A1',
+        price: 100,
+      });
+      seatRepository.seed([seat]);
+
+      // Act & Assert
+      await expect(
+        bookingService.lockSeat('seat-1', 'user-123', 'event-2')
+      ).rejects.toThrow(SeatNotAdmittedError);
+      expect((await seatRepository.findById('seat-1'))?.status).toBe(SeatStatus.AVAILABLE);
+    });
+
     it('should throw SeatNotAvailableError if seat is already LOCKED', async () => {
       // Arrange
       const lockedSeat = Seat.create({
         id: 'seat-1',
         eventId: 'event-1',
+        performanceId: 'perf-1',
         seatNumber: 'A1',
         price: 100,
       }).lock('user-999');
@@ -79,6 +133,7 @@ describe('BookingService', () => {
       const soldSeat = Seat.create({
         id: 'seat-1',
         eventId: 'event-1',
+        performanceId: 'perf-1',
         seatNumber: 'A1',
         price: 100,
       }).lock('user-999').sell();
@@ -99,6 +154,7 @@ describe('BookingService', () => {
       const originalSeat = Seat.create({
         id: 'seat-1',
         eventId: 'event-1',
+        performanceId: 'perf-1',
         seatNumber: 'A1',
         price: 100,
       });
@@ -112,6 +168,305 @@ describe('BookingService', () => {
       expect(lockedSeat.status).toBe(SeatStatus.LOCKED);
       expect(lockedSeat).not.toBe(originalSeat);
     });
+
+    describe('sales window', () => {
+      let salesWindowRepository: InMemorySalesWindowRepository;
+
+      beforeEach(() => {
+        seatRepository.seed([
+          Seat.create({ id: 'seat-1', eventId: 'event-1', performanceId: 'perf-1', seatNumber: 'A1', price: 100 }),
+        ]);
+        salesWindowRepository = new InMemorySalesWindowRepository();
+        bookingService = new BookingService(
+          seatRepository,
+          orderRepository,
+          undefined,
+          undefined,
+          undefined,
+          salesWindowRepository
+        );
+      });
+
+      it('should lock a seat while the event is on sale', async () => {
+        salesWindowRepository.seed([
+          SalesWindow.create({
+            eventId: 'event-1',
+            status: EventStatus.ON_SALE,
+            salesEndAt: new Date(Date.now() + 60 * 60 * 1000),
+          }),
+        ]);
+
+        const lockedSeat = await bookingService.lockSeat('seat-1', 'user-123');
+
+        expect(lockedSeat.status).toBe(SeatStatus.LOCKED);
+      });
+
+      it('should throw EventNotOnSaleError before the on-sale', async () => {
+        const salesStartAt = new Date(Date.now() + 60 * 60 * 1000);
+        salesWindowRepository.seed([
+          SalesWindow.create({ eventId: 'event-1', status: EventStatus.SCHEDULED, salesStartAt }),
+        ]);
+
+        await expect(bookingService.lockSeat('seat-1', 'user-123')).rejects.toMatchObject({
+          name: 'EventNotOnSaleError',
+          status: EventStatus.SCHEDULED,
+          salesStartAt,
+        });
+        expect((await seatRepository.findById('seat-1'))?.status).toBe(SeatStatus.AVAILABLE);
+      });
+
+      it('should throw EventNotOnSaleError once sales have ended', async () => {
+        salesWindowRepository.seed([
+          SalesWindow.create({
+            eventId: 'event-1',
+            status: EventStatus.ON_SALE,
+            salesEndAt: new Date(Date.now() - 1000),
+          }),
+        ]);
+
+        await expect(bookingService.lockSeat('seat-1', 'user-123')).rejects.toThrow(
+          'Event event-1 is not on sale (current status: CLOSED)'
+        );
+      });
+
+      it('should reject bulk locks for a cancelled event', async () => {
+        salesWindowRepository.seed([SalesWindow.create({ eventId: 'event-1', status: EventStatus.CANCELLED })]);
+
+        await expect(bookingService.lockSeats(['seat-1'], 'user-123')).rejects.toThrow(EventNotOnSaleError);
+      });
+    });
+  });
+
+  describe('lockSeats()', () => {
+    const seats = () => [
+      Seat.create({ id: 'seat-1', eventId: 'event-1', performanceId: 'perf-1', seatNumber: 'A1', price: 100 }),
+      Seat.create({ id: 'seat-2', eventId: 'event-1', performanceId: 'perf-1', seatNumber: 'A2', price: 100 }),
+      Seat.create({ id: 'seat-3', eventId: 'event-1', performanceId: 'perf-1', seatNumber: 'A3', price: 100 }),
+    ];
+
+    it('should lock every requested seat for the user', async () => {
+      // Arrange
+      seatRepository.seed(seats());
+
+      // Act
+      const lockedSeats = await bookingService.lockSeats(['seat-1', 'seat-2', 'seat-3'], 'user-123');
+
+      // Assert
+      expect(lockedSeats).toHaveLength(3);
+      for (const id of ['seat-1', 'seat-2', 'seat-3']) {
+        const savedSeat = await seatRepository.findById(id);
+        expect(savedSeat?.isLockedBy('user-123')).toBe(true);
+      }
+    });
+
+    it('should lock nothing if one seat is not available', async () => {
+      // Arrange
+      const [seat1, seat2, seat3] = seats();
+      seatRepository.seed([seat1, seat2.lock('user-999'), seat3]);
+
+      // Act & Assert
+      await expect(
+        bookingService.lockSeats(['seat-1', 'seat-2', 'seat-3'], 'user-123')
+      ).rejects.toThrow(SeatNotAvailableError);
+
+      expect((await seatRepository.findById('seat-1'))?.status).toBe(SeatStatus.AVAILABLE);
+      expect((await seatRepository.findById('seat-3'))?.status).toBe(SeatStatus.AVAILABLE);
+    });
+
+    it('should throw SeatNotFoundError if one seat does not exist', async () => {
+      // Arrange
+      seatRepository.seed(seats());
+
+      // Act & Assert
+      await expect(
+        bookingService.lockSeats(['seat-1', 'missing-seat'], 'user-123')
+      ).rejects.toThrow(SeatNotFoundError);
+
+      expect((await seatRepository.findById('seat-1'))?.status).toBe(SeatStatus.AVAILABLE);
+    });
+
+    it('should propagate the conflicting seats when the batch is rolled back', async () => {
+      // Arrange
+      seatRepository.seed(seats());
+      jest
+        .spyOn(seatRepository, 'saveAll')
+        .mockRejectedValue(new BatchConcurrencyError('Seat', ['seat-2']));
+
+      // Act & Assert
+      await expect(
+        bookingService.lockSeats(['seat-1', 'seat-2'], 'user-123')
+      ).rejects.toMatchObject({ entityIds: ['seat-2'] });
+    });
+  });
+
+  describe('presales', () => {
+    let presaleRepository: InMemoryPresaleRepository;
+    const hour = 60 * 60 * 1000;
+    const seats = () => [
+      Seat.create({ id: 'seat-1', eventId: 'event-1', performanceId: 'perf-1', seatNumber: 'A1', price: 100 }),
+      Seat.create({ id: 'seat-2', eventId: 'event-1', performanceId: 'perf-1', seatNumber: 'A2', price: 100 }),
+      Seat.create({ id: 'seat-3', eventId: 'event-1', performanceId: 'perf-1', seatNumber: 'A3', price: 100 }),
+    ];
+    const remaining = async (code: string) => (await presaleRepository.findCode('presale-1', code))?.ticketsRemaining;
+
+    beforeEach(() => {
+      seatRepository.seed(seats());
+
+      // General on-sale opens in an hour; the fan club presale runs until then
+      const salesWindowRepository = new InMemorySalesWindowRepository();
+      salesWindowRepository.seed([
+        SalesWindow.create({
+          eventId: 'event-1',
+          status: EventStatus.SCHEDULED,
+          salesStartAt: new Date(Date.now() + hour),
+        }),
+      ]);
+
+      presaleRepository = new InMemoryPresaleRepository();
+      presaleRepository.seed(
+        [
+          Presale.create({
+            id: 'presale-1',
+            eventId: 'event-1',
+            name: 'Fan Club',
+            startsAt: new Date(Date.now() - hour),
+            endsAt: new Date(Date.now() + hour),
+          }),
+        ],
+        [
+          PresaleCode.create({ id: 'code-1', presaleId: 'presale-1', code: 'FANCLUB', ticketQuota: 2 }),
+          PresaleCode.create({ id: 'code-2', presaleId: 'presale-1', code: 'VIP', singleUse: true, ticketQuota: 4 }),
+        ]
+      );
+
+      bookingService = new BookingService(
+        seatRepository,
+        orderRepository,
+        undefined,
+        undefined,
+        undefined,
+        salesWindowRepository,
+        presaleRepository
+      );
+    });
+
+    it('should lock with a valid code and store the redemption', async () => {
+      const lockedSeat = await bookingService.lockSeat('seat-1', 'user-123', undefined, ' fanclub ');
+
+      expect(lockedSeat.status).toBe(SeatStatus.LOCKED);
+      expect(await remaining('FANCLUB')).toBe(1);
+      expect(presaleRepository.getRedemptions()).toEqual([
+        expect.objectContaining({ presaleCodeId: 'code-1', eventId: 'event-1', userId: 'user-123', quantity: 1 }),
+      ]);
+    });
+
+    it('should require a code during the presale', async () => {
+      await expect(bookingService.lockSeat('seat-1', 'user-123')).rejects.toThrow(PresaleCodeRequiredError);
+    });
+
+    it('should reject a code that is not part of the presale', async () => {
+      await expect(bookingService.lockSeat('seat-1', 'user-123', undefined, 'NOPE')).rejects.toThrow(
+        InvalidPresaleCodeError
+      );
+    });
+
+    it('should never unlock more tickets than the quota, even for concurrent locks', async () => {
+      const attempts = await Promise.allSettled(
+        ['seat-1', 'seat-2', 'seat-3'].map((seatId, index) =>
+          bookingService.lockSeat(seatId, `user-${index}`, undefined, 'FANCLUB')
+        )
+      );
+
+      const rejected = attempts.filter((attempt) => attempt.status === 'rejected');
+      expect(rejected).toHaveLength(1);
+      expect((rejected[0] as PromiseRejectedResult).reason).toBeInstanceOf(PresaleQuotaExceededError);
+      expect(await remaining('FANCLUB')).toBe(0);
+    });
+
+    it('should let a single-use code unlock one request only', async () => {
+      await bookingService.lockSeats(['seat-1', 'seat-2'], 'user-123', undefined, 'VIP');
+
+      await expect(bookingService.lockSeat('seat-3', 'user-123', undefined, 'VIP')).rejects.toThrow(
+        PresaleQuotaExceededError
+      );
+      expect(await remaining('VIP')).toBe(2);
+    });
+
+    it('should hand the quota back when the lock is not saved', async () => {
+      jest.spyOn(seatRepository, 'saveAll').mockRejectedValue(new BatchConcurrencyError('Seat', ['seat-2']));
+
+      await expect(
+        bookingService.lockSeats(['seat-1', 'seat-2'], 'user-123', undefined, 'FANCLUB')
+      ).rejects.toThrow(BatchConcurrencyError);
+
+      expect(await remaining('FANCLUB')).toBe(2);
+      expect(presaleRepository.getRedemptions()).toHaveLength(0);
+    });
+
+    it('should hand the quota back when the checkout is cancelled', async () => {
+      await bookingService.lockSeats(['seat-1', 'seat-2'], 'user-123', undefined, 'FANCLUB');
+      await bookingService.releaseSeat('seat-1', 'user-123');
+
+      expect(await remaining('FANCLUB')).toBe(1);
+      expect(presaleRepository.getRedemptions()).toEqual([expect.objectContaining({ quantity: 1 })]);
+
+      await expect(bookingService.lockSeat('seat-3', 'user-456', undefined, 'FANCLUB')).resolves.toMatchObject({
+        status: SeatStatus.LOCKED,
+      });
+      expect(await remaining('FANCLUB')).toBe(0);
+    });
+
+    it('should hand the quota back when the lock expires', async () => {
+      await bookingService.lockSeats(['seat-1', 'seat-2'], 'user-123', undefined, 'FANCLUB');
+
+      const sweeper = new LockExpirySweeper(seatRepository, undefined, undefined, presaleRepository);
+      await sweeper.sweep(new Date(Date.now() + hour));
+
+      expect(await remaining('FANCLUB')).toBe(2);
+      expect(presaleRepository.getRedemptions()).toHaveLength(0);
+      await expect(
+        bookingService.lockSeats(['seat-1', 'seat-2'], 'user-456', undefined, 'FANCLUB')
+      ).resolves.toHaveLength(2);
+    });
+
+    it('should give a single-use code its use back once all its locks are released', async () => {
+      await bookingService.lockSeat('seat-1', 'user-123', undefined, 'VIP');
+      await bookingService.releaseSeat('seat-1', 'user-123');
+
+      await expect(bookingService.lockSeat('seat-1', 'user-123', undefined, 'VIP')).resolves.toMatchObject({
+        status: SeatStatus.LOCKED,
+      });
+      expect(await remaining('VIP')).toBe(3);
+    });
+
+    it('should keep the quota of sold seats redeemed', async () => {
+      await bookingService.lockSeat('seat-1', 'user-123', undefined, 'FANCLUB');
+      await bookingService.confirmSale('seat-1', 'user-123', 'pi_123');
+      await new LockExpirySweeper(seatRepository, undefined, undefined, presaleRepository).sweep(
+        new Date(Date.now() + hour)
+      );
+
+      expect(await remaining('FANCLUB')).toBe(1);
+      expect(presaleRepository.getRedemptions()).toEqual([expect.objectContaining({ quantity: 1, locks: [] })]);
+    });
+
+    it('should not need a code once the general on-sale opens', async () => {
+      const salesWindowRepository = new InMemorySalesWindowRepository();
+      salesWindowRepository.seed([SalesWindow.create({ eventId: 'event-1', status: EventStatus.ON_SALE })]);
+      bookingService = new BookingService(
+        seatRepository,
+        orderRepository,
+        undefined,
+        undefined,
+        undefined,
+        salesWindowRepository,
+        presaleRepository
+      );
+
+      await expect(bookingService.lockSeat('seat-1', 'user-123')).resolves.toMatchObject({
+        status: SeatStatus.LOCKED,
+      });
+    });
   });
 
   describe('releaseSeat()', () => {
@@ -120,6 +475,7 @@ describe('BookingService', () => {
       const lockedSeat = Seat.create({
         id: 'seat-1',
         eventId: 'event-1',
+        performanceId: 'perf-1',
         seatNumber: 'A1',
         price: 100,
       }).lock('user-123');
@@ -133,11 +489,40 @@ describe('BookingService', () => {
       expect(releasedSeat.userId).toBeNull();
     });
 
+    it('should publish a SeatReleasedEvent', async () => {
+      // Arrange
+      const publish = jest.fn().mockResolvedValue(undefined);
+      bookingService = new BookingService(seatRepository, orderRepository, { publish });
+      const lockedSeat = Seat.create({
+        id: 'seat-1',
+        eventId: 'event-1',
+        performanceId: 'perf-1',
+        seatNumber: 'A1',
+        price: 100,
+      }).lock('user-123');
+      seatRepository.seed([lockedSeat]);
+
+      // Act
+      await bookingService.releaseSeat('seat-1', 'user-123');
+
+      // Assert
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.NOTIFICATION,
+        expect.objectContaining({
+          eventType: 'SEAT_RELEASED',
+          seatId: 'seat-1',
+          userId: 'user-123',
+          reason: 'CANCELLED',
+        })
+      );
+    });
+
     it('should throw error if user tries to release a seat they do not own', async () => {
       // Arrange
       const lockedSeat = Seat.create({
         id: 'seat-1',
         eventId: 'event-1',
+        performanceId: 'perf-1',
         seatNumber: 'A1',
         price: 100,
       }).lock('user-123');
@@ -150,30 +535,174 @@ describe('BookingService', () => {
     });
   });
 
+  describe('extendLock()', () => {
+    const policy = { extensionMs: 20 * 60 * 1000, maxExtensions: 2 };
+
+    beforeEach(() => {
+      seatRepository.seed([
+        Seat.create({
+          id: 'seat-1',
+          eventId: 'event-1',
+          performanceId: 'perf-1',
+          seatNumber: 'A1',
+          price: 100,
+        }).lock('user-123'),
+      ]);
+      bookingService = new BookingService(seatRepository, orderRepository, undefined, policy);
+    });
+
+    it('should push the lock expiry out and persist it', async () => {
+      // Arrange
+      const before = Date.now();
+
+      // Act
+      const extendedSeat = await bookingService.extendLock('seat-1', 'user-123');
+
+      // Assert
+      expect(extendedSeat.lockExpiresAt!.getTime()).toBeGreaterThanOrEqual(before + policy.extensionMs);
+      expect(extendedSeat.lockExtensions).toBe(1);
+      expect(bookingService.remainingLockExtensions(extendedSeat)).toBe(1);
+
+      const savedSeat = await seatRepository.findById('seat-1');
+      expect(savedSeat?.lockExpiresAt).toEqual(extendedSeat.lockExpiresAt);
+    });
+
+    it('should publish a SeatLockExtendedEvent with the new expiry', async () => {
+      // Arrange
+      const publish = jest.fn().mockResolvedValue(undefined);
+      bookingService = new BookingService(seatRepository, orderRepository, { publish }, policy);
+
+      // Act
+      const extendedSeat = await bookingService.extendLock('seat-1', 'user-123');
+
+      // Assert
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.NOTIFICATION,
+        expect.objectContaining({
+          eventType: 'SEAT_LOCK_EXTENDED',
+          seatId: 'seat-1',
+          expiresAt: extendedSeat.lockExpiresAt,
+          extensionCount: 1,
+        })
+      );
+    });
+
+    it('should throw LockExtensionLimitError once the maximum is reached', async () => {
+      await bookingService.extendLock('seat-1', 'user-123');
+      await bookingService.extendLock('seat-1', 'user-123');
+
+      await expect(
+        bookingService.extendLock('seat-1', 'user-123')
+      ).rejects.toThrow(LockExtensionLimitError);
+    });
+
+    it('should throw UnauthorizedLockError for another user', async () => {
+      await expect(
+        bookingService.extendLock('seat-1', 'different-user')
+      ).rejects.toThrow(UnauthorizedLockError);
+    });
+  });
+
   describe('confirmSale()', () => {
     it('should mark a LOCKED seat as SOLD', async () => {
       // Arrange
       const lockedSeat = Seat.create({
         id: 'seat-1',
         eventId: 'event-1',
+        performanceId: 'perf-1',
         seatNumber: 'A1',
         price: 100,
       }).lock('user-123');
       seatRepository.seed([lockedSeat]);
 
       // Act
-      const soldSeat = await bookingService.confirmSale('seat-1', 'user-123');
+      const { seat: soldSeat } = await bookingService.confirmSale('seat-1', 'user-123');
 
       // Assert
       expect(soldSeat.status).toBe(SeatStatus.SOLD);
       expect(soldSeat.userId).toBe('user-123');
     });
 
+    it('should record an order together with the sold seat', async () => {
+      // Arrange
+      const lockedSeat = Seat.create({
+        id: 'seat-1',
+        eventId: 'event-1',
+        performanceId: 'perf-1',
+        seatNumber: 'A1',
+        price: 100,
+      }).lock('user-123');
+      seatRepository.seed([lockedSeat]);
+
+      // Act
+      const { order } = await bookingService.confirmSale('seat-1', 'user-123', 'pay-ref-1');
+
+      // Assert
+      const savedOrder = await orderRepository.findById(order.id);
+      expect(savedOrder?.userId).toBe('user-123');
+      expect(savedOrder?.totalAmount).toBe(100);
+      expect(savedOrder?.paymentReference).toBe('pay-ref-1');
+      expect(savedOrder?.items).toEqual([
+        expect.objectContaining({ seatId: 'seat-1', seatNumber: 'A1', price: 100 }),
+      ]);
+      expect((await seatRepository.findById('seat-1'))?.status).toBe(SeatStatus.SOLD);
+    });
+
+    it('should publish a SeatSoldEvent carrying the delivery email', async () => {
+      // Arrange
+      const publish = jest.fn().mockResolvedValue(undefined);
+      bookingService = new BookingService(seatRepository, orderRepository, { publish });
+      seatRepository.seed([
+        Seat.create({
+          id: 'seat-1',
+          eventId: 'event-1',
+          performanceId: 'perf-1',
+          seatNumber: 'A1',
+          price: 100,
+        }).lock('guest-1'),
+      ]);
+
+      // Act
+      await bookingService.confirmSale('seat-1', 'guest-1', undefined, 'guest@example.com');
+
+      // Assert
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.TICKET_GENERATION,
+        expect.objectContaining({
+          eventType: 'SEAT_SOLD',
+          seatId: 'seat-1',
+          userId: 'guest-1',
+          deliveryEmail: 'guest@example.com',
+        })
+      );
+    });
+
+    it('should not record an order when the sale is rejected', async () => {
+      // Arrange
+      const lockedSeat = Seat.create({
+        id: 'seat-1',
+        eventId: 'event-1',
+        performanceId: 'perf-1',
+        seatNumber: 'A1',
+        price: 100,
+      }).lock('user-123');
+      seatRepository.seed([lockedSeat]);
+
+      // Act
+      await expect(
+        bookingService.confirmSale('seat-1', 'different-user')
+      ).rejects.toThrow();
+
+      // Assert
+      expect(await orderRepository.findByUserId('different-user')).toHaveLength(0);
+    });
+
     it('should throw error if user tries to confirm sale for seat they do not own', async () => {
       // Arrange
       const lockedSeat = Seat.create({
         id: 'seat-1',
         eventId: 'event-1',
+        performanceId: 'perf-1',
         seatNumber: 'A1',
         price: 100,
       }).lock('user-123');
@@ -184,5 +713,304 @@ describe('BookingService', () => {
         bookingService.confirmSale('seat-1', 'different-user')
       ).rejects.toThrow('User different-user does not own the lock on seat seat-1');
     });
+
+    it('should throw LockExpiredError if the lock has expired', async () => {
+      // Arrange
+      const expiredSeat = Seat.fromPersistence({
+        ...Seat.create({
+          id: 'seat-1',
+          eventId: 'event-1',
+          performanceId: 'perf-1',
+          seatNumber: 'A1',
+          price: 100,
+        }).toJSON(),
+        status: SeatStatus.LOCKED,
+        userId: 'user-123',
+        version: 2,
+        lockExpiresAt: new Date(Date.now() - 1000),
+      });
+      seatRepository.seed([expiredSeat]);
+
+      // Act & Assert
+      await expect(
+        bookingService.confirmSale('seat-1', 'user-123')
+      ).rejects.toThrow(LockExpiredError);
+
+      const unchangedSeat = await seatRepository.findById('seat-1');
+      expect(unchangedSeat?.status).toBe(SeatStatus.LOCKED);
+    });
+  });
+
+  describe('refundSale()', () => {
+    beforeEach(async () => {
+      seatRepository.seed([
+        Seat.create({
+          id: 'seat-1',
+          eventId: 'event-1',
+          performanceId: 'perf-1',
+          seatNumber: 'A1',
+          price: 100,
+        }).lock('user-123'),
+      ]);
+    });
+
+    it('should put the seat back on sale and refund the order item', async () => {
+      // Arrange
+      const { order } = await bookingService.confirmSale('seat-1', 'user-123');
+
+      // Act
+      const result = await bookingService.refundSale('seat-1', 'Customer request');
+
+      // Assert
+      expect(result.amount).toBe(100);
+      expect(result.order.id).toBe(order.id);
+
+      const savedSeat = await seatRepository.findById('seat-1');
+      expect(savedSeat?.status).toBe(SeatStatus.AVAILABLE);
+      expect(savedSeat?.userId).toBeNull();
+
+      const savedOrder = await orderRepository.findById(order.id);
+      expect(savedOrder?.status).toBe(OrderStatus.REFUNDED);
+      expect(savedOrder?.findItem('seat-1')?.refundReason).toBe('Customer request');
+    });
+
+    it('should publish a SeatRefundedEvent to the refund queue', async () => {
+      // Arrange
+      const publish = jest.fn().mockResolvedValue(undefined);
+      bookingService = new BookingService(seatRepository, orderRepository, { publish });
+      const { order } = await bookingService.confirmSale('seat-1', 'user-123');
+
+      // Act
+      await bookingService.refundSale('seat-1');
+
+      // Assert
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.TICKET_REFUND,
+        expect.objectContaining({
+          eventType: 'SEAT_REFUNDED',
+          orderId: order.id,
+          seatId: 'seat-1',
+          userId: 'user-123',
+          ticketHolderId: 'user-123',
+          amount: 100,
+        })
+      );
+    });
+
+    it('should throw SeatNotRefundableError if the seat is not SOLD', async () => {
+      await expect(bookingService.refundSale('seat-1')).rejects.toThrow(SeatNotRefundableError);
+    });
+
+    it('should throw SeatNotFoundError if seat does not exist', async () => {
+      await expect(bookingService.refundSale('missing')).rejects.toThrow(SeatNotFoundError);
+    });
+  });
+
+  describe('ticket transfers', () => {
+    let transferRepository: InMemoryTicketTransferRepository;
+    let publish: jest.Mock;
+
+    beforeEach(() => {
+      seatRepository.seed([
+        Seat.create({
+          id: 'seat-1',
+          eventId: 'event-1',
+          performanceId: 'perf-1',
+          seatNumber: 'A1',
+          price: 100,
+        }).lock('user-123').sell(),
+      ]);
+      transferRepository = new InMemoryTicketTransferRepository(seatRepository);
+      publish = jest.fn().mockResolvedValue(undefined);
+      bookingService = new BookingService(
+        seatRepository,
+        orderRepository,
+        { publish },
+        undefined,
+        transferRepository
+      );
+    });
+
+    it('should create a pending transfer and invite the recipient', async () => {
+      // Act
+      const transfer = await bookingService.transferTicket('seat-1', 'user-123', 'Friend@Example.com');
+
+      // Assert
+      expect(transfer.status).toBe(TicketTransferStatus.PENDING);
+      expect(transfer.toEmail).toBe('friend@example.com');
+      expect((await seatRepository.findById('seat-1'))?.userId).toBe('user-123');
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.NOTIFICATION,
+        expect.objectContaining({ eventType: 'TICKET_TRANSFER_REQUESTED', transferId: transfer.id })
+      );
+    });
+
+    it('should throw TicketNotOwnedError when someone else starts the transfer', async () => {
+      await expect(
+        bookingService.transferTicket('seat-1', 'user-999', 'friend@example.com')
+      ).rejects.toThrow(TicketNotOwnedError);
+    });
+
+    it('should throw TransferAlreadyPendingError for a second transfer', async () => {
+      await bookingService.transferTicket('seat-1', 'user-123', 'friend@example.com');
+
+      await expect(
+        bookingService.transferTicket('seat-1', 'user-123', 'other@example.com')
+      ).rejects.toThrow(TransferAlreadyPendingError);
+    });
+
+    it('should hand the seat to the recipient on acceptance and re-issue the ticket', async () => {
+      // Arrange
+      const transfer = await bookingService.transferTicket('seat-1', 'user-123', 'friend@example.com');
+
+      // Act
+      const { transfer: accepted, seat } = await bookingService.acceptTransfer(transfer.id, 'user-456', 'friend@example.com');
+
+      // Assert
+      expect(accepted.status).toBe(TicketTransferStatus.ACCEPTED);
+      expect(seat.userId).toBe('user-456');
+      expect((await seatRepository.findById('seat-1'))?.userId).toBe('user-456');
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.TICKET_GENERATION,
+        expect.objectContaining({
+          eventType: 'TICKET_TRANSFERRED',
+          fromUserId: 'user-123',
+          toUserId: 'user-456',
+        })
+      );
+    });
+
+    it('should notify the current holder and the original buyer when a transferred ticket is refunded', async () => {
+      // Arrange
+      const seat = await seatRepository.findById('seat-1');
+      orderRepository.seed([Order.create({ id: 'order-1', userId: 'user-123', seats: [seat!] })]);
+      const transfer = await bookingService.transferTicket('seat-1', 'user-123', 'friend@example.com');
+      await bookingService.acceptTransfer(transfer.id, 'user-456', 'friend@example.com');
+
+      // Act
+      await bookingService.refundSale('seat-1');
+
+      // Assert - the buyer gets the money back, the holder learns the ticket is void
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.TICKET_REFUND,
+        expect.objectContaining({ eventType: 'SEAT_REFUNDED', userId: 'user-123', ticketHolderId: 'user-456' })
+      );
+    });
+
+    it('should throw TransferRecipientMismatchError when another account accepts', async () => {
+      // Arrange
+      const transfer = await bookingService.transferTicket('seat-1', 'user-123', 'friend@example.com');
+
+      // Act & Assert
+      await expect(
+        bookingService.acceptTransfer(transfer.id, 'user-789', 'stranger@example.com')
+      ).rejects.toThrow(TransferRecipientMismatchError);
+      expect((await seatRepository.findById('seat-1'))?.userId).toBe('user-123');
+    });
+
+    it('should throw TransferNotPendingError when accepting twice', async () => {
+      const transfer = await bookingService.transferTicket('seat-1', 'user-123', 'friend@example.com');
+      await bookingService.acceptTransfer(transfer.id, 'user-456', 'friend@example.com');
+
+      await expect(
+        bookingService.acceptTransfer(transfer.id, 'user-789', 'friend@example.com')
+      ).rejects.toThrow(TransferNotPendingError);
+    });
+
+    it('should throw TicketNotTransferableError if the ticket was refunded meanwhile', async () => {
+      // Arrange
+      const transfer = await bookingService.transferTicket('seat-1', 'user-123', 'friend@example.com');
+      const seat = await seatRepository.findById('seat-1');
+      await seatRepository.save(seat!.refund());
+
+      // Act & Assert
+      await expect(
+        bookingService.acceptTransfer(transfer.id, 'user-456', 'friend@example.com')
+      ).rejects.toThrow(TicketNotTransferableError);
+    });
+
+    it('should let the sender cancel a pending transfer', async () => {
+      const transfer = await bookingService.transferTicket('seat-1', 'user-123', 'friend@example.com');
+
+      const cancelled = await bookingService.cancelTransfer(transfer.id, 'user-123');
+
+      expect(cancelled.status).toBe(TicketTransferStatus.CANCELLED);
+      await expect(transferRepository.findPendingBySeatId('seat-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('holdSeats()', () => {
+    beforeEach(() => {
+      seatRepository.seed([
+        Seat.create({ id: 'seat-1', eventId: 'event-1', performanceId: 'perf-1', seatNumber: 'A1', price: 100 }),
+        Seat.create({ id: 'seat-2', eventId: 'event-1', performanceId: 'perf-1', seatNumber: 'A2', price: 100 }),
+      ]);
+    });
+
+    it('should withhold every requested seat from sale', async () => {
+      // Act
+      const heldSeats = await bookingService.holdSeats(['seat-1', 'seat-2'], 'admin-1', 'Press');
+
+      // Assert
+      expect(heldSeats.map((seat) => seat.status)).toEqual([SeatStatus.HELD, SeatStatus.HELD]);
+      const savedSeat = await seatRepository.findById('seat-2');
+      expect(savedSeat?.holdReason).toBe('Press');
+      expect(savedSeat?.heldBy).toBe('admin-1');
+    });
+
+    it('should hold nothing if one seat is not available', async () => {
+      // Arrange
+      await bookingService.lockSeat('seat-2', 'user-123');
+
+      // Act & Assert
+      await expect(
+        bookingService.holdSeats(['seat-1', 'seat-2'], 'admin-1', 'Press')
+      ).rejects.toThrow(SeatNotAvailableError);
+      expect((await seatRepository.findById('seat-1'))?.status).toBe(SeatStatus.AVAILABLE);
+    });
+
+    it('should not let the public lock a held seat', async () => {
+      await bookingService.holdSeats(['seat-1'], 'admin-1', 'House seat');
+
+      await expect(bookingService.lockSeat('seat-1', 'user-123')).rejects.toThrow(SeatNotAvailableError);
+    });
+  });
+
+  describe('unholdSeats()', () => {
+    beforeEach(() => {
+      seatRepository.seed([
+        Seat.create({ id: 'seat-1', eventId: 'event-1', performanceId: 'perf-1', seatNumber: 'A1', price: 100 }).hold('admin-1', 'Press'),
+        Seat.create({ id: 'seat-2', eventId: 'event-1', performanceId: 'perf-1', seatNumber: 'A2', price: 100 }),
+      ]);
+    });
+
+    it('should put held seats on sale and publish a SeatReleasedEvent', async () => {
+      // Arrange
+      const publish = jest.fn().mockResolvedValue(undefined);
+      bookingService = new BookingService(seatRepository, orderRepository, { publish });
+
+      // Act
+      const [releasedSeat] = await bookingService.unholdSeats(['seat-1'], 'admin-2');
+
+      // Assert
+      expect(releasedSeat.status).toBe(SeatStatus.AVAILABLE);
+      expect(releasedSeat.holdReason).toBeNull();
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.NOTIFICATION,
+        expect.objectContaining({
+          eventType: 'SEAT_RELEASED',
+          seatId: 'seat-1',
+          userId: 'admin-2',
+          reason: 'HOLD_RELEASED',
+        })
+      );
+    });
+
+    it('should throw SeatNotHeldError if one seat is not held', async () => {
+      await expect(
+        bookingService.unholdSeats(['seat-1', 'seat-2'], 'admin-1')
+      ).rejects.toThrow(SeatNotHeldError);
+      expect((await seatRepository.findById('seat-1'))?.status).toBe(SeatStatus.HELD);
+    });
   });
 });
@@ -1,7 +1,45 @@
+import { randomUUID } from 'crypto';
 import { Seat } from '@/core/domain/seat.entity';
+import { Order } from '@/core/domain/order.entity';
+import { TicketTransfer } from '@/core/domain/ticket-transfer.entity';
 import { ISeatRepository } from '@/core/interfaces/ISeatRepository';
+import { IOrderRepository } from '@/core/interfaces/IOrderRepository';
 import { IEventPublisher } from '@/core/interfaces/IEventPublisher';
-import { EVENT_QUEUES, createSeatLockedEvent, createSeatSoldEvent } from '@/core/events';
+import { ITicketTransferRepository } from '@/core/interfaces/ITicketTransferRepository';
+import { ISalesWindowRepository } from '@/core/interfaces/ISalesWindowRepository';
+import { IPresaleRepository } from '@/core/interfaces/IPresaleRepository';
+import {
+  EVENT_QUEUES,
+  createSeatLockedEvent,
+  createSeatLockExtendedEvent,
+  createSeatSoldEvent,
+  createSeatReleasedEvent,
+  createSeatRefundedEvent,
+  createTicketTransferRequestedEvent,
+  createTicketTransferredEvent,
+} from '@/core/events';
+import { SaleAuthorizer, SaleLock } from './SaleAuthorizer';
+
+export {
+  EventNotOnSaleError,
+  PresaleCodeRequiredError,
+  InvalidPresaleCodeError,
+  PresaleQuotaExceededError,
+} from './SaleAuthorizer';
+
+/**
+ * How far each lock extension pushes the expiry out, and how many
+ * extensions a single lock may get
+ */
+export interface LockExtensionPolicy {
+  readonly extensionMs: number;
+  readonly maxExtensions: number;
+}
+
+export const DEFAULT_LOCK_EXTENSION_POLICY: LockExtensionPolicy = {
+  extensionMs: 5 * 60 * 1000, // 5 minutes
+  maxExtensions: 3,
+};
 
 /**
  * Custom Error: Seat Not Found
@@ -33,11 +71,148 @@ export class UnauthorizedLockError extends Error {
   }
 }
 
+/**
+ * Custom Error: Lock Expired
+ */
+export class LockExpiredError extends Error {
+  constructor(seatId: string, expiredAt: Date) {
+    super(`Lock on seat ${seatId} expired at ${expiredAt.toISOString()}`);
+    this.name = 'LockExpiredError';
+  }
+}
+
+/**
+ * Custom Error: Lock Extension Limit Reached
+ */
+export class LockExtensionLimitError extends Error {
+  constructor(seatId: string, maxExtensions: number) {
+    super(`Lock on seat ${seatId} has already been extended ${maxExtensions} times`);
+    this.name = 'LockExtensionLimitError';
+  }
+}
+
+/**
+ * Custom Error: Seat Not Refundable
+ */
+export class SeatNotRefundableError extends Error {
+  constructor(seatId: string, currentStatus: string) {
+    super(`Seat ${seatId} cannot be refunded (current status: ${currentStatus})`);
+    this.name = 'SeatNotRefundableError';
+  }
+}
+
+/**
+ * Custom Error: Order Not Found for a sold seat
+ */
+export class OrderNotFoundError extends Error {
+  constructor(seatId: string) {
+    super(`No active order found for seat ${seatId}`);
+    this.name = 'OrderNotFoundError';
+  }
+}
+
+/**
+ * Custom Error: Seat Not Held
+ */
+export class SeatNotHeldError extends Error {
+  constructor(seatId: string, currentStatus: string) {
+    super(`Seat ${seatId} is not held (current status: ${currentStatus})`);
+    this.name = 'SeatNotHeldError';
+  }
+}
+
+/**
+ * Custom Error: Seat belongs to an event the user wasn't admitted to
+ */
+export class SeatNotAdmittedError extends Error {
+  constructor(seatId: string, admittedEventId: string) {
+    super(`Seat ${seatId} is not part of admitted event ${admittedEventId}`);
+    this.name = 'SeatNotAdmittedError';
+  }
+}
+
+/**
+ * Custom Error: Ticket belongs to someone else
+ */
+export class TicketNotOwnedError extends Error {
+  constructor(userId: string, seatId: string) {
+    super(`User ${userId} does not own the ticket for seat ${seatId}`);
+    this.name = 'TicketNotOwnedError';
+  }
+}
+
+/**
+ * Custom Error: Seat has no ticket to transfer (not SOLD)
+ */
+export class TicketNotTransferableError extends Error {
+  constructor(seatId: string, currentStatus: string) {
+    super(`Seat ${seatId} cannot be transferred (current status: ${currentStatus})`);
+    this.name = 'TicketNotTransferableError';
+  }
+}
+
+/**
+ * Custom Error: Seat already has a transfer waiting for acceptance
+ */
+export class TransferAlreadyPendingError extends Error {
+  constructor(seatId: string) {
+    super(`Seat ${seatId} already has a pending transfer`);
+    this.name = 'TransferAlreadyPendingError';
+  }
+}
+
+/**
+ * Custom Error: Transfer Not Found
+ */
+export class TransferNotFoundError extends Error {
+  constructor(transferId: string) {
+    super(`Ticket transfer ${transferId} not found`);
+    this.name = 'TransferNotFoundError';
+  }
+}
+
+/**
+ * Custom Error: Transfer was already accepted or cancelled
+ */
+export class TransferNotPendingError extends Error {
+  constructor(transferId: string, currentStatus: string) {
+    super(`Ticket transfer ${transferId} is no longer pending (current status: ${currentStatus})`);
+    this.name = 'TransferNotPendingError';
+  }
+}
+
+/**
+ * Custom Error: Transfer was sent to another email address
+ */
+export class TransferRecipientMismatchError extends Error {
+  constructor(transferId: string) {
+    super(`Ticket transfer ${transferId} was sent to another email address`);
+    this.name = 'TransferRecipientMismatchError';
+  }
+}
+
+/**
+ * Result of a confirmed sale
+ */
+export interface SaleConfirmation {
+  readonly seat: Seat;
+  readonly order: Order;
+}
+
+/**
+ * Result of a refunded sale
+ */
+export interface RefundResult {
+  readonly seat: Seat;
+  readonly order: Order;
+  readonly amount: number;
+}
+
 /**
  * Booking Service
  * 
  * Handles seat reservation business logic following these principles:
- * - Dependency Injection: Receives repository and event publisher via constructor
+ * - Dependency Injection: Receives repositories and event publisher via constructor
  * - Immutability: Works with immutable Seat entities
  * - Single Responsibility: Only handles booking operations
  * - Event-Driven: Publishes domain events after successful operations
@@ -45,16 +220,27 @@ export class UnauthorizedLockError extends Error {
  * @example
  * ```typescript
  * const repo = new PrismaSeatRepository(prisma);
+ * const orderRepo = new PrismaOrderRepository(prisma, repo);
  * const publisher = new RabbitMQEventPublisher(rabbitMQ);
- * const bookingService = new BookingService(repo, publisher);
+ * const bookingService = new BookingService(repo, orderRepo, publisher);
  * const lockedSeat = await bookingService.lockSeat('seat-123', 'user-456');
  * ```
  */
 export class BookingService {
+  // Sales window and presale checks, shared with GA checkouts
+  private readonly saleAuthorizer: SaleAuthorizer;
+
   constructor(
     private readonly seatRepository: ISeatRepository,
-    private readonly eventPublisher?: IEventPublisher
-  ) {}
+    private readonly orderRepository: IOrderRepository,
+    private readonly eventPublisher?: IEventPublisher,
+    private readonly lockExtensionPolicy: LockExtensionPolicy = DEFAULT_LOCK_EXTENSION_POLICY,
+    private readonly transferRepository?: ITicketTransferRepository,
+    salesWindowRepository?: ISalesWindowRepository,
+    presaleRepository?: IPresaleRepository
+  ) {
+    this.saleAuthorizer = new SaleAuthorizer(salesWindowRepository, presaleRepository);
+  }
 
   /**
    * Locks a seat for a user (first step in booking process)
@@ -62,17 +248,27 @@ export class BookingService {
    * Flow:
    * 1. Find seat in DB
    * 2. Check availability
-   * 3. Lock seat (immutable)
-   * 4. Persist to DB + invalidate cache
+   * 3. Lock seat (immutable), checking the event is on sale (redeeming the presale code during a presale)
+   * 4. Persist to DB + invalidate cache (a failed save hands the presale quota back)
    * 5. Publish SeatLockedEvent (fire-and-forget)
    * 
    * @param seatId - The seat to lock
    * @param userId - The user requesting the lock
+   * @param admittedEventId - Event the user was admitted to from the waiting room (if enforced)
+   * @param presaleCode - Access code, required while the event is in a presale
    * @returns The locked seat (new immutable instance)
    * @throws SeatNotFoundError if seat doesn't exist
+   * @throws SeatNotAdmittedError if the seat belongs to another event than admittedEventId
    * @throws SeatNotAvailableError if seat is not AVAILABLE
+   * @throws EventNotOnSaleError if the seat's event is outside its sales window and presales
+   * @throws PresaleCodeRequiredError / InvalidPresaleCodeError / PresaleQuotaExceededError during a presale
    */
-  async lockSeat(seatId: string, userId: string): Promise<Seat> {
+  async lockSeat(
+    seatId: string,
+    userId: string,
+    admittedEventId?: string,
+    presaleCode?: string
+  ): Promise<Seat> {
     // 1. Find the seat
     const seat = await this.seatRepository.findById(seatId);
     
@@ -80,41 +276,93 @@ export class BookingService {
       throw new SeatNotFoundError(seatId);
     }
 
+    if (admittedEventId !== undefined && seat.eventId !== admittedEventId) {
+      throw new SeatNotAdmittedError(seatId, admittedEventId);
+    }
+
     // 2. Check if available
     if (!seat.isAvailable()) {
       throw new SeatNotAvailableError(seatId, seat.status);
     }
 
-    // 3. Lock the seat (returns NEW immutable instance)
+    // 3. Lock the seat (returns NEW immutable instance) if its event is on sale
     const lockedSeat = seat.lock(userId);
+    const redemptions = await this.saleAuthorizer.authorize([this.toSaleLock(seat)], userId, presaleCode);
 
     // 4. Persist the change (handled by CachedSeatRepository - DB + cache invalidation)
-    await this.seatRepository.save(lockedSeat);
+    await this.saleAuthorizer.withRedemptions(redemptions, () => this.seatRepository.save(lockedSeat));
 
     // 5. Publish event (now awaited for reliability + lazy connect)
-    if (this.eventPublisher) {
-      const event = createSeatLockedEvent({
-        seatId: lockedSeat.id,
-        eventId: lockedSeat.eventId,
-        userId,
-        seatNumber: lockedSeat.seatNumber,
-        price: lockedSeat.price,
-      });
-      
-      console.log("📝 DB Transaction committed. Starting Publish (SeatLocked)...");
-      try {
-        await this.eventPublisher.publish(EVENT_QUEUES.NOTIFICATION, event);
-        console.log("🎉 Publish process finished (SeatLocked).");
-      } catch (err) {
-        console.error('[BookingService] Failed to publish SeatLockedEvent:', err);
+    await this.publishSeatLocked(lockedSeat, userId);
+
+    return lockedSeat;
+  }
+
+  /**
+   * Locks several seats for a user atomically (cart checkout)
+   * 
+   * Either every seat is locked or none is: the seats are persisted in a
+   * single transaction, and any optimistic locking conflict rolls back the
+   * whole batch.
+   * 
+   * @param seatIds - The seats to lock
+   * @param userId - The user requesting the locks
+   * @param admittedEventId - Event the user was admitted to from the waiting room (if enforced)
+   * @param presaleCode - Access code, required while the event is in a presale
+   * @returns The locked seats (new immutable instances)
+   * @throws SeatNotFoundError if any seat doesn't exist
+   * @throws SeatNotAdmittedError if any seat belongs to another event than admittedEventId
+   * @throws SeatNotAvailableError if any seat is not AVAILABLE
+   * @throws EventNotOnSaleError if any seat's event is outside its sales window and presales
+   * @throws PresaleCodeRequiredError / InvalidPresaleCodeError / PresaleQuotaExceededError during a presale
+   * @throws BatchConcurrencyError listing the seats taken by another process
+   */
+  async lockSeats(
+    seatIds: string[],
+    userId: string,
+    admittedEventId?: string,
+    presaleCode?: string
+  ): Promise<Seat[]> {
+    // 1. Find all seats
+    const seats = await this.findAllOrThrow(seatIds);
+
+    // 2. Check every seat is available before touching any of them
+    const lockedSeats = seats.map((seat) => {
+      if (admittedEventId !== undefined && seat.eventId !== admittedEventId) {
+        throw new SeatNotAdmittedError(seat.id, admittedEventId);
       }
+
+      if (!seat.isAvailable()) {
+        throw new SeatNotAvailableError(seat.id, seat.status);
+      }
+
+      // 3. Lock the seat (returns NEW immutable instance)
+      return seat.lock(userId);
+    });
+
+    // ...and that their events are on sale
+    const redemptions = await this.saleAuthorizer.authorize(
+      seats.map((seat) => this.toSaleLock(seat)),
+      userId,
+      presaleCode
+    );
+
+    // 4. Persist all locks in one transaction (all-or-nothing)
+    await this.saleAuthorizer.withRedemptions(redemptions, () => this.seatRepository.saveAll(lockedSeats));
+
+    // 5. Publish one event per locked seat
+    for (const lockedSeat of lockedSeats) {
+      await this.publishSeatLocked(lockedSeat, userId);
     }
 
-    return lockedSeat;
+    return lockedSeats;
   }
 
   /**
-   * Releases a locked seat back to available
+   * Releases a locked seat back to available (buyer cancelled checkout)
+   * 
+   * Publishes a SeatReleasedEvent so downstream consumers know the
+   * seat is back on sale. Presale quota the lock held goes back to its code.
    * 
    * @param seatId - The seat to release
    * @param userId - The user releasing the lock (must be the lock owner)
@@ -138,20 +386,107 @@ export class BookingService {
     // 3. Release the seat (returns NEW immutable instance)
     const releasedSeat = seat.release();
 
-    // 4. Persist the change
+    // 4. Persist the change, handing back the presale quota the lock held
     await this.seatRepository.save(releasedSeat);
+    await this.saleAuthorizer.releaseLocks([seatId]);
+
+    // 5. Publish event
+    if (this.eventPublisher) {
+      const event = createSeatReleasedEvent({
+        seatId: releasedSeat.id,
+        eventId: releasedSeat.eventId,
+        userId,
+        seatNumber: releasedSeat.seatNumber,
+        reason: 'CANCELLED',
+      });
+
+      try {
+        await this.eventPublisher.publish(EVENT_QUEUES.NOTIFICATION, event);
+      } catch (err) {
+        console.error('[BookingService] Failed to publish SeatReleasedEvent:', err);
+      }
+    }
 
     return releasedSeat;
   }
 
+  /**
+   * Extends the lock on a seat during a slow checkout (heartbeat)
+   * 
+   * Each call pushes the expiry to now + extensionMs, at most
+   * maxExtensions times per lock (see LockExtensionPolicy).
+   * 
+   * @param seatId - The locked seat
+   * @param userId - The user extending the lock (must own the lock)
+   * @returns The seat with its new lockExpiresAt (new immutable instance)
+   * @throws SeatNotFoundError if seat doesn't exist
+   * @throws UnauthorizedLockError if user doesn't own the lock
+   * @throws LockExpiredError if the lock already ran out
+   * @throws LockExtensionLimitError if the lock can't be extended any more
+   */
+  async extendLock(seatId: string, userId: string): Promise<Seat> {
+    // 1. Find the seat
+    const seat = await this.seatRepository.findById(seatId);
+
+    if (!seat) {
+      throw new SeatNotFoundError(seatId);
+    }
+
+    // 2. Verify ownership and that there is still a lock to extend
+    if (!seat.isLockedBy(userId)) {
+      throw new UnauthorizedLockError(userId, seatId);
+    }
+
+    if (seat.isLockExpired()) {
+      throw new LockExpiredError(seatId, seat.lockExpiresAt!);
+    }
+
+    if (seat.lockExtensions >= this.lockExtensionPolicy.maxExtensions) {
+      throw new LockExtensionLimitError(seatId, this.lockExtensionPolicy.maxExtensions);
+    }
+
+    // 3. Extend the lock (returns NEW immutable instance)
+    const extendedSeat = seat.extendLock(this.lockExtensionPolicy.extensionMs);
+
+    // 4. Persist the change
+    await this.seatRepository.save(extendedSeat);
+
+    // 5. Publish event with the new expiry
+    if (this.eventPublisher) {
+      const event = createSeatLockExtendedEvent({
+        seatId: extendedSeat.id,
+        eventId: extendedSeat.eventId,
+        userId,
+        seatNumber: extendedSeat.seatNumber,
+        expiresAt: extendedSeat.lockExpiresAt!,
+        extensionCount: extendedSeat.lockExtensions,
+      });
+
+      try {
+        await this.eventPublisher.publish(EVENT_QUEUES.NOTIFICATION, event);
+      } catch (err) {
+        console.error('[BookingService] Failed to publish SeatLockExtendedEvent:', err);
+      }
+    }
+
+    return extendedSeat;
+  }
+
+  /**
+   * Number of extensions still available for a seat's current lock
+   */
+  remainingLockExtensions(seat: Seat): number {
+    return Math.max(0, this.lockExtensionPolicy.maxExtensions - seat.lockExtensions);
+  }
+
   /**
    * Confirms a sale after successful payment
    * 
    * Flow:
    * 1. Find seat in DB
-   * 2. Verify lock ownership
-   * 3. Mark as sold (immutable)
-   * 4. Persist to DB + invalidate cache
+   * 2. Verify lock ownership and that the lock has not expired
+   * 3. Mark as sold (immutable) and build the Order
+   * 4. Persist order + seat in one transaction + invalidate cache
    * 5. Publish SeatSoldEvent (fire-and-forget)
    *    → Triggers: PDF generation, Email notification
    * 
@@ -160,11 +495,19 @@ export class BookingService {
    * 
    * @param seatId - The seat to mark as sold
    * @param userId - The user completing the purchase (must own the lock)
-   * @returns The sold seat (new immutable instance)
+   * @param paymentReference - Payment provider transaction ID (optional)
+   * @param deliveryEmail - Where the worker sends the ticket (the account or verified guest email)
+   * @returns The sold seat (new immutable instance) and the recorded order
    * @throws SeatNotFoundError if seat doesn't exist
    * @throws UnauthorizedLockError if user doesn't own the lock
+   * @throws LockExpiredError if the lock ran out before payment was confirmed
    */
-  async confirmSale(seatId: string, userId: string): Promise<Seat> {
+  async confirmSale(
+    seatId: string,
+    userId: string,
+    paymentReference?: string,
+    deliveryEmail?: string
+  ): Promise<SaleConfirmation> {
     // 1. Find the seat
     const seat = await this.seatRepository.findById(seatId);
     
@@ -177,11 +520,22 @@ export class BookingService {
       throw new UnauthorizedLockError(userId, seatId);
     }
 
-    // 3. Mark as sold (returns NEW immutable instance)
+    if (seat.isLockExpired()) {
+      throw new LockExpiredError(seatId, seat.lockExpiresAt!);
+    }
+
+    // 3. Mark as sold (returns NEW immutable instance) and record the purchase
     const soldSeat = seat.sell();
+    const order = Order.create({
+      id: randomUUID(),
+      userId,
+      seats: [soldSeat],
+      paymentReference,
+    });
 
-    // 4. Persist the change (DB + cache invalidation)
-    await this.seatRepository.save(soldSeat);
+    // 4. Persist order + seat atomically (DB + cache invalidation); a presale redemption is now for good
+    await this.orderRepository.saveWithSeats(order, [soldSeat]);
+    await this.saleAuthorizer.settleLocks([soldSeat.id]);
 
     // 5. ⚡ FIRE-AND-FORGET: Publish event for downstream processing
     //    API response returns IMMEDIATELY - does NOT wait for:
@@ -190,9 +544,11 @@ export class BookingService {
     //    - Analytics
     if (this.eventPublisher) {
       const event = createSeatSoldEvent({
+        orderId: order.id,
         seatId: soldSeat.id,
         eventId: soldSeat.eventId,
         userId,
+        deliveryEmail,
         seatNumber: soldSeat.seatNumber,
         price: soldSeat.price,
       });
@@ -206,6 +562,392 @@ export class BookingService {
       }
     }
 
-    return soldSeat;
+    return { seat: soldSeat, order };
+  }
+
+  /**
+   * Refunds a sold ticket and puts the seat back on sale (admin operation)
+   * 
+   * Flow:
+   * 1. Find seat in DB and check it is SOLD
+   * 2. Find the order that holds the seat
+   * 3. Mark the order item refunded + seat AVAILABLE (immutable)
+   * 4. Persist order + seat in one transaction + invalidate cache
+   * 5. Publish SeatRefundedEvent → worker voids the PDF and emails the
+   *    ticket holder, and the customer who paid if that's someone else
+   * 
+   * The Order keeps the audit trail (who bought, what was paid, when and
+   * why it was refunded) while the seat itself becomes sellable again.
+   * After a transfer the order still names the original buyer, so the
+   * current holder is taken from the seat.
+   * 
+   * @param seatId - The sold seat to refund
+   * @param reason - Why the ticket was refunded (optional, stored on the order)
+   * @returns The available seat, updated order and refunded amount
+   * @throws SeatNotFoundError if seat doesn't exist
+   * @throws SeatNotRefundableError if seat is not SOLD
+   * @throws OrderNotFoundError if no order holds the seat
+   */
+  async refundSale(seatId: string, reason?: string): Promise<RefundResult> {
+    // 1. Find the seat
+    const seat = await this.seatRepository.findById(seatId);
+
+    if (!seat) {
+      throw new SeatNotFoundError(seatId);
+    }
+
+    if (!seat.isSold()) {
+      throw new SeatNotRefundableError(seatId, seat.status);
+    }
+
+    // 2. Find the order holding the seat
+    const order = await this.orderRepository.findActiveBySeatId(seatId);
+
+    if (!order) {
+      throw new OrderNotFoundError(seatId);
+    }
+
+    // 3. Refund (returns NEW immutable instances)
+    const customerId = order.userId;
+    const ticketHolderId = seat.userId ?? customerId;
+    const refundedSeat = seat.refund();
+    const refundedOrder = order.refundItem(seatId, reason ?? null);
+    const refundedItem = refundedOrder.findItem(seatId)!;
+
+    // 4. Persist order + seat atomically (DB + cache invalidation)
+    await this.orderRepository.saveWithSeats(refundedOrder, [refundedSeat]);
+
+    // 5. Publish event for downstream processing
+    if (this.eventPublisher) {
+      const event = createSeatRefundedEvent({
+        orderId: refundedOrder.id,
+        seatId: refundedSeat.id,
+        eventId: refundedSeat.eventId,
+        userId: customerId,
+        ticketHolderId,
+        seatNumber: refundedSeat.seatNumber,
+        amount: refundedItem.price,
+        reason: refundedItem.refundReason,
+        refundedAt: refundedItem.refundedAt ?? undefined,
+      });
+
+      try {
+        await this.eventPublisher.publish(EVENT_QUEUES.TICKET_REFUND, event);
+      } catch (err) {
+        console.error('[BookingService] Failed to publish SeatRefundedEvent:', err);
+      }
+    }
+
+    return { seat: refundedSeat, order: refundedOrder, amount: refundedItem.price };
+  }
+
+  /**
+   * Starts handing a sold ticket to someone else
+   * 
+   * Creates a PENDING transfer and emails the recipient (via the worker)
+   * a link to accept it. The seat keeps its owner until then.
+   * 
+   * @param seatId - The sold seat
+   * @param fromUserId - Current ticket owner
+   * @param toUserEmail - Recipient's email address
+   * @returns The pending transfer
+   * @throws SeatNotFoundError if seat doesn't exist
+   * @throws TicketNotTransferableError if the seat is not SOLD
+   * @throws TicketNotOwnedError if fromUserId doesn't own the ticket
+   * @throws TransferAlreadyPendingError if the seat already has a pending transfer
+   */
+  async transferTicket(seatId: string, fromUserId: string, toUserEmail: string): Promise<TicketTransfer> {
+    const transferRepository = this.requireTransferRepository();
+
+    // 1. Find the seat and verify ownership
+    const seat = await this.seatRepository.findById(seatId);
+
+    if (!seat) {
+      throw new SeatNotFoundError(seatId);
+    }
+
+    if (!seat.isSold()) {
+      throw new TicketNotTransferableError(seatId, seat.status);
+    }
+
+    if (seat.userId !== fromUserId) {
+      throw new TicketNotOwnedError(fromUserId, seatId);
+    }
+
+    // 2. One transfer at a time per ticket
+    if (await transferRepository.findPendingBySeatId(seatId)) {
+      throw new TransferAlreadyPendingError(seatId);
+    }
+
+    // 3. Record the pending transfer
+    const transfer = TicketTransfer.create({
+      id: randomUUID(),
+      seatId,
+      eventId: seat.eventId,
+      fromUserId,
+      toEmail: toUserEmail,
+    });
+    await transferRepository.save(transfer);
+
+    // 4. Publish event so the recipient is invited
+    if (this.eventPublisher) {
+      const event = createTicketTransferRequestedEvent({
+        transferId: transfer.id,
+        seatId,
+        eventId: seat.eventId,
+        fromUserId,
+        toEmail: transfer.toEmail,
+        seatNumber: seat.seatNumber,
+      });
+
+      try {
+        await this.eventPublisher.publish(EVENT_QUEUES.NOTIFICATION, event);
+      } catch (err) {
+        console.error('[BookingService] Failed to publish TicketTransferRequestedEvent:', err);
+      }
+    }
+
+    return transfer;
+  }
+
+  /**
+   * Accepts a pending transfer: the seat changes hands
+   * 
+   * The seat and the transfer are saved in one transaction with optimistic
+   * locking, so a refund or second acceptance racing this one fails with
+   * ConcurrencyError. The worker then voids the sender's ticket and issues
+   * a new one to the recipient.
+   * 
+   * @param transferId - The pending transfer
+   * @param toUserId - The recipient accepting it
+   * @param toUserEmail - The recipient's account email, which must be the invited one
+   * @returns The accepted transfer and the seat now owned by the recipient
+   * @throws TransferNotFoundError if the transfer doesn't exist
+   * @throws TransferNotPendingError if it was already accepted or cancelled
+   * @throws TransferRecipientMismatchError if the transfer was sent to another email
+   * @throws TicketNotTransferableError if the sender no longer holds the ticket
+   */
+  async acceptTransfer(
+    transferId: string,
+    toUserId: string,
+    toUserEmail: string
+  ): Promise<{ transfer: TicketTransfer; seat: Seat }> {
+    const transferRepository = this.requireTransferRepository();
+
+    // 1. Find the transfer
+    const transfer = await transferRepository.findById(transferId);
+
+    if (!transfer) {
+      throw new TransferNotFoundError(transferId);
+    }
+
+    if (!transfer.isPending()) {
+      throw new TransferNotPendingError(transferId, transfer.status);
+    }
+
+    if (toUserEmail.trim().toLowerCase() !== transfer.toEmail) {
+      throw new TransferRecipientMismatchError(transferId);
+    }
+
+    // 2. The sender must still hold the ticket (it may have been refunded)
+    const seat = await this.seatRepository.findById(transfer.seatId);
+
+    if (!seat || !seat.isSold() || seat.userId !== transfer.fromUserId) {
+      throw new TicketNotTransferableError(transfer.seatId, seat?.status ?? 'MISSING');
+    }
+
+    // 3. Swap ownership (returns NEW immutable instances)
+    const transferredSeat = seat.transferTo(toUserId);
+    const acceptedTransfer = transfer.accept(toUserId);
+
+    // 4. Persist transfer + seat atomically (DB + cache invalidation)
+    await transferRepository.saveWithSeat(acceptedTransfer, transferredSeat);
+
+    // 5. Publish event so the worker re-issues the ticket
+    if (this.eventPublisher) {
+      const event = createTicketTransferredEvent({
+        transferId,
+        seatId: transferredSeat.id,
+        eventId: transferredSeat.eventId,
+        fromUserId: transfer.fromUserId,
+        toUserId,
+        toEmail: transfer.toEmail,
+        seatNumber: transferredSeat.seatNumber,
+      });
+
+      try {
+        await this.eventPublisher.publish(EVENT_QUEUES.TICKET_GENERATION, event);
+      } catch (err) {
+        console.error('[BookingService] Failed to publish TicketTransferredEvent:', err);
+      }
+    }
+
+    return { transfer: acceptedTransfer, seat: transferredSeat };
+  }
+
+  /**
+   * Withdraws a pending transfer (sender only)
+   * 
+   * @throws TransferNotFoundError if the transfer doesn't exist
+   * @throws TicketNotOwnedError if fromUserId didn't start the transfer
+   * @throws TransferNotPendingError if it was already accepted or cancelled
+   */
+  async cancelTransfer(transferId: string, fromUserId: string): Promise<TicketTransfer> {
+    const transferRepository = this.requireTransferRepository();
+    const transfer = await transferRepository.findById(transferId);
+
+    if (!transfer) {
+      throw new TransferNotFoundError(transferId);
+    }
+
+    if (transfer.fromUserId !== fromUserId) {
+      throw new TicketNotOwnedError(fromUserId, transfer.seatId);
+    }
+
+    if (!transfer.isPending()) {
+      throw new TransferNotPendingError(transferId, transfer.status);
+    }
+
+    const cancelledTransfer = transfer.cancel();
+    await transferRepository.save(cancelledTransfer);
+
+    return cancelledTransfer;
+  }
+
+  /**
+   * Withholds seats from public sale (house, press, production kills)
+   * 
+   * All-or-nothing like lockSeats(): every seat must be AVAILABLE, and
+   * the holds are saved in a single transaction.
+   * 
+   * @param seatIds - The seats to hold
+   * @param adminId - The admin putting the hold on
+   * @param reason - Why the seats are held
+   * @returns The held seats (new immutable instances)
+   * @throws SeatNotFoundError if any seat doesn't exist
+   * @throws SeatNotAvailableError if any seat is not AVAILABLE
+   * @throws BatchConcurrencyError listing the seats modified by another process
+   */
+  async holdSeats(seatIds: string[], adminId: string, reason: string): Promise<Seat[]> {
+    const seats = await this.findAllOrThrow(seatIds);
+
+    const heldSeats = seats.map((seat) => {
+      if (!seat.isAvailable()) {
+        throw new SeatNotAvailableError(seat.id, seat.status);
+      }
+      return seat.hold(adminId, reason);
+    });
+
+    await this.seatRepository.saveAll(heldSeats);
+
+    console.log(`🚧 Admin ${adminId} held ${heldSeats.length} seat(s): ${reason}`);
+
+    return heldSeats;
+  }
+
+  /**
+   * Releases held seats for public sale (all-or-nothing)
+   * 
+   * Publishes a SeatReleasedEvent per seat so waitlisted users get offers.
+   * 
+   * @param seatIds - The seats to release
+   * @param adminId - The admin releasing the holds
+   * @returns The released seats (new immutable instances)
+   * @throws SeatNotFoundError if any seat doesn't exist
+   * @throws SeatNotHeldError if any seat is not HELD
+   * @throws BatchConcurrencyError listing the seats modified by another process
+   */
+  async unholdSeats(seatIds: string[], adminId: string): Promise<Seat[]> {
+    const seats = await this.findAllOrThrow(seatIds);
+
+    const releasedSeats = seats.map((seat) => {
+      if (!seat.isHeld()) {
+        throw new SeatNotHeldError(seat.id, seat.status);
+      }
+      return seat.unhold();
+    });
+
+    await this.seatRepository.saveAll(releasedSeats);
+
+    console.log(`✅ Admin ${adminId} released ${releasedSeats.length} held seat(s)`);
+
+    if (this.eventPublisher) {
+      for (const releasedSeat of releasedSeats) {
+        const event = createSeatReleasedEvent({
+          seatId: releasedSeat.id,
+          eventId: releasedSeat.eventId,
+          userId: adminId,
+          seatNumber: releasedSeat.seatNumber,
+          reason: 'HOLD_RELEASED',
+        });
+
+        try {
+          await this.eventPublisher.publish(EVENT_QUEUES.NOTIFICATION, event);
+        } catch (err) {
+          console.error('[BookingService] Failed to publish SeatReleasedEvent:', err);
+        }
+      }
+    }
+
+    return releasedSeats;
+  }
+
+  /**
+   * Loads every seat (duplicates removed)
+   * @throws SeatNotFoundError for the first seat that doesn't exist
+   */
+  private async findAllOrThrow(seatIds: string[]): Promise<Seat[]> {
+    const uniqueSeatIds = Array.from(new Set(seatIds));
+    const seats = await Promise.all(
+      uniqueSeatIds.map((seatId) => this.seatRepository.findById(seatId))
+    );
+
+    return seats.map((seat, index) => {
+      if (!seat) {
+        throw new SeatNotFoundError(uniqueSeatIds[index]);
+      }
+      return seat;
+    });
+  }
+
+  /**
+   * A seat lock holds one ticket of its event
+   */
+  private toSaleLock(seat: Seat): SaleLock {
+    return { eventId: seat.eventId, lockId: seat.id, quantity: 1 };
+  }
+
+  /**
+   * Ticket transfers need the optional transfer repository
+   */
+  private requireTransferRepository(): ITicketTransferRepository {
+    if (!this.transferRepository) {
+      throw new Error('BookingService was created without a ticket transfer repository');
+    }
+    return this.transferRepository;
+  }
+
+  /**
+   * Publishes a SeatLockedEvent (failures are logged, never thrown)
+   */
+  private async publishSeatLocked(lockedSeat: Seat, userId: string): Promise<void> {
+    if (!this.eventPublisher) return;
+
+    const event = createSeatLockedEvent({
+      seatId: lockedSeat.id,
+      eventId: lockedSeat.eventId,
+      userId,
+      seatNumber: lockedSeat.seatNumber,
+      price: lockedSeat.price,
+      expiresAt: lockedSeat.lockExpiresAt ?? undefined,
+    });
+
+    console.log("📝 DB Transaction committed. Starting Publish (SeatLocked)...");
+    try {
+      await this.eventPublisher.publish(EVENT_QUEUES.NOTIFICATION, event);
+      console.log("🎉 Publish process finished (SeatLocked).");
+    } catch (err) {
+      console.error('[BookingService] Failed to publish SeatLockedEvent:', err);
+    }
   }
 }
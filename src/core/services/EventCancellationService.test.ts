@@ -0,0 +1,248 @@
+import { Seat, SeatStatus } from '@/core/domain/seat.entity';
+import { SalesWindow, EventStatus } from '@/core/domain/sales-window.entity';
+import { OrderStatus } from '@/core/domain/order.entity';
+import { EVENT_QUEUES } from '@/core/events';
+import { InMemorySeatRepository } from '@/infrastructure/repositories/InMemorySeatRepository';
+import { InMemoryOrderRepository } from '@/infrastructure/repositories/InMemoryOrderRepository';
+import { InMemorySalesWindowRepository } from '@/infrastructure/repositories/InMemorySalesWindowRepository';
+import { InMemoryEventCancellationRepository } from '@/infrastructure/repositories/InMemoryEventCancellationRepository';
+import { InMemoryGaInventoryRepository } from '@/infrastructure/repositories/InMemoryGaInventoryRepository';
+import { GaZone } from '@/core/domain/ga-zone.entity';
+import { GaReservationStatus } from '@/core/domain/ga-reservation.entity';
+import { BookingService } from './BookingService';
+import { GeneralAdmissionService } from './GeneralAdmissionService';
+import { EventNotFoundError } from './PerformanceService';
+import {
+  EventCancellationService,
+  EventAlreadyCancelledError,
+  EventCancellationNotFoundError,
+} from './EventCancellationService';
+
+describe('EventCancellationService', () => {
+  let seatRepository: InMemorySeatRepository;
+  let orderRepository: InMemoryOrderRepository;
+  let salesWindowRepository: InMemorySalesWindowRepository;
+  let cancellationRepository: InMemoryEventCancellationRepository;
+  let bookingService: BookingService;
+  let publish: jest.Mock;
+  let cancellationService: EventCancellationService;
+
+  const seat = (id: string) => Seat.create({ id, eventId: 'event-1', performanceId: 'perf-1', seatNumber: id.toUpperCase(), price: 100 });
+
+  beforeEach(async () => {
+    seatRepository = new InMemorySeatRepository();
+    orderRepository = new InMemoryOrderRepository(seatRepository);
+    salesWindowRepository = new InMemorySalesWindowRepository();
+    cancellationRepository = new InMemoryEventCancellationRepository();
+    bookingService = new BookingService(seatRepository, orderRepository);
+    publish = jest.fn().mockResolvedValue(undefined);
+    cancellationService = new EventCancellationService(
+      seatRepository,
+      salesWindowRepository,
+      cancellationRepository,
+      bookingService,
+      { publish },
+      2 // Refund batch size
+    );
+
+    salesWindowRepository.seed([SalesWindow.create({ eventId: 'event-1', status: EventStatus.ON_SALE })]);
+    seatRepository.seed([seat('a1'), seat('a2'), seat('a3'), seat('a4'), seat('a5').lock('user-3')]);
+
+    // user-1 bought two seats, user-2 one
+    for (const [seatId, userId] of [['a1', 'user-1'], ['a2', 'user-1'], ['a3', 'user-2']]) {
+      await bookingService.lockSeat(seatId, userId);
+      await bookingService.confirmSale(seatId, userId);
+    }
+  });
+
+  const refundJobs = () =>
+    publish.mock.calls
+      .filter(([queue]) => queue === EVENT_QUEUES.TICKET_REFUND)
+      .map(([, event]) => event);
+
+  describe('cancelEvent()', () => {
+    it('should cancel the event and release the seats in checkout', async () => {
+      // Act
+      const { cancellation, releasedSeatCount } = await cancellationService.cancelEvent('event-1', 'admin-1', 'Artist illness');
+
+      // Assert
+      expect((await salesWindowRepository.findByEventId('event-1'))?.status).toBe(EventStatus.CANCELLED);
+      expect(releasedSeatCount).toBe(1);
+      expect((await seatRepository.findById('a5'))?.status).toBe(SeatStatus.AVAILABLE);
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.NOTIFICATION,
+        expect.objectContaining({ eventType: 'SEAT_RELEASED', seatId: 'a5', reason: 'EVENT_CANCELLED' })
+      );
+
+      expect(cancellation.totalRefunds).toBe(3);
+      expect(cancellation.totalBatches).toBe(2);
+      expect(cancellation.isComplete()).toBe(false);
+    });
+
+    it('should publish the sold seats in refund batches', async () => {
+      await cancellationService.cancelEvent('event-1', 'admin-1', 'Artist illness');
+
+      expect(refundJobs()).toEqual([
+        expect.objectContaining({ eventType: 'EVENT_REFUND_BATCH', batchNumber: 1, totalBatches: 2, seatIds: ['a1', 'a2'], reason: 'Artist illness' }),
+        expect.objectContaining({ eventType: 'EVENT_REFUND_BATCH', batchNumber: 2, totalBatches: 2, seatIds: ['a3'] }),
+      ]);
+    });
+
+    it('should notify each ticket holder once', async () => {
+      await cancellationService.cancelEvent('event-1', 'admin-1');
+
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.NOTIFICATION,
+        expect.objectContaining({
+          eventType: 'EVENT_CANCELLED',
+          recipients: [
+            { userId: 'user-1', seatNumbers: ['A1', 'A2'], gaTickets: [] },
+            { userId: 'user-2', seatNumbers: ['A3'], gaTickets: [] },
+          ],
+        })
+      );
+    });
+
+    it('should throw EventAlreadyCancelledError when cancelling twice', async () => {
+      await cancellationService.cancelEvent('event-1', 'admin-1');
+
+      await expect(cancellationService.cancelEvent('event-1', 'admin-1')).rejects.toThrow(EventAlreadyCancelledError);
+      expect(refundJobs()).toHaveLength(2);
+    });
+
+    it('should throw EventNotFoundError if the event does not exist', async () => {
+      await expect(cancellationService.cancelEvent('event-404', 'admin-1')).rejects.toThrow(EventNotFoundError);
+    });
+  });
+
+  describe('processRefundBatch()', () => {
+    it('should refund every seat of the batch and track progress', async () => {
+      // Arrange
+      await cancellationService.cancelEvent('event-1', 'admin-1');
+      const [firstBatch, secondBatch] = refundJobs();
+
+      // Act
+      const result = await cancellationService.processRefundBatch(firstBatch);
+
+      // Assert
+      expect(result).toEqual({ refundedCount: 2, failedRefunds: [], recorded: true });
+      expect((await seatRepository.findById('a1'))?.status).toBe(SeatStatus.AVAILABLE);
+      expect((await orderRepository.findActiveBySeatId('a3'))?.status).toBe(OrderStatus.COMPLETED);
+
+      const inProgress = await cancellationService.getCancellation('event-1');
+      expect(inProgress.refundedCount).toBe(2);
+      expect(inProgress.progressPercent()).toBe(66);
+
+      await cancellationService.processRefundBatch(secondBatch);
+      expect((await cancellationService.getCancellation('event-1')).isComplete()).toBe(true);
+    });
+
+    it('should count a redelivered batch once', async () => {
+      await cancellationService.cancelEvent('event-1', 'admin-1');
+      const [firstBatch] = refundJobs();
+      await cancellationService.processRefundBatch(firstBatch);
+
+      const redelivered = await cancellationService.processRefundBatch(firstBatch);
+
+      expect(redelivered.recorded).toBe(false);
+      expect((await cancellationService.getCancellation('event-1')).refundedCount).toBe(2);
+    });
+
+    it('should record refunds that fail for the support report', async () => {
+      // Arrange
+      await cancellationService.cancelEvent('event-1', 'admin-1');
+      const [firstBatch] = refundJobs();
+
+      // Act
+      const result = await cancellationService.processRefundBatch({ ...firstBatch, seatIds: ['a1', 'seat-gone'] });
+
+      // Assert
+      expect(result.refundedCount).toBe(1);
+      expect(result.failedRefunds).toHaveLength(1);
+
+      const failedRefunds = await cancellationService.getFailedRefunds('event-1');
+      expect(failedRefunds).toEqual([
+        expect.objectContaining({ seatId: 'seat-gone', batchNumber: 1, error: 'Seat seat-gone not found' }),
+      ]);
+      expect((await cancellationService.getCancellation('event-1')).failedCount).toBe(1);
+    });
+  });
+
+  describe('general admission', () => {
+    let gaRepository: InMemoryGaInventoryRepository;
+    let lockedId: string;
+    let soldId: string;
+
+    const available = async () => (await gaRepository.findZoneById('zone-1'))?.available;
+
+    beforeEach(async () => {
+      gaRepository = new InMemoryGaInventoryRepository(orderRepository);
+      gaRepository.seed([GaZone.create({ id: 'zone-1', eventId: 'event-1', name: 'Standing', price: 45, capacity: 10 })]);
+      const gaService = new GeneralAdmissionService(gaRepository, orderRepository);
+
+      lockedId = (await gaService.lockTickets('zone-1', 'user-3', 2)).id;
+      soldId = (await gaService.lockTickets('zone-1', 'user-1', 3)).id;
+      await gaService.confirmPurchase(soldId, 'user-1');
+
+      cancellationService = new EventCancellationService(
+        seatRepository,
+        salesWindowRepository,
+        cancellationRepository,
+        bookingService,
+        { publish },
+        2,
+        undefined,
+        gaService
+      );
+    });
+
+    it('should release the GA tickets in checkout and queue the sold ones for refund', async () => {
+      const { cancellation, releasedGaReservationCount } = await cancellationService.cancelEvent('event-1', 'admin-1');
+
+      expect(releasedGaReservationCount).toBe(1);
+      expect((await gaRepository.findReservationById(lockedId))?.status).toBe(GaReservationStatus.RELEASED);
+      expect(cancellation.totalRefunds).toBe(4);
+      expect(cancellation.totalBatches).toBe(3);
+      expect(refundJobs()[2]).toMatchObject({ batchNumber: 3, seatIds: [], gaReservationIds: [soldId] });
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.NOTIFICATION,
+        expect.objectContaining({
+          eventType: 'EVENT_CANCELLED',
+          recipients: expect.arrayContaining([
+            { userId: 'user-1', seatNumbers: ['A1', 'A2'], gaTickets: [{ zoneName: 'Standing', quantity: 3 }] },
+          ]),
+        })
+      );
+    });
+
+    it('should refund the GA reservations of a batch', async () => {
+      await cancellationService.cancelEvent('event-1', 'admin-1');
+      const gaBatch = refundJobs()[2];
+      const order = await orderRepository.findActiveByGaReservationId(soldId);
+
+      const result = await cancellationService.processRefundBatch(gaBatch);
+
+      expect(result).toEqual({ refundedCount: 1, failedRefunds: [], recorded: true });
+      expect((await gaRepository.findReservationById(soldId))?.status).toBe(GaReservationStatus.REFUNDED);
+      expect(await available()).toBe(10);
+      expect((await orderRepository.findById(order!.id))?.status).toBe(OrderStatus.REFUNDED);
+    });
+
+    it('should record GA refunds that fail for the support report', async () => {
+      await cancellationService.cancelEvent('event-1', 'admin-1');
+      const gaBatch = refundJobs()[2];
+
+      await cancellationService.processRefundBatch({ ...gaBatch, gaReservationIds: [soldId, 'ga-gone'] });
+
+      expect(await cancellationService.getFailedRefunds('event-1')).toEqual([
+        expect.objectContaining({ seatId: null, gaReservationId: 'ga-gone', batchNumber: 3 }),
+      ]);
+    });
+  });
+
+  describe('getCancellation()', () => {
+    it('should throw EventCancellationNotFoundError if the event was not cancelled', async () => {
+      await expect(cancellationService.getCancellation('event-1')).rejects.toThrow(EventCancellationNotFoundError);
+    });
+  });
+});
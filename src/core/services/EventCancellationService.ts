@@ -0,0 +1,453 @@
+import { randomUUID } from 'crypto';
+import { Seat } from '@/core/domain/seat.entity';
+import { GaReservation } from '@/core/domain/ga-reservation.entity';
+import { EventStatus } from '@/core/domain/sales-window.entity';
+import { EventCancellation } from '@/core/domain/event-cancellation.entity';
+import { ISeatRepository } from '@/core/interfaces/ISeatRepository';
+import { ISalesWindowRepository } from '@/core/interfaces/ISalesWindowRepository';
+import { IEventCancellationRepository, FailedRefund } from '@/core/interfaces/IEventCancellationRepository';
+import { IEventPublisher } from '@/core/interfaces/IEventPublisher';
+import { IPresaleRepository } from '@/core/interfaces/IPresaleRepository';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import {
+  EVENT_QUEUES,
+  createSeatReleasedEvent,
+  createEventRefundBatchEvent,
+  createEventCancelledEvent,
+  type CancellationRecipient,
+} from '@/core/events';
+import { BookingService, SeatNotRefundableError } from './BookingService';
+import { GeneralAdmissionService, GaReservationNotRefundableError } from './GeneralAdmissionService';
+import { EventNotFoundError } from './PerformanceService';
+
+/**
+ * Default number of purchases refunded (and ticket holders notified) per job
+ */
+export const DEFAULT_REFUND_BATCH_SIZE = 100;
+
+/**
+ * Refund reason recorded on the order when the admin gives none
+ */
+const DEFAULT_CANCELLATION_REASON = 'Event cancelled';
+
+/**
+ * Custom Error: Event was already cancelled
+ */
+export class EventAlreadyCancelledError extends Error {
+  constructor(eventId: string) {
+    super(`Event ${eventId} is already cancelled`);
+    this.name = 'EventAlreadyCancelledError';
+  }
+}
+
+/**
+ * Custom Error: Event was never cancelled
+ */
+export class EventCancellationNotFoundError extends Error {
+  constructor(eventId: string) {
+    super(`Event ${eventId} has not been cancelled`);
+    this.name = 'EventCancellationNotFoundError';
+  }
+}
+
+/**
+ * Result of cancelling an event
+ */
+export interface EventCancellationResult {
+  readonly cancellation: EventCancellation;
+  readonly releasedSeatCount: number; // LOCKED seats released
+  readonly releasedGaReservationCount: number; // LOCKED GA reservations released
+}
+
+/**
+ * A refund job, as published to the refund queue
+ */
+export interface RefundBatch {
+  readonly cancellationId: string;
+  readonly eventId: string;
+  readonly batchNumber: number;
+  readonly seatIds: string[];
+  readonly gaReservationIds?: string[]; // Absent in jobs queued before GA refunds
+  readonly reason: string | null;
+}
+
+/**
+ * The purchases one refund job covers
+ */
+interface RefundBatchItems {
+  readonly seatIds: string[];
+  readonly gaReservationIds: string[];
+}
+
+/**
+ * Result of processing a refund job
+ */
+export interface RefundBatchResult {
+  readonly refundedCount: number;
+  readonly failedRefunds: FailedRefund[];
+  readonly recorded: boolean; // false = the batch had been counted before (redelivered job)
+}
+
+/**
+ * Event Cancellation Service
+ *
+ * Calls an event off and refunds every ticket sold for it.
+ *
+ * Cancelling moves the event to CANCELLED (so no new seat can be locked),
+ * releases the seats and GA reservations still LOCKED in checkout and
+ * splits the SOLD ones into refund batches. Each batch is published to the refund queue, and
+ * the ticket holders to the notification queue, so the worker can work
+ * off thousands of refunds one job at a time while admins follow the
+ * progress. Refunds that fail are recorded for support.
+ *
+ * Seats are refunded through BookingService.refundSale, so each refund
+ * is persisted and announced (ticket voided, refund email) like a manual one.
+ * GA reservations go through GeneralAdmissionService.refundPurchase.
+ *
+ * @example
+ * ```typescript
+ * const cancellations = new EventCancellationService(seatRepo, windowRepo, cancellationRepo, bookingService, eventPublisher, 100, presaleRepo, gaService);
+ * await cancellations.cancelEvent('evt-1', adminId, 'Artist illness');
+ * await cancellations.processRefundBatch(batch); // from the worker
+ * ```
+ */
+export class EventCancellationService {
+  constructor(
+    private readonly seatRepository: ISeatRepository,
+    private readonly salesWindowRepository: ISalesWindowRepository,
+    private readonly cancellationRepository: IEventCancellationRepository,
+    private readonly bookingService: BookingService,
+    private readonly eventPublisher?: IEventPublisher,
+    private readonly batchSize: number = DEFAULT_REFUND_BATCH_SIZE,
+    private readonly presaleRepository?: IPresaleRepository,
+    private readonly generalAdmissionService?: GeneralAdmissionService
+  ) {}
+
+  /**
+   * Cancels an event and queues the refunds of its sold seats and GA reservations
+   *
+   * An event left CANCELLED without a cancellation record (the request
+   * failed half way) can be cancelled again to finish the job.
+   *
+   * @param eventId - The event to call off
+   * @param adminId - Admin performing the cancellation
+   * @param reason - Optional reason, recorded on every refund
+   * @returns The cancellation tracking the refunds
+   * @throws EventNotFoundError if the event doesn't exist
+   * @throws EventAlreadyCancelledError if the event was cancelled before
+   */
+  async cancelEvent(eventId: string, adminId: string, reason?: string): Promise<EventCancellationResult> {
+    // 1. Stop sales first, so no new lock (or sale) races the clean-up
+    const window = await this.salesWindowRepository.findByEventId(eventId);
+
+    if (!window) {
+      throw new EventNotFoundError(eventId);
+    }
+
+    if (await this.cancellationRepository.findByEventId(eventId)) {
+      throw new EventAlreadyCancelledError(eventId);
+    }
+
+    if (window.status !== EventStatus.CANCELLED) {
+      await this.salesWindowRepository.save(window.cancel());
+    }
+
+    // 2. Release the seats and GA tickets still in checkout
+    const releasedSeatCount = await this.releaseLockedSeats(eventId);
+    const releasedGaReservations = (await this.generalAdmissionService?.releaseEventLocks(eventId)) ?? [];
+
+    // 3. Re-read: a checkout that completed before its lock was released is SOLD now
+    const soldSeats = (await this.seatRepository.findByEventId(eventId)).filter((seat) => seat.isSold());
+    const soldReservations = (await this.generalAdmissionService?.findSoldReservations(eventId)) ?? [];
+    const refundBatches: RefundBatchItems[] = [
+      ...this.chunk(soldSeats).map((seats) => ({ seatIds: seats.map((seat) => seat.id), gaReservationIds: [] })),
+      ...this.chunk(soldReservations).map((reservations) => ({
+        seatIds: [],
+        gaReservationIds: reservations.map((reservation) => reservation.id),
+      })),
+    ];
+    const totalRefunds = soldSeats.length + soldReservations.length;
+
+    const cancellation = EventCancellation.create({
+      id: randomUUID(),
+      eventId,
+      cancelledBy: adminId,
+      reason,
+      totalRefunds,
+      totalBatches: refundBatches.length,
+    });
+
+    // A concurrent cancellation got there first and queues the refunds itself
+    if (!(await this.cancellationRepository.create(cancellation))) {
+      throw new EventAlreadyCancelledError(eventId);
+    }
+
+    console.log(
+      `🚫 Event ${eventId} cancelled by ${adminId}: ${totalRefunds} refund(s) in ${refundBatches.length} batch(es)`
+    );
+
+    // 4. Queue the refunds and the ticket holder notifications
+    await this.publishRefundBatches(cancellation, refundBatches);
+    await this.publishCancellationNotices(cancellation, soldSeats, soldReservations);
+
+    return { cancellation, releasedSeatCount, releasedGaReservationCount: releasedGaReservations.length };
+  }
+
+  /**
+   * Refunds the seats and GA reservations of one refund job and records its progress
+   *
+   * A purchase that is no longer SOLD was refunded already (a redelivered
+   * job or a manual refund) and counts as refunded. Any other error is
+   * recorded as a failed refund for support to follow up; it doesn't stop
+   * the batch.
+   */
+  async processRefundBatch(batch: RefundBatch): Promise<RefundBatchResult> {
+    const failedRefunds: FailedRefund[] = [];
+    let refundedCount = 0;
+
+    for (const seatId of batch.seatIds) {
+      try {
+        await this.bookingService.refundSale(seatId, batch.reason ?? DEFAULT_CANCELLATION_REASON);
+        refundedCount++;
+      } catch (err) {
+        if (err instanceof SeatNotRefundableError) {
+          refundedCount++;
+          continue;
+        }
+
+        console.error(`[EventCancellationService] Failed to refund seat ${seatId}:`, err);
+        failedRefunds.push(this.failedRefund(batch, { seatId, gaReservationId: null }, err));
+      }
+    }
+
+    for (const gaReservationId of batch.gaReservationIds ?? []) {
+      try {
+        await this.requireGeneralAdmissionService().refundPurchase(
+          gaReservationId,
+          batch.reason ?? DEFAULT_CANCELLATION_REASON
+        );
+        refundedCount++;
+      } catch (err) {
+        if (err instanceof GaReservationNotRefundableError) {
+          refundedCount++;
+          continue;
+        }
+
+        console.error(`[EventCancellationService] Failed to refund GA reservation ${gaReservationId}:`, err);
+        failedRefunds.push(this.failedRefund(batch, { seatId: null, gaReservationId }, err));
+      }
+    }
+
+    const recorded = await this.cancellationRepository.recordBatch(
+      batch.cancellationId,
+      batch.batchNumber,
+      refundedCount,
+      failedRefunds
+    );
+
+    return { refundedCount, failedRefunds, recorded };
+  }
+
+  /**
+   * Loads the cancellation of an event, with its refund progress
+   *
+   * @throws EventCancellationNotFoundError if the event wasn't cancelled
+   */
+  async getCancellation(eventId: string): Promise<EventCancellation> {
+    const cancellation = await this.cancellationRepository.findByEventId(eventId);
+
+    if (!cancellation) {
+      throw new EventCancellationNotFoundError(eventId);
+    }
+
+    return cancellation;
+  }
+
+  /**
+   * Lists the refunds that failed while cancelling an event
+   *
+   * @throws EventCancellationNotFoundError if the event wasn't cancelled
+   */
+  async getFailedRefunds(eventId: string): Promise<FailedRefund[]> {
+    const cancellation = await this.getCancellation(eventId);
+    return this.cancellationRepository.findFailedRefunds(cancellation.id);
+  }
+
+  /**
+   * Releases every LOCKED seat of the event, handing their presale quota back
+   * @returns How many seats were released
+   */
+  private async releaseLockedSeats(eventId: string): Promise<number> {
+    const lockedSeats = (await this.seatRepository.findByEventId(eventId)).filter((seat) => seat.isLocked());
+    const releasedSeatIds: string[] = [];
+
+    for (const seat of lockedSeats) {
+      try {
+        await this.seatRepository.save(seat.release());
+        releasedSeatIds.push(seat.id);
+        await this.publishSeatReleased(seat);
+      } catch (err) {
+        // The seat changed since we read it (sold or released) - the re-read picks up sales
+        if (err instanceof ConcurrencyError) {
+          continue;
+        }
+        throw err;
+      }
+    }
+
+    await this.releasePresaleLocks(releasedSeatIds);
+
+    return releasedSeatIds.length;
+  }
+
+  /**
+   * Hands back the presale quota held by released locks (failures are logged, never thrown)
+   */
+  private async releasePresaleLocks(lockIds: string[]): Promise<void> {
+    if (lockIds.length === 0) return;
+
+    try {
+      await this.presaleRepository?.releaseLocks(lockIds);
+    } catch (err) {
+      console.error('[EventCancellationService] Failed to release presale locks:', err);
+    }
+  }
+
+  /**
+   * Records a refund of the job that failed, for support to follow up
+   */
+  private failedRefund(
+    batch: RefundBatch,
+    target: Pick<FailedRefund, 'seatId' | 'gaReservationId'>,
+    err: unknown
+  ): FailedRefund {
+    return {
+      id: randomUUID(),
+      cancellationId: batch.cancellationId,
+      eventId: batch.eventId,
+      ...target,
+      batchNumber: batch.batchNumber,
+      error: err instanceof Error ? err.message : String(err),
+      failedAt: new Date(),
+    };
+  }
+
+  /**
+   * GA refunds need the optional general admission service
+   */
+  private requireGeneralAdmissionService(): GeneralAdmissionService {
+    if (!this.generalAdmissionService) {
+      throw new Error('EventCancellationService was created without a general admission service');
+    }
+    return this.generalAdmissionService;
+  }
+
+  /**
+   * Publishes one refund job per batch of sold seats or GA reservations (failures are logged, never thrown)
+   */
+  private async publishRefundBatches(cancellation: EventCancellation, batches: RefundBatchItems[]): Promise<void> {
+    if (!this.eventPublisher) return;
+
+    for (const [index, items] of batches.entries()) {
+      const event = createEventRefundBatchEvent({
+        cancellationId: cancellation.id,
+        eventId: cancellation.eventId,
+        batchNumber: index + 1,
+        totalBatches: batches.length,
+        seatIds: items.seatIds,
+        gaReservationIds: items.gaReservationIds,
+        reason: cancellation.reason,
+      });
+
+      try {
+        await this.eventPublisher.publish(EVENT_QUEUES.TICKET_REFUND, event);
+      } catch (err) {
+        console.error('[EventCancellationService] Failed to publish EventRefundBatchEvent:', err);
+      }
+    }
+  }
+
+  /**
+   * Notifies every ticket holder once, in batches (failures are logged, never thrown)
+   */
+  private async publishCancellationNotices(
+    cancellation: EventCancellation,
+    soldSeats: Seat[],
+    soldReservations: GaReservation[]
+  ): Promise<void> {
+    if (!this.eventPublisher) return;
+
+    const recipientsByUser = new Map<string, CancellationRecipient>();
+    const recipientOf = (userId: string) =>
+      recipientsByUser.get(userId) ?? { userId, seatNumbers: [], gaTickets: [] };
+
+    for (const seat of soldSeats) {
+      if (!seat.userId) continue;
+      const recipient = recipientOf(seat.userId);
+      recipientsByUser.set(seat.userId, { ...recipient, seatNumbers: [...recipient.seatNumbers, seat.seatNumber] });
+    }
+
+    if (soldReservations.length > 0) {
+      const zones = await this.requireGeneralAdmissionService().findZones(cancellation.eventId);
+      const zoneNames = new Map(zones.map((zone) => [zone.id, zone.name]));
+
+      for (const reservation of soldReservations) {
+        const recipient = recipientOf(reservation.userId);
+        const tickets = {
+          zoneName: zoneNames.get(reservation.zoneId) ?? reservation.zoneId,
+          quantity: reservation.quantity,
+        };
+        recipientsByUser.set(reservation.userId, { ...recipient, gaTickets: [...recipient.gaTickets, tickets] });
+      }
+    }
+
+    const recipients = Array.from(recipientsByUser.values());
+    const batches = this.chunk(recipients);
+
+    for (const [index, batch] of batches.entries()) {
+      const event = createEventCancelledEvent({
+        cancellationId: cancellation.id,
+        eventId: cancellation.eventId,
+        batchNumber: index + 1,
+        totalBatches: batches.length,
+        recipients: batch,
+        reason: cancellation.reason,
+      });
+
+      try {
+        await this.eventPublisher.publish(EVENT_QUEUES.NOTIFICATION, event);
+      } catch (err) {
+        console.error('[EventCancellationService] Failed to publish EventCancelledEvent:', err);
+      }
+    }
+  }
+
+  /**
+   * Publishes a SeatReleasedEvent for a lock the cancellation released (failures are logged, never thrown)
+   */
+  private async publishSeatReleased(lockedSeat: Seat): Promise<void> {
+    if (!this.eventPublisher || !lockedSeat.userId) return;
+
+    const event = createSeatReleasedEvent({
+      seatId: lockedSeat.id,
+      eventId: lockedSeat.eventId,
+      userId: lockedSeat.userId,
+      seatNumber: lockedSeat.seatNumber,
+      reason: 'EVENT_CANCELLED',
+    });
+
+    try {
+      await this.eventPublisher.publish(EVENT_QUEUES.NOTIFICATION, event);
+    } catch (err) {
+      console.error('[EventCancellationService] Failed to publish SeatReleasedEvent:', err);
+    }
+  }
+
+  private chunk<T>(items: T[]): T[][] {
+    const chunks: T[][] = [];
+    for (let start = 0; start < items.length; start += this.batchSize) {
+      chunks.push(items.slice(start, start + this.batchSize));
+    }
+    return chunks;
+  }
+}
@@ -0,0 +1,257 @@
+import { Event } from '@/core/domain/event.entity';
+import { EventStatus } from '@/core/domain/sales-window.entity';
+import { Performance } from '@/core/domain/performance.entity';
+import { SeatTemplate } from '@/core/domain/seat-template.entity';
+import { EVENT_QUEUES } from '@/core/events';
+import { InMemorySeatRepository } from '@/infrastructure/repositories/InMemorySeatRepository';
+import { InMemoryPerformanceRepository } from '@/infrastructure/repositories/InMemoryPerformanceRepository';
+import { InMemorySeatTemplateRepository } from '@/infrastructure/repositories/InMemorySeatTemplateRepository';
+import { InMemoryEventRepository } from '@/infrastructure/repositories/InMemoryEventRepository';
+import { EventNotFoundError, SeatTemplateNotFoundError, PriceCategoryMismatchError } from './PerformanceService';
+import { EventAlreadyCancelledError } from './EventCancellationService';
+import { EventService, EventHasSalesError, InvalidEventError } from './EventService';
+
+describe('EventService', () => {
+  let seatRepository: InMemorySeatRepository;
+  let performanceRepository: InMemoryPerformanceRepository;
+  let eventRepository: InMemoryEventRepository;
+  let publish: jest.Mock;
+  let eventService: EventService;
+
+  const date = new Date('2026-03-01T20:00:00Z');
+  const hours = (count: number) => count * 60 * 60 * 1000;
+
+  const template = SeatTemplate.create({
+    id: 'tpl-1',
+    name: 'Hall 1',
+    seats: [
+      { seatNumber: 'A-1', section: 'Floor', row: 'A', number: 1, price: 20, priceCategoryName: 'VIP' },
+      { seatNumber: 'B-1', section: 'Floor', row: 'B', number: 1, price: 20, priceCategoryName: null },
+    ],
+  });
+
+  const listedEvent = (id: string, location: string, eventDate: Date, status = EventStatus.ON_SALE) =>
+    Event.create({ id, title: `Show ${id}`, date: eventDate, location, totalSeats: 10, status });
+
+  beforeEach(() => {
+    seatRepository = new InMemorySeatRepository();
+    performanceRepository = new InMemoryPerformanceRepository(seatRepository);
+    eventRepository = new InMemoryEventRepository(performanceRepository, seatRepository);
+    publish = jest.fn().mockResolvedValue(undefined);
+
+    const templateRepository = new InMemorySeatTemplateRepository();
+    templateRepository.seed([template]);
+
+    eventService = new EventService(eventRepository, performanceRepository, templateRepository, seatRepository, {
+      publish,
+    });
+  });
+
+  describe('createEvent()', () => {
+    it('should lay out the seats from the seat count on a first performance', async () => {
+      // Act
+      const { event, performance, seatCount } = await eventService.createEvent({
+        title: 'Dune: Part Three',
+        date,
+        location: 'IMAX Hall 1',
+        seating: { totalSeats: 25, price: 15 },
+      });
+
+      // Assert
+      expect(event.status).toBe(EventStatus.DRAFT);
+      expect(event.totalSeats).toBe(25);
+      expect(seatCount).toBe(25);
+      expect(performance.startsAt).toEqual(date);
+      expect(performance.seatTemplateId).toBeNull();
+      const seats = await seatRepository.findByPerformanceId(performance.id);
+      expect(seats).toHaveLength(25);
+      expect(seats.every((seat) => seat.eventId === event.id && seat.price === 15)).toBe(true);
+      expect(seats.map((seat) => seat.seatNumber)).toContain('B-5');
+    });
+
+    it('should generate the seats from a template, priced with the price table', async () => {
+      // Act
+      const { event, performance } = await eventService.createEvent({
+        title: 'Gala',
+        date,
+        location: 'Hall 1',
+        priceCategories: [{ name: 'VIP', price: 150 }],
+        seating: { seatTemplateId: 'tpl-1' },
+      });
+
+      // Assert
+      expect(event.totalSeats).toBe(2);
+      expect(performance.seatTemplateId).toBe('tpl-1');
+      const [vip] = eventRepository.getPriceCategories(event.id);
+      const seats = await seatRepository.findByPerformanceId(performance.id);
+      expect(seats.find((seat) => seat.seatNumber === 'A-1')?.priceCategory).toEqual({ id: vip.id, name: 'VIP' });
+      expect(seats.find((seat) => seat.seatNumber === 'A-1')?.price).toBe(150);
+    });
+
+    it('should reject an unknown template', async () => {
+      await expect(
+        eventService.createEvent({ title: 'Gala', date, location: 'Hall 1', seating: { seatTemplateId: 'tpl-x' } })
+      ).rejects.toThrow(SeatTemplateNotFoundError);
+    });
+
+    it('should reject a template using categories missing from the price table', async () => {
+      await expect(
+        eventService.createEvent({ title: 'Gala', date, location: 'Hall 1', seating: { seatTemplateId: 'tpl-1' } })
+      ).rejects.toThrow(PriceCategoryMismatchError);
+    });
+
+    it('should report broken rules as InvalidEventError', async () => {
+      await expect(
+        eventService.createEvent({
+          title: 'Gala',
+          date,
+          location: 'Hall 1',
+          salesStartAt: date,
+          salesEndAt: new Date(date.getTime() - hours(1)),
+          seating: { totalSeats: 10, price: 15 },
+        })
+      ).rejects.toThrow(InvalidEventError);
+    });
+  });
+
+  describe('listEvents()', () => {
+    beforeEach(() => {
+      eventRepository.seed([
+        listedEvent('evt-berlin', 'Berlin Arena', new Date('2026-05-01T19:00:00Z')),
+        listedEvent('evt-paris', 'Paris Olympia', new Date('2026-04-01T19:00:00Z')),
+        listedEvent('evt-draft', 'Berlin Club', new Date('2026-04-15T19:00:00Z'), EventStatus.DRAFT),
+      ]);
+    });
+
+    it('should list listed events earliest first, without drafts', async () => {
+      const events = await eventService.listEvents();
+
+      expect(events.map((event) => event.id)).toEqual(['evt-paris', 'evt-berlin']);
+    });
+
+    it('should filter by location, ignoring case', async () => {
+      const events = await eventService.listEvents({ location: 'berlin', includeDrafts: true });
+
+      expect(events.map((event) => event.id)).toEqual(['evt-draft', 'evt-berlin']);
+    });
+
+    it('should match a date range on any performance of the event', async () => {
+      // Arrange: Paris plays again in June
+      performanceRepository.seed([
+        Performance.create({ id: 'perf-june', eventId: 'evt-paris', startsAt: new Date('2026-06-10T19:00:00Z') }),
+      ]);
+
+      // Act
+      const events = await eventService.listEvents({ from: new Date('2026-06-01T00:00:00Z') });
+
+      // Assert
+      expect(events.map((event) => event.id)).toEqual(['evt-paris']);
+    });
+  });
+
+  describe('updateEvent()', () => {
+    it('should save the changes', async () => {
+      // Arrange
+      const { event } = await eventService.createEvent({ title: 'Gala', date, location: 'Hall 1', seating: { totalSeats: 5, price: 10 } });
+
+      // Act
+      await eventService.updateEvent(event.id, { title: 'Winter Gala', status: EventStatus.ON_SALE });
+
+      // Assert
+      const saved = await eventService.getEvent(event.id);
+      expect(saved.title).toBe('Winter Gala');
+      expect(saved.status).toBe(EventStatus.ON_SALE);
+      expect(saved.location).toBe('Hall 1');
+    });
+
+    it('should refuse to change a cancelled event', async () => {
+      const event = listedEvent('evt-off', 'Hall 1', date);
+      eventRepository.seed([Event.fromPersistence({ ...event.toJSON(), status: EventStatus.CANCELLED })]);
+
+      await expect(eventService.updateEvent('evt-off', { title: 'Back on' })).rejects.toThrow(EventAlreadyCancelledError);
+    });
+
+    it('should reject an unknown event', async () => {
+      await expect(eventService.updateEvent('evt-x', { title: 'Gala' })).rejects.toThrow(EventNotFoundError);
+    });
+  });
+
+  describe('rescheduleEvent()', () => {
+    it('should move every performance by the same offset', async () => {
+      // Arrange: a second showtime three hours after the first
+      const { event, performance } = await eventService.createEvent({
+        title: 'Gala',
+        date,
+        location: 'Hall 1',
+        seating: { totalSeats: 5, price: 10 },
+      });
+      performanceRepository.seed([
+        Performance.create({ id: 'perf-late', eventId: event.id, startsAt: new Date(date.getTime() + hours(3)) }),
+      ]);
+      const newDate = new Date(date.getTime() + hours(24));
+
+      // Act
+      const { event: rescheduled } = await eventService.rescheduleEvent(event.id, newDate);
+
+      // Assert
+      expect(rescheduled.date).toEqual(newDate);
+      expect((await performanceRepository.findById(performance.id))?.startsAt).toEqual(newDate);
+      expect((await performanceRepository.findById('perf-late'))?.startsAt).toEqual(new Date(newDate.getTime() + hours(3)));
+    });
+
+    it('should tell the ticket holders', async () => {
+      // Arrange
+      const { event, performance } = await eventService.createEvent({
+        title: 'Gala',
+        date,
+        location: 'Hall 1',
+        seating: { totalSeats: 3, price: 10 },
+      });
+      const [first, second] = await seatRepository.findByPerformanceId(performance.id);
+      await seatRepository.saveAll([first.lock('user-1').sell(), second.lock('user-2')]);
+
+      // Act
+      await eventService.rescheduleEvent(event.id, new Date(date.getTime() + hours(24)));
+
+      // Assert
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.NOTIFICATION,
+        expect.objectContaining({
+          eventType: 'EVENT_RESCHEDULED',
+          eventId: event.id,
+          recipients: [{ userId: 'user-1', seatNumbers: [first.seatNumber] }],
+        })
+      );
+    });
+  });
+
+  describe('deleteEvent()', () => {
+    it('should delete an event nobody bought into', async () => {
+      const { event } = await eventService.createEvent({ title: 'Gala', date, location: 'Hall 1', seating: { totalSeats: 3, price: 10 } });
+
+      await eventService.deleteEvent(event.id);
+
+      await expect(eventService.getEvent(event.id)).rejects.toThrow(EventNotFoundError);
+    });
+
+    it('should refuse to delete an event with a seat in checkout', async () => {
+      // Arrange
+      const { event, performance } = await eventService.createEvent({
+        title: 'Gala',
+        date,
+        location: 'Hall 1',
+        seating: { totalSeats: 3, price: 10 },
+      });
+      const [seat] = await seatRepository.findByPerformanceId(performance.id);
+      await seatRepository.save(seat.lock('user-1'));
+
+      // Act & Assert
+      await expect(eventService.deleteEvent(event.id)).rejects.toThrow(EventHasSalesError);
+      expect(await eventService.getEvent(event.id)).toBeDefined();
+    });
+
+    it('should reject an unknown event', async () => {
+      await expect(eventService.deleteEvent('evt-x')).rejects.toThrow(EventNotFoundError);
+    });
+  });
+});
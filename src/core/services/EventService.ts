@@ -0,0 +1,322 @@
+import { randomUUID } from 'crypto';
+import { Event, EventChanges } from '@/core/domain/event.entity';
+import { EventStatus } from '@/core/domain/sales-window.entity';
+import { Performance } from '@/core/domain/performance.entity';
+import { SeatTemplate } from '@/core/domain/seat-template.entity';
+import { IEventRepository, EventFilter } from '@/core/interfaces/IEventRepository';
+import { IPerformanceRepository } from '@/core/interfaces/IPerformanceRepository';
+import { ISeatTemplateRepository } from '@/core/interfaces/ISeatTemplateRepository';
+import { ISeatRepository } from '@/core/interfaces/ISeatRepository';
+import { PriceCategory } from '@/core/interfaces/IPriceCategoryRepository';
+import { IEventPublisher } from '@/core/interfaces/IEventPublisher';
+import { EVENT_QUEUES, createEventRescheduledEvent, type RescheduleRecipient } from '@/core/events';
+import {
+  EventNotFoundError,
+  SeatTemplateNotFoundError,
+  PriceCategoryMismatchError,
+} from './PerformanceService';
+import { EventAlreadyCancelledError } from './EventCancellationService';
+
+/**
+ * Custom Error: Event details break a rule (e.g. sales end before they start)
+ */
+export class InvalidEventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidEventError';
+  }
+}
+
+/**
+ * Custom Error: Event can't be deleted because tickets were sold or are in checkout
+ */
+export class EventHasSalesError extends Error {
+  constructor(eventId: string) {
+    super(`Event ${eventId} has tickets sold or in checkout: cancel it instead`);
+    this.name = 'EventHasSalesError';
+  }
+}
+
+/**
+ * Where a new event's seats come from: a venue's seat template, or a
+ * number of seats at one price laid out in rows
+ */
+export type EventSeating =
+  | { readonly seatTemplateId: string }
+  | { readonly totalSeats: number; readonly price: number };
+
+/**
+ * Parameters for creating an event
+ */
+export interface CreateEventParams {
+  readonly title: string;
+  readonly description?: string | null;
+  readonly date: Date;                 // Also the start of the first performance
+  readonly location: string;
+  readonly resalePriceCapPercent?: number | null;
+  readonly status?: EventStatus;
+  readonly salesStartAt?: Date | null;
+  readonly salesEndAt?: Date | null;
+  readonly priceCategories?: ReadonlyArray<{ name: string; price: number }>;
+  readonly seating: EventSeating;
+}
+
+/**
+ * Result of creating an event
+ */
+export interface CreatedEvent {
+  readonly event: Event;
+  readonly performance: Performance;
+  readonly seatCount: number;
+}
+
+/**
+ * Result of rescheduling an event
+ */
+export interface RescheduledEvent {
+  readonly event: Event;
+  readonly performances: Performance[];
+}
+
+/**
+ * Event Service
+ *
+ * Manages the event catalogue. Creating an event puts it on the books
+ * with its price table and a first performance on its date, whose seats
+ * are generated from a seat template or from a plain seat count.
+ * Rescheduling moves every performance by the same offset and tells the
+ * ticket holders; deleting is for events nobody bought into (others are
+ * cancelled, see EventCancellationService, so their tickets are refunded).
+ *
+ * @example
+ * ```typescript
+ * const events = new EventService(eventRepo, performanceRepo, templateRepo, seatRepo, publisher);
+ * await events.createEvent({ title: 'Dune: Part Three', date, location: 'IMAX Hall 1', seating: { totalSeats: 120, price: 15 } });
+ * await events.listEvents({ from: new Date(), location: 'imax' });
+ * ```
+ */
+export class EventService {
+  constructor(
+    private readonly eventRepository: IEventRepository,
+    private readonly performanceRepository: IPerformanceRepository,
+    private readonly seatTemplateRepository: ISeatTemplateRepository,
+    private readonly seatRepository: ISeatRepository,
+    private readonly eventPublisher?: IEventPublisher
+  ) {}
+
+  /**
+   * Lists events, earliest first (drafts only if the filter asks for them)
+   */
+  async listEvents(filter: EventFilter = {}): Promise<Event[]> {
+    return this.eventRepository.findMany(filter);
+  }
+
+  /**
+   * Loads an event
+   *
+   * @throws EventNotFoundError if it doesn't exist
+   */
+  async getEvent(eventId: string): Promise<Event> {
+    const event = await this.eventRepository.findById(eventId);
+
+    if (!event) {
+      throw new EventNotFoundError(eventId);
+    }
+
+    return event;
+  }
+
+  /**
+   * Creates an event with its price table and a first performance on its
+   * date, seats and all
+   *
+   * @throws SeatTemplateNotFoundError if the seat template doesn't exist
+   * @throws PriceCategoryMismatchError if template seats refer to categories not in the price table
+   * @throws InvalidEventError if the event details break a rule
+   */
+  async createEvent(params: CreateEventParams): Promise<CreatedEvent> {
+    const eventId = randomUUID();
+    const priceCategories: PriceCategory[] = (params.priceCategories ?? []).map((category) => ({
+      id: randomUUID(),
+      name: category.name,
+      price: category.price,
+    }));
+
+    const template = await this.resolveSeating(eventId, params, priceCategories);
+
+    const event = this.applyRules(() =>
+      Event.create({
+        id: eventId,
+        title: params.title,
+        description: params.description,
+        date: params.date,
+        location: params.location,
+        totalSeats: template.capacity,
+        resalePriceCapPercent: params.resalePriceCapPercent,
+        status: params.status,
+        salesStartAt: params.salesStartAt,
+        salesEndAt: params.salesEndAt,
+      })
+    );
+
+    const performance = Performance.create({
+      id: randomUUID(),
+      eventId,
+      startsAt: params.date,
+      seatTemplateId: 'seatTemplateId' in params.seating ? template.id : null,
+    });
+    const seats = template.generateSeats({ performance, priceCategories });
+
+    await this.eventRepository.createWithInventory(event, { priceCategories, performance, seats });
+
+    console.log(`🎟️ Event ${eventId} created with ${seats.length} seats`);
+
+    return { event, performance, seatCount: seats.length };
+  }
+
+  /**
+   * Changes an event's details
+   *
+   * @throws EventNotFoundError if the event doesn't exist
+   * @throws EventAlreadyCancelledError if the event is cancelled
+   * @throws InvalidEventError if the changes break a rule
+   */
+  async updateEvent(eventId: string, changes: EventChanges): Promise<Event> {
+    const event = await this.getEvent(eventId);
+
+    if (event.isCancelled()) {
+      throw new EventAlreadyCancelledError(eventId);
+    }
+
+    const updated = this.applyRules(() => event.update(changes));
+    return this.eventRepository.save(updated);
+  }
+
+  /**
+   * Moves an event to a new date; every performance moves by the same
+   * offset, so a run of showtimes keeps its spacing. Ticket holders are
+   * notified, their tickets stay valid.
+   *
+   * @throws EventNotFoundError if the event doesn't exist
+   * @throws EventAlreadyCancelledError if the event is cancelled
+   * @throws InvalidEventError if the date is not a valid date
+   */
+  async rescheduleEvent(eventId: string, date: Date): Promise<RescheduledEvent> {
+    const event = await this.getEvent(eventId);
+
+    if (event.isCancelled()) {
+      throw new EventAlreadyCancelledError(eventId);
+    }
+
+    const rescheduled = this.applyRules(() => event.reschedule(date));
+    const offsetMs = date.getTime() - event.date.getTime();
+    const performances = (await this.performanceRepository.findByEventId(eventId)).map((performance) =>
+      performance.reschedule(new Date(performance.startsAt.getTime() + offsetMs))
+    );
+
+    await this.eventRepository.reschedule(rescheduled, performances);
+
+    console.log(`📅 Event ${eventId} moved from ${event.date.toISOString()} to ${date.toISOString()}`);
+
+    await this.publishRescheduleNotice(event, rescheduled);
+
+    return { event: rescheduled, performances };
+  }
+
+  /**
+   * Deletes an event with its performances, seats and price table
+   *
+   * @throws EventNotFoundError if the event doesn't exist
+   * @throws EventHasSalesError if any of its tickets is sold or in checkout
+   */
+  async deleteEvent(eventId: string): Promise<void> {
+    await this.getEvent(eventId);
+
+    const deleted = await this.eventRepository.deleteIfUnsold(eventId);
+    if (!deleted) {
+      throw new EventHasSalesError(eventId);
+    }
+
+    console.log(`🗑️ Event ${eventId} deleted`);
+  }
+
+  /**
+   * Loads the seat template of the seating, or lays one out from the seat count
+   */
+  private async resolveSeating(
+    eventId: string,
+    params: CreateEventParams,
+    priceCategories: PriceCategory[]
+  ): Promise<SeatTemplate> {
+    const { seating } = params;
+
+    if ('seatTemplateId' in seating) {
+      const template = await this.seatTemplateRepository.findById(seating.seatTemplateId);
+
+      if (!template) {
+        throw new SeatTemplateNotFoundError(seating.seatTemplateId);
+      }
+
+      const known = new Set(priceCategories.map((category) => category.name));
+      const missing = template.priceCategoryNames.filter((name) => !known.has(name));
+      if (missing.length > 0) {
+        throw new PriceCategoryMismatchError(eventId, missing);
+      }
+
+      return template;
+    }
+
+    return this.applyRules(() =>
+      SeatTemplate.forCapacity({
+        id: randomUUID(),
+        name: params.location,
+        capacity: seating.totalSeats,
+        price: seating.price,
+      })
+    );
+  }
+
+  /**
+   * Runs a domain operation, reporting a broken rule as InvalidEventError
+   */
+  private applyRules<T>(operation: () => T): T {
+    try {
+      return operation();
+    } catch (err) {
+      throw new InvalidEventError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  /**
+   * Tells every ticket holder about the new date (failures are logged, never thrown)
+   */
+  private async publishRescheduleNotice(previous: Event, rescheduled: Event): Promise<void> {
+    if (!this.eventPublisher) return;
+
+    const seatNumbersByUser = new Map<string, string[]>();
+    for (const seat of await this.seatRepository.findByEventId(previous.id)) {
+      if (!seat.isSold() || !seat.userId) continue;
+      seatNumbersByUser.set(seat.userId, [...(seatNumbersByUser.get(seat.userId) ?? []), seat.seatNumber]);
+    }
+
+    if (seatNumbersByUser.size === 0) return;
+
+    const recipients: RescheduleRecipient[] = Array.from(seatNumbersByUser, ([userId, seatNumbers]) => ({
+      userId,
+      seatNumbers,
+    }));
+
+    const event = createEventRescheduledEvent({
+      eventId: previous.id,
+      previousDate: previous.date,
+      newDate: rescheduled.date,
+      recipients,
+    });
+
+    try {
+      await this.eventPublisher.publish(EVENT_QUEUES.NOTIFICATION, event);
+    } catch (err) {
+      console.error('[EventService] Failed to publish EventRescheduledEvent:', err);
+    }
+  }
+}
@@ -0,0 +1,305 @@
+import { GaZone } from '@/core/domain/ga-zone.entity';
+import { GaReservation, GaReservationStatus } from '@/core/domain/ga-reservation.entity';
+import { OrderStatus } from '@/core/domain/order.entity';
+import { EVENT_QUEUES } from '@/core/events';
+import { SalesWindow, EventStatus } from '@/core/domain/sales-window.entity';
+import { InMemoryGaInventoryRepository } from '@/infrastructure/repositories/InMemoryGaInventoryRepository';
+import { InMemoryOrderRepository } from '@/infrastructure/repositories/InMemoryOrderRepository';
+import { InMemorySeatRepository } from '@/infrastructure/repositories/InMemorySeatRepository';
+import { InMemorySalesWindowRepository } from '@/infrastructure/repositories/InMemorySalesWindowRepository';
+import { InMemoryPresaleRepository } from '@/infrastructure/repositories/InMemoryPresaleRepository';
+import { Presale } from '@/core/domain/presale.entity';
+import { PresaleCode } from '@/core/domain/presale-code.entity';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { EventNotOnSaleError, PresaleCodeRequiredError, PresaleQuotaExceededError } from './BookingService';
+import {
+  GeneralAdmissionService,
+  GaCapacityExceededError,
+  GaReservationExpiredError,
+  GaReservationNotLockedError,
+  GaReservationNotOwnedError,
+  GaZoneNotAdmittedError,
+} from './GeneralAdmissionService';
+
+describe('GeneralAdmissionService', () => {
+  let gaRepository: InMemoryGaInventoryRepository;
+  let orderRepository: InMemoryOrderRepository;
+  let gaService: GeneralAdmissionService;
+
+  const zone = (capacity = 10) =>
+    GaZone.create({ id: 'zone-1', eventId: 'event-1', name: 'Standing', price: 45, capacity });
+  const available = async () => (await gaRepository.findZoneById('zone-1'))?.available;
+
+  beforeEach(() => {
+    orderRepository = new InMemoryOrderRepository(new InMemorySeatRepository());
+    gaRepository = new InMemoryGaInventoryRepository(orderRepository);
+    gaRepository.seed([zone()]);
+    gaService = new GeneralAdmissionService(gaRepository, orderRepository);
+  });
+
+  describe('lockTickets()', () => {
+    it('should take the quantity from the zone', async () => {
+      // Act
+      const reservation = await gaService.lockTickets('zone-1', 'user-1', 4);
+
+      // Assert
+      expect(reservation.status).toBe(GaReservationStatus.LOCKED);
+      expect(reservation.totalAmount).toBe(180);
+      expect(await available()).toBe(6);
+    });
+
+    it('should never sell more than the capacity', async () => {
+      // Arrange: three buyers race for 10 tickets, 4 each
+      const attempts = await Promise.allSettled(
+        ['user-1', 'user-2', 'user-3'].map((userId) => gaService.lockTickets('zone-1', userId, 4))
+      );
+
+      // Assert
+      const rejected = attempts.filter((attempt) => attempt.status === 'rejected');
+      expect(rejected).toHaveLength(1);
+      expect((rejected[0] as PromiseRejectedResult).reason).toBeInstanceOf(GaCapacityExceededError);
+      expect(await available()).toBe(2);
+    });
+
+    it('should throw GaZoneNotAdmittedError for a zone of another event', async () => {
+      await expect(gaService.lockTickets('zone-1', 'user-1', 1, 'event-2')).rejects.toThrow(
+        GaZoneNotAdmittedError
+      );
+    });
+
+    it('should throw EventNotOnSaleError outside the sales window and keep the tickets', async () => {
+      // Arrange
+      const salesWindowRepository = new InMemorySalesWindowRepository();
+      salesWindowRepository.seed([SalesWindow.create({ eventId: 'event-1', status: EventStatus.CLOSED })]);
+      gaService = new GeneralAdmissionService(gaRepository, orderRepository, undefined, undefined, salesWindowRepository);
+
+      // Act & Assert
+      await expect(gaService.lockTickets('zone-1', 'user-1', 2)).rejects.toThrow(EventNotOnSaleError);
+      expect(await available()).toBe(10);
+    });
+
+    describe('during a presale', () => {
+      const hour = 60 * 60 * 1000;
+      let presaleRepository: InMemoryPresaleRepository;
+      const remaining = async () => (await presaleRepository.findCode('presale-1', 'FANCLUB'))?.ticketsRemaining;
+
+      beforeEach(() => {
+        const salesWindowRepository = new InMemorySalesWindowRepository();
+        salesWindowRepository.seed([
+          SalesWindow.create({
+            eventId: 'event-1',
+            status: EventStatus.SCHEDULED,
+            salesStartAt: new Date(Date.now() + hour),
+          }),
+        ]);
+
+        presaleRepository = new InMemoryPresaleRepository();
+        presaleRepository.seed(
+          [
+            Presale.create({
+              id: 'presale-1',
+              eventId: 'event-1',
+              name: 'Fan Club',
+              startsAt: new Date(Date.now() - hour),
+              endsAt: new Date(Date.now() + hour),
+            }),
+          ],
+          [PresaleCode.create({ id: 'code-1', presaleId: 'presale-1', code: 'FANCLUB', ticketQuota: 3 })]
+        );
+
+        gaService = new GeneralAdmissionService(
+          gaRepository,
+          orderRepository,
+          undefined,
+          undefined,
+          salesWindowRepository,
+          presaleRepository
+        );
+      });
+
+      it('should require a presale code', async () => {
+        await expect(gaService.lockTickets('zone-1', 'user-1', 2)).rejects.toThrow(PresaleCodeRequiredError);
+        expect(await available()).toBe(10);
+      });
+
+      it('should take the tickets from the code quota', async () => {
+        await gaService.lockTickets('zone-1', 'user-1', 2, undefined, 'fanclub');
+
+        expect(await remaining()).toBe(1);
+        await expect(gaService.lockTickets('zone-1', 'user-2', 2, undefined, 'FANCLUB')).rejects.toThrow(
+          PresaleQuotaExceededError
+        );
+        expect(await available()).toBe(8);
+      });
+
+      it('should hand the quota back when the reservation is released or expires', async () => {
+        const released = await gaService.lockTickets('zone-1', 'user-1', 2, undefined, 'FANCLUB');
+        await gaService.releaseReservation(released.id, 'user-1');
+        expect(await remaining()).toBe(3);
+
+        await gaService.lockTickets('zone-1', 'user-2', 3, undefined, 'FANCLUB');
+        await gaService.expireLocks(new Date(Date.now() + hour));
+
+        expect(await remaining()).toBe(3);
+        expect(presaleRepository.getRedemptions()).toHaveLength(0);
+      });
+
+      it('should hand the quota back when the zone is sold out', async () => {
+        gaRepository.seed([zone(2)]);
+
+        await expect(gaService.lockTickets('zone-1', 'user-1', 3, undefined, 'FANCLUB')).rejects.toThrow(
+          GaCapacityExceededError
+        );
+        expect(await remaining()).toBe(3);
+      });
+    });
+  });
+
+  describe('confirmPurchase()', () => {
+    it('should sell the reservation and publish GA_TICKETS_SOLD', async () => {
+      // Arrange
+      const publish = jest.fn().mockResolvedValue(undefined);
+      gaService = new GeneralAdmissionService(gaRepository, orderRepository, { publish });
+      const reservation = await gaService.lockTickets('zone-1', 'user-1', 2);
+
+      // Act
+      const { reservation: sold, order } = await gaService.confirmPurchase(reservation.id, 'user-1', 'pi_123');
+
+      // Assert
+      expect(sold.status).toBe(GaReservationStatus.SOLD);
+      expect(await available()).toBe(8);
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.TICKET_GENERATION,
+        expect.objectContaining({
+          eventType: 'GA_TICKETS_SOLD',
+          orderId: order.id,
+          quantity: 2,
+          zoneName: 'Standing',
+          deliveryEmail: null,
+        })
+      );
+    });
+
+    it('should record an order with one item per ticket', async () => {
+      // Arrange
+      const reservation = await gaService.lockTickets('zone-1', 'user-1', 2);
+
+      // Act
+      const { order } = await gaService.confirmPurchase(reservation.id, 'user-1', 'pi_123');
+
+      // Assert
+      expect(await orderRepository.findActiveByGaReservationId(reservation.id)).toBe(order);
+      expect(order).toMatchObject({ userId: 'user-1', totalAmount: 90, paymentReference: 'pi_123' });
+      expect(order.items).toEqual([
+        expect.objectContaining({ seatId: null, gaReservationId: reservation.id, seatNumber: 'Standing #1', price: 45 }),
+        expect.objectContaining({ seatId: null, gaReservationId: reservation.id, seatNumber: 'Standing #2', price: 45 }),
+      ]);
+    });
+
+    it('should not record an order if the reservation changed meanwhile', async () => {
+      // Arrange: the expiry sweep released the lock after we read it
+      const reservation = await gaService.lockTickets('zone-1', 'user-1', 2);
+      await gaService.releaseReservation(reservation.id, 'user-1');
+      jest.spyOn(gaRepository, 'findReservationById').mockResolvedValueOnce(reservation);
+
+      // Act & Assert
+      await expect(gaService.confirmPurchase(reservation.id, 'user-1')).rejects.toThrow(ConcurrencyError);
+      expect(await orderRepository.findByUserId('user-1')).toEqual([]);
+    });
+
+    it("should send a guest's tickets to their verified email", async () => {
+      // Arrange
+      const publish = jest.fn().mockResolvedValue(undefined);
+      gaService = new GeneralAdmissionService(gaRepository, orderRepository, { publish });
+      const reservation = await gaService.lockTickets('zone-1', 'guest-1', 2);
+
+      // Act
+      await gaService.confirmPurchase(reservation.id, 'guest-1', 'pi_123', 'guest@example.com');
+
+      // Assert
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.TICKET_GENERATION,
+        expect.objectContaining({ eventType: 'GA_TICKETS_SOLD', userId: 'guest-1', deliveryEmail: 'guest@example.com' })
+      );
+    });
+
+    it('should throw GaReservationNotOwnedError for someone else\'s reservation', async () => {
+      const reservation = await gaService.lockTickets('zone-1', 'user-1', 2);
+
+      await expect(gaService.confirmPurchase(reservation.id, 'user-2')).rejects.toThrow(
+        GaReservationNotOwnedError
+      );
+    });
+
+    it('should throw GaReservationExpiredError once the lock has run out', async () => {
+      const reservation = await gaService.lockTickets('zone-1', 'user-1', 2);
+
+      await expect(
+        gaService.confirmPurchase(reservation.id, 'user-1', undefined, undefined, new Date(reservation.lockExpiresAt!.getTime()))
+      ).rejects.toThrow(GaReservationExpiredError);
+    });
+  });
+
+  describe('releaseReservation()', () => {
+    it('should hand the tickets back to the zone', async () => {
+      const reservation = await gaService.lockTickets('zone-1', 'user-1', 3);
+
+      const released = await gaService.releaseReservation(reservation.id, 'user-1');
+
+      expect(released.status).toBe(GaReservationStatus.RELEASED);
+      expect(await available()).toBe(10);
+    });
+
+    it('should not release a sold reservation', async () => {
+      const reservation = await gaService.lockTickets('zone-1', 'user-1', 3);
+      await gaService.confirmPurchase(reservation.id, 'user-1');
+
+      await expect(gaService.releaseReservation(reservation.id, 'user-1')).rejects.toThrow(
+        GaReservationNotLockedError
+      );
+    });
+  });
+
+  describe('refundPurchase()', () => {
+    it('should refund the order and hand the tickets back to the zone', async () => {
+      // Arrange
+      const reservation = await gaService.lockTickets('zone-1', 'user-1', 2);
+      const { order } = await gaService.confirmPurchase(reservation.id, 'user-1', 'pi_123');
+
+      // Act
+      const refunded = await gaService.refundPurchase(reservation.id, 'Show cancelled');
+
+      // Assert
+      expect(refunded.status).toBe(GaReservationStatus.REFUNDED);
+      expect(await available()).toBe(10);
+      const refundedOrder = await orderRepository.findById(order.id);
+      expect(refundedOrder?.status).toBe(OrderStatus.REFUNDED);
+      expect(refundedOrder?.items.map((item) => item.refundReason)).toEqual(['Show cancelled', 'Show cancelled']);
+      expect(await orderRepository.findActiveByGaReservationId(reservation.id)).toBeNull();
+    });
+  });
+
+  describe('expireLocks()', () => {
+    it('should hand back the tickets of lapsed locks only', async () => {
+      // Arrange: one lapsed lock (3 tickets) and one running lock (2 tickets)
+      const now = new Date();
+      const lapsed = GaReservation.create({
+        id: 'ga-lapsed',
+        zone: zone(),
+        userId: 'user-1',
+        quantity: 3,
+        now: new Date(now.getTime() - 60 * 60 * 1000),
+      });
+      await gaRepository.reserve(lapsed);
+      await gaService.lockTickets('zone-1', 'user-2', 2);
+
+      // Act
+      const expired = await gaService.expireLocks(now);
+
+      // Assert
+      expect(expired.map((reservation) => reservation.id)).toEqual(['ga-lapsed']);
+      expect((await gaRepository.findReservationById('ga-lapsed'))?.status).toBe(GaReservationStatus.EXPIRED);
+      expect(await available()).toBe(8);
+    });
+  });
+});
@@ -0,0 +1,405 @@
+import { randomUUID } from 'crypto';
+import { GaZone } from '@/core/domain/ga-zone.entity';
+import { GaReservation, GaReservationStatus } from '@/core/domain/ga-reservation.entity';
+import { Order } from '@/core/domain/order.entity';
+import { IGaInventoryRepository } from '@/core/interfaces/IGaInventoryRepository';
+import { IOrderRepository } from '@/core/interfaces/IOrderRepository';
+import { IEventPublisher } from '@/core/interfaces/IEventPublisher';
+import { ISalesWindowRepository } from '@/core/interfaces/ISalesWindowRepository';
+import { IPresaleRepository } from '@/core/interfaces/IPresaleRepository';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { EVENT_QUEUES, createGaTicketsSoldEvent } from '@/core/events';
+import { SaleAuthorizer } from './SaleAuthorizer';
+
+/**
+ * Default number of expired GA locks released per sweep
+ */
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Custom Error: GA Zone Not Found
+ */
+export class GaZoneNotFoundError extends Error {
+  constructor(zoneId: string) {
+    super(`General admission zone ${zoneId} not found`);
+    this.name = 'GaZoneNotFoundError';
+  }
+}
+
+/**
+ * Custom Error: GA Zone belongs to another event than the admitted one
+ */
+export class GaZoneNotAdmittedError extends Error {
+  constructor(zoneId: string, admittedEventId: string) {
+    super(`Zone ${zoneId} is not part of admitted event ${admittedEventId}`);
+    this.name = 'GaZoneNotAdmittedError';
+  }
+}
+
+/**
+ * Custom Error: Not enough tickets left in the zone
+ */
+export class GaCapacityExceededError extends Error {
+  constructor(zoneId: string, quantity: number) {
+    super(`Zone ${zoneId} does not have ${quantity} tickets left`);
+    this.name = 'GaCapacityExceededError';
+  }
+}
+
+/**
+ * Custom Error: GA Reservation Not Found
+ */
+export class GaReservationNotFoundError extends Error {
+  constructor(reservationId: string) {
+    super(`General admission reservation ${reservationId} not found`);
+    this.name = 'GaReservationNotFoundError';
+  }
+}
+
+/**
+ * Custom Error: Reservation belongs to someone else
+ */
+export class GaReservationNotOwnedError extends Error {
+  constructor(userId: string, reservationId: string) {
+    super(`User ${userId} does not own reservation ${reservationId}`);
+    this.name = 'GaReservationNotOwnedError';
+  }
+}
+
+/**
+ * Custom Error: Reservation is no longer held for checkout
+ */
+export class GaReservationNotLockedError extends Error {
+  constructor(reservationId: string, currentStatus: string) {
+    super(`Reservation ${reservationId} is not locked (current status: ${currentStatus})`);
+    this.name = 'GaReservationNotLockedError';
+  }
+}
+
+/**
+ * Custom Error: Reservation lock ran out before payment was confirmed
+ */
+export class GaReservationExpiredError extends Error {
+  constructor(reservationId: string, expiredAt: Date) {
+    super(`Lock on reservation ${reservationId} expired at ${expiredAt.toISOString()}`);
+    this.name = 'GaReservationExpiredError';
+  }
+}
+
+/**
+ * Custom Error: Reservation has no purchase to refund (not SOLD)
+ */
+export class GaReservationNotRefundableError extends Error {
+  constructor(reservationId: string, currentStatus: string) {
+    super(`Reservation ${reservationId} cannot be refunded (current status: ${currentStatus})`);
+    this.name = 'GaReservationNotRefundableError';
+  }
+}
+
+/**
+ * Result of a confirmed GA purchase
+ */
+export interface GaPurchaseConfirmation {
+  readonly reservation: GaReservation;
+  readonly order: Order;
+}
+
+/**
+ * General Admission Service
+ *
+ * Capacity-based ticket sales for GA zones (standing floor, festival
+ * passes). Buyers take a quantity from a zone instead of picking seats,
+ * with the same lifecycle as a seat: lock for checkout, confirm after
+ * payment, or hand the tickets back on cancel or lock expiry.
+ *
+ * Overselling is prevented by the repository: taking tickets from a zone
+ * is a single conditional decrement of its `available` counter, so two
+ * buyers racing for the last tickets can't both succeed.
+ *
+ * Sales windows and presale codes are checked like seat locks (see
+ * SaleAuthorizer): the reservation is the lock holding the redeemed quota.
+ * A purchase records an Order (one item per ticket) together with the
+ * SOLD reservation, and a refund updates both together.
+ *
+ * @example
+ * ```typescript
+ * const ga = new GeneralAdmissionService(gaRepository, orderRepository, eventPublisher);
+ * const reservation = await ga.lockTickets('zone-1', 'user-1', 2);
+ * await ga.confirmPurchase(reservation.id, 'user-1', 'pi_123');
+ * ```
+ */
+export class GeneralAdmissionService {
+  private readonly saleAuthorizer: SaleAuthorizer;
+
+  constructor(
+    private readonly inventoryRepository: IGaInventoryRepository,
+    private readonly orderRepository: IOrderRepository,
+    private readonly eventPublisher?: IEventPublisher,
+    private readonly batchSize: number = DEFAULT_BATCH_SIZE,
+    salesWindowRepository?: ISalesWindowRepository,
+    presaleRepository?: IPresaleRepository
+  ) {
+    this.saleAuthorizer = new SaleAuthorizer(salesWindowRepository, presaleRepository);
+  }
+
+  /**
+   * Lists the GA zones of an event with their remaining tickets
+   */
+  async findZones(eventId: string): Promise<GaZone[]> {
+    return this.inventoryRepository.findZonesByEventId(eventId);
+  }
+
+  /**
+   * Locks a quantity of tickets from a zone for a user
+   *
+   * @param admittedEventId - Event the user was admitted to from the waiting room (if enforced)
+   * @param presaleCode - Access code, required while the event is in a presale
+   * @returns The LOCKED reservation
+   * @throws GaZoneNotFoundError if the zone doesn't exist
+   * @throws GaZoneNotAdmittedError if the zone belongs to another event than admittedEventId
+   * @throws EventNotOnSaleError if the zone's event is outside its sales window and presales
+   * @throws PresaleCodeRequiredError / InvalidPresaleCodeError / PresaleQuotaExceededError during a presale
+   * @throws GaCapacityExceededError if the zone doesn't have `quantity` tickets left
+   */
+  async lockTickets(
+    zoneId: string,
+    userId: string,
+    quantity: number,
+    admittedEventId?: string,
+    presaleCode?: string,
+    now: Date = new Date()
+  ): Promise<GaReservation> {
+    const zone = await this.inventoryRepository.findZoneById(zoneId);
+
+    if (!zone) {
+      throw new GaZoneNotFoundError(zoneId);
+    }
+
+    if (admittedEventId !== undefined && zone.eventId !== admittedEventId) {
+      throw new GaZoneNotAdmittedError(zoneId, admittedEventId);
+    }
+
+    const reservation = GaReservation.create({ id: randomUUID(), zone, userId, quantity, now });
+    const redemptions = await this.saleAuthorizer.authorize(
+      [{ eventId: zone.eventId, lockId: reservation.id, quantity }],
+      userId,
+      presaleCode,
+      now
+    );
+
+    // The repository decrements the counter only if enough tickets are left
+    const reserved = await this.saleAuthorizer.withRedemptions(redemptions, () =>
+      this.inventoryRepository.reserve(reservation)
+    );
+
+    if (!reserved) {
+      await this.saleAuthorizer.releaseRedemptions(redemptions);
+      throw new GaCapacityExceededError(zoneId, quantity);
+    }
+
+    return reservation;
+  }
+
+  /**
+   * Confirms the purchase after successful payment and records its order
+   *
+   * @param deliveryEmail - Where the worker sends the tickets (the account or verified guest email)
+   * @returns The SOLD reservation and the recorded order
+   * @throws GaReservationNotFoundError if the reservation doesn't exist
+   * @throws GaReservationNotOwnedError if the reservation belongs to someone else
+   * @throws GaReservationNotLockedError if it was already sold, released or expired
+   * @throws GaReservationExpiredError if the lock ran out before payment was confirmed
+   */
+  async confirmPurchase(
+    reservationId: string,
+    userId: string,
+    paymentReference?: string,
+    deliveryEmail?: string,
+    now: Date = new Date()
+  ): Promise<GaPurchaseConfirmation> {
+    const reservation = await this.findOwnedLockedReservation(reservationId, userId);
+
+    if (reservation.isLockExpired(now)) {
+      throw new GaReservationExpiredError(reservationId, reservation.lockExpiresAt!);
+    }
+
+    const zone = await this.inventoryRepository.findZoneById(reservation.zoneId);
+    const zoneName = zone?.name ?? reservation.zoneId;
+    const sold = reservation.sell(paymentReference ?? null, now);
+    const order = Order.createForGaReservation({
+      id: randomUUID(),
+      userId,
+      reservation: sold,
+      zoneName,
+      paymentReference,
+      createdAt: now,
+    });
+
+    // Reservation + order in one transaction; a presale redemption is now for good
+    await this.inventoryRepository.saveReservation(sold, order);
+    await this.saleAuthorizer.settleLocks([sold.id]);
+
+    await this.publishGaTicketsSold(sold, order, zoneName, deliveryEmail);
+
+    return { reservation: sold, order };
+  }
+
+  /**
+   * Cancels the checkout and hands the tickets back to the zone (and any presale quota to its code)
+   *
+   * @returns The RELEASED reservation
+   * @throws GaReservationNotFoundError if the reservation doesn't exist
+   * @throws GaReservationNotOwnedError if the reservation belongs to someone else
+   * @throws GaReservationNotLockedError if it was already sold, released or expired
+   */
+  async releaseReservation(reservationId: string, userId: string): Promise<GaReservation> {
+    const reservation = await this.findOwnedLockedReservation(reservationId, userId);
+    const released = await this.inventoryRepository.releaseReservation(reservation.release());
+    await this.saleAuthorizer.releaseLocks([released.id]);
+    return released;
+  }
+
+  /**
+   * Refunds a sold reservation and its order items, and hands its tickets
+   * back to the zone (admin operation)
+   *
+   * @param reason - Why the tickets were refunded (optional, stored on the order)
+   * @returns The REFUNDED reservation
+   * @throws GaReservationNotFoundError if the reservation doesn't exist
+   * @throws GaReservationNotRefundableError if the reservation is not SOLD
+   */
+  async refundPurchase(reservationId: string, reason?: string): Promise<GaReservation> {
+    const reservation = await this.inventoryRepository.findReservationById(reservationId);
+
+    if (!reservation) {
+      throw new GaReservationNotFoundError(reservationId);
+    }
+
+    if (!reservation.isSold()) {
+      throw new GaReservationNotRefundableError(reservationId, reservation.status);
+    }
+
+    // Reservations sold before GA purchases recorded orders have none to update
+    const order = await this.orderRepository.findActiveByGaReservationId(reservationId);
+    const refundedOrder = order?.refundGaReservation(reservationId, reason ?? null);
+
+    return this.inventoryRepository.releaseReservation(reservation.refund(), refundedOrder);
+  }
+
+  /**
+   * Lists the SOLD reservations of an event
+   */
+  async findSoldReservations(eventId: string): Promise<GaReservation[]> {
+    const reservations = await this.inventoryRepository.findReservationsByEventId(eventId);
+    return reservations.filter((reservation) => reservation.isSold());
+  }
+
+  /**
+   * Releases every LOCKED reservation of an event (the event was cancelled),
+   * handing the tickets back to the zones and any presale quota to its code
+   *
+   * @returns The RELEASED reservations
+   */
+  async releaseEventLocks(eventId: string): Promise<GaReservation[]> {
+    const reservations = await this.inventoryRepository.findReservationsByEventId(eventId);
+    const released: GaReservation[] = [];
+
+    for (const reservation of reservations.filter((candidate) => candidate.isLocked())) {
+      try {
+        released.push(await this.inventoryRepository.releaseReservation(reservation.release()));
+      } catch (err) {
+        // Sold or released since we read it - the caller re-reads sales
+        if (err instanceof ConcurrencyError) {
+          continue;
+        }
+        throw err;
+      }
+    }
+
+    if (released.length > 0) {
+      await this.saleAuthorizer.releaseLocks(released.map((reservation) => reservation.id));
+    }
+
+    return released;
+  }
+
+  /**
+   * Hands the tickets of up to `batchSize` lapsed locks back to their zones (and presale codes)
+   * (run periodically from the worker, like the seat LockExpirySweeper)
+   *
+   * @returns The EXPIRED reservations
+   */
+  async expireLocks(now: Date = new Date()): Promise<GaReservation[]> {
+    const lapsed = await this.inventoryRepository.findExpiredReservations(now, this.batchSize);
+    const expired: GaReservation[] = [];
+
+    for (const reservation of lapsed) {
+      try {
+        expired.push(await this.inventoryRepository.releaseReservation(reservation.expire(now)));
+      } catch (err) {
+        // Confirmed or released since we read it - nothing to do
+        if (err instanceof ConcurrencyError) {
+          continue;
+        }
+        console.error(`[GeneralAdmissionService] Failed to expire reservation ${reservation.id}:`, err);
+      }
+    }
+
+    if (expired.length > 0) {
+      await this.saleAuthorizer.releaseLocks(expired.map((reservation) => reservation.id));
+    }
+
+    return expired;
+  }
+
+  /**
+   * Loads a reservation and checks it is still held for checkout by the user
+   */
+  private async findOwnedLockedReservation(reservationId: string, userId: string): Promise<GaReservation> {
+    const reservation = await this.inventoryRepository.findReservationById(reservationId);
+
+    if (!reservation) {
+      throw new GaReservationNotFoundError(reservationId);
+    }
+
+    if (reservation.userId !== userId) {
+      throw new GaReservationNotOwnedError(userId, reservationId);
+    }
+
+    if (reservation.status !== GaReservationStatus.LOCKED) {
+      throw new GaReservationNotLockedError(reservationId, reservation.status);
+    }
+
+    return reservation;
+  }
+
+  /**
+   * Publishes a GaTicketsSoldEvent (failures are logged, never thrown)
+   */
+  private async publishGaTicketsSold(
+    reservation: GaReservation,
+    order: Order,
+    zoneName: string,
+    deliveryEmail?: string
+  ): Promise<void> {
+    if (!this.eventPublisher) return;
+
+    const event = createGaTicketsSoldEvent({
+      orderId: order.id,
+      reservationId: reservation.id,
+      zoneId: reservation.zoneId,
+      eventId: reservation.eventId,
+      userId: reservation.userId,
+      deliveryEmail,
+      zoneName,
+      quantity: reservation.quantity,
+      totalAmount: reservation.totalAmount,
+    });
+
+    try {
+      await this.eventPublisher.publish(EVENT_QUEUES.TICKET_GENERATION, event);
+    } catch (err) {
+      console.error('[GeneralAdmissionService] Failed to publish GaTicketsSoldEvent:', err);
+    }
+  }
+}
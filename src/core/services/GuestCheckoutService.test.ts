@@ -0,0 +1,225 @@
+import { ICache } from '@/core/interfaces/ICache';
+import { EVENT_QUEUES } from '@/core/events';
+import {
+  GuestCheckoutService,
+  InvalidVerificationCodeError,
+  VerificationCodeExpiredError,
+  VerificationLimitReachedError,
+  MAX_VERIFICATION_ATTEMPTS,
+  MAX_VERIFICATION_CODES,
+  RESEND_COOLDOWN_SECONDS,
+} from './GuestCheckoutService';
+
+/**
+ * Minimal Map-backed ICache (TTL is ignored)
+ */
+class MapCache implements ICache {
+  readonly entries = new Map<string, unknown>();
+
+  async get<T>(key: string): Promise<T | null> {
+    return (this.entries.get(key) as T) ?? null;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async setIfAbsent<T>(key: string, value: T): Promise<boolean> {
+    if (this.entries.has(key)) return false;
+    this.entries.set(key, value);
+    return true;
+  }
+
+  async increment(key: string): Promise<number> {
+    const count = ((this.entries.get(key) as number) ?? 0) + 1;
+    this.entries.set(key, count);
+    return count;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deletePattern(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.entries.has(key);
+  }
+}
+
+describe('GuestCheckoutService', () => {
+  let cache: MapCache;
+  let publish: jest.Mock;
+  let guests: GuestCheckoutService;
+
+  /**
+   * The code of the last verification email sent
+   */
+  const lastCode = (): string => publish.mock.calls[publish.mock.calls.length - 1][1].code;
+
+  /**
+   * A time just past the given number of resend cooldowns from now
+   */
+  const afterCooldown = (resends = 1): Date => new Date(Date.now() + resends * RESEND_COOLDOWN_SECONDS * 1000 + 1000);
+
+  beforeEach(() => {
+    cache = new MapCache();
+    publish = jest.fn().mockResolvedValue(undefined);
+    guests = new GuestCheckoutService(cache, { publish });
+  });
+
+  describe('startCheckout()', () => {
+    it('should create a guest ID and email a 6-digit code', async () => {
+      // Act
+      const checkout = await guests.startCheckout(' Guest@Example.com');
+
+      // Assert
+      expect(checkout.guestId).toMatch(/^guest-/);
+      expect(checkout.email).toBe('guest@example.com');
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.NOTIFICATION,
+        expect.objectContaining({
+          eventType: 'GUEST_VERIFICATION_REQUESTED',
+          guestId: checkout.guestId,
+          email: 'guest@example.com',
+          code: expect.stringMatching(/^\d{6}$/),
+          expiresAt: checkout.codeExpiresAt,
+        })
+      );
+    });
+
+    it('should not store the code itself', async () => {
+      await guests.startCheckout('guest@example.com');
+
+      expect(JSON.stringify([...cache.entries.values()])).not.toContain(lastCode());
+    });
+  });
+
+  describe('verifyEmail()', () => {
+    let guestId: string;
+
+    beforeEach(async () => {
+      ({ guestId } = await guests.startCheckout('guest@example.com'));
+    });
+
+    it('should accept the emailed code once', async () => {
+      const code = lastCode();
+
+      await expect(guests.verifyEmail(guestId, code)).resolves.toBeUndefined();
+      await expect(guests.verifyEmail(guestId, code)).rejects.toThrow(VerificationCodeExpiredError);
+    });
+
+    it('should reject a wrong code and count down the attempts left', async () => {
+      const wrongCode = lastCode() === '000000' ? '000001' : '000000';
+
+      await expect(guests.verifyEmail(guestId, wrongCode)).rejects.toMatchObject({
+        name: 'InvalidVerificationCodeError',
+        attemptsRemaining: MAX_VERIFICATION_ATTEMPTS - 1,
+      });
+    });
+
+    it('should throw the code away after too many wrong attempts', async () => {
+      // Arrange
+      const code = lastCode();
+      const wrongCode = code === '000000' ? '000001' : '000000';
+
+      for (let i = 0; i < MAX_VERIFICATION_ATTEMPTS; i++) {
+        await expect(guests.verifyEmail(guestId, wrongCode)).rejects.toThrow(InvalidVerificationCodeError);
+      }
+
+      // Act & Assert - even the right code no longer works
+      await expect(guests.verifyEmail(guestId, code)).rejects.toThrow(VerificationCodeExpiredError);
+    });
+
+    it('should not let parallel guesses get past the attempt limit', async () => {
+      // Arrange
+      const code = lastCode();
+      const wrongCode = code === '000000' ? '000001' : '000000';
+
+      // Act - more guesses than allowed, all sent at once
+      const results = await Promise.allSettled(
+        Array.from({ length: MAX_VERIFICATION_ATTEMPTS + 3 }, () => guests.verifyEmail(guestId, wrongCode))
+      );
+
+      // Assert - only the allowed number were compared, and the right code no longer works
+      const reasons = results.map((result) => (result as PromiseRejectedResult).reason);
+      expect(reasons.filter((reason) => reason instanceof InvalidVerificationCodeError)).toHaveLength(
+        MAX_VERIFICATION_ATTEMPTS
+      );
+      expect(reasons.filter((reason) => reason instanceof VerificationLimitReachedError)).toHaveLength(3);
+      await expect(guests.verifyEmail(guestId, code)).rejects.toThrow(VerificationCodeExpiredError);
+    });
+
+    it("should not accept another guest's code", async () => {
+      const code = lastCode();
+      const other = await guests.startCheckout('other@example.com');
+
+      await expect(guests.verifyEmail(other.guestId, code)).rejects.toThrow();
+    });
+
+    it('should only accept the latest code after a resend', async () => {
+      // Arrange
+      const firstCode = lastCode();
+      await guests.sendVerificationCode(guestId, 'guest@example.com', afterCooldown());
+      const secondCode = lastCode();
+
+      // Act & Assert
+      if (firstCode !== secondCode) {
+        await expect(guests.verifyEmail(guestId, firstCode)).rejects.toThrow(InvalidVerificationCodeError);
+      }
+      await expect(guests.verifyEmail(guestId, secondCode)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('sendVerificationCode()', () => {
+    let guestId: string;
+    let wrongCode: string;
+
+    beforeEach(async () => {
+      ({ guestId } = await guests.startCheckout('guest@example.com'));
+      wrongCode = lastCode() === '000000' ? '000001' : '000000';
+    });
+
+    it('should refuse a resend during the cooldown', async () => {
+      await expect(guests.sendVerificationCode(guestId, 'guest@example.com')).rejects.toMatchObject({
+        name: 'VerificationResendTooSoonError',
+        retryAfterSeconds: RESEND_COOLDOWN_SECONDS,
+      });
+      expect(publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep counting wrong attempts across resends', async () => {
+      // Arrange
+      for (let i = 0; i < MAX_VERIFICATION_ATTEMPTS - 1; i++) {
+        await expect(guests.verifyEmail(guestId, wrongCode)).rejects.toThrow(InvalidVerificationCodeError);
+      }
+
+      // Act
+      await guests.sendVerificationCode(guestId, 'guest@example.com', afterCooldown());
+      const code = lastCode();
+
+      // Assert - one attempt left, then the new code is gone too and no more are sent
+      const lastWrongCode = code === '000000' ? '000001' : '000000';
+      await expect(guests.verifyEmail(guestId, lastWrongCode)).rejects.toMatchObject({ attemptsRemaining: 0 });
+      await expect(guests.verifyEmail(guestId, code)).rejects.toThrow(VerificationCodeExpiredError);
+      await expect(
+        guests.sendVerificationCode(guestId, 'guest@example.com', afterCooldown(2))
+      ).rejects.toThrow(VerificationLimitReachedError);
+    });
+
+    it('should stop sending codes after the maximum', async () => {
+      // Arrange
+      for (let resend = 1; resend < MAX_VERIFICATION_CODES; resend++) {
+        await guests.sendVerificationCode(guestId, 'guest@example.com', afterCooldown(resend));
+      }
+
+      // Act & Assert
+      await expect(
+        guests.sendVerificationCode(guestId, 'guest@example.com', afterCooldown(MAX_VERIFICATION_CODES))
+      ).rejects.toThrow(VerificationLimitReachedError);
+      expect(publish).toHaveBeenCalledTimes(MAX_VERIFICATION_CODES);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { createHash, randomInt, randomUUID, timingSafeEqual } from 'crypto';
+import { User } from '@/core/domain/user.entity';
+import { ICache } from '@/core/interfaces/ICache';
+import { IEventPublisher } from '@/core/interfaces/IEventPublisher';
+import { EVENT_QUEUES, createGuestVerificationRequestedEvent } from '@/core/events';
+
+/**
+ * How long a verification code can be used (10 minutes)
+ */
+export const DEFAULT_VERIFICATION_CODE_TTL_SECONDS = 10 * 60;
+
+/**
+ * Codes that can be entered per guest checkout, across resends; the
+ * pending code is thrown away once they are used up
+ */
+export const MAX_VERIFICATION_ATTEMPTS = 5;
+
+/**
+ * Codes a guest checkout can be sent (the first one and the resends)
+ */
+export const MAX_VERIFICATION_CODES = 5;
+
+/**
+ * Wait between two codes sent to the same guest (1 minute)
+ */
+export const RESEND_COOLDOWN_SECONDS = 60;
+
+/**
+ * How long the attempt and resend counts are kept: longer than any guest
+ * checkout lasts, so they can't be reset by waiting for a code to expire
+ */
+const VERIFICATION_STATE_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Custom Error: No code pending (never sent, expired, used or too many wrong tries)
+ */
+export class VerificationCodeExpiredError extends Error {
+  constructor() {
+    super('The verification code has expired, request a new one');
+    this.name = 'VerificationCodeExpiredError';
+  }
+}
+
+/**
+ * Custom Error: Wrong verification code
+ */
+export class InvalidVerificationCodeError extends Error {
+  constructor(public readonly attemptsRemaining: number) {
+    super(`Invalid verification code (${attemptsRemaining} attempt(s) left)`);
+    this.name = 'InvalidVerificationCodeError';
+  }
+}
+
+/**
+ * Custom Error: Asked for a new code too soon after the last one
+ */
+export class VerificationResendTooSoonError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(`Wait ${retryAfterSeconds} second(s) before requesting a new code`);
+    this.name = 'VerificationResendTooSoonError';
+  }
+}
+
+/**
+ * Custom Error: Too many codes sent or wrong codes entered for this guest checkout
+ */
+export class VerificationLimitReachedError extends Error {
+  constructor() {
+    super('Too many verification codes requested or entered, start a new guest checkout');
+    this.name = 'VerificationLimitReachedError';
+  }
+}
+
+/**
+ * A guest checkout that was started
+ */
+export interface GuestCheckout {
+  readonly guestId: string;
+  readonly email: string;
+  readonly codeExpiresAt: Date;
+}
+
+/**
+ * What is stored per guest: the pending code and the resend count. Only
+ * a hash of the code is kept; the code itself only travels in the email.
+ * Attempts are a separate counter, incremented atomically.
+ */
+interface PendingVerification {
+  readonly codeHash: string | null; // null once used or thrown away
+  readonly codesSent: number;
+  readonly lastSentAt: number;      // Epoch ms
+  readonly expiresAt: number;       // Epoch ms (wrong attempts don't extend the code's life)
+}
+
+/**
+ * Guest Checkout Service
+ *
+ * Lets buyers check out without an account. Starting a guest checkout
+ * creates a short-lived guest ID (the lock owner, like a user ID) and
+ * emails a 6-digit one-time code to the guest's address. The guest
+ * enters the code to prove the address is theirs before confirming the
+ * purchase; the ticket is then delivered there. To keep codes from being
+ * guessed, a guest checkout gets a fixed number of attempts and of codes
+ * in total, and resends are spaced out. Each attempt is counted with an
+ * atomic increment before the code is compared, so parallel guesses
+ * can't get past the limit.
+ *
+ * The guest identity itself lives in a signed cookie issued by the API
+ * layer (see lib/api/guest); this service only handles the codes.
+ *
+ * @example
+ * ```typescript
+ * const { guestId } = await guests.startCheckout('fan@example.com');
+ * await guests.verifyEmail(guestId, '042137'); // code from the email
+ * ```
+ */
+export class GuestCheckoutService {
+  constructor(
+    private readonly cache: ICache,
+    private readonly eventPublisher?: IEventPublisher,
+    private readonly codeTtlSeconds: number = DEFAULT_VERIFICATION_CODE_TTL_SECONDS
+  ) {}
+
+  /**
+   * Creates a guest identity and emails it a verification code
+   *
+   * @param email - Where the code and later the ticket are sent
+   */
+  async startCheckout(email: string): Promise<GuestCheckout> {
+    const guestId = `guest-${randomUUID()}`;
+    const normalizedEmail = User.normalizeEmail(email);
+    const codeExpiresAt = await this.sendVerificationCode(guestId, normalizedEmail);
+
+    return { guestId, email: normalizedEmail, codeExpiresAt };
+  }
+
+  /**
+   * Emails a new code, replacing any code sent before. Wrong attempts
+   * still count against the new code.
+   *
+   * @returns When the new code expires
+   * @throws VerificationResendTooSoonError if the last code was sent less than RESEND_COOLDOWN_SECONDS ago
+   * @throws VerificationLimitReachedError if all codes or attempts are used up
+   */
+  async sendVerificationCode(guestId: string, email: string, now: Date = new Date()): Promise<Date> {
+    const cacheKey = this.cacheKey(guestId);
+    const previous = await this.cache.get<PendingVerification>(cacheKey);
+
+    if (previous) {
+      const attempts = (await this.cache.get<number>(this.attemptsKey(guestId))) ?? 0;
+
+      if (previous.codesSent >= MAX_VERIFICATION_CODES || attempts >= MAX_VERIFICATION_ATTEMPTS) {
+        throw new VerificationLimitReachedError();
+      }
+
+      const waitMs = previous.lastSentAt + RESEND_COOLDOWN_SECONDS * 1000 - now.getTime();
+      if (waitMs > 0) {
+        throw new VerificationResendTooSoonError(Math.ceil(waitMs / 1000));
+      }
+    }
+
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+    const expiresAt = new Date(now.getTime() + this.codeTtlSeconds * 1000);
+    const pending: PendingVerification = {
+      codeHash: this.hashCode(guestId, code),
+      codesSent: (previous?.codesSent ?? 0) + 1,
+      lastSentAt: now.getTime(),
+      expiresAt: expiresAt.getTime(),
+    };
+
+    await this.cache.set(cacheKey, pending, VERIFICATION_STATE_TTL_SECONDS);
+
+    if (this.eventPublisher) {
+      const event = createGuestVerificationRequestedEvent({ guestId, email, code, expiresAt });
+
+      try {
+        await this.eventPublisher.publish(EVENT_QUEUES.NOTIFICATION, event);
+      } catch (err) {
+        // The guest can ask for a new code
+        console.error('[GuestCheckoutService] Failed to publish GuestVerificationRequestedEvent:', err);
+      }
+    }
+
+    return expiresAt;
+  }
+
+  /**
+   * Checks the code the guest entered; a matching code can't be used again
+   *
+   * @throws VerificationCodeExpiredError if no code is pending
+   * @throws VerificationLimitReachedError if all attempts are used up
+   * @throws InvalidVerificationCodeError if the code is wrong
+   */
+  async verifyEmail(guestId: string, code: string): Promise<void> {
+    const cacheKey = this.cacheKey(guestId);
+    const pending = await this.cache.get<PendingVerification>(cacheKey);
+
+    if (!pending?.codeHash || pending.expiresAt <= Date.now()) {
+      throw new VerificationCodeExpiredError();
+    }
+
+    // Count the attempt before comparing: guesses sent in parallel each get their own count
+    const attempts = await this.cache.increment(this.attemptsKey(guestId), VERIFICATION_STATE_TTL_SECONDS);
+
+    if (attempts > MAX_VERIFICATION_ATTEMPTS) {
+      throw new VerificationLimitReachedError();
+    }
+
+    const expected = Buffer.from(pending.codeHash, 'hex');
+    const actual = Buffer.from(this.hashCode(guestId, code), 'hex');
+
+    // The counts stay, so the guest can't reset them after verifying
+    if (timingSafeEqual(expected, actual)) {
+      await this.cache.set(cacheKey, { ...pending, codeHash: null }, VERIFICATION_STATE_TTL_SECONDS);
+      return;
+    }
+
+    // Wrong code: give up on the code once the attempts are used up
+    if (attempts >= MAX_VERIFICATION_ATTEMPTS) {
+      await this.cache.set(cacheKey, { ...pending, codeHash: null }, VERIFICATION_STATE_TTL_SECONDS);
+    }
+
+    throw new InvalidVerificationCodeError(MAX_VERIFICATION_ATTEMPTS - attempts);
+  }
+
+  private hashCode(guestId: string, code: string): string {
+    return createHash('sha256').update(`${guestId}:${code}`).digest('hex');
+  }
+
+  private cacheKey(guestId: string): string {
+    return `guest-verification:${guestId}`;
+  }
+
+  private attemptsKey(guestId: string): string {
+    return `guest-verification-attempts:${guestId}`;
+  }
+}
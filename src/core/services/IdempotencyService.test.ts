@@ -0,0 +1,117 @@
+import { ICache } from '@/core/interfaces/ICache';
+import {
+  IdempotencyService,
+  IdempotencyKeyReusedError,
+  IdempotentRequestInProgressError,
+  DEFAULT_IDEMPOTENCY_PENDING_TTL_SECONDS,
+  DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+} from './IdempotencyService';
+
+/**
+ * Minimal Map-backed ICache (TTLs are recorded, not enforced)
+ */
+class MapCache implements ICache {
+  readonly entries = new Map<string, unknown>();
+  readonly ttls = new Map<string, number | undefined>();
+
+  async get<T>(key: string): Promise<T | null> {
+    return (this.entries.get(key) as T) ?? null;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    this.entries.set(key, value);
+    this.ttls.set(key, ttlSeconds);
+  }
+
+  async setIfAbsent<T>(key: string, value: T, ttlSeconds?: number): Promise<boolean> {
+    if (this.entries.has(key)) return false;
+    this.entries.set(key, value);
+    this.ttls.set(key, ttlSeconds);
+    return true;
+  }
+
+  async increment(key: string): Promise<number> {
+    const count = ((this.entries.get(key) as number) ?? 0) + 1;
+    this.entries.set(key, count);
+    return count;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deletePattern(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.entries.has(key);
+  }
+}
+
+describe('IdempotencyService', () => {
+  let cache: MapCache;
+  let idempotency: IdempotencyService;
+
+  const response = { status: 200, body: { success: true, data: { id: 'seat-1' } } };
+
+  beforeEach(() => {
+    cache = new MapCache();
+    idempotency = new IdempotencyService(cache);
+  });
+
+  it('should let the first request with a key run', async () => {
+    await expect(idempotency.begin('payments.confirm', 'key-1', 'hash-1')).resolves.toBeNull();
+  });
+
+  it('should only hold a running request for a short time, and keep its response for the full TTL', async () => {
+    // Act & Assert - a request that never completes doesn't block its key for a day
+    await idempotency.begin('payments.confirm', 'key-1', 'hash-1');
+    expect(cache.ttls.get('idempotency:payments.confirm:key-1')).toBe(DEFAULT_IDEMPOTENCY_PENDING_TTL_SECONDS);
+
+    await idempotency.complete('payments.confirm', 'key-1', 'hash-1', response);
+    expect(cache.ttls.get('idempotency:payments.confirm:key-1')).toBe(DEFAULT_IDEMPOTENCY_TTL_SECONDS);
+  });
+
+  it('should replay the recorded response for a retry with the same body', async () => {
+    // Arrange
+    await idempotency.begin('payments.confirm', 'key-1', 'hash-1');
+    await idempotency.complete('payments.confirm', 'key-1', 'hash-1', response);
+
+    // Act
+    const replay = await idempotency.begin('payments.confirm', 'key-1', 'hash-1');
+
+    // Assert
+    expect(replay).toEqual(response);
+  });
+
+  it('should reject a key reused with a different body', async () => {
+    await idempotency.begin('payments.confirm', 'key-1', 'hash-1');
+    await idempotency.complete('payments.confirm', 'key-1', 'hash-1', response);
+
+    await expect(
+      idempotency.begin('payments.confirm', 'key-1', 'hash-2')
+    ).rejects.toThrow(IdempotencyKeyReusedError);
+  });
+
+  it('should reject a retry while the first request is still running', async () => {
+    await idempotency.begin('payments.confirm', 'key-1', 'hash-1');
+
+    await expect(
+      idempotency.begin('payments.confirm', 'key-1', 'hash-1')
+    ).rejects.toThrow(IdempotentRequestInProgressError);
+  });
+
+  it('should let a retry run again after the key is abandoned', async () => {
+    await idempotency.begin('payments.confirm', 'key-1', 'hash-1');
+    await idempotency.abandon('payments.confirm', 'key-1');
+
+    await expect(idempotency.begin('payments.confirm', 'key-1', 'hash-1')).resolves.toBeNull();
+  });
+
+  it('should keep keys separate per scope', async () => {
+    await idempotency.begin('seats.lock', 'key-1', 'hash-1');
+
+    await expect(idempotency.begin('payments.confirm', 'key-1', 'hash-2')).resolves.toBeNull();
+  });
+});
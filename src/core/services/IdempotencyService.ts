@@ -0,0 +1,139 @@
+import { ICache } from '@/core/interfaces/ICache';
+
+/**
+ * How long an idempotency key is remembered (24 hours)
+ */
+export const DEFAULT_IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * How long a claimed key stays blocked while its request runs (1 minute,
+ * about the request timeout): if the process dies before complete() or
+ * abandon(), retries can run again once it expires
+ */
+export const DEFAULT_IDEMPOTENCY_PENDING_TTL_SECONDS = 60;
+
+/**
+ * Custom Error: Idempotency key reused with a different request
+ */
+export class IdempotencyKeyReusedError extends Error {
+  constructor(key: string) {
+    super(`Idempotency key ${key} was already used with a different request`);
+    this.name = 'IdempotencyKeyReusedError';
+  }
+}
+
+/**
+ * Custom Error: The original request for this key is still running
+ */
+export class IdempotentRequestInProgressError extends Error {
+  constructor(key: string) {
+    super(`A request with idempotency key ${key} is still being processed`);
+    this.name = 'IdempotentRequestInProgressError';
+  }
+}
+
+/**
+ * The response recorded for a completed request
+ */
+export interface StoredResponse {
+  readonly status: number;
+  readonly body: unknown;
+}
+
+/**
+ * What is stored per key. `response` is null while the first request runs.
+ */
+interface IdempotencyRecord {
+  readonly requestHash: string;
+  readonly response: StoredResponse | null;
+}
+
+/**
+ * Idempotency Service
+ *
+ * Lets clients safely retry non-idempotent requests (lock, payment confirm)
+ * by sending the same Idempotency-Key. The first request claims the key
+ * atomically; retries get the recorded response instead of running again.
+ *
+ * Flow:
+ * 1. begin()    → null (run the request) or the recorded response (replay);
+ *                 the claim only lasts about as long as a request can run
+ * 2. complete() → record the response for later retries (kept 24 hours)
+ *    abandon()  → forget the key so a retry runs again (e.g. after a 5xx)
+ *
+ * @example
+ * ```typescript
+ * const replay = await idempotency.begin('payments.confirm', key, hash);
+ * if (replay) return replay;
+ * const response = await confirm();
+ * await idempotency.complete('payments.confirm', key, hash, response);
+ * ```
+ */
+export class IdempotencyService {
+  constructor(
+    private readonly cache: ICache,
+    private readonly ttlSeconds: number = DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+    private readonly pendingTtlSeconds: number = DEFAULT_IDEMPOTENCY_PENDING_TTL_SECONDS
+  ) {}
+
+  /**
+   * Claims the key for this request, or returns the recorded response
+   *
+   * @param scope - Operation the key belongs to (keys are per operation)
+   * @param key - Client-supplied Idempotency-Key
+   * @param requestHash - Hash of the request body
+   * @returns null if the caller should process the request, or the original response
+   * @throws IdempotencyKeyReusedError if the key was used with a different body
+   * @throws IdempotentRequestInProgressError if the first request hasn't finished
+   */
+  async begin(scope: string, key: string, requestHash: string): Promise<StoredResponse | null> {
+    const cacheKey = this.cacheKey(scope, key);
+    const pending: IdempotencyRecord = { requestHash, response: null };
+
+    if (await this.cache.setIfAbsent(cacheKey, pending, this.pendingTtlSeconds)) {
+      return null;
+    }
+
+    const record = await this.cache.get<IdempotencyRecord>(cacheKey);
+
+    // Expired or abandoned between the two calls - treat as a new request
+    if (!record) {
+      await this.cache.set(cacheKey, pending, this.pendingTtlSeconds);
+      return null;
+    }
+
+    if (record.requestHash !== requestHash) {
+      throw new IdempotencyKeyReusedError(key);
+    }
+
+    if (!record.response) {
+      throw new IdempotentRequestInProgressError(key);
+    }
+
+    return record.response;
+  }
+
+  /**
+   * Records the response so retries with the same key replay it, for the full TTL
+   */
+  async complete(
+    scope: string,
+    key: string,
+    requestHash: string,
+    response: StoredResponse
+  ): Promise<void> {
+    const record: IdempotencyRecord = { requestHash, response };
+    await this.cache.set(this.cacheKey(scope, key), record, this.ttlSeconds);
+  }
+
+  /**
+   * Releases the key without recording a response
+   */
+  async abandon(scope: string, key: string): Promise<void> {
+    await this.cache.delete(this.cacheKey(scope, key));
+  }
+
+  private cacheKey(scope: string, key: string): string {
+    return `idempotency:${scope}:${key}`;
+  }
+}
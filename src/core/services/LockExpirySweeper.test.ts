@@ -0,0 +1,124 @@
+import { Seat, SeatStatus } from '@/core/domain/seat.entity';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { EVENT_QUEUES } from '@/core/events';
+import { InMemorySeatRepository } from '@/infrastructure/repositories/InMemorySeatRepository';
+import { LockExpirySweeper } from './LockExpirySweeper';
+
+describe('LockExpirySweeper', () => {
+  let seatRepository: InMemorySeatRepository;
+  let sweeper: LockExpirySweeper;
+
+  const lockedSeat = (id: string, lockExpiresAt: Date) =>
+    Seat.fromPersistence({
+      id,
+      eventId: 'event-1',
+      performanceId: 'perf-1',
+      seatNumber: id,
+      price: 100,
+      section: null,
+      row: null,
+      number: null,
+      priceCategory: null,
+      status: SeatStatus.LOCKED,
+      userId: 'user-123',
+      version: 2,
+      lockExpiresAt,
+      lockExtensions: 0,
+      holdReason: null,
+      heldBy: null,
+    });
+
+  beforeEach(() => {
+    seatRepository = new InMemorySeatRepository();
+    sweeper = new LockExpirySweeper(seatRepository);
+  });
+
+  it('should release seats whose lock has expired', async () => {
+    // Arrange
+    seatRepository.seed([lockedSeat('seat-1', new Date(Date.now() - 1000))]);
+
+    // Act
+    const released = await sweeper.sweep();
+
+    // Assert
+    expect(released.map((seat) => seat.id)).toEqual(['seat-1']);
+    const savedSeat = await seatRepository.findById('seat-1');
+    expect(savedSeat?.status).toBe(SeatStatus.AVAILABLE);
+    expect(savedSeat?.userId).toBeNull();
+    expect(savedSeat?.version).toBe(3);
+  });
+
+  it('should leave seats with an active lock untouched', async () => {
+    // Arrange
+    seatRepository.seed([
+      lockedSeat('seat-1', new Date(Date.now() + 60_000)),
+      Seat.create({ id: 'seat-2', eventId: 'event-1', performanceId: 'perf-1', seatNumber: 'A2', price: 100 }),
+    ]);
+
+    // Act
+    const released = await sweeper.sweep();
+
+    // Assert
+    expect(released).toHaveLength(0);
+    expect((await seatRepository.findById('seat-1'))?.status).toBe(SeatStatus.LOCKED);
+  });
+
+  it('should release at most batchSize seats per sweep', async () => {
+    // Arrange
+    const expiredAt = new Date(Date.now() - 1000);
+    seatRepository.seed([
+      lockedSeat('seat-1', expiredAt),
+      lockedSeat('seat-2', expiredAt),
+      lockedSeat('seat-3', expiredAt),
+    ]);
+    sweeper = new LockExpirySweeper(seatRepository, undefined, 2);
+
+    // Act
+    const released = await sweeper.sweep();
+
+    // Assert
+    expect(released).toHaveLength(2);
+  });
+
+  it('should skip seats modified concurrently', async () => {
+    // Arrange
+    seatRepository.seed([
+      lockedSeat('seat-1', new Date(Date.now() - 2000)),
+      lockedSeat('seat-2', new Date(Date.now() - 1000)),
+    ]);
+    const originalSave = seatRepository.save.bind(seatRepository);
+    jest.spyOn(seatRepository, 'save').mockImplementation(async (seat) => {
+      if (seat.id === 'seat-1') {
+        throw new ConcurrencyError('Seat', seat.id, seat.version - 1);
+      }
+      return originalSave(seat);
+    });
+
+    // Act
+    const released = await sweeper.sweep();
+
+    // Assert
+    expect(released.map((seat) => seat.id)).toEqual(['seat-2']);
+  });
+
+  it('should publish a SeatReleasedEvent for every released seat', async () => {
+    // Arrange
+    const publish = jest.fn().mockResolvedValue(undefined);
+    sweeper = new LockExpirySweeper(seatRepository, { publish });
+    seatRepository.seed([lockedSeat('seat-1', new Date(Date.now() - 1000))]);
+
+    // Act
+    await sweeper.sweep();
+
+    // Assert
+    expect(publish).toHaveBeenCalledWith(
+      EVENT_QUEUES.NOTIFICATION,
+      expect.objectContaining({
+        eventType: 'SEAT_RELEASED',
+        seatId: 'seat-1',
+        userId: 'user-123',
+        reason: 'LOCK_EXPIRED',
+      })
+    );
+  });
+});
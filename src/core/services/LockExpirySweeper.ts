@@ -0,0 +1,103 @@
+import { Seat } from '@/core/domain/seat.entity';
+import { ISeatRepository } from '@/core/interfaces/ISeatRepository';
+import { IEventPublisher } from '@/core/interfaces/IEventPublisher';
+import { IPresaleRepository } from '@/core/interfaces/IPresaleRepository';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { EVENT_QUEUES, createSeatReleasedEvent } from '@/core/events';
+
+/**
+ * Default number of expired locks released per sweep
+ */
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Lock Expiry Sweeper
+ *
+ * Releases seats whose checkout lock ran out (e.g., the buyer closed the tab).
+ * Intended to run periodically from the background worker.
+ *
+ * Each seat is released through the regular repository save path, so:
+ * - Optimistic locking protects against a concurrent confirmSale/release
+ * - The cache decorator invalidates the seat and event seat-map entries
+ * - A SeatReleasedEvent (reason LOCK_EXPIRED) is published per seat
+ * - Presale quota held by the expired locks goes back to its codes
+ *
+ * @example
+ * ```typescript
+ * const sweeper = new LockExpirySweeper(cachedRepository, eventPublisher);
+ * setInterval(() => sweeper.sweep(), 30_000);
+ * ```
+ */
+export class LockExpirySweeper {
+  constructor(
+    private readonly seatRepository: ISeatRepository,
+    private readonly eventPublisher?: IEventPublisher,
+    private readonly batchSize: number = DEFAULT_BATCH_SIZE,
+    private readonly presaleRepository?: IPresaleRepository
+  ) {}
+
+  /**
+   * Releases up to `batchSize` seats whose lock expired at or before `now`
+   *
+   * @param now - Reference time for expiry (defaults to current time)
+   * @returns The seats that were released
+   */
+  async sweep(now: Date = new Date()): Promise<Seat[]> {
+    const expiredSeats = await this.seatRepository.findExpiredLocks(now, this.batchSize);
+    const releasedSeats: Seat[] = [];
+
+    for (const seat of expiredSeats) {
+      try {
+        const releasedSeat = seat.release();
+        await this.seatRepository.save(releasedSeat);
+        releasedSeats.push(releasedSeat);
+        await this.publishSeatReleased(seat);
+      } catch (err) {
+        // The seat changed since we read it (sold, released or re-locked) - nothing to do
+        if (err instanceof ConcurrencyError) {
+          continue;
+        }
+        console.error(`[LockExpirySweeper] Failed to release seat ${seat.id}:`, err);
+      }
+    }
+
+    if (releasedSeats.length > 0) {
+      await this.releasePresaleLocks(releasedSeats);
+      console.log(`🧹 Released ${releasedSeats.length} expired seat lock(s)`);
+    }
+
+    return releasedSeats;
+  }
+
+  /**
+   * Hands back the presale quota held by the expired locks (failures are logged, never thrown)
+   */
+  private async releasePresaleLocks(releasedSeats: Seat[]): Promise<void> {
+    try {
+      await this.presaleRepository?.releaseLocks(releasedSeats.map((seat) => seat.id));
+    } catch (err) {
+      console.error('[LockExpirySweeper] Failed to release presale locks:', err);
+    }
+  }
+
+  /**
+   * Publishes a SeatReleasedEvent for an expired lock (failures are logged, never thrown)
+   */
+  private async publishSeatReleased(expiredSeat: Seat): Promise<void> {
+    if (!this.eventPublisher || !expiredSeat.userId) return;
+
+    const event = createSeatReleasedEvent({
+      seatId: expiredSeat.id,
+      eventId: expiredSeat.eventId,
+      userId: expiredSeat.userId,
+      seatNumber: expiredSeat.seatNumber,
+      reason: 'LOCK_EXPIRED',
+    });
+
+    try {
+      await this.eventPublisher.publish(EVENT_QUEUES.NOTIFICATION, event);
+    } catch (err) {
+      console.error('[LockExpirySweeper] Failed to publish SeatReleasedEvent:', err);
+    }
+  }
+}
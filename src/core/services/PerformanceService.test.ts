@@ -0,0 +1,145 @@
+import { Performance } from '@/core/domain/performance.entity';
+import { SeatTemplate } from '@/core/domain/seat-template.entity';
+import { InMemorySeatRepository } from '@/infrastructure/repositories/InMemorySeatRepository';
+import { InMemoryPerformanceRepository } from '@/infrastructure/repositories/InMemoryPerformanceRepository';
+import { InMemorySeatTemplateRepository } from '@/infrastructure/repositories/InMemorySeatTemplateRepository';
+import { InMemoryPriceCategoryRepository } from '@/infrastructure/repositories/InMemoryPriceCategoryRepository';
+import {
+  PerformanceService,
+  EventNotFoundError,
+  PerformanceNotFoundError,
+  SeatTemplateNotFoundError,
+  PriceCategoryMismatchError,
+} from './PerformanceService';
+
+describe('PerformanceService', () => {
+  let seatRepository: InMemorySeatRepository;
+  let performanceRepository: InMemoryPerformanceRepository;
+  let priceCategoryRepository: InMemoryPriceCategoryRepository;
+  let performanceService: PerformanceService;
+
+  const startsAt = new Date('2026-03-01T20:00:00Z');
+  const template = SeatTemplate.create({
+    id: 'tpl-1',
+    name: 'Hall 1',
+    seats: [
+      { seatNumber: 'A-1', section: 'Floor', row: 'A', number: 1, price: 20, priceCategoryName: 'VIP' },
+      { seatNumber: 'A-2', section: 'Floor', row: 'A', number: 2, price: 20, priceCategoryName: 'VIP' },
+      { seatNumber: 'B-1', section: 'Floor', row: 'B', number: 1, price: 20, priceCategoryName: null },
+    ],
+  });
+
+  beforeEach(() => {
+    seatRepository = new InMemorySeatRepository();
+    performanceRepository = new InMemoryPerformanceRepository(seatRepository);
+    priceCategoryRepository = new InMemoryPriceCategoryRepository();
+    priceCategoryRepository.seed('event-1', [{ id: 'cat-vip', name: 'VIP', price: 150 }]);
+
+    const templateRepository = new InMemorySeatTemplateRepository();
+    templateRepository.seed([template]);
+
+    performanceService = new PerformanceService(performanceRepository, templateRepository, priceCategoryRepository);
+  });
+
+  describe('schedulePerformance()', () => {
+    it('should generate the seat inventory from the template', async () => {
+      // Act
+      const { performance, seatCount } = await performanceService.schedulePerformance('event-1', startsAt, 'tpl-1');
+
+      // Assert
+      expect(seatCount).toBe(3);
+      expect(performance.seatTemplateId).toBe('tpl-1');
+      const seats = await seatRepository.findByPerformanceId(performance.id);
+      expect(seats.map((seat) => seat.seatNumber).sort()).toEqual(['A-1', 'A-2', 'B-1']);
+      expect(seats.filter((seat) => seat.price === 150)).toHaveLength(2);
+    });
+
+    it('should give each performance its own seats', async () => {
+      // Act
+      const first = await performanceService.schedulePerformance('event-1', startsAt, 'tpl-1');
+      const second = await performanceService.schedulePerformance(
+        'event-1',
+        new Date(startsAt.getTime() + 3 * 60 * 60 * 1000),
+        'tpl-1'
+      );
+
+      // Assert
+      expect(await seatRepository.findByPerformanceId(first.performance.id)).toHaveLength(3);
+      expect(await seatRepository.findByPerformanceId(second.performance.id)).toHaveLength(3);
+      expect(await seatRepository.findByEventId('event-1')).toHaveLength(6);
+    });
+
+    it('should reject an unknown event', async () => {
+      await expect(performanceService.schedulePerformance('event-x', startsAt, 'tpl-1')).rejects.toThrow(
+        EventNotFoundError
+      );
+    });
+
+    it('should reject an unknown template', async () => {
+      await expect(performanceService.schedulePerformance('event-1', startsAt, 'tpl-x')).rejects.toThrow(
+        SeatTemplateNotFoundError
+      );
+    });
+
+    it('should not create anything when the event lacks a price category of the template', async () => {
+      // Arrange
+      priceCategoryRepository.seed('event-2', []);
+
+      // Act & Assert
+      await expect(performanceService.schedulePerformance('event-2', startsAt, 'tpl-1')).rejects.toThrow(
+        PriceCategoryMismatchError
+      );
+      expect(await performanceRepository.findByEventId('event-2')).toHaveLength(0);
+      expect(await seatRepository.findByEventId('event-2')).toHaveLength(0);
+    });
+  });
+
+  describe('getPerformance()', () => {
+    it('should not return a performance of another event', async () => {
+      // Arrange
+      performanceRepository.seed([Performance.create({ id: 'perf-1', eventId: 'event-1', startsAt })]);
+
+      // Act & Assert
+      await expect(performanceService.getPerformance('event-1', 'perf-1')).resolves.toBeInstanceOf(Performance);
+      await expect(performanceService.getPerformance('event-2', 'perf-1')).rejects.toThrow(PerformanceNotFoundError);
+    });
+  });
+
+  describe('findPerformances()', () => {
+    it('should list showtimes earliest first', async () => {
+      // Arrange
+      performanceRepository.seed([
+        Performance.create({ id: 'late', eventId: 'event-1', startsAt: new Date('2026-03-02T20:00:00Z') }),
+        Performance.create({ id: 'early', eventId: 'event-1', startsAt }),
+      ]);
+
+      // Act
+      const performances = await performanceService.findPerformances('event-1');
+
+      // Assert
+      expect(performances.map((performance) => performance.id)).toEqual(['early', 'late']);
+    });
+  });
+
+  describe('findPerformancesByEvent()', () => {
+    it('should group the showtimes of several events, earliest first', async () => {
+      // Arrange
+      performanceRepository.seed([
+        Performance.create({ id: 'late', eventId: 'event-1', startsAt: new Date('2026-03-02T20:00:00Z') }),
+        Performance.create({ id: 'early', eventId: 'event-1', startsAt }),
+        Performance.create({ id: 'other', eventId: 'event-2', startsAt }),
+        Performance.create({ id: 'unlisted', eventId: 'event-3', startsAt }),
+      ]);
+
+      // Act
+      const performancesByEvent = await performanceService.findPerformancesByEvent(['event-1', 'event-2', 'event-4']);
+
+      // Assert
+      const ids = (eventId: string) => performancesByEvent.get(eventId)?.map((performance) => performance.id);
+      expect(ids('event-1')).toEqual(['early', 'late']);
+      expect(ids('event-2')).toEqual(['other']);
+      expect(ids('event-4')).toEqual([]);
+      expect(performancesByEvent.has('event-3')).toBe(false);
+    });
+  });
+});
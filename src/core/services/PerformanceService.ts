@@ -0,0 +1,145 @@
+import { randomUUID } from 'crypto';
+import { Performance } from '@/core/domain/performance.entity';
+import { IPerformanceRepository } from '@/core/interfaces/IPerformanceRepository';
+import { ISeatTemplateRepository } from '@/core/interfaces/ISeatTemplateRepository';
+import { IPriceCategoryRepository } from '@/core/interfaces/IPriceCategoryRepository';
+
+/**
+ * Custom Error: Event Not Found
+ */
+export class EventNotFoundError extends Error {
+  constructor(eventId: string) {
+    super(`Event ${eventId} not found`);
+    this.name = 'EventNotFoundError';
+  }
+}
+
+/**
+ * Custom Error: Performance Not Found (or not part of the given event)
+ */
+export class PerformanceNotFoundError extends Error {
+  constructor(performanceId: string, eventId: string) {
+    super(`Performance ${performanceId} not found for event ${eventId}`);
+    this.name = 'PerformanceNotFoundError';
+  }
+}
+
+/**
+ * Custom Error: Seat Template Not Found
+ */
+export class SeatTemplateNotFoundError extends Error {
+  constructor(templateId: string) {
+    super(`Seat template ${templateId} not found`);
+    this.name = 'SeatTemplateNotFoundError';
+  }
+}
+
+/**
+ * Custom Error: Template seats refer to price categories the event doesn't define
+ */
+export class PriceCategoryMismatchError extends Error {
+  constructor(eventId: string, readonly missingCategories: string[]) {
+    super(`Event ${eventId} has no price categories named ${missingCategories.join(', ')}`);
+    this.name = 'PriceCategoryMismatchError';
+  }
+}
+
+/**
+ * Performance Service
+ *
+ * Manages the showtimes of an event. Scheduling a performance generates
+ * its seat inventory from a reusable seat template, priced with the
+ * event's price table, and saves both in one transaction.
+ *
+ * @example
+ * ```typescript
+ * const performances = new PerformanceService(performanceRepo, templateRepo, priceCategoryRepo);
+ * await performances.schedulePerformance('evt-1', new Date('2026-03-01T20:00:00Z'), 'tpl-imax-hall-1');
+ * ```
+ */
+export class PerformanceService {
+  constructor(
+    private readonly performanceRepository: IPerformanceRepository,
+    private readonly seatTemplateRepository: ISeatTemplateRepository,
+    private readonly priceCategoryRepository: IPriceCategoryRepository
+  ) {}
+
+  /**
+   * Lists the performances of an event, earliest first
+   */
+  async findPerformances(eventId: string): Promise<Performance[]> {
+    return this.performanceRepository.findByEventId(eventId);
+  }
+
+  /**
+   * Lists the performances of several events with a single lookup
+   *
+   * @returns The performances of each event, earliest first (an empty list for events without any)
+   */
+  async findPerformancesByEvent(eventIds: string[]): Promise<Map<string, Performance[]>> {
+    const performancesByEvent = new Map<string, Performance[]>(eventIds.map((eventId) => [eventId, []]));
+
+    for (const performance of await this.performanceRepository.findByEventIds(eventIds)) {
+      performancesByEvent.get(performance.eventId)?.push(performance);
+    }
+
+    return performancesByEvent;
+  }
+
+  /**
+   * Loads a performance of an event
+   *
+   * @throws PerformanceNotFoundError if it doesn't exist or belongs to another event
+   */
+  async getPerformance(eventId: string, performanceId: string): Promise<Performance> {
+    const performance = await this.performanceRepository.findById(performanceId);
+
+    if (!performance || performance.eventId !== eventId) {
+      throw new PerformanceNotFoundError(performanceId, eventId);
+    }
+
+    return performance;
+  }
+
+  /**
+   * Schedules a new performance with seats generated from a template
+   *
+   * @returns The performance and the number of seats put on sale
+   * @throws EventNotFoundError if the event doesn't exist
+   * @throws SeatTemplateNotFoundError if the template doesn't exist
+   * @throws PriceCategoryMismatchError if template seats refer to categories the event lacks
+   */
+  async schedulePerformance(
+    eventId: string,
+    startsAt: Date,
+    seatTemplateId: string
+  ): Promise<{ performance: Performance; seatCount: number }> {
+    const [priceCategories, template] = await Promise.all([
+      this.priceCategoryRepository.findByEventId(eventId),
+      this.seatTemplateRepository.findById(seatTemplateId),
+    ]);
+
+    if (!priceCategories) {
+      throw new EventNotFoundError(eventId);
+    }
+
+    if (!template) {
+      throw new SeatTemplateNotFoundError(seatTemplateId);
+    }
+
+    const known = new Set(priceCategories.map((category) => category.name));
+    const missing = template.priceCategoryNames.filter((name) => !known.has(name));
+    if (missing.length > 0) {
+      throw new PriceCategoryMismatchError(eventId, missing);
+    }
+
+    const performance = Performance.create({ id: randomUUID(), eventId, startsAt, seatTemplateId });
+    const seats = template.generateSeats({ performance, priceCategories });
+
+    await this.performanceRepository.createWithSeats(performance, seats);
+
+    console.log(`🎬 Performance ${performance.id} of event ${eventId} scheduled with ${seats.length} seats`);
+
+    return { performance, seatCount: seats.length };
+  }
+}
@@ -0,0 +1,193 @@
+import { Seat } from '@/core/domain/seat.entity';
+import { ResaleListing, ResaleListingStatus } from '@/core/domain/resale-listing.entity';
+import { EVENT_QUEUES } from '@/core/events';
+import { InMemorySeatRepository } from '@/infrastructure/repositories/InMemorySeatRepository';
+import { InMemoryOrderRepository } from '@/infrastructure/repositories/InMemoryOrderRepository';
+import { InMemoryResaleListingRepository } from '@/infrastructure/repositories/InMemoryResaleListingRepository';
+import { InMemoryResalePolicyRepository } from '@/infrastructure/repositories/InMemoryResalePolicyRepository';
+import { TicketNotOwnedError, LockExpiredError } from './BookingService';
+import {
+  ResaleService,
+  OwnListingPurchaseError,
+  ResaleListingLockedError,
+  ResaleListingUnavailableError,
+  ResaleNotAllowedError,
+  ResalePriceAboveCapError,
+  TicketAlreadyListedError,
+  TicketNotResellableError,
+} from './ResaleService';
+
+describe('ResaleService', () => {
+  let seatRepository: InMemorySeatRepository;
+  let orderRepository: InMemoryOrderRepository;
+  let listingRepository: InMemoryResaleListingRepository;
+  let policyRepository: InMemoryResalePolicyRepository;
+  let resaleService: ResaleService;
+
+  const seat = (id: string) => Seat.create({ id, eventId: 'event-1', performanceId: 'perf-1', seatNumber: id.toUpperCase(), price: 100 });
+  const soldSeat = (id: string, ownerId = 'seller') => seat(id).lock(ownerId).sell();
+  const listing = (seatId: string, price = 110) =>
+    ResaleListing.create({ id: `rl-${seatId}`, seatId, eventId: 'event-1', sellerId: 'seller', price });
+
+  beforeEach(() => {
+    seatRepository = new InMemorySeatRepository();
+    orderRepository = new InMemoryOrderRepository(seatRepository);
+    listingRepository = new InMemoryResaleListingRepository(orderRepository);
+    policyRepository = new InMemoryResalePolicyRepository();
+    policyRepository.seed([{ eventId: 'event-1', maxPricePercent: 120 }]);
+    resaleService = new ResaleService(seatRepository, listingRepository, policyRepository);
+  });
+
+  describe('listTicket()', () => {
+    it('should list a sold ticket within the price cap', async () => {
+      // Arrange
+      seatRepository.seed([soldSeat('a1')]);
+
+      // Act
+      const created = await resaleService.listTicket('a1', 'seller', 120);
+
+      // Assert
+      expect(created.status).toBe(ResaleListingStatus.ACTIVE);
+      expect(created.price).toBe(120);
+      expect(await listingRepository.findActiveBySeatId('a1')).not.toBeNull();
+    });
+
+    it('should throw ResalePriceAboveCapError above the cap', async () => {
+      seatRepository.seed([soldSeat('a1')]);
+
+      await expect(resaleService.listTicket('a1', 'seller', 120.01)).rejects.toThrow(
+        ResalePriceAboveCapError
+      );
+    });
+
+    it('should throw ResaleNotAllowedError when the organizer disabled resale', async () => {
+      seatRepository.seed([soldSeat('a1')]);
+      policyRepository.seed([{ eventId: 'event-1', maxPricePercent: null }]);
+
+      await expect(resaleService.listTicket('a1', 'seller', 100)).rejects.toThrow(ResaleNotAllowedError);
+    });
+
+    it('should throw TicketNotOwnedError for someone else\'s ticket', async () => {
+      seatRepository.seed([soldSeat('a1')]);
+
+      await expect(resaleService.listTicket('a1', 'other', 100)).rejects.toThrow(TicketNotOwnedError);
+    });
+
+    it('should throw TicketNotResellableError if the seat is not sold', async () => {
+      seatRepository.seed([seat('a1')]);
+
+      await expect(resaleService.listTicket('a1', 'seller', 100)).rejects.toThrow(TicketNotResellableError);
+    });
+
+    it('should throw TicketAlreadyListedError if the ticket is already listed', async () => {
+      seatRepository.seed([soldSeat('a1')]);
+      listingRepository.seed([listing('a1')]);
+
+      await expect(resaleService.listTicket('a1', 'seller', 100)).rejects.toThrow(TicketAlreadyListedError);
+    });
+  });
+
+  describe('lockListing()', () => {
+    it('should hold the listing for the buyer without touching the seat', async () => {
+      // Arrange
+      seatRepository.seed([soldSeat('a1')]);
+      listingRepository.seed([listing('a1')]);
+
+      // Act
+      const locked = await resaleService.lockListing('rl-a1', 'buyer');
+
+      // Assert
+      expect(locked.isLockedBy('buyer')).toBe(true);
+      expect((await seatRepository.findById('a1'))?.userId).toBe('seller');
+    });
+
+    it('should throw ResaleListingUnavailableError while another buyer holds it', async () => {
+      seatRepository.seed([soldSeat('a1')]);
+      listingRepository.seed([listing('a1').lock('buyer')]);
+
+      await expect(resaleService.lockListing('rl-a1', 'other')).rejects.toThrow(
+        ResaleListingUnavailableError
+      );
+    });
+
+    it('should throw ResaleListingUnavailableError once the seller no longer holds the ticket', async () => {
+      seatRepository.seed([soldSeat('a1').refund()]);
+      listingRepository.seed([listing('a1')]);
+
+      await expect(resaleService.lockListing('rl-a1', 'buyer')).rejects.toThrow(
+        ResaleListingUnavailableError
+      );
+    });
+
+    it('should throw OwnListingPurchaseError for the seller', async () => {
+      seatRepository.seed([soldSeat('a1')]);
+      listingRepository.seed([listing('a1')]);
+
+      await expect(resaleService.lockListing('rl-a1', 'seller')).rejects.toThrow(OwnListingPurchaseError);
+    });
+  });
+
+  describe('confirmPurchase()', () => {
+    it('should hand the seat to the buyer and record the order and payout', async () => {
+      // Arrange
+      const publish = jest.fn().mockResolvedValue(undefined);
+      resaleService = new ResaleService(seatRepository, listingRepository, policyRepository, { publish }, 10);
+      seatRepository.seed([soldSeat('a1')]);
+      listingRepository.seed([listing('a1', 110).lock('buyer')]);
+
+      // Act
+      const { listing: sold, seat: resoldSeat, order } = await resaleService.confirmPurchase(
+        'rl-a1',
+        'buyer',
+        'pi_123'
+      );
+
+      // Assert
+      expect(sold.status).toBe(ResaleListingStatus.SOLD);
+      expect(sold.platformFee).toBe(11);
+      expect(sold.sellerPayout).toBe(99);
+      expect(resoldSeat.userId).toBe('buyer');
+      expect(order.userId).toBe('buyer');
+      expect(order.totalAmount).toBe(110);
+
+      expect((await seatRepository.findById('a1'))?.userId).toBe('buyer');
+      expect(await orderRepository.findActiveBySeatId('a1')).toEqual(order);
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.TICKET_GENERATION,
+        expect.objectContaining({ eventType: 'TICKET_RESOLD', buyerId: 'buyer', sellerPayout: 99 })
+      );
+    });
+
+    it('should throw LockExpiredError once the checkout lock has run out', async () => {
+      const now = new Date();
+      seatRepository.seed([soldSeat('a1')]);
+      listingRepository.seed([listing('a1').lock('buyer', 1_000, now)]);
+
+      await expect(
+        resaleService.confirmPurchase('rl-a1', 'buyer', undefined, new Date(now.getTime() + 1_000))
+      ).rejects.toThrow(LockExpiredError);
+    });
+  });
+
+  describe('findAvailableListings()', () => {
+    it('should skip held and stale listings', async () => {
+      // Arrange
+      seatRepository.seed([soldSeat('a1'), soldSeat('a2'), soldSeat('a3', 'someone-else')]);
+      listingRepository.seed([listing('a1'), listing('a2').lock('buyer'), listing('a3')]);
+
+      // Act
+      const available = await resaleService.findAvailableListings('event-1');
+
+      // Assert
+      expect(available.map((current) => current.id)).toEqual(['rl-a1']);
+    });
+  });
+
+  describe('cancelListing()', () => {
+    it('should throw ResaleListingLockedError while a buyer is checking out', async () => {
+      listingRepository.seed([listing('a1').lock('buyer')]);
+
+      await expect(resaleService.cancelListing('rl-a1', 'seller')).rejects.toThrow(ResaleListingLockedError);
+    });
+  });
+});
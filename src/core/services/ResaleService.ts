@@ -0,0 +1,415 @@
+import { randomUUID } from 'crypto';
+import { Seat, DEFAULT_LOCK_DURATION_MS } from '@/core/domain/seat.entity';
+import { Order } from '@/core/domain/order.entity';
+import { ResaleListing } from '@/core/domain/resale-listing.entity';
+import { ISeatRepository } from '@/core/interfaces/ISeatRepository';
+import { IResaleListingRepository } from '@/core/interfaces/IResaleListingRepository';
+import { IResalePolicyRepository } from '@/core/interfaces/IResalePolicyRepository';
+import { IEventPublisher } from '@/core/interfaces/IEventPublisher';
+import { EVENT_QUEUES, createTicketResoldEvent } from '@/core/events';
+import {
+  SeatNotFoundError,
+  TicketNotOwnedError,
+  UnauthorizedLockError,
+  LockExpiredError,
+} from './BookingService';
+
+/**
+ * Share of each resale price kept by the platform (the rest is paid out to the seller)
+ */
+export const DEFAULT_RESALE_PLATFORM_FEE_PERCENT = 10;
+
+/**
+ * Custom Error: Seat has no ticket to resell (not SOLD)
+ */
+export class TicketNotResellableError extends Error {
+  constructor(seatId: string, currentStatus: string) {
+    super(`Seat ${seatId} cannot be resold (current status: ${currentStatus})`);
+    this.name = 'TicketNotResellableError';
+  }
+}
+
+/**
+ * Custom Error: Ticket is already listed for resale
+ */
+export class TicketAlreadyListedError extends Error {
+  constructor(seatId: string) {
+    super(`Seat ${seatId} is already listed for resale`);
+    this.name = 'TicketAlreadyListedError';
+  }
+}
+
+/**
+ * Custom Error: Organizer does not allow resale for the event
+ */
+export class ResaleNotAllowedError extends Error {
+  constructor(eventId: string) {
+    super(`Resale is not allowed for event ${eventId}`);
+    this.name = 'ResaleNotAllowedError';
+  }
+}
+
+/**
+ * Custom Error: Asking price is above the event's resale cap
+ */
+export class ResalePriceAboveCapError extends Error {
+  constructor(price: number, readonly maxPrice: number) {
+    super(`Resale price ${price} is above the maximum of ${maxPrice}`);
+    this.name = 'ResalePriceAboveCapError';
+  }
+}
+
+/**
+ * Custom Error: Resale Listing Not Found
+ */
+export class ResaleListingNotFoundError extends Error {
+  constructor(listingId: string) {
+    super(`Resale listing ${listingId} not found`);
+    this.name = 'ResaleListingNotFoundError';
+  }
+}
+
+/**
+ * Custom Error: Listing is sold, cancelled, held by another buyer,
+ * or the seller no longer holds the ticket
+ */
+export class ResaleListingUnavailableError extends Error {
+  constructor(listingId: string) {
+    super(`Resale listing ${listingId} is no longer available`);
+    this.name = 'ResaleListingUnavailableError';
+  }
+}
+
+/**
+ * Custom Error: A buyer is checking out the listing
+ */
+export class ResaleListingLockedError extends Error {
+  constructor(listingId: string) {
+    super(`Resale listing ${listingId} is being purchased`);
+    this.name = 'ResaleListingLockedError';
+  }
+}
+
+/**
+ * Custom Error: Seller tried to buy their own listing
+ */
+export class OwnListingPurchaseError extends Error {
+  constructor(listingId: string) {
+    super(`Sellers cannot buy their own resale listing ${listingId}`);
+    this.name = 'OwnListingPurchaseError';
+  }
+}
+
+/**
+ * Result of a completed resale purchase
+ */
+export interface ResalePurchase {
+  readonly listing: ResaleListing;
+  readonly seat: Seat;
+  readonly order: Order;
+}
+
+/**
+ * Resale Service
+ *
+ * Fan-to-fan resale of sold tickets at prices capped by the organizer.
+ *
+ * A resale purchase follows the primary sale flow: the buyer locks the
+ * listing for DEFAULT_LOCK_DURATION_MS, pays, and the sale is confirmed.
+ * Instead of selling an AVAILABLE seat, confirmation hands the SOLD seat
+ * from seller to buyer, records the buyer's order at the resale price and
+ * the seller's payout, all in one transaction. The worker then voids the
+ * seller's ticket and issues a new one to the buyer.
+ *
+ * @example
+ * ```typescript
+ * const resale = new ResaleService(seatRepo, listingRepo, policyRepo, eventPublisher);
+ * const listing = await resale.listTicket('seat-1', 'seller-1', 110);
+ * await resale.lockListing(listing.id, 'buyer-1');
+ * await resale.confirmPurchase(listing.id, 'buyer-1', 'pi_123');
+ * ```
+ */
+export class ResaleService {
+  constructor(
+    private readonly seatRepository: ISeatRepository,
+    private readonly listingRepository: IResaleListingRepository,
+    private readonly policyRepository: IResalePolicyRepository,
+    private readonly eventPublisher?: IEventPublisher,
+    private readonly platformFeePercent: number = DEFAULT_RESALE_PLATFORM_FEE_PERCENT
+  ) {}
+
+  /**
+   * Lists a sold ticket for resale
+   *
+   * @param seatId - The seat whose ticket is resold
+   * @param sellerId - The ticket owner
+   * @param price - Asking price (at most the event's cap)
+   * @throws SeatNotFoundError if seat doesn't exist
+   * @throws TicketNotResellableError if the seat is not SOLD
+   * @throws TicketNotOwnedError if sellerId doesn't own the ticket
+   * @throws TicketAlreadyListedError if the ticket already has an active listing
+   * @throws ResaleNotAllowedError if the organizer disabled resale for the event
+   * @throws ResalePriceAboveCapError if the price is above the event's cap
+   */
+  async listTicket(seatId: string, sellerId: string, price: number): Promise<ResaleListing> {
+    const seat = await this.seatRepository.findById(seatId);
+
+    if (!seat) {
+      throw new SeatNotFoundError(seatId);
+    }
+
+    if (!seat.isSold()) {
+      throw new TicketNotResellableError(seatId, seat.status);
+    }
+
+    if (seat.userId !== sellerId) {
+      throw new TicketNotOwnedError(sellerId, seatId);
+    }
+
+    if (await this.listingRepository.findActiveBySeatId(seatId)) {
+      throw new TicketAlreadyListedError(seatId);
+    }
+
+    const policy = await this.policyRepository.findByEventId(seat.eventId);
+
+    if (!policy || policy.maxPricePercent === null) {
+      throw new ResaleNotAllowedError(seat.eventId);
+    }
+
+    // Cap in cents to avoid floating point drift
+    const maxPrice = Math.round(seat.price * policy.maxPricePercent) / 100;
+
+    if (price > maxPrice) {
+      throw new ResalePriceAboveCapError(price, maxPrice);
+    }
+
+    const listing = ResaleListing.create({
+      id: randomUUID(),
+      seatId,
+      eventId: seat.eventId,
+      sellerId,
+      price,
+    });
+    await this.listingRepository.save(listing);
+
+    console.log(`🏷️ Seat ${seat.seatNumber} listed for resale at ${price} by user ${sellerId}`);
+
+    return listing;
+  }
+
+  /**
+   * Lists the resale tickets of an event that can be bought right now
+   * (skips listings held by a buyer and those whose seller no longer holds the ticket)
+   */
+  async findAvailableListings(eventId: string, now: Date = new Date()): Promise<ResaleListing[]> {
+    const listings = await this.listingRepository.findActiveByEventId(eventId);
+    // One lookup per listing rather than per seat: listings are few, an event may span many performances
+    const seats = await Promise.all(listings.map((listing) => this.seatRepository.findById(listing.seatId)));
+
+    return listings.filter((listing, index) => {
+      const seat = seats[index];
+      return !listing.isLocked(now) && seat !== null && this.isHeldBySeller(listing, seat);
+    });
+  }
+
+  /**
+   * Withdraws a listing
+   *
+   * @throws ResaleListingNotFoundError if the listing doesn't exist
+   * @throws TicketNotOwnedError if sellerId didn't create the listing
+   * @throws ResaleListingUnavailableError if the listing was already sold or cancelled
+   * @throws ResaleListingLockedError if a buyer is checking it out
+   */
+  async cancelListing(listingId: string, sellerId: string, now: Date = new Date()): Promise<ResaleListing> {
+    const listing = await this.findListingOrThrow(listingId);
+
+    if (listing.sellerId !== sellerId) {
+      throw new TicketNotOwnedError(sellerId, listing.seatId);
+    }
+
+    if (!listing.isActive()) {
+      throw new ResaleListingUnavailableError(listingId);
+    }
+
+    if (listing.isLocked(now)) {
+      throw new ResaleListingLockedError(listingId);
+    }
+
+    const cancelledListing = listing.cancel();
+    await this.listingRepository.save(cancelledListing);
+
+    console.log(`🚫 Resale listing ${listingId} withdrawn by user ${sellerId}`);
+
+    return cancelledListing;
+  }
+
+  /**
+   * Holds a listing for a buyer during checkout (same duration as a seat lock)
+   *
+   * Locking again while already holding the listing returns it unchanged.
+   *
+   * @throws ResaleListingNotFoundError if the listing doesn't exist
+   * @throws OwnListingPurchaseError if the buyer is the seller
+   * @throws ResaleListingUnavailableError if the listing can't be bought
+   * @throws ConcurrencyError if another buyer locked it at the same moment
+   */
+  async lockListing(listingId: string, buyerId: string, now: Date = new Date()): Promise<ResaleListing> {
+    const listing = await this.findListingOrThrow(listingId);
+
+    if (listing.sellerId === buyerId) {
+      throw new OwnListingPurchaseError(listingId);
+    }
+
+    if (listing.isLockedBy(buyerId, now)) {
+      return listing;
+    }
+
+    if (!listing.isActive() || listing.isLocked(now)) {
+      throw new ResaleListingUnavailableError(listingId);
+    }
+
+    const seat = await this.seatRepository.findById(listing.seatId);
+
+    if (!seat || !this.isHeldBySeller(listing, seat)) {
+      throw new ResaleListingUnavailableError(listingId);
+    }
+
+    const lockedListing = listing.lock(buyerId, DEFAULT_LOCK_DURATION_MS, now);
+    await this.listingRepository.save(lockedListing);
+
+    console.log(`🔒 Resale listing ${listingId} locked by user ${buyerId}`);
+
+    return lockedListing;
+  }
+
+  /**
+   * Lets go of a listing the buyer was checking out
+   *
+   * @throws ResaleListingNotFoundError if the listing doesn't exist
+   * @throws UnauthorizedLockError if the buyer doesn't hold the listing
+   */
+  async releaseListing(listingId: string, buyerId: string, now: Date = new Date()): Promise<ResaleListing> {
+    const listing = await this.findListingOrThrow(listingId);
+
+    if (!listing.isLockedBy(buyerId, now)) {
+      throw new UnauthorizedLockError(buyerId, listing.seatId);
+    }
+
+    const releasedListing = listing.release();
+    await this.listingRepository.save(releasedListing);
+
+    return releasedListing;
+  }
+
+  /**
+   * Completes a resale purchase after successful payment
+   *
+   * Flow:
+   * 1. Find the listing and verify the buyer holds an unexpired lock
+   * 2. Check the seller still holds the ticket
+   * 3. Sell the listing (records the payout), transfer the seat, build the buyer's order
+   * 4. Persist listing + seat + order in one transaction
+   * 5. Publish TicketResoldEvent → worker reissues the ticket to the buyer
+   *
+   * @param listingId - The listing being bought
+   * @param buyerId - The buyer (must hold the lock)
+   * @param paymentReference - Payment provider transaction ID (optional)
+   * @throws ResaleListingNotFoundError if the listing doesn't exist
+   * @throws UnauthorizedLockError if the buyer doesn't hold the listing
+   * @throws LockExpiredError if the lock ran out before payment was confirmed
+   * @throws ResaleListingUnavailableError if the seller no longer holds the ticket
+   * @throws ConcurrencyError if the listing or seat changed in the meantime
+   */
+  async confirmPurchase(
+    listingId: string,
+    buyerId: string,
+    paymentReference?: string,
+    now: Date = new Date()
+  ): Promise<ResalePurchase> {
+    // 1. Find the listing and verify the lock
+    const listing = await this.findListingOrThrow(listingId);
+
+    if (!listing.isActive() || listing.buyerId !== buyerId) {
+      throw new UnauthorizedLockError(buyerId, listing.seatId);
+    }
+
+    if (listing.isLockExpired(now)) {
+      throw new LockExpiredError(listing.seatId, listing.lockExpiresAt!);
+    }
+
+    // 2. The ticket must still be the seller's
+    const seat = await this.seatRepository.findById(listing.seatId);
+
+    if (!seat) {
+      throw new SeatNotFoundError(listing.seatId);
+    }
+
+    if (!this.isHeldBySeller(listing, seat)) {
+      throw new ResaleListingUnavailableError(listingId);
+    }
+
+    // 3. Sell (returns NEW immutable instances) and record the buyer's purchase
+    const soldListing = listing.sell(this.platformFeePercent, now);
+    const transferredSeat = seat.transferTo(buyerId);
+    const order = Order.create({
+      id: randomUUID(),
+      userId: buyerId,
+      seats: [transferredSeat],
+      prices: { [seat.id]: listing.price },
+      paymentReference,
+    });
+
+    // 4. Persist listing + seat + order atomically
+    await this.listingRepository.saveSale(soldListing, transferredSeat, order);
+
+    console.log(`💸 Seat ${seat.seatNumber} resold to user ${buyerId} (payout ${soldListing.sellerPayout})`);
+
+    // 5. Publish event for downstream processing
+    await this.publishTicketResold(soldListing, transferredSeat, order);
+
+    return { listing: soldListing, seat: transferredSeat, order };
+  }
+
+  /**
+   * Checks that the listed ticket is still sold to the seller
+   * (a refund or transfer since listing makes the listing stale)
+   */
+  private isHeldBySeller(listing: ResaleListing, seat: Seat): boolean {
+    return seat.isSold() && seat.userId === listing.sellerId;
+  }
+
+  private async findListingOrThrow(listingId: string): Promise<ResaleListing> {
+    const listing = await this.listingRepository.findById(listingId);
+
+    if (!listing) {
+      throw new ResaleListingNotFoundError(listingId);
+    }
+
+    return listing;
+  }
+
+  /**
+   * Publishes a TicketResoldEvent (failures are logged, never thrown)
+   */
+  private async publishTicketResold(listing: ResaleListing, seat: Seat, order: Order): Promise<void> {
+    if (!this.eventPublisher) return;
+
+    const event = createTicketResoldEvent({
+      listingId: listing.id,
+      orderId: order.id,
+      seatId: seat.id,
+      eventId: seat.eventId,
+      sellerId: listing.sellerId,
+      buyerId: listing.buyerId!,
+      seatNumber: seat.seatNumber,
+      price: listing.price,
+      sellerPayout: listing.sellerPayout!,
+    });
+
+    try {
+      await this.eventPublisher.publish(EVENT_QUEUES.TICKET_GENERATION, event);
+    } catch (err) {
+      console.error('[ResaleService] Failed to publish TicketResoldEvent:', err);
+    }
+  }
+}
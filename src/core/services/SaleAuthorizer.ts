@@ -0,0 +1,236 @@
+import { randomUUID } from 'crypto';
+import { EventStatus } from '@/core/domain/sales-window.entity';
+import { Presale } from '@/core/domain/presale.entity';
+import { PresaleCode } from '@/core/domain/presale-code.entity';
+import { ISalesWindowRepository } from '@/core/interfaces/ISalesWindowRepository';
+import { IPresaleRepository, PresaleRedemption } from '@/core/interfaces/IPresaleRepository';
+
+/**
+ * Custom Error: Event is not on sale (outside its sales window, or not
+ * in a sellable lifecycle state)
+ */
+export class EventNotOnSaleError extends Error {
+  constructor(
+    public readonly eventId: string,
+    public readonly status: EventStatus,
+    public readonly salesStartAt: Date | null,
+    public readonly salesEndAt: Date | null
+  ) {
+    super(
+      status === EventStatus.SCHEDULED && salesStartAt
+        ? `Event ${eventId} goes on sale at ${salesStartAt.toISOString()}`
+        : `Event ${eventId} is not on sale (current status: ${status})`
+    );
+    this.name = 'EventNotOnSaleError';
+  }
+}
+
+/**
+ * Custom Error: Event is in a presale and no code was supplied
+ */
+export class PresaleCodeRequiredError extends Error {
+  constructor(eventId: string) {
+    super(`Event ${eventId} is in presale: a presale code is required`);
+    this.name = 'PresaleCodeRequiredError';
+  }
+}
+
+/**
+ * Custom Error: Code doesn't belong to a presale running for the event
+ */
+export class InvalidPresaleCodeError extends Error {
+  constructor(eventId: string) {
+    super(`Presale code is not valid for event ${eventId}`);
+    this.name = 'InvalidPresaleCodeError';
+  }
+}
+
+/**
+ * Custom Error: Code's ticket quota is used up (or its single use is taken)
+ */
+export class PresaleQuotaExceededError extends Error {
+  constructor(code: string, quantity: number) {
+    super(`Presale code ${code} cannot unlock ${quantity} more ticket(s)`);
+    this.name = 'PresaleQuotaExceededError';
+  }
+}
+
+/**
+ * A lock about to be taken: a seat (one ticket) or a GA reservation
+ */
+export interface SaleLock {
+  readonly eventId: string;
+  readonly lockId: string; // Seat ID or GA reservation ID
+  readonly quantity: number;
+}
+
+/**
+ * Sale Authorizer
+ *
+ * Decides whether tickets of an event can be locked right now, for both
+ * seated (BookingService) and general admission (GeneralAdmissionService)
+ * checkouts.
+ *
+ * Outside the sales window, a running presale lets code holders in: the
+ * code's quota is redeemed when the lock is taken and stays linked to the
+ * lock, so it goes back to the code when the lock ends without a sale.
+ * Checks are skipped when the authorizer has no sales window repository.
+ *
+ * @example
+ * ```typescript
+ * const authorizer = new SaleAuthorizer(salesWindowRepository, presaleRepository);
+ * const redemptions = await authorizer.authorize(locks, userId, presaleCode);
+ * await authorizer.withRedemptions(redemptions, () => seatRepository.saveAll(lockedSeats));
+ * ```
+ */
+export class SaleAuthorizer {
+  constructor(
+    private readonly salesWindowRepository?: ISalesWindowRepository,
+    private readonly presaleRepository?: IPresaleRepository
+  ) {}
+
+  /**
+   * Checks the locks' events can be bought from right now, redeeming the
+   * presale code for events in a presale
+   *
+   * @returns The stored redemptions, to hand back if the locks aren't saved
+   * @throws EventNotOnSaleError if an event is outside its sales window and presales
+   * @throws PresaleCodeRequiredError / InvalidPresaleCodeError / PresaleQuotaExceededError during a presale
+   */
+  async authorize(
+    locks: SaleLock[],
+    userId: string,
+    presaleCode: string | undefined,
+    now: Date = new Date()
+  ): Promise<PresaleRedemption[]> {
+    if (!this.salesWindowRepository) return [];
+
+    const locksPerEvent = new Map<string, SaleLock[]>();
+    locks.forEach((lock) => locksPerEvent.set(lock.eventId, [...(locksPerEvent.get(lock.eventId) ?? []), lock]));
+
+    const redemptions: PresaleRedemption[] = [];
+
+    try {
+      for (const [eventId, eventLocks] of locksPerEvent) {
+        const window = await this.salesWindowRepository.findByEventId(eventId);
+
+        if (!window || window.isOpen(now)) continue;
+
+        // Before the general on-sale, a running presale lets code holders in
+        const presales =
+          window.statusAt(now) === EventStatus.SCHEDULED && this.presaleRepository
+            ? await this.presaleRepository.findActiveByEventId(eventId, now)
+            : [];
+
+        if (presales.length === 0) {
+          throw new EventNotOnSaleError(eventId, window.statusAt(now), window.salesStartAt, window.salesEndAt);
+        }
+
+        redemptions.push(await this.redeemPresaleCode(eventId, presales, presaleCode, userId, eventLocks, now));
+      }
+    } catch (err) {
+      await this.releaseRedemptions(redemptions);
+      throw err;
+    }
+
+    return redemptions;
+  }
+
+  /**
+   * Runs a save and hands the presale quota back if it fails
+   */
+  async withRedemptions<T>(redemptions: PresaleRedemption[], save: () => Promise<T>): Promise<T> {
+    try {
+      return await save();
+    } catch (err) {
+      await this.releaseRedemptions(redemptions);
+      throw err;
+    }
+  }
+
+  /**
+   * Hands redeemed presale quota back (failures are logged, never thrown)
+   */
+  async releaseRedemptions(redemptions: PresaleRedemption[]): Promise<void> {
+    for (const redemption of redemptions) {
+      try {
+        await this.presaleRepository?.releaseRedemption(redemption);
+      } catch (err) {
+        console.error(`[SaleAuthorizer] Failed to release presale redemption ${redemption.id}:`, err);
+      }
+    }
+  }
+
+  /**
+   * Hands back the presale quota held by locks that ended without a sale
+   * (failures are logged, never thrown)
+   */
+  async releaseLocks(lockIds: string[]): Promise<void> {
+    try {
+      await this.presaleRepository?.releaseLocks(lockIds);
+    } catch (err) {
+      console.error('[SaleAuthorizer] Failed to release presale locks:', err);
+    }
+  }
+
+  /**
+   * Keeps the presale quota of sold locks redeemed (failures are logged, never thrown)
+   */
+  async settleLocks(lockIds: string[]): Promise<void> {
+    try {
+      await this.presaleRepository?.settleLocks(lockIds);
+    } catch (err) {
+      console.error('[SaleAuthorizer] Failed to settle presale locks:', err);
+    }
+  }
+
+  /**
+   * Takes the tickets of `locks` from the quota of the code in one of the running presales
+   * @throws PresaleCodeRequiredError if no code was supplied
+   * @throws InvalidPresaleCodeError if the code isn't part of a running presale
+   * @throws PresaleQuotaExceededError if the code can't unlock that many more tickets
+   */
+  private async redeemPresaleCode(
+    eventId: string,
+    presales: Presale[],
+    presaleCode: string | undefined,
+    userId: string,
+    locks: SaleLock[],
+    now: Date
+  ): Promise<PresaleRedemption> {
+    const presaleRepository = this.presaleRepository!;
+
+    if (!presaleCode) {
+      throw new PresaleCodeRequiredError(eventId);
+    }
+
+    const normalized = PresaleCode.normalize(presaleCode);
+    let code: PresaleCode | null = null;
+
+    for (const presale of presales) {
+      code = await presaleRepository.findCode(presale.id, normalized);
+      if (code) break;
+    }
+
+    if (!code) {
+      throw new InvalidPresaleCodeError(eventId);
+    }
+
+    const redemption: PresaleRedemption = {
+      id: randomUUID(),
+      presaleCodeId: code.id,
+      eventId,
+      userId,
+      quantity: locks.reduce((sum, lock) => sum + lock.quantity, 0),
+      locks: locks.map(({ lockId, quantity }) => ({ lockId, quantity })),
+      createdAt: now,
+    };
+
+    // The repository takes the quota only if enough is left
+    if (!(await presaleRepository.redeem(code, redemption))) {
+      throw new PresaleQuotaExceededError(code.code, redemption.quantity);
+    }
+
+    return redemption;
+  }
+}
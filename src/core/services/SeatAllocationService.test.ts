@@ -0,0 +1,115 @@
+import { Seat, SeatStatus } from '@/core/domain/seat.entity';
+import { BatchConcurrencyError } from '@/core/errors/repository.errors';
+import { InMemorySeatRepository } from '@/infrastructure/repositories/InMemorySeatRepository';
+import { InMemoryOrderRepository } from '@/infrastructure/repositories/InMemoryOrderRepository';
+import { BookingService } from './BookingService';
+import {
+  SeatAllocationService,
+  CENTER_STRATEGY,
+  NoContiguousSeatsError,
+} from './SeatAllocationService';
+
+describe('SeatAllocationService', () => {
+  let seatRepository: InMemorySeatRepository;
+  let bookingService: BookingService;
+  let allocator: SeatAllocationService;
+
+  // Rows A-C of 6 seats each; row A is closest to the stage
+  const seat = (row: string, number: number, priceCategoryId = 'cat-a') =>
+    Seat.create({
+      id: `${row}${number}`,
+      eventId: 'event-1',
+      performanceId: 'perf-1',
+      seatNumber: `${row}-${number}`,
+      price: 100,
+      section: 'Floor',
+      row,
+      number,
+      priceCategory: { id: priceCategoryId, name: priceCategoryId },
+    });
+  const venue = () => ['A', 'B', 'C'].flatMap((row) => [1, 2, 3, 4, 5, 6].map((n) => seat(row, n)));
+  const ids = (seats: Seat[] | null) => seats?.map((current) => current.id);
+
+  beforeEach(() => {
+    seatRepository = new InMemorySeatRepository();
+    bookingService = new BookingService(seatRepository, new InMemoryOrderRepository(seatRepository));
+    allocator = new SeatAllocationService(seatRepository, bookingService);
+  });
+
+  describe('findBestSeats()', () => {
+    it('should pick the most central block of the front row', async () => {
+      seatRepository.seed(venue());
+
+      expect(ids(await allocator.findBestSeats('perf-1', 2))).toEqual(['A3', 'A4']);
+    });
+
+    it('should only pick contiguous seats', async () => {
+      // Row A only has 1-2 and 5-6 free; row B is fully free
+      seatRepository.seed(
+        venue().map((current) =>
+          current.id === 'A3' || current.id === 'A4' ? current.lock('someone') : current
+        )
+      );
+
+      expect(ids(await allocator.findBestSeats('perf-1', 3))).toEqual(['B2', 'B3', 'B4']);
+    });
+
+    it('should only pick seats of the requested category', async () => {
+      seatRepository.seed([
+        ...venue().filter((current) => current.row !== 'C'),
+        seat('C', 1, 'cat-b'),
+        seat('C', 2, 'cat-b'),
+      ]);
+
+      expect(ids(await allocator.findBestSeats('perf-1', 2, { priceCategoryId: 'cat-b' }))).toEqual(['C1', 'C2']);
+    });
+
+    it('should use the scoring strategy it was given', async () => {
+      allocator = new SeatAllocationService(seatRepository, bookingService, CENTER_STRATEGY);
+      seatRepository.seed(venue());
+
+      expect(ids(await allocator.findBestSeats('perf-1', 2))).toEqual(['B3', 'B4']);
+    });
+
+    it('should return null when no block is large enough', async () => {
+      seatRepository.seed([seat('A', 1), seat('A', 3)]);
+
+      await expect(allocator.findBestSeats('perf-1', 2)).resolves.toBeNull();
+    });
+  });
+
+  describe('lockBestAvailable()', () => {
+    it('should lock the chosen seats for the user', async () => {
+      // Arrange
+      seatRepository.seed(venue());
+
+      // Act
+      const locked = await allocator.lockBestAvailable('perf-1', 2, 'user-1');
+
+      // Assert
+      expect(ids(locked)).toEqual(['A3', 'A4']);
+      expect(locked.every((current) => current.status === SeatStatus.LOCKED)).toBe(true);
+      expect((await seatRepository.findById('A3'))?.isLockedBy('user-1')).toBe(true);
+    });
+
+    it('should move on to the next best block after losing the race', async () => {
+      // Arrange: another buyer takes A3/A4 between the read and the lock
+      seatRepository.seed(venue());
+      const saveAll = jest.spyOn(seatRepository, 'saveAll');
+      saveAll.mockRejectedValueOnce(new BatchConcurrencyError('Seat', ['A3']));
+
+      // Act
+      const locked = await allocator.lockBestAvailable('perf-1', 2, 'user-1');
+
+      // Assert
+      expect(ids(locked)).toEqual(['A1', 'A2']);
+      expect(saveAll).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw NoContiguousSeatsError when nothing fits', async () => {
+      seatRepository.seed([seat('A', 1)]);
+
+      await expect(allocator.lockBestAvailable('perf-1', 2, 'user-1')).rejects.toThrow(NoContiguousSeatsError);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { Seat } from '@/core/domain/seat.entity';
+import { ISeatRepository } from '@/core/interfaces/ISeatRepository';
+import { BatchConcurrencyError } from '@/core/errors/repository.errors';
+import { BookingService, SeatNotAvailableError } from './BookingService';
+
+/**
+ * Where a candidate block sits in its section
+ */
+export interface SeatBlockPosition {
+  readonly rowIndex: number;  // 0 for the row closest to the stage
+  readonly rowCount: number;  // Rows in the block's section
+  readonly rowCenter: number; // Middle seat number of the block's row
+}
+
+/**
+ * Scores a block of contiguous seats; the lowest score wins
+ */
+export interface SeatScoringStrategy {
+  score(block: readonly Seat[], position: SeatBlockPosition): number;
+}
+
+/**
+ * Closest row to the stage first, then closest to the middle of the row
+ */
+export const FRONT_CENTER_STRATEGY: SeatScoringStrategy = {
+  score(block, { rowIndex, rowCenter }) {
+    return rowIndex * 10_000 + distanceFromRowCenter(block, rowCenter);
+  },
+};
+
+/**
+ * Closest to the middle of the section, counting rows and seats alike
+ */
+export const CENTER_STRATEGY: SeatScoringStrategy = {
+  score(block, { rowIndex, rowCount, rowCenter }) {
+    return Math.hypot(rowIndex - (rowCount - 1) / 2, distanceFromRowCenter(block, rowCenter));
+  },
+};
+
+function distanceFromRowCenter(block: readonly Seat[], rowCenter: number): number {
+  const blockCenter = (block[0].number! + block[block.length - 1].number!) / 2;
+  return Math.abs(blockCenter - rowCenter);
+}
+
+/**
+ * How many times a best-available request picks another block after
+ * losing the race for the previous one
+ */
+export const MAX_ALLOCATION_ATTEMPTS = 3;
+
+/**
+ * Custom Error: No Contiguous Seats
+ */
+export class NoContiguousSeatsError extends Error {
+  constructor(performanceId: string, quantity: number, priceCategoryId?: string) {
+    const category = priceCategoryId ? ` in category ${priceCategoryId}` : '';
+    super(`No ${quantity} contiguous seats available${category} for performance ${performanceId}`);
+    this.name = 'NoContiguousSeatsError';
+  }
+}
+
+export interface SeatAllocationOptions {
+  readonly priceCategoryId?: string;
+  readonly presaleCode?: string; // Required while the event is in a presale
+}
+
+/**
+ * Seat Allocation Service
+ *
+ * Picks the best N contiguous AVAILABLE seats of a performance (same section
+ * and row, consecutive seat numbers) and locks them through
+ * BookingService.lockSeats, so the locks are all-or-nothing.
+ *
+ * Blocks are ranked by a pluggable SeatScoringStrategy. Row order comes
+ * from the row labels (numeric-aware, "A" or "1" is nearest the stage).
+ * Seats without a section, row and number are never allocated.
+ *
+ * @example
+ * ```typescript
+ * const allocator = new SeatAllocationService(seatRepository, bookingService, CENTER_STRATEGY);
+ * const seats = await allocator.lockBestAvailable('perf-1', 4, 'user-1', { priceCategoryId: 'evt-1-vip' });
+ * ```
+ */
+export class SeatAllocationService {
+  constructor(
+    private readonly seatRepository: ISeatRepository,
+    private readonly bookingService: BookingService,
+    private readonly strategy: SeatScoringStrategy = FRONT_CENTER_STRATEGY
+  ) {}
+
+  /**
+   * Finds the best block of contiguous seats without locking it
+   * @returns The seats ordered by seat number, or null if no block fits
+   */
+  async findBestSeats(
+    performanceId: string,
+    quantity: number,
+    options: SeatAllocationOptions = {}
+  ): Promise<Seat[] | null> {
+    const seats = await this.seatRepository.findByPerformanceId(performanceId);
+    return this.selectBestBlock(seats, quantity, options, new Set());
+  }
+
+  /**
+   * Finds and locks the best block of contiguous seats for a user
+   *
+   * If another buyer takes one of the chosen seats first, the block is
+   * skipped and the next best one is tried (up to MAX_ALLOCATION_ATTEMPTS).
+   *
+   * @param admittedEventId - Event the user was admitted to from the waiting room (if enforced)
+   * @returns The locked seats ordered by seat number
+   * @throws NoContiguousSeatsError if no block of `quantity` seats is available
+   * @throws SeatNotAdmittedError if the performance is not part of the admitted event
+   * @throws BatchConcurrencyError if every attempt lost the race
+   */
+  async lockBestAvailable(
+    performanceId: string,
+    quantity: number,
+    userId: string,
+    options: SeatAllocationOptions = {},
+    admittedEventId?: string
+  ): Promise<Seat[]> {
+    const skippedSeatIds = new Set<string>();
+
+    for (let attempt = 1; ; attempt++) {
+      const seats = await this.seatRepository.findByPerformanceId(performanceId);
+      const block = this.selectBestBlock(seats, quantity, options, skippedSeatIds);
+
+      if (!block) {
+        throw new NoContiguousSeatsError(performanceId, quantity, options.priceCategoryId);
+      }
+
+      try {
+        return await this.bookingService.lockSeats(
+          block.map((seat) => seat.id),
+          userId,
+          admittedEventId,
+          options.presaleCode
+        );
+      } catch (error) {
+        const lostRace = error instanceof BatchConcurrencyError || error instanceof SeatNotAvailableError;
+        if (!lostRace || attempt >= MAX_ALLOCATION_ATTEMPTS) {
+          throw error;
+        }
+        block.forEach((seat) => skippedSeatIds.add(seat.id));
+      }
+    }
+  }
+
+  /**
+   * Scores every window of `quantity` consecutive available seats in each row
+   */
+  private selectBestBlock(
+    seats: Seat[],
+    quantity: number,
+    { priceCategoryId }: SeatAllocationOptions,
+    skippedSeatIds: ReadonlySet<string>
+  ): Seat[] | null {
+    let best: { block: Seat[]; score: number } | null = null;
+
+    for (const rows of groupRowsBySection(seats).values()) {
+      const rowLabels = Array.from(rows.keys()).sort(compareLabels);
+
+      for (const [rowIndex, rowLabel] of rowLabels.entries()) {
+        const rowSeats = rows.get(rowLabel)!;
+        const position: SeatBlockPosition = {
+          rowIndex,
+          rowCount: rowLabels.length,
+          rowCenter: (rowSeats[0].number! + rowSeats[rowSeats.length - 1].number!) / 2,
+        };
+
+        const candidates = rowSeats.filter(
+          (seat) =>
+            seat.isAvailable() &&
+            !skippedSeatIds.has(seat.id) &&
+            (priceCategoryId === undefined || seat.priceCategory?.id === priceCategoryId)
+        );
+
+        for (let start = 0; start + quantity <= candidates.length; start++) {
+          const block = candidates.slice(start, start + quantity);
+          if (!isContiguous(block)) continue;
+
+          const score = this.strategy.score(block, position);
+          if (!best || score < best.score) {
+            best = { block, score };
+          }
+        }
+      }
+    }
+
+    return best?.block ?? null;
+  }
+}
+
+/**
+ * Groups seats with a full layout by section, then row, each row sorted by seat number
+ */
+function groupRowsBySection(seats: Seat[]): Map<string, Map<string, Seat[]>> {
+  const sections = new Map<string, Map<string, Seat[]>>();
+
+  for (const seat of seats) {
+    if (seat.section === null || seat.row === null || seat.number === null) continue;
+
+    const rows = sections.get(seat.section) ?? new Map<string, Seat[]>();
+    rows.set(seat.row, [...(rows.get(seat.row) ?? []), seat]);
+    sections.set(seat.section, rows);
+  }
+
+  for (const rows of sections.values()) {
+    for (const rowSeats of rows.values()) {
+      rowSeats.sort((a, b) => a.number! - b.number!);
+    }
+  }
+
+  return sections;
+}
+
+function isContiguous(block: Seat[]): boolean {
+  return block.every((seat, index) => index === 0 || seat.number === block[index - 1].number! + 1);
+}
+
+function compareLabels(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
@@ -0,0 +1,82 @@
+import { Seat } from '@/core/domain/seat.entity';
+import { InMemorySeatRepository } from '@/infrastructure/repositories/InMemorySeatRepository';
+import { TicketService, TicketNotFoundError } from './TicketService';
+
+describe('TicketService', () => {
+  let seatRepository: InMemorySeatRepository;
+  let ticketService: TicketService;
+
+  const dune = { id: 'event-1', title: 'Dune: Part Two', location: 'IMAX Hall 1' };
+  const concert = { id: 'event-2', title: 'Summer Concert', location: 'Stadium' };
+
+  const soldSeat = (id: string, performanceId: string, userId = 'user-1'): Seat =>
+    Seat.create({ id, eventId: performanceId.split(':')[0], performanceId, seatNumber: id, price: 50 })
+      .lock(userId)
+      .sell();
+
+  beforeEach(() => {
+    seatRepository = new InMemorySeatRepository();
+    seatRepository.seedShowtimes([
+      { performanceId: 'event-1:late', event: dune, startsAt: new Date('2026-03-02T20:00:00Z') },
+      { performanceId: 'event-1:early', event: dune, startsAt: new Date('2026-03-01T20:00:00Z') },
+      { performanceId: 'event-2:only', event: concert, startsAt: new Date('2026-02-01T20:00:00Z') },
+    ]);
+    ticketService = new TicketService(seatRepository);
+  });
+
+  describe('getTicketsByEvent()', () => {
+    it('should group the tickets by event, earliest showtime first', async () => {
+      // Arrange
+      seatRepository.seed([
+        soldSeat('A-1', 'event-1:late'),
+        soldSeat('C-1', 'event-2:only'),
+        soldSeat('B-1', 'event-1:early'),
+      ]);
+
+      // Act
+      const groups = await ticketService.getTicketsByEvent('user-1');
+
+      // Assert
+      expect(groups.map((group) => group.event.title)).toEqual(['Summer Concert', 'Dune: Part Two']);
+      expect(groups[1].tickets.map((ticket) => ticket.seat.id)).toEqual(['B-1', 'A-1']);
+    });
+
+    it("should leave out other users' and unsold seats", async () => {
+      // Arrange
+      seatRepository.seed([
+        soldSeat('A-1', 'event-1:early', 'user-2'),
+        Seat.create({ id: 'A-2', eventId: 'event-1', performanceId: 'event-1:early', seatNumber: 'A-2', price: 50 })
+          .lock('user-1'),
+      ]);
+
+      // Act & Assert
+      expect(await ticketService.getTicketsByEvent('user-1')).toEqual([]);
+    });
+
+    it('should follow the ticket to a transfer recipient', async () => {
+      // Arrange
+      seatRepository.seed([soldSeat('A-1', 'event-1:early').transferTo('user-2')]);
+
+      // Act & Assert
+      expect(await ticketService.getTicketsByEvent('user-1')).toEqual([]);
+      expect(await ticketService.getTicketsByEvent('user-2')).toHaveLength(1);
+    });
+  });
+
+  describe('getTicket()', () => {
+    it("should return one of the user's tickets", async () => {
+      seatRepository.seed([soldSeat('A-1', 'event-1:early')]);
+
+      const ticket = await ticketService.getTicket('user-1', 'A-1');
+
+      expect(ticket.event).toEqual(dune);
+      expect(ticket.startsAt).toEqual(new Date('2026-03-01T20:00:00Z'));
+    });
+
+    it("should throw TicketNotFoundError for someone else's ticket", async () => {
+      seatRepository.seed([soldSeat('A-1', 'event-1:early', 'user-2')]);
+
+      await expect(ticketService.getTicket('user-1', 'A-1')).rejects.toThrow(TicketNotFoundError);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { ISeatRepository, SoldTicket, TicketEvent } from '@/core/interfaces/ISeatRepository';
+
+/**
+ * Custom Error: Ticket not found (or owned by someone else)
+ */
+export class TicketNotFoundError extends Error {
+  constructor(seatId: string) {
+    super(`Ticket for seat ${seatId} not found`);
+    this.name = 'TicketNotFoundError';
+  }
+}
+
+/**
+ * A user's tickets for one event
+ */
+export interface EventTickets {
+  readonly event: TicketEvent;
+  readonly tickets: SoldTicket[]; // Earliest showtime first
+}
+
+/**
+ * Ticket Service
+ *
+ * Read side of what buyers own: the seats they hold as SOLD, whether
+ * bought, received by transfer or bought on resale. Refunded, transferred
+ * and resold seats are no longer theirs and drop out.
+ *
+ * @example
+ * ```typescript
+ * const tickets = new TicketService(seatRepo);
+ * const byEvent = await tickets.getTicketsByEvent('user-1');
+ * ```
+ */
+export class TicketService {
+  constructor(private readonly seatRepository: ISeatRepository) {}
+
+  /**
+   * Lists a user's tickets grouped by event, events with the earliest
+   * showtime first
+   */
+  async getTicketsByEvent(userId: string): Promise<EventTickets[]> {
+    const tickets = await this.seatRepository.findSoldByUserId(userId);
+    const groups = new Map<string, EventTickets>();
+
+    // Tickets come earliest first, so groups are created in showtime order
+    for (const ticket of tickets) {
+      const group = groups.get(ticket.event.id);
+
+      if (group) {
+        group.tickets.push(ticket);
+      } else {
+        groups.set(ticket.event.id, { event: ticket.event, tickets: [ticket] });
+      }
+    }
+
+    return Array.from(groups.values());
+  }
+
+  /**
+   * Gets one of a user's tickets
+   *
+   * @throws TicketNotFoundError if the user doesn't own the seat as SOLD
+   */
+  async getTicket(userId: string, seatId: string): Promise<SoldTicket> {
+    const tickets = await this.seatRepository.findSoldByUserId(userId);
+    const ticket = tickets.find((candidate) => candidate.seat.id === seatId);
+
+    if (!ticket) {
+      throw new TicketNotFoundError(seatId);
+    }
+
+    return ticket;
+  }
+}
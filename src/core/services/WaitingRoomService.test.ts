@@ -0,0 +1,83 @@
+import { InMemoryWaitingRoomQueue } from '@/infrastructure/cache/InMemoryWaitingRoomQueue';
+import { WaitingRoomService, NotInWaitingRoomError } from './WaitingRoomService';
+
+describe('WaitingRoomService', () => {
+  let waitingRoom: WaitingRoomService;
+
+  const start = new Date('2026-03-01T10:00:00Z');
+  const after = (ms: number) => new Date(start.getTime() + ms);
+
+  beforeEach(() => {
+    // 60 per minute = one admission per second
+    waitingRoom = new WaitingRoomService(new InMemoryWaitingRoomQueue(), 60);
+  });
+
+  describe('join()', () => {
+    it('should queue users in arrival order with an estimated wait', async () => {
+      // Act
+      await waitingRoom.join('event-1', 'user-1', start);
+      await waitingRoom.join('event-1', 'user-2', start);
+      const third = await waitingRoom.join('event-1', 'user-3', start);
+
+      // Assert
+      expect(third.admitted).toBe(false);
+      expect(third.position).toBe(3);
+      expect(third.estimatedWaitSeconds).toBe(3);
+    });
+
+    it('should keep the original place when joining again', async () => {
+      await waitingRoom.join('event-1', 'user-1', start);
+      await waitingRoom.join('event-1', 'user-2', start);
+
+      const again = await waitingRoom.join('event-1', 'user-1', start);
+
+      expect(again.position).toBe(1);
+    });
+
+    it('should keep queues separate per event', async () => {
+      await waitingRoom.join('event-1', 'user-1', start);
+
+      const other = await waitingRoom.join('event-2', 'user-2', start);
+
+      expect(other.position).toBe(1);
+    });
+  });
+
+  describe('getStatus()', () => {
+    it('should admit users at the configured rate', async () => {
+      // Arrange
+      await waitingRoom.join('event-1', 'user-1', start);
+      await waitingRoom.join('event-1', 'user-2', start);
+      await waitingRoom.join('event-1', 'user-3', start);
+
+      // Act
+      const first = await waitingRoom.getStatus('event-1', 'user-1', after(2500));
+      const third = await waitingRoom.getStatus('event-1', 'user-3', after(2500));
+
+      // Assert
+      expect(first.admitted).toBe(true);
+      expect(first.position).toBe(0);
+      expect(third.admitted).toBe(false);
+      expect(third.position).toBe(1);
+    });
+
+    it('should not bank capacity while nobody is waiting', async () => {
+      // Arrange: the queue drains, then sits idle for a minute
+      await waitingRoom.join('event-1', 'user-1', start);
+      await waitingRoom.getStatus('event-1', 'user-1', after(1000));
+
+      // Act: a rush arrives after the idle minute
+      await waitingRoom.join('event-1', 'user-2', after(61_000));
+      await waitingRoom.join('event-1', 'user-3', after(61_000));
+      const status = await waitingRoom.getStatus('event-1', 'user-3', after(62_000));
+
+      // Assert: only one admission per second, not sixty
+      expect(status.admitted).toBe(false);
+      expect(status.position).toBe(1);
+    });
+
+    it('should throw NotInWaitingRoomError for a user who never joined', async () => {
+      await expect(waitingRoom.getStatus('event-1', 'user-1', start)).rejects.toThrow(NotInWaitingRoomError);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { IWaitingRoomQueue, QueueTicket } from '@/core/interfaces/IWaitingRoomQueue';
+
+/**
+ * Default admission rate (users let through to the seat map per minute)
+ */
+export const DEFAULT_WAITING_ROOM_ADMITS_PER_MINUTE = 600;
+
+/**
+ * Custom Error: User has not joined the waiting room
+ */
+export class NotInWaitingRoomError extends Error {
+  constructor(eventId: string, userId: string) {
+    super(`User ${userId} is not in the waiting room for event ${eventId}`);
+    this.name = 'NotInWaitingRoomError';
+  }
+}
+
+/**
+ * A user's standing in an event's waiting room
+ */
+export interface WaitingRoomStatus {
+  readonly eventId: string;
+  readonly userId: string;
+  readonly admitted: boolean;
+  readonly position: number;              // Users ahead + 1 (0 once admitted)
+  readonly estimatedWaitSeconds: number;  // 0 once admitted
+}
+
+/**
+ * Waiting Room Service
+ *
+ * Meters access to an event's seat map during high-demand on-sales.
+ * Users join a first-come, first-served queue and are admitted at
+ * `admitsPerMinute`. Issuing the signed admission token is left to the
+ * API layer, so this service only deals with queue positions.
+ *
+ * @example
+ * ```typescript
+ * const waitingRoom = new WaitingRoomService(new RedisWaitingRoomQueue(), 600);
+ * const status = await waitingRoom.join('event-1', 'user-1');
+ * if (!status.admitted) console.log(`Position ${status.position}`);
+ * ```
+ */
+export class WaitingRoomService {
+  constructor(
+    private readonly queue: IWaitingRoomQueue,
+    private readonly admitsPerMinute: number = DEFAULT_WAITING_ROOM_ADMITS_PER_MINUTE
+  ) {}
+
+  /**
+   * Puts a user in the queue (joining again keeps the original place)
+   */
+  async join(eventId: string, userId: string, now: Date = new Date()): Promise<WaitingRoomStatus> {
+    const ticket = await this.queue.join(eventId, userId, this.admitsPerMinute, now);
+    return this.toStatus(eventId, userId, ticket);
+  }
+
+  /**
+   * Reports a user's current position
+   *
+   * @throws NotInWaitingRoomError if the user never joined
+   */
+  async getStatus(eventId: string, userId: string, now: Date = new Date()): Promise<WaitingRoomStatus> {
+    const ticket = await this.queue.findTicket(eventId, userId, this.admitsPerMinute, now);
+
+    if (!ticket) {
+      throw new NotInWaitingRoomError(eventId, userId);
+    }
+
+    return this.toStatus(eventId, userId, ticket);
+  }
+
+  private toStatus(eventId: string, userId: string, ticket: QueueTicket): WaitingRoomStatus {
+    const position = Math.max(0, ticket.number - ticket.admittedUpTo);
+
+    return {
+      eventId,
+      userId,
+      admitted: position === 0,
+      position,
+      estimatedWaitSeconds: Math.ceil((position * 60) / this.admitsPerMinute),
+    };
+  }
+}
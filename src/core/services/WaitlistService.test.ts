@@ -0,0 +1,176 @@
+import { Seat, SeatStatus } from '@/core/domain/seat.entity';
+import { WaitlistEntry, WaitlistStatus } from '@/core/domain/waitlist-entry.entity';
+import { SalesWindow, EventStatus } from '@/core/domain/sales-window.entity';
+import { EVENT_QUEUES } from '@/core/events';
+import { InMemorySeatRepository } from '@/infrastructure/repositories/InMemorySeatRepository';
+import { InMemoryWaitlistRepository } from '@/infrastructure/repositories/InMemoryWaitlistRepository';
+import { InMemorySalesWindowRepository } from '@/infrastructure/repositories/InMemorySalesWindowRepository';
+import {
+  WaitlistService,
+  AlreadyOnWaitlistError,
+  EventNotSoldOutError,
+  NoWaitlistOfferError,
+  WaitlistOfferExpiredError,
+} from './WaitlistService';
+
+describe('WaitlistService', () => {
+  let seatRepository: InMemorySeatRepository;
+  let waitlistRepository: InMemoryWaitlistRepository;
+  let waitlistService: WaitlistService;
+
+  const seat = (id: string) => Seat.create({ id, eventId: 'event-1', performanceId: 'perf-1', seatNumber: id.toUpperCase(), price: 100 });
+  const soldSeat = (id: string) => seat(id).lock('buyer').sell();
+  const waiting = (userId: string, createdAt: Date) =>
+    WaitlistEntry.create({ id: `wl-${userId}`, eventId: 'event-1', userId, createdAt });
+
+  beforeEach(() => {
+    seatRepository = new InMemorySeatRepository();
+    waitlistRepository = new InMemoryWaitlistRepository(seatRepository);
+    waitlistService = new WaitlistService(seatRepository, waitlistRepository);
+  });
+
+  describe('join()', () => {
+    it('should add the user to the back of the queue', async () => {
+      // Arrange
+      seatRepository.seed([soldSeat('a1')]);
+      waitlistRepository.seed([waiting('user-1', new Date(Date.now() - 1000))]);
+
+      // Act
+      const { entry, position } = await waitlistService.join('event-1', 'user-2');
+
+      // Assert
+      expect(entry.status).toBe(WaitlistStatus.WAITING);
+      expect(position).toBe(2);
+    });
+
+    it('should throw EventNotSoldOutError if a seat is still available', async () => {
+      seatRepository.seed([soldSeat('a1'), seat('a2')]);
+
+      await expect(waitlistService.join('event-1', 'user-1')).rejects.toThrow(EventNotSoldOutError);
+    });
+
+    it('should throw AlreadyOnWaitlistError if the user is already waiting', async () => {
+      seatRepository.seed([soldSeat('a1')]);
+      await waitlistService.join('event-1', 'user-1');
+
+      await expect(waitlistService.join('event-1', 'user-1')).rejects.toThrow(AlreadyOnWaitlistError);
+    });
+  });
+
+  describe('offerSeat()', () => {
+    it('should hold an available seat for the first user in line', async () => {
+      // Arrange
+      const publish = jest.fn().mockResolvedValue(undefined);
+      waitlistService = new WaitlistService(seatRepository, waitlistRepository, { publish });
+      seatRepository.seed([seat('a1')]);
+      waitlistRepository.seed([
+        waiting('user-2', new Date(Date.now() - 1000)),
+        waiting('user-1', new Date(Date.now() - 2000)),
+      ]);
+
+      // Act
+      const offered = await waitlistService.offerSeat('a1');
+
+      // Assert
+      expect(offered?.userId).toBe('user-1');
+      expect(offered?.status).toBe(WaitlistStatus.OFFERED);
+
+      const heldSeat = await seatRepository.findById('a1');
+      expect(heldSeat?.isLockedBy('user-1')).toBe(true);
+      expect(heldSeat?.lockExpiresAt).toEqual(offered?.offerExpiresAt);
+
+      expect(publish).toHaveBeenCalledWith(
+        EVENT_QUEUES.NOTIFICATION,
+        expect.objectContaining({ eventType: 'WAITLIST_OFFERED', userId: 'user-1', seatId: 'a1' })
+      );
+    });
+
+    it('should do nothing if the seat is no longer available', async () => {
+      seatRepository.seed([soldSeat('a1')]);
+      waitlistRepository.seed([waiting('user-1', new Date())]);
+
+      await expect(waitlistService.offerSeat('a1')).resolves.toBeNull();
+      expect((await waitlistRepository.findById('wl-user-1'))?.status).toBe(WaitlistStatus.WAITING);
+    });
+
+    it('should not offer seats of a cancelled event', async () => {
+      const salesWindowRepository = new InMemorySalesWindowRepository();
+      salesWindowRepository.seed([SalesWindow.create({ eventId: 'event-1', status: EventStatus.CANCELLED })]);
+      waitlistService = new WaitlistService(seatRepository, waitlistRepository, undefined, undefined, salesWindowRepository);
+      seatRepository.seed([seat('a1')]);
+      waitlistRepository.seed([waiting('user-1', new Date())]);
+
+      await expect(waitlistService.offerSeat('a1')).resolves.toBeNull();
+      expect((await seatRepository.findById('a1'))?.isAvailable()).toBe(true);
+    });
+
+    it('should expire a lapsed offer and pass the seat to the next user', async () => {
+      // Arrange: user-1 was offered a1 but the lock expired and was swept
+      seatRepository.seed([seat('a1')]);
+      waitlistRepository.seed([
+        waiting('user-1', new Date(Date.now() - 2000)).offer('a1', new Date(Date.now() - 1000)),
+        waiting('user-2', new Date(Date.now() - 1000)),
+      ]);
+
+      // Act
+      const offered = await waitlistService.offerSeat('a1');
+
+      // Assert
+      expect(offered?.userId).toBe('user-2');
+      expect((await waitlistRepository.findById('wl-user-1'))?.status).toBe(WaitlistStatus.EXPIRED);
+    });
+  });
+
+  describe('claim()', () => {
+    it('should claim an open offer', async () => {
+      // Arrange
+      seatRepository.seed([seat('a1')]);
+      waitlistRepository.seed([waiting('user-1', new Date())]);
+      await waitlistService.offerSeat('a1');
+
+      // Act
+      const { entry, seat: heldSeat } = await waitlistService.claim('event-1', 'user-1');
+
+      // Assert
+      expect(entry.status).toBe(WaitlistStatus.CLAIMED);
+      expect(heldSeat.status).toBe(SeatStatus.LOCKED);
+      expect(heldSeat.userId).toBe('user-1');
+    });
+
+    it('should throw NoWaitlistOfferError if nothing is on offer', async () => {
+      waitlistRepository.seed([waiting('user-1', new Date())]);
+
+      await expect(waitlistService.claim('event-1', 'user-1')).rejects.toThrow(NoWaitlistOfferError);
+    });
+
+    it('should throw WaitlistOfferExpiredError once the offer window has passed', async () => {
+      seatRepository.seed([seat('a1')]);
+      waitlistRepository.seed([waiting('user-1', new Date())]);
+      const offered = await waitlistService.offerSeat('a1');
+
+      await expect(
+        waitlistService.claim('event-1', 'user-1', new Date(offered!.offerExpiresAt!.getTime() + 1))
+      ).rejects.toThrow(WaitlistOfferExpiredError);
+    });
+  });
+
+  describe('leave()', () => {
+    it('should pass a held seat to the next user in line', async () => {
+      // Arrange
+      seatRepository.seed([seat('a1')]);
+      waitlistRepository.seed([
+        waiting('user-1', new Date(Date.now() - 2000)),
+        waiting('user-2', new Date(Date.now() - 1000)),
+      ]);
+      await waitlistService.offerSeat('a1');
+
+      // Act
+      const left = await waitlistService.leave('event-1', 'user-1');
+
+      // Assert
+      expect(left.status).toBe(WaitlistStatus.LEFT);
+      expect((await seatRepository.findById('a1'))?.isLockedBy('user-2')).toBe(true);
+      expect((await waitlistRepository.findById('wl-user-2'))?.status).toBe(WaitlistStatus.OFFERED);
+    });
+  });
+});
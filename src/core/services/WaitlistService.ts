@@ -0,0 +1,292 @@
+import { randomUUID } from 'crypto';
+import { Seat } from '@/core/domain/seat.entity';
+import { WaitlistEntry } from '@/core/domain/waitlist-entry.entity';
+import { ISeatRepository } from '@/core/interfaces/ISeatRepository';
+import { ISalesWindowRepository } from '@/core/interfaces/ISalesWindowRepository';
+import { IWaitlistRepository } from '@/core/interfaces/IWaitlistRepository';
+import { IEventPublisher } from '@/core/interfaces/IEventPublisher';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { EVENT_QUEUES, createWaitlistOfferedEvent } from '@/core/events';
+
+/**
+ * How long a waitlisted user has to claim an offered seat (10 minutes)
+ */
+export const DEFAULT_WAITLIST_OFFER_DURATION_MS = 10 * 60 * 1000;
+
+/**
+ * Custom Error: Event still has seats on sale
+ */
+export class EventNotSoldOutError extends Error {
+  constructor(eventId: string) {
+    super(`Event ${eventId} is not sold out`);
+    this.name = 'EventNotSoldOutError';
+  }
+}
+
+/**
+ * Custom Error: User is already on the waitlist
+ */
+export class AlreadyOnWaitlistError extends Error {
+  constructor(eventId: string, userId: string) {
+    super(`User ${userId} is already on the waitlist for event ${eventId}`);
+    this.name = 'AlreadyOnWaitlistError';
+  }
+}
+
+/**
+ * Custom Error: User is not on the waitlist
+ */
+export class WaitlistEntryNotFoundError extends Error {
+  constructor(eventId: string, userId: string) {
+    super(`User ${userId} is not on the waitlist for event ${eventId}`);
+    this.name = 'WaitlistEntryNotFoundError';
+  }
+}
+
+/**
+ * Custom Error: User has no seat on offer
+ */
+export class NoWaitlistOfferError extends Error {
+  constructor(eventId: string, userId: string) {
+    super(`User ${userId} has no waitlist offer for event ${eventId}`);
+    this.name = 'NoWaitlistOfferError';
+  }
+}
+
+/**
+ * Custom Error: Offer window has passed
+ */
+export class WaitlistOfferExpiredError extends Error {
+  constructor(entryId: string) {
+    super(`Waitlist offer ${entryId} has expired`);
+    this.name = 'WaitlistOfferExpiredError';
+  }
+}
+
+/**
+ * A waitlist entry with the user's place in the queue (1 = next)
+ */
+export interface WaitlistPosition {
+  readonly entry: WaitlistEntry;
+  readonly position: number;
+}
+
+/**
+ * Result of claiming an offer
+ */
+export interface WaitlistClaim {
+  readonly entry: WaitlistEntry;
+  readonly seat: Seat;
+}
+
+/**
+ * Waitlist Service
+ *
+ * Manages per-event queues for sold-out events.
+ *
+ * When a seat comes back on sale (release, lock expiry, refund), the worker
+ * calls offerSeat(). The seat is LOCKED for the next waitlisted user for the
+ * offer window, so nobody else can take it. The user claims the offer and
+ * completes the purchase through the regular payment confirmation.
+ * If the offer isn't taken, the lock expires, the sweeper releases the
+ * seat and it is offered to the next user in line.
+ *
+ * @example
+ * ```typescript
+ * const waitlist = new WaitlistService(seatRepo, waitlistRepo, eventPublisher);
+ * await waitlist.join('event-1', 'user-1');
+ * await waitlist.offerSeat('seat-1'); // from the worker
+ * await waitlist.claim('event-1', 'user-1');
+ * ```
+ */
+export class WaitlistService {
+  constructor(
+    private readonly seatRepository: ISeatRepository,
+    private readonly waitlistRepository: IWaitlistRepository,
+    private readonly eventPublisher?: IEventPublisher,
+    private readonly offerDurationMs: number = DEFAULT_WAITLIST_OFFER_DURATION_MS,
+    private readonly salesWindowRepository?: ISalesWindowRepository
+  ) {}
+
+  /**
+   * Adds a user to the back of an event's waitlist
+   *
+   * @throws AlreadyOnWaitlistError if the user is already waiting or holds an offer
+   * @throws EventNotSoldOutError if any seat is still AVAILABLE
+   */
+  async join(eventId: string, userId: string): Promise<WaitlistPosition> {
+    const existing = await this.waitlistRepository.findActiveByEventAndUser(eventId, userId);
+
+    if (existing) {
+      throw new AlreadyOnWaitlistError(eventId, userId);
+    }
+
+    const seats = await this.seatRepository.findByEventId(eventId);
+
+    if (seats.length === 0 || seats.some((seat) => seat.isAvailable())) {
+      throw new EventNotSoldOutError(eventId);
+    }
+
+    const entry = WaitlistEntry.create({ id: randomUUID(), eventId, userId });
+    await this.waitlistRepository.save(entry);
+
+    console.log(`📝 User ${userId} joined the waitlist for event ${eventId}`);
+
+    const ahead = await this.waitlistRepository.countWaitingBefore(eventId, entry.createdAt);
+    return { entry, position: ahead + 1 };
+  }
+
+  /**
+   * Removes a user from an event's waitlist
+   *
+   * A seat held for the user is released and offered to the next in line.
+   *
+   * @throws WaitlistEntryNotFoundError if the user is not on the waitlist
+   */
+  async leave(eventId: string, userId: string): Promise<WaitlistEntry> {
+    const entry = await this.waitlistRepository.findActiveByEventAndUser(eventId, userId);
+
+    if (!entry) {
+      throw new WaitlistEntryNotFoundError(eventId, userId);
+    }
+
+    const leftEntry = entry.leave();
+    const heldSeat = entry.seatId ? await this.seatRepository.findById(entry.seatId) : null;
+
+    if (heldSeat && heldSeat.isLockedBy(userId)) {
+      await this.waitlistRepository.saveWithSeat(leftEntry, heldSeat.release());
+      await this.offerSeat(heldSeat.id);
+    } else {
+      await this.waitlistRepository.save(leftEntry);
+    }
+
+    console.log(`👋 User ${userId} left the waitlist for event ${eventId}`);
+
+    return leftEntry;
+  }
+
+  /**
+   * Accepts the seat offered to a user
+   *
+   * The seat stays LOCKED for the user until the offer expires;
+   * the purchase is completed with BookingService.confirmSale().
+   *
+   * @throws NoWaitlistOfferError if the user has no open offer
+   * @throws WaitlistOfferExpiredError if the offer window has passed
+   */
+  async claim(eventId: string, userId: string, now: Date = new Date()): Promise<WaitlistClaim> {
+    const entry = await this.waitlistRepository.findActiveByEventAndUser(eventId, userId);
+
+    if (!entry || !entry.isOffered() || !entry.seatId) {
+      throw new NoWaitlistOfferError(eventId, userId);
+    }
+
+    const seat = await this.seatRepository.findById(entry.seatId);
+
+    if (entry.isOfferExpired(now) || !seat || !seat.isLockedBy(userId)) {
+      throw new WaitlistOfferExpiredError(entry.id);
+    }
+
+    const claimedEntry = entry.claim(now);
+    await this.waitlistRepository.save(claimedEntry);
+
+    console.log(`🎟️ User ${userId} claimed waitlist offer for Seat ${seat.seatNumber}`);
+
+    return { entry: claimedEntry, seat };
+  }
+
+  /**
+   * Offers a seat that came back on sale to the next waitlisted user
+   *
+   * Safe to call for any seat: does nothing if the seat isn't AVAILABLE,
+   * its event is off sale or nobody is waiting. An earlier offer that lost this seat is expired.
+   *
+   * @returns The entry that received the offer, or null
+   */
+  async offerSeat(seatId: string): Promise<WaitlistEntry | null> {
+    const seat = await this.seatRepository.findById(seatId);
+
+    if (!seat) {
+      return null;
+    }
+
+    await this.expireLostOffer(seat);
+
+    if (!seat.isAvailable()) {
+      return null;
+    }
+
+    // Seats of an event that is off sale (e.g. cancelled) aren't offered to anyone
+    const window = await this.salesWindowRepository?.findByEventId(seat.eventId);
+    if (window && !window.isOpen()) {
+      return null;
+    }
+
+    const next = await this.waitlistRepository.findNextWaiting(seat.eventId);
+
+    if (!next) {
+      return null;
+    }
+
+    const heldSeat = seat.lock(next.userId, this.offerDurationMs);
+    const offeredEntry = next.offer(seat.id, heldSeat.lockExpiresAt!);
+
+    try {
+      await this.waitlistRepository.saveWithSeat(offeredEntry, heldSeat);
+    } catch (err) {
+      // Someone bought the seat (or the entry changed) in the meantime
+      if (err instanceof ConcurrencyError) {
+        return null;
+      }
+      throw err;
+    }
+
+    console.log(`📣 Seat ${seat.seatNumber} offered to waitlisted user ${next.userId}`);
+
+    await this.publishWaitlistOffered(offeredEntry, heldSeat);
+
+    return offeredEntry;
+  }
+
+  /**
+   * Expires the offer that held this seat if its user no longer holds it
+   */
+  private async expireLostOffer(seat: Seat): Promise<void> {
+    const offeredEntry = await this.waitlistRepository.findOfferedBySeatId(seat.id);
+
+    if (!offeredEntry || seat.isLockedBy(offeredEntry.userId)) {
+      return;
+    }
+
+    try {
+      await this.waitlistRepository.save(offeredEntry.expire());
+    } catch (err) {
+      // The user claimed or left at the same moment - nothing to expire
+      if (!(err instanceof ConcurrencyError)) {
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * Publishes a WaitlistOfferedEvent (failures are logged, never thrown)
+   */
+  private async publishWaitlistOffered(entry: WaitlistEntry, seat: Seat): Promise<void> {
+    if (!this.eventPublisher) return;
+
+    const event = createWaitlistOfferedEvent({
+      entryId: entry.id,
+      eventId: entry.eventId,
+      userId: entry.userId,
+      seatId: seat.id,
+      seatNumber: seat.seatNumber,
+      offerExpiresAt: entry.offerExpiresAt!,
+    });
+
+    try {
+      await this.eventPublisher.publish(EVENT_QUEUES.NOTIFICATION, event);
+    } catch (err) {
+      console.error('[WaitlistService] Failed to publish WaitlistOfferedEvent:', err);
+    }
+  }
+}
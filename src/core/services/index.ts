@@ -7,4 +7,110 @@ export {
   SeatNotFoundError,
   SeatNotAvailableError,
   UnauthorizedLockError,
+  LockExpiredError,
+  SeatNotRefundableError,
+  OrderNotFoundError,
+  SeatNotHeldError,
+  EventNotOnSaleError,
+  PresaleCodeRequiredError,
+  InvalidPresaleCodeError,
+  PresaleQuotaExceededError,
 } from './BookingService';
+export type { SaleConfirmation, RefundResult } from './BookingService';
+
+export { SaleAuthorizer } from './SaleAuthorizer';
+export type { SaleLock } from './SaleAuthorizer';
+
+export { LockExpirySweeper } from './LockExpirySweeper';
+
+export {
+  IdempotencyService,
+  IdempotencyKeyReusedError,
+  IdempotentRequestInProgressError,
+  DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+} from './IdempotencyService';
+export type { StoredResponse } from './IdempotencyService';
+
+export {
+  WaitlistService,
+  EventNotSoldOutError,
+  AlreadyOnWaitlistError,
+  WaitlistEntryNotFoundError,
+  NoWaitlistOfferError,
+  WaitlistOfferExpiredError,
+  DEFAULT_WAITLIST_OFFER_DURATION_MS,
+} from './WaitlistService';
+export type { WaitlistPosition, WaitlistClaim } from './WaitlistService';
+
+export {
+  SeatAllocationService,
+  NoContiguousSeatsError,
+  FRONT_CENTER_STRATEGY,
+  CENTER_STRATEGY,
+  MAX_ALLOCATION_ATTEMPTS,
+} from './SeatAllocationService';
+export type { SeatScoringStrategy, SeatBlockPosition, SeatAllocationOptions } from './SeatAllocationService';
+
+export {
+  GeneralAdmissionService,
+  GaZoneNotFoundError,
+  GaZoneNotAdmittedError,
+  GaCapacityExceededError,
+  GaReservationNotFoundError,
+  GaReservationNotOwnedError,
+  GaReservationNotLockedError,
+  GaReservationExpiredError,
+  GaReservationNotRefundableError,
+} from './GeneralAdmissionService';
+export type { GaPurchaseConfirmation } from './GeneralAdmissionService';
+
+export {
+  PerformanceService,
+  EventNotFoundError,
+  PerformanceNotFoundError,
+  SeatTemplateNotFoundError,
+  PriceCategoryMismatchError,
+} from './PerformanceService';
+
+export {
+  EventCancellationService,
+  EventAlreadyCancelledError,
+  EventCancellationNotFoundError,
+  DEFAULT_REFUND_BATCH_SIZE,
+} from './EventCancellationService';
+export type { EventCancellationResult, RefundBatch, RefundBatchResult } from './EventCancellationService';
+
+export {
+  AuthService,
+  EmailAlreadyRegisteredError,
+  InvalidCredentialsError,
+  UserNotFoundError,
+} from './AuthService';
+
+export {
+  GuestCheckoutService,
+  VerificationCodeExpiredError,
+  InvalidVerificationCodeError,
+  VerificationResendTooSoonError,
+  VerificationLimitReachedError,
+  DEFAULT_VERIFICATION_CODE_TTL_SECONDS,
+  MAX_VERIFICATION_ATTEMPTS,
+  MAX_VERIFICATION_CODES,
+  RESEND_COOLDOWN_SECONDS,
+} from './GuestCheckoutService';
+export type { GuestCheckout } from './GuestCheckoutService';
+
+export { TicketService, TicketNotFoundError } from './TicketService';
+export type { EventTickets } from './TicketService';
+
+export {
+  ApiKeyService,
+  InvalidApiKeyError,
+  ApiKeyScopeError,
+  ApiKeyNotFoundError,
+  API_KEY_PREFIX,
+} from './ApiKeyService';
+export type { CreatedApiKey } from './ApiKeyService';
+
+export { EventService, InvalidEventError, EventHasSalesError } from './EventService';
+export type { EventSeating, CreateEventParams, CreatedEvent, RescheduledEvent } from './EventService';
@@ -0,0 +1,52 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { IPasswordHasher } from '@/core/interfaces/IPasswordHasher';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+/**
+ * Scrypt Password Hasher
+ *
+ * Hashes passwords with Node's built-in scrypt (default cost parameters)
+ * and a random 16-byte salt per password. Stored as:
+ *
+ *   scrypt$<base64 salt>$<base64 key>
+ *
+ * @example
+ * ```typescript
+ * const hasher = new ScryptPasswordHasher();
+ * const passwordHash = await hasher.hash('correct horse');
+ * await hasher.verify('correct horse', passwordHash); // true
+ * ```
+ */
+export class ScryptPasswordHasher implements IPasswordHasher {
+  async hash(password: string): Promise<string> {
+    const salt = randomBytes(SALT_BYTES);
+    const key = await scryptAsync(password, salt, KEY_LENGTH);
+
+    return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+  }
+
+  async verify(password: string, passwordHash: string): Promise<boolean> {
+    const [scheme, encodedSalt, encodedKey, ...rest] = passwordHash.split('$');
+
+    if (scheme !== 'scrypt' || !encodedSalt || !encodedKey || rest.length > 0) {
+      return false;
+    }
+
+    const expected = Buffer.from(encodedKey, 'base64');
+    if (expected.length !== KEY_LENGTH) {
+      return false;
+    }
+
+    const actual = await scryptAsync(password, Buffer.from(encodedSalt, 'base64'), KEY_LENGTH);
+    return timingSafeEqual(expected, actual);
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Auth Infrastructure Exports
+ */
+
+export { ScryptPasswordHasher } from './ScryptPasswordHasher';
@@ -0,0 +1,11 @@
+/**
+ * Cache Key Generators
+ * 
+ * Shared by every repository decorator that reads or invalidates
+ * the same cache entries, so keys never drift apart.
+ */
+export const CACHE_KEYS = {
+  seat: (id: string) => `seat:${id}`,
+  performanceSeats: (performanceId: string) => `performance:${performanceId}:seats`,
+  eventResaleListings: (eventId: string) => `event:${eventId}:resale-listings`,
+} as const;
@@ -0,0 +1,77 @@
+import { IWaitingRoomQueue, QueueTicket } from '@/core/interfaces/IWaitingRoomQueue';
+
+interface QueueState {
+  seq: number;
+  admitted: number;
+  updatedAt: number;
+  tickets: Map<string, number>;
+}
+
+/**
+ * In-Memory Waiting Room Queue
+ * 
+ * Test implementation of IWaitingRoomQueue.
+ * Mirrors the admission arithmetic of the Redis Lua script.
+ */
+export class InMemoryWaitingRoomQueue implements IWaitingRoomQueue {
+  private readonly queues = new Map<string, QueueState>();
+
+  async join(eventId: string, userId: string, admitsPerMinute: number, now: Date): Promise<QueueTicket> {
+    const state = this.getState(eventId, now);
+    let number = state.tickets.get(userId);
+
+    if (number === undefined) {
+      this.advance(state, admitsPerMinute, now);
+      number = ++state.seq;
+      state.tickets.set(userId, number);
+    }
+
+    return { number, admittedUpTo: this.advance(state, admitsPerMinute, now) };
+  }
+
+  async findTicket(
+    eventId: string,
+    userId: string,
+    admitsPerMinute: number,
+    now: Date
+  ): Promise<QueueTicket | null> {
+    const state = this.queues.get(eventId);
+    const number = state?.tickets.get(userId);
+
+    if (!state || number === undefined) return null;
+    return { number, admittedUpTo: this.advance(state, admitsPerMinute, now) };
+  }
+
+  /**
+   * Clears all queues (useful for tests)
+   */
+  clear(): void {
+    this.queues.clear();
+  }
+
+  private getState(eventId: string, now: Date): QueueState {
+    let state = this.queues.get(eventId);
+    if (!state) {
+      state = { seq: 0, admitted: 0, updatedAt: now.getTime(), tickets: new Map() };
+      this.queues.set(eventId, state);
+    }
+    return state;
+  }
+
+  private advance(state: QueueState, admitsPerMinute: number, now: Date): number {
+    const perMs = admitsPerMinute / 60000;
+
+    // Nobody waiting: don't bank capacity for the next rush
+    if (state.admitted >= state.seq) {
+      state.updatedAt = now.getTime();
+      return state.admitted;
+    }
+
+    const add = Math.floor((now.getTime() - state.updatedAt) * perMs);
+    if (add > 0) {
+      state.admitted = Math.min(state.seq, state.admitted + add);
+      state.updatedAt += add / perMs;
+    }
+    return state.admitted;
+  }
+}
@@ -17,8 +17,10 @@ const globalForRedis = globalThis as unknown as {
 
 /**
  * Creates or returns the singleton Redis client
+ * 
+ * Shared with other Redis-backed infrastructure (e.g. the waiting room queue).
  */
-function getRedisClient(): Redis {
+export function getRedisClient(): Redis {
   if (!globalForRedis.redis) {
     const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
     
@@ -78,6 +80,32 @@ export class RedisService implements ICache {
     }
   }
 
+  async setIfAbsent<T>(key: string, value: T, ttlSeconds?: number): Promise<boolean> {
+    try {
+      const ttl = ttlSeconds ?? this.defaultTtl;
+      const serialized = JSON.stringify(value);
+      const result = await this.redis.set(key, serialized, 'EX', ttl, 'NX');
+      return result === 'OK';
+    } catch (error) {
+      console.error(`[Redis] Error setting key ${key} if absent:`, error);
+      return true; // Graceful degradation - behave as if Redis were not there
+    }
+  }
+
+  async increment(key: string, ttlSeconds?: number): Promise<number> {
+    try {
+      const ttl = ttlSeconds ?? this.defaultTtl;
+      // INCR and EXPIRE in one MULTI, so the counter never outlives its TTL
+      const results = await this.redis.multi().incr(key).expire(key, ttl).exec();
+      const [error, count] = results?.[0] ?? [new Error('Transaction aborted'), null];
+      if (error) throw error;
+      return count as number;
+    } catch (error) {
+      console.error(`[Redis] Error incrementing key ${key}:`, error);
+      throw error; // No graceful degradation - the caller can't count safely without Redis
+    }
+  }
+
   async delete(key: string): Promise<void> {
     try {
       await this.redis.del(key);
@@ -0,0 +1,110 @@
+/**
+ * Redis Waiting Room Queue
+ * 
+ * Implementation of IWaitingRoomQueue on the shared Redis client.
+ * 
+ * Per event, two hashes are kept:
+ * - waiting-room:{eventId}:state   → seq (last ticket), admitted (pointer), updatedAt (ms)
+ * - waiting-room:{eventId}:tickets → userId → ticket number
+ * 
+ * Both operations run as a single Lua script, so ticket issuing and
+ * pointer advancement are atomic across all app instances.
+ */
+
+import Redis from 'ioredis';
+import { IWaitingRoomQueue, QueueTicket } from '@/core/interfaces/IWaitingRoomQueue';
+import { getRedisClient } from './RedisService';
+
+/**
+ * Queue keys expire after 6 hours without activity
+ */
+const QUEUE_TTL_SECONDS = 6 * 60 * 60;
+
+/**
+ * KEYS[1] = state hash, KEYS[2] = tickets hash
+ * ARGV[1] = now (ms), ARGV[2] = admits per minute, ARGV[3] = userId,
+ * ARGV[4] = '1' to issue a ticket if missing, ARGV[5] = TTL (seconds)
+ * 
+ * Returns { ticket (0 = none), admittedUpTo }
+ */
+const QUEUE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local perMs = tonumber(ARGV[2]) / 60000
+
+local function advance()
+  local seq = tonumber(redis.call('HGET', KEYS[1], 'seq') or '0')
+  local admitted = tonumber(redis.call('HGET', KEYS[1], 'admitted') or '0')
+  local updatedAt = tonumber(redis.call('HGET', KEYS[1], 'updatedAt') or ARGV[1])
+
+  -- Nobody waiting: don't bank capacity for the next rush
+  if admitted >= seq then
+    redis.call('HSET', KEYS[1], 'updatedAt', now)
+    return admitted
+  end
+
+  local add = math.floor((now - updatedAt) * perMs)
+  if add > 0 then
+    admitted = math.min(seq, admitted + add)
+    redis.call('HSET', KEYS[1], 'admitted', admitted, 'updatedAt', updatedAt + add / perMs)
+  end
+  return admitted
+end
+
+local ticket = redis.call('HGET', KEYS[2], ARGV[3])
+if not ticket and ARGV[4] == '1' then
+  advance()
+  ticket = redis.call('HINCRBY', KEYS[1], 'seq', 1)
+  redis.call('HSET', KEYS[2], ARGV[3], ticket)
+end
+
+local admittedUpTo = advance()
+redis.call('EXPIRE', KEYS[1], ARGV[5])
+redis.call('EXPIRE', KEYS[2], ARGV[5])
+
+return { tonumber(ticket or '0'), admittedUpTo }
+`;
+
+export class RedisWaitingRoomQueue implements IWaitingRoomQueue {
+  private readonly redis: Redis;
+
+  constructor() {
+    this.redis = getRedisClient();
+  }
+
+  async join(eventId: string, userId: string, admitsPerMinute: number, now: Date): Promise<QueueTicket> {
+    const ticket = await this.run(eventId, userId, admitsPerMinute, now, true);
+    return ticket!;
+  }
+
+  async findTicket(
+    eventId: string,
+    userId: string,
+    admitsPerMinute: number,
+    now: Date
+  ): Promise<QueueTicket | null> {
+    return this.run(eventId, userId, admitsPerMinute, now, false);
+  }
+
+  private async run(
+    eventId: string,
+    userId: string,
+    admitsPerMinute: number,
+    now: Date,
+    issue: boolean
+  ): Promise<QueueTicket | null> {
+    const [number, admittedUpTo] = (await this.redis.eval(
+      QUEUE_SCRIPT,
+      2,
+      `waiting-room:${eventId}:state`,
+      `waiting-room:${eventId}:tickets`,
+      now.getTime(),
+      admitsPerMinute,
+      userId,
+      issue ? '1' : '0',
+      QUEUE_TTL_SECONDS
+    )) as [number, number];
+
+    if (number === 0) return null;
+    return { number, admittedUpTo };
+  }
+}
@@ -3,3 +3,6 @@
  */
 
 export { RedisService, redisService } from './RedisService';
+export { CACHE_KEYS } from './CacheKeys';
+export { RedisWaitingRoomQueue } from './RedisWaitingRoomQueue';
+export { InMemoryWaitingRoomQueue } from './InMemoryWaitingRoomQueue';
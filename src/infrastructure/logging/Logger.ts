@@ -5,6 +5,7 @@
  * - JSON formatted logs for production
  * - Colored console logs for development
  * - Automatic correlation ID injection from AsyncLocalStorage
+ * - Partner ID on every log of a partner API key request
  * - Timestamp on every log entry
  */
 
@@ -19,6 +20,10 @@ const correlationIdFormat = winston.format((info) => {
   info.correlationId = context?.correlationId ?? getCorrelationId();
   info.path = context?.path;
   info.method = context?.method;
+  if (context?.partner) {
+    info.partnerId = context.partner.partnerId;
+    info.apiKeyId = context.partner.apiKeyId;
+  }
   return info;
 });
 
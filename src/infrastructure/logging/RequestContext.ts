@@ -11,6 +11,14 @@
 import { AsyncLocalStorage } from 'async_hooks';
 import { v4 as uuidv4 } from 'uuid';
 
+/**
+ * Partner calling with an API key (see lib/api/partner)
+ */
+export interface RequestPartner {
+  readonly partnerId: string;
+  readonly apiKeyId: string;
+}
+
 /**
  * Context data stored per request
  */
@@ -19,6 +27,7 @@ export interface RequestContext {
   startTime: Date;
   path?: string;
   method?: string;
+  partner?: RequestPartner;  // Set for requests made with a partner API key
 }
 
 /**
@@ -43,6 +52,14 @@ export function getCorrelationId(): string {
   return context?.correlationId ?? uuidv4();
 }
 
+/**
+ * Gets the partner acting in the current request
+ * Returns undefined outside a request context or for non-partner requests
+ */
+export function getPartner(): RequestPartner | undefined {
+  return getContext()?.partner;
+}
+
 /**
  * Runs a function within a new request context
  * 
@@ -63,6 +80,7 @@ export function createContext(overrides?: Partial<RequestContext>): RequestConte
     startTime: overrides?.startTime ?? new Date(),
     path: overrides?.path,
     method: overrides?.method,
+    partner: overrides?.partner,
   };
 }
 
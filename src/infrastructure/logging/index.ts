@@ -6,8 +6,10 @@ export { logger } from './Logger';
 export {
   getContext,
   getCorrelationId,
+  getPartner,
   runWithContext,
   runWithCorrelationId,
   createContext,
   type RequestContext,
+  type RequestPartner,
 } from './RequestContext';
@@ -1,7 +1,7 @@
 import { DomainEvent } from '@/core/events/DomainEvent';
 import { IEventPublisher } from '@/core/interfaces/IEventPublisher';
 import { RabbitMQClient } from './RabbitMQClient';
-import { getCorrelationId } from '@/infrastructure/logging/RequestContext';
+import { getCorrelationId, getPartner } from '@/infrastructure/logging/RequestContext';
 import { logger } from '@/infrastructure/logging/Logger';
 
 /**
@@ -11,6 +11,7 @@ import { logger } from '@/infrastructure/logging/Logger';
  * Features:
  * - Fire-and-forget pattern (non-blocking)
  * - Automatic correlation ID propagation via message headers
+ * - Partner ID recorded on events triggered by a partner API key
  */
 export class RabbitMQEventPublisher implements IEventPublisher {
   constructor(private readonly client: RabbitMQClient) {}
@@ -20,17 +21,23 @@ export class RabbitMQEventPublisher implements IEventPublisher {
    * 
    * The correlation ID is automatically extracted from the current
    * request context (AsyncLocalStorage) and added to message headers.
-   * This allows the worker to trace the request.
+   * This allows the worker to trace the request. Events published
+   * during a partner API key request carry the partner's ID the same way.
    */
   async publish(queue: string, event: DomainEvent): Promise<void> {
     try {
       // Get correlation ID from current request context
       const correlationId = event.correlationId ?? getCorrelationId();
+
+      // Record the partner acting in this request, if any, on the event itself
+      const partnerId = event.partnerId ?? getPartner()?.partnerId;
+      const message = partnerId ? { ...event, partnerId } : event;
       
-      // Publish with correlation ID in headers
-      await this.client.publish(queue, event, {
+      // Publish with correlation ID (and partner ID) in headers
+      await this.client.publish(queue, message, {
         headers: {
           'x-correlation-id': correlationId,
+          ...(partnerId && { 'x-partner-id': partnerId }),
         },
       });
       
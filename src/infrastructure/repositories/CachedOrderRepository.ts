@@ -0,0 +1,63 @@
+/**
+ * Cached Order Repository (Decorator Pattern)
+ *
+ * Orders themselves are not cached (they are read rarely and must be exact),
+ * but saving an order also changes seats. This decorator invalidates the
+ * affected seat cache entries after the transaction commits, the same way
+ * CachedSeatRepository does for direct seat writes.
+ */
+
+import { Order } from '@/core/domain/order.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { IOrderRepository } from '@/core/interfaces/IOrderRepository';
+import { ICache } from '@/core/interfaces/ICache';
+import { CACHE_KEYS } from '@/infrastructure/cache/CacheKeys';
+
+/**
+ * Cached Order Repository
+ *
+ * @example
+ * ```typescript
+ * const orderRepo = new PrismaOrderRepository(prisma, prismaSeatRepo);
+ * const cachedOrderRepo = new CachedOrderRepository(orderRepo, redisService);
+ * ```
+ */
+export class CachedOrderRepository implements IOrderRepository {
+  constructor(
+    private readonly repository: IOrderRepository,
+    private readonly cache: ICache
+  ) {}
+
+  async findById(id: string): Promise<Order | null> {
+    return this.repository.findById(id);
+  }
+
+  async findByUserId(userId: string): Promise<Order[]> {
+    return this.repository.findByUserId(userId);
+  }
+
+  async findActiveBySeatId(seatId: string): Promise<Order | null> {
+    return this.repository.findActiveBySeatId(seatId);
+  }
+
+  async findActiveByGaReservationId(reservationId: string): Promise<Order | null> {
+    return this.repository.findActiveByGaReservationId(reservationId);
+  }
+
+  /**
+   * Save order + seats, then INVALIDATE the seat caches
+   */
+  async saveWithSeats(order: Order, seats: Seat[]): Promise<Order> {
+    const savedOrder = await this.repository.saveWithSeats(order, seats);
+
+    const performanceIds = new Set(seats.map((seat) => seat.performanceId));
+    await Promise.all([
+      ...seats.map((seat) => this.cache.delete(CACHE_KEYS.seat(seat.id))),
+      ...Array.from(performanceIds).map((performanceId) =>
+        this.cache.delete(CACHE_KEYS.performanceSeats(performanceId))
+      ),
+    ]);
+
+    return savedOrder;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Cached Resale Listing Repository (Decorator Pattern)
+ *
+ * The seat map polls an event's active listings every second, so that list
+ * is cached (cache-aside, like CachedSeatRepository.findByPerformanceId). Single
+ * listings are always read from the database because buying one depends on
+ * its exact version. Every write invalidates the event's list, and a sale
+ * also invalidates the seat caches since the seat changed hands.
+ */
+
+import { ResaleListing, ResaleListingProps } from '@/core/domain/resale-listing.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { Order } from '@/core/domain/order.entity';
+import { IResaleListingRepository } from '@/core/interfaces/IResaleListingRepository';
+import { ICache } from '@/core/interfaces/ICache';
+import { CACHE_KEYS } from '@/infrastructure/cache/CacheKeys';
+
+/**
+ * Default cache TTL in seconds
+ */
+const DEFAULT_TTL_SECONDS = 60;
+
+/**
+ * Shape of a listing after a JSON round-trip through the cache
+ * (Dates are serialized as ISO strings)
+ */
+type CachedListingData = Omit<ResaleListingProps, 'lockExpiresAt' | 'createdAt' | 'soldAt'> & {
+  lockExpiresAt: string | null;
+  createdAt: string;
+  soldAt: string | null;
+};
+
+/**
+ * Reconstitutes a domain entity from cached data
+ */
+function fromCache(data: CachedListingData): ResaleListing {
+  return ResaleListing.fromPersistence({
+    ...data,
+    lockExpiresAt: data.lockExpiresAt ? new Date(data.lockExpiresAt) : null,
+    createdAt: new Date(data.createdAt),
+    soldAt: data.soldAt ? new Date(data.soldAt) : null,
+  });
+}
+
+/**
+ * Cached Resale Listing Repository
+ *
+ * @example
+ * ```typescript
+ * const listingRepo = new PrismaResaleListingRepository(prisma, prismaSeatRepo, prismaOrderRepo);
+ * const cachedListingRepo = new CachedResaleListingRepository(listingRepo, redisService);
+ * ```
+ */
+export class CachedResaleListingRepository implements IResaleListingRepository {
+  constructor(
+    private readonly repository: IResaleListingRepository,
+    private readonly cache: ICache,
+    private readonly ttlSeconds: number = DEFAULT_TTL_SECONDS
+  ) {}
+
+  async findById(id: string): Promise<ResaleListing | null> {
+    return this.repository.findById(id);
+  }
+
+  async findActiveBySeatId(seatId: string): Promise<ResaleListing | null> {
+    return this.repository.findActiveBySeatId(seatId);
+  }
+
+  /**
+   * Find an event's active listings (with cache)
+   */
+  async findActiveByEventId(eventId: string): Promise<ResaleListing[]> {
+    const cacheKey = CACHE_KEYS.eventResaleListings(eventId);
+
+    const cached = await this.cache.get<CachedListingData[]>(cacheKey);
+    if (cached) {
+      return cached.map((data) => fromCache(data));
+    }
+
+    const listings = await this.repository.findActiveByEventId(eventId);
+    await this.cache.set(
+      cacheKey,
+      listings.map((listing) => listing.toJSON()),
+      this.ttlSeconds
+    );
+
+    return listings;
+  }
+
+  /**
+   * Save listing, then INVALIDATE the event's listing cache
+   */
+  async save(listing: ResaleListing): Promise<ResaleListing> {
+    const savedListing = await this.repository.save(listing);
+
+    await this.cache.delete(CACHE_KEYS.eventResaleListings(listing.eventId));
+
+    return savedListing;
+  }
+
+  /**
+   * Save listing + seat + order, then INVALIDATE the listing and seat caches
+   */
+  async saveSale(listing: ResaleListing, seat: Seat, order: Order): Promise<ResaleListing> {
+    const savedListing = await this.repository.saveSale(listing, seat, order);
+
+    await Promise.all([
+      this.cache.delete(CACHE_KEYS.eventResaleListings(listing.eventId)),
+      this.cache.delete(CACHE_KEYS.seat(seat.id)),
+      this.cache.delete(CACHE_KEYS.performanceSeats(seat.performanceId)),
+    ]);
+
+    return savedListing;
+  }
+}
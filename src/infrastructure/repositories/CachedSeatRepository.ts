@@ -16,22 +16,33 @@
  * This ensures users never see stale data after a write operation.
  */
 
-import { Seat } from '@/core/domain/seat.entity';
-import { ISeatRepository } from '@/core/interfaces/ISeatRepository';
+import { Seat, SeatProps } from '@/core/domain/seat.entity';
+import { ISeatRepository, SoldTicket } from '@/core/interfaces/ISeatRepository';
 import { ICache } from '@/core/interfaces/ICache';
+import { CACHE_KEYS } from '@/infrastructure/cache/CacheKeys';
 
 /**
- * Cache key generator for seats
+ * Default cache TTL in seconds
  */
-const CACHE_KEYS = {
-  seat: (id: string) => `seat:${id}`,
-  eventSeats: (eventId: string) => `event:${eventId}:seats`,
-} as const;
+const DEFAULT_TTL_SECONDS = 60;
 
 /**
- * Default cache TTL in seconds
+ * Shape of a seat after a JSON round-trip through the cache
+ * (Dates are serialized as ISO strings)
  */
-const DEFAULT_TTL_SECONDS = 60;
+type CachedSeatData = Omit<SeatProps, 'lockExpiresAt'> & {
+  lockExpiresAt: string | null;
+};
+
+/**
+ * Reconstitutes a domain entity from cached data
+ */
+function fromCache(data: CachedSeatData): Seat {
+  return Seat.fromPersistence({
+    ...data,
+    lockExpiresAt: data.lockExpiresAt ? new Date(data.lockExpiresAt) : null,
+  });
+}
 
 /**
  * Cached Seat Repository
@@ -66,10 +77,10 @@ export class CachedSeatRepository implements ISeatRepository {
     const cacheKey = CACHE_KEYS.seat(id);
 
     // 1. Try cache first
-    const cached = await this.cache.get<ReturnType<Seat['toJSON']>>(cacheKey);
+    const cached = await this.cache.get<CachedSeatData>(cacheKey);
     if (cached) {
       // Cache HIT - reconstitute domain entity from cached data
-      return Seat.fromPersistence(cached);
+      return fromCache(cached);
     }
 
     // 2. Cache MISS - fetch from database
@@ -83,19 +94,29 @@ export class CachedSeatRepository implements ISeatRepository {
   }
 
   /**
-   * Find seats by event ID (with cache)
+   * Find seats by event ID (bypass cache)
+   * 
+   * Only the per-performance seat map is polled; event-wide scans
+   * (waitlist sold-out checks) read the current DB state.
    */
   async findByEventId(eventId: string): Promise<Seat[]> {
-    const cacheKey = CACHE_KEYS.eventSeats(eventId);
+    return this.repository.findByEventId(eventId);
+  }
+
+  /**
+   * Find seats by performance ID (with cache)
+   */
+  async findByPerformanceId(performanceId: string): Promise<Seat[]> {
+    const cacheKey = CACHE_KEYS.performanceSeats(performanceId);
 
     // Try cache first
-    const cached = await this.cache.get<ReturnType<Seat['toJSON']>[]>(cacheKey);
+    const cached = await this.cache.get<CachedSeatData[]>(cacheKey);
     if (cached) {
-      return cached.map((data) => Seat.fromPersistence(data));
+      return cached.map((data) => fromCache(data));
     }
 
     // Cache miss - fetch from DB
-    const seats = await this.repository.findByEventId(eventId);
+    const seats = await this.repository.findByPerformanceId(performanceId);
     if (seats.length > 0) {
       await this.cache.set(
         cacheKey,
@@ -118,13 +139,32 @@ export class CachedSeatRepository implements ISeatRepository {
     return this.repository.findByIdWithVersion(id, expectedVersion);
   }
 
+  /**
+   * Find seats with expired locks (bypass cache)
+   * 
+   * Expiry sweeps must see the current DB state, never a cached snapshot.
+   */
+  async findExpiredLocks(now: Date, limit: number): Promise<Seat[]> {
+    return this.repository.findExpiredLocks(now, limit);
+  }
+
+  /**
+   * Find a user's tickets (bypass cache)
+   * 
+   * Read once per visit to the tickets page; not worth invalidating on
+   * every sale, refund, transfer and resale.
+   */
+  async findSoldByUserId(userId: string): Promise<SoldTicket[]> {
+    return this.repository.findSoldByUserId(userId);
+  }
+
   /**
    * Save seat and INVALIDATE cache
    * 
    * Flow:
    * 1. Save to database
    * 2. Delete cache entry immediately
-   * 3. Delete event seats cache (list might be stale)
+   * 3. Delete performance seats cache (list might be stale)
    * 
    * This ensures users never see stale data after a status change.
    */
@@ -135,10 +175,27 @@ export class CachedSeatRepository implements ISeatRepository {
     // 2. INVALIDATE: Delete individual seat cache
     await this.cache.delete(CACHE_KEYS.seat(seat.id));
 
-    // 3. INVALIDATE: Delete event seats list cache
+    // 3. INVALIDATE: Delete performance seats list cache
     // (because the status of one seat changed, the list is now stale)
-    await this.cache.delete(CACHE_KEYS.eventSeats(seat.eventId));
+    await this.cache.delete(CACHE_KEYS.performanceSeats(seat.performanceId));
 
     return savedSeat;
   }
+
+  /**
+   * Save several seats atomically and INVALIDATE their cache entries
+   */
+  async saveAll(seats: Seat[]): Promise<Seat[]> {
+    const savedSeats = await this.repository.saveAll(seats);
+
+    const performanceIds = new Set(seats.map((seat) => seat.performanceId));
+    await Promise.all([
+      ...seats.map((seat) => this.cache.delete(CACHE_KEYS.seat(seat.id))),
+      ...Array.from(performanceIds).map((performanceId) =>
+        this.cache.delete(CACHE_KEYS.performanceSeats(performanceId))
+      ),
+    ]);
+
+    return savedSeats;
+  }
 }
@@ -0,0 +1,55 @@
+/**
+ * Cached Ticket Transfer Repository (Decorator Pattern)
+ *
+ * Transfers are not cached, but accepting one changes the seat's owner.
+ * This decorator invalidates the affected seat cache entries after the
+ * transaction commits, the same way CachedWaitlistRepository does.
+ */
+
+import { TicketTransfer } from '@/core/domain/ticket-transfer.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { ITicketTransferRepository } from '@/core/interfaces/ITicketTransferRepository';
+import { ICache } from '@/core/interfaces/ICache';
+import { CACHE_KEYS } from '@/infrastructure/cache/CacheKeys';
+
+/**
+ * Cached Ticket Transfer Repository
+ *
+ * @example
+ * ```typescript
+ * const transferRepo = new PrismaTicketTransferRepository(prisma, prismaSeatRepo);
+ * const cachedTransferRepo = new CachedTicketTransferRepository(transferRepo, redisService);
+ * ```
+ */
+export class CachedTicketTransferRepository implements ITicketTransferRepository {
+  constructor(
+    private readonly repository: ITicketTransferRepository,
+    private readonly cache: ICache
+  ) {}
+
+  async findById(id: string): Promise<TicketTransfer | null> {
+    return this.repository.findById(id);
+  }
+
+  async findPendingBySeatId(seatId: string): Promise<TicketTransfer | null> {
+    return this.repository.findPendingBySeatId(seatId);
+  }
+
+  async save(transfer: TicketTransfer): Promise<TicketTransfer> {
+    return this.repository.save(transfer);
+  }
+
+  /**
+   * Save transfer + seat, then INVALIDATE the seat caches
+   */
+  async saveWithSeat(transfer: TicketTransfer, seat: Seat): Promise<TicketTransfer> {
+    const savedTransfer = await this.repository.saveWithSeat(transfer, seat);
+
+    await Promise.all([
+      this.cache.delete(CACHE_KEYS.seat(seat.id)),
+      this.cache.delete(CACHE_KEYS.performanceSeats(seat.performanceId)),
+    ]);
+
+    return savedTransfer;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Cached Waitlist Repository (Decorator Pattern)
+ *
+ * Waitlist entries are not cached (queue order must be exact), but offering
+ * or giving up a seat changes that seat. This decorator invalidates the
+ * affected seat cache entries after the transaction commits, the same way
+ * CachedOrderRepository does for sales.
+ */
+
+import { WaitlistEntry } from '@/core/domain/waitlist-entry.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { IWaitlistRepository } from '@/core/interfaces/IWaitlistRepository';
+import { ICache } from '@/core/interfaces/ICache';
+import { CACHE_KEYS } from '@/infrastructure/cache/CacheKeys';
+
+/**
+ * Cached Waitlist Repository
+ *
+ * @example
+ * ```typescript
+ * const waitlistRepo = new PrismaWaitlistRepository(prisma, prismaSeatRepo);
+ * const cachedWaitlistRepo = new CachedWaitlistRepository(waitlistRepo, redisService);
+ * ```
+ */
+export class CachedWaitlistRepository implements IWaitlistRepository {
+  constructor(
+    private readonly repository: IWaitlistRepository,
+    private readonly cache: ICache
+  ) {}
+
+  async findById(id: string): Promise<WaitlistEntry | null> {
+    return this.repository.findById(id);
+  }
+
+  async findActiveByEventAndUser(eventId: string, userId: string): Promise<WaitlistEntry | null> {
+    return this.repository.findActiveByEventAndUser(eventId, userId);
+  }
+
+  async findNextWaiting(eventId: string): Promise<WaitlistEntry | null> {
+    return this.repository.findNextWaiting(eventId);
+  }
+
+  async findOfferedBySeatId(seatId: string): Promise<WaitlistEntry | null> {
+    return this.repository.findOfferedBySeatId(seatId);
+  }
+
+  async countWaitingBefore(eventId: string, createdAt: Date): Promise<number> {
+    return this.repository.countWaitingBefore(eventId, createdAt);
+  }
+
+  async save(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    return this.repository.save(entry);
+  }
+
+  /**
+   * Save entry + seat, then INVALIDATE the seat caches
+   */
+  async saveWithSeat(entry: WaitlistEntry, seat: Seat): Promise<WaitlistEntry> {
+    const savedEntry = await this.repository.saveWithSeat(entry, seat);
+
+    await Promise.all([
+      this.cache.delete(CACHE_KEYS.seat(seat.id)),
+      this.cache.delete(CACHE_KEYS.performanceSeats(seat.performanceId)),
+    ]);
+
+    return savedEntry;
+  }
+}
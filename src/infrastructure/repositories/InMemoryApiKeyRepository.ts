@@ -0,0 +1,44 @@
+import { ApiKey } from '@/core/domain/api-key.entity';
+import { IApiKeyRepository } from '@/core/interfaces/IApiKeyRepository';
+
+/**
+ * In-Memory API Key Repository
+ *
+ * A simple in-memory implementation of IApiKeyRepository for testing purposes.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemoryApiKeyRepository implements IApiKeyRepository {
+  private apiKeys: Map<string, ApiKey> = new Map();
+
+  /**
+   * Seeds the repository with keys (useful for testing)
+   */
+  seed(apiKeys: ApiKey[]): void {
+    apiKeys.forEach((apiKey) => this.apiKeys.set(apiKey.id, apiKey));
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.apiKeys.clear();
+  }
+
+  async findById(id: string): Promise<ApiKey | null> {
+    return this.apiKeys.get(id) ?? null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKey | null> {
+    return Array.from(this.apiKeys.values()).find((apiKey) => apiKey.keyHash === keyHash) ?? null;
+  }
+
+  async findAll(): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async save(apiKey: ApiKey): Promise<ApiKey> {
+    this.apiKeys.set(apiKey.id, apiKey);
+    return apiKey;
+  }
+}
@@ -0,0 +1,69 @@
+import { EventCancellation } from '@/core/domain/event-cancellation.entity';
+import { IEventCancellationRepository, FailedRefund } from '@/core/interfaces/IEventCancellationRepository';
+
+/**
+ * In-Memory Event Cancellation Repository
+ *
+ * A simple in-memory implementation of IEventCancellationRepository for testing purposes.
+ * Like the Prisma implementation, a batch is only counted the first time
+ * it is recorded.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemoryEventCancellationRepository implements IEventCancellationRepository {
+  private cancellations: Map<string, EventCancellation> = new Map();
+  private recordedBatches: Set<string> = new Set();
+  private failedRefunds: FailedRefund[] = [];
+
+  /**
+   * Seeds the repository with cancellations (useful for testing)
+   */
+  seed(cancellations: EventCancellation[]): void {
+    cancellations.forEach((cancellation) => this.cancellations.set(cancellation.id, cancellation));
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.cancellations.clear();
+    this.recordedBatches.clear();
+    this.failedRefunds = [];
+  }
+
+  async findByEventId(eventId: string): Promise<EventCancellation | null> {
+    return (
+      Array.from(this.cancellations.values()).find(
+        (cancellation) => cancellation.eventId === eventId
+      ) ?? null
+    );
+  }
+
+  async create(cancellation: EventCancellation): Promise<boolean> {
+    if (await this.findByEventId(cancellation.eventId)) return false;
+
+    this.cancellations.set(cancellation.id, cancellation);
+    return true;
+  }
+
+  async recordBatch(
+    cancellationId: string,
+    batchNumber: number,
+    refundedCount: number,
+    failures: FailedRefund[]
+  ): Promise<boolean> {
+    const batchKey = `${cancellationId}:${batchNumber}`;
+    const cancellation = this.cancellations.get(cancellationId);
+
+    if (!cancellation || this.recordedBatches.has(batchKey)) return false;
+
+    this.cancellations.set(cancellationId, cancellation.recordBatch(refundedCount, failures.length));
+    this.recordedBatches.add(batchKey);
+    this.failedRefunds.push(...failures);
+    return true;
+  }
+
+  async findFailedRefunds(cancellationId: string): Promise<FailedRefund[]> {
+    return this.failedRefunds.filter((failure) => failure.cancellationId === cancellationId);
+  }
+}
@@ -0,0 +1,105 @@
+import { Event } from '@/core/domain/event.entity';
+import { Performance } from '@/core/domain/performance.entity';
+import { PriceCategory } from '@/core/interfaces/IPriceCategoryRepository';
+import { IEventRepository, EventFilter, EventInventory } from '@/core/interfaces/IEventRepository';
+import { InMemoryPerformanceRepository } from './InMemoryPerformanceRepository';
+import { InMemorySeatRepository } from './InMemorySeatRepository';
+
+/**
+ * In-Memory Event Repository
+ *
+ * A simple in-memory implementation of IEventRepository for testing purposes.
+ * Performances and seats go to the given in-memory repositories so tests
+ * can observe the new inventory. Only locked and sold seats count as
+ * sales here: there is no order history or GA inventory to check.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemoryEventRepository implements IEventRepository {
+  private events: Map<string, Event> = new Map();
+  private priceCategories: Map<string, PriceCategory[]> = new Map();
+
+  constructor(
+    private readonly performanceRepository: InMemoryPerformanceRepository,
+    private readonly seatRepository: InMemorySeatRepository
+  ) {}
+
+  /**
+   * Seeds the repository with initial data (useful for testing)
+   */
+  seed(events: Event[]): void {
+    events.forEach((event) => {
+      this.events.set(event.id, event);
+    });
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.events.clear();
+    this.priceCategories.clear();
+  }
+
+  /**
+   * The price table an event was created with (useful for testing)
+   */
+  getPriceCategories(eventId: string): PriceCategory[] {
+    return this.priceCategories.get(eventId) ?? [];
+  }
+
+  async findById(id: string): Promise<Event | null> {
+    return this.events.get(id) ?? null;
+  }
+
+  async findMany(filter: EventFilter): Promise<Event[]> {
+    const location = filter.location?.toLowerCase();
+    const inRange = (date: Date) =>
+      (!filter.from || date.getTime() >= filter.from.getTime()) &&
+      (!filter.to || date.getTime() <= filter.to.getTime());
+
+    const result: Event[] = [];
+    for (const event of this.events.values()) {
+      if (!filter.includeDrafts && !event.isListed()) continue;
+      if (location && !event.location.toLowerCase().includes(location)) continue;
+
+      if (filter.from || filter.to) {
+        const performances = await this.performanceRepository.findByEventId(event.id);
+        if (!inRange(event.date) && !performances.some((performance) => inRange(performance.startsAt))) continue;
+      }
+
+      result.push(event);
+    }
+
+    return result.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  async createWithInventory(event: Event, inventory: EventInventory): Promise<Event> {
+    this.events.set(event.id, event);
+    this.priceCategories.set(event.id, [...inventory.priceCategories]);
+    await this.performanceRepository.createWithSeats(inventory.performance, inventory.seats);
+    return event;
+  }
+
+  async save(event: Event): Promise<Event> {
+    this.events.set(event.id, event);
+    return event;
+  }
+
+  async reschedule(event: Event, performances: Performance[]): Promise<Event> {
+    this.events.set(event.id, event);
+    this.performanceRepository.seed(performances);
+    return event;
+  }
+
+  async deleteIfUnsold(id: string): Promise<boolean> {
+    if (!this.events.has(id)) return false;
+
+    const seats = await this.seatRepository.findByEventId(id);
+    if (seats.some((seat) => seat.isLocked() || seat.isSold())) return false;
+
+    this.events.delete(id);
+    this.priceCategories.delete(id);
+    return true;
+  }
+}
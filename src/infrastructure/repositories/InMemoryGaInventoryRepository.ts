@@ -0,0 +1,105 @@
+import { GaZone } from '@/core/domain/ga-zone.entity';
+import { GaReservation, GaReservationStatus } from '@/core/domain/ga-reservation.entity';
+import { Order } from '@/core/domain/order.entity';
+import { IGaInventoryRepository } from '@/core/interfaces/IGaInventoryRepository';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { InMemoryOrderRepository } from './InMemoryOrderRepository';
+
+/**
+ * In-Memory GA Inventory Repository
+ *
+ * A simple in-memory implementation of IGaInventoryRepository for testing purposes.
+ * Like the Prisma implementation, reservations are version-checked so a
+ * reservation can't hand its tickets back to the zone twice. Orders are
+ * written through the given InMemoryOrderRepository so tests can observe
+ * both sides of a sale.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemoryGaInventoryRepository implements IGaInventoryRepository {
+  private zones: Map<string, GaZone> = new Map();
+  private reservations: Map<string, GaReservation> = new Map();
+
+  constructor(private readonly orderRepository: InMemoryOrderRepository) {}
+
+  /**
+   * Seeds the repository with initial data (useful for testing)
+   */
+  seed(zones: GaZone[], reservations: GaReservation[] = []): void {
+    zones.forEach((zone) => this.zones.set(zone.id, zone));
+    reservations.forEach((reservation) => this.reservations.set(reservation.id, reservation));
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.zones.clear();
+    this.reservations.clear();
+  }
+
+  async findZoneById(id: string): Promise<GaZone | null> {
+    return this.zones.get(id) ?? null;
+  }
+
+  async findZonesByEventId(eventId: string): Promise<GaZone[]> {
+    return Array.from(this.zones.values())
+      .filter((zone) => zone.eventId === eventId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async findReservationById(id: string): Promise<GaReservation | null> {
+    return this.reservations.get(id) ?? null;
+  }
+
+  async findReservationsByEventId(eventId: string): Promise<GaReservation[]> {
+    return Array.from(this.reservations.values())
+      .filter((reservation) => reservation.eventId === eventId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async reserve(reservation: GaReservation): Promise<boolean> {
+    const zone = this.zones.get(reservation.zoneId);
+    if (!zone || !zone.hasAvailable(reservation.quantity)) return false;
+
+    this.adjustAvailable(zone, -reservation.quantity);
+    this.reservations.set(reservation.id, reservation);
+    return true;
+  }
+
+  async saveReservation(reservation: GaReservation, order?: Order): Promise<GaReservation> {
+    this.checkVersion(reservation);
+    this.reservations.set(reservation.id, reservation);
+    if (order) await this.orderRepository.saveWithSeats(order, []);
+    return reservation;
+  }
+
+  async releaseReservation(reservation: GaReservation, order?: Order): Promise<GaReservation> {
+    this.checkVersion(reservation);
+    this.reservations.set(reservation.id, reservation);
+    if (order) await this.orderRepository.saveWithSeats(order, []);
+
+    const zone = this.zones.get(reservation.zoneId);
+    if (zone) this.adjustAvailable(zone, reservation.quantity);
+
+    return reservation;
+  }
+
+  async findExpiredReservations(now: Date, limit: number): Promise<GaReservation[]> {
+    return Array.from(this.reservations.values())
+      .filter((reservation) => reservation.status === GaReservationStatus.LOCKED && reservation.isLockExpired(now))
+      .sort((a, b) => a.lockExpiresAt!.getTime() - b.lockExpiresAt!.getTime())
+      .slice(0, limit);
+  }
+
+  private checkVersion(reservation: GaReservation): void {
+    const previousVersion = reservation.version - 1;
+    if (this.reservations.get(reservation.id)?.version !== previousVersion) {
+      throw new ConcurrencyError('GaReservation', reservation.id, previousVersion);
+    }
+  }
+
+  private adjustAvailable(zone: GaZone, delta: number): void {
+    this.zones.set(zone.id, GaZone.fromPersistence({ ...zone.toJSON(), available: zone.available + delta }));
+  }
+}
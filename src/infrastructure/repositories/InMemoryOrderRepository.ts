@@ -0,0 +1,66 @@
+import { Order } from '@/core/domain/order.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { IOrderRepository } from '@/core/interfaces/IOrderRepository';
+import { InMemorySeatRepository } from './InMemorySeatRepository';
+
+/**
+ * In-Memory Order Repository
+ *
+ * A simple in-memory implementation of IOrderRepository for testing purposes.
+ * Seat changes are written to the given InMemorySeatRepository so tests
+ * can observe both sides of a sale.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemoryOrderRepository implements IOrderRepository {
+  private orders: Map<string, Order> = new Map();
+
+  constructor(private readonly seatRepository: InMemorySeatRepository) {}
+
+  /**
+   * Seeds the repository with initial data (useful for testing)
+   */
+  seed(orders: Order[]): void {
+    orders.forEach((order) => {
+      this.orders.set(order.id, order);
+    });
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.orders.clear();
+  }
+
+  async findById(id: string): Promise<Order | null> {
+    return this.orders.get(id) ?? null;
+  }
+
+  async findByUserId(userId: string): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter((order) => order.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async findActiveBySeatId(seatId: string): Promise<Order | null> {
+    // Newest first: after a resale the buyer's order holds the seat
+    return (
+      Array.from(this.orders.values())
+        .filter((order) => order.hasActiveItem(seatId))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0] ?? null
+    );
+  }
+
+  async findActiveByGaReservationId(reservationId: string): Promise<Order | null> {
+    return (
+      Array.from(this.orders.values()).find((order) => order.hasActiveGaReservation(reservationId)) ?? null
+    );
+  }
+
+  async saveWithSeats(order: Order, seats: Seat[]): Promise<Order> {
+    await this.seatRepository.saveAll(seats);
+    this.orders.set(order.id, order);
+    return order;
+  }
+}
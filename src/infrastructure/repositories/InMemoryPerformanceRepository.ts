@@ -0,0 +1,59 @@
+import { Performance } from '@/core/domain/performance.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { IPerformanceRepository } from '@/core/interfaces/IPerformanceRepository';
+import { InMemorySeatRepository } from './InMemorySeatRepository';
+
+/**
+ * In-Memory Performance Repository
+ *
+ * A simple in-memory implementation of IPerformanceRepository for testing purposes.
+ * Generated seats are written to the given InMemorySeatRepository so tests
+ * can observe the new inventory.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemoryPerformanceRepository implements IPerformanceRepository {
+  private performances: Map<string, Performance> = new Map();
+
+  constructor(private readonly seatRepository: InMemorySeatRepository) {}
+
+  /**
+   * Seeds the repository with initial data (useful for testing)
+   */
+  seed(performances: Performance[]): void {
+    performances.forEach((performance) => {
+      this.performances.set(performance.id, performance);
+    });
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.performances.clear();
+  }
+
+  async findById(id: string): Promise<Performance | null> {
+    return this.performances.get(id) ?? null;
+  }
+
+  async findByEventId(eventId: string): Promise<Performance[]> {
+    return Array.from(this.performances.values())
+      .filter((performance) => performance.eventId === eventId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async findByEventIds(eventIds: string[]): Promise<Performance[]> {
+    const ids = new Set(eventIds);
+
+    return Array.from(this.performances.values())
+      .filter((performance) => ids.has(performance.eventId))
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async createWithSeats(performance: Performance, seats: Seat[]): Promise<Performance> {
+    this.performances.set(performance.id, performance);
+    await this.seatRepository.saveAll(seats);
+    return performance;
+  }
+}
@@ -0,0 +1,116 @@
+import { Presale } from '@/core/domain/presale.entity';
+import { PresaleCode } from '@/core/domain/presale-code.entity';
+import { IPresaleRepository, PresaleRedemption } from '@/core/interfaces/IPresaleRepository';
+
+/**
+ * In-Memory Presale Repository
+ *
+ * A simple in-memory implementation of IPresaleRepository for testing purposes.
+ * Redemptions check the stored quota, not the caller's snapshot, like the
+ * Prisma implementation's conditional decrement.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemoryPresaleRepository implements IPresaleRepository {
+  private presales: Map<string, Presale> = new Map();
+  private codes: Map<string, PresaleCode> = new Map();
+  private redemptions: Map<string, PresaleRedemption> = new Map();
+
+  /**
+   * Seeds the repository with initial data (useful for testing)
+   */
+  seed(presales: Presale[], codes: PresaleCode[] = []): void {
+    presales.forEach((presale) => this.presales.set(presale.id, presale));
+    codes.forEach((code) => this.codes.set(code.id, code));
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.presales.clear();
+    this.codes.clear();
+    this.redemptions.clear();
+  }
+
+  /**
+   * Lists the stored redemptions (useful for assertions)
+   */
+  getRedemptions(): PresaleRedemption[] {
+    return Array.from(this.redemptions.values());
+  }
+
+  async findActiveByEventId(eventId: string, now: Date): Promise<Presale[]> {
+    return Array.from(this.presales.values())
+      .filter((presale) => presale.eventId === eventId && presale.isActive(now))
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async findCode(presaleId: string, code: string): Promise<PresaleCode | null> {
+    return (
+      Array.from(this.codes.values()).find(
+        (presaleCode) => presaleCode.presaleId === presaleId && presaleCode.code === code
+      ) ?? null
+    );
+  }
+
+  async redeem(code: PresaleCode, redemption: PresaleRedemption): Promise<boolean> {
+    const stored = this.codes.get(code.id);
+    if (!stored || !stored.canRedeem(redemption.quantity)) return false;
+
+    this.adjust(stored, -redemption.quantity, 1);
+    this.redemptions.set(redemption.id, redemption);
+    return true;
+  }
+
+  async releaseRedemption(redemption: PresaleRedemption): Promise<void> {
+    if (!this.redemptions.delete(redemption.id)) return;
+
+    const stored = this.codes.get(redemption.presaleCodeId);
+    if (stored) this.adjust(stored, redemption.quantity, -1);
+  }
+
+  async releaseLocks(lockIds: string[]): Promise<void> {
+    for (const redemption of Array.from(this.redemptions.values())) {
+      const released = redemption.locks.filter((lock) => lockIds.includes(lock.lockId));
+      if (released.length === 0) continue;
+
+      const tickets = released.reduce((sum, lock) => sum + lock.quantity, 0);
+      const quantity = redemption.quantity - tickets;
+
+      // Nothing left of the lock request: the code gets its use back too
+      if (quantity <= 0) {
+        this.redemptions.delete(redemption.id);
+      } else {
+        this.redemptions.set(redemption.id, {
+          ...redemption,
+          quantity,
+          locks: redemption.locks.filter((lock) => !lockIds.includes(lock.lockId)),
+        });
+      }
+
+      const stored = this.codes.get(redemption.presaleCodeId);
+      if (stored) this.adjust(stored, tickets, quantity <= 0 ? -1 : 0);
+    }
+  }
+
+  async settleLocks(lockIds: string[]): Promise<void> {
+    for (const redemption of Array.from(this.redemptions.values())) {
+      this.redemptions.set(redemption.id, {
+        ...redemption,
+        locks: redemption.locks.filter((lock) => !lockIds.includes(lock.lockId)),
+      });
+    }
+  }
+
+  private adjust(code: PresaleCode, tickets: number, uses: number): void {
+    this.codes.set(
+      code.id,
+      PresaleCode.fromPersistence({
+        ...code.toJSON(),
+        ticketsRemaining: code.ticketsRemaining + tickets,
+        uses: code.uses + uses,
+      })
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { IPriceCategoryRepository, PriceCategory } from '@/core/interfaces/IPriceCategoryRepository';
+
+/**
+ * In-Memory Price Category Repository
+ *
+ * A simple in-memory implementation of IPriceCategoryRepository for testing purposes.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemoryPriceCategoryRepository implements IPriceCategoryRepository {
+  private categoriesByEvent: Map<string, PriceCategory[]> = new Map();
+
+  /**
+   * Seeds an event's price table (an empty list registers an event without categories)
+   */
+  seed(eventId: string, categories: PriceCategory[]): void {
+    this.categoriesByEvent.set(eventId, [...categories]);
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.categoriesByEvent.clear();
+  }
+
+  async findByEventId(eventId: string): Promise<PriceCategory[] | null> {
+    return this.categoriesByEvent.get(eventId) ?? null;
+  }
+}
@@ -0,0 +1,65 @@
+import { ResaleListing } from '@/core/domain/resale-listing.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { Order } from '@/core/domain/order.entity';
+import { IResaleListingRepository } from '@/core/interfaces/IResaleListingRepository';
+import { InMemoryOrderRepository } from './InMemoryOrderRepository';
+
+/**
+ * In-Memory Resale Listing Repository
+ *
+ * A simple in-memory implementation of IResaleListingRepository for testing purposes.
+ * Completed resales write the seat and the buyer's order through the given
+ * InMemoryOrderRepository so tests can observe every side of the sale.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemoryResaleListingRepository implements IResaleListingRepository {
+  private listings: Map<string, ResaleListing> = new Map();
+
+  constructor(private readonly orderRepository: InMemoryOrderRepository) {}
+
+  /**
+   * Seeds the repository with initial data (useful for testing)
+   */
+  seed(listings: ResaleListing[]): void {
+    listings.forEach((listing) => {
+      this.listings.set(listing.id, listing);
+    });
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.listings.clear();
+  }
+
+  async findById(id: string): Promise<ResaleListing | null> {
+    return this.listings.get(id) ?? null;
+  }
+
+  async findActiveBySeatId(seatId: string): Promise<ResaleListing | null> {
+    return (
+      Array.from(this.listings.values()).find(
+        (listing) => listing.seatId === seatId && listing.isActive()
+      ) ?? null
+    );
+  }
+
+  async findActiveByEventId(eventId: string): Promise<ResaleListing[]> {
+    return Array.from(this.listings.values())
+      .filter((listing) => listing.eventId === eventId && listing.isActive())
+      .sort((a, b) => a.price - b.price);
+  }
+
+  async save(listing: ResaleListing): Promise<ResaleListing> {
+    this.listings.set(listing.id, listing);
+    return listing;
+  }
+
+  async saveSale(listing: ResaleListing, seat: Seat, order: Order): Promise<ResaleListing> {
+    await this.orderRepository.saveWithSeats(order, [seat]);
+    this.listings.set(listing.id, listing);
+    return listing;
+  }
+}
@@ -0,0 +1,32 @@
+import { IResalePolicyRepository, ResalePolicy } from '@/core/interfaces/IResalePolicyRepository';
+
+/**
+ * In-Memory Resale Policy Repository
+ *
+ * A simple in-memory implementation of IResalePolicyRepository for testing purposes.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemoryResalePolicyRepository implements IResalePolicyRepository {
+  private policies: Map<string, ResalePolicy> = new Map();
+
+  /**
+   * Seeds the repository with initial data (useful for testing)
+   */
+  seed(policies: ResalePolicy[]): void {
+    policies.forEach((policy) => {
+      this.policies.set(policy.eventId, policy);
+    });
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.policies.clear();
+  }
+
+  async findByEventId(eventId: string): Promise<ResalePolicy | null> {
+    return this.policies.get(eventId) ?? null;
+  }
+}
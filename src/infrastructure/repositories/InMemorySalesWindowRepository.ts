@@ -0,0 +1,36 @@
+import { SalesWindow } from '@/core/domain/sales-window.entity';
+import { ISalesWindowRepository } from '@/core/interfaces/ISalesWindowRepository';
+
+/**
+ * In-Memory Sales Window Repository
+ *
+ * A simple in-memory implementation of ISalesWindowRepository for testing purposes.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemorySalesWindowRepository implements ISalesWindowRepository {
+  private windows: Map<string, SalesWindow> = new Map();
+
+  /**
+   * Seeds the repository with sales windows (useful for testing)
+   */
+  seed(windows: SalesWindow[]): void {
+    windows.forEach((window) => this.windows.set(window.eventId, window));
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.windows.clear();
+  }
+
+  async findByEventId(eventId: string): Promise<SalesWindow | null> {
+    return this.windows.get(eventId) ?? null;
+  }
+
+  async save(window: SalesWindow): Promise<SalesWindow> {
+    this.windows.set(window.eventId, window);
+    return window;
+  }
+}
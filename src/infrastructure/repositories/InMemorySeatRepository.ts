@@ -1,5 +1,5 @@
 import { Seat } from '@/core/domain/seat.entity';
-import { ISeatRepository } from '@/core/interfaces/ISeatRepository';
+import { ISeatRepository, SoldTicket, TicketEvent } from '@/core/interfaces/ISeatRepository';
 
 /**
  * In-Memory Seat Repository
@@ -11,6 +11,7 @@ import { ISeatRepository } from '@/core/interfaces/ISeatRepository';
  */
 export class InMemorySeatRepository implements ISeatRepository {
   private seats: Map<string, Seat> = new Map();
+  private showtimes: Map<string, { event: TicketEvent; startsAt: Date }> = new Map();
 
   /**
    * Seeds the repository with initial data (useful for testing)
@@ -21,11 +22,22 @@ export class InMemorySeatRepository implements ISeatRepository {
     });
   }
 
+  /**
+   * Seeds the event and start time of performances, which tickets are
+   * joined with (seats of other performances are left out, like a join)
+   */
+  seedShowtimes(showtimes: { performanceId: string; event: TicketEvent; startsAt: Date }[]): void {
+    showtimes.forEach(({ performanceId, event, startsAt }) => {
+      this.showtimes.set(performanceId, { event, startsAt });
+    });
+  }
+
   /**
    * Clears all data (useful for test cleanup)
    */
   clear(): void {
     this.seats.clear();
+    this.showtimes.clear();
   }
 
   async findById(id: string): Promise<Seat | null> {
@@ -42,15 +54,48 @@ export class InMemorySeatRepository implements ISeatRepository {
     return result;
   }
 
+  async findByPerformanceId(performanceId: string): Promise<Seat[]> {
+    const result: Seat[] = [];
+    this.seats.forEach((seat) => {
+      if (seat.performanceId === performanceId) {
+        result.push(seat);
+      }
+    });
+    return result;
+  }
+
   async save(seat: Seat): Promise<Seat> {
     this.seats.set(seat.id, seat);
     return seat;
   }
 
+  async saveAll(seats: Seat[]): Promise<Seat[]> {
+    seats.forEach((seat) => this.seats.set(seat.id, seat));
+    return seats;
+  }
+
   async findByIdWithVersion(id: string, expectedVersion: number): Promise<Seat | null> {
     const seat = this.seats.get(id);
     if (!seat) return null;
     if (seat.version !== expectedVersion) return null;
     return seat;
   }
+
+  async findExpiredLocks(now: Date, limit: number): Promise<Seat[]> {
+    return Array.from(this.seats.values())
+      .filter((seat) => seat.isLockExpired(now))
+      .sort((a, b) => a.lockExpiresAt!.getTime() - b.lockExpiresAt!.getTime())
+      .slice(0, limit);
+  }
+
+  async findSoldByUserId(userId: string): Promise<SoldTicket[]> {
+    const result: SoldTicket[] = [];
+    this.seats.forEach((seat) => {
+      const showtime = this.showtimes.get(seat.performanceId);
+      if (seat.isSold() && seat.userId === userId && showtime) {
+        result.push({ seat, ...showtime });
+      }
+    });
+    return result.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
 }
@@ -0,0 +1,33 @@
+import { SeatTemplate } from '@/core/domain/seat-template.entity';
+import { ISeatTemplateRepository } from '@/core/interfaces/ISeatTemplateRepository';
+
+/**
+ * In-Memory Seat Template Repository
+ *
+ * A simple in-memory implementation of ISeatTemplateRepository for testing purposes.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemorySeatTemplateRepository implements ISeatTemplateRepository {
+  private templates: Map<string, SeatTemplate> = new Map();
+
+  /**
+   * Seeds the repository with initial data (useful for testing)
+   */
+  seed(templates: SeatTemplate[]): void {
+    templates.forEach((template) => {
+      this.templates.set(template.id, template);
+    });
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.templates.clear();
+  }
+
+  async findById(id: string): Promise<SeatTemplate | null> {
+    return this.templates.get(id) ?? null;
+  }
+}
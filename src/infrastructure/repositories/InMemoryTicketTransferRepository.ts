@@ -0,0 +1,58 @@
+import { TicketTransfer } from '@/core/domain/ticket-transfer.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { ITicketTransferRepository } from '@/core/interfaces/ITicketTransferRepository';
+import { InMemorySeatRepository } from './InMemorySeatRepository';
+
+/**
+ * In-Memory Ticket Transfer Repository
+ *
+ * A simple in-memory implementation of ITicketTransferRepository for testing purposes.
+ * Seat changes are written to the given InMemorySeatRepository so tests
+ * can observe both the transfer and the seat changing hands.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemoryTicketTransferRepository implements ITicketTransferRepository {
+  private transfers: Map<string, TicketTransfer> = new Map();
+
+  constructor(private readonly seatRepository: InMemorySeatRepository) {}
+
+  /**
+   * Seeds the repository with initial data (useful for testing)
+   */
+  seed(transfers: TicketTransfer[]): void {
+    transfers.forEach((transfer) => {
+      this.transfers.set(transfer.id, transfer);
+    });
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.transfers.clear();
+  }
+
+  async findById(id: string): Promise<TicketTransfer | null> {
+    return this.transfers.get(id) ?? null;
+  }
+
+  async findPendingBySeatId(seatId: string): Promise<TicketTransfer | null> {
+    return (
+      Array.from(this.transfers.values()).find(
+        (transfer) => transfer.seatId === seatId && transfer.isPending()
+      ) ?? null
+    );
+  }
+
+  async save(transfer: TicketTransfer): Promise<TicketTransfer> {
+    this.transfers.set(transfer.id, transfer);
+    return transfer;
+  }
+
+  async saveWithSeat(transfer: TicketTransfer, seat: Seat): Promise<TicketTransfer> {
+    await this.seatRepository.save(seat);
+    this.transfers.set(transfer.id, transfer);
+    return transfer;
+  }
+}
@@ -0,0 +1,50 @@
+import { User } from '@/core/domain/user.entity';
+import { IUserRepository } from '@/core/interfaces/IUserRepository';
+
+/**
+ * In-Memory User Repository
+ *
+ * A simple in-memory implementation of IUserRepository for testing purposes.
+ * Like the unique index on users.email, an email can only be registered once.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemoryUserRepository implements IUserRepository {
+  private users: Map<string, User> = new Map();
+
+  /**
+   * Seeds the repository with users (useful for testing)
+   */
+  seed(users: User[]): void {
+    users.forEach((user) => this.users.set(user.id, user));
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.users.clear();
+  }
+
+  async findById(id: string): Promise<User | null> {
+    return this.users.get(id) ?? null;
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    return Array.from(this.users.values()).find((user) => user.email === email) ?? null;
+  }
+
+  async create(user: User): Promise<boolean> {
+    if (await this.findByEmail(user.email)) {
+      return false;
+    }
+
+    this.users.set(user.id, user);
+    return true;
+  }
+
+  async save(user: User): Promise<User> {
+    this.users.set(user.id, user);
+    return user;
+  }
+}
@@ -0,0 +1,85 @@
+import { WaitlistEntry, WaitlistStatus } from '@/core/domain/waitlist-entry.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { IWaitlistRepository } from '@/core/interfaces/IWaitlistRepository';
+import { InMemorySeatRepository } from './InMemorySeatRepository';
+
+/**
+ * In-Memory Waitlist Repository
+ *
+ * A simple in-memory implementation of IWaitlistRepository for testing purposes.
+ * Seat changes are written to the given InMemorySeatRepository so tests
+ * can observe both the entry and the seat it holds.
+ *
+ * NOT for production use - data is lost when the process ends.
+ */
+export class InMemoryWaitlistRepository implements IWaitlistRepository {
+  private entries: Map<string, WaitlistEntry> = new Map();
+
+  constructor(private readonly seatRepository: InMemorySeatRepository) {}
+
+  /**
+   * Seeds the repository with initial data (useful for testing)
+   */
+  seed(entries: WaitlistEntry[]): void {
+    entries.forEach((entry) => {
+      this.entries.set(entry.id, entry);
+    });
+  }
+
+  /**
+   * Clears all data (useful for test cleanup)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  async findById(id: string): Promise<WaitlistEntry | null> {
+    return this.entries.get(id) ?? null;
+  }
+
+  async findActiveByEventAndUser(eventId: string, userId: string): Promise<WaitlistEntry | null> {
+    return (
+      Array.from(this.entries.values()).find(
+        (entry) => entry.eventId === eventId && entry.userId === userId && entry.isActive()
+      ) ?? null
+    );
+  }
+
+  async findNextWaiting(eventId: string): Promise<WaitlistEntry | null> {
+    return this.waiting(eventId)[0] ?? null;
+  }
+
+  async findOfferedBySeatId(seatId: string): Promise<WaitlistEntry | null> {
+    return (
+      Array.from(this.entries.values()).find(
+        (entry) => entry.seatId === seatId && entry.isOffered()
+      ) ?? null
+    );
+  }
+
+  async countWaitingBefore(eventId: string, createdAt: Date): Promise<number> {
+    return this.waiting(eventId).filter(
+      (entry) => entry.createdAt.getTime() < createdAt.getTime()
+    ).length;
+  }
+
+  async save(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    this.entries.set(entry.id, entry);
+    return entry;
+  }
+
+  async saveWithSeat(entry: WaitlistEntry, seat: Seat): Promise<WaitlistEntry> {
+    await this.seatRepository.save(seat);
+    this.entries.set(entry.id, entry);
+    return entry;
+  }
+
+  /**
+   * WAITING entries for an event, oldest first
+   */
+  private waiting(eventId: string): WaitlistEntry[] {
+    return Array.from(this.entries.values())
+      .filter((entry) => entry.eventId === eventId && entry.status === WaitlistStatus.WAITING)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+}
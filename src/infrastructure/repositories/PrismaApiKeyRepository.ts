@@ -0,0 +1,105 @@
+import type { PrismaClient } from '@prisma/client';
+import { ApiKey, ApiKeyProps, ApiKeyScope } from '@/core/domain/api-key.entity';
+import { IApiKeyRepository } from '@/core/interfaces/IApiKeyRepository';
+
+/**
+ * Prisma ApiKey type from the database
+ * We define this manually to avoid Prisma version-specific import issues
+ */
+interface PrismaApiKey {
+  id: string;
+  partnerId: string;
+  name: string;
+  keyPrefix: string;
+  keyHash: string;
+  scopes: string[];
+  createdBy: string | null;
+  createdAt: Date;
+  revokedAt: Date | null;
+  updatedAt: Date;
+}
+
+/**
+ * Maps Prisma ApiKey model to Domain ApiKey entity
+ */
+function mapToDomain(prismaApiKey: PrismaApiKey): ApiKey {
+  const props: ApiKeyProps = {
+    id: prismaApiKey.id,
+    partnerId: prismaApiKey.partnerId,
+    name: prismaApiKey.name,
+    keyPrefix: prismaApiKey.keyPrefix,
+    keyHash: prismaApiKey.keyHash,
+    scopes: prismaApiKey.scopes as ApiKeyScope[],
+    createdBy: prismaApiKey.createdBy,
+    createdAt: prismaApiKey.createdAt,
+    revokedAt: prismaApiKey.revokedAt,
+  };
+  return ApiKey.fromPersistence(props);
+}
+
+/**
+ * Prisma API Key Repository
+ *
+ * Production implementation of IApiKeyRepository using Prisma ORM.
+ * Keys are looked up through the unique index on api_keys.key_hash;
+ * only the revocation is written back once a key exists.
+ *
+ * @example
+ * ```typescript
+ * const apiKeyRepo = new PrismaApiKeyRepository(prisma);
+ * const apiKey = await apiKeyRepo.findByHash(keyHash);
+ * ```
+ */
+export class PrismaApiKeyRepository implements IApiKeyRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<ApiKey | null> {
+    const prismaApiKey = await this.prisma.apiKey.findUnique({
+      where: { id },
+    });
+
+    if (!prismaApiKey) return null;
+    return mapToDomain(prismaApiKey as PrismaApiKey);
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKey | null> {
+    const prismaApiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash },
+    });
+
+    if (!prismaApiKey) return null;
+    return mapToDomain(prismaApiKey as PrismaApiKey);
+  }
+
+  async findAll(): Promise<ApiKey[]> {
+    const prismaApiKeys = await this.prisma.apiKey.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return prismaApiKeys.map((prismaApiKey: PrismaApiKey) => mapToDomain(prismaApiKey));
+  }
+
+  async save(apiKey: ApiKey): Promise<ApiKey> {
+    const data = apiKey.toJSON();
+
+    await this.prisma.apiKey.upsert({
+      where: { id: data.id },
+      create: {
+        id: data.id,
+        partnerId: data.partnerId,
+        name: data.name,
+        keyPrefix: data.keyPrefix,
+        keyHash: data.keyHash,
+        scopes: [...data.scopes],
+        createdBy: data.createdBy,
+        createdAt: data.createdAt,
+        revokedAt: data.revokedAt,
+      },
+      update: {
+        revokedAt: data.revokedAt,
+      },
+    });
+
+    return apiKey;
+  }
+}
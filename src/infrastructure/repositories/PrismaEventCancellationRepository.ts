@@ -0,0 +1,177 @@
+import type { PrismaClient } from '@prisma/client';
+import { EventCancellation, EventCancellationProps } from '@/core/domain/event-cancellation.entity';
+import { IEventCancellationRepository, FailedRefund } from '@/core/interfaces/IEventCancellationRepository';
+
+/**
+ * Prisma EventCancellation / FailedRefund types from the database
+ * We define these manually to avoid Prisma version-specific import issues
+ */
+interface PrismaEventCancellation {
+  id: string;
+  eventId: string;
+  cancelledBy: string;
+  reason: string | null;
+  totalRefunds: number;
+  refundedCount: number;
+  failedCount: number;
+  totalBatches: number;
+  processedBatches: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PrismaFailedRefund {
+  id: string;
+  cancellationId: string;
+  eventId: string;
+  seatId: string | null;
+  gaReservationId: string | null;
+  batchNumber: number;
+  error: string;
+  failedAt: Date;
+}
+
+/**
+ * Maps Prisma EventCancellation model to Domain EventCancellation entity
+ */
+function mapToDomain(prismaCancellation: PrismaEventCancellation): EventCancellation {
+  const props: EventCancellationProps = {
+    id: prismaCancellation.id,
+    eventId: prismaCancellation.eventId,
+    cancelledBy: prismaCancellation.cancelledBy,
+    reason: prismaCancellation.reason,
+    totalRefunds: prismaCancellation.totalRefunds,
+    refundedCount: prismaCancellation.refundedCount,
+    failedCount: prismaCancellation.failedCount,
+    totalBatches: prismaCancellation.totalBatches,
+    processedBatches: prismaCancellation.processedBatches,
+    createdAt: prismaCancellation.createdAt,
+  };
+  return EventCancellation.fromPersistence(props);
+}
+
+/**
+ * Prisma Event Cancellation Repository
+ *
+ * Production implementation of IEventCancellationRepository using Prisma ORM.
+ *
+ * Each processed refund batch leaves a row in `event_cancellation_batches`
+ * (primary key: cancellation + batch number). Recording a batch inserts
+ * that row with ON CONFLICT DO NOTHING (createMany + skipDuplicates) and
+ * only adds the counts when the insert went through, all in one
+ * transaction, so a redelivered refund job never counts twice.
+ *
+ * @example
+ * ```typescript
+ * const cancellationRepo = new PrismaEventCancellationRepository(prisma);
+ * const cancellation = await cancellationRepo.findByEventId('event-123');
+ * ```
+ */
+export class PrismaEventCancellationRepository implements IEventCancellationRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findByEventId(eventId: string): Promise<EventCancellation | null> {
+    const prismaCancellation = await this.prisma.eventCancellation.findUnique({
+      where: { eventId },
+    });
+
+    if (!prismaCancellation) return null;
+    return mapToDomain(prismaCancellation as PrismaEventCancellation);
+  }
+
+  async create(cancellation: EventCancellation): Promise<boolean> {
+    const data = cancellation.toJSON();
+
+    // event_id is unique: a concurrent cancellation of the same event inserts nothing
+    const result = await this.prisma.eventCancellation.createMany({
+      data: [
+        {
+          id: data.id,
+          eventId: data.eventId,
+          cancelledBy: data.cancelledBy,
+          reason: data.reason,
+          totalRefunds: data.totalRefunds,
+          refundedCount: data.refundedCount,
+          failedCount: data.failedCount,
+          totalBatches: data.totalBatches,
+          processedBatches: data.processedBatches,
+          createdAt: data.createdAt,
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    return result.count > 0;
+  }
+
+  async recordBatch(
+    cancellationId: string,
+    batchNumber: number,
+    refundedCount: number,
+    failures: FailedRefund[]
+  ): Promise<boolean> {
+    return this.prisma.$transaction(
+      async (tx: Pick<PrismaClient, 'eventCancellation' | 'eventCancellationBatch' | 'failedRefund'>) => {
+        const inserted = await tx.eventCancellationBatch.createMany({
+          data: [
+            {
+              cancellationId,
+              batchNumber,
+              refundedCount,
+              failedCount: failures.length,
+            },
+          ],
+          skipDuplicates: true,
+        });
+
+        if (inserted.count === 0) {
+          return false;
+        }
+
+        await tx.eventCancellation.update({
+          where: { id: cancellationId },
+          data: {
+            refundedCount: { increment: refundedCount },
+            failedCount: { increment: failures.length },
+            processedBatches: { increment: 1 },
+          },
+        });
+
+        if (failures.length > 0) {
+          await tx.failedRefund.createMany({
+            data: failures.map((failure) => ({
+              id: failure.id,
+              cancellationId: failure.cancellationId,
+              eventId: failure.eventId,
+              seatId: failure.seatId,
+              gaReservationId: failure.gaReservationId,
+              batchNumber: failure.batchNumber,
+              error: failure.error,
+              failedAt: failure.failedAt,
+            })),
+          });
+        }
+
+        return true;
+      }
+    );
+  }
+
+  async findFailedRefunds(cancellationId: string): Promise<FailedRefund[]> {
+    const prismaFailures = await this.prisma.failedRefund.findMany({
+      where: { cancellationId },
+      orderBy: { failedAt: 'asc' },
+    });
+
+    return prismaFailures.map((failure: PrismaFailedRefund) => ({
+      id: failure.id,
+      cancellationId: failure.cancellationId,
+      eventId: failure.eventId,
+      seatId: failure.seatId,
+      gaReservationId: failure.gaReservationId,
+      batchNumber: failure.batchNumber,
+      error: failure.error,
+      failedAt: failure.failedAt,
+    }));
+  }
+}
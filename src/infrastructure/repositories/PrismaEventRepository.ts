@@ -0,0 +1,209 @@
+import type { PrismaClient } from '@prisma/client';
+import { Event, EventProps } from '@/core/domain/event.entity';
+import { EventStatus } from '@/core/domain/sales-window.entity';
+import { Performance } from '@/core/domain/performance.entity';
+import { IEventRepository, EventFilter, EventInventory } from '@/core/interfaces/IEventRepository';
+
+/**
+ * Prisma Event type from the database
+ * We define this manually to avoid Prisma version-specific import issues
+ */
+interface PrismaEvent {
+  id: string;
+  title: string;
+  description: string | null;
+  date: Date;
+  location: string;
+  totalSeats: number;
+  resalePriceCapPercent: number | null;
+  status: string;
+  salesStartAt: Date | null;
+  salesEndAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Maps Prisma Event model to Domain Event entity
+ */
+function mapToDomain(prismaEvent: PrismaEvent): Event {
+  const props: EventProps = {
+    id: prismaEvent.id,
+    title: prismaEvent.title,
+    description: prismaEvent.description,
+    date: prismaEvent.date,
+    location: prismaEvent.location,
+    totalSeats: prismaEvent.totalSeats,
+    resalePriceCapPercent: prismaEvent.resalePriceCapPercent,
+    status: EventStatus[prismaEvent.status as keyof typeof EventStatus],
+    salesStartAt: prismaEvent.salesStartAt,
+    salesEndAt: prismaEvent.salesEndAt,
+    createdAt: prismaEvent.createdAt,
+  };
+  return Event.fromPersistence(props);
+}
+
+/**
+ * Prisma Event Repository
+ *
+ * Production implementation of IEventRepository using Prisma ORM.
+ * A new event is inserted with its price categories, first performance
+ * and seats in one transaction. Deleting cascades to everything the event
+ * owns, so it is guarded in the same statement: the DELETE only matches
+ * an event none of whose seats or GA tickets is locked, sold or ordered.
+ *
+ * @example
+ * ```typescript
+ * const eventRepo = new PrismaEventRepository(prisma);
+ * const events = await eventRepo.findMany({ from: new Date(), location: 'berlin' });
+ * ```
+ */
+export class PrismaEventRepository implements IEventRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<Event | null> {
+    const prismaEvent = await this.prisma.event.findUnique({
+      where: { id },
+    });
+
+    if (!prismaEvent) return null;
+    return mapToDomain(prismaEvent as PrismaEvent);
+  }
+
+  async findMany(filter: EventFilter): Promise<Event[]> {
+    const range = filter.from || filter.to ? { gte: filter.from, lte: filter.to } : undefined;
+
+    const prismaEvents = await this.prisma.event.findMany({
+      where: {
+        ...(filter.includeDrafts ? {} : { status: { not: EventStatus.DRAFT } }),
+        ...(filter.location ? { location: { contains: filter.location, mode: 'insensitive' } } : {}),
+        ...(range ? { OR: [{ date: range }, { performances: { some: { startsAt: range } } }] } : {}),
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    return prismaEvents.map((event: PrismaEvent) => mapToDomain(event));
+  }
+
+  async createWithInventory(event: Event, inventory: EventInventory): Promise<Event> {
+    const data = event.toJSON();
+    const performance = inventory.performance.toJSON();
+
+    await this.prisma.$transaction(
+      async (tx: Pick<PrismaClient, 'event' | 'priceCategory' | 'performance' | 'seat'>) => {
+        await tx.event.create({
+          data: {
+            id: data.id,
+            title: data.title,
+            description: data.description,
+            date: data.date,
+            location: data.location,
+            totalSeats: data.totalSeats,
+            resalePriceCapPercent: data.resalePriceCapPercent,
+            status: data.status,
+            salesStartAt: data.salesStartAt,
+            salesEndAt: data.salesEndAt,
+            createdAt: data.createdAt,
+          },
+        });
+
+        await tx.priceCategory.createMany({
+          data: inventory.priceCategories.map((category) => ({
+            id: category.id,
+            eventId: data.id,
+            name: category.name,
+            price: category.price,
+          })),
+        });
+
+        await tx.performance.create({
+          data: {
+            id: performance.id,
+            eventId: performance.eventId,
+            startsAt: performance.startsAt,
+            seatTemplateId: performance.seatTemplateId,
+            createdAt: performance.createdAt,
+          },
+        });
+
+        await tx.seat.createMany({
+          data: inventory.seats.map((seat) => {
+            const seatData = seat.toJSON();
+            return {
+              id: seatData.id,
+              eventId: seatData.eventId,
+              performanceId: seatData.performanceId,
+              seatNumber: seatData.seatNumber,
+              status: seatData.status,
+              price: seatData.price,
+              section: seatData.section,
+              row: seatData.row,
+              number: seatData.number,
+              priceCategoryId: seatData.priceCategory?.id ?? null,
+              version: seatData.version,
+            };
+          }),
+        });
+      }
+    );
+
+    return event;
+  }
+
+  async save(event: Event): Promise<Event> {
+    const data = event.toJSON();
+
+    await this.prisma.event.update({
+      where: { id: data.id },
+      data: {
+        title: data.title,
+        description: data.description,
+        location: data.location,
+        resalePriceCapPercent: data.resalePriceCapPercent,
+        status: data.status,
+        salesStartAt: data.salesStartAt,
+        salesEndAt: data.salesEndAt,
+      },
+    });
+
+    return event;
+  }
+
+  async reschedule(event: Event, performances: Performance[]): Promise<Event> {
+    await this.prisma.$transaction(async (tx: Pick<PrismaClient, 'event' | 'performance'>) => {
+      await tx.event.update({
+        where: { id: event.id },
+        data: { date: event.date },
+      });
+
+      for (const performance of performances) {
+        await tx.performance.update({
+          where: { id: performance.id },
+          data: { startsAt: performance.startsAt },
+        });
+      }
+    });
+
+    return event;
+  }
+
+  async deleteIfUnsold(id: string): Promise<boolean> {
+    const { count } = await this.prisma.event.deleteMany({
+      where: {
+        id,
+        seats: {
+          none: {
+            OR: [{ status: { in: ['LOCKED', 'SOLD'] } }, { orderItems: { some: {} } }],
+          },
+        },
+        gaZones: {
+          none: {
+            reservations: { some: { OR: [{ status: { in: ['LOCKED', 'SOLD'] } }, { orderItems: { some: {} } }] } },
+          },
+        },
+      },
+    });
+
+    return count === 1;
+  }
+}
@@ -0,0 +1,270 @@
+import type { PrismaClient } from '@prisma/client';
+import { GaZone, GaZoneProps } from '@/core/domain/ga-zone.entity';
+import {
+  GaReservation,
+  GaReservationStatus,
+  GaReservationProps,
+} from '@/core/domain/ga-reservation.entity';
+import { Order } from '@/core/domain/order.entity';
+import { IGaInventoryRepository } from '@/core/interfaces/IGaInventoryRepository';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { PrismaOrderRepository } from './PrismaOrderRepository';
+
+type PrismaDecimal = { toNumber(): number } | number;
+
+/**
+ * Prisma GaZone / GaReservation types from the database
+ * We define these manually to avoid Prisma version-specific import issues
+ */
+interface PrismaGaZone {
+  id: string;
+  eventId: string;
+  name: string;
+  price: PrismaDecimal;
+  capacity: number;
+  available: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PrismaGaReservation {
+  id: string;
+  zoneId: string;
+  eventId: string;
+  userId: string;
+  quantity: number;
+  unitPrice: PrismaDecimal;
+  status: 'LOCKED' | 'SOLD' | 'RELEASED' | 'EXPIRED' | 'REFUNDED';
+  lockExpiresAt: Date | null;
+  paymentReference: string | null;
+  version: number;
+  createdAt: Date;
+  soldAt: Date | null;
+  updatedAt: Date;
+}
+
+function toNumber(value: PrismaDecimal): number {
+  return typeof value === 'number' ? value : value.toNumber();
+}
+
+/**
+ * Maps Prisma GaZone model to Domain GaZone entity
+ */
+function mapZoneToDomain(prismaZone: PrismaGaZone): GaZone {
+  const props: GaZoneProps = {
+    id: prismaZone.id,
+    eventId: prismaZone.eventId,
+    name: prismaZone.name,
+    price: toNumber(prismaZone.price),
+    capacity: prismaZone.capacity,
+    available: prismaZone.available,
+  };
+  return GaZone.fromPersistence(props);
+}
+
+/**
+ * Maps Prisma GaReservation model to Domain GaReservation entity
+ */
+function mapReservationToDomain(prismaReservation: PrismaGaReservation): GaReservation {
+  const props: GaReservationProps = {
+    id: prismaReservation.id,
+    zoneId: prismaReservation.zoneId,
+    eventId: prismaReservation.eventId,
+    userId: prismaReservation.userId,
+    quantity: prismaReservation.quantity,
+    unitPrice: toNumber(prismaReservation.unitPrice),
+    status: GaReservationStatus[prismaReservation.status],
+    lockExpiresAt: prismaReservation.lockExpiresAt,
+    paymentReference: prismaReservation.paymentReference,
+    version: prismaReservation.version,
+    createdAt: prismaReservation.createdAt,
+    soldAt: prismaReservation.soldAt,
+  };
+  return GaReservation.fromPersistence(props);
+}
+
+/**
+ * Prisma GA Inventory Repository
+ *
+ * Production implementation of IGaInventoryRepository using Prisma ORM.
+ *
+ * Overselling protection: `ga_zones.available` is the atomic counter.
+ * Reserving runs `UPDATE ... SET available = available - n WHERE available >= n`
+ * (Prisma updateMany with a decrement), which Postgres evaluates under the
+ * row lock, so concurrent buyers can never take more than is left. A CHECK
+ * constraint (0 <= available <= capacity) backs this up in the database.
+ *
+ * Reservations use the same version-based optimistic locking as seats, so
+ * a reservation is released (and its tickets returned) at most once. Sales
+ * and refunds reuse PrismaOrderRepository inside the same transaction, so
+ * a reservation is never sold or refunded without its order.
+ *
+ * @example
+ * ```typescript
+ * const orderRepo = new PrismaOrderRepository(prisma, seatRepo);
+ * const gaRepo = new PrismaGaInventoryRepository(prisma, orderRepo);
+ * const zones = await gaRepo.findZonesByEventId('event-123');
+ * ```
+ */
+export class PrismaGaInventoryRepository implements IGaInventoryRepository {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly orderRepository: PrismaOrderRepository
+  ) {}
+
+  async findZoneById(id: string): Promise<GaZone | null> {
+    const prismaZone = await this.prisma.gaZone.findUnique({
+      where: { id },
+    });
+
+    if (!prismaZone) return null;
+    return mapZoneToDomain(prismaZone as PrismaGaZone);
+  }
+
+  async findZonesByEventId(eventId: string): Promise<GaZone[]> {
+    const prismaZones = await this.prisma.gaZone.findMany({
+      where: { eventId },
+      orderBy: { name: 'asc' },
+    });
+
+    return prismaZones.map((zone: PrismaGaZone) => mapZoneToDomain(zone));
+  }
+
+  async findReservationById(id: string): Promise<GaReservation | null> {
+    const prismaReservation = await this.prisma.gaReservation.findUnique({
+      where: { id },
+    });
+
+    if (!prismaReservation) return null;
+    return mapReservationToDomain(prismaReservation as PrismaGaReservation);
+  }
+
+  async findReservationsByEventId(eventId: string): Promise<GaReservation[]> {
+    const prismaReservations = await this.prisma.gaReservation.findMany({
+      where: { eventId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return prismaReservations.map((reservation: PrismaGaReservation) => mapReservationToDomain(reservation));
+  }
+
+  async reserve(reservation: GaReservation): Promise<boolean> {
+    const data = reservation.toJSON();
+
+    return this.prisma.$transaction(async (tx: Pick<PrismaClient, 'gaZone' | 'gaReservation'>) => {
+      // Conditional decrement: matches nothing if fewer than `quantity` tickets are left
+      const result = await tx.gaZone.updateMany({
+        where: { id: data.zoneId, available: { gte: data.quantity } },
+        data: { available: { decrement: data.quantity } },
+      });
+
+      if (result.count === 0) {
+        return false;
+      }
+
+      await tx.gaReservation.create({
+        data: {
+          id: data.id,
+          zoneId: data.zoneId,
+          eventId: data.eventId,
+          userId: data.userId,
+          quantity: data.quantity,
+          unitPrice: data.unitPrice,
+          status: data.status,
+          lockExpiresAt: data.lockExpiresAt,
+          paymentReference: data.paymentReference,
+          version: data.version,
+          createdAt: data.createdAt,
+          soldAt: data.soldAt,
+        },
+      });
+
+      return true;
+    });
+  }
+
+  /**
+   * Updates the reservation and creates or updates the order in one
+   * transaction; a ConcurrencyError rolls back both
+   */
+  async saveReservation(reservation: GaReservation, order?: Order): Promise<GaReservation> {
+    return this.prisma.$transaction(async (tx: Pick<PrismaClient, 'gaReservation' | 'order' | 'orderItem'>) => {
+      await this.updateInTransaction(reservation, tx);
+
+      if (order) {
+        await this.orderRepository.saveInTransaction(order, tx);
+      }
+
+      return reservation;
+    });
+  }
+
+  /**
+   * Updates the reservation, returns its tickets to the zone and updates
+   * the order in one transaction; a ConcurrencyError rolls back all three
+   */
+  async releaseReservation(reservation: GaReservation, order?: Order): Promise<GaReservation> {
+    return this.prisma.$transaction(
+      async (tx: Pick<PrismaClient, 'gaZone' | 'gaReservation' | 'order' | 'orderItem'>) => {
+        await this.updateInTransaction(reservation, tx);
+
+        await tx.gaZone.update({
+          where: { id: reservation.zoneId },
+          data: { available: { increment: reservation.quantity } },
+        });
+
+        if (order) {
+          await this.orderRepository.saveInTransaction(order, tx);
+        }
+
+        return reservation;
+      }
+    );
+  }
+
+  async findExpiredReservations(now: Date, limit: number): Promise<GaReservation[]> {
+    const prismaReservations = await this.prisma.gaReservation.findMany({
+      where: {
+        status: 'LOCKED',
+        lockExpiresAt: { lte: now },
+      },
+      orderBy: { lockExpiresAt: 'asc' },
+      take: limit,
+    });
+
+    return prismaReservations.map((reservation: PrismaGaReservation) => mapReservationToDomain(reservation));
+  }
+
+  /**
+   * Updates a reservation with optimistic locking
+   *
+   * @throws ConcurrencyError if the reservation was modified by another process
+   */
+  private async updateInTransaction(
+    reservation: GaReservation,
+    tx: Pick<PrismaClient, 'gaReservation'>
+  ): Promise<GaReservation> {
+    const data = reservation.toJSON();
+    const previousVersion = data.version - 1;
+
+    const result = await tx.gaReservation.updateMany({
+      where: {
+        id: data.id,
+        version: previousVersion,
+      },
+      data: {
+        status: data.status,
+        lockExpiresAt: data.lockExpiresAt,
+        paymentReference: data.paymentReference,
+        version: data.version,
+        soldAt: data.soldAt,
+      },
+    });
+
+    if (result.count === 0) {
+      throw new ConcurrencyError('GaReservation', data.id, previousVersion);
+    }
+
+    return reservation;
+  }
+}
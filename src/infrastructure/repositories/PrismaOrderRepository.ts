@@ -0,0 +1,205 @@
+import type { PrismaClient } from '@prisma/client';
+import { Order, OrderStatus, OrderProps } from '@/core/domain/order.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { IOrderRepository } from '@/core/interfaces/IOrderRepository';
+import { PrismaSeatRepository } from './PrismaSeatRepository';
+
+type PrismaDecimal = { toNumber(): number } | number;
+
+/**
+ * Prisma Order types from the database
+ * We define these manually to avoid Prisma version-specific import issues
+ */
+interface PrismaOrderItem {
+  id: string;
+  orderId: string;
+  seatId: string | null;
+  gaReservationId: string | null;
+  eventId: string;
+  seatNumber: string;
+  price: PrismaDecimal;
+  refundedAt: Date | null;
+  refundReason: string | null;
+}
+
+interface PrismaOrder {
+  id: string;
+  userId: string;
+  status: 'COMPLETED' | 'PARTIALLY_REFUNDED' | 'REFUNDED';
+  totalAmount: PrismaDecimal;
+  paymentReference: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  items: PrismaOrderItem[];
+}
+
+function toNumber(value: PrismaDecimal): number {
+  return typeof value === 'number' ? value : value.toNumber();
+}
+
+/**
+ * Maps Prisma Order model (with items) to Domain Order entity
+ */
+function mapToDomain(prismaOrder: PrismaOrder): Order {
+  const props: OrderProps = {
+    id: prismaOrder.id,
+    userId: prismaOrder.userId,
+    status: OrderStatus[prismaOrder.status],
+    totalAmount: toNumber(prismaOrder.totalAmount),
+    paymentReference: prismaOrder.paymentReference,
+    createdAt: prismaOrder.createdAt,
+    items: prismaOrder.items.map((item) => ({
+      id: item.id,
+      seatId: item.seatId,
+      gaReservationId: item.gaReservationId,
+      eventId: item.eventId,
+      seatNumber: item.seatNumber,
+      price: toNumber(item.price),
+      refundedAt: item.refundedAt,
+      refundReason: item.refundReason,
+    })),
+  };
+  return Order.fromPersistence(props);
+}
+
+/**
+ * Prisma Order Repository
+ *
+ * Production implementation of IOrderRepository using Prisma ORM.
+ * Seat updates reuse PrismaSeatRepository.saveInTransaction so they get
+ * the same optimistic locking as a standalone save.
+ *
+ * @example
+ * ```typescript
+ * const seatRepo = new PrismaSeatRepository(prisma);
+ * const orderRepo = new PrismaOrderRepository(prisma, seatRepo);
+ * await orderRepo.saveWithSeats(order, [soldSeat]);
+ * ```
+ */
+export class PrismaOrderRepository implements IOrderRepository {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly seatRepository: PrismaSeatRepository
+  ) {}
+
+  async findById(id: string): Promise<Order | null> {
+    const prismaOrder = await this.prisma.order.findUnique({
+      where: { id },
+      include: { items: true },
+    });
+
+    if (!prismaOrder) return null;
+    return mapToDomain(prismaOrder as PrismaOrder);
+  }
+
+  async findByUserId(userId: string): Promise<Order[]> {
+    const prismaOrders = await this.prisma.order.findMany({
+      where: { userId },
+      include: { items: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return prismaOrders.map((order: PrismaOrder) => mapToDomain(order));
+  }
+
+  async findActiveBySeatId(seatId: string): Promise<Order | null> {
+    const prismaOrder = await this.prisma.order.findFirst({
+      where: {
+        items: { some: { seatId, refundedAt: null } },
+      },
+      include: { items: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!prismaOrder) return null;
+    return mapToDomain(prismaOrder as PrismaOrder);
+  }
+
+  async findActiveByGaReservationId(reservationId: string): Promise<Order | null> {
+    const prismaOrder = await this.prisma.order.findFirst({
+      where: {
+        items: { some: { gaReservationId: reservationId, refundedAt: null } },
+      },
+      include: { items: true },
+    });
+
+    if (!prismaOrder) return null;
+    return mapToDomain(prismaOrder as PrismaOrder);
+  }
+
+  /**
+   * Creates or updates the order and saves its seats in one transaction.
+   *
+   * If any seat fails its optimistic locking check, the ConcurrencyError
+   * propagates out of $transaction and nothing is written. Items are
+   * immutable except for their refund state, which is the only part
+   * updated on an existing order.
+   */
+  async saveWithSeats(order: Order, seats: Seat[]): Promise<Order> {
+    await this.prisma.$transaction(async (tx: Pick<PrismaClient, 'seat' | 'order' | 'orderItem'>) => {
+      for (const seat of seats) {
+        await this.seatRepository.saveInTransaction(seat, tx);
+      }
+
+      await this.saveInTransaction(order, tx);
+    });
+
+    return order;
+  }
+
+  /**
+   * Creates or updates an order within an existing transaction.
+   * Useful when the order is written together with other aggregates (resale, GA).
+   */
+  async saveInTransaction(
+    order: Order,
+    tx: Pick<PrismaClient, 'order' | 'orderItem'>
+  ): Promise<Order> {
+    const orderData = order.toJSON();
+
+    const existing = await tx.order.findUnique({
+      where: { id: orderData.id },
+      select: { id: true },
+    });
+
+    if (existing) {
+      await tx.order.update({
+        where: { id: orderData.id },
+        data: { status: orderData.status },
+      });
+      for (const item of orderData.items) {
+        await tx.orderItem.update({
+          where: { id: item.id },
+          data: {
+            refundedAt: item.refundedAt,
+            refundReason: item.refundReason,
+          },
+        });
+      }
+      return order;
+    }
+
+    await tx.order.create({
+      data: {
+        id: orderData.id,
+        userId: orderData.userId,
+        status: orderData.status,
+        totalAmount: orderData.totalAmount,
+        paymentReference: orderData.paymentReference,
+        createdAt: orderData.createdAt,
+        items: {
+          create: orderData.items.map((item) => ({
+            id: item.id,
+            seatId: item.seatId,
+            gaReservationId: item.gaReservationId,
+            eventId: item.eventId,
+            seatNumber: item.seatNumber,
+            price: item.price,
+          })),
+        },
+      },
+    });
+
+    return order;
+  }
+}
@@ -0,0 +1,114 @@
+import type { PrismaClient } from '@prisma/client';
+import { Performance, PerformanceProps } from '@/core/domain/performance.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { IPerformanceRepository } from '@/core/interfaces/IPerformanceRepository';
+
+/**
+ * Prisma Performance type from the database
+ * We define this manually to avoid Prisma version-specific import issues
+ */
+interface PrismaPerformance {
+  id: string;
+  eventId: string;
+  startsAt: Date;
+  seatTemplateId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Maps Prisma Performance model to Domain Performance entity
+ */
+function mapToDomain(prismaPerformance: PrismaPerformance): Performance {
+  const props: PerformanceProps = {
+    id: prismaPerformance.id,
+    eventId: prismaPerformance.eventId,
+    startsAt: prismaPerformance.startsAt,
+    seatTemplateId: prismaPerformance.seatTemplateId,
+    createdAt: prismaPerformance.createdAt,
+  };
+  return Performance.fromPersistence(props);
+}
+
+/**
+ * Prisma Performance Repository
+ *
+ * Production implementation of IPerformanceRepository using Prisma ORM.
+ * New performances are inserted together with their generated seats in
+ * one transaction (a single multi-row INSERT for the seats).
+ *
+ * @example
+ * ```typescript
+ * const performanceRepo = new PrismaPerformanceRepository(prisma);
+ * const showtimes = await performanceRepo.findByEventId('event-123');
+ * ```
+ */
+export class PrismaPerformanceRepository implements IPerformanceRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<Performance | null> {
+    const prismaPerformance = await this.prisma.performance.findUnique({
+      where: { id },
+    });
+
+    if (!prismaPerformance) return null;
+    return mapToDomain(prismaPerformance as PrismaPerformance);
+  }
+
+  async findByEventId(eventId: string): Promise<Performance[]> {
+    const prismaPerformances = await this.prisma.performance.findMany({
+      where: { eventId },
+      orderBy: { startsAt: 'asc' },
+    });
+
+    return prismaPerformances.map((performance: PrismaPerformance) => mapToDomain(performance));
+  }
+
+  async findByEventIds(eventIds: string[]): Promise<Performance[]> {
+    if (eventIds.length === 0) return [];
+
+    const prismaPerformances = await this.prisma.performance.findMany({
+      where: { eventId: { in: eventIds } },
+      orderBy: { startsAt: 'asc' },
+    });
+
+    return prismaPerformances.map((performance: PrismaPerformance) => mapToDomain(performance));
+  }
+
+  async createWithSeats(performance: Performance, seats: Seat[]): Promise<Performance> {
+    const data = performance.toJSON();
+
+    await this.prisma.$transaction(async (tx: Pick<PrismaClient, 'performance' | 'seat'>) => {
+      await tx.performance.create({
+        data: {
+          id: data.id,
+          eventId: data.eventId,
+          startsAt: data.startsAt,
+          seatTemplateId: data.seatTemplateId,
+          createdAt: data.createdAt,
+        },
+      });
+
+      await tx.seat.createMany({
+        data: seats.map((seat) => {
+          const seatData = seat.toJSON();
+          return {
+            id: seatData.id,
+            eventId: seatData.eventId,
+            performanceId: seatData.performanceId,
+            seatNumber: seatData.seatNumber,
+            status: seatData.status,
+            price: seatData.price,
+            section: seatData.section,
+            row: seatData.row,
+            number: seatData.number,
+            priceCategoryId: seatData.priceCategory?.id ?? null,
+            version: seatData.version,
+          };
+        }),
+      });
+    });
+
+    return performance;
+  }
+}
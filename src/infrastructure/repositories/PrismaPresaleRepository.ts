@@ -0,0 +1,226 @@
+import type { PrismaClient } from '@prisma/client';
+import { Presale, PresaleProps } from '@/core/domain/presale.entity';
+import { PresaleCode, PresaleCodeProps } from '@/core/domain/presale-code.entity';
+import { IPresaleRepository, PresaleRedemption } from '@/core/interfaces/IPresaleRepository';
+
+/**
+ * Prisma Presale / PresaleCode types from the database
+ * We define these manually to avoid Prisma version-specific import issues
+ */
+interface PrismaPresale {
+  id: string;
+  eventId: string;
+  name: string;
+  startsAt: Date;
+  endsAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PrismaPresaleCode {
+  id: string;
+  presaleId: string;
+  code: string;
+  singleUse: boolean;
+  ticketQuota: number;
+  ticketsRemaining: number;
+  uses: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PrismaPresaleRedemptionLock {
+  redemptionId: string;
+  lockId: string;
+  quantity: number;
+}
+
+/**
+ * Maps Prisma Presale model to Domain Presale entity
+ */
+function mapPresaleToDomain(prismaPresale: PrismaPresale): Presale {
+  const props: PresaleProps = {
+    id: prismaPresale.id,
+    eventId: prismaPresale.eventId,
+    name: prismaPresale.name,
+    startsAt: prismaPresale.startsAt,
+    endsAt: prismaPresale.endsAt,
+  };
+  return Presale.fromPersistence(props);
+}
+
+/**
+ * Maps Prisma PresaleCode model to Domain PresaleCode entity
+ */
+function mapCodeToDomain(prismaCode: PrismaPresaleCode): PresaleCode {
+  const props: PresaleCodeProps = {
+    id: prismaCode.id,
+    presaleId: prismaCode.presaleId,
+    code: prismaCode.code,
+    singleUse: prismaCode.singleUse,
+    ticketQuota: prismaCode.ticketQuota,
+    ticketsRemaining: prismaCode.ticketsRemaining,
+    uses: prismaCode.uses,
+  };
+  return PresaleCode.fromPersistence(props);
+}
+
+/**
+ * Prisma Presale Repository
+ *
+ * Production implementation of IPresaleRepository using Prisma ORM.
+ *
+ * Quota protection: `presale_codes.tickets_remaining` is the atomic
+ * counter. Redeeming runs `UPDATE ... SET tickets_remaining =
+ * tickets_remaining - n WHERE tickets_remaining >= n` (plus `uses = 0` for
+ * single-use codes), which Postgres evaluates under the row lock, so
+ * concurrent buyers sharing a code can never exceed its quota. A CHECK
+ * constraint (tickets_remaining >= 0) backs this up in the database.
+ *
+ * Each redemption is linked to the locks holding its tickets
+ * (`presale_redemption_locks`); releasing a lock deletes its link and
+ * credits the code in one transaction, so a lock is never credited twice.
+ *
+ * @example
+ * ```typescript
+ * const presaleRepo = new PrismaPresaleRepository(prisma);
+ * const presales = await presaleRepo.findActiveByEventId('event-123', new Date());
+ * ```
+ */
+export class PrismaPresaleRepository implements IPresaleRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findActiveByEventId(eventId: string, now: Date): Promise<Presale[]> {
+    const prismaPresales = await this.prisma.presale.findMany({
+      where: {
+        eventId,
+        startsAt: { lte: now },
+        endsAt: { gt: now },
+      },
+      orderBy: { startsAt: 'asc' },
+    });
+
+    return prismaPresales.map((presale: PrismaPresale) => mapPresaleToDomain(presale));
+  }
+
+  async findCode(presaleId: string, code: string): Promise<PresaleCode | null> {
+    const prismaCode = await this.prisma.presaleCode.findUnique({
+      where: { presaleId_code: { presaleId, code } },
+    });
+
+    if (!prismaCode) return null;
+    return mapCodeToDomain(prismaCode as PrismaPresaleCode);
+  }
+
+  async redeem(code: PresaleCode, redemption: PresaleRedemption): Promise<boolean> {
+    return this.prisma.$transaction(
+      async (tx: Pick<PrismaClient, 'presaleCode' | 'presaleRedemption' | 'presaleRedemptionLock'>) => {
+        // Conditional decrement: matches nothing if the quota (or the single use) is gone
+        const result = await tx.presaleCode.updateMany({
+          where: {
+            id: code.id,
+            ticketsRemaining: { gte: redemption.quantity },
+            ...(code.singleUse ? { uses: 0 } : {}),
+          },
+          data: {
+            ticketsRemaining: { decrement: redemption.quantity },
+            uses: { increment: 1 },
+          },
+        });
+
+        if (result.count === 0) {
+          return false;
+        }
+
+        await tx.presaleRedemption.create({
+          data: {
+            id: redemption.id,
+            presaleCodeId: redemption.presaleCodeId,
+            eventId: redemption.eventId,
+            userId: redemption.userId,
+            quantity: redemption.quantity,
+            createdAt: redemption.createdAt,
+          },
+        });
+
+        await tx.presaleRedemptionLock.createMany({
+          data: redemption.locks.map((lock) => ({
+            redemptionId: redemption.id,
+            lockId: lock.lockId,
+            quantity: lock.quantity,
+          })),
+        });
+
+        return true;
+      }
+    );
+  }
+
+  async releaseRedemption(redemption: PresaleRedemption): Promise<void> {
+    await this.prisma.$transaction(
+      async (tx: Pick<PrismaClient, 'presaleCode' | 'presaleRedemption'>) => {
+        // Only hand the quota back if this call actually removed the redemption
+        const deleted = await tx.presaleRedemption.deleteMany({
+          where: { id: redemption.id },
+        });
+
+        if (deleted.count === 0) return;
+
+        await tx.presaleCode.update({
+          where: { id: redemption.presaleCodeId },
+          data: {
+            ticketsRemaining: { increment: redemption.quantity },
+            uses: { decrement: 1 },
+          },
+        });
+      }
+    );
+  }
+
+  async releaseLocks(lockIds: string[]): Promise<void> {
+    if (lockIds.length === 0) return;
+
+    const links = await this.prisma.presaleRedemptionLock.findMany({
+      where: { lockId: { in: lockIds } },
+    });
+
+    for (const link of links as PrismaPresaleRedemptionLock[]) {
+      await this.prisma.$transaction(
+        async (tx: Pick<PrismaClient, 'presaleCode' | 'presaleRedemption' | 'presaleRedemptionLock'>) => {
+          // Only hand the quota back if this call actually removed the link
+          const deleted = await tx.presaleRedemptionLock.deleteMany({
+            where: { redemptionId: link.redemptionId, lockId: link.lockId },
+          });
+
+          if (deleted.count === 0) return;
+
+          const redemption = await tx.presaleRedemption.update({
+            where: { id: link.redemptionId },
+            data: { quantity: { decrement: link.quantity } },
+          });
+
+          // Nothing left of the lock request: the code gets its use back too
+          if (redemption.quantity <= 0) {
+            await tx.presaleRedemption.delete({ where: { id: redemption.id } });
+          }
+
+          await tx.presaleCode.update({
+            where: { id: redemption.presaleCodeId },
+            data: {
+              ticketsRemaining: { increment: link.quantity },
+              ...(redemption.quantity <= 0 ? { uses: { decrement: 1 } } : {}),
+            },
+          });
+        }
+      );
+    }
+  }
+
+  async settleLocks(lockIds: string[]): Promise<void> {
+    if (lockIds.length === 0) return;
+
+    await this.prisma.presaleRedemptionLock.deleteMany({
+      where: { lockId: { in: lockIds } },
+    });
+  }
+}
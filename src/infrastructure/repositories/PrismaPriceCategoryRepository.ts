@@ -0,0 +1,39 @@
+import type { PrismaClient } from '@prisma/client';
+import { IPriceCategoryRepository, PriceCategory } from '@/core/interfaces/IPriceCategoryRepository';
+
+type PrismaDecimal = { toNumber(): number } | number;
+
+interface PrismaPriceCategory {
+  id: string;
+  name: string;
+  price: PrismaDecimal;
+}
+
+/**
+ * Prisma Price Category Repository
+ *
+ * Reads an event's price table.
+ *
+ * @example
+ * ```typescript
+ * const priceCategoryRepo = new PrismaPriceCategoryRepository(prisma);
+ * const categories = await priceCategoryRepo.findByEventId('event-123');
+ * ```
+ */
+export class PrismaPriceCategoryRepository implements IPriceCategoryRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findByEventId(eventId: string): Promise<PriceCategory[] | null> {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { priceCategories: { orderBy: { name: 'asc' } } },
+    });
+
+    if (!event) return null;
+    return event.priceCategories.map((category: PrismaPriceCategory) => ({
+      id: category.id,
+      name: category.name,
+      price: typeof category.price === 'number' ? category.price : category.price.toNumber(),
+    }));
+  }
+}
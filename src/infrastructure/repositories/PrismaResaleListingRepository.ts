@@ -0,0 +1,181 @@
+import type { PrismaClient } from '@prisma/client';
+import {
+  ResaleListing,
+  ResaleListingStatus,
+  ResaleListingProps,
+} from '@/core/domain/resale-listing.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { Order } from '@/core/domain/order.entity';
+import { IResaleListingRepository } from '@/core/interfaces/IResaleListingRepository';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { PrismaSeatRepository } from './PrismaSeatRepository';
+import { PrismaOrderRepository } from './PrismaOrderRepository';
+
+type PrismaDecimal = { toNumber(): number } | number;
+
+/**
+ * Prisma ResaleListing type from the database
+ * We define this manually to avoid Prisma version-specific import issues
+ */
+interface PrismaResaleListing {
+  id: string;
+  seatId: string;
+  eventId: string;
+  sellerId: string;
+  price: PrismaDecimal;
+  status: 'ACTIVE' | 'SOLD' | 'CANCELLED';
+  buyerId: string | null;
+  lockExpiresAt: Date | null;
+  platformFee: PrismaDecimal | null;
+  sellerPayout: PrismaDecimal | null;
+  version: number;
+  createdAt: Date;
+  soldAt: Date | null;
+  updatedAt: Date;
+}
+
+function toNumber(value: PrismaDecimal): number {
+  return typeof value === 'number' ? value : value.toNumber();
+}
+
+/**
+ * Maps Prisma ResaleListing model to Domain ResaleListing entity
+ */
+function mapToDomain(prismaListing: PrismaResaleListing): ResaleListing {
+  const props: ResaleListingProps = {
+    id: prismaListing.id,
+    seatId: prismaListing.seatId,
+    eventId: prismaListing.eventId,
+    sellerId: prismaListing.sellerId,
+    price: toNumber(prismaListing.price),
+    status: ResaleListingStatus[prismaListing.status],
+    buyerId: prismaListing.buyerId,
+    lockExpiresAt: prismaListing.lockExpiresAt,
+    platformFee: prismaListing.platformFee === null ? null : toNumber(prismaListing.platformFee),
+    sellerPayout: prismaListing.sellerPayout === null ? null : toNumber(prismaListing.sellerPayout),
+    version: prismaListing.version,
+    createdAt: prismaListing.createdAt,
+    soldAt: prismaListing.soldAt,
+  };
+  return ResaleListing.fromPersistence(props);
+}
+
+/**
+ * Prisma Resale Listing Repository
+ *
+ * Production implementation of IResaleListingRepository using Prisma ORM.
+ * Listings use the same version-based optimistic locking as seats. A sale
+ * reuses PrismaSeatRepository and PrismaOrderRepository inside one
+ * transaction, so the seat only changes hands together with the buyer's order.
+ *
+ * @example
+ * ```typescript
+ * const seatRepo = new PrismaSeatRepository(prisma);
+ * const orderRepo = new PrismaOrderRepository(prisma, seatRepo);
+ * const listingRepo = new PrismaResaleListingRepository(prisma, seatRepo, orderRepo);
+ * const listings = await listingRepo.findActiveByEventId('event-123');
+ * ```
+ */
+export class PrismaResaleListingRepository implements IResaleListingRepository {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly seatRepository: PrismaSeatRepository,
+    private readonly orderRepository: PrismaOrderRepository
+  ) {}
+
+  async findById(id: string): Promise<ResaleListing | null> {
+    const prismaListing = await this.prisma.resaleListing.findUnique({
+      where: { id },
+    });
+
+    if (!prismaListing) return null;
+    return mapToDomain(prismaListing as PrismaResaleListing);
+  }
+
+  async findActiveBySeatId(seatId: string): Promise<ResaleListing | null> {
+    const prismaListing = await this.prisma.resaleListing.findFirst({
+      where: { seatId, status: 'ACTIVE' },
+    });
+
+    if (!prismaListing) return null;
+    return mapToDomain(prismaListing as PrismaResaleListing);
+  }
+
+  async findActiveByEventId(eventId: string): Promise<ResaleListing[]> {
+    const prismaListings = await this.prisma.resaleListing.findMany({
+      where: { eventId, status: 'ACTIVE' },
+      orderBy: { price: 'asc' },
+    });
+
+    return prismaListings.map((listing: PrismaResaleListing) => mapToDomain(listing));
+  }
+
+  async save(listing: ResaleListing): Promise<ResaleListing> {
+    return this.saveInTransaction(listing, this.prisma);
+  }
+
+  /**
+   * Saves the sold listing, the transferred seat and the buyer's order in one transaction.
+   * A ConcurrencyError from any write rolls back all of them.
+   */
+  async saveSale(listing: ResaleListing, seat: Seat, order: Order): Promise<ResaleListing> {
+    return this.prisma.$transaction(
+      async (tx: Pick<PrismaClient, 'seat' | 'order' | 'orderItem' | 'resaleListing'>) => {
+        await this.seatRepository.saveInTransaction(seat, tx);
+        await this.orderRepository.saveInTransaction(order, tx);
+        return this.saveInTransaction(listing, tx);
+      }
+    );
+  }
+
+  /**
+   * Creates the listing (version 1) or updates it with optimistic locking
+   *
+   * @throws ConcurrencyError if the listing was modified by another process
+   */
+  private async saveInTransaction(
+    listing: ResaleListing,
+    tx: Pick<PrismaClient, 'resaleListing'>
+  ): Promise<ResaleListing> {
+    const listingData = listing.toJSON();
+    const previousVersion = listingData.version - 1;
+
+    if (listingData.version === 1) {
+      await tx.resaleListing.create({
+        data: {
+          id: listingData.id,
+          seatId: listingData.seatId,
+          eventId: listingData.eventId,
+          sellerId: listingData.sellerId,
+          price: listingData.price,
+          status: listingData.status,
+          version: listingData.version,
+          createdAt: listingData.createdAt,
+        },
+      });
+      return listing;
+    }
+
+    const result = await tx.resaleListing.updateMany({
+      where: {
+        id: listingData.id,
+        version: previousVersion,
+      },
+      data: {
+        status: listingData.status,
+        buyerId: listingData.buyerId,
+        lockExpiresAt: listingData.lockExpiresAt,
+        platformFee: listingData.platformFee,
+        sellerPayout: listingData.sellerPayout,
+        version: listingData.version,
+        soldAt: listingData.soldAt,
+      },
+    });
+
+    if (result.count === 0) {
+      throw new ConcurrencyError('ResaleListing', listingData.id, previousVersion);
+    }
+
+    return listing;
+  }
+}
@@ -0,0 +1,30 @@
+import type { PrismaClient } from '@prisma/client';
+import { IResalePolicyRepository, ResalePolicy } from '@/core/interfaces/IResalePolicyRepository';
+
+/**
+ * Prisma Resale Policy Repository
+ *
+ * Reads the resale cap organizers set on the event row.
+ *
+ * @example
+ * ```typescript
+ * const policyRepo = new PrismaResalePolicyRepository(prisma);
+ * const policy = await policyRepo.findByEventId('event-123');
+ * ```
+ */
+export class PrismaResalePolicyRepository implements IResalePolicyRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findByEventId(eventId: string): Promise<ResalePolicy | null> {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, resalePriceCapPercent: true },
+    });
+
+    if (!event) return null;
+    return {
+      eventId: event.id,
+      maxPricePercent: event.resalePriceCapPercent,
+    };
+  }
+}
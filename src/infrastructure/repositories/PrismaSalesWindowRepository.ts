@@ -0,0 +1,43 @@
+import type { PrismaClient } from '@prisma/client';
+import { SalesWindow, EventStatus } from '@/core/domain/sales-window.entity';
+import { ISalesWindowRepository } from '@/core/interfaces/ISalesWindowRepository';
+
+/**
+ * Prisma Sales Window Repository
+ *
+ * Reads the lifecycle status and on-sale window from the event row.
+ * Only the status is written back; organizers set the window itself.
+ *
+ * @example
+ * ```typescript
+ * const windowRepo = new PrismaSalesWindowRepository(prisma);
+ * const window = await windowRepo.findByEventId('event-123');
+ * ```
+ */
+export class PrismaSalesWindowRepository implements ISalesWindowRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findByEventId(eventId: string): Promise<SalesWindow | null> {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, status: true, salesStartAt: true, salesEndAt: true },
+    });
+
+    if (!event) return null;
+    return SalesWindow.fromPersistence({
+      eventId: event.id,
+      status: EventStatus[event.status as keyof typeof EventStatus],
+      salesStartAt: event.salesStartAt,
+      salesEndAt: event.salesEndAt,
+    });
+  }
+
+  async save(window: SalesWindow): Promise<SalesWindow> {
+    await this.prisma.event.update({
+      where: { id: window.eventId },
+      data: { status: window.status },
+    });
+
+    return window;
+  }
+}
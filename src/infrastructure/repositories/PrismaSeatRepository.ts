@@ -1,25 +1,54 @@
 import type { PrismaClient } from '@prisma/client';
 import { Seat, SeatStatus, SeatProps } from '@/core/domain/seat.entity';
-import { ISeatRepository } from '@/core/interfaces/ISeatRepository';
-import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { ISeatRepository, SoldTicket } from '@/core/interfaces/ISeatRepository';
+import { ConcurrencyError, BatchConcurrencyError } from '@/core/errors/repository.errors';
+
+type PrismaDecimal = { toNumber(): number } | number;
+
+/**
+ * Seats are always loaded with their price category,
+ * which holds the price when the seat has one
+ */
+const WITH_PRICE_CATEGORY = { priceCategory: true } as const;
 
 /**
  * Prisma Seat type from the database
  * We define this manually to avoid Prisma version-specific import issues
  */
+interface PrismaPriceCategory {
+  id: string;
+  name: string;
+  price: PrismaDecimal;
+}
+
 interface PrismaSeat {
   id: string;
   eventId: string;
+  performanceId: string;
   seatNumber: string;
-  status: 'AVAILABLE' | 'LOCKED' | 'SOLD';
-  price: { toNumber(): number } | number;
+  status: 'AVAILABLE' | 'LOCKED' | 'SOLD' | 'HELD';
+  price: PrismaDecimal;
+  section: string | null;
+  row: string | null;
+  number: number | null;
+  priceCategoryId: string | null;
+  priceCategory?: PrismaPriceCategory | null;
   userId: string | null;
   version: number;
+  lockExpiresAt: Date | null;
+  lockExtensions: number;
+  holdReason: string | null;
+  heldBy: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
-type PrismaSeatStatus = 'AVAILABLE' | 'LOCKED' | 'SOLD';
+interface PrismaSoldTicket extends PrismaSeat {
+  event: { id: string; title: string; location: string };
+  performance: { startsAt: Date };
+}
+
+type PrismaSeatStatus = 'AVAILABLE' | 'LOCKED' | 'SOLD' | 'HELD';
 
 /**
  * Maps Prisma SeatStatus to Domain SeatStatus
@@ -29,6 +58,7 @@ function mapPrismaStatusToDomain(status: PrismaSeatStatus): SeatStatus {
     AVAILABLE: SeatStatus.AVAILABLE,
     LOCKED: SeatStatus.LOCKED,
     SOLD: SeatStatus.SOLD,
+    HELD: SeatStatus.HELD,
   };
   return mapping[status];
 }
@@ -41,6 +71,7 @@ function mapDomainStatusToPrisma(status: SeatStatus): PrismaSeatStatus {
     [SeatStatus.AVAILABLE]: 'AVAILABLE',
     [SeatStatus.LOCKED]: 'LOCKED',
     [SeatStatus.SOLD]: 'SOLD',
+    [SeatStatus.HELD]: 'HELD',
   };
   return mapping[status];
 }
@@ -48,19 +79,31 @@ function mapDomainStatusToPrisma(status: SeatStatus): PrismaSeatStatus {
 /**
  * Maps Prisma Seat model to Domain Seat entity
  */
+function toNumber(value: PrismaDecimal): number {
+  return typeof value === 'number' ? value : value.toNumber();
+}
+
 function mapToDomain(prismaSeat: PrismaSeat): Seat {
-  const price = typeof prismaSeat.price === 'number' 
-    ? prismaSeat.price 
-    : prismaSeat.price.toNumber();
+  const category = prismaSeat.priceCategory ?? null;
+  const price = toNumber(category ? category.price : prismaSeat.price);
 
   const props: SeatProps = {
     id: prismaSeat.id,
     eventId: prismaSeat.eventId,
+    performanceId: prismaSeat.performanceId,
     seatNumber: prismaSeat.seatNumber,
     status: mapPrismaStatusToDomain(prismaSeat.status),
     price,
+    section: prismaSeat.section,
+    row: prismaSeat.row,
+    number: prismaSeat.number,
+    priceCategory: category ? { id: category.id, name: category.name } : null,
     userId: prismaSeat.userId,
     version: prismaSeat.version,
+    lockExpiresAt: prismaSeat.lockExpiresAt,
+    lockExtensions: prismaSeat.lockExtensions,
+    holdReason: prismaSeat.holdReason,
+    heldBy: prismaSeat.heldBy,
   };
   return Seat.fromPersistence(props);
 }
@@ -83,6 +126,7 @@ export class PrismaSeatRepository implements ISeatRepository {
   async findById(id: string): Promise<Seat | null> {
     const prismaSeat = await this.prisma.seat.findUnique({
       where: { id },
+      include: WITH_PRICE_CATEGORY,
     });
 
     if (!prismaSeat) return null;
@@ -92,6 +136,17 @@ export class PrismaSeatRepository implements ISeatRepository {
   async findByEventId(eventId: string): Promise<Seat[]> {
     const prismaSeats = await this.prisma.seat.findMany({
       where: { eventId },
+      include: WITH_PRICE_CATEGORY,
+      orderBy: { seatNumber: 'asc' },
+    });
+
+    return prismaSeats.map((seat) => mapToDomain(seat as PrismaSeat));
+  }
+
+  async findByPerformanceId(performanceId: string): Promise<Seat[]> {
+    const prismaSeats = await this.prisma.seat.findMany({
+      where: { performanceId },
+      include: WITH_PRICE_CATEGORY,
       orderBy: { seatNumber: 'asc' },
     });
 
@@ -104,12 +159,46 @@ export class PrismaSeatRepository implements ISeatRepository {
         id,
         version: expectedVersion,
       },
+      include: WITH_PRICE_CATEGORY,
     });
 
     if (!prismaSeat) return null;
     return mapToDomain(prismaSeat as PrismaSeat);
   }
 
+  async findExpiredLocks(now: Date, limit: number): Promise<Seat[]> {
+    const prismaSeats = await this.prisma.seat.findMany({
+      where: {
+        status: 'LOCKED',
+        lockExpiresAt: { lte: now },
+      },
+      include: WITH_PRICE_CATEGORY,
+      orderBy: { lockExpiresAt: 'asc' },
+      take: limit,
+    });
+
+    return prismaSeats.map((seat: PrismaSeat) => mapToDomain(seat));
+  }
+
+  async findSoldByUserId(userId: string): Promise<SoldTicket[]> {
+    // Served by the seats.user_id index
+    const prismaSeats = await this.prisma.seat.findMany({
+      where: { userId, status: 'SOLD' },
+      include: {
+        ...WITH_PRICE_CATEGORY,
+        event: { select: { id: true, title: true, location: true } },
+        performance: { select: { startsAt: true } },
+      },
+      orderBy: [{ performance: { startsAt: 'asc' } }, { seatNumber: 'asc' }],
+    });
+
+    return prismaSeats.map((prismaSeat: PrismaSoldTicket) => ({
+      seat: mapToDomain(prismaSeat),
+      event: prismaSeat.event,
+      startsAt: prismaSeat.performance.startsAt,
+    }));
+  }
+
   /**
    * Saves a seat with optimistic locking.
    * 
@@ -138,12 +227,22 @@ export class PrismaSeatRepository implements ISeatRepository {
         data: {
           id: seatData.id,
           eventId: seatData.eventId,
+          performanceId: seatData.performanceId,
           seatNumber: seatData.seatNumber,
           status: mapDomainStatusToPrisma(seatData.status),
           price: seatData.price,
+          section: seatData.section,
+          row: seatData.row,
+          number: seatData.number,
+          priceCategoryId: seatData.priceCategory?.id ?? null,
           userId: seatData.userId,
           version: seatData.version,
+          lockExpiresAt: seatData.lockExpiresAt,
+          lockExtensions: seatData.lockExtensions,
+          holdReason: seatData.holdReason,
+          heldBy: seatData.heldBy,
         },
+        include: WITH_PRICE_CATEGORY,
       });
       return mapToDomain(created as PrismaSeat);
     }
@@ -163,7 +262,11 @@ export class PrismaSeatRepository implements ISeatRepository {
         status: mapDomainStatusToPrisma(seatData.status),
         userId: seatData.userId,
         version: seatData.version, // Increment version
-        // Note: eventId, seatNumber, price are immutable after creation
+        lockExpiresAt: seatData.lockExpiresAt,
+        lockExtensions: seatData.lockExtensions,
+        holdReason: seatData.holdReason,
+        heldBy: seatData.heldBy,
+        // Note: eventId, performanceId, seatNumber, price and layout are immutable after creation
       },
     });
 
@@ -177,6 +280,45 @@ export class PrismaSeatRepository implements ISeatRepository {
     return seat;
   }
 
+  /**
+   * Saves several seats in a single transaction (all-or-nothing).
+   * 
+   * Every seat goes through the same optimistic locking check as save().
+   * Conflicts are collected for the whole batch before rolling back, so
+   * the caller learns about every seat that was taken, not just the first.
+   * Seats are written in ID order to keep row-lock ordering consistent
+   * across concurrent transactions (avoids deadlocks).
+   * 
+   * @throws BatchConcurrencyError if any seat was modified by another process
+   */
+  async saveAll(seats: Seat[]): Promise<Seat[]> {
+    const orderedSeats = [...seats].sort((a, b) => a.id.localeCompare(b.id));
+
+    return this.prisma.$transaction(async (tx: Pick<PrismaClient, 'seat'>) => {
+      const savedSeats: Seat[] = [];
+      const conflictingIds: string[] = [];
+
+      for (const seat of orderedSeats) {
+        try {
+          savedSeats.push(await this.saveInTransaction(seat, tx));
+        } catch (error) {
+          if (error instanceof ConcurrencyError) {
+            conflictingIds.push(seat.id);
+            continue;
+          }
+          throw error;
+        }
+      }
+
+      // Throwing inside $transaction rolls back every write above
+      if (conflictingIds.length > 0) {
+        throw new BatchConcurrencyError('Seat', conflictingIds);
+      }
+
+      return savedSeats;
+    });
+  }
+
   /**
    * Saves a seat within an existing transaction.
    * Useful when multiple seats need to be updated atomically.
@@ -193,12 +335,22 @@ export class PrismaSeatRepository implements ISeatRepository {
         data: {
           id: seatData.id,
           eventId: seatData.eventId,
+          performanceId: seatData.performanceId,
           seatNumber: seatData.seatNumber,
           status: mapDomainStatusToPrisma(seatData.status),
           price: seatData.price,
+          section: seatData.section,
+          row: seatData.row,
+          number: seatData.number,
+          priceCategoryId: seatData.priceCategory?.id ?? null,
           userId: seatData.userId,
           version: seatData.version,
+          lockExpiresAt: seatData.lockExpiresAt,
+          lockExtensions: seatData.lockExtensions,
+          holdReason: seatData.holdReason,
+          heldBy: seatData.heldBy,
         },
+        include: WITH_PRICE_CATEGORY,
       });
       return mapToDomain(created as PrismaSeat);
     }
@@ -212,6 +364,10 @@ export class PrismaSeatRepository implements ISeatRepository {
         status: mapDomainStatusToPrisma(seatData.status),
         userId: seatData.userId,
         version: seatData.version,
+        lockExpiresAt: seatData.lockExpiresAt,
+        lockExtensions: seatData.lockExtensions,
+        holdReason: seatData.holdReason,
+        heldBy: seatData.heldBy,
       },
     });
 
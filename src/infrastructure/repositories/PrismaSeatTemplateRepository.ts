@@ -0,0 +1,77 @@
+import type { PrismaClient } from '@prisma/client';
+import { SeatTemplate, SeatTemplateSeat } from '@/core/domain/seat-template.entity';
+import { ISeatTemplateRepository } from '@/core/interfaces/ISeatTemplateRepository';
+
+type PrismaDecimal = { toNumber(): number } | number;
+
+/**
+ * Prisma SeatTemplate / SeatTemplateSeat types from the database
+ * We define these manually to avoid Prisma version-specific import issues
+ */
+interface PrismaSeatTemplateSeat {
+  id: string;
+  templateId: string;
+  seatNumber: string;
+  section: string | null;
+  row: string | null;
+  number: number | null;
+  price: PrismaDecimal;
+  priceCategoryName: string | null;
+}
+
+interface PrismaSeatTemplate {
+  id: string;
+  name: string;
+  seats: PrismaSeatTemplateSeat[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toNumber(value: PrismaDecimal): number {
+  return typeof value === 'number' ? value : value.toNumber();
+}
+
+/**
+ * Maps Prisma SeatTemplate model (with its seats) to Domain SeatTemplate entity
+ */
+function mapToDomain(prismaTemplate: PrismaSeatTemplate): SeatTemplate {
+  const seats: SeatTemplateSeat[] = prismaTemplate.seats.map((seat) => ({
+    seatNumber: seat.seatNumber,
+    section: seat.section,
+    row: seat.row,
+    number: seat.number,
+    price: toNumber(seat.price),
+    priceCategoryName: seat.priceCategoryName,
+  }));
+
+  return SeatTemplate.fromPersistence({
+    id: prismaTemplate.id,
+    name: prismaTemplate.name,
+    seats,
+  });
+}
+
+/**
+ * Prisma Seat Template Repository
+ *
+ * Reads venue layouts with their seat positions.
+ *
+ * @example
+ * ```typescript
+ * const templateRepo = new PrismaSeatTemplateRepository(prisma);
+ * const template = await templateRepo.findById('tpl-imax-hall-1');
+ * ```
+ */
+export class PrismaSeatTemplateRepository implements ISeatTemplateRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<SeatTemplate | null> {
+    const prismaTemplate = await this.prisma.seatTemplate.findUnique({
+      where: { id },
+      include: { seats: { orderBy: { seatNumber: 'asc' } } },
+    });
+
+    if (!prismaTemplate) return null;
+    return mapToDomain(prismaTemplate as PrismaSeatTemplate);
+  }
+}
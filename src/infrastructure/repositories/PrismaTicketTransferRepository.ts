@@ -0,0 +1,152 @@
+import type { PrismaClient } from '@prisma/client';
+import {
+  TicketTransfer,
+  TicketTransferStatus,
+  TicketTransferProps,
+} from '@/core/domain/ticket-transfer.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { ITicketTransferRepository } from '@/core/interfaces/ITicketTransferRepository';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { PrismaSeatRepository } from './PrismaSeatRepository';
+
+/**
+ * Prisma TicketTransfer type from the database
+ * We define this manually to avoid Prisma version-specific import issues
+ */
+interface PrismaTicketTransfer {
+  id: string;
+  seatId: string;
+  eventId: string;
+  fromUserId: string;
+  toEmail: string;
+  toUserId: string | null;
+  status: 'PENDING' | 'ACCEPTED' | 'CANCELLED';
+  version: number;
+  createdAt: Date;
+  acceptedAt: Date | null;
+  updatedAt: Date;
+}
+
+/**
+ * Maps Prisma TicketTransfer model to Domain TicketTransfer entity
+ */
+function mapToDomain(prismaTransfer: PrismaTicketTransfer): TicketTransfer {
+  const props: TicketTransferProps = {
+    id: prismaTransfer.id,
+    seatId: prismaTransfer.seatId,
+    eventId: prismaTransfer.eventId,
+    fromUserId: prismaTransfer.fromUserId,
+    toEmail: prismaTransfer.toEmail,
+    toUserId: prismaTransfer.toUserId,
+    status: TicketTransferStatus[prismaTransfer.status],
+    version: prismaTransfer.version,
+    createdAt: prismaTransfer.createdAt,
+    acceptedAt: prismaTransfer.acceptedAt,
+  };
+  return TicketTransfer.fromPersistence(props);
+}
+
+/**
+ * Prisma Ticket Transfer Repository
+ *
+ * Production implementation of ITicketTransferRepository using Prisma ORM.
+ * Transfers use the same version-based optimistic locking as seats, and
+ * acceptance reuses PrismaSeatRepository.saveInTransaction for the seat,
+ * so the ownership swap fails if the seat changed since it was read.
+ *
+ * @example
+ * ```typescript
+ * const seatRepo = new PrismaSeatRepository(prisma);
+ * const transferRepo = new PrismaTicketTransferRepository(prisma, seatRepo);
+ * const pending = await transferRepo.findPendingBySeatId('seat-123');
+ * ```
+ */
+export class PrismaTicketTransferRepository implements ITicketTransferRepository {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly seatRepository: PrismaSeatRepository
+  ) {}
+
+  async findById(id: string): Promise<TicketTransfer | null> {
+    const prismaTransfer = await this.prisma.ticketTransfer.findUnique({
+      where: { id },
+    });
+
+    if (!prismaTransfer) return null;
+    return mapToDomain(prismaTransfer as PrismaTicketTransfer);
+  }
+
+  async findPendingBySeatId(seatId: string): Promise<TicketTransfer | null> {
+    const prismaTransfer = await this.prisma.ticketTransfer.findFirst({
+      where: { seatId, status: 'PENDING' },
+    });
+
+    if (!prismaTransfer) return null;
+    return mapToDomain(prismaTransfer as PrismaTicketTransfer);
+  }
+
+  async save(transfer: TicketTransfer): Promise<TicketTransfer> {
+    return this.saveInTransaction(transfer, this.prisma);
+  }
+
+  /**
+   * Saves the transfer and its seat in one transaction.
+   * A ConcurrencyError from either write rolls back both.
+   */
+  async saveWithSeat(transfer: TicketTransfer, seat: Seat): Promise<TicketTransfer> {
+    return this.prisma.$transaction(async (tx: Pick<PrismaClient, 'seat' | 'ticketTransfer'>) => {
+      await this.seatRepository.saveInTransaction(seat, tx);
+      return this.saveInTransaction(transfer, tx);
+    });
+  }
+
+  /**
+   * Creates the transfer (version 1) or updates it with optimistic locking
+   *
+   * @throws ConcurrencyError if the transfer was modified by another process
+   */
+  private async saveInTransaction(
+    transfer: TicketTransfer,
+    tx: Pick<PrismaClient, 'ticketTransfer'>
+  ): Promise<TicketTransfer> {
+    const transferData = transfer.toJSON();
+    const previousVersion = transferData.version - 1;
+
+    if (transferData.version === 1) {
+      await tx.ticketTransfer.create({
+        data: {
+          id: transferData.id,
+          seatId: transferData.seatId,
+          eventId: transferData.eventId,
+          fromUserId: transferData.fromUserId,
+          toEmail: transferData.toEmail,
+          toUserId: transferData.toUserId,
+          status: transferData.status,
+          version: transferData.version,
+          createdAt: transferData.createdAt,
+          acceptedAt: transferData.acceptedAt,
+        },
+      });
+      return transfer;
+    }
+
+    const result = await tx.ticketTransfer.updateMany({
+      where: {
+        id: transferData.id,
+        version: previousVersion,
+      },
+      data: {
+        status: transferData.status,
+        toUserId: transferData.toUserId,
+        version: transferData.version,
+        acceptedAt: transferData.acceptedAt,
+      },
+    });
+
+    if (result.count === 0) {
+      throw new ConcurrencyError('TicketTransfer', transferData.id, previousVersion);
+    }
+
+    return transfer;
+  }
+}
@@ -0,0 +1,93 @@
+import type { PrismaClient } from '@prisma/client';
+import { User, UserProps, UserRole } from '@/core/domain/user.entity';
+import { IUserRepository } from '@/core/interfaces/IUserRepository';
+
+/**
+ * Prisma User type from the database
+ * We define this manually to avoid Prisma version-specific import issues
+ */
+interface PrismaUser {
+  id: string;
+  email: string;
+  passwordHash: string;
+  role: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Maps Prisma User model to Domain User entity
+ */
+function mapToDomain(prismaUser: PrismaUser): User {
+  const props: UserProps = {
+    id: prismaUser.id,
+    email: prismaUser.email,
+    passwordHash: prismaUser.passwordHash,
+    role: UserRole[prismaUser.role as keyof typeof UserRole],
+    createdAt: prismaUser.createdAt,
+  };
+  return User.fromPersistence(props);
+}
+
+/**
+ * Prisma User Repository
+ *
+ * Production implementation of IUserRepository using Prisma ORM.
+ * Only the role is written back on save; email and password are set at sign-up.
+ *
+ * @example
+ * ```typescript
+ * const userRepo = new PrismaUserRepository(prisma);
+ * const user = await userRepo.findByEmail('fan@example.com');
+ * ```
+ */
+export class PrismaUserRepository implements IUserRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<User | null> {
+    const prismaUser = await this.prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!prismaUser) return null;
+    return mapToDomain(prismaUser as PrismaUser);
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const prismaUser = await this.prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (!prismaUser) return null;
+    return mapToDomain(prismaUser as PrismaUser);
+  }
+
+  async create(user: User): Promise<boolean> {
+    const data = user.toJSON();
+
+    // email is unique: a concurrent registration with the same email inserts nothing
+    const result = await this.prisma.user.createMany({
+      data: [
+        {
+          id: data.id,
+          email: data.email,
+          passwordHash: data.passwordHash,
+          role: data.role,
+          createdAt: data.createdAt,
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    return result.count > 0;
+  }
+
+  async save(user: User): Promise<User> {
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { role: user.role },
+    });
+
+    return user;
+  }
+}
@@ -0,0 +1,178 @@
+import type { PrismaClient } from '@prisma/client';
+import {
+  WaitlistEntry,
+  WaitlistStatus,
+  WaitlistEntryProps,
+} from '@/core/domain/waitlist-entry.entity';
+import { Seat } from '@/core/domain/seat.entity';
+import { IWaitlistRepository } from '@/core/interfaces/IWaitlistRepository';
+import { ConcurrencyError } from '@/core/errors/repository.errors';
+import { PrismaSeatRepository } from './PrismaSeatRepository';
+
+/**
+ * Prisma WaitlistEntry type from the database
+ * We define this manually to avoid Prisma version-specific import issues
+ */
+interface PrismaWaitlistEntry {
+  id: string;
+  eventId: string;
+  userId: string;
+  status: 'WAITING' | 'OFFERED' | 'CLAIMED' | 'EXPIRED' | 'LEFT';
+  seatId: string | null;
+  offerExpiresAt: Date | null;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Maps Prisma WaitlistEntry model to Domain WaitlistEntry entity
+ */
+function mapToDomain(prismaEntry: PrismaWaitlistEntry): WaitlistEntry {
+  const props: WaitlistEntryProps = {
+    id: prismaEntry.id,
+    eventId: prismaEntry.eventId,
+    userId: prismaEntry.userId,
+    status: WaitlistStatus[prismaEntry.status],
+    seatId: prismaEntry.seatId,
+    offerExpiresAt: prismaEntry.offerExpiresAt,
+    version: prismaEntry.version,
+    createdAt: prismaEntry.createdAt,
+  };
+  return WaitlistEntry.fromPersistence(props);
+}
+
+/**
+ * Prisma Waitlist Repository
+ *
+ * Production implementation of IWaitlistRepository using Prisma ORM.
+ * Entries use the same version-based optimistic locking as seats, and
+ * offers reuse PrismaSeatRepository.saveInTransaction for the held seat.
+ *
+ * @example
+ * ```typescript
+ * const seatRepo = new PrismaSeatRepository(prisma);
+ * const waitlistRepo = new PrismaWaitlistRepository(prisma, seatRepo);
+ * const next = await waitlistRepo.findNextWaiting('event-123');
+ * ```
+ */
+export class PrismaWaitlistRepository implements IWaitlistRepository {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly seatRepository: PrismaSeatRepository
+  ) {}
+
+  async findById(id: string): Promise<WaitlistEntry | null> {
+    const prismaEntry = await this.prisma.waitlistEntry.findUnique({
+      where: { id },
+    });
+
+    if (!prismaEntry) return null;
+    return mapToDomain(prismaEntry as PrismaWaitlistEntry);
+  }
+
+  async findActiveByEventAndUser(eventId: string, userId: string): Promise<WaitlistEntry | null> {
+    const prismaEntry = await this.prisma.waitlistEntry.findFirst({
+      where: {
+        eventId,
+        userId,
+        status: { in: ['WAITING', 'OFFERED'] },
+      },
+    });
+
+    if (!prismaEntry) return null;
+    return mapToDomain(prismaEntry as PrismaWaitlistEntry);
+  }
+
+  async findNextWaiting(eventId: string): Promise<WaitlistEntry | null> {
+    const prismaEntry = await this.prisma.waitlistEntry.findFirst({
+      where: { eventId, status: 'WAITING' },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!prismaEntry) return null;
+    return mapToDomain(prismaEntry as PrismaWaitlistEntry);
+  }
+
+  async findOfferedBySeatId(seatId: string): Promise<WaitlistEntry | null> {
+    const prismaEntry = await this.prisma.waitlistEntry.findFirst({
+      where: { seatId, status: 'OFFERED' },
+    });
+
+    if (!prismaEntry) return null;
+    return mapToDomain(prismaEntry as PrismaWaitlistEntry);
+  }
+
+  async countWaitingBefore(eventId: string, createdAt: Date): Promise<number> {
+    return this.prisma.waitlistEntry.count({
+      where: {
+        eventId,
+        status: 'WAITING',
+        createdAt: { lt: createdAt },
+      },
+    });
+  }
+
+  async save(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    return this.saveInTransaction(entry, this.prisma);
+  }
+
+  /**
+   * Saves the entry and its seat in one transaction.
+   * A ConcurrencyError from either write rolls back both.
+   */
+  async saveWithSeat(entry: WaitlistEntry, seat: Seat): Promise<WaitlistEntry> {
+    return this.prisma.$transaction(async (tx: Pick<PrismaClient, 'seat' | 'waitlistEntry'>) => {
+      await this.seatRepository.saveInTransaction(seat, tx);
+      return this.saveInTransaction(entry, tx);
+    });
+  }
+
+  /**
+   * Creates the entry (version 1) or updates it with optimistic locking
+   *
+   * @throws ConcurrencyError if the entry was modified by another process
+   */
+  private async saveInTransaction(
+    entry: WaitlistEntry,
+    tx: Pick<PrismaClient, 'waitlistEntry'>
+  ): Promise<WaitlistEntry> {
+    const entryData = entry.toJSON();
+    const previousVersion = entryData.version - 1;
+
+    if (entryData.version === 1) {
+      await tx.waitlistEntry.create({
+        data: {
+          id: entryData.id,
+          eventId: entryData.eventId,
+          userId: entryData.userId,
+          status: entryData.status,
+          seatId: entryData.seatId,
+          offerExpiresAt: entryData.offerExpiresAt,
+          version: entryData.version,
+          createdAt: entryData.createdAt,
+        },
+      });
+      return entry;
+    }
+
+    const result = await tx.waitlistEntry.updateMany({
+      where: {
+        id: entryData.id,
+        version: previousVersion,
+      },
+      data: {
+        status: entryData.status,
+        seatId: entryData.seatId,
+        offerExpiresAt: entryData.offerExpiresAt,
+        version: entryData.version,
+      },
+    });
+
+    if (result.count === 0) {
+      throw new ConcurrencyError('WaitlistEntry', entryData.id, previousVersion);
+    }
+
+    return entry;
+  }
+}
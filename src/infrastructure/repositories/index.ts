@@ -5,3 +5,37 @@
 export { InMemorySeatRepository } from './InMemorySeatRepository';
 export { PrismaSeatRepository } from './PrismaSeatRepository';
 export { CachedSeatRepository } from './CachedSeatRepository';
+export { InMemoryOrderRepository } from './InMemoryOrderRepository';
+export { PrismaOrderRepository } from './PrismaOrderRepository';
+export { CachedOrderRepository } from './CachedOrderRepository';
+export { InMemoryWaitlistRepository } from './InMemoryWaitlistRepository';
+export { PrismaWaitlistRepository } from './PrismaWaitlistRepository';
+export { CachedWaitlistRepository } from './CachedWaitlistRepository';
+export { InMemoryTicketTransferRepository } from './InMemoryTicketTransferRepository';
+export { PrismaTicketTransferRepository } from './PrismaTicketTransferRepository';
+export { CachedTicketTransferRepository } from './CachedTicketTransferRepository';
+export { InMemoryResaleListingRepository } from './InMemoryResaleListingRepository';
+export { PrismaResaleListingRepository } from './PrismaResaleListingRepository';
+export { CachedResaleListingRepository } from './CachedResaleListingRepository';
+export { InMemoryResalePolicyRepository } from './InMemoryResalePolicyRepository';
+export { PrismaResalePolicyRepository } from './PrismaResalePolicyRepository';
+export { InMemoryGaInventoryRepository } from './InMemoryGaInventoryRepository';
+export { PrismaGaInventoryRepository } from './PrismaGaInventoryRepository';
+export { InMemoryEventRepository } from './InMemoryEventRepository';
+export { PrismaEventRepository } from './PrismaEventRepository';
+export { InMemoryPerformanceRepository } from './InMemoryPerformanceRepository';
+export { PrismaPerformanceRepository } from './PrismaPerformanceRepository';
+export { InMemorySeatTemplateRepository } from './InMemorySeatTemplateRepository';
+export { PrismaSeatTemplateRepository } from './PrismaSeatTemplateRepository';
+export { InMemoryPriceCategoryRepository } from './InMemoryPriceCategoryRepository';
+export { PrismaPriceCategoryRepository } from './PrismaPriceCategoryRepository';
+export { InMemorySalesWindowRepository } from './InMemorySalesWindowRepository';
+export { PrismaSalesWindowRepository } from './PrismaSalesWindowRepository';
+export { InMemoryPresaleRepository } from './InMemoryPresaleRepository';
+export { PrismaPresaleRepository } from './PrismaPresaleRepository';
+export { InMemoryEventCancellationRepository } from './InMemoryEventCancellationRepository';
+export { PrismaEventCancellationRepository } from './PrismaEventCancellationRepository';
+export { InMemoryUserRepository } from './InMemoryUserRepository';
+export { PrismaUserRepository } from './PrismaUserRepository';
+export { InMemoryApiKeyRepository } from './InMemoryApiKeyRepository';
+export { PrismaApiKeyRepository } from './PrismaApiKeyRepository';
@@ -0,0 +1,138 @@
+/**
+ * Admin Route Guard
+ * 
+ * Route-handler side of the admin access control (see ./authorization):
+ * checks the caller's permission and logs every denial with the
+ * request's correlation ID. A session keeps the role it was issued with,
+ * so signed-in staff are checked against the role their account has
+ * now: a demoted user loses access on their next request.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Permission } from '@/core/domain/permission';
+import { UserNotFoundError } from '@/core/services/AuthService';
+import { getAuthService } from '@/app/api/container';
+import { logger } from '@/infrastructure/logging/Logger';
+import { runWithContext, createContext } from '@/infrastructure/logging/RequestContext';
+import { getCorrelationIdFromRequest } from './helpers';
+import { getBuyer } from './guest';
+import {
+  resolvePrincipal,
+  authorizePrincipal,
+  accessDeniedResponse,
+  describeDenial,
+  type AuthorizationDecision,
+  type Principal,
+} from './authorization';
+
+/**
+ * Checks that the caller may use a permission
+ * 
+ * @example
+ * ```typescript
+ * const access = await authorizeAdminRequest(request, Permission.EVENTS_CANCEL);
+ * if (!access.allowed) {
+ *   return accessDeniedResponse(access);
+ * }
+ * ```
+ */
+export async function authorizeAdminRequest(
+  request: NextRequest,
+  permission: Permission
+): Promise<AuthorizationDecision> {
+  const decision = authorizePrincipal(await resolveCurrentPrincipal(request), permission);
+
+  if (!decision.allowed) {
+    const context = createContext({
+      correlationId: getCorrelationIdFromRequest(request),
+      path: request.nextUrl.pathname,
+      method: request.method,
+    });
+
+    runWithContext(context, () => logger.warn('Access denied', describeDenial(request, decision)));
+  }
+
+  return decision;
+}
+
+/**
+ * Checks that the caller may read a customer's data: the customer
+ * themselves (signed in or as a guest), or staff with the permission
+ *
+ * @returns null if allowed, otherwise the 401/403 response to send
+ *
+ * @example
+ * ```typescript
+ * const denied = await authorizeOwnerRequest(request, userId, Permission.ORDERS_READ);
+ * if (denied) {
+ *   return denied;
+ * }
+ * ```
+ */
+export async function authorizeOwnerRequest(
+  request: NextRequest,
+  ownerId: string,
+  permission: Permission
+): Promise<NextResponse | null> {
+  const buyer = await getBuyer(request);
+  if (buyer?.userId === ownerId) {
+    return null;
+  }
+
+  const access = await authorizeAdminRequest(request, permission);
+  if (access.allowed) {
+    return null;
+  }
+
+  if (!buyer) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Sign in or continue as a guest',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  if (access.principal) {
+    return accessDeniedResponse(access);
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Customers can only see their own data',
+      },
+    },
+    { status: 403 }
+  );
+}
+
+/**
+ * Identifies the caller, with a signed-in user's role read from their account
+ *
+ * @returns The caller, or null if anonymous or the account no longer exists
+ */
+async function resolveCurrentPrincipal(request: NextRequest): Promise<Principal | null> {
+  const principal = await resolvePrincipal(request);
+
+  if (principal?.kind !== 'user' || !principal.userId) {
+    return principal;
+  }
+
+  try {
+    const authService = await getAuthService();
+    const user = await authService.getUser(principal.userId);
+    return { ...principal, role: user.role };
+  } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Waiting Room Admission Tokens
+ * 
+ * Users admitted from an event's waiting room receive a signed token
+ * (see ./tokens, keyed with WAITING_ROOM_SECRET) bound to the event and user.
+ */
+
+import { importSigningKey, signToken, verifyToken } from './tokens';
+
+/**
+ * Header carrying the admission token
+ */
+export const ADMISSION_TOKEN_HEADER = 'x-admission-token';
+
+/**
+ * Default admission token lifetime (15 minutes)
+ */
+export const DEFAULT_ADMISSION_TTL_SECONDS = 15 * 60;
+
+/**
+ * Claims carried by an admission token
+ */
+export interface AdmissionTokenPayload {
+  readonly eventId: string;
+  readonly userId: string;
+  readonly exp: number;  // Expiry (Unix seconds)
+}
+
+/**
+ * Custom Error: Missing, invalid or expired admission token
+ */
+export class AdmissionRequiredError extends Error {
+  constructor(message: string = 'A valid admission token is required') {
+    super(message);
+    this.name = 'AdmissionRequiredError';
+  }
+}
+
+/**
+ * Checks whether the waiting room is switched on (WAITING_ROOM_ENABLED=true)
+ */
+export function isWaitingRoomEnabled(): boolean {
+  return process.env.WAITING_ROOM_ENABLED === 'true';
+}
+
+/**
+ * Signs an admission token for a user admitted to an event
+ * 
+ * @throws Error if WAITING_ROOM_SECRET is not configured
+ */
+export async function signAdmissionToken(
+  eventId: string,
+  userId: string,
+  ttlSeconds: number = DEFAULT_ADMISSION_TTL_SECONDS,
+  now: Date = new Date()
+): Promise<{ token: string; expiresAt: Date }> {
+  const exp = Math.floor(now.getTime() / 1000) + ttlSeconds;
+  const payload: AdmissionTokenPayload = { eventId, userId, exp };
+  const key = await importSigningKey(process.env.WAITING_ROOM_SECRET);
+
+  if (!key) {
+    throw new Error('WAITING_ROOM_SECRET is not configured');
+  }
+
+  return {
+    token: await signToken(payload, key),
+    expiresAt: new Date(exp * 1000),
+  };
+}
+
+/**
+ * Verifies an admission token's signature and expiry
+ * 
+ * @returns The token's claims, or null if missing, forged or expired
+ *          (always null while WAITING_ROOM_SECRET is unset)
+ */
+export async function verifyAdmissionToken(
+  token: string | null,
+  now: Date = new Date()
+): Promise<AdmissionTokenPayload | null> {
+  const key = await importSigningKey(process.env.WAITING_ROOM_SECRET);
+  return verifyToken<AdmissionTokenPayload>(token, key, now);
+}
+
+/**
+ * Resolves the event a lock request is admitted to
+ * 
+ * @returns The admitted event ID, or undefined while the waiting room is off
+ * @throws AdmissionRequiredError if the token is missing, invalid or issued to another user
+ */
+export async function getAdmittedEventId(
+  request: Request,
+  userId: string
+): Promise<string | undefined> {
+  if (!isWaitingRoomEnabled()) {
+    return undefined;
+  }
+
+  const admission = await verifyAdmissionToken(request.headers.get(ADMISSION_TOKEN_HEADER));
+
+  if (!admission || admission.userId !== userId) {
+    throw new AdmissionRequiredError();
+  }
+
+  return admission.eventId;
+}
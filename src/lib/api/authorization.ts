@@ -0,0 +1,187 @@
+/**
+ * Role-Based Access Control for Admin Routes
+ * 
+ * Admin routes (/api/v1/admin/*) each require a permission (see
+ * ADMIN_ROUTE_PERMISSIONS). A caller is allowed when:
+ * 
+ * - they are signed in and their role grants the permission
+ *   (see core/domain/permission), or
+ * - they present the ADMIN_API_KEY in the X-Admin-Api-Key header
+ *   (scripts and integrations; treated as an ADMIN)
+ * 
+ * Edge-safe, so the middleware turns callers away before the route
+ * runs; route handlers check again through lib/api/admin, with the role
+ * the user's account has now rather than the one in the session.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@/core/domain/user.entity';
+import { Permission, roleHasPermission } from '@/core/domain/permission';
+import { getSession } from './session';
+
+/**
+ * Header name carrying the admin API key
+ */
+export const ADMIN_API_KEY_HEADER = 'x-admin-api-key';
+
+/**
+ * Who is calling an admin route
+ */
+export interface Principal {
+  readonly kind: 'user' | 'api-key';
+  readonly userId: string | null;  // null for the admin API key
+  readonly role: UserRole;
+}
+
+/**
+ * Outcome of an authorization check
+ */
+export type AuthorizationDecision =
+  | { readonly allowed: true; readonly principal: Principal; readonly permission: Permission | null }
+  | { readonly allowed: false; readonly principal: Principal | null; readonly permission: Permission | null };
+
+/**
+ * Permission required by each admin route
+ */
+const ADMIN_ROUTE_PERMISSIONS: ReadonlyArray<{ method: string; pattern: RegExp; permission: Permission }> = [
+  { method: 'POST', pattern: /^\/api\/v1\/admin\/seats\/(?:hold|unhold)$/, permission: Permission.SEATS_HOLD },
+  { method: 'POST', pattern: /^\/api\/v1\/admin\/seats\/[^/]+\/refund$/, permission: Permission.SEATS_REFUND },
+  { method: 'POST', pattern: /^\/api\/v1\/admin\/events(?:\/[^/]+\/reschedule)?$/, permission: Permission.EVENTS_MANAGE },
+  { method: 'PATCH', pattern: /^\/api\/v1\/admin\/events\/[^/]+$/, permission: Permission.EVENTS_MANAGE },
+  { method: 'DELETE', pattern: /^\/api\/v1\/admin\/events\/[^/]+$/, permission: Permission.EVENTS_MANAGE },
+  { method: 'POST', pattern: /^\/api\/v1\/admin\/events\/[^/]+\/performances$/, permission: Permission.PERFORMANCES_SCHEDULE },
+  { method: 'POST', pattern: /^\/api\/v1\/admin\/events\/[^/]+\/cancel$/, permission: Permission.EVENTS_CANCEL },
+  {
+    method: 'GET',
+    pattern: /^\/api\/v1\/admin\/events\/[^/]+\/cancellation(?:\/failed-refunds)?$/,
+    permission: Permission.CANCELLATIONS_READ,
+  },
+  { method: 'PUT', pattern: /^\/api\/v1\/admin\/users\/[^/]+\/role$/, permission: Permission.USERS_MANAGE },
+  { method: 'GET', pattern: /^\/api\/v1\/admin\/api-keys$/, permission: Permission.API_KEYS_MANAGE },
+  { method: 'POST', pattern: /^\/api\/v1\/admin\/api-keys(?:\/[^/]+\/revoke)?$/, permission: Permission.API_KEYS_MANAGE },
+];
+
+/**
+ * Looks up the permission an admin route requires
+ * 
+ * @returns The permission, or null for a route missing from the table
+ *          (only admins may call it)
+ */
+export function getRequiredPermission(method: string, pathname: string): Permission | null {
+  const route = ADMIN_ROUTE_PERMISSIONS.find(
+    (candidate) => candidate.method === method && candidate.pattern.test(pathname)
+  );
+
+  return route?.permission ?? null;
+}
+
+/**
+ * Identifies the caller from the admin API key or the session cookie
+ * 
+ * @returns The caller, or null if anonymous
+ */
+export async function resolvePrincipal(request: NextRequest): Promise<Principal | null> {
+  if (hasValidAdminApiKey(request)) {
+    return { kind: 'api-key', userId: null, role: UserRole.ADMIN };
+  }
+
+  const session = await getSession(request);
+  return session ? { kind: 'user', userId: session.userId, role: session.role } : null;
+}
+
+/**
+ * Checks whether the caller may use a permission
+ * 
+ * @param permission - The permission required, or null for admins only
+ */
+export async function authorize(
+  request: NextRequest,
+  permission: Permission | null
+): Promise<AuthorizationDecision> {
+  return authorizePrincipal(await resolvePrincipal(request), permission);
+}
+
+/**
+ * Checks whether a known caller may use a permission
+ * 
+ * @param principal - The caller, or null if anonymous
+ * @param permission - The permission required, or null for admins only
+ */
+export function authorizePrincipal(
+  principal: Principal | null,
+  permission: Permission | null
+): AuthorizationDecision {
+  const allowed =
+    principal !== null &&
+    (permission === null ? principal.role === UserRole.ADMIN : roleHasPermission(principal.role, permission));
+
+  return allowed ? { allowed, principal, permission } : { allowed: false, principal, permission };
+}
+
+/**
+ * Builds the error response for a denied request
+ * 
+ * - 401 Unauthorized: Anonymous caller
+ * - 403 Forbidden: The caller's role lacks the permission
+ */
+export function accessDeniedResponse(decision: AuthorizationDecision): NextResponse {
+  if (!decision.principal) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Admin credentials required',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: `Role ${decision.principal.role} is not allowed to ${decision.permission ?? 'use admin-only routes'}`,
+      },
+    },
+    { status: 403 }
+  );
+}
+
+/**
+ * Log fields describing a denied request
+ */
+export function describeDenial(request: NextRequest, decision: AuthorizationDecision): Record<string, unknown> {
+  return {
+    method: request.method,
+    path: request.nextUrl.pathname,
+    permission: decision.permission,
+    principal: decision.principal?.kind ?? 'anonymous',
+    userId: decision.principal?.userId ?? null,
+    role: decision.principal?.role ?? null,
+  };
+}
+
+/**
+ * Compares the X-Admin-Api-Key header with ADMIN_API_KEY
+ * 
+ * Constant-time (for keys of the same length) so the key can't be
+ * guessed byte by byte from response timings. No key configured =
+ * API key access disabled.
+ */
+function hasValidAdminApiKey(request: NextRequest): boolean {
+  const expectedKey = process.env.ADMIN_API_KEY;
+  const providedKey = request.headers.get(ADMIN_API_KEY_HEADER);
+
+  if (!expectedKey || !providedKey || expectedKey.length !== providedKey.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < expectedKey.length; i++) {
+    difference |= expectedKey.charCodeAt(i) ^ providedKey.charCodeAt(i);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,158 @@
+/**
+ * Guest Checkout Identity
+ *
+ * Buyers without an account check out as a guest: starting a guest
+ * checkout issues a short-lived signed token (see ./tokens, keyed with
+ * SESSION_SECRET) in its own httpOnly cookie. The guest ID in it owns the
+ * guest's seat locks, the way a user ID does for a signed-in buyer. The
+ * token is typed as a guest token, so it can't pass as a session.
+ *
+ * The token also records whether the guest has entered the emailed
+ * one-time code; payment is only confirmed for verified guests, so the
+ * ticket always goes to an address the buyer controls.
+ *
+ * Edge-safe, like ./session.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { importSigningKey, signToken, verifyToken } from './tokens';
+import { getSession, AuthenticationRequiredError } from './session';
+
+/**
+ * Cookie carrying the guest token
+ */
+export const GUEST_COOKIE = 'ticket_rush_guest';
+
+/**
+ * Default guest lifetime (30 minutes), overridable with GUEST_TTL_SECONDS
+ */
+export const DEFAULT_GUEST_TTL_SECONDS = 30 * 60;
+
+/**
+ * Claims carried by a guest token
+ */
+export interface GuestPayload {
+  readonly typ: 'guest';
+  readonly guestId: string;
+  readonly email: string;
+  readonly emailVerified: boolean;
+  readonly exp: number;  // Expiry (Unix seconds)
+}
+
+/**
+ * Who is checking out: a signed-in user or a guest
+ */
+export type Buyer =
+  | { readonly kind: 'user'; readonly userId: string; readonly email: string }
+  | { readonly kind: 'guest'; readonly userId: string; readonly email: string; readonly emailVerified: boolean };
+
+/**
+ * Signs a guest token
+ *
+ * @throws Error if SESSION_SECRET is not configured
+ */
+export async function signGuestToken(
+  guest: { guestId: string; email: string; emailVerified: boolean },
+  ttlSeconds: number = Number(process.env.GUEST_TTL_SECONDS) || DEFAULT_GUEST_TTL_SECONDS,
+  now: Date = new Date()
+): Promise<{ token: string; expiresAt: Date }> {
+  const exp = Math.floor(now.getTime() / 1000) + ttlSeconds;
+  const payload: GuestPayload = {
+    typ: 'guest',
+    guestId: guest.guestId,
+    email: guest.email,
+    emailVerified: guest.emailVerified,
+    exp,
+  };
+  const key = await importSigningKey(process.env.SESSION_SECRET);
+
+  if (!key) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+
+  return {
+    token: await signToken(payload, key),
+    expiresAt: new Date(exp * 1000),
+  };
+}
+
+/**
+ * Verifies a guest token's signature and expiry
+ *
+ * @returns The guest, or null if missing, forged, expired or not a guest token
+ */
+export async function verifyGuestToken(
+  token: string | null | undefined,
+  now: Date = new Date()
+): Promise<GuestPayload | null> {
+  const key = await importSigningKey(process.env.SESSION_SECRET);
+  const payload = await verifyToken<GuestPayload>(token, key, now);
+  return payload?.typ === 'guest' ? payload : null;
+}
+
+/**
+ * Reads the guest from the request's cookie
+ *
+ * @returns The guest, or null if the request has no guest checkout
+ */
+export async function getGuest(request: NextRequest): Promise<GuestPayload | null> {
+  return verifyGuestToken(request.cookies.get(GUEST_COOKIE)?.value);
+}
+
+/**
+ * Reads who is checking out, preferring the signed-in user over a guest
+ *
+ * @returns The buyer, or null if neither signed in nor checking out as a guest
+ */
+export async function getBuyer(request: NextRequest): Promise<Buyer | null> {
+  const session = await getSession(request);
+  if (session) {
+    return { kind: 'user', userId: session.userId, email: session.email };
+  }
+
+  const guest = await getGuest(request);
+  return guest
+    ? { kind: 'guest', userId: guest.guestId, email: guest.email, emailVerified: guest.emailVerified }
+    : null;
+}
+
+/**
+ * Reads who is checking out
+ *
+ * @throws AuthenticationRequiredError if neither signed in nor checking out as a guest
+ */
+export async function requireBuyer(request: NextRequest): Promise<Buyer> {
+  const buyer = await getBuyer(request);
+
+  if (!buyer) {
+    throw new AuthenticationRequiredError('Sign in or continue as a guest');
+  }
+
+  return buyer;
+}
+
+/**
+ * Stores a guest token in the response's cookie
+ */
+export function setGuestCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(GUEST_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+/**
+ * Removes the guest cookie (ends the guest checkout)
+ */
+export function clearGuestCookie(response: NextResponse): void {
+  response.cookies.set(GUEST_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
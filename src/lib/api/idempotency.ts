@@ -0,0 +1,137 @@
+/**
+ * Idempotency-Key Support for API Routes
+ *
+ * Wraps a route handler so a retried request carrying the same
+ * Idempotency-Key header returns the original response instead of
+ * running again (e.g. confirming a payment twice after a network blip).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import {
+  IdempotencyService,
+  IdempotencyKeyReusedError,
+  IdempotentRequestInProgressError,
+} from '@/core/services/IdempotencyService';
+
+/**
+ * Header name carrying the client-generated key
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+/**
+ * Header set on responses that were replayed from a previous request
+ */
+export const IDEMPOTENT_REPLAYED_HEADER = 'idempotent-replayed';
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * Runs the handler at most once per Idempotency-Key
+ *
+ * - No header: the handler runs as usual
+ * - Same key + same body: the recorded response is returned
+ * - Same key + different body: 422 IDEMPOTENCY_KEY_REUSED
+ * - Same key while the first request is still running: 409 (retryable)
+ *
+ * 5xx and retryable error responses are not recorded, so retrying
+ * with the same key runs the request again.
+ *
+ * @example
+ * ```typescript
+ * export async function POST(request: NextRequest) {
+ *   const idempotency = await getIdempotencyService();
+ *   return withIdempotency(request, 'payments.confirm', idempotency, () => confirm(request));
+ * }
+ * ```
+ */
+export async function withIdempotency(
+  request: NextRequest,
+  scope: string,
+  idempotency: IdempotencyService,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+
+  if (key === null) {
+    return handler();
+  }
+
+  if (key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INVALID_IDEMPOTENCY_KEY',
+          message: `Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  // Hash the raw body; the handler still reads the original request
+  const rawBody = await request.clone().text();
+  const requestHash = createHash('sha256').update(rawBody).digest('hex');
+
+  try {
+    const replay = await idempotency.begin(scope, key, requestHash);
+    if (replay) {
+      return NextResponse.json(replay.body, {
+        status: replay.status,
+        headers: { [IDEMPOTENT_REPLAYED_HEADER]: 'true' },
+      });
+    }
+  } catch (error) {
+    // 422 Unprocessable Entity - Key already used for another request
+    if (error instanceof IdempotencyKeyReusedError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'IDEMPOTENCY_KEY_REUSED', message: error.message } },
+        { status: 422 }
+      );
+    }
+
+    // 409 Conflict - First request still running
+    if (error instanceof IdempotentRequestInProgressError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'IDEMPOTENT_REQUEST_IN_PROGRESS',
+            message: error.message,
+            retryable: true,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    throw error;
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await idempotency.abandon(scope, key);
+    throw error;
+  }
+
+  const body = await response.clone().json().catch(() => null);
+
+  if (response.status >= 500 || isRetryable(body)) {
+    await idempotency.abandon(scope, key);
+  } else {
+    await idempotency.complete(scope, key, requestHash, { status: response.status, body });
+  }
+
+  return response;
+}
+
+/**
+ * Checks the `error.retryable` flag of the standard error envelope
+ */
+function isRetryable(body: unknown): boolean {
+  const error = (body as { error?: { retryable?: unknown } } | null)?.error;
+  return error?.retryable === true;
+}
@@ -3,3 +3,55 @@
  */
 
 export { withRequestContext, getCorrelationIdFromRequest } from './helpers';
+export { authorizeAdminRequest, authorizeOwnerRequest } from './admin';
+export {
+  authorize,
+  resolvePrincipal,
+  getRequiredPermission,
+  accessDeniedResponse,
+  describeDenial,
+  ADMIN_API_KEY_HEADER,
+  type Principal,
+  type AuthorizationDecision,
+} from './authorization';
+export { withIdempotency, IDEMPOTENCY_KEY_HEADER, IDEMPOTENT_REPLAYED_HEADER } from './idempotency';
+export {
+  signAdmissionToken,
+  verifyAdmissionToken,
+  getAdmittedEventId,
+  isWaitingRoomEnabled,
+  AdmissionRequiredError,
+  ADMISSION_TOKEN_HEADER,
+  DEFAULT_ADMISSION_TTL_SECONDS,
+} from './admission';
+export {
+  getSession,
+  requireSession,
+  signSessionToken,
+  verifySessionToken,
+  setSessionCookie,
+  clearSessionCookie,
+  AuthenticationRequiredError,
+  SESSION_COOKIE,
+  DEFAULT_SESSION_TTL_SECONDS,
+} from './session';
+export {
+  getGuest,
+  getBuyer,
+  requireBuyer,
+  signGuestToken,
+  verifyGuestToken,
+  setGuestCookie,
+  clearGuestCookie,
+  GUEST_COOKIE,
+  DEFAULT_GUEST_TTL_SECONDS,
+  type GuestPayload,
+  type Buyer,
+} from './guest';
+export {
+  withPartnerAccess,
+  getPartnerOrBuyer,
+  requirePartnerOrBuyer,
+  API_KEY_HEADER,
+  type PartnerBuyer,
+} from './partner';
@@ -0,0 +1,135 @@
+/**
+ * User Sessions
+ * 
+ * Signing in issues a signed session token (see ./tokens, keyed with
+ * SESSION_SECRET) carried in an httpOnly cookie, so page scripts can't
+ * read it. Routes acting for a buyer take the user from the session,
+ * never from the request body. Guest tokens (see ./guest) share the key,
+ * so each token names its type and only session tokens pass here.
+ * 
+ * Edge-safe: the middleware can read sessions as well as route handlers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@/core/domain/user.entity';
+import { importSigningKey, signToken, verifyToken } from './tokens';
+
+/**
+ * Cookie carrying the session token
+ */
+export const SESSION_COOKIE = 'ticket_rush_session';
+
+/**
+ * Default session lifetime (7 days), overridable with SESSION_TTL_SECONDS
+ */
+export const DEFAULT_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Claims carried by a session token
+ */
+export interface SessionPayload {
+  readonly typ: 'session';
+  readonly userId: string;
+  readonly email: string;
+  readonly role: UserRole;
+  readonly exp: number;  // Expiry (Unix seconds)
+}
+
+/**
+ * Custom Error: No valid session
+ */
+export class AuthenticationRequiredError extends Error {
+  constructor(message: string = 'Sign in to continue') {
+    super(message);
+    this.name = 'AuthenticationRequiredError';
+  }
+}
+
+/**
+ * Signs a session token for a signed-in user
+ * 
+ * @throws Error if SESSION_SECRET is not configured
+ */
+export async function signSessionToken(
+  user: { id: string; email: string; role: UserRole },
+  ttlSeconds: number = Number(process.env.SESSION_TTL_SECONDS) || DEFAULT_SESSION_TTL_SECONDS,
+  now: Date = new Date()
+): Promise<{ token: string; expiresAt: Date }> {
+  const exp = Math.floor(now.getTime() / 1000) + ttlSeconds;
+  const payload: SessionPayload = { typ: 'session', userId: user.id, email: user.email, role: user.role, exp };
+  const key = await importSigningKey(process.env.SESSION_SECRET);
+
+  if (!key) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+
+  return {
+    token: await signToken(payload, key),
+    expiresAt: new Date(exp * 1000),
+  };
+}
+
+/**
+ * Verifies a session token's signature and expiry
+ * 
+ * @returns The session, or null if missing, forged, expired or not a
+ *          session token (always null while SESSION_SECRET is unset)
+ */
+export async function verifySessionToken(
+  token: string | null | undefined,
+  now: Date = new Date()
+): Promise<SessionPayload | null> {
+  const key = await importSigningKey(process.env.SESSION_SECRET);
+  const payload = await verifyToken<SessionPayload>(token, key, now);
+  return payload?.typ === 'session' ? payload : null;
+}
+
+/**
+ * Reads the session from the request's cookie
+ * 
+ * @returns The session, or null if signed out
+ */
+export async function getSession(request: NextRequest): Promise<SessionPayload | null> {
+  return verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * Reads the session from the request's cookie
+ * 
+ * @throws AuthenticationRequiredError if signed out
+ */
+export async function requireSession(request: NextRequest): Promise<SessionPayload> {
+  const session = await getSession(request);
+
+  if (!session) {
+    throw new AuthenticationRequiredError();
+  }
+
+  return session;
+}
+
+/**
+ * Stores a session token in the response's cookie
+ */
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+/**
+ * Removes the session cookie (signs the browser out)
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
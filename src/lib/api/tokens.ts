@@ -0,0 +1,94 @@
+/**
+ * Signed Tokens
+ * 
+ * Compact HMAC-SHA256 tokens shared by waiting room admissions and
+ * user sessions:
+ * 
+ *   base64url(JSON payload) + "." + base64url(signature)
+ * 
+ * Every payload carries an `exp` (Unix seconds). Only Web Crypto is used
+ * so tokens can be verified in the Edge middleware as well as in route
+ * handlers.
+ */
+
+/**
+ * Claims every signed token carries
+ */
+export interface SignedTokenPayload {
+  readonly exp: number;  // Expiry (Unix seconds)
+}
+
+/**
+ * Imports an HMAC-SHA256 key from a secret
+ * 
+ * @returns The key, or null if the secret is unset
+ */
+export async function importSigningKey(secret: string | undefined): Promise<CryptoKey | null> {
+  if (!secret) return null;
+
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Signs a payload
+ */
+export async function signToken(payload: SignedTokenPayload, key: CryptoKey): Promise<string> {
+  const encodedPayload = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(encodedPayload));
+
+  return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a token's signature and expiry
+ * 
+ * @returns The token's claims, or null if missing, forged or expired
+ *          (always null without a key)
+ */
+export async function verifyToken<T extends SignedTokenPayload>(
+  token: string | null | undefined,
+  key: CryptoKey | null,
+  now: Date = new Date()
+): Promise<T | null> {
+  const [encodedPayload, encodedSignature, ...rest] = (token ?? '').split('.');
+
+  if (!key || !encodedPayload || !encodedSignature || rest.length > 0) {
+    return null;
+  }
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      fromBase64Url(encodedSignature),
+      new TextEncoder().encode(encodedPayload)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(encodedPayload))) as T;
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 <= now.getTime()) return null;
+
+    return payload;
+  } catch {
+    return null; // Malformed base64 or JSON
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
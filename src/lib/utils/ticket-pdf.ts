@@ -0,0 +1,98 @@
+/**
+ * Ticket PDF (server only)
+ *
+ * Renders a one-page PDF ticket from a sold seat. Tickets are rendered on
+ * download rather than stored, so a ticket that was transferred, resold
+ * or refunded can no longer be downloaded by its previous owner.
+ *
+ * Hand-written PDF 1.4 with the standard Helvetica fonts (no embedding),
+ * which is all a text-only ticket needs.
+ */
+
+export interface TicketPdfData {
+  readonly ticketId: string;       // The seat ID, scanned at the door
+  readonly eventTitle: string;
+  readonly location: string;
+  readonly startsAt: Date;
+  readonly seatNumber: string;
+  readonly section: string | null;
+  readonly row: string | null;
+  readonly holder: string;         // Email of the ticket holder
+}
+
+const PAGE_WIDTH = 595;  // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+
+/**
+ * Renders the ticket as PDF bytes
+ */
+export function renderTicketPdf(ticket: TicketPdfData): Uint8Array<ArrayBuffer> {
+  const seat = [ticket.section, ticket.row && `Row ${ticket.row}`, `Seat ${ticket.seatNumber}`]
+    .filter(Boolean)
+    .join(' - ');
+
+  const lines: [font: 'F1' | 'F2', size: number, text: string][] = [
+    ['F2', 12, 'TICKETRUSH E-TICKET'],
+    ['F2', 26, ticket.eventTitle],
+    ['F1', 14, ticket.location],
+    ['F1', 14, formatDate(ticket.startsAt)],
+    ['F2', 18, seat],
+    ['F1', 11, `Ticket holder: ${ticket.holder}`],
+    ['F1', 11, `Ticket ID: ${ticket.ticketId}`],
+    ['F1', 9, 'Show this ticket at the entrance. Only the latest ticket for a seat is valid.'],
+  ];
+
+  let y = PAGE_HEIGHT - MARGIN;
+  const content = lines
+    .map(([font, size, text]) => {
+      y -= size * 2;
+      return `BT /${font} ${size} Tf ${MARGIN} ${y} Td (${escapeText(text)}) Tj ET`;
+    })
+    .join('\n');
+
+  return buildPdf([
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+  ]);
+}
+
+/**
+ * Assembles numbered objects (1..n) with the cross-reference table
+ * listing each object's byte offset
+ */
+function buildPdf(objects: string[]): Uint8Array<ArrayBuffer> {
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(pdf, 'latin1'));
+}
+
+/**
+ * Escapes a PDF string literal; characters the standard fonts can't
+ * show (outside Latin-1) become "?"
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+function formatDate(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
@@ -0,0 +1,22 @@
+/**
+ * Visitor Session (browser only)
+ * 
+ * Admission tokens from the waiting room are kept per event in
+ * sessionStorage for the tab session. The visitor themselves is the
+ * signed-in user (httpOnly session cookie), so the token and the seat
+ * locks always belong to the same account.
+ */
+
+const admissionTokenKey = (eventId: string) => `ticketrush:admission:${eventId}`;
+
+export function getAdmissionToken(eventId: string): string | null {
+  return sessionStorage.getItem(admissionTokenKey(eventId));
+}
+
+export function storeAdmissionToken(eventId: string, token: string): void {
+  sessionStorage.setItem(admissionTokenKey(eventId), token);
+}
+
+export function clearAdmissionToken(eventId: string): void {
+  sessionStorage.removeItem(admissionTokenKey(eventId));
+}
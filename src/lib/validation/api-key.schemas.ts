@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { ApiKeyScope } from '@/core/domain/api-key.entity';
+
+/**
+ * Create API Key Request Schema (admin)
+ * Validates POST /api/v1/admin/api-keys
+ */
+export const createApiKeySchema = z.object({
+  partnerId: z
+    .string()
+    .trim()
+    .max(64)
+    .regex(/^[a-z0-9][a-z0-9-]*$/, 'partnerId must be a lowercase slug, e.g. "box-office"'),
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(ApiKeyScope)).min(1, 'At least one scope is required'),
+});
+
+export type CreateApiKeyRequest = z.infer<typeof createApiKeySchema>;
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { UserRole } from '@/core/domain/user.entity';
+
+/**
+ * Password length limits (the upper bound keeps hashing cheap for huge inputs)
+ */
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 128;
+
+/**
+ * Register Request Schema
+ * Validates POST /api/v1/auth/register
+ */
+export const registerSchema = z.object({
+  email: z.string().trim().email('email must be a valid email address').max(255),
+  password: z
+    .string()
+    .min(MIN_PASSWORD_LENGTH, `password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+    .max(MAX_PASSWORD_LENGTH, `password must be at most ${MAX_PASSWORD_LENGTH} characters`),
+});
+
+export type RegisterRequest = z.infer<typeof registerSchema>;
+
+/**
+ * Login Request Schema
+ * Validates POST /api/v1/auth/login (no length rules: a wrong password is just wrong)
+ */
+export const loginSchema = z.object({
+  email: z.string().trim().min(1, 'email is required').max(255),
+  password: z.string().min(1, 'password is required').max(MAX_PASSWORD_LENGTH),
+});
+
+export type LoginRequest = z.infer<typeof loginSchema>;
+
+/**
+ * Guest Checkout Request Schema
+ * Validates POST /api/v1/auth/guest
+ */
+export const startGuestCheckoutSchema = z.object({
+  email: z.string().trim().email('email must be a valid email address').max(255),
+});
+
+export type StartGuestCheckoutRequest = z.infer<typeof startGuestCheckoutSchema>;
+
+/**
+ * Guest Email Verification Request Schema
+ * Validates POST /api/v1/auth/guest/verify
+ */
+export const verifyGuestEmailSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'code must be the 6 digits from the email'),
+});
+
+export type VerifyGuestEmailRequest = z.infer<typeof verifyGuestEmailSchema>;
+
+/**
+ * Assign Role Request Schema
+ * Validates PUT /api/v1/admin/users/:userId/role
+ */
+export const assignRoleSchema = z.object({
+  role: z.enum(UserRole),
+});
+
+export type AssignRoleRequest = z.infer<typeof assignRoleSchema>;
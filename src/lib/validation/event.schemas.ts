@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import { EventStatus } from '@/core/domain/sales-window.entity';
+
+/**
+ * Cancel Event Request Schema (admin)
+ * Validates POST /api/v1/admin/events/:eventId/cancel
+ */
+export const cancelEventSchema = z.object({
+  adminId: z.string().uuid('adminId must be a valid UUID'),
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+export type CancelEventRequest = z.infer<typeof cancelEventSchema>;
+
+/**
+ * Most seats an event can be created with from a seat count
+ */
+export const MAX_EVENT_SEATS = 100_000;
+
+/**
+ * ISO 8601 date-time with an offset, e.g. "2026-03-01T20:00:00Z", parsed to a Date
+ */
+const dateTimeSchema = (field: string) =>
+  z.iso
+    .datetime({ offset: true, message: `${field} must be an ISO 8601 date-time` })
+    .transform((value) => new Date(value));
+
+/**
+ * Statuses organizers set by hand (cancelling has its own endpoint)
+ */
+const editableStatusSchema = z.enum([
+  EventStatus.DRAFT,
+  EventStatus.SCHEDULED,
+  EventStatus.ON_SALE,
+  EventStatus.SOLD_OUT,
+  EventStatus.CLOSED,
+]);
+
+/**
+ * Event details organizers can set on creation and change afterwards
+ */
+const eventDetailsSchema = z.object({
+  title: z.string().trim().min(1, 'title must not be blank').max(200),
+  description: z.string().trim().max(5000).nullable().optional(),
+  location: z.string().trim().min(1, 'location must not be blank').max(200),
+  status: editableStatusSchema.optional(),
+  salesStartAt: dateTimeSchema('salesStartAt').nullable().optional(),
+  salesEndAt: dateTimeSchema('salesEndAt').nullable().optional(),
+  resalePriceCapPercent: z
+    .number()
+    .int('resalePriceCapPercent must be a whole number')
+    .min(0)
+    .max(1000)
+    .nullable()
+    .optional(),
+});
+
+/**
+ * Create Event Request Schema (admin)
+ * Validates POST /api/v1/admin/events
+ *
+ * Seats come either from a seat template (seatTemplateId, priced with
+ * priceCategories) or from a seat count (totalSeats at one price).
+ */
+export const createEventSchema = eventDetailsSchema
+  .extend({
+    date: dateTimeSchema('date'),
+    priceCategories: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1).max(100),
+          price: z.number().positive('price must be greater than 0').multipleOf(0.01, 'price can have at most 2 decimals'),
+        })
+      )
+      .max(50)
+      .refine(
+        (categories) => new Set(categories.map((category) => category.name)).size === categories.length,
+        'priceCategories names must be unique'
+      )
+      .optional(),
+    seatTemplateId: z.string().min(1).max(255).optional(),
+    totalSeats: z
+      .number()
+      .int('totalSeats must be a whole number')
+      .positive('totalSeats must be greater than 0')
+      .max(MAX_EVENT_SEATS, `An event can have at most ${MAX_EVENT_SEATS} seats`)
+      .optional(),
+    price: z.number().nonnegative().multipleOf(0.01, 'price can have at most 2 decimals').optional(),
+  })
+  .superRefine((data, ctx) => {
+    if ((data.seatTemplateId === undefined) === (data.totalSeats === undefined)) {
+      ctx.addIssue({ code: 'custom', path: ['totalSeats'], message: 'Give either seatTemplateId or totalSeats' });
+    }
+    if (data.totalSeats !== undefined && data.price === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['price'], message: 'price is required with totalSeats' });
+    }
+  });
+
+export type CreateEventRequest = z.infer<typeof createEventSchema>;
+
+/**
+ * Update Event Request Schema (admin)
+ * Validates PATCH /api/v1/admin/events/:eventId; every field is optional
+ */
+export const updateEventSchema = eventDetailsSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, 'At least one field is required');
+
+export type UpdateEventRequest = z.infer<typeof updateEventSchema>;
+
+/**
+ * Reschedule Event Request Schema (admin)
+ * Validates POST /api/v1/admin/events/:eventId/reschedule
+ */
+export const rescheduleEventSchema = z.object({
+  date: dateTimeSchema('date'),
+});
+
+export type RescheduleEventRequest = z.infer<typeof rescheduleEventSchema>;
+
+/**
+ * Events Query Schema
+ * Validates GET /api/v1/events?from=&to=&location=
+ */
+export const eventsQuerySchema = z
+  .object({
+    from: dateTimeSchema('from').optional(),
+    to: dateTimeSchema('to').optional(),
+    location: z.string().trim().min(1).max(200).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    path: ['to'],
+    message: 'to must not be before from',
+  });
+
+export type EventsQuery = z.infer<typeof eventsQuerySchema>;
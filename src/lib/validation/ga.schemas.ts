@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { MAX_SEATS_PER_LOCK, presaleCodeSchema } from './seat.schemas';
+
+/**
+ * Lock GA Tickets Request Schema
+ * Validates POST /api/v1/events/:eventId/ga-zones/:zoneId/lock
+ */
+export const lockGaTicketsSchema = z.object({
+  quantity: z
+    .number()
+    .int('quantity must be a whole number')
+    .min(1, 'At least one ticket is required')
+    .max(MAX_SEATS_PER_LOCK, `At most ${MAX_SEATS_PER_LOCK} tickets can be locked at once`),
+  presaleCode: presaleCodeSchema,
+});
+
+export type LockGaTicketsRequest = z.infer<typeof lockGaTicketsSchema>;
+
+/**
+ * Confirm GA Purchase Request Schema
+ * Validates POST /api/v1/ga-reservations/:reservationId/confirm
+ */
+export const confirmGaPurchaseSchema = z.object({
+  paymentReference: z.string().min(1).max(255).optional(),
+});
+
+export type ConfirmGaPurchaseRequest = z.infer<typeof confirmGaPurchaseSchema>;
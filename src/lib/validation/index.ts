@@ -4,9 +4,83 @@
 
 export {
   lockSeatSchema,
+  lockSeatsSchema,
+  MAX_SEATS_PER_LOCK,
+  bestAvailableSchema,
   releaseSeatSchema,
+  extendLockSchema,
   confirmSaleSchema,
+  refundSaleSchema,
+  holdSeatsSchema,
+  unholdSeatsSchema,
+  MAX_SEATS_PER_HOLD,
   type LockSeatRequest,
+  type LockSeatsRequest,
+  type BestAvailableRequest,
   type ReleaseSeatRequest,
+  type ExtendLockRequest,
   type ConfirmSaleRequest,
+  type RefundSaleRequest,
+  type HoldSeatsRequest,
+  type UnholdSeatsRequest,
 } from './seat.schemas';
+
+export {
+  createTransferSchema,
+  type CreateTransferRequest,
+} from './transfer.schemas';
+
+export {
+  createResaleListingSchema,
+  resaleListingsQuerySchema,
+  resalePurchaseSchema,
+  type CreateResaleListingRequest,
+  type ResaleListingsQuery,
+  type ResalePurchaseRequest,
+} from './resale.schemas';
+
+export {
+  lockGaTicketsSchema,
+  confirmGaPurchaseSchema,
+  type LockGaTicketsRequest,
+  type ConfirmGaPurchaseRequest,
+} from './ga.schemas';
+
+export {
+  schedulePerformanceSchema,
+  type SchedulePerformanceRequest,
+} from './performance.schemas';
+
+export {
+  cancelEventSchema,
+  createEventSchema,
+  updateEventSchema,
+  rescheduleEventSchema,
+  eventsQuerySchema,
+  MAX_EVENT_SEATS,
+  type CancelEventRequest,
+  type CreateEventRequest,
+  type UpdateEventRequest,
+  type RescheduleEventRequest,
+  type EventsQuery,
+} from './event.schemas';
+
+export {
+  registerSchema,
+  loginSchema,
+  assignRoleSchema,
+  startGuestCheckoutSchema,
+  verifyGuestEmailSchema,
+  MIN_PASSWORD_LENGTH,
+  MAX_PASSWORD_LENGTH,
+  type RegisterRequest,
+  type LoginRequest,
+  type AssignRoleRequest,
+  type StartGuestCheckoutRequest,
+  type VerifyGuestEmailRequest,
+} from './auth.schemas';
+
+export {
+  createApiKeySchema,
+  type CreateApiKeyRequest,
+} from './api-key.schemas';
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+/**
+ * Schedule Performance Request Schema (admin)
+ * Validates POST /api/v1/admin/events/:eventId/performances
+ */
+export const schedulePerformanceSchema = z.object({
+  adminId: z.string().uuid('adminId must be a valid UUID'),
+  startsAt: z.iso.datetime({ offset: true, message: 'startsAt must be an ISO 8601 date-time' }),
+  seatTemplateId: z.string().min(1).max(255),
+});
+
+export type SchedulePerformanceRequest = z.infer<typeof schedulePerformanceSchema>;
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+/**
+ * Create Resale Listing Request Schema
+ * Validates POST /api/v1/resale/listings
+ */
+export const createResaleListingSchema = z.object({
+  seatId: z.string().uuid('seatId must be a valid UUID'),
+  price: z
+    .number()
+    .positive('price must be greater than 0')
+    .multipleOf(0.01, 'price can have at most 2 decimals'),
+});
+
+export type CreateResaleListingRequest = z.infer<typeof createResaleListingSchema>;
+
+/**
+ * Resale Listings Query Schema
+ * Validates GET /api/v1/resale/listings?eventId=
+ */
+export const resaleListingsQuerySchema = z.object({
+  eventId: z.string().uuid('eventId must be a valid UUID'),
+});
+
+export type ResaleListingsQuery = z.infer<typeof resaleListingsQuerySchema>;
+
+/**
+ * Resale Purchase Request Schema
+ * Validates POST /api/v1/resale/listings/:listingId/purchase
+ */
+export const resalePurchaseSchema = z.object({
+  paymentReference: z.string().min(1).max(255).optional(),
+});
+
+export type ResalePurchaseRequest = z.infer<typeof resalePurchaseSchema>;
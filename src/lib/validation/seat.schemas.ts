@@ -1,32 +1,120 @@
 import { z } from 'zod';
 
+/**
+ * Presale access code, required by the lock endpoints while the event is in a presale
+ */
+export const presaleCodeSchema = z.string().trim().min(1, 'presaleCode must not be blank').max(64).optional();
+
 /**
  * Lock Seat Request Schema
  * Validates incoming POST request body for seat locking
+ * (the buyer, here and in the other checkout schemas, comes from the session)
  */
 export const lockSeatSchema = z.object({
   seatId: z.string().uuid('seatId must be a valid UUID'),
-  userId: z.string().uuid('userId must be a valid UUID'),
+  presaleCode: presaleCodeSchema,
 });
 
 export type LockSeatRequest = z.infer<typeof lockSeatSchema>;
 
+/**
+ * Maximum number of seats that can be locked in a single request
+ */
+export const MAX_SEATS_PER_LOCK = 10;
+
+/**
+ * Lock Seats (Bulk) Request Schema
+ * Validates incoming POST request body for atomic multi-seat locking
+ */
+export const lockSeatsSchema = z.object({
+  seatIds: z
+    .array(z.string().uuid('seatIds must contain valid UUIDs'))
+    .min(1, 'At least one seat is required')
+    .max(MAX_SEATS_PER_LOCK, `At most ${MAX_SEATS_PER_LOCK} seats can be locked at once`),
+  presaleCode: presaleCodeSchema,
+});
+
+export type LockSeatsRequest = z.infer<typeof lockSeatsSchema>;
+
+/**
+ * Best-Available Request Schema
+ * Validates POST /api/v1/events/:eventId/performances/:performanceId/best-available
+ */
+export const bestAvailableSchema = z.object({
+  quantity: z
+    .number()
+    .int('quantity must be a whole number')
+    .min(1, 'At least one seat is required')
+    .max(MAX_SEATS_PER_LOCK, `At most ${MAX_SEATS_PER_LOCK} seats can be locked at once`),
+  priceCategoryId: z.string().min(1).max(255).optional(),
+  presaleCode: presaleCodeSchema,
+});
+
+export type BestAvailableRequest = z.infer<typeof bestAvailableSchema>;
+
 /**
  * Release Seat Request Schema
  */
 export const releaseSeatSchema = z.object({
   seatId: z.string().uuid('seatId must be a valid UUID'),
-  userId: z.string().uuid('userId must be a valid UUID'),
 });
 
 export type ReleaseSeatRequest = z.infer<typeof releaseSeatSchema>;
 
+/**
+ * Extend Lock Request Schema
+ */
+export const extendLockSchema = z.object({
+  seatId: z.string().uuid('seatId must be a valid UUID'),
+});
+
+export type ExtendLockRequest = z.infer<typeof extendLockSchema>;
+
 /**
  * Confirm Sale Request Schema
  */
 export const confirmSaleSchema = z.object({
   seatId: z.string().uuid('seatId must be a valid UUID'),
-  userId: z.string().uuid('userId must be a valid UUID'),
 });
 
 export type ConfirmSaleRequest = z.infer<typeof confirmSaleSchema>;
+
+/**
+ * Refund Sale Request Schema (admin)
+ */
+export const refundSaleSchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+export type RefundSaleRequest = z.infer<typeof refundSaleSchema>;
+
+/**
+ * Maximum number of seats that can be held or unheld in a single request
+ */
+export const MAX_SEATS_PER_HOLD = 100;
+
+const heldSeatIdsSchema = z
+  .array(z.string().uuid('seatIds must contain valid UUIDs'))
+  .min(1, 'At least one seat is required')
+  .max(MAX_SEATS_PER_HOLD, `At most ${MAX_SEATS_PER_HOLD} seats can be held at once`);
+
+/**
+ * Hold Seats Request Schema (admin)
+ */
+export const holdSeatsSchema = z.object({
+  seatIds: heldSeatIdsSchema,
+  adminId: z.string().uuid('adminId must be a valid UUID'),
+  reason: z.string().trim().min(1, 'reason is required').max(200),
+});
+
+export type HoldSeatsRequest = z.infer<typeof holdSeatsSchema>;
+
+/**
+ * Unhold Seats Request Schema (admin)
+ */
+export const unholdSeatsSchema = z.object({
+  seatIds: heldSeatIdsSchema,
+  adminId: z.string().uuid('adminId must be a valid UUID'),
+});
+
+export type UnholdSeatsRequest = z.infer<typeof unholdSeatsSchema>;
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+/**
+ * Create Transfer Request Schema
+ * Validates POST /api/v1/transfers
+ */
+export const createTransferSchema = z.object({
+  seatId: z.string().uuid('seatId must be a valid UUID'),
+  toEmail: z.string().trim().email('toEmail must be a valid email address').max(320),
+});
+
+export type CreateTransferRequest = z.infer<typeof createTransferSchema>;
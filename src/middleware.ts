@@ -1,8 +1,14 @@
 /**
- * Correlation ID Middleware
+ * Correlation ID + Admin Access + Waiting Room Middleware
  * 
  * Next.js middleware that extracts or generates a correlation ID
- * for request tracing across services.
+ * for request tracing across services, turns away admin requests from
+ * callers whose role lacks the route's permission, and (when
+ * WAITING_ROOM_ENABLED) turns away seat map and lock requests without
+ * a valid admission token.
+ * 
+ * Partner API keys (X-Api-Key) are not checked here: they live in the
+ * database, so the route handlers check them (see lib/api/partner).
  * 
  * Note: This middleware runs on the Edge runtime, so AsyncLocalStorage
  * is not available. The correlation ID is passed via headers to the
@@ -11,6 +17,17 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  ADMISSION_TOKEN_HEADER,
+  isWaitingRoomEnabled,
+  verifyAdmissionToken,
+} from '@/lib/api/admission';
+import {
+  accessDeniedResponse,
+  authorize,
+  describeDenial,
+  getRequiredPermission,
+} from '@/lib/api/authorization';
 
 /**
  * Header names for correlation ID
@@ -18,6 +35,21 @@ import { v4 as uuidv4 } from 'uuid';
 export const CORRELATION_ID_HEADER = 'x-correlation-id';
 export const CORRELATION_ID_HEADER_INTERNAL = 'x-internal-correlation-id';
 
+/**
+ * Routes that require an admission token while the waiting room is enabled
+ * (seat maps, GA zones, best-available and GA locks are matched per event;
+ * seat lock routes are checked against the seat's event by the route handler)
+ */
+const INVENTORY_ROUTE = /^\/api\/v1\/events\/([^/]+)\/(?:performances\/[^/]+\/seats|ga-zones)$/;
+const EVENT_LOCK_ROUTE =
+  /^\/api\/v1\/events\/([^/]+)\/(?:performances\/[^/]+\/best-available|ga-zones\/[^/]+\/lock)$/;
+const LOCK_ROUTE = /^\/api\/v1\/seats\/lock(\/bulk)?$/;
+
+/**
+ * Routes guarded by role (see lib/api/authorization)
+ */
+const ADMIN_ROUTE_PREFIX = '/api/v1/admin/';
+
 /**
  * Middleware function
  * 
@@ -26,8 +58,10 @@ export const CORRELATION_ID_HEADER_INTERNAL = 'x-internal-correlation-id';
  * 2. If missing, generates a new UUID
  * 3. Adds the ID to request headers for route handlers
  * 4. Adds the ID to response headers for client debugging
+ * 5. Rejects admin routes the caller's role may not use (401/403)
+ * 6. Rejects gated routes without a valid admission token (403)
  */
-export function middleware(request: NextRequest): NextResponse {
+export async function middleware(request: NextRequest): Promise<NextResponse> {
   // Only apply to API routes
   if (!request.nextUrl.pathname.startsWith('/api')) {
     return NextResponse.next();
@@ -37,6 +71,14 @@ export function middleware(request: NextRequest): NextResponse {
   const correlationId = 
     request.headers.get(CORRELATION_ID_HEADER) ?? uuidv4();
 
+  // Turn away gated routes before they hit the database
+  const rejection =
+    (await enforceAdminAccess(request, correlationId)) ?? (await enforceWaitingRoom(request));
+  if (rejection) {
+    rejection.headers.set(CORRELATION_ID_HEADER, correlationId);
+    return rejection;
+  }
+
   // Create response with correlation ID
   const requestHeaders = new Headers(request.headers);
   requestHeaders.set(CORRELATION_ID_HEADER_INTERNAL, correlationId);
@@ -53,6 +95,79 @@ export function middleware(request: NextRequest): NextResponse {
   return response;
 }
 
+/**
+ * Checks the caller's role on admin routes
+ * 
+ * Denials are logged here as a JSON line (the Winston logger does not
+ * run on the Edge runtime) with the correlation ID, so they can be
+ * traced like any other request.
+ * 
+ * @returns A 401/403 response, or null to let the request through
+ */
+async function enforceAdminAccess(
+  request: NextRequest,
+  correlationId: string
+): Promise<NextResponse | null> {
+  const { pathname } = request.nextUrl;
+  if (!pathname.startsWith(ADMIN_ROUTE_PREFIX)) {
+    return null;
+  }
+
+  const decision = await authorize(request, getRequiredPermission(request.method, pathname));
+  if (decision.allowed) {
+    return null;
+  }
+
+  console.warn(
+    JSON.stringify({
+      level: 'warn',
+      message: 'Access denied',
+      correlationId,
+      timestamp: new Date().toISOString(),
+      ...describeDenial(request, decision),
+    })
+  );
+
+  return accessDeniedResponse(decision);
+}
+
+/**
+ * Checks the admission token on gated routes
+ * 
+ * @returns A 403 response, or null to let the request through
+ */
+async function enforceWaitingRoom(request: NextRequest): Promise<NextResponse | null> {
+  if (!isWaitingRoomEnabled()) {
+    return null;
+  }
+
+  const { pathname } = request.nextUrl;
+  const eventMatch =
+    INVENTORY_ROUTE.exec(pathname) ??
+    (request.method === 'POST' ? EVENT_LOCK_ROUTE.exec(pathname) : null);
+
+  if (!eventMatch && !(LOCK_ROUTE.test(pathname) && request.method === 'POST')) {
+    return null;
+  }
+
+  const admission = await verifyAdmissionToken(request.headers.get(ADMISSION_TOKEN_HEADER));
+
+  if (admission && (!eventMatch || admission.eventId === decodeURIComponent(eventMatch[1]))) {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: 'ADMISSION_REQUIRED',
+        message: 'Join the waiting room to get an admission token',
+      },
+    },
+    { status: 403 }
+  );
+}
+
 /**
  * Configure which routes use this middleware
  */
@@ -4,7 +4,14 @@
  * This worker runs independently from the Next.js application.
  * It consumes messages from RabbitMQ and processes background tasks:
  * - PDF ticket generation
- * - Email notifications
+ * - Email notifications (including guest checkout verification codes)
+ * - Voiding tickets and confirming refunds
+ * - Reissuing tickets to the recipient of an accepted transfer
+ * - Reissuing resold tickets to the buyer and notifying the seller of their payout
+ * - Issuing general-admission tickets
+ * - Offering seats that come back on sale to waitlisted users
+ * - Releasing seats and GA tickets whose checkout lock expired (periodic sweep)
+ * - Refunding the tickets of cancelled events in batches and emailing their holders
  * 
  * Features:
  * - Manual acknowledgment for reliability
@@ -22,12 +29,34 @@ import 'dotenv/config';
 import amqp from 'amqplib';
 import winston from 'winston';
 import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaSeatRepository } from '@/infrastructure/repositories/PrismaSeatRepository';
+import { CachedSeatRepository } from '@/infrastructure/repositories/CachedSeatRepository';
+import { RedisService } from '@/infrastructure/cache/RedisService';
+import { RabbitMQClient } from '@/infrastructure/messaging/RabbitMQClient';
+import { RabbitMQEventPublisher } from '@/infrastructure/messaging/RabbitMQEventPublisher';
+import { PrismaWaitlistRepository } from '@/infrastructure/repositories/PrismaWaitlistRepository';
+import { CachedWaitlistRepository } from '@/infrastructure/repositories/CachedWaitlistRepository';
+import { PrismaGaInventoryRepository } from '@/infrastructure/repositories/PrismaGaInventoryRepository';
+import { PrismaOrderRepository } from '@/infrastructure/repositories/PrismaOrderRepository';
+import { CachedOrderRepository } from '@/infrastructure/repositories/CachedOrderRepository';
+import { PrismaSalesWindowRepository } from '@/infrastructure/repositories/PrismaSalesWindowRepository';
+import { PrismaEventCancellationRepository } from '@/infrastructure/repositories/PrismaEventCancellationRepository';
+import { PrismaPresaleRepository } from '@/infrastructure/repositories/PrismaPresaleRepository';
+import { LockExpirySweeper } from '@/core/services/LockExpirySweeper';
+import { WaitlistService } from '@/core/services/WaitlistService';
+import { GeneralAdmissionService } from '@/core/services/GeneralAdmissionService';
+import { BookingService } from '@/core/services/BookingService';
+import { EventCancellationService } from '@/core/services/EventCancellationService';
 
 // Queue names
 const TICKET_GENERATION_QUEUE = 'ticket_generation_queue';
+const TICKET_REFUND_QUEUE = 'ticket_refund_queue';
+const NOTIFICATION_QUEUE = 'notification_queue';
 
 // Configuration
 const RABBITMQ_URL = process.env.RABBITMQ_URL || 'amqp://localhost:5672';
+const LOCK_SWEEP_INTERVAL_MS = Number(process.env.LOCK_SWEEP_INTERVAL_MS) || 30_000;
 
 // ===========================================
 // STRUCTURED LOGGER WITH CORRELATION ID
@@ -66,8 +95,13 @@ async function generatePDF(seatId: string, seatNumber: string): Promise<void> {
   logger.info(`✅ PDF generated for Seat ${seatId}`);
 }
 
-async function sendEmailNotification(userId: string, seatNumber: string): Promise<void> {
-  logger.info(`📧 Sending email`, { userId });
+async function sendEmailNotification(
+  userId: string,
+  seatNumber: string,
+  deliveryEmail: string | null = null
+): Promise<void> {
+  // No address given (resale): the account's email is used
+  logger.info(`📧 Sending email`, { userId, to: deliveryEmail ?? 'account email', seatNumber });
   
   // Simulate email sending (1 second)
   await new Promise((resolve) => setTimeout(resolve, 1000));
@@ -75,16 +109,22 @@ async function sendEmailNotification(userId: string, seatNumber: string): Promis
   logger.info(`✅ Email sent to user`);
 }
 
-async function processSeatSoldEvent(message: {
+interface SeatSoldMessage {
+  eventType: 'SEAT_SOLD';
+  orderId: string;
   seatId: string;
   eventId: string;
   userId: string;
+  deliveryEmail?: string | null; // Missing in messages published before guest checkout
   seatNumber: string;
   price: number;
   soldAt: string;
   correlationId?: string;
-}): Promise<void> {
+}
+
+async function processSeatSoldEvent(message: SeatSoldMessage): Promise<void> {
   logger.info('Processing SeatSoldEvent', {
+    orderId: message.orderId,
     seatId: message.seatId,
     userId: message.userId,
     seatNumber: message.seatNumber,
@@ -94,12 +134,659 @@ async function processSeatSoldEvent(message: {
   // Step 1: Generate PDF ticket
   await generatePDF(message.seatId, message.seatNumber);
 
-  // Step 2: Send email notification
-  await sendEmailNotification(message.userId, message.seatNumber);
+  // Step 2: Send email notification (guests have no account to look the address up from)
+  await sendEmailNotification(message.userId, message.seatNumber, message.deliveryEmail ?? null);
 
   logger.info(`🎉 All processing complete for Seat ${message.seatNumber}`);
 }
 
+async function voidTicketPDF(seatId: string, orderId: string): Promise<void> {
+  logger.info(`🗑️  Voiding PDF ticket for Seat ${seatId}`, { orderId });
+
+  // Simulate revoking the ticket (0.5 seconds)
+  await new Promise((resolve) => setTimeout(resolve, 500));
+
+  logger.info(`✅ PDF ticket voided for Seat ${seatId}`);
+}
+
+async function sendRefundEmail(userId: string, amount: number): Promise<void> {
+  logger.info(`📧 Sending refund confirmation email`, { userId, amount });
+
+  // Simulate email sending (1 second)
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+
+  logger.info(`✅ Refund email sent to user`);
+}
+
+async function sendTicketRefundedNotice(userId: string, seatNumber: string): Promise<void> {
+  logger.info(`📧 Sending ticket refunded notice`, { userId, seatNumber });
+
+  // Simulate email sending (1 second)
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+
+  logger.info(`✅ Ticket refunded notice sent to user`);
+}
+
+interface SeatRefundedMessage {
+  eventType: 'SEAT_REFUNDED';
+  orderId: string;
+  seatId: string;
+  eventId: string;
+  userId: string;
+  ticketHolderId?: string; // Missing in messages published before transfers were taken into account
+  seatNumber: string;
+  amount: number;
+  reason: string | null;
+  refundedAt: string;
+  correlationId?: string;
+}
+
+async function processSeatRefundedEvent(
+  message: SeatRefundedMessage,
+  waitlistService: WaitlistService
+): Promise<void> {
+  const ticketHolderId = message.ticketHolderId ?? message.userId;
+
+  logger.info('Processing SeatRefundedEvent', {
+    orderId: message.orderId,
+    seatId: message.seatId,
+    userId: message.userId,
+    ticketHolderId,
+    amount: message.amount,
+  });
+
+  // Step 1: Invalidate the previously issued ticket
+  await voidTicketPDF(message.seatId, message.orderId);
+
+  // Step 2: Tell the customer who paid their money is on the way
+  await sendRefundEmail(message.userId, message.amount);
+
+  // Step 3: A transferred ticket no longer works for whoever holds it now
+  if (ticketHolderId !== message.userId) {
+    await sendTicketRefundedNotice(ticketHolderId, message.seatNumber);
+  }
+
+  // Step 4: The seat is back on sale - give the waitlist first pick
+  await offerSeatToWaitlist(waitlistService, message.seatId);
+
+  logger.info(`🎉 Refund processing complete for Seat ${message.seatNumber}`);
+}
+
+// ===========================================
+// EVENT CANCELLATION
+// ===========================================
+
+interface EventRefundBatchMessage {
+  eventType: 'EVENT_REFUND_BATCH';
+  cancellationId: string;
+  eventId: string;
+  batchNumber: number;
+  totalBatches: number;
+  seatIds: string[];
+  gaReservationIds?: string[]; // Absent in jobs queued before GA refunds
+  reason: string | null;
+  correlationId?: string;
+}
+
+type TicketRefundMessage = SeatRefundedMessage | EventRefundBatchMessage;
+
+function createEventCancellationService(): EventCancellationService {
+  const prismaSeatRepository = new PrismaSeatRepository(prisma);
+  const redisCache = new RedisService(60);
+  const seatRepository = new CachedSeatRepository(prismaSeatRepository, redisCache, 60);
+  const prismaOrderRepository = new PrismaOrderRepository(prisma, prismaSeatRepository);
+  const orderRepository = new CachedOrderRepository(prismaOrderRepository, redisCache);
+  const eventPublisher = new RabbitMQEventPublisher(RabbitMQClient.getInstance());
+
+  // Each refund publishes its own SeatRefundedEvent (ticket voided, refund email)
+  const bookingService = new BookingService(seatRepository, orderRepository, eventPublisher);
+  const gaService = new GeneralAdmissionService(
+    new PrismaGaInventoryRepository(prisma, prismaOrderRepository),
+    prismaOrderRepository,
+    eventPublisher
+  );
+
+  return new EventCancellationService(
+    seatRepository,
+    new PrismaSalesWindowRepository(prisma),
+    new PrismaEventCancellationRepository(prisma),
+    bookingService,
+    eventPublisher,
+    undefined,
+    undefined,
+    gaService
+  );
+}
+
+async function processEventRefundBatch(
+  message: EventRefundBatchMessage,
+  cancellationService: EventCancellationService
+): Promise<void> {
+  logger.info('Processing EventRefundBatch', {
+    cancellationId: message.cancellationId,
+    eventId: message.eventId,
+    batch: `${message.batchNumber}/${message.totalBatches}`,
+    seats: message.seatIds.length,
+    gaReservations: message.gaReservationIds?.length ?? 0,
+  });
+
+  const { refundedCount, failedRefunds, recorded } = await cancellationService.processRefundBatch(message);
+
+  if (!recorded) {
+    logger.info(`⏭️  Refund batch ${message.batchNumber} was already recorded`);
+    return;
+  }
+
+  if (failedRefunds.length > 0) {
+    logger.warn(`⚠️  ${failedRefunds.length} refund(s) failed`, {
+      seatIds: failedRefunds.flatMap((failure) => (failure.seatId ? [failure.seatId] : [])),
+      gaReservationIds: failedRefunds.flatMap((failure) => (failure.gaReservationId ? [failure.gaReservationId] : [])),
+    });
+  }
+
+  const cancellation = await cancellationService.getCancellation(message.eventId);
+  logger.info(`💸 Refund batch ${message.batchNumber}/${message.totalBatches} done`, {
+    refunded: refundedCount,
+    failed: failedRefunds.length,
+    progressPercent: cancellation.progressPercent(),
+  });
+
+  if (cancellation.isComplete()) {
+    logger.info(`🎉 All refunds processed for event ${message.eventId}`, {
+      refunded: cancellation.refundedCount,
+      failed: cancellation.failedCount,
+    });
+  }
+}
+
+async function sendCancellationEmail(
+  userId: string,
+  seatNumbers: string[],
+  gaTickets: { zoneName: string; quantity: number }[] = []
+): Promise<void> {
+  logger.info(`📧 Sending event cancellation email`, { userId, seatNumbers, gaTickets });
+
+  // Simulate email sending (1 second)
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+
+  logger.info(`✅ Cancellation email sent to user`);
+}
+
+async function sendRescheduleEmail(userId: string, seatNumbers: string[], newDate: string): Promise<void> {
+  logger.info(`📧 Sending event rescheduled email`, { userId, seatNumbers, newDate });
+
+  // Simulate email sending (1 second)
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+
+  logger.info(`✅ Reschedule email sent to user`);
+}
+
+/**
+ * Handles events published to the refund queue.
+ */
+async function processTicketRefundEvent(
+  message: TicketRefundMessage,
+  waitlistService: WaitlistService,
+  cancellationService: EventCancellationService
+): Promise<void> {
+  switch (message.eventType) {
+    case 'EVENT_REFUND_BATCH':
+      await processEventRefundBatch(message, cancellationService);
+      break;
+
+    default:
+      await processSeatRefundedEvent(message, waitlistService);
+  }
+}
+
+// ===========================================
+// TICKET TRANSFERS
+// ===========================================
+
+interface TicketTransferredMessage {
+  eventType: 'TICKET_TRANSFERRED';
+  transferId: string;
+  seatId: string;
+  eventId: string;
+  fromUserId: string;
+  toUserId: string;
+  toEmail: string;
+  seatNumber: string;
+  transferredAt: string;
+  correlationId?: string;
+}
+
+
+async function sendTransferEmail(toEmail: string, seatNumber: string): Promise<void> {
+  logger.info(`📧 Sending transferred ticket email`, { toEmail, seatNumber });
+
+  // Simulate email sending (1 second)
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+
+  logger.info(`✅ Transferred ticket email sent`);
+}
+
+async function sendGuestVerificationEmail(email: string, code: string, expiresAt: string): Promise<void> {
+  // The code is only logged in development, where no email is actually sent
+  logger.info(`📧 Sending guest verification code`, {
+    email,
+    expiresAt,
+    ...(process.env.NODE_ENV !== 'production' && { code }),
+  });
+
+  // Simulate email sending (1 second)
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+
+  logger.info(`✅ Guest verification email sent`);
+}
+
+async function sendTransferInviteEmail(toEmail: string, seatNumber: string, transferId: string): Promise<void> {
+  logger.info(`📧 Sending transfer invite email`, { toEmail, seatNumber, transferId });
+
+  // Simulate email sending (1 second)
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+
+  logger.info(`✅ Transfer invite email sent`);
+}
+
+async function processTicketTransferredEvent(message: TicketTransferredMessage): Promise<void> {
+  logger.info('Processing TicketTransferredEvent', {
+    transferId: message.transferId,
+    seatId: message.seatId,
+    fromUserId: message.fromUserId,
+    toUserId: message.toUserId,
+  });
+
+  // Step 1: The sender's ticket must no longer scan at the door
+  await voidTicketPDF(message.seatId, message.transferId);
+
+  // Step 2: Issue a fresh ticket in the recipient's name
+  await generatePDF(message.seatId, message.seatNumber);
+
+  // Step 3: Deliver it
+  await sendTransferEmail(message.toEmail, message.seatNumber);
+
+  logger.info(`🎉 Transfer processing complete for Seat ${message.seatNumber}`);
+}
+
+// ===========================================
+// RESALE
+// ===========================================
+
+interface TicketResoldMessage {
+  eventType: 'TICKET_RESOLD';
+  listingId: string;
+  orderId: string;
+  seatId: string;
+  eventId: string;
+  sellerId: string;
+  buyerId: string;
+  seatNumber: string;
+  price: number;
+  sellerPayout: number;
+  resoldAt: string;
+  correlationId?: string;
+}
+
+// ===========================================
+// GENERAL ADMISSION
+// ===========================================
+
+interface GaTicketsSoldMessage {
+  eventType: 'GA_TICKETS_SOLD';
+  orderId?: string; // Missing in messages published before GA purchases recorded orders
+  reservationId: string;
+  zoneId: string;
+  eventId: string;
+  userId: string;
+  deliveryEmail?: string | null; // Missing in messages published before guest checkout
+  zoneName: string;
+  quantity: number;
+  totalAmount: number;
+  soldAt: string;
+  correlationId?: string;
+}
+
+type TicketGenerationMessage =
+  | SeatSoldMessage
+  | TicketTransferredMessage
+  | TicketResoldMessage
+  | GaTicketsSoldMessage;
+
+async function sendPayoutEmail(sellerId: string, seatNumber: string, payout: number): Promise<void> {
+  logger.info(`📧 Sending resale payout email`, { sellerId, seatNumber, payout });
+
+  // Simulate email sending (1 second)
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+
+  logger.info(`✅ Resale payout email sent to seller`);
+}
+
+async function processTicketResoldEvent(message: TicketResoldMessage): Promise<void> {
+  logger.info('Processing TicketResoldEvent', {
+    listingId: message.listingId,
+    orderId: message.orderId,
+    seatId: message.seatId,
+    sellerId: message.sellerId,
+    buyerId: message.buyerId,
+    price: message.price,
+  });
+
+  // Step 1: The seller's ticket must no longer scan at the door
+  await voidTicketPDF(message.seatId, message.listingId);
+
+  // Step 2: Issue a fresh ticket in the buyer's name
+  await generatePDF(message.seatId, message.seatNumber);
+
+  // Step 3: Deliver it
+  await sendEmailNotification(message.buyerId, message.seatNumber);
+
+  // Step 4: Let the seller know their payout is on the way
+  await sendPayoutEmail(message.sellerId, message.seatNumber, message.sellerPayout);
+
+  logger.info(`🎉 Resale processing complete for Seat ${message.seatNumber}`);
+}
+
+async function processGaTicketsSoldEvent(message: GaTicketsSoldMessage): Promise<void> {
+  logger.info('Processing GaTicketsSoldEvent', {
+    orderId: message.orderId,
+    reservationId: message.reservationId,
+    zoneId: message.zoneId,
+    userId: message.userId,
+    quantity: message.quantity,
+    totalAmount: message.totalAmount,
+  });
+
+  // Step 1: One PDF per ticket - GA tickets are scanned individually at the door
+  for (let ticket = 1; ticket <= message.quantity; ticket++) {
+    await generatePDF(`${message.reservationId}-${ticket}`, `${message.zoneName} #${ticket}`);
+  }
+
+  // Step 2: Send email notification (guests have no account to look the address up from)
+  await sendEmailNotification(message.userId, message.zoneName, message.deliveryEmail ?? null);
+
+  logger.info(`🎉 All processing complete for ${message.quantity} ${message.zoneName} tickets`);
+}
+
+/**
+ * Handles events published to the ticket generation queue.
+ */
+async function processTicketGenerationEvent(message: TicketGenerationMessage): Promise<void> {
+  switch (message.eventType) {
+    case 'TICKET_TRANSFERRED':
+      await processTicketTransferredEvent(message);
+      break;
+
+    case 'TICKET_RESOLD':
+      await processTicketResoldEvent(message);
+      break;
+
+    case 'GA_TICKETS_SOLD':
+      await processGaTicketsSoldEvent(message);
+      break;
+
+    default:
+      await processSeatSoldEvent(message);
+  }
+}
+
+// ===========================================
+// WAITLIST
+// ===========================================
+
+function createWaitlistService(): WaitlistService {
+  const prismaSeatRepository = new PrismaSeatRepository(prisma);
+  const redisCache = new RedisService(60);
+  const seatRepository = new CachedSeatRepository(prismaSeatRepository, redisCache, 60);
+  const waitlistRepository = new CachedWaitlistRepository(
+    new PrismaWaitlistRepository(prisma, prismaSeatRepository),
+    redisCache
+  );
+  const eventPublisher = new RabbitMQEventPublisher(RabbitMQClient.getInstance());
+
+  // Seats of events off sale (e.g. cancelled) aren't offered
+  return new WaitlistService(
+    seatRepository,
+    waitlistRepository,
+    eventPublisher,
+    undefined, // Default offer duration
+    new PrismaSalesWindowRepository(prisma)
+  );
+}
+
+async function offerSeatToWaitlist(waitlistService: WaitlistService, seatId: string): Promise<void> {
+  const entry = await waitlistService.offerSeat(seatId);
+
+  if (entry) {
+    logger.info(`📣 Seat offered to waitlisted user`, {
+      seatId,
+      userId: entry.userId,
+      offerExpiresAt: entry.offerExpiresAt,
+    });
+  }
+}
+
+async function sendWaitlistOfferEmail(
+  userId: string,
+  seatNumber: string,
+  offerExpiresAt: string
+): Promise<void> {
+  logger.info(`📧 Sending waitlist offer email`, { userId, seatNumber, offerExpiresAt });
+
+  // Simulate email sending (1 second)
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+
+  logger.info(`✅ Waitlist offer email sent to user`);
+}
+
+interface NotificationMessage {
+  eventType: string;
+  seatId: string;
+  userId: string;
+  seatNumber: string;
+  offerExpiresAt?: string; // WAITLIST_OFFERED only
+  transferId?: string;     // TICKET_TRANSFER_REQUESTED only
+  toEmail?: string;        // TICKET_TRANSFER_REQUESTED only
+  recipients?: {                                            // EVENT_CANCELLED and EVENT_RESCHEDULED only
+    userId: string;
+    seatNumbers: string[];
+    gaTickets?: { zoneName: string; quantity: number }[];     // EVENT_CANCELLED only
+  }[];
+  newDate?: string;        // EVENT_RESCHEDULED only
+  email?: string;          // GUEST_VERIFICATION_REQUESTED only
+  code?: string;           // GUEST_VERIFICATION_REQUESTED only
+  expiresAt?: string;      // GUEST_VERIFICATION_REQUESTED only
+  correlationId?: string;
+}
+
+/**
+ * Handles events published to the notification queue.
+ * Only SEAT_RELEASED, WAITLIST_OFFERED, TICKET_TRANSFER_REQUESTED,
+ * EVENT_CANCELLED, EVENT_RESCHEDULED and GUEST_VERIFICATION_REQUESTED need
+ * work; others are acknowledged.
+ */
+async function processNotificationEvent(
+  message: NotificationMessage,
+  waitlistService: WaitlistService
+): Promise<void> {
+  switch (message.eventType) {
+    case 'SEAT_RELEASED':
+      await offerSeatToWaitlist(waitlistService, message.seatId);
+      break;
+
+    case 'WAITLIST_OFFERED':
+      await sendWaitlistOfferEmail(message.userId, message.seatNumber, message.offerExpiresAt!);
+      break;
+
+    case 'TICKET_TRANSFER_REQUESTED':
+      await sendTransferInviteEmail(message.toEmail!, message.seatNumber, message.transferId!);
+      break;
+
+    case 'EVENT_CANCELLED':
+      for (const recipient of message.recipients!) {
+        await sendCancellationEmail(recipient.userId, recipient.seatNumbers, recipient.gaTickets);
+      }
+      break;
+
+    case 'EVENT_RESCHEDULED':
+      for (const recipient of message.recipients!) {
+        await sendRescheduleEmail(recipient.userId, recipient.seatNumbers, message.newDate!);
+      }
+      break;
+
+    case 'GUEST_VERIFICATION_REQUESTED':
+      await sendGuestVerificationEmail(message.email!, message.code!, message.expiresAt!);
+      break;
+
+    default:
+      logger.info(`⏭️  No processing needed for ${message.eventType}`);
+  }
+}
+
+// ===========================================
+// LOCK EXPIRY SWEEPER
+// ===========================================
+
+/**
+ * Periodically releases seats and GA tickets whose checkout lock expired.
+ * Goes through the cached repository so seat-map caches are invalidated,
+ * and hands the presale quota held by expired locks back to the codes.
+ */
+function startLockExpirySweeper(): NodeJS.Timeout {
+  const seatRepository = new CachedSeatRepository(
+    new PrismaSeatRepository(prisma),
+    new RedisService(60),
+    60
+  );
+  const eventPublisher = new RabbitMQEventPublisher(RabbitMQClient.getInstance());
+  const presaleRepository = new PrismaPresaleRepository(prisma);
+  const sweeper = new LockExpirySweeper(seatRepository, eventPublisher, undefined, presaleRepository);
+  const prismaOrderRepository = new PrismaOrderRepository(prisma, new PrismaSeatRepository(prisma));
+  const gaService = new GeneralAdmissionService(
+    new PrismaGaInventoryRepository(prisma, prismaOrderRepository),
+    prismaOrderRepository,
+    undefined,
+    undefined,
+    undefined,
+    presaleRepository
+  );
+  let isSweeping = false;
+
+  logger.info(`🧹 Lock expiry sweeper running every ${LOCK_SWEEP_INTERVAL_MS}ms`);
+
+  return setInterval(async () => {
+    // Skip this tick if the previous sweep is still running
+    if (isSweeping) return;
+    isSweeping = true;
+
+    try {
+      const releasedSeats = await sweeper.sweep();
+      if (releasedSeats.length > 0) {
+        logger.info('🔓 Expired seat locks released', {
+          seatIds: releasedSeats.map((seat) => seat.id),
+        });
+      }
+
+      const expiredReservations = await gaService.expireLocks();
+      if (expiredReservations.length > 0) {
+        logger.info('🔓 Expired GA locks released', {
+          reservationIds: expiredReservations.map((reservation) => reservation.id),
+        });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error('❌ Lock expiry sweep failed', { error: errorMessage });
+    } finally {
+      isSweeping = false;
+    }
+  }, LOCK_SWEEP_INTERVAL_MS);
+}
+
+// ===========================================
+// MESSAGE CONSUMER WITH CORRELATION ID EXTRACTION
+// ===========================================
+
+/**
+ * Consumes a durable queue with manual acknowledgment.
+ * The message is ACKed only after the handler succeeds; failures are requeued.
+ */
+async function consumeQueue<T>(
+  channel: amqp.Channel,
+  queue: string,
+  handler: (message: T) => Promise<void>
+): Promise<void> {
+  // Assert queue exists (durable = survives restart)
+  await channel.assertQueue(queue, {
+    durable: true,
+  });
+
+  logger.info(`👂 Listening on queue: ${queue}`);
+
+  await channel.consume(
+    queue,
+    async (msg) => {
+      if (!msg) return;
+
+      const startTime = Date.now();
+
+      try {
+        // ================================================================
+        // EXTRACT CORRELATION ID FROM MESSAGE HEADERS
+        // ================================================================
+        // This allows us to trace the request from the API to the worker.
+        // The same UUID appears in both the API logs and Worker logs.
+        // ================================================================
+        const messageHeaders = msg.properties.headers || {};
+        const correlationIdFromHeader = messageHeaders['x-correlation-id'] as string | undefined;
+        const messageContent = JSON.parse(msg.content.toString());
+
+        // Priority: header > message body > generate new
+        currentCorrelationId = 
+          correlationIdFromHeader ?? 
+          messageContent.correlationId ?? 
+          uuidv4();
+
+        logger.info('📨 Message received', {
+          queue,
+          correlationIdSource: correlationIdFromHeader ? 'header' : 
+            messageContent.correlationId ? 'body' : 'generated',
+          // Set when a partner's API key request triggered the event
+          ...(messageContent.partnerId && { partnerId: messageContent.partnerId }),
+        });
+
+        // DEBUG: Log the exact payload to debug "undefined" issues
+        // (guest verification codes are one-time secrets, keep them out of the logs)
+        logger.info("📦 Received Payload (Winston):", {
+          payload: 'code' in messageContent ? { ...messageContent, code: '[REDACTED]' } : messageContent,
+        });
+
+        // Process the message
+        await handler(messageContent as T);
+
+        // ================================================================
+        // ✅ ACK ONLY AFTER SUCCESSFUL PROCESSING
+        // ================================================================
+        channel.ack(msg);
+
+        const duration = Date.now() - startTime;
+        logger.info(`⏱️  Processing complete`, { durationMs: duration });
+
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error('❌ Error processing message', { queue, error: errorMessage });
+
+        // NACK with requeue=true to retry later
+        channel.nack(msg, false, true);
+        logger.warn('🔄 Message requeued for retry');
+      } finally {
+        // Reset for next message
+        currentCorrelationId = 'idle';
+      }
+    },
+    { noAck: false }
+  );
+}
+
 // ===========================================
 // MAIN WORKER FUNCTION
 // ===========================================
@@ -113,84 +800,30 @@ async function startWorker(): Promise<void> {
     const connection = await amqp.connect(RABBITMQ_URL);
     const channel = await connection.createChannel();
 
-    // Assert queue exists (durable = survives restart)
-    await channel.assertQueue(TICKET_GENERATION_QUEUE, {
-      durable: true,
-    });
-
     // Set prefetch to 1 (process one message at a time)
     await channel.prefetch(1);
 
     logger.info('✅ Connected to RabbitMQ');
-    logger.info(`👂 Listening on queue: ${TICKET_GENERATION_QUEUE}`);
-    logger.info('Waiting for messages... (Press Ctrl+C to exit)');
 
-    // ================================================================
-    // MESSAGE CONSUMER WITH CORRELATION ID EXTRACTION
-    // ================================================================
-    await channel.consume(
-      TICKET_GENERATION_QUEUE,
-      async (msg) => {
-        if (!msg) return;
-
-        const startTime = Date.now();
-
-        try {
-          // ================================================================
-          // EXTRACT CORRELATION ID FROM MESSAGE HEADERS
-          // ================================================================
-          // This allows us to trace the request from the API to the worker.
-          // The same UUID appears in both the API logs and Worker logs.
-          // ================================================================
-          const messageHeaders = msg.properties.headers || {};
-          const correlationIdFromHeader = messageHeaders['x-correlation-id'] as string | undefined;
-          const messageContent = JSON.parse(msg.content.toString());
-
-          // DEBUG: Log the exact payload to debug "undefined" issues
-          console.log("📦 Received Payload:", messageContent);
-          logger.info("📦 Received Payload (Winston):", { payload: messageContent });
-          
-          await processSeatSoldEvent(messageContent);
-          // Priority: header > message body > generate new
-          currentCorrelationId = 
-            correlationIdFromHeader ?? 
-            messageContent.correlationId ?? 
-            uuidv4();
-
-          logger.info('📨 Message received', {
-            correlationIdSource: correlationIdFromHeader ? 'header' : 
-              messageContent.correlationId ? 'body' : 'generated',
-          });
-
-          // Process the message - ALREADY PROCESSED ABOVE
-          // await processSeatSoldEvent(messageContent);
-
-          // ================================================================
-          // ✅ ACK ONLY AFTER SUCCESSFUL PROCESSING
-          // ================================================================
-          channel.ack(msg);
-
-          const duration = Date.now() - startTime;
-          logger.info(`⏱️  Processing complete`, { durationMs: duration });
-
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          logger.error('❌ Error processing message', { error: errorMessage });
-
-          // NACK with requeue=true to retry later
-          channel.nack(msg, false, true);
-          logger.warn('🔄 Message requeued for retry');
-        } finally {
-          // Reset for next message
-          currentCorrelationId = 'idle';
-        }
-      },
-      { noAck: false }
+    const waitlistService = createWaitlistService();
+    const cancellationService = createEventCancellationService();
+
+    await consumeQueue(channel, TICKET_GENERATION_QUEUE, processTicketGenerationEvent);
+    await consumeQueue<TicketRefundMessage>(channel, TICKET_REFUND_QUEUE, (message) =>
+      processTicketRefundEvent(message, waitlistService, cancellationService)
+    );
+    await consumeQueue<NotificationMessage>(channel, NOTIFICATION_QUEUE, (message) =>
+      processNotificationEvent(message, waitlistService)
     );
 
+    logger.info('Waiting for messages... (Press Ctrl+C to exit)');
+
+    const sweepTimer = startLockExpirySweeper();
+
     // Handle graceful shutdown
     process.on('SIGINT', async () => {
       logger.info('🛑 Shutting down worker...');
+      clearInterval(sweepTimer);
       await channel.close();
       await connection.close();
       logger.info('👋 Worker stopped gracefully');
@@ -199,6 +832,7 @@ async function startWorker(): Promise<void> {
 
     process.on('SIGTERM', async () => {
       logger.info('🛑 Received SIGTERM, shutting down...');
+      clearInterval(sweepTimer);
       await channel.close();
       await connection.close();
       process.exit(0);